@@ -69,6 +69,12 @@ export default defineConfig({
           items: [
             { text: 'Commands & CLI', link: '/guides/commands' },
             { text: 'Typed Routes & Schemas', link: '/guides/typed-routes' },
+            { text: 'Entity Controllers', link: '/guides/entity-controllers' },
+            { text: 'Migrations & Seeding', link: '/guides/migrations' },
+            { text: 'Database Connections', link: '/guides/database-connections' },
+            { text: 'Audit Log', link: '/guides/audit-log' },
+            { text: 'Transactional Outbox', link: '/guides/outbox' },
+            { text: 'Multi-Tenancy', link: '/guides/multi-tenancy' },
             { text: 'WebSocket', link: '/guides/websocket' },
             { text: 'Authentication', link: '/guides/authentication' },
             { text: 'Testing', link: '/guides/testing' },
@@ -1,7 +1,22 @@
+import type { ApiKeyConfig } from '../auth/api-key.interface.js';
+import type { AuthorizationConfig } from '../auth/authorization.interface.js';
+import type { HmacConfig } from '../auth/hmac.interface.js';
+import type { AuthRevocationConfig, JwtConfig } from '../auth/jwt.interface.js';
+import type { AuthenticationStrategyName } from '../auth/strategy.interface.js';
 import type { ClusterManagerConfig } from '../cluster/cluster-manager.interface.js';
+import type { ApplicationAuditConfig } from '../database/audit.interface.js';
+import type {
+  ApplicationDatabaseConnectionConfig,
+  ApplicationDatabaseReplicaConfig,
+  DatabaseDriver,
+} from '../database/manager.interface.js';
+import type { ApplicationMigrationsConfig, ApplicationSeedersConfig } from '../database/migration.interface.js';
+import type { ApplicationOutboxConfig } from '../database/outbox.interface.js';
 import type { EventDefinition } from '../event/manager.interface.js';
 import type { PerformanceMonitorOptions, PerformanceThresholds } from '../performance/performance-monitor.js';
 import type { QueueItem } from '../queue/index.interface.js';
+import type { ApplicationRateLimitConfig } from '../rate-limit/rate-limit.interface.js';
+import type { ApplicationTenancyConfig } from '../tenancy/tenancy.interface.js';
 import type {
   WebServerDebugOptions,
   WebServerLogConfig,
@@ -39,23 +54,47 @@ export interface ApplicationDatabaseConfig {
   /** Whether to enable database */
   enabled: boolean;
 
-  /** Database host */
-  host: string;
+  /** Driver (default: postgresql) */
+  driver?: DatabaseDriver;
 
-  /** Database port */
-  port: number;
+  /** Database host (postgresql, mysql and mariadb) */
+  host?: string;
 
-  /** Database username */
-  username: string;
+  /** Database port (default: 5432 for postgresql, 3306 for mysql and mariadb) */
+  port?: number;
 
-  /** Database password */
-  password: string;
+  /** Database username (postgresql, mysql and mariadb) */
+  username?: string;
+
+  /** Database password (postgresql, mysql and mariadb), or auth token of a remote libSQL database */
+  password?: string;
 
-  /** Database name */
+  /** Database name, or file path, `:memory:` or URL for sqlite and libsql */
   databaseName: string;
 
+  /** Options passed to the driver (MikroORM `driverOptions`), e.g. pool or TLS settings */
+  driverOptions?: Record<string, unknown>;
+
   /** Entities directory */
   entitiesDirectory: string;
+
+  /** Read replicas of the default connection */
+  replicas?: ApplicationDatabaseReplicaConfig[];
+
+  /** Additional named connections, e.g. `{ analytics: { host, port, ... } }` */
+  connections?: Record<string, ApplicationDatabaseConnectionConfig>;
+
+  /** Migrations, optionally run on startup */
+  migrations?: ApplicationMigrationsConfig;
+
+  /** Seeders */
+  seeders?: ApplicationSeedersConfig;
+
+  /** Audit log of entity mutations */
+  audit?: ApplicationAuditConfig;
+
+  /** Transactional outbox for queue jobs, events and Redis messages */
+  outbox?: ApplicationOutboxConfig;
 }
 
 export interface ApplicationQueueConfig {
@@ -72,6 +111,7 @@ export interface ApplicationQueueConfig {
     queueRegistered?: boolean;
     queuesRegistered?: boolean;
     queueWaiting?: boolean;
+    schedulesReconciled?: boolean;
   };
 }
 
@@ -88,9 +128,21 @@ export interface ApplicationEventConfig {
 
 export type ApplicationEmailConfig = Record<string, never>;
 
-export interface ApplicationAuthConfig {
-  /** JWT secret key for token verification */
-  jwtSecretKey: string;
+export interface ApplicationAuthConfig extends JwtConfig {
+  /** Strategies used by `authGuard` and `authenticateRequest` (default: `['jwt']`) */
+  strategies?: AuthenticationStrategyName[];
+
+  /** API key authentication */
+  apiKey?: ApiKeyConfig;
+
+  /** HMAC request signature authentication */
+  hmac?: HmacConfig;
+
+  /** Refresh token tracking and revoked token denylist (stored in Redis) */
+  revocation?: AuthRevocationConfig;
+
+  /** Role and permission resolution */
+  authorization?: AuthorizationConfig;
 }
 
 // this.applicationConfig.webSocket.serverMessageHandler(
@@ -217,4 +269,10 @@ export interface ApplicationConfig {
 
   /** Authentication configuration */
   auth?: ApplicationAuthConfig;
+
+  /** Multi-tenancy configuration */
+  tenancy?: ApplicationTenancyConfig;
+
+  /** Rate limit store and named policies */
+  rateLimit?: ApplicationRateLimitConfig;
 }
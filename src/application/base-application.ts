@@ -6,8 +6,10 @@ import { fileURLToPath } from 'node:url';
 import CacheManager from '../cache/manager.js';
 import ClusterManager from '../cluster/cluster-manager.js';
 import { ConfigValidationError, formatConfigIssues, validateFrameworkConfig } from '../config/schema.js';
-import { type DatabaseInstance, DatabaseManager } from '../database/index.js';
+import { type DatabaseInstance, DatabaseManager, Migration } from '../database/index.js';
+import { ErrorCode } from '../error/error.interface.js';
 import { safeSerializeError } from '../error/error-reporter.js';
+import { LifecycleError } from '../error/framework-errors.js';
 import EventManager from '../event/manager.js';
 import { type ExitOutcome, requestExit } from '../lifecycle/exit.js';
 import { type LifecycleConfig, LifecycleManager, ShutdownController } from '../lifecycle/index.js';
@@ -132,6 +134,7 @@ export default abstract class BaseApplication {
     // Initialize cache manager
     this.cacheManager = new CacheManager({
       redisManager: this.redisManager,
+      tenantScoped: this.config.tenancy?.enabled === true,
     });
 
     // Register performance monitor plugin (idempotent & opt-in)
@@ -154,12 +157,29 @@ export default abstract class BaseApplication {
       // Initialize Database manager
       this.databaseManager = new DatabaseManager({
         applicationConfig: this.config,
+        driver: this.config.database.driver,
         host: this.config.database.host,
         port: this.config.database.port,
         username: this.config.database.username,
         password: this.config.database.password,
         databaseName: this.config.database.databaseName,
+        driverOptions: this.config.database.driverOptions,
         entitiesDirectory: this.config.database.entitiesDirectory,
+        replicas: this.config.database.replicas,
+        connections: this.config.database.connections,
+        migrations: {
+          ...this.config.database.migrations,
+          directory:
+            this.config.database.migrations?.directory ??
+            join(this.config.rootDirectory, 'src', 'database', 'migrations'),
+        },
+        seeders: {
+          ...this.config.database.seeders,
+          directory:
+            this.config.database.seeders?.directory ?? join(this.config.rootDirectory, 'src', 'database', 'seeders'),
+        },
+        audit: this.config.database.audit,
+        outbox: this.config.database.outbox,
       });
     }
   }
@@ -241,13 +261,11 @@ export default abstract class BaseApplication {
   }
 
   /**
-   * Before application start
+   * Connect to Redis and the database
    */
-  private async onBeforeStart(): Promise<{
+  private async connectServices(): Promise<{
     redisInstance: RedisInstance;
     databaseInstance: DatabaseInstance | null;
-    queueManager: QueueManager;
-    eventManager?: EventManager;
   }> {
     const phaseStartTime = Time.now();
 
@@ -275,6 +293,56 @@ export default abstract class BaseApplication {
       }
     }
 
+    return { redisInstance, databaseInstance };
+  }
+
+  /**
+   * Run pending migrations in the init phase when `database.migrations.runOnStartup` is enabled.
+   * A Redis lock makes cluster workers migrate one after another.
+   */
+  private registerStartupMigrations({
+    redisInstance,
+    databaseInstance,
+  }: {
+    redisInstance: RedisInstance;
+    databaseInstance: DatabaseInstance | null;
+  }): void {
+    const migrations = this.config.database?.migrations;
+
+    if (!databaseInstance || !migrations?.runOnStartup) {
+      return;
+    }
+
+    this.lifecycle.onInit(async () => {
+      try {
+        await Migration.migrateWithLock({
+          databaseInstance,
+          redisInstance,
+          applicationName: this.config.name,
+          lockTtlSeconds: migrations.lockTtlSeconds,
+        });
+      } catch (error) {
+        throw new LifecycleError('Database migrations failed', {
+          code: ErrorCode.DATABASE_MIGRATION_FAILED,
+          cause: error,
+        });
+      }
+    });
+  }
+
+  /**
+   * Before application start
+   */
+  private async onBeforeStart({
+    redisInstance,
+    databaseInstance,
+  }: {
+    redisInstance: RedisInstance;
+    databaseInstance: DatabaseInstance | null;
+  }): Promise<{
+    queueManager: QueueManager;
+    eventManager?: EventManager;
+  }> {
     let eventManager: EventManager | undefined;
 
     if (this.config.event?.enabled) {
@@ -302,6 +370,8 @@ export default abstract class BaseApplication {
       eventManager,
     });
 
+    this.databaseManager?.setQueueManager(queueManager);
+
     // Register queues
     await queueManager.registerQueues({
       queues: this.config.queue.queues,
@@ -324,11 +394,19 @@ export default abstract class BaseApplication {
           return false;
         }
       });
+
+      for (const connection of Object.keys(this.config.database?.connections ?? {})) {
+        this.lifecycle.addReadinessCheck(`database:${connection}`, async () => {
+          try {
+            return await databaseInstance.isConnected(connection);
+          } catch {
+            return false;
+          }
+        });
+      }
     }
 
     return {
-      redisInstance,
-      databaseInstance,
       queueManager,
       eventManager,
     };
@@ -349,6 +427,11 @@ export default abstract class BaseApplication {
    */
   private async startInstance(options: ApplicationStartInstanceOptions): Promise<void> {
     try {
+      // Connect to Redis and the database, so that init hooks can use them
+      const { redisInstance, databaseInstance } = await this.connectServices();
+
+      this.registerStartupMigrations({ redisInstance, databaseInstance });
+
       // Phase 1: Initialize (resource setup)
       if (process.env.DEBUG_TESTS) {
         console.log('[startInstance] Phase 1: Initializing lifecycle...');
@@ -364,14 +447,21 @@ export default abstract class BaseApplication {
           message: 'Lifecycle init phase encountered errors',
           meta: { errors: initResult.errors.map(e => (e instanceof Error ? e.message : String(e))) },
         });
+
+        // Lifecycle errors (e.g. failed startup migrations) abort the start
+        const lifecycleError = initResult.errors.find(error => error instanceof LifecycleError);
+
+        if (lifecycleError) {
+          throw lifecycleError;
+        }
       }
 
       // Before application start
       if (process.env.DEBUG_TESTS) {
-        console.log('[startInstance] Connecting to services (Redis, Database, Queue, Events)...');
+        console.log('[startInstance] Setting up services (Queue, Events)...');
       }
       const beforeStartTime = Time.now();
-      const { redisInstance, databaseInstance, queueManager, eventManager } = await this.onBeforeStart();
+      const { queueManager, eventManager } = await this.onBeforeStart({ redisInstance, databaseInstance });
 
       // Store managers on instance for external access
       this.queueManager = queueManager;
@@ -381,7 +471,7 @@ export default abstract class BaseApplication {
 
       if (process.env.DEBUG_TESTS) {
         const beforeStartElapsed = Time.calculateElapsedTimeMs({ startTime: beforeStartTime });
-        console.log(`[startInstance] Services connected (${beforeStartElapsed}ms)`);
+        console.log(`[startInstance] Services set up (${beforeStartElapsed}ms)`);
       }
 
       // Phase 2: Start (component startup)
@@ -1,5 +1,7 @@
 import type { CommandConstructorParams } from '../command/command.interface.js';
 import type Command from '../command/command.js';
+import DatabaseCommands from '../command/database-commands.js';
+import QueueCommands from '../command/queue-commands.js';
 import type DatabaseInstance from '../database/instance.js';
 import { Logger } from '../logger/index.js';
 import type QueueManager from '../queue/manager.js';
@@ -8,6 +10,8 @@ import { File, Helper, Loader, Time } from '../util/index.js';
 import BaseApplication from './base-application.js';
 import type { CommandApplicationConfig } from './command-application.interface.js';
 
+const BuiltInCommands = { ...DatabaseCommands, ...QueueCommands };
+
 export default class CommandApplication extends BaseApplication {
   /** Command application config */
   protected config: CommandApplicationConfig;
@@ -64,9 +68,11 @@ export default class CommandApplication extends BaseApplication {
 
     const inputCommandName = parsedArgv._[0];
 
+    const isBuiltInCommand = Object.hasOwn(BuiltInCommands, inputCommandName);
+
     const commandsDirectoryExists = await File.pathExists(this.config.commandsDirectory);
 
-    if (!commandsDirectoryExists) {
+    if (!commandsDirectoryExists && !isBuiltInCommand) {
       Logger.warn({
         message: 'Commands directory not found',
         meta: {
@@ -78,15 +84,21 @@ export default class CommandApplication extends BaseApplication {
     }
 
     // Load commands
-    const commands = await Loader.loadModulesInDirectory({
-      directory: this.config.commandsDirectory,
-      extensions: ['.ts', '.js'],
-    });
-
-    // Find command by name - use safe property access to prevent object injection
+    const commands = commandsDirectoryExists
+      ? await Loader.loadModulesInDirectory({
+          directory: this.config.commandsDirectory,
+          extensions: ['.ts', '.js'],
+        })
+      : {};
+
+    // Find command by name, falling back to built-in commands - use safe property access to prevent object injection
     let CommandClass: (new (params: CommandConstructorParams) => Command) | null = null;
     if (Object.hasOwn(commands, inputCommandName)) {
       CommandClass = Reflect.get(commands, inputCommandName) as new (params: CommandConstructorParams) => Command;
+    } else if (isBuiltInCommand) {
+      CommandClass = Reflect.get(BuiltInCommands, inputCommandName) as new (
+        params: CommandConstructorParams,
+      ) => Command;
     }
 
     if (!CommandClass) {
@@ -65,6 +65,9 @@ export default class WebApplication extends BaseApplication {
           routesDirectory: this.config.webServer.routesDirectory,
           cors: this.config.webServer.cors,
           security: this.config.webServer.security,
+          openApi: this.config.webServer.openApi,
+          pagination: this.config.webServer.pagination,
+          idempotency: this.config.webServer.idempotency,
           log: this.config.webServer.log,
           debug: this.config.webServer.debug,
         },
@@ -1,4 +1,5 @@
 import type DatabaseInstance from '../database/instance.js';
+import OutboxRelay from '../database/outbox-relay.js';
 import type EventManager from '../event/manager.js';
 import { Logger } from '../logger/index.js';
 import type QueueManager from '../queue/manager.js';
@@ -42,6 +43,9 @@ export default class WorkerApplication extends BaseApplication {
   /** Worker application config */
   protected config: WorkerApplicationConfig;
 
+  /** Outbox relay (when `database.outbox` is enabled) */
+  private outboxRelay?: OutboxRelay;
+
   constructor(config: WorkerApplicationConfig) {
     super(config);
 
@@ -64,10 +68,10 @@ export default class WorkerApplication extends BaseApplication {
    * are already running. It registers a readiness check for monitoring.
    */
   protected async startHandler({
-    redisInstance: _redisInstance,
-    databaseInstance: _databaseInstance,
-    queueManager: _queueManager,
-    eventManager: _eventManager,
+    redisInstance,
+    databaseInstance,
+    queueManager,
+    eventManager,
   }: {
     redisInstance: RedisInstance;
     databaseInstance: DatabaseInstance | null;
@@ -82,6 +86,21 @@ export default class WorkerApplication extends BaseApplication {
       // Workers are ready if queueManager exists and has registered queues
       return !!this.queueManager;
     });
+
+    // Deliver transactional outbox messages
+    const outboxConfig = this.config.database?.outbox;
+
+    if (databaseInstance && outboxConfig?.enabled && outboxConfig.relay?.enabled !== false) {
+      this.outboxRelay = new OutboxRelay({
+        databaseInstance,
+        queueManager,
+        redisInstance,
+        eventManager: eventManager ?? undefined,
+        options: outboxConfig.relay,
+      });
+
+      this.outboxRelay.start();
+    }
   }
 
   /**
@@ -90,6 +109,8 @@ export default class WorkerApplication extends BaseApplication {
   protected async stopCallback(): Promise<void> {
     Logger.info({ message: 'Worker application stopping' });
 
+    await this.outboxRelay?.stop();
+
     // Note: QueueWorkers are closed automatically by BullMQ when the process exits
     // and Redis connections are cleaned up by BaseApplication shutdown hooks
   }
@@ -0,0 +1,55 @@
+/**
+ * Stored API key. Only the SHA-256 hash of the key is stored.
+ */
+export interface ApiKeyRecord {
+  /** Key ID */
+  id: string;
+
+  /** Owning user (`0` is used for keys not owned by a user) */
+  userId?: number;
+
+  /** Permissions granted to the key */
+  scopes?: string[];
+
+  /** Roles granted to the key (expanded with `auth.authorization.roles`) */
+  roles?: string[];
+
+  /** Tenant the key belongs to, with multi-tenancy */
+  tenantId?: string;
+
+  /** Expiry date, after which the key is rejected */
+  expiresAt?: Date | string | null;
+
+  /** Revocation date, after which the key is rejected */
+  revokedAt?: Date | string | null;
+}
+
+/**
+ * Look up API keys (e.g. from the database).
+ */
+export interface ApiKeyStore {
+  /** Find a key by the SHA-256 hex hash of its value */
+  findByHash(hash: string): ApiKeyRecord | null | undefined | Promise<ApiKeyRecord | null | undefined>;
+
+  /** Record that a key was used */
+  markUsed?(params: { id: string; usedAt: Date }): void | Promise<void>;
+}
+
+export interface ApiKeyConfig {
+  /** Header carrying the key (default: `x-api-key`) */
+  header?: string;
+
+  /** Key store */
+  store: ApiKeyStore;
+
+  /** Minimum seconds between `markUsed` calls for one key, throttled through Redis (default: 60) */
+  lastUsedInterval?: number;
+}
+
+export interface GeneratedApiKey {
+  /** Key value, shown to the user once */
+  key: string;
+
+  /** SHA-256 hex hash of the key, to store */
+  hash: string;
+}
@@ -0,0 +1,158 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { StatusCodes } from 'http-status-codes';
+import { Logger } from '../logger/index.js';
+import type { ApiKeyRecord, GeneratedApiKey } from './api-key.interface.js';
+import type { AuthenticatedUser } from './authenticate.js';
+import Authorization from './authorization.js';
+import type { AuthenticationStrategy, AuthenticationStrategyContext } from './strategy.interface.js';
+
+const DEFAULT_HEADER = 'x-api-key';
+const DEFAULT_LAST_USED_INTERVAL = 60;
+const DEFAULT_KEY_PREFIX = 'auth:';
+
+/**
+ * Hash an API key for storage and lookup (SHA-256, hex).
+ */
+const hashApiKey = (key: string): string => createHash('sha256').update(key).digest('hex');
+
+/**
+ * Generate a random API key. Store the returned hash and show the key to its owner once.
+ *
+ * @example
+ * const { key, hash } = ApiKey.generateApiKey({ prefix: 'acme' }); // key: acme_...
+ */
+const generateApiKey = ({ prefix = 'pxl' }: { prefix?: string } = {}): GeneratedApiKey => {
+  const key = `${prefix}_${randomBytes(32).toString('base64url')}`;
+
+  return { key, hash: hashApiKey(key) };
+};
+
+/**
+ * Whether a key has neither expired nor been revoked.
+ */
+const isApiKeyActive = (record: ApiKeyRecord, now: Date = new Date()): boolean => {
+  if (record.revokedAt && new Date(record.revokedAt) <= now) {
+    return false;
+  }
+
+  if (record.expiresAt && new Date(record.expiresAt) <= now) {
+    return false;
+  }
+
+  return true;
+};
+
+const getHeaderValue = (context: AuthenticationStrategyContext): string | undefined => {
+  const header = (context.applicationConfig.auth?.apiKey?.header ?? DEFAULT_HEADER).toLowerCase();
+  const value = context.request.headers[header];
+
+  return (Array.isArray(value) ? value[0] : value) || undefined;
+};
+
+/**
+ * Call the store's `markUsed`, at most once per `lastUsedInterval` per key when Redis is available.
+ * Failures are logged and never fail the request.
+ */
+const markApiKeyUsed = async (context: AuthenticationStrategyContext, record: ApiKeyRecord): Promise<void> => {
+  const authConfig = context.applicationConfig.auth;
+  const store = authConfig?.apiKey?.store;
+
+  if (!store?.markUsed) {
+    return;
+  }
+
+  try {
+    if (context.redisInstance) {
+      const keyPrefix = authConfig?.revocation?.keyPrefix ?? DEFAULT_KEY_PREFIX;
+      const interval = authConfig?.apiKey?.lastUsedInterval ?? DEFAULT_LAST_USED_INTERVAL;
+
+      const acquired = await context.redisInstance.client.set(
+        `${keyPrefix}api-key-used:${record.id}`,
+        '1',
+        'EX',
+        interval,
+        'NX',
+      );
+
+      if (acquired !== 'OK') {
+        return;
+      }
+    }
+
+    await store.markUsed({ id: record.id, usedAt: new Date() });
+  } catch (error) {
+    Logger.error({ error, message: 'Could not record API key usage', meta: { apiKeyId: record.id } });
+  }
+};
+
+/**
+ * API key strategy: reads the key from the `x-api-key` header (configurable with `auth.apiKey.header`), looks up its
+ * hash in `auth.apiKey.store` and grants the key's scopes as permissions.
+ */
+const apiKeyStrategy: AuthenticationStrategy = {
+  name: 'apiKey',
+
+  hasCredentials: context => getHeaderValue(context) !== undefined,
+
+  authenticate: async context => {
+    const apiKeyConfig = context.applicationConfig.auth?.apiKey;
+
+    if (!apiKeyConfig) {
+      return {
+        success: false,
+        message: 'Authentication not configured.',
+        statusCode: StatusCodes.INTERNAL_SERVER_ERROR,
+        errorType: 'server_error',
+      };
+    }
+
+    const key = getHeaderValue(context);
+
+    if (!key) {
+      return {
+        success: false,
+        message: 'No API key provided.',
+        statusCode: StatusCodes.UNAUTHORIZED,
+        errorType: 'authentication',
+      };
+    }
+
+    const record = await apiKeyConfig.store.findByHash(hashApiKey(key));
+
+    if (!record || !isApiKeyActive(record)) {
+      return {
+        success: false,
+        message: 'Invalid API key.',
+        statusCode: StatusCodes.UNAUTHORIZED,
+        errorType: 'authentication',
+      };
+    }
+
+    await markApiKeyUsed(context, record);
+
+    const userId = record.userId ?? 0;
+
+    const user: AuthenticatedUser = {
+      userId,
+      payload: { sub: String(userId), apiKeyId: record.id, scopes: record.scopes ?? [] },
+      strategy: 'apiKey',
+      ...(record.tenantId !== undefined && { tenantId: record.tenantId }),
+    };
+
+    await Authorization.assignUserAuthorization({
+      user,
+      roles: record.roles,
+      permissions: record.scopes,
+      config: context.applicationConfig.auth?.authorization,
+    });
+
+    return { success: true, user };
+  },
+};
+
+export default {
+  hashApiKey,
+  generateApiKey,
+  isApiKeyActive,
+  apiKeyStrategy,
+};
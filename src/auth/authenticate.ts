@@ -0,0 +1,118 @@
+import { StatusCodes } from 'http-status-codes';
+import type { ApplicationAuthConfig } from '../application/base-application.interface.js';
+import { ErrorCode } from '../error/error.interface.js';
+import { AuthenticationError } from '../error/framework-errors.js';
+import type { RedisInstance } from '../redis/index.js';
+import Jwt from './jwt.js';
+import type { AuthenticationStrategyName } from './strategy.interface.js';
+import AuthTokenService from './token-service.js';
+
+export interface AuthenticatedUser<TPayload = Record<string, unknown>> {
+  userId: number;
+  payload: TPayload;
+
+  /** Roles, set once authorization has been resolved */
+  roles?: string[];
+
+  /** Permissions (including those granted by roles), set once authorization has been resolved */
+  permissions?: string[];
+
+  /** Strategy that authenticated the user (e.g. `jwt` or `apiKey`) */
+  strategy?: AuthenticationStrategyName;
+
+  /** Tenant the credential belongs to, for credentials without claims (JWTs carry it in `tenancy.claim`) */
+  tenantId?: string;
+}
+
+export type AuthenticationResult =
+  | { success: true; user: AuthenticatedUser }
+  | {
+      success: false;
+      message: string;
+      statusCode: StatusCodes;
+      errorType: 'authentication' | 'authorization' | 'server_error';
+    };
+
+/**
+ * Authenticate a request from its `Authorization: Bearer <jwt>` header.
+ * Shared by controllers (`authenticateRequest`) and route guards (`authGuard`).
+ * Refresh tokens are rejected, and revoked tokens are rejected when a Redis instance is given.
+ */
+const authenticateBearerToken = async ({
+  authorizationHeader,
+  authConfig,
+  redisInstance,
+}: {
+  authorizationHeader: string | undefined;
+  authConfig?: ApplicationAuthConfig;
+  redisInstance?: RedisInstance;
+}): Promise<AuthenticationResult> => {
+  if (!Jwt.isConfigured(authConfig)) {
+    return {
+      success: false,
+      message: 'Authentication not configured.',
+      statusCode: StatusCodes.INTERNAL_SERVER_ERROR,
+      errorType: 'server_error',
+    };
+  }
+
+  if (!authorizationHeader) {
+    return {
+      success: false,
+      message: 'No token provided.',
+      statusCode: StatusCodes.UNAUTHORIZED,
+      errorType: 'authentication',
+    };
+  }
+
+  if (!authorizationHeader.startsWith('Bearer ')) {
+    return {
+      success: false,
+      message: 'Invalid token.',
+      statusCode: StatusCodes.UNAUTHORIZED,
+      errorType: 'authentication',
+    };
+  }
+
+  try {
+    // Remove "Bearer " from token
+    const jwtAccessToken = authorizationHeader.substring(7);
+
+    const tokenService = new AuthTokenService({ authConfig, redisInstance });
+
+    const payload = await tokenService.verifyAccessToken({ accessToken: jwtAccessToken });
+
+    if (!payload.sub) {
+      return {
+        success: false,
+        message: 'Invalid token payload.',
+        statusCode: StatusCodes.UNAUTHORIZED,
+        errorType: 'authentication',
+      };
+    }
+
+    const userId = parseInt(payload.sub, 10);
+
+    return {
+      success: true,
+      user: {
+        userId,
+        payload,
+      },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message:
+        error instanceof AuthenticationError && error.code === ErrorCode.AUTH_TOKEN_REVOKED
+          ? 'Token has been revoked.'
+          : 'Invalid or expired token.',
+      statusCode: StatusCodes.UNAUTHORIZED,
+      errorType: 'authentication',
+    };
+  }
+};
+
+export default {
+  authenticateBearerToken,
+};
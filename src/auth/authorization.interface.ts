@@ -0,0 +1,34 @@
+import type { AuthenticatedUser } from './authenticate.js';
+
+/**
+ * Roles and permissions granted to a user.
+ */
+export interface UserAuthorization {
+  roles: string[];
+  permissions: string[];
+}
+
+/**
+ * Resolve roles and permissions for an authenticated user (e.g. from the database).
+ */
+export type AuthorizationResolver = (params: {
+  user: AuthenticatedUser;
+}) => Partial<UserAuthorization> | Promise<Partial<UserAuthorization>>;
+
+export interface AuthorizationConfig {
+  /** JWT claim holding the user's roles (default: `roles`) */
+  rolesClaim?: string;
+
+  /** JWT claim holding the user's permissions (default: `permissions`) */
+  permissionsClaim?: string;
+
+  /** Permissions granted by each role, e.g. `{ editor: ['posts:*'] }` */
+  roles?: Record<string, string[]>;
+
+  /** Custom resolver used instead of JWT claims */
+  resolver?: AuthorizationResolver;
+}
+
+export type AuthorizationResult =
+  | { allowed: true; authorization: UserAuthorization }
+  | { allowed: false; authorization: UserAuthorization; missingPermissions: string[] };
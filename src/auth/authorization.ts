@@ -0,0 +1,141 @@
+import type { AuthenticatedUser } from './authenticate.js';
+import type { AuthorizationConfig, AuthorizationResult, UserAuthorization } from './authorization.interface.js';
+
+const DEFAULT_ROLES_CLAIM = 'roles';
+const DEFAULT_PERMISSIONS_CLAIM = 'permissions';
+
+/**
+ * Read a claim holding either a string array or a space-separated string (OAuth `scope` style).
+ */
+const readClaimList = (payload: Record<string, unknown>, claim: string): string[] => {
+  const value = payload[claim];
+
+  if (Array.isArray(value)) {
+    return value.filter((entry): entry is string => typeof entry === 'string');
+  }
+
+  if (typeof value === 'string') {
+    return value.split(' ').filter(entry => entry.length > 0);
+  }
+
+  return [];
+};
+
+/**
+ * Check whether a granted permission covers a required one.
+ * `*` grants everything and `posts:*` grants every permission starting with `posts:`.
+ */
+const permissionMatches = (grantedPermission: string, requiredPermission: string): boolean => {
+  if (grantedPermission === '*' || grantedPermission === requiredPermission) {
+    return true;
+  }
+
+  if (grantedPermission.endsWith(':*')) {
+    return requiredPermission.startsWith(grantedPermission.slice(0, -1));
+  }
+
+  return false;
+};
+
+/**
+ * Get the required permissions not covered by the granted ones.
+ */
+const getMissingPermissions = ({
+  grantedPermissions,
+  requiredPermissions,
+}: {
+  grantedPermissions: string[];
+  requiredPermissions: string[];
+}): string[] =>
+  requiredPermissions.filter(
+    requiredPermission =>
+      !grantedPermissions.some(grantedPermission => permissionMatches(grantedPermission, requiredPermission)),
+  );
+
+/**
+ * Resolve a user's roles and permissions (expanding role permissions) and cache them on the user.
+ */
+const resolveUserAuthorization = async ({
+  user,
+  config = {},
+}: {
+  user: AuthenticatedUser;
+  config?: AuthorizationConfig;
+}): Promise<UserAuthorization> => {
+  if (user.roles && user.permissions) {
+    return { roles: user.roles, permissions: user.permissions };
+  }
+
+  let roles: string[];
+  let permissions: string[];
+
+  if (config.resolver) {
+    const resolved = await config.resolver({ user });
+
+    roles = resolved.roles ?? [];
+    permissions = resolved.permissions ?? [];
+  } else {
+    roles = readClaimList(user.payload, config.rolesClaim ?? DEFAULT_ROLES_CLAIM);
+    permissions = readClaimList(user.payload, config.permissionsClaim ?? DEFAULT_PERMISSIONS_CLAIM);
+  }
+
+  const rolePermissions = roles.flatMap(role =>
+    config.roles && Object.hasOwn(config.roles, role) ? config.roles[role] : [],
+  );
+
+  user.roles = roles;
+  user.permissions = [...new Set([...permissions, ...rolePermissions])];
+
+  return { roles: user.roles, permissions: user.permissions };
+};
+
+/**
+ * Grant roles and permissions directly (e.g. from API key scopes) instead of reading them from JWT claims.
+ * Role permissions are expanded as in `resolveUserAuthorization`.
+ */
+const assignUserAuthorization = ({
+  user,
+  roles = [],
+  permissions = [],
+  config = {},
+}: {
+  user: AuthenticatedUser;
+  roles?: string[];
+  permissions?: string[];
+  config?: AuthorizationConfig;
+}): Promise<UserAuthorization> =>
+  resolveUserAuthorization({ user, config: { ...config, resolver: () => ({ roles, permissions }) } });
+
+/**
+ * Check that a user holds all required permissions.
+ */
+const authorize = async ({
+  user,
+  requires,
+  config,
+}: {
+  user: AuthenticatedUser;
+  requires: string[];
+  config?: AuthorizationConfig;
+}): Promise<AuthorizationResult> => {
+  const authorization = await resolveUserAuthorization({ user, config });
+
+  const missingPermissions = getMissingPermissions({
+    grantedPermissions: authorization.permissions,
+    requiredPermissions: requires,
+  });
+
+  if (missingPermissions.length > 0) {
+    return { allowed: false, authorization, missingPermissions };
+  }
+
+  return { allowed: true, authorization };
+};
+
+export default {
+  permissionMatches,
+  getMissingPermissions,
+  resolveUserAuthorization,
+  assignUserAuthorization,
+  authorize,
+};
@@ -0,0 +1,45 @@
+/**
+ * Client allowed to sign requests.
+ */
+export interface HmacClient {
+  /** Shared signing secret */
+  secret: string;
+
+  /** User the client acts as (`0` is used for clients not acting as a user) */
+  userId?: number;
+
+  /** Permissions granted to the client */
+  scopes?: string[];
+
+  /** Roles granted to the client (expanded with `auth.authorization.roles`) */
+  roles?: string[];
+
+  /** Tenant the client belongs to, with multi-tenancy */
+  tenantId?: string;
+}
+
+export interface HmacConfig {
+  /** Clients by key ID */
+  clients?: Record<string, HmacClient>;
+
+  /** Resolve a client by key ID (used when the key ID is not found in `clients`) */
+  resolveClient?: (keyId: string) => HmacClient | null | undefined | Promise<HmacClient | null | undefined>;
+
+  /** Header carrying the key ID (default: `x-key-id`) */
+  keyIdHeader?: string;
+
+  /** Header carrying the Unix timestamp in seconds (default: `x-timestamp`) */
+  timestampHeader?: string;
+
+  /** Header carrying the hex HMAC-SHA256 signature (default: `x-signature`) */
+  signatureHeader?: string;
+
+  /** Maximum age of a request in seconds; signatures are remembered in Redis for twice as long (default: 300) */
+  tolerance?: number;
+}
+
+export interface HmacSignatureHeaders {
+  keyId: string;
+  timestamp: string;
+  signature: string;
+}
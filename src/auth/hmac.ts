@@ -0,0 +1,205 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import type { FastifyRequest } from 'fastify';
+import { StatusCodes } from 'http-status-codes';
+import type { AuthenticatedUser, AuthenticationResult } from './authenticate.js';
+import Authorization from './authorization.js';
+import type { HmacClient, HmacConfig, HmacSignatureHeaders } from './hmac.interface.js';
+import type { AuthenticationStrategy, AuthenticationStrategyContext } from './strategy.interface.js';
+
+const DEFAULT_KEY_ID_HEADER = 'x-key-id';
+const DEFAULT_TIMESTAMP_HEADER = 'x-timestamp';
+const DEFAULT_SIGNATURE_HEADER = 'x-signature';
+const DEFAULT_TOLERANCE = 300;
+const DEFAULT_KEY_PREFIX = 'auth:';
+
+/**
+ * Compute the hex HMAC-SHA256 signature of a request.
+ * The signed string is `<timestamp>\n<METHOD>\n<path and query>\n<raw body>`.
+ */
+const computeSignature = ({
+  secret,
+  timestamp,
+  method,
+  url,
+  body = '',
+}: {
+  secret: string;
+  timestamp: string;
+  method: string;
+  url: string;
+  body?: string;
+}): string =>
+  createHmac('sha256', secret).update(`${timestamp}\n${method.toUpperCase()}\n${url}\n${body}`).digest('hex');
+
+/**
+ * Sign a request, returning the values to send in the key ID, timestamp and signature headers.
+ *
+ * @example
+ * const { keyId, timestamp, signature } = Hmac.signRequest({ keyId: 'cron', secret, method: 'POST', url: '/jobs', body });
+ */
+const signRequest = ({
+  keyId,
+  secret,
+  method,
+  url,
+  body,
+  timestamp = Math.floor(Date.now() / 1000),
+}: {
+  keyId: string;
+  secret: string;
+  method: string;
+  url: string;
+  body?: string;
+  timestamp?: number;
+}): HmacSignatureHeaders => ({
+  keyId,
+  timestamp: String(timestamp),
+  signature: computeSignature({ secret, timestamp: String(timestamp), method, url, body }),
+});
+
+const getHeaderValue = (request: FastifyRequest, header: string): string | undefined => {
+  const value = request.headers[header.toLowerCase()];
+
+  return (Array.isArray(value) ? value[0] : value) || undefined;
+};
+
+const getRequestBody = (request: FastifyRequest): string => {
+  if (request.rawBody !== undefined) {
+    return request.rawBody;
+  }
+
+  if (request.body === undefined || request.body === null) {
+    return '';
+  }
+
+  return typeof request.body === 'string' ? request.body : JSON.stringify(request.body);
+};
+
+const resolveClient = async (config: HmacConfig, keyId: string): Promise<HmacClient | null | undefined> => {
+  if (config.clients && Object.hasOwn(config.clients, keyId)) {
+    return config.clients[keyId];
+  }
+
+  return config.resolveClient?.(keyId);
+};
+
+const signaturesMatch = (expected: string, actual: string): boolean => {
+  const expectedBuffer = Buffer.from(expected);
+  const actualBuffer = Buffer.from(actual);
+
+  return expectedBuffer.length === actualBuffer.length && timingSafeEqual(expectedBuffer, actualBuffer);
+};
+
+const rejectRequest = (message: string): AuthenticationResult => ({
+  success: false,
+  message,
+  statusCode: StatusCodes.UNAUTHORIZED,
+  errorType: 'authentication',
+});
+
+/**
+ * HMAC strategy: verifies a request signed with a client's shared secret.
+ * Requests older than `tolerance` seconds are rejected, and each signature is only accepted once: Redis remembers it
+ * for twice the tolerance so it cannot be replayed from either side of the window. Without Redis every request fails.
+ */
+const hmacStrategy: AuthenticationStrategy = {
+  name: 'hmac',
+
+  hasCredentials: ({ request, applicationConfig }) =>
+    getHeaderValue(request, applicationConfig.auth?.hmac?.signatureHeader ?? DEFAULT_SIGNATURE_HEADER) !== undefined,
+
+  authenticate: async (context: AuthenticationStrategyContext) => {
+    const { request, applicationConfig, redisInstance } = context;
+    const hmacConfig = applicationConfig.auth?.hmac;
+
+    if (!hmacConfig) {
+      return {
+        success: false,
+        message: 'Authentication not configured.',
+        statusCode: StatusCodes.INTERNAL_SERVER_ERROR,
+        errorType: 'server_error',
+      };
+    }
+
+    if (!redisInstance) {
+      return {
+        success: false,
+        message: 'Replay protection requires Redis.',
+        statusCode: StatusCodes.INTERNAL_SERVER_ERROR,
+        errorType: 'server_error',
+      };
+    }
+
+    const keyId = getHeaderValue(request, hmacConfig.keyIdHeader ?? DEFAULT_KEY_ID_HEADER);
+    const timestamp = getHeaderValue(request, hmacConfig.timestampHeader ?? DEFAULT_TIMESTAMP_HEADER);
+    const signature = getHeaderValue(request, hmacConfig.signatureHeader ?? DEFAULT_SIGNATURE_HEADER);
+
+    if (!keyId || !timestamp || !signature) {
+      return rejectRequest('No request signature provided.');
+    }
+
+    const tolerance = hmacConfig.tolerance ?? DEFAULT_TOLERANCE;
+    const requestTime = Number(timestamp);
+
+    if (!Number.isInteger(requestTime) || Math.abs(Math.floor(Date.now() / 1000) - requestTime) > tolerance) {
+      return rejectRequest('Request timestamp outside the allowed window.');
+    }
+
+    const client = await resolveClient(hmacConfig, keyId);
+
+    if (!client) {
+      return rejectRequest('Invalid request signature.');
+    }
+
+    const expectedSignature = computeSignature({
+      secret: client.secret,
+      timestamp,
+      method: request.method,
+      url: request.url,
+      body: getRequestBody(request),
+    });
+
+    if (!signaturesMatch(expectedSignature, signature.toLowerCase())) {
+      return rejectRequest('Invalid request signature.');
+    }
+
+    const keyPrefix = applicationConfig.auth?.revocation?.keyPrefix ?? DEFAULT_KEY_PREFIX;
+
+    // A signature can only be used once within the window
+    const firstUse = await redisInstance.client.set(
+      `${keyPrefix}hmac:${keyId}:${expectedSignature}`,
+      '1',
+      'EX',
+      tolerance * 2,
+      'NX',
+    );
+
+    if (firstUse !== 'OK') {
+      return rejectRequest('Request already processed.');
+    }
+
+    const userId = client.userId ?? 0;
+
+    const user: AuthenticatedUser = {
+      userId,
+      payload: { sub: String(userId), keyId, scopes: client.scopes ?? [] },
+      strategy: 'hmac',
+      ...(client.tenantId !== undefined && { tenantId: client.tenantId }),
+    };
+
+    await Authorization.assignUserAuthorization({
+      user,
+      roles: client.roles,
+      permissions: client.scopes,
+      config: applicationConfig.auth?.authorization,
+    });
+
+    return { success: true, user };
+  },
+};
+
+export default {
+  computeSignature,
+  signRequest,
+  hmacStrategy,
+};
@@ -1 +1,32 @@
+export type { ApiKeyConfig, ApiKeyRecord, ApiKeyStore, GeneratedApiKey } from './api-key.interface.js';
+export { default as ApiKey } from './api-key.js';
+export type { AuthenticatedUser, AuthenticationResult } from './authenticate.js';
+export { default as Authentication } from './authenticate.js';
+export type {
+  AuthorizationConfig,
+  AuthorizationResolver,
+  AuthorizationResult,
+  UserAuthorization,
+} from './authorization.interface.js';
+export { default as Authorization } from './authorization.js';
+export type { HmacClient, HmacConfig, HmacSignatureHeaders } from './hmac.interface.js';
+export { default as Hmac } from './hmac.js';
+export type {
+  AuthRevocationConfig,
+  AuthTokenPayload,
+  AuthTokenType,
+  JsonWebKeySet,
+  JwtAlgorithm,
+  JwtConfig,
+  TokenLifetime,
+} from './jwt.interface.js';
+export type { AuthenticationToken } from './jwt.js';
 export { default as Jwt } from './jwt.js';
+export type {
+  AuthenticationStrategy,
+  AuthenticationStrategyContext,
+  AuthenticationStrategyName,
+} from './strategy.interface.js';
+export { default as AuthenticationStrategies } from './strategy.js';
+export type { AuthTokenServiceProps } from './token-service.js';
+export { default as AuthTokenService } from './token-service.js';
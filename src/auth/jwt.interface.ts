@@ -0,0 +1,80 @@
+import type { JWK, JWTPayload } from 'jose';
+
+/**
+ * JWT signing algorithm.
+ * `HS256` signs with a shared secret; `RS256` and `ES256` sign with a private key and publish the public key as JWKS.
+ */
+export type JwtAlgorithm = 'HS256' | 'RS256' | 'ES256';
+
+/**
+ * Token lifetime, either in seconds or as a duration string (e.g. `'15m'`, `'24h'`, `'30d'`).
+ */
+export type TokenLifetime = number | string;
+
+/**
+ * Token type, stored in the `typ` claim so refresh tokens cannot be used as access tokens.
+ */
+export type AuthTokenType = 'access' | 'refresh';
+
+export interface JwtConfig {
+  /** Shared secret (base64url) used by `HS256` */
+  jwtSecretKey?: string;
+
+  /** Signing algorithm (default: `HS256`) */
+  algorithm?: JwtAlgorithm;
+
+  /** PKCS#8 PEM private key used to sign `RS256`/`ES256` tokens */
+  privateKey?: string;
+
+  /** SPKI PEM public key used to verify `RS256`/`ES256` tokens (derived from `privateKey` when omitted) */
+  publicKey?: string;
+
+  /** Key ID set in the token header and JWKS (default: the public key's JWK thumbprint) */
+  keyId?: string;
+
+  /** `iss` claim set on issued tokens and required on verified tokens */
+  issuer?: string;
+
+  /** `aud` claim set on issued tokens and required on verified tokens */
+  audience?: string | string[];
+
+  /** Access token lifetime (default: `'24h'`) */
+  accessTokenLifetime?: TokenLifetime;
+
+  /** Refresh token lifetime (default: `'30d'`) */
+  refreshTokenLifetime?: TokenLifetime;
+
+  /**
+   * Accept tokens without a `typ` claim, issued before token types were introduced, as access tokens when their
+   * lifetime does not exceed the access token lifetime (so former refresh tokens are still rejected).
+   *
+   * @deprecated Enable only while upgrading, until the former access tokens have expired; removed in the next major
+   */
+  acceptUntypedAccessTokens?: boolean;
+}
+
+export interface AuthRevocationConfig {
+  /** Whether to check the Redis denylist when authenticating (default: `true`) */
+  enabled?: boolean;
+
+  /** Redis key prefix for auth entries: refresh tokens, denylist, API key usage and HMAC signatures (default: `auth:`) */
+  keyPrefix?: string;
+}
+
+/**
+ * Payload of tokens issued by the framework.
+ */
+export interface AuthTokenPayload extends JWTPayload {
+  /** Token type */
+  typ?: AuthTokenType;
+
+  /** Token family ID, shared by every token issued from one login and its refreshes */
+  fid?: string;
+}
+
+/**
+ * JSON Web Key Set, served so other services can verify issued tokens.
+ */
+export interface JsonWebKeySet {
+  keys: JWK[];
+}
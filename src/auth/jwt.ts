@@ -1,4 +1,25 @@
-import { importJWK, type JWTPayload, jwtVerify, SignJWT } from 'jose';
+import { createPublicKey, randomUUID } from 'node:crypto';
+import {
+  type CryptoKey,
+  calculateJwkThumbprint,
+  exportJWK,
+  importJWK,
+  importPKCS8,
+  importSPKI,
+  type JWK,
+  type JWTPayload,
+  jwtVerify,
+  SignJWT,
+} from 'jose';
+import { AuthenticationError, ConfigurationError } from '../error/framework-errors.js';
+import type {
+  AuthTokenPayload,
+  AuthTokenType,
+  JsonWebKeySet,
+  JwtAlgorithm,
+  JwtConfig,
+  TokenLifetime,
+} from './jwt.interface.js';
 
 export interface AuthenticationToken {
   type: string;
@@ -7,45 +28,263 @@ export interface AuthenticationToken {
   expiresAt: Date;
 }
 
+interface JwtKeys {
+  algorithm: JwtAlgorithm;
+  signingKey?: CryptoKey | Uint8Array;
+  verificationKey: CryptoKey | Uint8Array;
+  publicJwk?: JWK;
+}
+
+const DEFAULT_ACCESS_TOKEN_LIFETIME = '24h';
+const DEFAULT_REFRESH_TOKEN_LIFETIME = '30d';
+
+const LIFETIME_UNITS: Record<string, number> = {
+  s: 1,
+  m: 60,
+  h: 60 * 60,
+  d: 24 * 60 * 60,
+  w: 7 * 24 * 60 * 60,
+};
+
+// Imported keys, keyed by auth config object
+const jwtKeysCache = new WeakMap<JwtConfig, Promise<JwtKeys>>();
+
+/**
+ * Convert a token lifetime (seconds or a duration string such as `'15m'`) to seconds.
+ */
+const parseLifetime = (lifetime: TokenLifetime): number => {
+  if (typeof lifetime === 'number') {
+    return lifetime;
+  }
+
+  const match = /^(\d+)\s*([smhdw])$/.exec(lifetime.trim());
+
+  if (!match) {
+    throw new ConfigurationError(`Invalid token lifetime "${lifetime}" (expected e.g. 900, "15m", "24h" or "30d")`);
+  }
+
+  return Number(match[1]) * (LIFETIME_UNITS[match[2]] as number);
+};
+
+/**
+ * Get the configured lifetime of a token type in seconds.
+ */
+const getTokenLifetime = ({ config, type }: { config: JwtConfig; type: AuthTokenType }): number => {
+  const lifetime =
+    type === 'refresh'
+      ? (config.refreshTokenLifetime ?? DEFAULT_REFRESH_TOKEN_LIFETIME)
+      : (config.accessTokenLifetime ?? DEFAULT_ACCESS_TOKEN_LIFETIME);
+
+  return parseLifetime(lifetime);
+};
+
+/**
+ * Whether the config has the keys needed to verify tokens.
+ */
+const isConfigured = (config: JwtConfig | undefined): config is JwtConfig => {
+  if (!config) {
+    return false;
+  }
+
+  if ((config.algorithm ?? 'HS256') === 'HS256') {
+    return Boolean(config.jwtSecretKey);
+  }
+
+  return Boolean(config.privateKey || config.publicKey);
+};
+
+const loadJwtKeys = async (config: JwtConfig): Promise<JwtKeys> => {
+  const algorithm = config.algorithm ?? 'HS256';
+
+  if (algorithm === 'HS256') {
+    if (!config.jwtSecretKey) {
+      throw new ConfigurationError('auth.jwtSecretKey is required for HS256');
+    }
+
+    const secretKey = await importJwtSecretKey({ jwtSecretKey: config.jwtSecretKey });
+
+    return { algorithm, signingKey: secretKey, verificationKey: secretKey };
+  }
+
+  if (!config.privateKey && !config.publicKey) {
+    throw new ConfigurationError(`auth.privateKey or auth.publicKey is required for ${algorithm}`);
+  }
+
+  const signingKey = config.privateKey ? await importPKCS8(config.privateKey, algorithm) : undefined;
+
+  const publicKeyPem =
+    config.publicKey ??
+    createPublicKey(config.privateKey as string)
+      .export({ type: 'spki', format: 'pem' })
+      .toString();
+
+  const verificationKey = await importSPKI(publicKeyPem, algorithm, { extractable: true });
+
+  const exportedJwk = await exportJWK(verificationKey);
+  const keyId = config.keyId ?? (await calculateJwkThumbprint(exportedJwk));
+
+  return {
+    algorithm,
+    signingKey,
+    verificationKey,
+    publicJwk: { ...exportedJwk, kid: keyId, alg: algorithm, use: 'sig' },
+  };
+};
+
+/**
+ * Import (and cache) the signing and verification keys for an auth config.
+ */
+const getJwtKeys = (config: JwtConfig): Promise<JwtKeys> => {
+  let keys = jwtKeysCache.get(config);
+
+  if (!keys) {
+    keys = loadJwtKeys(config);
+
+    // Do not cache failures, so a fixed config can be retried
+    keys.catch(() => jwtKeysCache.delete(config));
+
+    jwtKeysCache.set(config, keys);
+  }
+
+  return keys;
+};
+
+/**
+ * Sign a token of the given type with the configured algorithm, lifetime, issuer and audience.
+ * A `jti` claim is generated unless the payload sets one.
+ */
+const signToken = async ({
+  config,
+  payload,
+  type,
+  lifetime,
+}: {
+  config: JwtConfig;
+  payload: AuthTokenPayload;
+  type: AuthTokenType;
+  lifetime?: TokenLifetime;
+}): Promise<string> => {
+  const keys = await getJwtKeys(config);
+
+  if (!keys.signingKey) {
+    throw new ConfigurationError(`auth.privateKey is required to sign ${keys.algorithm} tokens`);
+  }
+
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const lifetimeInSeconds = lifetime !== undefined ? parseLifetime(lifetime) : getTokenLifetime({ config, type });
+
+  const jwt = new SignJWT({ ...payload, typ: type })
+    .setProtectedHeader({ alg: keys.algorithm, ...(keys.publicJwk?.kid && { kid: keys.publicJwk.kid }) })
+    .setIssuedAt(issuedAt)
+    .setExpirationTime(issuedAt + lifetimeInSeconds)
+    .setJti(payload.jti ?? randomUUID());
+
+  if (config.issuer) {
+    jwt.setIssuer(config.issuer);
+  }
+
+  if (config.audience) {
+    jwt.setAudience(config.audience);
+  }
+
+  return jwt.sign(keys.signingKey);
+};
+
+/**
+ * Whether a token without a `typ` claim is accepted as an access token (see `acceptUntypedAccessTokens`).
+ */
+const isAcceptedUntypedToken = ({ config, payload }: { config: JwtConfig; payload: AuthTokenPayload }): boolean => {
+  if (!config.acceptUntypedAccessTokens || payload.exp === undefined || payload.iat === undefined) {
+    return false;
+  }
+
+  return payload.exp - payload.iat <= getTokenLifetime({ config, type: 'access' });
+};
+
+/**
+ * Verify a token's signature, expiry, issuer, audience and type.
+ * Tokens without a `typ` claim are rejected, unless `acceptUntypedAccessTokens` accepts them as access tokens.
+ *
+ * @throws AuthenticationError if the token is invalid, expired or of another type
+ */
+const verifyToken = async ({
+  config,
+  token,
+  type = 'access',
+}: {
+  config: JwtConfig;
+  token: string;
+  type?: AuthTokenType;
+}): Promise<AuthTokenPayload> => {
+  const keys = await getJwtKeys(config);
+
+  let payload: AuthTokenPayload;
+
+  try {
+    ({ payload } = await jwtVerify<AuthTokenPayload>(token, keys.verificationKey, {
+      algorithms: [keys.algorithm],
+      issuer: config.issuer,
+      audience: config.audience,
+    }));
+  } catch (error) {
+    throw new AuthenticationError('Invalid or expired token', { cause: error });
+  }
+
+  if (!payload.typ) {
+    if (type === 'access' && isAcceptedUntypedToken({ config, payload })) {
+      return payload;
+    }
+
+    throw new AuthenticationError(`Expected ${type} token, got token without type`);
+  }
+
+  if (payload.typ !== type) {
+    throw new AuthenticationError(`Expected ${type} token, got ${payload.typ} token`);
+  }
+
+  return payload;
+};
+
+/**
+ * Get the JSON Web Key Set other services can use to verify issued tokens.
+ * Empty for `HS256`, whose shared secret must never be published.
+ */
+const getJwks = async (config: JwtConfig): Promise<JsonWebKeySet> => {
+  const keys = await getJwtKeys(config);
+
+  return { keys: keys.publicJwk ? [keys.publicJwk] : [] };
+};
+
+/**
+ * Generate an access and refresh token pair, signed like `signToken` with the algorithm, keys, lifetimes, issuer
+ * and audience of `authConfig` (default lifetimes: 24 hours and 30 days).
+ * Use `AuthTokenService` to issue refresh tokens that can be rotated and revoked.
+ *
+ * @throws ConfigurationError when neither `authConfig` nor `jwtSecretKey` holds a signing key
+ */
 const generateJwtTokens = async ({
-  entityManager,
   payload,
   jwtSecretKey,
+  authConfig,
 }: {
-  entityManager: any;
+  /** @deprecated Not used, tokens are not persisted */
+  entityManager?: any;
   payload: JWTPayload;
-  jwtSecretKey: string;
+  /** @deprecated Use `authConfig` */
+  jwtSecretKey?: string;
+  authConfig?: JwtConfig;
 }): Promise<AuthenticationToken> => {
-  // Import JWT secret key
-  const importedJwtSecretKey = await importJwtSecretKey({ jwtSecretKey });
-
-  const jwtAccessTokenLifetimeInHours = 24;
-  const jwtRefreshTokenLifetimeInHours = 30 * 24;
+  const config = authConfig ?? { jwtSecretKey };
 
-  // Generate JWT access token
-  const jwtAccessToken = await generateJwtToken({
-    secretKey: importedJwtSecretKey,
-    payload,
-    expirationTime: jwtAccessTokenLifetimeInHours,
-  });
+  const accessToken = await signToken({ config, payload, type: 'access' });
+  const refreshToken = await signToken({ config, payload, type: 'refresh' });
 
-  // Generate JWT refresh token
-  const jwtRefreshToken = await generateJwtToken({
-    secretKey: importedJwtSecretKey,
-    payload,
-    expirationTime: jwtRefreshTokenLifetimeInHours,
-  });
-
-  await entityManager.flush();
-
-  const jwtToken: AuthenticationToken = {
+  return {
     type: 'Bearer',
-    accessToken: jwtAccessToken,
-    refreshToken: jwtRefreshToken,
-    expiresAt: new Date(Date.now() + jwtAccessTokenLifetimeInHours * 60 * 60 * 1000),
+    accessToken,
+    refreshToken,
+    expiresAt: new Date(Date.now() + getTokenLifetime({ config, type: 'access' }) * 1000),
   };
-
-  return jwtToken;
 };
 
 const generateJwtToken = async ({
@@ -55,12 +294,13 @@ const generateJwtToken = async ({
 }: {
   secretKey: any;
   payload: JWTPayload;
+  /** Lifetime in hours */
   expirationTime: number;
 }): Promise<string> => {
   const jwtToken = await new SignJWT(payload)
     .setProtectedHeader({ alg: 'HS256' })
     .setIssuedAt()
-    .setExpirationTime(`${expirationTime}h`)
+    .setExpirationTime(`${Math.round(expirationTime * 3600)}s`)
     .sign(secretKey);
 
   return jwtToken;
@@ -75,4 +315,10 @@ export default {
   generateJwtToken,
   importJwtSecretKey,
   jwtVerify,
+  isConfigured,
+  parseLifetime,
+  getTokenLifetime,
+  signToken,
+  verifyToken,
+  getJwks,
 };
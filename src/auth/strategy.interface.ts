@@ -0,0 +1,29 @@
+import type { FastifyRequest } from 'fastify';
+import type { ApplicationConfig } from '../application/base-application.interface.js';
+import type { RedisInstance } from '../redis/index.js';
+import type { AuthenticationResult } from './authenticate.js';
+
+/**
+ * Name of a registered authentication strategy. `jwt`, `apiKey` and `hmac` are built in.
+ */
+export type AuthenticationStrategyName = 'jwt' | 'apiKey' | 'hmac' | (string & {});
+
+export interface AuthenticationStrategyContext {
+  request: FastifyRequest;
+  applicationConfig: ApplicationConfig;
+  redisInstance?: RedisInstance;
+}
+
+/**
+ * Authentication strategy, resolving the caller of a request into an `AuthenticatedUser`.
+ */
+export interface AuthenticationStrategy {
+  /** Strategy name, referenced by routes (e.g. `auth: ['jwt', 'apiKey']`) */
+  name: AuthenticationStrategyName;
+
+  /** Whether the request carries credentials for this strategy (e.g. its header is set) */
+  hasCredentials(context: AuthenticationStrategyContext): boolean;
+
+  /** Authenticate the request */
+  authenticate(context: AuthenticationStrategyContext): Promise<AuthenticationResult>;
+}
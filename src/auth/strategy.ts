@@ -0,0 +1,165 @@
+import type { FastifyRequest } from 'fastify';
+import { StatusCodes } from 'http-status-codes';
+import { ConfigurationError } from '../error/framework-errors.js';
+import { setTenantId, setUserId } from '../request-context/index.js';
+import type { ApplicationTenancyConfig } from '../tenancy/tenancy.interface.js';
+import Tenancy from '../tenancy/tenancy.js';
+import ApiKey from './api-key.js';
+import Authentication, { type AuthenticatedUser, type AuthenticationResult } from './authenticate.js';
+import Hmac from './hmac.js';
+import type {
+  AuthenticationStrategy,
+  AuthenticationStrategyContext,
+  AuthenticationStrategyName,
+} from './strategy.interface.js';
+
+const DEFAULT_STRATEGIES: AuthenticationStrategyName[] = ['jwt'];
+
+/**
+ * Bearer JWT strategy.
+ */
+const jwtStrategy: AuthenticationStrategy = {
+  name: 'jwt',
+
+  hasCredentials: ({ request }) => Boolean(request.headers.authorization),
+
+  authenticate: ({ request, applicationConfig, redisInstance }) =>
+    Authentication.authenticateBearerToken({
+      authorizationHeader: request.headers.authorization,
+      authConfig: applicationConfig.auth,
+      redisInstance,
+    }),
+};
+
+const strategies = new Map<string, AuthenticationStrategy>([
+  [jwtStrategy.name, jwtStrategy],
+  [ApiKey.apiKeyStrategy.name, ApiKey.apiKeyStrategy],
+  [Hmac.hmacStrategy.name, Hmac.hmacStrategy],
+]);
+
+/**
+ * Register an authentication strategy, replacing any strategy with the same name.
+ */
+const registerStrategy = (strategy: AuthenticationStrategy): void => {
+  strategies.set(strategy.name, strategy);
+};
+
+const hasStrategy = (name: AuthenticationStrategyName): boolean => strategies.has(name);
+
+/**
+ * Get a registered strategy.
+ *
+ * @throws ConfigurationError if no strategy is registered under the name
+ */
+const getStrategy = (name: AuthenticationStrategyName): AuthenticationStrategy => {
+  const strategy = strategies.get(name);
+
+  if (!strategy) {
+    throw new ConfigurationError(`Unknown authentication strategy "${name}"`, {
+      context: { registeredStrategies: [...strategies.keys()] },
+    });
+  }
+
+  return strategy;
+};
+
+/**
+ * Check the tenant of an authenticated user: it sets the tenant of requests without one (always the case with the
+ * `jwt` resolver), and must match the tenant resolved otherwise. Credentials without a tenant are rejected for
+ * requests that have or require one, unless `allowUnscopedCredentials` is set.
+ *
+ * @returns Failed result when the user may not access the tenant
+ */
+const authenticateTenant = ({
+  request,
+  config,
+  user,
+}: {
+  request: FastifyRequest;
+  config: ApplicationTenancyConfig;
+  user: AuthenticatedUser;
+}): AuthenticationResult | undefined => {
+  const claimedTenantId = user.tenantId ?? Tenancy.getTenantIdFromClaims({ payload: user.payload, config });
+
+  if (claimedTenantId === undefined) {
+    const tenantRequired =
+      request.tenantId !== undefined ||
+      (config.resolver === 'jwt' &&
+        config.required !== false &&
+        !Tenancy.isExcludedPath({ config, path: request.url }));
+
+    if (!tenantRequired) {
+      return undefined;
+    }
+
+    if (config.allowUnscopedCredentials) {
+      // Unscoped credentials may access every tenant
+      Tenancy.setTenantRequired(false);
+
+      return undefined;
+    }
+  } else if (Tenancy.isValidTenantId(claimedTenantId) && request.tenantId === undefined) {
+    request.tenantId = claimedTenantId;
+
+    setTenantId(claimedTenantId);
+
+    return undefined;
+  } else if (claimedTenantId === request.tenantId) {
+    return undefined;
+  }
+
+  return {
+    success: false,
+    message: 'Token not valid for this tenant.',
+    statusCode: StatusCodes.FORBIDDEN,
+    errorType: 'authorization',
+  };
+};
+
+/**
+ * Authenticate a request with the first of the given strategies the request has credentials for
+ * (default: `auth.strategies`, or `['jwt']`). When none match, the first strategy reports the missing credentials.
+ * The authenticated user ID (and, with the `jwt` tenant resolver, the tenant) is set on the request context.
+ */
+const authenticate = async ({
+  strategies: strategyNames,
+  ...context
+}: AuthenticationStrategyContext & {
+  strategies?: AuthenticationStrategyName[];
+}): Promise<AuthenticationResult> => {
+  const names = strategyNames ?? context.applicationConfig.auth?.strategies ?? DEFAULT_STRATEGIES;
+
+  if (names.length === 0) {
+    throw new ConfigurationError('At least one authentication strategy is required');
+  }
+
+  const candidates = names.map(getStrategy);
+  const strategy =
+    candidates.find(candidate => candidate.hasCredentials(context)) ?? (candidates[0] as AuthenticationStrategy);
+
+  const result = await strategy.authenticate(context);
+
+  if (result.success) {
+    const { tenancy } = context.applicationConfig;
+    const tenantFailure = Tenancy.isEnabled(tenancy)
+      ? authenticateTenant({ request: context.request, config: tenancy, user: result.user })
+      : undefined;
+
+    if (tenantFailure) {
+      return tenantFailure;
+    }
+
+    result.user.strategy ??= strategy.name;
+
+    setUserId(String(result.user.userId));
+  }
+
+  return result;
+};
+
+export default {
+  registerStrategy,
+  hasStrategy,
+  getStrategy,
+  authenticate,
+};
@@ -0,0 +1,214 @@
+import { randomUUID } from 'node:crypto';
+import { decodeJwt, type JWTPayload } from 'jose';
+import type { ApplicationAuthConfig } from '../application/base-application.interface.js';
+import { ErrorCode } from '../error/error.interface.js';
+import { AuthenticationError, ConfigurationError } from '../error/framework-errors.js';
+import type { RedisInstance } from '../redis/index.js';
+import type { AuthTokenPayload, JsonWebKeySet } from './jwt.interface.js';
+import Jwt, { type AuthenticationToken } from './jwt.js';
+
+/** Claims set by the token service, stripped from a refresh token's payload before issuing new tokens */
+const RESERVED_CLAIMS = ['iat', 'exp', 'nbf', 'jti', 'iss', 'aud', 'typ', 'fid'];
+
+const DEFAULT_KEY_PREFIX = 'auth:';
+
+export interface AuthTokenServiceProps {
+  authConfig: ApplicationAuthConfig;
+  redisInstance?: RedisInstance;
+}
+
+/**
+ * Issues, rotates and revokes access and refresh tokens.
+ *
+ * Every login starts a token family (`fid` claim). Refreshing consumes the refresh token and issues a new pair in the
+ * same family; presenting an already consumed refresh token is treated as theft and revokes the whole family.
+ * Refresh token records and the revocation denylist are stored in Redis.
+ */
+export default class AuthTokenService {
+  private readonly authConfig: ApplicationAuthConfig;
+  private readonly redisInstance?: RedisInstance;
+
+  constructor({ authConfig, redisInstance }: AuthTokenServiceProps) {
+    this.authConfig = authConfig;
+    this.redisInstance = redisInstance;
+  }
+
+  private get keyPrefix(): string {
+    return this.authConfig.revocation?.keyPrefix ?? DEFAULT_KEY_PREFIX;
+  }
+
+  private get redisClient() {
+    if (!this.redisInstance) {
+      throw new ConfigurationError('Redis is required for refresh token rotation and revocation');
+    }
+
+    return this.redisInstance.client;
+  }
+
+  private getRefreshTokenKey(tokenId: string): string {
+    return `${this.keyPrefix}refresh:${tokenId}`;
+  }
+
+  private getRevokedTokenKey(tokenId: string): string {
+    return `${this.keyPrefix}revoked:${tokenId}`;
+  }
+
+  private getRevokedFamilyKey(familyId: string): string {
+    return `${this.keyPrefix}revoked-family:${familyId}`;
+  }
+
+  /**
+   * Seconds until a token expires (at least 1, so Redis accepts it as a TTL).
+   */
+  private getRemainingLifetime(payload: JWTPayload): number {
+    if (!payload.exp) {
+      return Jwt.getTokenLifetime({ config: this.authConfig, type: 'refresh' });
+    }
+
+    return Math.max(1, payload.exp - Math.floor(Date.now() / 1000));
+  }
+
+  /**
+   * Issue an access and refresh token pair.
+   * Pass `familyId` to continue an existing family (used when refreshing); a new family is started otherwise.
+   */
+  public async issueTokens({
+    payload,
+    familyId = randomUUID(),
+  }: {
+    payload: JWTPayload;
+    familyId?: string;
+  }): Promise<AuthenticationToken> {
+    const claims = Object.fromEntries(Object.entries(payload).filter(([claim]) => !RESERVED_CLAIMS.includes(claim)));
+
+    const refreshTokenId = randomUUID();
+    const refreshTokenLifetime = Jwt.getTokenLifetime({ config: this.authConfig, type: 'refresh' });
+    const accessTokenLifetime = Jwt.getTokenLifetime({ config: this.authConfig, type: 'access' });
+
+    const accessToken = await Jwt.signToken({
+      config: this.authConfig,
+      payload: { ...claims, fid: familyId },
+      type: 'access',
+    });
+
+    const refreshToken = await Jwt.signToken({
+      config: this.authConfig,
+      payload: { ...claims, fid: familyId, jti: refreshTokenId },
+      type: 'refresh',
+    });
+
+    await this.redisClient.set(this.getRefreshTokenKey(refreshTokenId), familyId, 'EX', refreshTokenLifetime);
+
+    return {
+      type: 'Bearer',
+      accessToken,
+      refreshToken,
+      expiresAt: new Date(Date.now() + accessTokenLifetime * 1000),
+    };
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair. The refresh token can only be used once.
+   *
+   * @throws AuthenticationError if the token is invalid or revoked, or if it was already used (which revokes its family)
+   */
+  public async refreshTokens({ refreshToken }: { refreshToken: string }): Promise<AuthenticationToken> {
+    const payload = await Jwt.verifyToken({ config: this.authConfig, token: refreshToken, type: 'refresh' });
+
+    if (!payload.jti || !payload.fid) {
+      throw new AuthenticationError('Refresh token was not issued by the token service');
+    }
+
+    if (await this.isRevoked(payload)) {
+      throw new AuthenticationError('Refresh token has been revoked', { code: ErrorCode.AUTH_TOKEN_REVOKED });
+    }
+
+    // Deleting the record consumes the token atomically, so concurrent refreshes cannot both succeed
+    const consumed = await this.redisClient.del(this.getRefreshTokenKey(payload.jti));
+
+    if (consumed === 0) {
+      await this.revokeTokenFamily({ familyId: payload.fid });
+
+      throw new AuthenticationError('Refresh token reuse detected', {
+        code: ErrorCode.AUTH_TOKEN_REUSED,
+        context: { familyId: payload.fid },
+      });
+    }
+
+    return this.issueTokens({ payload, familyId: payload.fid });
+  }
+
+  /**
+   * Verify an access token, including the revocation denylist.
+   *
+   * @throws AuthenticationError if the token is invalid, expired, not an access token or revoked
+   */
+  public async verifyAccessToken({ accessToken }: { accessToken: string }): Promise<AuthTokenPayload> {
+    const payload = await Jwt.verifyToken({ config: this.authConfig, token: accessToken, type: 'access' });
+
+    if (this.authConfig.revocation?.enabled !== false && this.redisInstance && (await this.isRevoked(payload))) {
+      throw new AuthenticationError('Token has been revoked', { code: ErrorCode.AUTH_TOKEN_REVOKED });
+    }
+
+    return payload;
+  }
+
+  /**
+   * Revoke a single (valid) token until it expires. Revoking a refresh token also revokes its family.
+   */
+  public async revokeToken({ token }: { token: string }): Promise<void> {
+    const { typ } = decodeJwt<AuthTokenPayload>(token);
+    const payload = await Jwt.verifyToken({
+      config: this.authConfig,
+      token,
+      type: typ === 'refresh' ? 'refresh' : 'access',
+    });
+
+    if (payload.typ === 'refresh' && payload.fid) {
+      await this.revokeTokenFamily({ familyId: payload.fid });
+
+      return;
+    }
+
+    if (!payload.jti) {
+      throw new AuthenticationError('Token has no ID and cannot be revoked');
+    }
+
+    await this.redisClient.set(this.getRevokedTokenKey(payload.jti), '1', 'EX', this.getRemainingLifetime(payload));
+  }
+
+  /**
+   * Revoke every access and refresh token issued from one login (e.g. on logout or detected reuse).
+   */
+  public async revokeTokenFamily({ familyId }: { familyId: string }): Promise<void> {
+    const lifetime = Jwt.getTokenLifetime({ config: this.authConfig, type: 'refresh' });
+
+    await this.redisClient.set(this.getRevokedFamilyKey(familyId), '1', 'EX', lifetime);
+  }
+
+  /**
+   * Whether a token or its family has been revoked. Tokens without a `jti` claim are never considered revoked.
+   */
+  public async isRevoked(payload: AuthTokenPayload): Promise<boolean> {
+    if (!payload.jti) {
+      return false;
+    }
+
+    const keys = [this.getRevokedTokenKey(payload.jti)];
+
+    if (payload.fid) {
+      keys.push(this.getRevokedFamilyKey(payload.fid));
+    }
+
+    const revokedCount = await this.redisClient.exists(...keys);
+
+    return revokedCount > 0;
+  }
+
+  /**
+   * Get the JSON Web Key Set for the configured signing key.
+   */
+  public getJwks(): Promise<JsonWebKeySet> {
+    return Jwt.getJwks(this.authConfig);
+  }
+}
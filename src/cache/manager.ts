@@ -1,6 +1,7 @@
 import { safeSerializeError } from '../error/error-reporter.js';
 import type RedisInstance from '../redis/instance.js';
 import type RedisManager from '../redis/manager.js';
+import Tenancy from '../tenancy/tenancy.js';
 
 /**
  * CacheManager
@@ -37,15 +38,27 @@ import type RedisManager from '../redis/manager.js';
 export interface CacheManagerProps {
   /** Redis manager (shared across the application) */
   redisManager: RedisManager;
+
+  /** Prefix keys with the tenant of the request context (`tenant:<id>:`), set when tenancy is enabled */
+  tenantScoped?: boolean;
 }
 
 export default class CacheManager {
   private redisManager: RedisManager;
   private redisInstance?: RedisInstance;
   private redisInstancePromise?: Promise<RedisInstance>;
+  private tenantScoped: boolean;
 
-  constructor({ redisManager }: CacheManagerProps) {
+  constructor({ redisManager, tenantScoped = false }: CacheManagerProps) {
     this.redisManager = redisManager;
+    this.tenantScoped = tenantScoped;
+  }
+
+  /**
+   * Get the Redis key of a cache key
+   */
+  private getKey(key: string): string {
+    return this.tenantScoped ? Tenancy.getTenantScopedKey({ key }) : key;
   }
 
   /**
@@ -94,7 +107,7 @@ export default class CacheManager {
    */
   public async getItem<T>({ key }: { key: string }): Promise<T | null> {
     const instance = await this.getRedisInstance();
-    const raw = await instance.getCache({ key });
+    const raw = await instance.getCache({ key: this.getKey(key) });
     if (raw === null) return null;
 
     // Validate that we received a string (Redis should always return string or null)
@@ -132,7 +145,7 @@ export default class CacheManager {
    */
   public async setItem<T>({ key, value, lifetime }: { key: string; value: T; lifetime?: number }): Promise<void> {
     const instance = await this.getRedisInstance();
-    await instance.setCache({ key, value, expiration: lifetime });
+    await instance.setCache({ key: this.getKey(key), value, expiration: lifetime });
   }
 
   /**
@@ -147,7 +160,7 @@ export default class CacheManager {
    */
   public async clearItem({ key }: { key: string }): Promise<void> {
     const instance = await this.getRedisInstance();
-    await instance.deleteCache({ key });
+    await instance.deleteCache({ key: this.getKey(key) });
   }
 
   /**
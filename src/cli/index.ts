@@ -4,13 +4,26 @@
  * Responsibilities:
  *  - Provide version information (--version)
  *  - Display framework info (default)
- *  - Placeholder for future subcommands (e.g., generate, doctor, analyze)
+ *  - Generate an OpenAPI document from route definitions (openapi)
+ *  - Generate a typed API client from route definitions (generate client)
+ *  - Run and create database migrations, and run seeders (db:*)
+ *  - List, pause, resume and trigger job schedules (queue:schedule*)
+ *  - List, inspect, replay and purge dead-letter queue entries (queue:dlq:*)
+ *  - Inspect queues and jobs, retry, promote and remove jobs, and pause, resume, drain and clean queues (queue:*)
+ *  - Placeholder for future subcommands (e.g., analyze)
  */
-import { readFile } from 'node:fs/promises';
+import { readFile, writeFile } from 'node:fs/promises';
 import path from 'node:path';
-import { fileURLToPath } from 'node:url';
-import yargs from 'yargs';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import type { Queue } from 'bullmq';
+import yargs, { type Argv } from 'yargs';
 import { hideBin } from 'yargs/helpers';
+import type { ApplicationConfig } from '../application/base-application.interface.js';
+import type DatabaseInstance from '../database/instance.js';
+import type { DatabaseDriver } from '../database/manager.interface.js';
+import { QUEUE_CLEAN_STATES, QUEUE_JOB_STATES, type QueueInfo, type QueueJobInfo } from '../queue/admin.interface.js';
+import type { QueueDeadLetterEntry } from '../queue/dead-letter.interface.js';
+import type { QueueScheduleInfo } from '../queue/scheduler.interface.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -37,6 +50,193 @@ function banner(pkg: { name?: string; version?: string; description?: string })
   ].join('\n');
 }
 
+async function loadRoutes(routesDirectory: string) {
+  const { default: Loader } = await import('../util/loader.js');
+  const { default: WebServerUtil } = await import('../webserver/util.js');
+
+  const routeModules = await Loader.loadModulesInDirectory({
+    directory: routesDirectory,
+    extensions: ['.ts', '.js'],
+  });
+
+  return Object.values(routeModules).flatMap(exportedRoutes => WebServerUtil.toRouteArray(exportedRoutes));
+}
+
+/**
+ * Import a module of the library build at runtime instead of bundling it into the CLI,
+ * for modules depending on database drivers and native packages
+ */
+function importLibraryModule<T>(modulePath: string): Promise<T> {
+  return import(pathToFileURL(path.resolve(__dirname, '..', modulePath)).href) as Promise<T>;
+}
+
+function databaseOptions<T>(y: Argv<T>) {
+  const env = process.env;
+
+  return y
+    .option('driver', {
+      type: 'string',
+      choices: ['postgresql', 'mysql', 'mariadb', 'sqlite', 'libsql'] as const,
+      default: env.PXL_DB_DRIVER ?? 'postgresql',
+      describe: 'Database driver',
+    })
+    .option('host', { type: 'string', default: env.PXL_DB_HOST ?? 'localhost', describe: 'Database host' })
+    .option('port', {
+      type: 'number',
+      default: env.PXL_DB_PORT ? Number(env.PXL_DB_PORT) : undefined,
+      describe: 'Database port (default: the driver default)',
+    })
+    .option('username', { type: 'string', default: env.PXL_DB_USERNAME, describe: 'Database username' })
+    .option('password', { type: 'string', default: env.PXL_DB_PASSWORD, describe: 'Database password' })
+    .option('database', {
+      type: 'string',
+      default: env.PXL_DB_NAME,
+      describe: 'Database name (file path or URL for sqlite and libsql)',
+    })
+    .option('entities', {
+      type: 'string',
+      default: env.PXL_DB_ENTITIES_DIR ?? './src/database/entities',
+      describe: 'Entities directory',
+    })
+    .option('migrations', { type: 'string', default: './src/database/migrations', describe: 'Migrations directory' })
+    .option('migrations-table', { type: 'string', describe: 'Table tracking executed migrations' })
+    .option('seeders', { type: 'string', default: './src/database/seeders', describe: 'Seeders directory' });
+}
+
+async function withDatabase<T>(
+  args: {
+    driver: string;
+    host: string;
+    port?: number;
+    username?: string;
+    password?: string;
+    database?: string;
+    entities: string;
+    migrations: string;
+    'migrations-table'?: string;
+    seeders: string;
+  },
+  callback: (databaseInstance: DatabaseInstance) => Promise<T>,
+): Promise<T> {
+  const isServerDriver = args.driver !== 'sqlite' && args.driver !== 'libsql';
+
+  if (!args.database || (isServerDriver && (!args.username || !args.password))) {
+    throw new Error(
+      isServerDriver
+        ? 'Database connection incomplete (use --username, --password and --database, or PXL_DB_* variables)'
+        : 'Database connection incomplete (use --database or PXL_DB_NAME)',
+    );
+  }
+
+  const { default: DatabaseManager } =
+    await importLibraryModule<typeof import('../database/manager.js')>('database/manager.js');
+
+  const databaseManager = new DatabaseManager({
+    applicationConfig: { log: { startUp: false } } as ApplicationConfig,
+    // Validated by the option choices
+    driver: args.driver as DatabaseDriver,
+    host: isServerDriver ? args.host : undefined,
+    port: args.port,
+    username: args.username,
+    password: args.password,
+    databaseName: args.database,
+    entitiesDirectory: path.resolve(process.cwd(), args.entities),
+    migrations: { directory: path.resolve(process.cwd(), args.migrations), tableName: args['migrations-table'] },
+    seeders: { directory: path.resolve(process.cwd(), args.seeders) },
+  });
+
+  const databaseInstance = await databaseManager.connect();
+
+  try {
+    return await callback(databaseInstance);
+  } finally {
+    await databaseManager.disconnect();
+  }
+}
+
+function redisOptions<T>(y: Argv<T>) {
+  const env = process.env;
+
+  return y
+    .option('redis-host', { type: 'string', default: env.PXL_REDIS_HOST ?? 'localhost', describe: 'Redis host' })
+    .option('redis-port', {
+      type: 'number',
+      default: env.PXL_REDIS_PORT ? Number(env.PXL_REDIS_PORT) : 6379,
+      describe: 'Redis port',
+    })
+    .option('redis-password', { type: 'string', default: env.PXL_REDIS_PASSWORD, describe: 'Redis password' });
+}
+
+function scheduleOptions<T>(y: Argv<T>) {
+  return redisOptions(y)
+    .option('queue', { type: 'string', demandOption: true, describe: 'Queue name' })
+    .option('schedule', { type: 'string', demandOption: true, describe: 'Schedule ID' });
+}
+
+function deadLetterOptions<T>(y: Argv<T>) {
+  return redisOptions(y)
+    .option('queue', { type: 'string', demandOption: true, describe: 'Queue name' })
+    .option('dead-letter-queue', {
+      type: 'string',
+      describe: 'Dead-letter queue name (default: <queue>-dead-letter)',
+    });
+}
+
+function jobOptions<T>(y: Argv<T>) {
+  return redisOptions(y)
+    .option('queue', { type: 'string', demandOption: true, describe: 'Queue name' })
+    .option('job', { type: 'string', demandOption: true, describe: 'Job ID' });
+}
+
+async function withQueues<T>(
+  args: { 'redis-host': string; 'redis-port': number; 'redis-password'?: string },
+  queueNames: string[],
+  callback: (queues: Queue[]) => Promise<T>,
+): Promise<T> {
+  const { Queue: QueueClass } = await import('bullmq');
+
+  const connection = { host: args['redis-host'], port: args['redis-port'], password: args['redis-password'] };
+  const queues = queueNames.map(name => new QueueClass(name, { connection }));
+
+  try {
+    return await callback(queues);
+  } finally {
+    await Promise.all(queues.map(queue => queue.close()));
+  }
+}
+
+function printSchedule(schedule: QueueScheduleInfo) {
+  const every = schedule.cron ?? `every ${schedule.every}ms`;
+  const timezone = schedule.timezone ? ` (${schedule.timezone})` : '';
+  const state = schedule.paused ? 'paused' : `next run ${schedule.next?.toISOString() ?? '-'}`;
+
+  console.log(`  • ${schedule.queue}/${schedule.id} → ${schedule.jobName}: ${every}${timezone}, ${state}`);
+}
+
+function printDeadLetter(entry: QueueDeadLetterEntry) {
+  console.log(
+    `  • ${entry.id} → ${entry.queueId}/${entry.jobName}: ${entry.failedReason} ` +
+      `(${entry.attemptsMade} attempts, failed at ${entry.failedAt.toISOString()})`,
+  );
+}
+
+function printQueue(queue: QueueInfo) {
+  const counts = Object.entries(queue.counts)
+    .filter(([, count]) => count > 0)
+    .map(([state, count]) => `${state} ${count}`);
+
+  console.log(`  • ${queue.id}${queue.paused ? ' (paused)' : ''}: ${counts.join(', ') || 'no jobs'}`);
+}
+
+function printJob(job: QueueJobInfo) {
+  const failedReason = job.failedReason ? `: ${job.failedReason}` : '';
+
+  console.log(
+    `  • ${job.id} → ${job.queueId}/${job.name} ${job.state}${failedReason} ` +
+      `(${job.attemptsMade} attempts, created at ${job.createdAt.toISOString()})`,
+  );
+}
+
 async function main(argv = hideBin(process.argv)) {
   const pkg = await getPackageJson();
 
@@ -58,14 +258,35 @@ async function main(argv = hideBin(process.argv)) {
         console.log('Available Commands:');
         console.log('  • routes        List route files in your project');
         console.log('  • doctor        Run environment diagnostics');
+        console.log('  • openapi       Generate an OpenAPI 3.1 document from route files');
+        console.log('  • generate      Generate code from route files (client)');
+        console.log('  • db:migrate    Run pending database migrations');
+        console.log('  • db:rollback   Revert database migrations');
+        console.log('  • db:status     List executed and pending migrations');
+        console.log('  • db:create-migration  Generate a migration from entity changes');
+        console.log('  • db:seed       Run database seeders');
+        console.log('  • queue:schedules  List job schedules');
+        console.log('  • queue:schedule:pause|resume|trigger  Manage a job schedule');
+        console.log('  • queue:dlq:list|inspect|replay|purge  Manage dead-letter queue entries');
+        console.log('  • queue:list    List queues with their job counts');
+        console.log('  • queue:jobs|job  List the jobs of a queue by state, or inspect a job');
+        console.log('  • queue:job:retry|promote|remove  Manage a job');
+        console.log('  • queue:pause|resume|drain|clean  Manage a queue');
         console.log('  • version       Show framework version');
         console.log('\nPlanned Commands:');
-        console.log('  • generate      Scaffolding (coming soon)');
+        console.log('  • generate app  Scaffolding (coming soon)');
         console.log('  • analyze       Project inspection (coming soon)');
         console.log('\nExamples:');
         console.log('  pxl routes');
         console.log('  pxl routes --path ./src/api --pattern "**/*.ts"');
         console.log('  pxl doctor');
+        console.log('  pxl openapi --routes ./dist/routes --output ./openapi.json');
+        console.log('  pxl generate client --routes ./dist/routes --output ./src/api-client.ts');
+        console.log('  pxl db:migrate --database app --username app --password secret');
+        console.log('  pxl queue:schedule:trigger --queue reports --schedule daily-report');
+        console.log('  pxl queue:dlq:replay --queue emails --entry 42');
+        console.log('  pxl queue:jobs --queue emails --state failed');
+        console.log('  pxl queue:clean --queue emails --state completed --older-than 86400');
         console.log('  pxl --version');
       },
     )
@@ -186,6 +407,621 @@ async function main(argv = hideBin(process.argv)) {
         process.exit(exitCode);
       },
     )
+    .command(
+      'openapi',
+      'Generate an OpenAPI 3.1 document from route definition files',
+      y =>
+        y
+          .option('routes', {
+            type: 'string',
+            demandOption: true,
+            describe: 'Directory containing route definition files (same as webServer.routesDirectory)',
+          })
+          .option('output', { type: 'string', default: './openapi.json', describe: 'Output file path' })
+          .option('stdout', { type: 'boolean', default: false, describe: 'Write the document to stdout' })
+          .option('title', { type: 'string', default: 'API', describe: 'Document title' })
+          .option('api-version', { type: 'string', default: '1.0.0', describe: 'API version' })
+          .option('description', { type: 'string', describe: 'Document description' })
+          .option('server', { type: 'array', string: true, default: [], describe: 'Server URL (repeatable)' }),
+      async args => {
+        const { generateOpenApiDocument } = await import('../webserver/openapi.js');
+
+        try {
+          const routes = await loadRoutes(path.resolve(process.cwd(), args.routes));
+
+          const document = generateOpenApiDocument({
+            routes,
+            info: {
+              title: args.title,
+              version: args['api-version'],
+              ...(args.description ? { description: args.description } : {}),
+            },
+            servers: args.server.map(url => ({ url: String(url) })),
+          });
+
+          const output = `${JSON.stringify(document, null, 2)}\n`;
+
+          if (args.stdout) {
+            process.stdout.write(output);
+          } else {
+            const outputPath = path.resolve(process.cwd(), args.output);
+            await writeFile(outputPath, output, 'utf8');
+            console.log(`OpenAPI document written to ${path.relative(process.cwd(), outputPath)}`);
+            console.log(`  Paths: ${Object.keys(document.paths).length}`);
+            console.log(`  Schemas: ${Object.keys(document.components.schemas).length}`);
+          }
+        } catch (err) {
+          console.error('Error generating OpenAPI document:', (err as Error).message);
+          process.exit(1);
+        }
+      },
+    )
+    .command('generate', 'Generate code from route definition files', y =>
+      y
+        .command(
+          'client',
+          'Generate a typed TypeScript API client (one function per route)',
+          yc =>
+            yc
+              .option('routes', {
+                type: 'string',
+                demandOption: true,
+                describe: 'Directory containing route definition files (same as webServer.routesDirectory)',
+              })
+              .option('output', { type: 'string', default: './api-client.ts', describe: 'Output file path' })
+              .option('stdout', { type: 'boolean', default: false, describe: 'Write the client to stdout' }),
+          async args => {
+            const { generateApiClient } = await import('../webserver/client-generator.js');
+
+            try {
+              const routes = await loadRoutes(path.resolve(process.cwd(), args.routes));
+              const output = generateApiClient({ routes });
+
+              if (args.stdout) {
+                process.stdout.write(output);
+              } else {
+                const outputPath = path.resolve(process.cwd(), args.output);
+                await writeFile(outputPath, output, 'utf8');
+                console.log(`API client written to ${path.relative(process.cwd(), outputPath)}`);
+              }
+            } catch (err) {
+              console.error('Error generating API client:', (err as Error).message);
+              process.exit(1);
+            }
+          },
+        )
+        .demandCommand(1, 'Specify what to generate (e.g. "pxl generate client")'),
+    )
+    .command(
+      'db:migrate',
+      'Run pending database migrations',
+      y => databaseOptions(y).option('to', { type: 'string', describe: 'Last migration to run' }),
+      async args => {
+        const { default: Migration } =
+          await importLibraryModule<typeof import('../database/migration.js')>('database/migration.js');
+
+        try {
+          const migrations = await withDatabase(args, databaseInstance =>
+            Migration.migrate({ databaseInstance, to: args.to }),
+          );
+
+          console.log(migrations.length > 0 ? `Executed ${migrations.length} migration(s)` : 'No pending migrations');
+          for (const migration of migrations) console.log(`  • ${migration.name}`);
+        } catch (err) {
+          console.error('Error running migrations:', (err as Error).message);
+          process.exit(1);
+        }
+      },
+    )
+    .command(
+      'db:rollback',
+      'Revert database migrations (the last one by default)',
+      y =>
+        databaseOptions(y)
+          .option('steps', { type: 'number', default: 1, describe: 'Number of migrations to revert' })
+          .option('to', { type: 'string', describe: 'Revert migrations after this one ("0" reverts all)' }),
+      async args => {
+        const { default: Migration } =
+          await importLibraryModule<typeof import('../database/migration.js')>('database/migration.js');
+
+        try {
+          const migrations = await withDatabase(args, databaseInstance =>
+            Migration.rollback({
+              databaseInstance,
+              to: args.to === '0' ? 0 : args.to,
+              steps: args.steps,
+            }),
+          );
+
+          console.log(migrations.length > 0 ? `Reverted ${migrations.length} migration(s)` : 'No migrations to revert');
+          for (const migration of migrations) console.log(`  • ${migration.name}`);
+        } catch (err) {
+          console.error('Error reverting migrations:', (err as Error).message);
+          process.exit(1);
+        }
+      },
+    )
+    .command(
+      'db:status',
+      'List executed and pending database migrations',
+      y => databaseOptions(y).option('json', { type: 'boolean', default: false, describe: 'Output JSON' }),
+      async args => {
+        const { default: Migration } =
+          await importLibraryModule<typeof import('../database/migration.js')>('database/migration.js');
+
+        try {
+          const status = await withDatabase(args, databaseInstance => Migration.getStatus({ databaseInstance }));
+
+          if (args.json) {
+            console.log(JSON.stringify(status, null, 2));
+          } else {
+            console.log(`Executed migrations (${status.executed.length}):`);
+            for (const migration of status.executed) {
+              console.log(`  • ${migration.name} (${new Date(migration.executed_at).toISOString()})`);
+            }
+            console.log(`\nPending migrations (${status.pending.length}):`);
+            for (const migration of status.pending) console.log(`  • ${migration.name}`);
+          }
+        } catch (err) {
+          console.error('Error reading migration status:', (err as Error).message);
+          process.exit(1);
+        }
+      },
+    )
+    .command(
+      'db:create-migration',
+      'Generate a migration from the difference between entities and the database schema',
+      y =>
+        databaseOptions(y)
+          .option('name', { type: 'string', describe: 'Migration name' })
+          .option('blank', { type: 'boolean', default: false, describe: 'Create an empty migration' })
+          .option('initial', { type: 'boolean', default: false, describe: 'Create the initial migration' }),
+      async args => {
+        const { default: Migration } =
+          await importLibraryModule<typeof import('../database/migration.js')>('database/migration.js');
+
+        try {
+          const result = await withDatabase(args, databaseInstance =>
+            Migration.createMigration({
+              databaseInstance,
+              name: args.name,
+              blank: args.blank,
+              initial: args.initial,
+            }),
+          );
+
+          console.log(result.fileName ? `Migration created: ${result.fileName}` : 'No changes to migrate');
+        } catch (err) {
+          console.error('Error creating migration:', (err as Error).message);
+          process.exit(1);
+        }
+      },
+    )
+    .command(
+      'db:seed',
+      'Run database seeders',
+      y =>
+        databaseOptions(y).option('class', {
+          type: 'array',
+          string: true,
+          default: [] as string[],
+          describe: 'Seeder class to run (repeatable, default: DatabaseSeeder)',
+        }),
+      async args => {
+        const { default: Migration } =
+          await importLibraryModule<typeof import('../database/migration.js')>('database/migration.js');
+        const seeders = args.class.map(String);
+
+        try {
+          await withDatabase(args, databaseInstance =>
+            Migration.seed({ databaseInstance, seeders: seeders.length > 0 ? seeders : undefined }),
+          );
+
+          console.log(`Seeded: ${(seeders.length > 0 ? seeders : [Migration.DEFAULT_SEEDER]).join(', ')}`);
+        } catch (err) {
+          console.error('Error running seeders:', (err as Error).message);
+          process.exit(1);
+        }
+      },
+    )
+    .command(
+      'queue:schedules',
+      'List the job schedules of queues',
+      y =>
+        redisOptions(y)
+          .option('queue', { type: 'array', string: true, demandOption: true, describe: 'Queue name (repeatable)' })
+          .option('json', { type: 'boolean', default: false, describe: 'Output JSON' }),
+      async args => {
+        const { default: QueueScheduler } =
+          await importLibraryModule<typeof import('../queue/scheduler.js')>('queue/scheduler.js');
+
+        try {
+          const schedules = await withQueues(args, args.queue.map(String), async queues =>
+            (await Promise.all(queues.map(queue => QueueScheduler.list({ queue })))).flat(),
+          );
+
+          if (args.json) {
+            console.log(JSON.stringify(schedules, null, 2));
+          } else {
+            console.log(`Job schedules (${schedules.length}):`);
+            for (const schedule of schedules) printSchedule(schedule);
+          }
+        } catch (err) {
+          console.error('Error listing schedules:', (err as Error).message);
+          process.exit(1);
+        }
+      },
+    )
+    .command(
+      'queue:schedule:pause',
+      'Pause a job schedule until it is resumed',
+      y => scheduleOptions(y),
+      async args => {
+        const { default: QueueScheduler } =
+          await importLibraryModule<typeof import('../queue/scheduler.js')>('queue/scheduler.js');
+
+        try {
+          const schedule = await withQueues(args, [args.queue], ([queue]) =>
+            QueueScheduler.pause({ queue, id: args.schedule }),
+          );
+
+          console.log('Schedule paused:');
+          printSchedule(schedule);
+        } catch (err) {
+          console.error('Error pausing schedule:', (err as Error).message);
+          process.exit(1);
+        }
+      },
+    )
+    .command(
+      'queue:schedule:resume',
+      'Resume a paused job schedule',
+      y => scheduleOptions(y),
+      async args => {
+        const { default: QueueScheduler } =
+          await importLibraryModule<typeof import('../queue/scheduler.js')>('queue/scheduler.js');
+
+        try {
+          const schedule = await withQueues(args, [args.queue], ([queue]) =>
+            QueueScheduler.resume({ queue, id: args.schedule }),
+          );
+
+          console.log('Schedule resumed:');
+          printSchedule(schedule);
+        } catch (err) {
+          console.error('Error resuming schedule:', (err as Error).message);
+          process.exit(1);
+        }
+      },
+    )
+    .command(
+      'queue:schedule:trigger',
+      'Add a run of a job schedule now, without affecting its next run',
+      y => scheduleOptions(y),
+      async args => {
+        const { default: QueueScheduler } =
+          await importLibraryModule<typeof import('../queue/scheduler.js')>('queue/scheduler.js');
+
+        try {
+          const job = await withQueues(args, [args.queue], ([queue]) =>
+            QueueScheduler.trigger({ queue, id: args.schedule }),
+          );
+
+          console.log(`Schedule triggered: ${args.queue}/${args.schedule} (Job ID: ${job.id})`);
+        } catch (err) {
+          console.error('Error triggering schedule:', (err as Error).message);
+          process.exit(1);
+        }
+      },
+    )
+    .command(
+      'queue:dlq:list',
+      'List the entries of a dead-letter queue, the most recent first',
+      y =>
+        deadLetterOptions(y)
+          .option('offset', { type: 'number', default: 0, describe: 'Entries to skip' })
+          .option('limit', { type: 'number', default: 20, describe: 'Maximum number of entries' })
+          .option('json', { type: 'boolean', default: false, describe: 'Output JSON' }),
+      async args => {
+        const { default: DeadLetter } =
+          await importLibraryModule<typeof import('../queue/dead-letter.js')>('queue/dead-letter.js');
+
+        try {
+          const { entries, total } = await withQueues(
+            args,
+            [DeadLetter.getQueueName({ queueId: args.queue, options: { queue: args['dead-letter-queue'] } })],
+            ([deadLetterQueue]) => DeadLetter.list({ deadLetterQueue, offset: args.offset, limit: args.limit }),
+          );
+
+          if (args.json) {
+            console.log(JSON.stringify({ entries, total }, null, 2));
+          } else {
+            console.log(`Dead-letter entries (${entries.length} of ${total}):`);
+            for (const entry of entries) printDeadLetter(entry);
+          }
+        } catch (err) {
+          console.error('Error listing dead-letter entries:', (err as Error).message);
+          process.exit(1);
+        }
+      },
+    )
+    .command(
+      'queue:dlq:inspect',
+      'Show a dead-letter entry with the data and stack trace of the failed job',
+      y => deadLetterOptions(y).option('entry', { type: 'string', demandOption: true, describe: 'Entry ID' }),
+      async args => {
+        const { default: DeadLetter } =
+          await importLibraryModule<typeof import('../queue/dead-letter.js')>('queue/dead-letter.js');
+
+        try {
+          const entry = await withQueues(
+            args,
+            [DeadLetter.getQueueName({ queueId: args.queue, options: { queue: args['dead-letter-queue'] } })],
+            ([deadLetterQueue]) => DeadLetter.get({ deadLetterQueue, entryId: args.entry }),
+          );
+
+          console.log(JSON.stringify(entry, null, 2));
+        } catch (err) {
+          console.error('Error inspecting dead-letter entry:', (err as Error).message);
+          process.exit(1);
+        }
+      },
+    )
+    .command(
+      'queue:dlq:replay',
+      'Add a dead-letter entry back to its queue (the payload is validated when the job is processed)',
+      y =>
+        deadLetterOptions(y)
+          .option('entry', { type: 'string', demandOption: true, describe: 'Entry ID' })
+          .option('payload', { type: 'string', describe: 'Edited payload (JSON object)' }),
+      async args => {
+        const { default: DeadLetter } =
+          await importLibraryModule<typeof import('../queue/dead-letter.js')>('queue/dead-letter.js');
+
+        try {
+          const payload = args.payload === undefined ? undefined : JSON.parse(args.payload);
+
+          if (payload !== undefined && (!payload || typeof payload !== 'object' || Array.isArray(payload))) {
+            throw new Error('Payload must be a JSON object');
+          }
+
+          const job = await withQueues(
+            args,
+            [
+              args.queue,
+              DeadLetter.getQueueName({ queueId: args.queue, options: { queue: args['dead-letter-queue'] } }),
+            ],
+            ([queue, deadLetterQueue]) => DeadLetter.replay({ deadLetterQueue, queue, entryId: args.entry, payload }),
+          );
+
+          console.log(`Dead-letter entry replayed: ${args.queue}/${args.entry} (Job ID: ${job.id})`);
+        } catch (err) {
+          console.error('Error replaying dead-letter entry:', (err as Error).message);
+          process.exit(1);
+        }
+      },
+    )
+    .command(
+      'queue:dlq:purge',
+      'Remove a dead-letter entry, or all entries of a dead-letter queue',
+      y => deadLetterOptions(y).option('entry', { type: 'string', describe: 'Entry ID (default: all entries)' }),
+      async args => {
+        const { default: DeadLetter } =
+          await importLibraryModule<typeof import('../queue/dead-letter.js')>('queue/dead-letter.js');
+
+        try {
+          const count = await withQueues(
+            args,
+            [DeadLetter.getQueueName({ queueId: args.queue, options: { queue: args['dead-letter-queue'] } })],
+            ([deadLetterQueue]) => DeadLetter.purge({ deadLetterQueue, entryId: args.entry }),
+          );
+
+          console.log(`Dead-letter entries purged: ${count}`);
+        } catch (err) {
+          console.error('Error purging dead-letter entries:', (err as Error).message);
+          process.exit(1);
+        }
+      },
+    )
+    .command(
+      'queue:list',
+      'List queues with their job counts',
+      y =>
+        redisOptions(y)
+          .option('queue', { type: 'array', string: true, demandOption: true, describe: 'Queue name (repeatable)' })
+          .option('json', { type: 'boolean', default: false, describe: 'Output JSON' }),
+      async args => {
+        const { default: QueueAdmin } = await importLibraryModule<typeof import('../queue/admin.js')>('queue/admin.js');
+
+        try {
+          const queues = await withQueues(args, args.queue.map(String), queues =>
+            Promise.all(queues.map(queue => QueueAdmin.getInfo({ queue }))),
+          );
+
+          if (args.json) {
+            console.log(JSON.stringify(queues, null, 2));
+          } else {
+            console.log(`Queues (${queues.length}):`);
+            for (const queue of queues) printQueue(queue);
+          }
+        } catch (err) {
+          console.error('Error listing queues:', (err as Error).message);
+          process.exit(1);
+        }
+      },
+    )
+    .command(
+      'queue:jobs',
+      'List the jobs of a queue in a state, the most recent first',
+      y =>
+        redisOptions(y)
+          .option('queue', { type: 'string', demandOption: true, describe: 'Queue name' })
+          .option('state', { choices: QUEUE_JOB_STATES, default: 'waiting' as const, describe: 'Job state' })
+          .option('offset', { type: 'number', default: 0, describe: 'Jobs to skip' })
+          .option('limit', { type: 'number', default: 20, describe: 'Maximum number of jobs' })
+          .option('json', { type: 'boolean', default: false, describe: 'Output JSON' }),
+      async args => {
+        const { default: QueueAdmin } = await importLibraryModule<typeof import('../queue/admin.js')>('queue/admin.js');
+
+        try {
+          const { jobs, total } = await withQueues(args, [args.queue], ([queue]) =>
+            QueueAdmin.listJobs({ queue, state: args.state, offset: args.offset, limit: args.limit }),
+          );
+
+          if (args.json) {
+            console.log(JSON.stringify({ jobs, total }, null, 2));
+          } else {
+            console.log(`Jobs ${args.state} (${jobs.length} of ${total}):`);
+            for (const job of jobs) printJob(job);
+          }
+        } catch (err) {
+          console.error('Error listing jobs:', (err as Error).message);
+          process.exit(1);
+        }
+      },
+    )
+    .command(
+      'queue:job',
+      'Show a job with its data, progress, logs and stack traces',
+      y => jobOptions(y),
+      async args => {
+        const { default: QueueAdmin } = await importLibraryModule<typeof import('../queue/admin.js')>('queue/admin.js');
+
+        try {
+          const job = await withQueues(args, [args.queue], ([queue]) => QueueAdmin.getJob({ queue, jobId: args.job }));
+
+          console.log(JSON.stringify(job, null, 2));
+        } catch (err) {
+          console.error('Error inspecting job:', (err as Error).message);
+          process.exit(1);
+        }
+      },
+    )
+    .command(
+      'queue:job:retry',
+      'Retry a failed job',
+      y => jobOptions(y),
+      async args => {
+        const { default: QueueAdmin } = await importLibraryModule<typeof import('../queue/admin.js')>('queue/admin.js');
+
+        try {
+          await withQueues(args, [args.queue], ([queue]) => QueueAdmin.retry({ queue, jobId: args.job }));
+
+          console.log(`Job retried: ${args.queue}/${args.job}`);
+        } catch (err) {
+          console.error('Error retrying job:', (err as Error).message);
+          process.exit(1);
+        }
+      },
+    )
+    .command(
+      'queue:job:promote',
+      'Run a delayed job now',
+      y => jobOptions(y),
+      async args => {
+        const { default: QueueAdmin } = await importLibraryModule<typeof import('../queue/admin.js')>('queue/admin.js');
+
+        try {
+          await withQueues(args, [args.queue], ([queue]) => QueueAdmin.promote({ queue, jobId: args.job }));
+
+          console.log(`Job promoted: ${args.queue}/${args.job}`);
+        } catch (err) {
+          console.error('Error promoting job:', (err as Error).message);
+          process.exit(1);
+        }
+      },
+    )
+    .command(
+      'queue:job:remove',
+      'Remove a job',
+      y => jobOptions(y),
+      async args => {
+        const { default: QueueAdmin } = await importLibraryModule<typeof import('../queue/admin.js')>('queue/admin.js');
+
+        try {
+          await withQueues(args, [args.queue], ([queue]) => QueueAdmin.remove({ queue, jobId: args.job }));
+
+          console.log(`Job removed: ${args.queue}/${args.job}`);
+        } catch (err) {
+          console.error('Error removing job:', (err as Error).message);
+          process.exit(1);
+        }
+      },
+    )
+    .command(
+      'queue:pause',
+      'Pause a queue: workers stop taking new jobs until it is resumed',
+      y => redisOptions(y).option('queue', { type: 'string', demandOption: true, describe: 'Queue name' }),
+      async args => {
+        try {
+          await withQueues(args, [args.queue], ([queue]) => queue.pause());
+
+          console.log(`Queue paused: ${args.queue}`);
+        } catch (err) {
+          console.error('Error pausing queue:', (err as Error).message);
+          process.exit(1);
+        }
+      },
+    )
+    .command(
+      'queue:resume',
+      'Resume a paused queue',
+      y => redisOptions(y).option('queue', { type: 'string', demandOption: true, describe: 'Queue name' }),
+      async args => {
+        try {
+          await withQueues(args, [args.queue], ([queue]) => queue.resume());
+
+          console.log(`Queue resumed: ${args.queue}`);
+        } catch (err) {
+          console.error('Error resuming queue:', (err as Error).message);
+          process.exit(1);
+        }
+      },
+    )
+    .command(
+      'queue:drain',
+      'Remove the waiting jobs of a queue',
+      y =>
+        redisOptions(y)
+          .option('queue', { type: 'string', demandOption: true, describe: 'Queue name' })
+          .option('delayed', { type: 'boolean', default: false, describe: 'Also remove delayed jobs' }),
+      async args => {
+        const { default: QueueAdmin } = await importLibraryModule<typeof import('../queue/admin.js')>('queue/admin.js');
+
+        try {
+          await withQueues(args, [args.queue], ([queue]) => QueueAdmin.drain({ queue, delayed: args.delayed }));
+
+          console.log(`Queue drained: ${args.queue}`);
+        } catch (err) {
+          console.error('Error draining queue:', (err as Error).message);
+          process.exit(1);
+        }
+      },
+    )
+    .command(
+      'queue:clean',
+      'Remove the jobs of a queue in a state that are older than a given age',
+      y =>
+        redisOptions(y)
+          .option('queue', { type: 'string', demandOption: true, describe: 'Queue name' })
+          .option('state', { choices: QUEUE_CLEAN_STATES, demandOption: true, describe: 'Job state' })
+          .option('older-than', { type: 'number', demandOption: true, describe: 'Minimum job age in seconds' })
+          .option('limit', { type: 'number', default: 1000, describe: 'Maximum number of jobs' }),
+      async args => {
+        const { default: QueueAdmin } = await importLibraryModule<typeof import('../queue/admin.js')>('queue/admin.js');
+
+        try {
+          const jobIds = await withQueues(args, [args.queue], ([queue]) =>
+            QueueAdmin.clean({ queue, state: args.state, olderThanSeconds: args['older-than'], limit: args.limit }),
+          );
+
+          console.log(`Jobs cleaned: ${jobIds.length}`);
+        } catch (err) {
+          console.error('Error cleaning queue:', (err as Error).message);
+          process.exit(1);
+        }
+      },
+    )
     .strict()
     .fail((msg, err) => {
       if (err) {
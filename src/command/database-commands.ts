@@ -0,0 +1,123 @@
+import type DatabaseInstance from '../database/instance.js';
+import Migration from '../database/migration.js';
+import { DatabaseError } from '../error/framework-errors.js';
+import Command from './command.js';
+
+interface DatabaseCommandArgv {
+  to?: string | number;
+  steps?: number;
+  name?: string;
+  blank?: boolean;
+  initial?: boolean;
+  class?: string | string[];
+}
+
+/**
+ * Base class of the built-in database commands
+ */
+abstract class DatabaseCommand extends Command {
+  protected getDatabaseInstance(): DatabaseInstance {
+    if (!this.databaseInstance) {
+      throw new DatabaseError('Database is not enabled', { context: { command: this.name } });
+    }
+
+    return this.databaseInstance;
+  }
+}
+
+class MigrateCommand extends DatabaseCommand {
+  public name = 'db:migrate';
+  public description = 'Run pending migrations (--to <migration>)';
+
+  public async run(argv: DatabaseCommandArgv = {}): Promise<void> {
+    const migrations = await Migration.migrate({
+      databaseInstance: this.getDatabaseInstance(),
+      to: argv.to !== undefined ? String(argv.to) : undefined,
+    });
+
+    this.log(migrations.length > 0 ? 'Migrations executed' : 'No pending migrations', { Count: migrations.length });
+  }
+}
+
+class RollbackCommand extends DatabaseCommand {
+  public name = 'db:rollback';
+  public description = 'Revert the last migration (--steps <count>, --to <migration>, --to 0 for all)';
+
+  public async run(argv: DatabaseCommandArgv = {}): Promise<void> {
+    const to = argv.to === undefined ? undefined : String(argv.to) === '0' ? 0 : String(argv.to);
+
+    const migrations = await Migration.rollback({
+      databaseInstance: this.getDatabaseInstance(),
+      to,
+      steps: argv.steps,
+    });
+
+    this.log(migrations.length > 0 ? 'Migrations reverted' : 'No migrations to revert', { Count: migrations.length });
+  }
+}
+
+class StatusCommand extends DatabaseCommand {
+  public name = 'db:status';
+  public description = 'List executed and pending migrations';
+
+  public async run(): Promise<void> {
+    const { executed, pending } = await Migration.getStatus({ databaseInstance: this.getDatabaseInstance() });
+
+    for (const migration of executed) {
+      this.log('Executed', { Name: migration.name, 'Executed At': migration.executed_at.toISOString() });
+    }
+
+    for (const migration of pending) {
+      this.log('Pending', { Name: migration.name });
+    }
+
+    this.log('Migration status', { Executed: executed.length, Pending: pending.length });
+  }
+}
+
+class CreateMigrationCommand extends DatabaseCommand {
+  public name = 'db:create-migration';
+  public description = 'Generate a migration from entity changes (--name <name>, --blank, --initial)';
+
+  public async run(argv: DatabaseCommandArgv = {}): Promise<void> {
+    const result = await Migration.createMigration({
+      databaseInstance: this.getDatabaseInstance(),
+      name: argv.name,
+      blank: argv.blank,
+      initial: argv.initial,
+    });
+
+    if (!result.fileName) {
+      this.log('No changes to migrate');
+    }
+  }
+}
+
+class SeedCommand extends DatabaseCommand {
+  public name = 'db:seed';
+  public description = 'Run the default seeder or the given ones (--class <name>)';
+
+  public async run(argv: DatabaseCommandArgv = {}): Promise<void> {
+    const classes = argv.class === undefined ? [] : [argv.class].flat();
+
+    await Migration.seed({
+      databaseInstance: this.getDatabaseInstance(),
+      seeders:
+        classes.length > 0
+          ? classes
+          : [this.applicationConfig.database?.seeders?.defaultSeeder ?? Migration.DEFAULT_SEEDER],
+    });
+  }
+}
+
+/**
+ * Built-in commands of `CommandApplication`, by command name.
+ * Commands in the commands directory take precedence.
+ */
+export default {
+  'db:migrate': MigrateCommand,
+  'db:rollback': RollbackCommand,
+  'db:status': StatusCommand,
+  'db:create-migration': CreateMigrationCommand,
+  'db:seed': SeedCommand,
+};
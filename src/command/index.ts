@@ -1,2 +1,4 @@
 export { default as Command } from './command.js';
 export { default as CommandManager } from './command-manager.js';
+export { default as DatabaseCommands } from './database-commands.js';
+export { default as QueueCommands } from './queue-commands.js';
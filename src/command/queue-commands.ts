@@ -0,0 +1,446 @@
+import { QueueError, ValidationError } from '../error/framework-errors.js';
+import {
+  QUEUE_CLEAN_STATES,
+  QUEUE_JOB_STATES,
+  type QueueCleanState,
+  type QueueInfo,
+  type QueueJobInfo,
+  type QueueJobState,
+} from '../queue/admin.interface.js';
+import type { QueueDeadLetterEntry } from '../queue/dead-letter.interface.js';
+import type { QueueJobPayload } from '../queue/job.interface.js';
+import type { QueueScheduleInfo } from '../queue/scheduler.interface.js';
+import Command from './command.js';
+
+interface QueueCommandArgv {
+  queue?: string;
+  schedule?: string;
+  /** Entry ID (parsed as a number when numeric) */
+  entry?: string | number;
+
+  /** Job ID (parsed as a number when numeric) */
+  job?: string | number;
+
+  state?: string;
+  offset?: number;
+  limit?: number;
+
+  /** Whether draining also removes delayed jobs */
+  delayed?: boolean;
+
+  /** Age in seconds of the jobs to clean */
+  olderThan?: number;
+
+  /** Edited payload of a replayed job (JSON) */
+  payload?: string;
+}
+
+/**
+ * Base class of the built-in queue commands
+ */
+abstract class QueueCommand extends Command {
+  protected getScheduleArgs(argv: QueueCommandArgv): { queueId: string; scheduleId: string } {
+    if (!argv.queue || !argv.schedule) {
+      throw new QueueError('Queue and schedule are required (--queue <name> --schedule <id>)', {
+        context: { command: this.name },
+      });
+    }
+
+    return { queueId: argv.queue, scheduleId: argv.schedule };
+  }
+
+  protected getQueueArgs(argv: QueueCommandArgv): { queueId: string } {
+    if (!argv.queue) {
+      throw new QueueError('Queue is required (--queue <name>)', { context: { command: this.name } });
+    }
+
+    return { queueId: argv.queue };
+  }
+
+  protected getEntryArgs(argv: QueueCommandArgv): { queueId: string; entryId: string } {
+    if (!argv.queue || argv.entry === undefined) {
+      throw new QueueError('Queue and entry are required (--queue <name> --entry <id>)', {
+        context: { command: this.name },
+      });
+    }
+
+    return { queueId: argv.queue, entryId: String(argv.entry) };
+  }
+
+  protected getJobArgs(argv: QueueCommandArgv): { queueId: string; jobId: string } {
+    if (!argv.queue || argv.job === undefined) {
+      throw new QueueError('Queue and job are required (--queue <name> --job <id>)', {
+        context: { command: this.name },
+      });
+    }
+
+    return { queueId: argv.queue, jobId: String(argv.job) };
+  }
+
+  /**
+   * @throws ValidationError when the state is not one of the given states
+   */
+  protected getState<TState extends string>(state: string | undefined, states: readonly TState[]): TState {
+    if (!state || !states.includes(state as TState)) {
+      throw new ValidationError(`State must be one of: ${states.join(', ')} (--state <state>)`, {
+        context: { command: this.name, state },
+      });
+    }
+
+    return state as TState;
+  }
+
+  protected logQueue(queue: QueueInfo): void {
+    this.log('Queue', {
+      Queue: queue.id,
+      Paused: queue.paused,
+      ...Object.fromEntries(Object.entries(queue.counts).filter(([, count]) => count > 0)),
+      ...(queue.deadLetterCount !== undefined && { 'Dead Letters': queue.deadLetterCount }),
+    });
+  }
+
+  protected logJob(message: string, job: QueueJobInfo): void {
+    this.log(message, {
+      Queue: job.queueId,
+      'Job ID': job.id,
+      Job: job.name,
+      State: job.state,
+      Attempts: job.attemptsMade,
+      'Created At': job.createdAt.toISOString(),
+      ...(job.failedReason && { Error: job.failedReason }),
+    });
+  }
+
+  protected logDeadLetter(message: string, entry: QueueDeadLetterEntry): void {
+    this.log(message, {
+      Queue: entry.queueId,
+      Entry: entry.id,
+      Job: entry.jobName,
+      ...(entry.jobId && { 'Job ID': entry.jobId }),
+      Attempts: entry.attemptsMade,
+      Error: entry.failedReason,
+      'Failed At': entry.failedAt.toISOString(),
+    });
+  }
+
+  protected logSchedule(message: string, schedule: QueueScheduleInfo): void {
+    this.log(message, {
+      Queue: schedule.queue,
+      Schedule: schedule.id,
+      Job: schedule.jobName,
+      ...(schedule.cron && { Cron: schedule.cron }),
+      ...(schedule.every && { Every: `${schedule.every}ms` }),
+      ...(schedule.timezone && { Timezone: schedule.timezone }),
+      Paused: schedule.paused,
+      ...(schedule.next && { 'Next Run': schedule.next.toISOString() }),
+    });
+  }
+}
+
+class SchedulesCommand extends QueueCommand {
+  public name = 'queue:schedules';
+  public description = 'List job schedules (--queue <name>)';
+
+  public async run(argv: QueueCommandArgv = {}): Promise<void> {
+    const schedules = await this.queueManager.listSchedules({ queueId: argv.queue });
+
+    for (const schedule of schedules) {
+      this.logSchedule('Schedule', schedule);
+    }
+
+    this.log('Job schedules', { Count: schedules.length });
+  }
+}
+
+class PauseScheduleCommand extends QueueCommand {
+  public name = 'queue:schedule:pause';
+  public description = 'Pause a job schedule (--queue <name> --schedule <id>)';
+
+  public async run(argv: QueueCommandArgv = {}): Promise<void> {
+    this.logSchedule('Schedule paused', await this.queueManager.pauseSchedule(this.getScheduleArgs(argv)));
+  }
+}
+
+class ResumeScheduleCommand extends QueueCommand {
+  public name = 'queue:schedule:resume';
+  public description = 'Resume a paused job schedule (--queue <name> --schedule <id>)';
+
+  public async run(argv: QueueCommandArgv = {}): Promise<void> {
+    this.logSchedule('Schedule resumed', await this.queueManager.resumeSchedule(this.getScheduleArgs(argv)));
+  }
+}
+
+class TriggerScheduleCommand extends QueueCommand {
+  public name = 'queue:schedule:trigger';
+  public description = 'Add a run of a job schedule now (--queue <name> --schedule <id>)';
+
+  public async run(argv: QueueCommandArgv = {}): Promise<void> {
+    const { queueId, scheduleId } = this.getScheduleArgs(argv);
+    const job = await this.queueManager.triggerSchedule({ queueId, scheduleId });
+
+    this.log('Schedule triggered', { Queue: queueId, Schedule: scheduleId, 'Job ID': job.id });
+  }
+}
+
+class DeadLettersCommand extends QueueCommand {
+  public name = 'queue:dlq:list';
+  public description = 'List dead-letter entries of a queue (--queue <name> --offset <n> --limit <n>)';
+
+  public async run(argv: QueueCommandArgv = {}): Promise<void> {
+    const { queueId } = this.getQueueArgs(argv);
+    const { entries, total } = await this.queueManager.listDeadLetters({
+      queueId,
+      offset: argv.offset,
+      limit: argv.limit,
+    });
+
+    for (const entry of entries) {
+      this.logDeadLetter('Dead-letter entry', entry);
+    }
+
+    this.log('Dead-letter entries', { Queue: queueId, Count: entries.length, Total: total });
+  }
+}
+
+class InspectDeadLetterCommand extends QueueCommand {
+  public name = 'queue:dlq:inspect';
+  public description = 'Show a dead-letter entry with its data and stack trace (--queue <name> --entry <id>)';
+
+  public async run(argv: QueueCommandArgv = {}): Promise<void> {
+    const entry = await this.queueManager.getDeadLetter(this.getEntryArgs(argv));
+
+    this.logDeadLetter('Dead-letter entry', entry);
+    this.log('Data', { Data: JSON.stringify(entry.data, null, 2) });
+    this.log('Stack trace', { Stack: entry.stacktrace.join('\n') || 'None' });
+  }
+}
+
+class ReplayDeadLetterCommand extends QueueCommand {
+  public name = 'queue:dlq:replay';
+  public description = 'Add a dead-letter entry back to its queue (--queue <name> --entry <id> --payload <json>)';
+
+  public async run(argv: QueueCommandArgv = {}): Promise<void> {
+    const { queueId, entryId } = this.getEntryArgs(argv);
+    const job = await this.queueManager.replayDeadLetter({ queueId, entryId, payload: this.parsePayload(argv) });
+
+    this.log('Dead-letter entry replayed', { Queue: queueId, Entry: entryId, 'Job ID': job.id });
+  }
+
+  /**
+   * @throws ValidationError when the payload is not a JSON object
+   */
+  private parsePayload(argv: QueueCommandArgv): QueueJobPayload | undefined {
+    if (argv.payload === undefined) {
+      return undefined;
+    }
+
+    let payload: unknown;
+
+    try {
+      payload = JSON.parse(argv.payload);
+    } catch (error) {
+      throw new ValidationError('Payload is not valid JSON', { context: { command: this.name }, cause: error });
+    }
+
+    if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+      throw new ValidationError('Payload must be a JSON object', { context: { command: this.name } });
+    }
+
+    return payload as QueueJobPayload;
+  }
+}
+
+class PurgeDeadLettersCommand extends QueueCommand {
+  public name = 'queue:dlq:purge';
+  public description = 'Remove a dead-letter entry, or all entries of a queue (--queue <name> --entry <id>)';
+
+  public async run(argv: QueueCommandArgv = {}): Promise<void> {
+    const { queueId } = this.getQueueArgs(argv);
+    const count = await this.queueManager.purgeDeadLetters({
+      queueId,
+      entryId: argv.entry === undefined ? undefined : String(argv.entry),
+    });
+
+    this.log('Dead-letter entries purged', { Queue: queueId, Count: count });
+  }
+}
+
+class QueuesCommand extends QueueCommand {
+  public name = 'queue:list';
+  public description = 'List queues with their job counts (--queue <name>)';
+
+  public async run(argv: QueueCommandArgv = {}): Promise<void> {
+    const queues = argv.queue
+      ? [await this.queueManager.getQueueInfo({ queueId: argv.queue })]
+      : await this.queueManager.listQueues();
+
+    for (const queue of queues) {
+      this.logQueue(queue);
+    }
+
+    this.log('Queues', { Count: queues.length });
+  }
+}
+
+class JobsCommand extends QueueCommand {
+  public name = 'queue:jobs';
+  public description = 'List the jobs of a queue in a state (--queue <name> --state <state> --offset <n> --limit <n>)';
+
+  public async run(argv: QueueCommandArgv = {}): Promise<void> {
+    const { queueId } = this.getQueueArgs(argv);
+    const state = this.getState<QueueJobState>(argv.state ?? 'waiting', QUEUE_JOB_STATES);
+    const { jobs, total } = await this.queueManager.listJobs({
+      queueId,
+      state,
+      offset: argv.offset,
+      limit: argv.limit,
+    });
+
+    for (const job of jobs) {
+      this.logJob('Job', job);
+    }
+
+    this.log('Jobs', { Queue: queueId, State: state, Count: jobs.length, Total: total });
+  }
+}
+
+class InspectJobCommand extends QueueCommand {
+  public name = 'queue:job';
+  public description = 'Show a job with its data, logs and stack traces (--queue <name> --job <id>)';
+
+  public async run(argv: QueueCommandArgv = {}): Promise<void> {
+    const job = await this.queueManager.getJobDetail(this.getJobArgs(argv));
+
+    this.logJob('Job', job);
+    this.log('Data', { Data: JSON.stringify(job.data, null, 2) });
+    this.log('Progress', { Progress: JSON.stringify(job.progress) });
+    this.log('Logs', { Logs: job.logs.join('\n') || 'None' });
+    this.log('Stack trace', { Stack: job.stacktrace.join('\n') || 'None' });
+  }
+}
+
+class RetryJobCommand extends QueueCommand {
+  public name = 'queue:job:retry';
+  public description = 'Retry a failed job (--queue <name> --job <id>)';
+
+  public async run(argv: QueueCommandArgv = {}): Promise<void> {
+    const { queueId, jobId } = this.getJobArgs(argv);
+
+    await this.queueManager.retryJob({ queueId, jobId });
+
+    this.log('Job retried', { Queue: queueId, 'Job ID': jobId });
+  }
+}
+
+class PromoteJobCommand extends QueueCommand {
+  public name = 'queue:job:promote';
+  public description = 'Run a delayed job now (--queue <name> --job <id>)';
+
+  public async run(argv: QueueCommandArgv = {}): Promise<void> {
+    const { queueId, jobId } = this.getJobArgs(argv);
+
+    await this.queueManager.promoteJob({ queueId, jobId });
+
+    this.log('Job promoted', { Queue: queueId, 'Job ID': jobId });
+  }
+}
+
+class RemoveJobCommand extends QueueCommand {
+  public name = 'queue:job:remove';
+  public description = 'Remove a job (--queue <name> --job <id>)';
+
+  public async run(argv: QueueCommandArgv = {}): Promise<void> {
+    const { queueId, jobId } = this.getJobArgs(argv);
+
+    await this.queueManager.removeJob({ queueId, jobId });
+
+    this.log('Job removed', { Queue: queueId, 'Job ID': jobId });
+  }
+}
+
+class PauseQueueCommand extends QueueCommand {
+  public name = 'queue:pause';
+  public description = 'Pause a queue (--queue <name>)';
+
+  public async run(argv: QueueCommandArgv = {}): Promise<void> {
+    const { queueId } = this.getQueueArgs(argv);
+
+    await this.queueManager.pauseQueue({ queueId });
+
+    this.log('Queue paused', { Queue: queueId });
+  }
+}
+
+class ResumeQueueCommand extends QueueCommand {
+  public name = 'queue:resume';
+  public description = 'Resume a paused queue (--queue <name>)';
+
+  public async run(argv: QueueCommandArgv = {}): Promise<void> {
+    const { queueId } = this.getQueueArgs(argv);
+
+    await this.queueManager.resumeQueue({ queueId });
+
+    this.log('Queue resumed', { Queue: queueId });
+  }
+}
+
+class DrainQueueCommand extends QueueCommand {
+  public name = 'queue:drain';
+  public description = 'Remove the waiting jobs of a queue (--queue <name> --delayed)';
+
+  public async run(argv: QueueCommandArgv = {}): Promise<void> {
+    const { queueId } = this.getQueueArgs(argv);
+
+    await this.queueManager.drainQueue({ queueId, delayed: argv.delayed });
+
+    this.log('Queue drained', { Queue: queueId, Delayed: argv.delayed ?? false });
+  }
+}
+
+class CleanQueueCommand extends QueueCommand {
+  public name = 'queue:clean';
+  public description = 'Remove old jobs of a queue (--queue <name> --state <state> --older-than <seconds> --limit <n>)';
+
+  public async run(argv: QueueCommandArgv = {}): Promise<void> {
+    const { queueId } = this.getQueueArgs(argv);
+    const state = this.getState<QueueCleanState>(argv.state, QUEUE_CLEAN_STATES);
+
+    if (argv.olderThan === undefined || argv.olderThan < 0) {
+      throw new ValidationError('Age is required (--older-than <seconds>)', { context: { command: this.name } });
+    }
+
+    const jobIds = await this.queueManager.cleanQueue({
+      queueId,
+      state,
+      olderThanSeconds: argv.olderThan,
+      limit: argv.limit,
+    });
+
+    this.log('Queue cleaned', { Queue: queueId, State: state, 'Job Count': jobIds.length });
+  }
+}
+
+/**
+ * Built-in queue commands of `CommandApplication`, by command name.
+ * Commands in the commands directory take precedence.
+ */
+export default {
+  'queue:list': QueuesCommand,
+  'queue:jobs': JobsCommand,
+  'queue:job': InspectJobCommand,
+  'queue:job:retry': RetryJobCommand,
+  'queue:job:promote': PromoteJobCommand,
+  'queue:job:remove': RemoveJobCommand,
+  'queue:pause': PauseQueueCommand,
+  'queue:resume': ResumeQueueCommand,
+  'queue:drain': DrainQueueCommand,
+  'queue:clean': CleanQueueCommand,
+  'queue:schedules': SchedulesCommand,
+  'queue:schedule:pause': PauseScheduleCommand,
+  'queue:schedule:resume': ResumeScheduleCommand,
+  'queue:schedule:trigger': TriggerScheduleCommand,
+  'queue:dlq:list': DeadLettersCommand,
+  'queue:dlq:inspect': InspectDeadLetterCommand,
+  'queue:dlq:replay': ReplayDeadLetterCommand,
+  'queue:dlq:purge': PurgeDeadLettersCommand,
+};
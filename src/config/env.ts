@@ -77,12 +77,18 @@ export function loadFrameworkConfigFromEnv(): Partial<InferFrameworkConfig> {
   if (env.PXL_WEB_HOST) web.host = env.PXL_WEB_HOST;
   if (webPort !== undefined) web.port = webPort;
   if (webBodyLimit !== undefined) web.bodyLimit = webBodyLimit;
+  if (env.PXL_WEB_CURSOR_SECRET) web.pagination = { cursorSecret: env.PXL_WEB_CURSOR_SECRET };
   if (webCorsEnabled || (webCorsUrls && webCorsUrls.length > 0)) {
     web.cors = { enabled: webCorsEnabled ?? true, urls: webCorsUrls ?? [] };
   }
 
   const auth: any = {};
   if (env.PXL_AUTH_JWT_SECRET_KEY) auth.jwtSecretKey = env.PXL_AUTH_JWT_SECRET_KEY;
+  if (env.PXL_AUTH_ALGORITHM) auth.algorithm = env.PXL_AUTH_ALGORITHM;
+  if (env.PXL_AUTH_PRIVATE_KEY) auth.privateKey = env.PXL_AUTH_PRIVATE_KEY;
+  if (env.PXL_AUTH_PUBLIC_KEY) auth.publicKey = env.PXL_AUTH_PUBLIC_KEY;
+  if (env.PXL_AUTH_ACCESS_TOKEN_LIFETIME) auth.accessTokenLifetime = env.PXL_AUTH_ACCESS_TOKEN_LIFETIME;
+  if (env.PXL_AUTH_REFRESH_TOKEN_LIFETIME) auth.refreshTokenLifetime = env.PXL_AUTH_REFRESH_TOKEN_LIFETIME;
 
   const cluster: any = {};
   const clusterEnabled = parseBool(env.PXL_CLUSTER_ENABLED);
@@ -9,17 +9,121 @@ export const RedisConfigSchema = z.object({
 });
 
 // Database configuration schema
+const DatabaseDriverSchema = z.enum(['postgresql', 'mysql', 'mariadb', 'sqlite', 'libsql']);
+
+// Server drivers need a host and credentials; sqlite and libsql only a database name (file, `:memory:` or URL)
+const requireServerConnection =
+  (prefix: string) =>
+  (
+    config: { driver?: z.infer<typeof DatabaseDriverSchema>; host?: string; username?: string; password?: string },
+    ctx: z.RefinementCtx,
+  ) => {
+    if (config.driver === 'sqlite' || config.driver === 'libsql') {
+      return;
+    }
+
+    for (const key of ['host', 'username', 'password'] as const) {
+      if (!config[key]) {
+        ctx.addIssue({ code: 'custom', path: [key], message: `${prefix}.${key} required` });
+      }
+    }
+  };
+
+const DatabaseReplicaConfigSchema = z.object({
+  host: z.string().min(1, 'database replica host required'),
+  port: z.number().int().positive().optional(),
+  username: z.string().min(1).optional(),
+  password: z.string().min(1).optional(),
+});
+
+const DatabaseConnectionConfigSchema = z
+  .object({
+    driver: DatabaseDriverSchema.optional(),
+    host: z.string().min(1).optional(),
+    port: z.number().int().positive().optional(),
+    username: z.string().min(1).optional(),
+    password: z.string().min(1).optional(),
+    databaseName: z.string().min(1, 'database connection databaseName required'),
+    driverOptions: z.record(z.string(), z.unknown()).optional(),
+    entitiesDirectory: z.string().min(1).optional(),
+    replicas: z.array(DatabaseReplicaConfigSchema).optional(),
+  })
+  .superRefine(requireServerConnection('database connection'));
+
 export const DatabaseConfigSchema = z
   .object({
     enabled: z.boolean().default(false),
-    host: z.string().min(1, 'database.host required'),
-    port: z.number().int().positive().default(5432),
-    username: z.string().min(1, 'database.username required'),
-    password: z.string().min(1, 'database.password required'),
+    driver: DatabaseDriverSchema.optional(),
+    host: z.string().min(1).optional(),
+    port: z.number().int().positive().optional(),
+    username: z.string().min(1).optional(),
+    password: z.string().min(1).optional(),
     databaseName: z.string().min(1, 'database.databaseName required'),
+    driverOptions: z.record(z.string(), z.unknown()).optional(),
     entitiesDirectory: z.string().min(1).optional(),
+    replicas: z.array(DatabaseReplicaConfigSchema).optional(),
+    connections: z
+      .record(z.string().min(1), DatabaseConnectionConfigSchema)
+      .refine(connections => !Object.hasOwn(connections, 'default'), {
+        message: 'database.connections cannot redefine the "default" connection',
+      })
+      .optional(),
+    migrations: z
+      .object({
+        directory: z.string().min(1).optional(),
+        tableName: z.string().min(1).optional(),
+        runOnStartup: z.boolean().optional(),
+        lockTtlSeconds: z.number().int().positive().optional(),
+      })
+      .optional(),
+    seeders: z
+      .object({
+        directory: z.string().min(1).optional(),
+        defaultSeeder: z.string().min(1).optional(),
+      })
+      .optional(),
+    audit: z
+      .object({
+        enabled: z.boolean().default(false),
+        store: z
+          .union([
+            z.enum(['database', 'queue']),
+            z.custom<{ write: unknown }>(
+              value =>
+                typeof value === 'object' &&
+                value !== null &&
+                typeof (value as { write?: unknown }).write === 'function',
+              'database.audit.store must be "database", "queue" or implement write()',
+            ),
+          ])
+          .optional(),
+        queue: z.object({ queueId: z.string().min(1), jobId: z.string().min(1) }).optional(),
+        redact: z.array(z.string().min(1)).optional(),
+        exclude: z.array(z.string().min(1)).optional(),
+      })
+      .refine(audit => audit.store !== 'queue' || audit.queue, {
+        message: 'database.audit.queue required when the audit store is "queue"',
+        path: ['queue'],
+      })
+      .optional(),
+    outbox: z
+      .object({
+        enabled: z.boolean().default(false),
+        relay: z
+          .object({
+            enabled: z.boolean().optional(),
+            intervalMs: z.number().int().positive().optional(),
+            batchSize: z.number().int().positive().optional(),
+            maxAttempts: z.number().int().positive().optional(),
+            retryDelayMs: z.number().int().nonnegative().optional(),
+            dedupTtlSeconds: z.number().int().positive().optional(),
+          })
+          .optional(),
+      })
+      .optional(),
   })
-  .partial({ entitiesDirectory: true });
+  .partial({ entitiesDirectory: true })
+  .superRefine(requireServerConnection('database'));
 
 // Queue configuration schema
 export const QueueLogConfigSchema = z
@@ -30,19 +134,46 @@ export const QueueLogConfigSchema = z
     queueRegistered: z.boolean().optional(),
     queuesRegistered: z.boolean().optional(),
     queueWaiting: z.boolean().optional(),
+    schedulesReconciled: z.boolean().optional(),
   })
   .optional();
 
-export const QueueJobSchema = z.object({
-  id: z.string().min(1),
-  maxConcurrency: z.number().int().positive().optional(),
-});
+export const QueueJobScheduleSchema = z
+  .object({
+    id: z.string().min(1).optional(),
+    cron: z.string().min(1).optional(),
+    every: z.number().int().positive().optional(),
+    timezone: z.string().min(1).optional(),
+    payload: z
+      .union([
+        z.record(z.string(), z.unknown()),
+        z.custom<() => unknown>(value => typeof value === 'function', { message: 'Expected an object or a function' }),
+      ])
+      .optional(),
+    overlap: z.enum(['allow', 'skip']).optional(),
+    lockTtlSeconds: z.number().int().positive().optional(),
+  })
+  .refine(schedule => (schedule.cron === undefined) !== (schedule.every === undefined), {
+    message: 'Set either cron or every',
+  });
 
-export const QueueItemSchema = z.object({
-  name: z.string(),
-  isExternal: z.boolean().optional(),
-  jobs: z.array(QueueJobSchema).default([]),
-});
+// Job definitions carry schemas and processor classes, kept as is
+export const QueueJobSchema = z
+  .object({
+    id: z.string().min(1),
+    maxConcurrency: z.number().int().positive().optional(),
+    schedule: QueueJobScheduleSchema.optional(),
+  })
+  .passthrough();
+
+export const QueueItemSchema = z
+  .object({
+    name: z.string(),
+    isExternal: z.boolean().optional(),
+    jobs: z.array(QueueJobSchema).default([]),
+    deadLetter: z.union([z.boolean(), z.object({ queue: z.string().min(1).optional() })]).optional(),
+  })
+  .passthrough();
 
 export const QueueConfigSchema = z.object({
   queues: z.array(QueueItemSchema).default([]),
@@ -97,13 +228,110 @@ export const PerformanceMonitoringSchema = z
   })
   .partial();
 
+// Token lifetime in seconds or as a duration string (e.g. '15m', '24h', '30d')
+const TokenLifetimeSchema = z.union([
+  z.number().int().positive(),
+  z.string().regex(/^\d+\s*[smhdw]$/, 'Expected a duration such as "15m", "24h" or "30d"'),
+]);
+
 // Auth configuration schema
 export const AuthConfigSchema = z
   .object({
-    jwtSecretKey: z.string().min(1, 'auth.jwtSecretKey required'),
+    jwtSecretKey: z.string().min(1, 'auth.jwtSecretKey required').optional(),
+    algorithm: z.enum(['HS256', 'RS256', 'ES256']).optional(),
+    privateKey: z.string().min(1).optional(),
+    publicKey: z.string().min(1).optional(),
+    keyId: z.string().min(1).optional(),
+    issuer: z.string().min(1).optional(),
+    audience: z.union([z.string().min(1), z.array(z.string().min(1))]).optional(),
+    accessTokenLifetime: TokenLifetimeSchema.optional(),
+    refreshTokenLifetime: TokenLifetimeSchema.optional(),
+    acceptUntypedAccessTokens: z.boolean().optional(),
+    strategies: z.array(z.string().min(1)).min(1).optional(),
+    apiKey: z
+      .object({
+        header: z.string().min(1).optional(),
+        store: z.custom<{ findByHash: unknown }>(
+          value =>
+            typeof value === 'object' &&
+            value !== null &&
+            typeof (value as { findByHash?: unknown }).findByHash === 'function',
+          'auth.apiKey.store must implement findByHash()',
+        ),
+        lastUsedInterval: z.number().int().positive().optional(),
+      })
+      .optional(),
+    hmac: z
+      .object({
+        clients: z.record(z.string(), z.object({ secret: z.string().min(1) }).passthrough()).optional(),
+        resolveClient: z.unknown().optional(), // Resolver function
+        keyIdHeader: z.string().min(1).optional(),
+        timestampHeader: z.string().min(1).optional(),
+        signatureHeader: z.string().min(1).optional(),
+        tolerance: z.number().int().positive().optional(),
+      })
+      .optional(),
+    revocation: z
+      .object({
+        enabled: z.boolean().optional(),
+        keyPrefix: z.string().optional(),
+      })
+      .optional(),
+    authorization: z
+      .object({
+        rolesClaim: z.string().optional(),
+        permissionsClaim: z.string().optional(),
+        roles: z.record(z.string(), z.array(z.string())).optional(),
+        resolver: z.unknown().optional(), // Resolver function
+      })
+      .optional(),
+  })
+  .superRefine((auth, ctx) => {
+    const algorithm = auth.algorithm ?? 'HS256';
+
+    // JWT keys are only required when the JWT strategy is used
+    if (auth.strategies && !auth.strategies.includes('jwt')) {
+      return;
+    }
+
+    if (algorithm === 'HS256' && !auth.jwtSecretKey) {
+      ctx.addIssue({ code: 'custom', path: ['jwtSecretKey'], message: 'auth.jwtSecretKey required' });
+    }
+
+    if (algorithm !== 'HS256' && !auth.privateKey && !auth.publicKey) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['privateKey'],
+        message: `auth.privateKey or auth.publicKey required for ${algorithm}`,
+      });
+    }
   })
   .optional();
 
+// Rate limit policy schema, shared by the web server, routes and WebSocket routes
+export const RateLimitPolicySchema = z.object({
+  algorithm: z.enum(['fixed-window', 'sliding-window', 'token-bucket']).optional(),
+  max: z.number().int().positive().optional(),
+  timeWindow: z.union([z.number().int().positive(), z.string().min(1)]).optional(),
+  key: z
+    .union([
+      z.enum(['ip', 'user']),
+      z.custom<(...args: unknown[]) => unknown>(
+        value => typeof value === 'function',
+        'rateLimit.key must be "ip", "user" or a function',
+      ),
+    ])
+    .optional(),
+});
+
+// Rate limit configuration schema
+export const RateLimitConfigSchema = z.object({
+  // Defaults to redis when Redis is configured; memory must be chosen explicitly
+  store: z.enum(['redis', 'memory']).optional(),
+  keyPrefix: z.string().min(1).optional(),
+  policies: z.record(z.string(), RateLimitPolicySchema).optional(),
+});
+
 // Security configuration schema
 export const SecurityConfigSchema = z
   .object({
@@ -126,15 +354,11 @@ export const SecurityConfigSchema = z
         xssFilter: z.boolean().optional(),
       })
       .optional(),
-    rateLimit: z
-      .object({
-        enabled: z.boolean().optional(),
-        max: z.number().int().positive().optional(),
-        timeWindow: z.string().optional(),
-        ban: z.number().int().optional(),
-        cache: z.number().int().optional(),
-      })
-      .optional(),
+    rateLimit: RateLimitPolicySchema.extend({
+      enabled: z.boolean().optional(),
+      ban: z.number().int().optional(),
+      cache: z.number().int().optional(),
+    }).optional(),
   })
   .optional();
 
@@ -148,8 +372,27 @@ export const WebServerRouteSchema = z
     controllerName: z.string().optional(),
     action: z.string().optional(),
     entityName: z.string().optional(),
+    actions: z
+      .array(
+        z.enum(['patchOne', 'restoreOne', 'forceDeleteOne', 'getHistory', 'createMany', 'updateMany', 'deleteMany']),
+      )
+      .optional(),
     handler: z.unknown().optional(),
     schema: z.unknown().optional(),
+    guards: z.array(z.unknown()).optional(),
+    auth: z.array(z.string().min(1)).min(1).optional(),
+    requires: z.array(z.string()).optional(),
+    rateLimit: z.union([RateLimitPolicySchema, z.string().min(1), z.literal(false)]).optional(),
+    idempotency: z
+      .union([
+        z.object({
+          required: z.boolean().optional(),
+          ttl: z.number().int().positive().optional(),
+        }),
+        z.boolean(),
+      ])
+      .optional(),
+    openapi: z.unknown().optional(),
   })
   .passthrough(); // Allow additional properties to pass through
 
@@ -178,6 +421,42 @@ export const WebServerConfigSchema = z
       })
       .optional(),
     security: SecurityConfigSchema.optional(),
+    openApi: z
+      .object({
+        enabled: z.boolean().optional(),
+        path: z.string().optional(),
+        info: z
+          .object({
+            title: z.string().optional(),
+            version: z.string().optional(),
+            description: z.string().optional(),
+          })
+          .optional(),
+        servers: z.array(z.object({ url: z.string(), description: z.string().optional() })).optional(),
+      })
+      .optional(),
+    pagination: z
+      .object({
+        cursorSecret: z.string().min(16, 'pagination.cursorSecret must be at least 16 characters').optional(),
+      })
+      .optional(),
+    idempotency: z
+      .object({
+        header: z.string().min(1).optional(),
+        ttl: z.number().int().positive().optional(),
+        lockTtl: z.number().int().positive().optional(),
+        keyPrefix: z.string().optional(),
+      })
+      .optional(),
+    queueAdmin: z
+      .object({
+        enabled: z.boolean().optional(),
+        path: z.string().min(1).optional(),
+        auth: z.array(z.string().min(1)).optional(),
+        requires: z.array(z.string().min(1)).min(1).optional(),
+        tags: z.array(z.string()).optional(),
+      })
+      .optional(),
     debug: z
       .object({
         logAllRegisteredRoutes: z.boolean().optional(),
@@ -193,6 +472,8 @@ export const WebSocketRouteSchema = z.object({
   controllerName: z.string().min(1, 'webSocket.routes.controllerName required'),
   action: z.string().min(1, 'webSocket.routes.action required'),
   controller: z.unknown().optional(), // Controller class reference
+  requires: z.array(z.string()).optional(),
+  rateLimit: z.union([RateLimitPolicySchema, z.string().min(1)]).optional(),
 });
 
 export const WebSocketConfigSchema = z
@@ -217,6 +498,42 @@ export const ClusterConfigSchema = z
   })
   .partial();
 
+// Multi-tenancy configuration schema
+export const TenancyConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  resolver: z.union([
+    z.enum(['subdomain', 'header', 'jwt']),
+    z.custom<(...args: unknown[]) => unknown>(
+      value => typeof value === 'function',
+      'tenancy.resolver must be "subdomain", "header", "jwt" or a function',
+    ),
+  ]),
+  header: z.string().min(1).optional(),
+  claim: z.string().min(1).optional(),
+  baseDomain: z.string().min(1).optional(),
+  required: z.boolean().optional(),
+  allowUnscopedCredentials: z.boolean().optional(),
+  excludePaths: z.array(z.string()).optional(),
+  database: z
+    .object({
+      isolation: z.enum(['filter', 'schema']).optional(),
+      schemaPrefix: z
+        .string()
+        .regex(/^[A-Za-z_][A-Za-z0-9_]*$/, 'tenancy.database.schemaPrefix must be a valid identifier')
+        .optional(),
+    })
+    .optional(),
+  tenants: z
+    .record(
+      z.string(),
+      z.object({
+        rateLimit: z.object({ max: z.number().int().positive().optional() }).optional(),
+        config: z.record(z.string(), z.unknown()).optional(),
+      }),
+    )
+    .optional(),
+});
+
 // Top-level framework configuration schema
 export const FrameworkConfigSchema = z.object({
   name: z.string().min(1, 'name required'),
@@ -232,6 +549,8 @@ export const FrameworkConfigSchema = z.object({
   performanceMonitoring: PerformanceMonitoringSchema.optional(),
   email: z.object({}).optional(),
   auth: AuthConfigSchema,
+  tenancy: TenancyConfigSchema.optional(),
+  rateLimit: RateLimitConfigSchema.optional(),
   web: WebServerConfigSchema.optional(),
   webSocket: WebSocketConfigSchema.optional(),
 });
@@ -0,0 +1,143 @@
+import {
+  type AnyEntity,
+  type ChangeSet,
+  ChangeSetType,
+  type EventSubscriber,
+  type FlushEventArgs,
+  helper,
+  type UnitOfWork,
+} from '@mikro-orm/core';
+import { getRequestId, getUserId } from '../request-context/index.js';
+import type { AuditAction, AuditChange, AuditEntry, AuditStore } from './audit.interface.js';
+import Audit from './audit.js';
+import Outbox from './outbox.js';
+
+interface PendingAuditEntry {
+  action: AuditAction;
+  entity: AnyEntity;
+  entityName: string;
+  changes: Record<string, AuditChange>;
+}
+
+const CHANGE_SET_ACTIONS: Partial<Record<ChangeSetType, AuditAction>> = {
+  [ChangeSetType.CREATE]: 'create',
+  [ChangeSetType.UPDATE]: 'update',
+  [ChangeSetType.UPDATE_EARLY]: 'update',
+  [ChangeSetType.DELETE]: 'delete',
+  [ChangeSetType.DELETE_EARLY]: 'delete',
+};
+
+/**
+ * MikroORM subscriber recording every flushed create, update and delete of audited entities.
+ * Changes are collected in `onFlush` (while the original values are still known) and written to the
+ * store in `afterFlush`, once generated primary keys are available.
+ */
+export default class AuditSubscriber implements EventSubscriber {
+  private readonly store: AuditStore;
+
+  private readonly redact: Set<string>;
+
+  private readonly exclude: Set<string>;
+
+  private readonly pending = new WeakMap<UnitOfWork, PendingAuditEntry[]>();
+
+  constructor({ store, redact = [], exclude = [] }: { store: AuditStore; redact?: string[]; exclude?: string[] }) {
+    this.store = store;
+    this.redact = new Set(redact.map(field => field.toLowerCase()));
+    this.exclude = new Set([
+      Audit.AuditLogSchema.meta.className,
+      Outbox.OutboxMessageSchema.meta.className,
+      ...exclude,
+    ]);
+  }
+
+  public onFlush({ uow }: FlushEventArgs): void {
+    const entries: PendingAuditEntry[] = [];
+
+    for (const changeSet of uow.getChangeSets()) {
+      const action = CHANGE_SET_ACTIONS[changeSet.type];
+
+      if (!action || changeSet.meta.pivotTable || this.exclude.has(changeSet.meta.className)) {
+        continue;
+      }
+
+      const changes = this.getChanges({ action, changeSet, uow });
+
+      if (action === 'update' && Object.keys(changes).length === 0) {
+        continue;
+      }
+
+      entries.push({ action, entity: changeSet.entity, entityName: changeSet.meta.className, changes });
+    }
+
+    // Replaces entries left over from a flush that failed before afterFlush
+    if (entries.length > 0) {
+      this.pending.set(uow, entries);
+    } else {
+      this.pending.delete(uow);
+    }
+  }
+
+  public async afterFlush({ em, uow }: FlushEventArgs): Promise<void> {
+    const pending = this.pending.get(uow);
+
+    if (!pending) {
+      return;
+    }
+
+    this.pending.delete(uow);
+
+    const actorId = getUserId() ?? null;
+    const requestId = getRequestId() ?? null;
+    const timestamp = new Date();
+
+    const entries: AuditEntry[] = pending.map(({ action, entity, entityName, changes }) => ({
+      action,
+      entityName,
+      entityId: helper(entity).getSerializedPrimaryKey(),
+      actorId,
+      requestId,
+      changes,
+      timestamp,
+    }));
+
+    await this.store.write(entries, { entityManager: em });
+  }
+
+  private getChanges({
+    action,
+    changeSet,
+    uow,
+  }: {
+    action: AuditAction;
+    changeSet: ChangeSet<AnyEntity>;
+    uow: UnitOfWork;
+  }): Record<string, AuditChange> {
+    const original: Record<string, unknown> = (changeSet.originalEntity ??
+      uow.getOriginalEntityData(changeSet.entity) ??
+      {}) as Record<string, unknown>;
+    const payload = changeSet.payload as Record<string, unknown>;
+    const fields = action === 'delete' ? Object.keys(original) : Object.keys(payload);
+    const changes: Record<string, AuditChange> = {};
+
+    for (const field of fields) {
+      const before = action === 'create' ? null : (original[field] ?? null);
+      const after = action === 'delete' ? null : (payload[field] ?? null);
+
+      if (this.isRedacted({ field, changeSet })) {
+        changes[field] = {
+          before: before === null ? null : Audit.REDACTED_VALUE,
+          after: after === null ? null : Audit.REDACTED_VALUE,
+        };
+      } else {
+        changes[field] = { before, after };
+      }
+    }
+
+    return changes;
+  }
+
+  private isRedacted({ field, changeSet }: { field: string; changeSet: ChangeSet<AnyEntity> }): boolean {
+    return this.redact.has(field.toLowerCase()) || Boolean(changeSet.meta.properties[field]?.hidden);
+  }
+}
@@ -0,0 +1,89 @@
+import type { EntityManager } from '@mikro-orm/core';
+
+/** Kind of mutation recorded by an audit entry */
+export type AuditAction = 'create' | 'update' | 'delete';
+
+/** Value of a field before and after a mutation (`null` when absent, e.g. `before` on create) */
+export interface AuditChange {
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditEntry {
+  /** Audit entry ID (set once stored) */
+  id?: number;
+
+  /** Kind of mutation */
+  action: AuditAction;
+
+  /** Entity class name */
+  entityName: string;
+
+  /** Serialized primary key of the mutated record */
+  entityId: string;
+
+  /** ID of the user that made the change, from the request context */
+  actorId?: string | null;
+
+  /** Request ID (or queue job ID) the change was made in, from the request context */
+  requestId?: string | null;
+
+  /** Changed fields; redacted values are replaced with `[REDACTED]` */
+  changes: Record<string, AuditChange>;
+
+  /** When the change was flushed */
+  timestamp: Date;
+}
+
+export interface AuditQuery {
+  entityName?: string;
+  entityId?: string | number;
+  actorId?: string;
+  action?: AuditAction;
+
+  /** Only entries at or after this date */
+  from?: Date;
+
+  /** Only entries at or before this date */
+  to?: Date;
+
+  /** Maximum number of entries (newest first) */
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Storage for audit entries. `write` runs after each flush that changed audited entities,
+ * with the flushing EntityManager (inside its transaction, if any).
+ */
+export interface AuditStore {
+  write(entries: AuditEntry[], context: { entityManager: EntityManager }): Promise<void>;
+
+  /** Query stored entries (required for the entity history route) */
+  find?(query: AuditQuery, context: { entityManager: EntityManager }): Promise<AuditEntry[]>;
+}
+
+export interface ApplicationAuditConfig {
+  /** Whether to record entity mutations */
+  enabled: boolean;
+
+  /**
+   * Where to write entries:
+   * - `database` (default): the `audit_log` table, in the same transaction as the change
+   * - `queue`: a queue job per flush (see `queue`), for asynchronous writes
+   * - a custom store
+   */
+  store?: 'database' | 'queue' | AuditStore;
+
+  /** Queue job receiving entries when `store` is `queue` */
+  queue?: {
+    queueId: string;
+    jobId: string;
+  };
+
+  /** Field names (case-insensitive) whose values are redacted, in addition to hidden properties */
+  redact?: string[];
+
+  /** Entity class names that are not audited */
+  exclude?: string[];
+}
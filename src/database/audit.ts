@@ -0,0 +1,187 @@
+import { type EntityManager, EntitySchema, type FilterQuery } from '@mikro-orm/core';
+import { ConfigurationError, DatabaseError } from '../error/framework-errors.js';
+import type QueueManager from '../queue/manager.js';
+import type { ApplicationAuditConfig, AuditEntry, AuditQuery, AuditStore } from './audit.interface.js';
+
+/** Replacement value of redacted fields */
+const REDACTED_VALUE = '[REDACTED]';
+
+/** Default number of entries returned by `findAuditEntries` */
+const DEFAULT_QUERY_LIMIT = 50;
+
+/**
+ * `audit_log` table used by the database store. Registered automatically when auditing is enabled
+ * with the `database` store; create the table with a migration like any other entity.
+ */
+const AuditLogSchema = new EntitySchema<AuditEntry>({
+  name: 'AuditLog',
+  tableName: 'audit_log',
+  properties: {
+    id: { type: 'number', primary: true, autoincrement: true },
+    action: { type: 'string', length: 16 },
+    entityName: { type: 'string' },
+    entityId: { type: 'string' },
+    actorId: { type: 'string', nullable: true },
+    requestId: { type: 'string', nullable: true },
+    changes: { type: 'json' },
+    timestamp: { type: 'datetime' },
+  },
+  indexes: [{ properties: ['entityName', 'entityId'] }, { properties: ['actorId'] }],
+});
+
+const toAuditEntry = (row: AuditEntry): AuditEntry => ({
+  id: row.id,
+  action: row.action,
+  entityName: row.entityName,
+  entityId: row.entityId,
+  actorId: row.actorId ?? null,
+  requestId: row.requestId ?? null,
+  changes: row.changes,
+  timestamp: row.timestamp instanceof Date ? row.timestamp : new Date(row.timestamp),
+});
+
+/**
+ * Store writing entries to the `audit_log` table with the flushing EntityManager, so entries are part
+ * of the same transaction when the change was made in `withTransaction()` / `em.transactional()`.
+ * Also usable from a queue processor to persist entries received from the queue store.
+ */
+const createDatabaseAuditStore = (): AuditStore => ({
+  write: async (entries, { entityManager }) => {
+    if (entries.length === 0) {
+      return;
+    }
+
+    await entityManager.insertMany(
+      AuditLogSchema,
+      entries.map(({ id: _id, ...entry }) => ({
+        ...entry,
+        actorId: entry.actorId ?? null,
+        requestId: entry.requestId ?? null,
+        timestamp: entry.timestamp instanceof Date ? entry.timestamp : new Date(entry.timestamp),
+      })),
+    );
+  },
+
+  find: async (query, { entityManager }) => {
+    const where: FilterQuery<AuditEntry> = {};
+
+    if (query.entityName) {
+      where.entityName = query.entityName;
+    }
+
+    if (query.entityId !== undefined) {
+      where.entityId = String(query.entityId);
+    }
+
+    if (query.actorId) {
+      where.actorId = query.actorId;
+    }
+
+    if (query.action) {
+      where.action = query.action;
+    }
+
+    if (query.from || query.to) {
+      where.timestamp = {
+        ...(query.from && { $gte: query.from }),
+        ...(query.to && { $lte: query.to }),
+      };
+    }
+
+    const rows = await entityManager.find(AuditLogSchema, where, {
+      orderBy: { timestamp: 'desc', id: 'desc' },
+      limit: query.limit ?? DEFAULT_QUERY_LIMIT,
+      offset: query.offset,
+      disableIdentityMap: true,
+    });
+
+    return rows.map(toAuditEntry);
+  },
+});
+
+/**
+ * Store adding one queue job per flush with the entries as payload (`{ entries }`), so they can be
+ * written asynchronously by a processor. Entries are enqueued after the flush, also when an
+ * enclosing transaction is later rolled back.
+ */
+const createQueueAuditStore = ({
+  getQueueManager,
+  queueId,
+  jobId,
+}: {
+  getQueueManager: () => QueueManager | undefined;
+  queueId: string;
+  jobId: string;
+}): AuditStore => ({
+  write: async entries => {
+    const queueManager = getQueueManager();
+
+    if (!queueManager) {
+      throw new DatabaseError('Audit entries cannot be queued before the queue manager is available', {
+        context: { queueId, jobId },
+      });
+    }
+
+    await queueManager.addJobToQueue({ queueId, jobId, data: { payload: { entries } } });
+  },
+});
+
+/**
+ * Resolve the configured audit store.
+ */
+const getAuditStore = ({
+  config,
+  getQueueManager,
+}: {
+  config: ApplicationAuditConfig;
+  getQueueManager: () => QueueManager | undefined;
+}): AuditStore => {
+  if (typeof config.store === 'object') {
+    return config.store;
+  }
+
+  if (config.store === 'queue') {
+    if (!config.queue) {
+      throw new ConfigurationError('database.audit.queue is required when the audit store is "queue"');
+    }
+
+    return createQueueAuditStore({ getQueueManager, ...config.queue });
+  }
+
+  return createDatabaseAuditStore();
+};
+
+/**
+ * Query audit entries (newest first).
+ *
+ * @example
+ * const history = await Audit.findAuditEntries({
+ *   store,
+ *   entityManager,
+ *   query: { entityName: 'Customer', entityId: 42, limit: 20 },
+ * });
+ */
+const findAuditEntries = ({
+  store,
+  entityManager,
+  query,
+}: {
+  store: AuditStore;
+  entityManager: EntityManager;
+  query: AuditQuery;
+}): Promise<AuditEntry[]> => {
+  if (!store.find) {
+    throw new DatabaseError('The audit store does not support queries');
+  }
+
+  return store.find(query, { entityManager });
+};
+
+export default {
+  REDACTED_VALUE,
+  AuditLogSchema,
+  createDatabaseAuditStore,
+  createQueueAuditStore,
+  getAuditStore,
+  findAuditEntries,
+};
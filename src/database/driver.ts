@@ -0,0 +1,87 @@
+import type { Constructor, Dictionary } from '@mikro-orm/core';
+import { type AbstractSqlDriver, NodeSqliteDialect, SqliteDriver } from '@mikro-orm/sql';
+import { ConfigurationError } from '../error/framework-errors.js';
+import type { DatabaseDriver } from './manager.interface.js';
+
+/** Driver used when none is configured */
+const DEFAULT_DRIVER: DatabaseDriver = 'postgresql';
+
+/** Driver packages, loaded when the driver is used (all but `@mikro-orm/postgresql` are optional) */
+const DRIVER_PACKAGES: Record<Exclude<DatabaseDriver, 'sqlite'>, { packageName: string; exportName: string }> = {
+  postgresql: { packageName: '@mikro-orm/postgresql', exportName: 'PostgreSqlDriver' },
+  mysql: { packageName: '@mikro-orm/mysql', exportName: 'MySqlDriver' },
+  mariadb: { packageName: '@mikro-orm/mariadb', exportName: 'MariaDbDriver' },
+  libsql: { packageName: '@mikro-orm/libsql', exportName: 'LibSqlDriver' },
+};
+
+/** Default ports of the server drivers */
+const DEFAULT_PORTS: Partial<Record<DatabaseDriver, number>> = {
+  postgresql: 5432,
+  mysql: 3306,
+  mariadb: 3306,
+};
+
+/**
+ * Whether the driver connects to a database server (as opposed to a file, `:memory:` or libSQL URL)
+ */
+function isServerDriver(driver: DatabaseDriver = DEFAULT_DRIVER): boolean {
+  return driver !== 'sqlite' && driver !== 'libsql';
+}
+
+/**
+ * Get the default port of a server driver
+ */
+function getDefaultPort(driver: DatabaseDriver = DEFAULT_DRIVER): number | undefined {
+  return DEFAULT_PORTS[driver];
+}
+
+/**
+ * Get the MikroORM `driver` and `driverOptions` of a driver.
+ * SQLite runs on `node:sqlite` (Node.js 22.5+); the other drivers load their MikroORM package.
+ */
+async function getDriverConfig({
+  driver = DEFAULT_DRIVER,
+  databaseName,
+  driverOptions,
+}: {
+  driver?: DatabaseDriver;
+  databaseName: string;
+  driverOptions?: Record<string, unknown>;
+}): Promise<{ driver: Constructor<AbstractSqlDriver>; driverOptions?: Dictionary }> {
+  if (driver === 'sqlite') {
+    return { driver: SqliteDriver, driverOptions: new NodeSqliteDialect(databaseName) };
+  }
+
+  const { packageName, exportName } = DRIVER_PACKAGES[driver];
+
+  let driverModule: Record<string, unknown>;
+
+  try {
+    driverModule = await import(packageName);
+  } catch (error) {
+    // The package itself is missing (not one of its dependencies) when the error names it in quotes
+    if (error instanceof Error && [`'${packageName}'`, `"${packageName}"`].some(name => error.message.includes(name))) {
+      throw new ConfigurationError(
+        `Database driver package not installed (Driver: ${driver}, Package: ${packageName})`,
+        {
+          context: { driver, packageName },
+          cause: error,
+        },
+      );
+    }
+
+    throw error;
+  }
+
+  return {
+    driver: driverModule[exportName] as Constructor<AbstractSqlDriver>,
+    ...(driverOptions && { driverOptions }),
+  };
+}
+
+export default {
+  DEFAULT_DRIVER,
+  isServerDriver,
+  getDefaultPort,
+  getDriverConfig,
+};
@@ -9,6 +9,17 @@ export abstract class DynamicEntity extends BaseEntity {
   public static updateSchema: z.ZodSchema;
   /** Optional projection/read schema (includes persistence augment) */
   public static readSchema?: z.ZodSchema;
+  /**
+   * Soft delete rows instead of removing them. Requires a nullable `deletedAt` date property;
+   * rows with a `deletedAt` value are hidden from queries by the `softDelete` filter.
+   */
+  public static softDelete = false;
+
+  /**
+   * Scope rows to the tenant of the request context (with `tenancy` enabled). Requires a `tenantId` property;
+   * the `tenant` filter limits queries to the current tenant and new rows get its ID.
+   */
+  public static tenantScoped = false;
 
   public static get singularName(): string {
     return 'Item';
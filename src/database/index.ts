@@ -1,4 +1,38 @@
+export type {
+  ApplicationAuditConfig,
+  AuditAction,
+  AuditChange,
+  AuditEntry,
+  AuditQuery,
+  AuditStore,
+} from './audit.interface.js';
+export { default as Audit } from './audit.js';
+export { default as AuditSubscriber } from './audit-subscriber.js';
 export { DynamicEntity } from './dynamic-entity.js';
 export { FormField, FormFieldType } from './dynamic-entity-form-decorators.js';
+export type { DatabaseConnectionOptions } from './instance.interface.js';
 export { default as DatabaseInstance } from './instance.js';
+export type { DatabaseDriver } from './manager.interface.js';
 export { default as DatabaseManager } from './manager.js';
+export type {
+  ApplicationMigrationsConfig,
+  ApplicationSeedersConfig,
+  MigrationStatus,
+} from './migration.interface.js';
+export { default as Migration } from './migration.js';
+export type {
+  ApplicationOutboxConfig,
+  OutboxEventPayload,
+  OutboxJobPayload,
+  OutboxMessage,
+  OutboxMessageStatus,
+  OutboxMessageType,
+  OutboxPublishPayload,
+  OutboxRelayOptions,
+  OutboxWriter,
+} from './outbox.interface.js';
+export { default as Outbox } from './outbox.js';
+export { default as OutboxRelay } from './outbox-relay.js';
+export { default as Seeder } from './seeder.js';
+export { default as SoftDelete } from './soft-delete.js';
+export { default as TenantScope } from './tenant-scope.js';
@@ -1,5 +1,10 @@
-import type { MikroORM } from '@mikro-orm/postgresql';
+import type { AbstractSqlDriver, MikroORM } from '@mikro-orm/sql';
 
 export interface DatabaseInstanceConstructorParams {
-  orm: MikroORM;
+  orm: MikroORM<AbstractSqlDriver>;
+}
+
+export interface DatabaseConnectionOptions {
+  /** Named connection from `database.connections` (default: the top-level connection) */
+  connection?: string;
 }
@@ -1,6 +1,21 @@
-import type { EntityManager, MikroORM } from '@mikro-orm/postgresql';
+import type { IMigrator, ISeedManager } from '@mikro-orm/core';
+import type { AbstractSqlDriver, EntityManager, MikroORM, SqlSchemaGenerator } from '@mikro-orm/sql';
 import type { ApplicationConfig } from '../application/base-application.interface.js';
+import { DatabaseError } from '../error/framework-errors.js';
+import { getContextMetadata, getTenantId, setContextMetadata } from '../request-context/index.js';
+import Tenancy from '../tenancy/tenancy.js';
+import type { AuditStore } from './audit.interface.js';
+import type { DatabaseConnectionOptions } from './instance.interface.js';
 import type DatabaseManager from './manager.js';
+import type { OutboxWriter } from './outbox.interface.js';
+import Outbox from './outbox.js';
+import TenantScope from './tenant-scope.js';
+
+/** Name of the connection configured at the top level of `database` */
+const DEFAULT_CONNECTION = 'default';
+
+/** Request context metadata key set by `forcePrimary()` */
+const FORCE_PRIMARY_KEY = 'database:forcePrimary';
 
 /**
  * Database Instance
@@ -13,31 +28,70 @@ export default class DatabaseInstance {
   private applicationConfig: ApplicationConfig;
 
   /** MikroORM instance */
-  private orm: MikroORM;
+  private orm: MikroORM<AbstractSqlDriver>;
+
+  /** MikroORM instances of the named connections */
+  private connections: Map<string, MikroORM<AbstractSqlDriver>>;
+
+  /** Audit store (when auditing is enabled) */
+  private auditStore?: AuditStore;
 
   /**
    * Database Instance constructor
    * @param orm MikroORM instance
+   * @param connections MikroORM instances of the named connections
    */
   constructor({
     databaseManager,
     applicationConfig,
     orm,
+    connections = new Map(),
+    auditStore,
   }: {
     databaseManager: DatabaseManager;
     applicationConfig: ApplicationConfig;
-    orm: MikroORM;
+    orm: MikroORM<AbstractSqlDriver>;
+    connections?: Map<string, MikroORM<AbstractSqlDriver>>;
+    auditStore?: AuditStore;
   }) {
     this.databaseManager = databaseManager;
     this.applicationConfig = applicationConfig;
     this.orm = orm;
+    this.connections = connections;
+    this.auditStore = auditStore;
+  }
+
+  /**
+   * Get the names of all connections, starting with the default one
+   */
+  public getConnectionNames(): string[] {
+    return [DEFAULT_CONNECTION, ...this.connections.keys()];
   }
 
   /**
    * Check if database is connected
    */
-  public isConnected(): Promise<boolean> {
-    return this.orm.isConnected();
+  public isConnected(connection?: string): Promise<boolean> {
+    return this.getOrm(connection).isConnected();
+  }
+
+  /**
+   * Route the remaining reads of the current request (or job) to the primary,
+   * e.g. to read back a write before it reaches the replicas
+   */
+  public forcePrimary(): void {
+    setContextMetadata(FORCE_PRIMARY_KEY, true);
+  }
+
+  /**
+   * Get the connection type for reads: `read` (replicas, when configured) unless
+   * `forcePrimary()` was called in the current context or `forcePrimary` is given
+   *
+   * @example
+   * const users = await em.find(User, {}, { connectionType: databaseInstance.getReadConnectionType() });
+   */
+  public getReadConnectionType({ forcePrimary }: { forcePrimary?: boolean } = {}): 'read' | 'write' {
+    return forcePrimary || getContextMetadata(FORCE_PRIMARY_KEY) === true ? 'write' : 'read';
   }
 
   /**
@@ -49,8 +103,8 @@ export default class DatabaseInstance {
    *
    * @deprecated Use withEntityManager() for automatic cleanup
    */
-  public getEntityManager(): EntityManager {
-    return this.orm.em.fork();
+  public getEntityManager({ connection }: DatabaseConnectionOptions = {}): EntityManager {
+    return this.forkEntityManager(connection);
   }
 
   /**
@@ -62,9 +116,14 @@ export default class DatabaseInstance {
    *   const user = await em.findOne(User, { id: 1 });
    *   return user;
    * });
+   *
+   * await databaseInstance.withEntityManager(async (em) => em.count(Event), { connection: 'analytics' });
    */
-  public async withEntityManager<T>(callback: (em: EntityManager) => Promise<T>): Promise<T> {
-    const em = this.orm.em.fork();
+  public async withEntityManager<T>(
+    callback: (em: EntityManager) => Promise<T>,
+    { connection }: DatabaseConnectionOptions = {},
+  ): Promise<T> {
+    const em = this.forkEntityManager(connection);
     try {
       return await callback(em);
     } finally {
@@ -75,31 +134,108 @@ export default class DatabaseInstance {
   /**
    * Execute a function with a fresh EntityManager that supports transactions
    * The EntityManager is automatically cleaned up after the transaction
+   * Messages added to `outbox` are committed with the transaction (requires `database.outbox`)
+   * Transactions always run on the primary
    *
    * @example
-   * await databaseInstance.withTransaction(async (em) => {
+   * await databaseInstance.withTransaction(async (em, { outbox }) => {
    *   const user = em.create(User, { name: 'John' });
    *   await em.persist(user).flush();
+   *   outbox.emitEvent({ name: 'userCreated', data: { userId: user.id } });
    *   return user;
    * });
    */
-  public async withTransaction<T>(callback: (em: EntityManager) => Promise<T>): Promise<T> {
-    const em = this.orm.em.fork();
+  public async withTransaction<T>(
+    callback: (em: EntityManager, context: { outbox: OutboxWriter }) => Promise<T>,
+    { connection }: DatabaseConnectionOptions = {},
+  ): Promise<T> {
+    const em = this.forkEntityManager(connection);
     try {
       return await em.transactional(async transactionalEm => {
-        return await callback(transactionalEm);
+        return await callback(transactionalEm, {
+          outbox: Outbox.createOutboxWriter({ entityManager: transactionalEm }),
+        });
       });
     } finally {
       em.clear();
     }
   }
 
+  /**
+   * Get the audit store, if auditing is enabled
+   */
+  public getAuditStore(): AuditStore | undefined {
+    return this.auditStore;
+  }
+
+  /**
+   * Get the schema generator, e.g. to create the schema of an in-memory SQLite database in tests
+   *
+   * @example
+   * await databaseInstance.getSchemaGenerator().create();
+   */
+  public getSchemaGenerator({ connection }: DatabaseConnectionOptions = {}): SqlSchemaGenerator {
+    return this.getOrm(connection).schema;
+  }
+
+  /**
+   * Get the migrator (see `Migration` for the framework's migration helpers)
+   */
+  public getMigrator(): IMigrator {
+    return this.orm.migrator;
+  }
+
+  /**
+   * Get the seed manager
+   */
+  public getSeeder(): ISeedManager {
+    return this.orm.seeder;
+  }
+
   /**
    * Disconnect
    */
   public async disconnect(): Promise<void> {
-    await this.orm.close();
+    await Promise.all([this.orm, ...this.connections.values()].map(orm => orm.close()));
 
     this.databaseManager.log('Disconnected');
   }
+
+  /**
+   * Fork the EntityManager of a connection. With `schema` tenant isolation, the default connection's fork
+   * uses the schema of the tenant in the request context.
+   */
+  private forkEntityManager(connection?: string): EntityManager {
+    const orm = this.getOrm(connection);
+    const schema = orm === this.orm ? this.getTenantSchema() : undefined;
+
+    return schema ? orm.em.fork({ schema }) : orm.em.fork();
+  }
+
+  private getTenantSchema(): string | undefined {
+    const { tenancy } = this.applicationConfig;
+    const tenantId = getTenantId();
+
+    if (!tenantId || !Tenancy.isEnabled(tenancy) || tenancy.database?.isolation !== 'schema') {
+      return undefined;
+    }
+
+    return TenantScope.getTenantSchema({ tenantId, schemaPrefix: tenancy.database.schemaPrefix });
+  }
+
+  private getOrm(connection?: string): MikroORM<AbstractSqlDriver> {
+    if (connection === undefined || connection === DEFAULT_CONNECTION) {
+      return this.orm;
+    }
+
+    const orm = this.connections.get(connection);
+
+    if (!orm) {
+      throw new DatabaseError(`Database connection not found (Connection: ${connection})`, {
+        context: { connection },
+      });
+    }
+
+    return orm;
+  }
 }
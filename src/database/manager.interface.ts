@@ -1,24 +1,97 @@
 import type { ApplicationConfig } from '../application/base-application.interface.js';
+import type { ApplicationAuditConfig } from './audit.interface.js';
+import type { ApplicationMigrationsConfig, ApplicationSeedersConfig } from './migration.interface.js';
+import type { ApplicationOutboxConfig } from './outbox.interface.js';
+
+/** MikroORM driver */
+export type DatabaseDriver = 'postgresql' | 'mysql' | 'mariadb' | 'sqlite' | 'libsql';
+
+export interface ApplicationDatabaseReplicaConfig {
+  /** Replica host */
+  host: string;
+
+  /** Replica port (default: the primary's port) */
+  port?: number;
+
+  /** Replica username (default: the primary's username) */
+  username?: string;
+
+  /** Replica password (default: the primary's password) */
+  password?: string;
+}
+
+export interface ApplicationDatabaseConnectionConfig {
+  /** Driver (default: postgresql) */
+  driver?: DatabaseDriver;
+
+  /** Database host (server drivers) */
+  host?: string;
+
+  /** Database port (default: 5432 for postgresql, 3306 for mysql and mariadb) */
+  port?: number;
+
+  /** Database username (server drivers) */
+  username?: string;
+
+  /** Database password (server drivers), or auth token of a remote libSQL database */
+  password?: string;
+
+  /** Database name, or file path, `:memory:` or URL for sqlite and libsql */
+  databaseName: string;
+
+  /** Options passed to the driver (MikroORM `driverOptions`), e.g. pool or TLS settings */
+  driverOptions?: Record<string, unknown>;
+
+  /** Entities directory (default: the entities directory of the default connection) */
+  entitiesDirectory?: string;
+
+  /** Read replicas, used for reads that allow them (see `DatabaseInstance.getReadConnectionType()`) */
+  replicas?: ApplicationDatabaseReplicaConfig[];
+}
 
 export interface ApplicationDatabaseOptions {
   /** Application config */
   applicationConfig: ApplicationConfig;
 
+  /** Driver (default: postgresql) */
+  driver?: DatabaseDriver;
+
   /** Database host */
-  host: string;
+  host?: string;
 
   /** Database port */
-  port: number;
+  port?: number;
 
   /** Database username */
-  username: string;
+  username?: string;
 
   /** Database password */
-  password: string;
+  password?: string;
 
   /** Database name */
   databaseName: string;
 
+  /** Options passed to the driver */
+  driverOptions?: Record<string, unknown>;
+
   /** Entities directory */
   entitiesDirectory: string;
+
+  /** Read replicas of the default connection */
+  replicas?: ApplicationDatabaseReplicaConfig[];
+
+  /** Additional named connections */
+  connections?: Record<string, ApplicationDatabaseConnectionConfig>;
+
+  /** Migrations */
+  migrations?: ApplicationMigrationsConfig;
+
+  /** Seeders */
+  seeders?: ApplicationSeedersConfig;
+
+  /** Audit log */
+  audit?: ApplicationAuditConfig;
+
+  /** Transactional outbox */
+  outbox?: ApplicationOutboxConfig;
 }
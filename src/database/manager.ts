@@ -1,9 +1,20 @@
-import { MikroORM } from '@mikro-orm/postgresql';
+import { Migrator } from '@mikro-orm/migrations';
+import { SeedManager } from '@mikro-orm/seeder';
+import { type AbstractSqlDriver, MikroORM } from '@mikro-orm/sql';
 import { safeSerializeError } from '../error/error-reporter.js';
 import { Logger } from '../logger/index.js';
 import { DatabasePerformanceWrapper } from '../performance/index.js';
+import type QueueManager from '../queue/manager.js';
+import Tenancy from '../tenancy/tenancy.js';
+import type { AuditStore } from './audit.interface.js';
+import Audit from './audit.js';
+import AuditSubscriber from './audit-subscriber.js';
+import Driver from './driver.js';
 import DatabaseInstance from './instance.js';
-import type { ApplicationDatabaseOptions } from './manager.interface.js';
+import type { ApplicationDatabaseConnectionConfig, ApplicationDatabaseOptions } from './manager.interface.js';
+import Outbox from './outbox.js';
+import SoftDelete from './soft-delete.js';
+import TenantScope from './tenant-scope.js';
 
 /**
  * Database manager
@@ -15,6 +26,8 @@ export default class DatabaseManager {
 
   private instances: DatabaseInstance[] = [];
 
+  private queueManager?: QueueManager;
+
   /**
    * Database manager constructor
    */
@@ -29,23 +42,73 @@ export default class DatabaseManager {
     return DatabasePerformanceWrapper.monitorConnection('connect', async () => {
       const startTime = performance.now();
 
+      let orm: MikroORM<AbstractSqlDriver> | undefined;
+      const connections = new Map<string, MikroORM<AbstractSqlDriver>>();
+
       try {
-        const orm = await MikroORM.init({
-          host: this.options.host,
-          port: this.options.port,
-          user: this.options.username,
-          password: this.options.password,
-          dbName: this.options.databaseName,
-          entities: [this.options.entitiesDirectory],
+        const auditStore = this.getAuditStore();
+        const tenantScoped = this.isTenantScoped();
+
+        orm = await MikroORM.init({
+          ...(await this.getConnectionOptions(this.options)),
+          entities: [
+            this.options.entitiesDirectory,
+            ...(auditStore && typeof this.options.audit?.store !== 'object' ? [Audit.AuditLogSchema] : []),
+            ...(this.options.outbox?.enabled ? [Outbox.OutboxMessageSchema] : []),
+          ],
           discovery: {
             warnWhenNoEntities: false,
           },
+          extensions: [Migrator, SeedManager],
+          migrations: {
+            path: this.options.migrations?.directory,
+            tableName: this.options.migrations?.tableName,
+          },
+          seeder: {
+            path: this.options.seeders?.directory,
+            defaultSeeder: this.options.seeders?.defaultSeeder,
+          },
+          filters: {
+            [SoftDelete.SOFT_DELETE_FILTER]: SoftDelete.softDeleteFilter,
+            ...(tenantScoped && { [TenantScope.TENANT_FILTER]: TenantScope.tenantFilter }),
+          },
+          subscribers: [
+            ...(tenantScoped ? [TenantScope.tenantSubscriber] : []),
+            ...(auditStore
+              ? [
+                  new AuditSubscriber({
+                    store: auditStore,
+                    redact: this.options.audit?.redact,
+                    exclude: this.options.audit?.exclude,
+                  }),
+                ]
+              : []),
+          ],
         });
 
+        for (const [name, connection] of Object.entries(this.options.connections ?? {})) {
+          connections.set(
+            name,
+            await MikroORM.init({
+              name,
+              ...(await this.getConnectionOptions(connection)),
+              entities: [connection.entitiesDirectory ?? this.options.entitiesDirectory],
+              discovery: {
+                warnWhenNoEntities: false,
+              },
+              filters: {
+                [SoftDelete.SOFT_DELETE_FILTER]: SoftDelete.softDeleteFilter,
+              },
+            }),
+          );
+        }
+
         const databaseInstance = new DatabaseInstance({
           databaseManager: this,
           applicationConfig: this.options.applicationConfig,
           orm,
+          connections,
+          auditStore,
         });
 
         this.instances.push(databaseInstance);
@@ -53,9 +116,12 @@ export default class DatabaseManager {
         const duration = performance.now() - startTime;
         const ormConfig = typeof orm.config?.getAll === 'function' ? orm.config.getAll() : undefined;
         const logMeta = {
+          Driver: this.options.driver ?? Driver.DEFAULT_DRIVER,
           Host: ormConfig?.host ?? this.options.host,
           User: ormConfig?.user ?? this.options.username,
           Database: ormConfig?.dbName ?? this.options.databaseName,
+          ...(this.options.replicas?.length && { Replicas: this.options.replicas.length }),
+          ...(connections.size > 0 && { Connections: [...connections.keys()].join(', ') }),
           Duration: `${duration.toFixed(2)}ms`,
         };
 
@@ -69,6 +135,9 @@ export default class DatabaseManager {
       } catch (error) {
         const duration = performance.now() - startTime;
 
+        // Close connections opened before the failure
+        await Promise.all([orm, ...connections.values()].map(connection => connection?.close().catch(() => undefined)));
+
         this.logger.error({
           error: error instanceof Error ? error : new Error(safeSerializeError(error)),
           message: 'Database connection failed',
@@ -84,6 +153,13 @@ export default class DatabaseManager {
     });
   }
 
+  /**
+   * Make the queue manager available to the `queue` audit store
+   */
+  public setQueueManager(queueManager: QueueManager): void {
+    this.queueManager = queueManager;
+  }
+
   /**
    * Disconnect from database
    */
@@ -130,6 +206,48 @@ export default class DatabaseManager {
     });
   }
 
+  /**
+   * Get the MikroORM driver and connection options of a connection
+   */
+  private async getConnectionOptions(connection: ApplicationDatabaseConnectionConfig) {
+    const port = connection.port ?? Driver.getDefaultPort(connection.driver);
+
+    return {
+      ...(await Driver.getDriverConfig(connection)),
+      host: connection.host,
+      port,
+      user: connection.username,
+      password: connection.password,
+      dbName: connection.databaseName,
+      replicas: connection.replicas?.map((replica, index) => ({
+        name: `read-${index + 1}`,
+        host: replica.host,
+        port: replica.port ?? port,
+        user: replica.username ?? connection.username,
+        password: replica.password ?? connection.password,
+      })),
+      preferReadReplicas: false,
+    };
+  }
+
+  /**
+   * Whether tenant entities of the default connection are scoped by the `tenant` filter
+   * (tenancy enabled with `filter` isolation)
+   */
+  private isTenantScoped(): boolean {
+    const { tenancy } = this.options.applicationConfig;
+
+    return Tenancy.isEnabled(tenancy) && (tenancy.database?.isolation ?? 'filter') === 'filter';
+  }
+
+  private getAuditStore(): AuditStore | undefined {
+    if (!this.options.audit?.enabled) {
+      return undefined;
+    }
+
+    return Audit.getAuditStore({ config: this.options.audit, getQueueManager: () => this.queueManager });
+  }
+
   /**
    * Log database message
    */
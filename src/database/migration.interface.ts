@@ -0,0 +1,31 @@
+import type { MigrationInfo, MigrationRow } from '@mikro-orm/core';
+
+export interface ApplicationMigrationsConfig {
+  /** Directory with migration files (default: `src/database/migrations`) */
+  directory?: string;
+
+  /** Table tracking executed migrations (default: `mikro_orm_migrations`) */
+  tableName?: string;
+
+  /** Run pending migrations in the `onInit` lifecycle phase, one process at a time */
+  runOnStartup?: boolean;
+
+  /** Expiry of the startup migration lock in seconds, in case its holder dies (default: 300) */
+  lockTtlSeconds?: number;
+}
+
+export interface ApplicationSeedersConfig {
+  /** Directory with seeder files (default: `src/database/seeders`) */
+  directory?: string;
+
+  /** Seeder class run when no class is given (default: `DatabaseSeeder`) */
+  defaultSeeder?: string;
+}
+
+export interface MigrationStatus {
+  /** Executed migrations, oldest first */
+  executed: MigrationRow[];
+
+  /** Migrations not executed yet, in execution order */
+  pending: MigrationInfo[];
+}
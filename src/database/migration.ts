@@ -0,0 +1,212 @@
+import { randomUUID } from 'node:crypto';
+import type { MigrationInfo, MigrationResult } from '@mikro-orm/core';
+import { Logger } from '../logger/index.js';
+import type { RedisInstance } from '../redis/index.js';
+import { Time } from '../util/index.js';
+import type DatabaseInstance from './instance.js';
+import type { MigrationStatus } from './migration.interface.js';
+
+const DEFAULT_SEEDER = 'DatabaseSeeder';
+
+const LOCK_KEY_PREFIX = 'database:migrations:lock';
+
+/** Connection the migrator runs on */
+const DEFAULT_CONNECTION = 'default';
+
+// Deletes the lock only while it is still held by the given token
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0
+`;
+
+const log = (message: string, meta?: Record<string, unknown>): void => {
+  Logger.custom({ level: 'database', message, meta });
+};
+
+/**
+ * Redis key of the migration lock. Namespaced by application and connection, so applications sharing a Redis server
+ * do not wait for each other's migrations.
+ */
+const getLockKey = ({
+  applicationName,
+  connection = DEFAULT_CONNECTION,
+}: {
+  applicationName: string;
+  connection?: string;
+}): string => `${LOCK_KEY_PREFIX}:${applicationName}:${connection}`;
+
+/**
+ * Run pending migrations, up to and including `to` when given.
+ *
+ * @returns Executed migrations
+ */
+const migrate = async ({
+  databaseInstance,
+  to,
+}: {
+  databaseInstance: DatabaseInstance;
+  to?: string;
+}): Promise<MigrationInfo[]> => {
+  const migrations = await databaseInstance.getMigrator().up(to ? { to } : undefined);
+
+  for (const migration of migrations) {
+    log('Migration executed', { Name: migration.name });
+  }
+
+  return migrations;
+};
+
+/**
+ * Revert the last `steps` migrations (default: 1), or all migrations after `to`.
+ * Pass `to: 0` to revert every migration.
+ *
+ * @returns Reverted migrations
+ */
+const rollback = async ({
+  databaseInstance,
+  to,
+  steps = 1,
+}: {
+  databaseInstance: DatabaseInstance;
+  to?: string | 0;
+  steps?: number;
+}): Promise<MigrationInfo[]> => {
+  const migrator = databaseInstance.getMigrator();
+  const migrations: MigrationInfo[] = [];
+
+  if (to !== undefined) {
+    migrations.push(...(await migrator.down({ to })));
+  } else {
+    for (let step = 0; step < steps; step++) {
+      const reverted = await migrator.down();
+
+      if (reverted.length === 0) {
+        break;
+      }
+
+      migrations.push(...reverted);
+    }
+  }
+
+  for (const migration of migrations) {
+    log('Migration reverted', { Name: migration.name });
+  }
+
+  return migrations;
+};
+
+/**
+ * Get executed and pending migrations
+ */
+const getStatus = async ({ databaseInstance }: { databaseInstance: DatabaseInstance }): Promise<MigrationStatus> => {
+  const migrator = databaseInstance.getMigrator();
+
+  // Sequential: the migrator creates its table on first use, and a concurrent call would not wait for it
+  const executed = await migrator.getExecuted();
+  const pending = await migrator.getPending();
+
+  return { executed, pending };
+};
+
+/**
+ * Generate a migration from the difference between the entities and the database schema.
+ * With `blank`, an empty migration is generated; with `initial`, the migration creates the whole schema.
+ *
+ * @returns Generated migration, with an empty `fileName` when the schema is up to date
+ */
+const createMigration = async ({
+  databaseInstance,
+  name,
+  blank = false,
+  initial = false,
+}: {
+  databaseInstance: DatabaseInstance;
+  name?: string;
+  blank?: boolean;
+  initial?: boolean;
+}): Promise<MigrationResult> => {
+  const result = await databaseInstance.getMigrator().create(undefined, blank, initial, name);
+
+  if (result.fileName) {
+    log('Migration created', { File: result.fileName });
+  }
+
+  return result;
+};
+
+/**
+ * Run seeders by class name (default: `DatabaseSeeder`). Each seeder is flushed after it ran.
+ */
+const seed = async ({
+  databaseInstance,
+  seeders = [DEFAULT_SEEDER],
+}: {
+  databaseInstance: DatabaseInstance;
+  seeders?: string[];
+}): Promise<void> => {
+  const seeder = databaseInstance.getSeeder();
+
+  for (const className of seeders) {
+    await seeder.seedString(className);
+
+    log('Seeder executed', { Seeder: className });
+  }
+};
+
+/**
+ * Run pending migrations while holding a Redis lock, so that only one process migrates at a time,
+ * e.g. when every cluster worker migrates on startup. Processes that find the lock taken wait for it;
+ * by then there is usually nothing left to migrate. The lock expires after `lockTtlSeconds` if its holder dies,
+ * and is only released by the process holding it.
+ *
+ * @returns Executed migrations
+ */
+const migrateWithLock = async ({
+  databaseInstance,
+  redisInstance,
+  applicationName,
+  lockTtlSeconds = 300,
+  retryDelayMs = 500,
+}: {
+  databaseInstance: DatabaseInstance;
+  redisInstance: RedisInstance;
+
+  /** Application name the lock is namespaced by */
+  applicationName: string;
+
+  lockTtlSeconds?: number;
+  retryDelayMs?: number;
+}): Promise<MigrationInfo[]> => {
+  const lockKey = getLockKey({ applicationName });
+  const token = randomUUID();
+  let waiting = false;
+
+  while ((await redisInstance.client.set(lockKey, token, 'EX', lockTtlSeconds, 'NX')) !== 'OK') {
+    if (!waiting) {
+      waiting = true;
+
+      log('Waiting for migrations of another process');
+    }
+
+    await Time.sleep({ seconds: retryDelayMs / 1000 });
+  }
+
+  try {
+    return await migrate({ databaseInstance });
+  } finally {
+    await redisInstance.client.eval(RELEASE_LOCK_SCRIPT, 1, lockKey, token);
+  }
+};
+
+export default {
+  DEFAULT_SEEDER,
+  getLockKey,
+  migrate,
+  rollback,
+  getStatus,
+  createMigration,
+  seed,
+  migrateWithLock,
+};
@@ -0,0 +1,247 @@
+import { LockMode } from '@mikro-orm/core';
+import type EventManager from '../event/manager.js';
+import { Logger } from '../logger/index.js';
+import type QueueManager from '../queue/manager.js';
+import type { RedisInstance } from '../redis/index.js';
+import type DatabaseInstance from './instance.js';
+import type {
+  OutboxEventPayload,
+  OutboxJobPayload,
+  OutboxMessage,
+  OutboxPublishPayload,
+  OutboxRelayOptions,
+} from './outbox.interface.js';
+import Outbox from './outbox.js';
+
+const DEDUP_KEY_PREFIX = 'outbox:dedup';
+
+/**
+ * Outbox relay
+ *
+ * Delivers pending outbox messages to BullMQ queues, the EventManager and Redis pub/sub, at least once.
+ * Each batch is claimed with `FOR UPDATE SKIP LOCKED`, so several relays can run side by side.
+ * Failed deliveries are retried with exponential backoff until `maxAttempts`.
+ */
+export default class OutboxRelay {
+  private logger: typeof Logger = Logger;
+
+  private readonly databaseInstance: DatabaseInstance;
+  private readonly queueManager: QueueManager;
+  private readonly redisInstance: RedisInstance;
+  private readonly eventManager?: EventManager;
+
+  private readonly options: Required<Omit<OutboxRelayOptions, 'enabled'>>;
+
+  private timer?: NodeJS.Timeout;
+
+  private running?: Promise<void>;
+
+  private started = false;
+
+  private stopping = false;
+
+  constructor({
+    databaseInstance,
+    queueManager,
+    redisInstance,
+    eventManager,
+    options = {},
+  }: {
+    databaseInstance: DatabaseInstance;
+    queueManager: QueueManager;
+    redisInstance: RedisInstance;
+    eventManager?: EventManager;
+    options?: OutboxRelayOptions;
+  }) {
+    this.databaseInstance = databaseInstance;
+    this.queueManager = queueManager;
+    this.redisInstance = redisInstance;
+    this.eventManager = eventManager;
+
+    this.options = {
+      intervalMs: options.intervalMs ?? 1000,
+      batchSize: options.batchSize ?? 100,
+      maxAttempts: options.maxAttempts ?? 10,
+      retryDelayMs: options.retryDelayMs ?? 1000,
+      dedupTtlSeconds: options.dedupTtlSeconds ?? 86_400,
+    };
+  }
+
+  /**
+   * Start polling the outbox
+   */
+  public start(): void {
+    if (this.started) {
+      return;
+    }
+
+    this.started = true;
+    this.stopping = false;
+
+    this.schedule(0);
+  }
+
+  /**
+   * Stop polling and wait for the current batch to finish
+   */
+  public async stop(): Promise<void> {
+    this.started = false;
+    this.stopping = true;
+
+    clearTimeout(this.timer);
+
+    await this.running;
+  }
+
+  /**
+   * Deliver all messages that are due.
+   *
+   * @returns Number of delivered messages
+   */
+  public async drain(): Promise<number> {
+    let delivered = 0;
+
+    for (;;) {
+      const batch = await this.databaseInstance.withTransaction(async entityManager => {
+        const messages = await entityManager.find(
+          Outbox.OutboxMessageSchema,
+          { status: 'pending', availableAt: { $lte: new Date() } },
+          { orderBy: { id: 'asc' }, limit: this.options.batchSize, lockMode: LockMode.PESSIMISTIC_PARTIAL_WRITE },
+        );
+
+        let batchDelivered = 0;
+
+        for (const message of messages) {
+          if (await this.deliver(message)) {
+            batchDelivered++;
+          }
+        }
+
+        return { size: messages.length, delivered: batchDelivered };
+      });
+
+      delivered += batch.delivered;
+
+      if (batch.size < this.options.batchSize || this.stopping) {
+        return delivered;
+      }
+    }
+  }
+
+  private schedule(delay: number): void {
+    this.timer = setTimeout(() => {
+      this.running = this.poll();
+    }, delay);
+
+    this.timer.unref();
+  }
+
+  private async poll(): Promise<void> {
+    try {
+      await this.drain();
+    } catch (error) {
+      this.logger.error({ error, message: 'Outbox relay failed' });
+    }
+
+    if (this.started) {
+      this.schedule(this.options.intervalMs);
+    }
+  }
+
+  /**
+   * Deliver a message and update its state (flushed with the batch transaction).
+   *
+   * @returns Whether the message was delivered
+   */
+  private async deliver(message: OutboxMessage): Promise<boolean> {
+    const dedupKey = message.dedupKey ? `${DEDUP_KEY_PREFIX}:${message.dedupKey}` : undefined;
+    let claimed = false;
+
+    try {
+      if (dedupKey) {
+        claimed =
+          (await this.redisInstance.client.set(
+            dedupKey,
+            String(message.id),
+            'EX',
+            this.options.dedupTtlSeconds,
+            'NX',
+          )) === 'OK';
+      }
+
+      // A message with a dedup key that was already delivered is only marked as processed
+      if (!dedupKey || claimed) {
+        await this.dispatch(message);
+      }
+
+      message.status = 'processed';
+      message.processedAt = new Date();
+
+      return true;
+    } catch (error) {
+      if (claimed && dedupKey) {
+        await this.redisInstance.client.del(dedupKey).catch(() => undefined);
+      }
+
+      message.attempts += 1;
+      message.lastError = error instanceof Error ? error.message : String(error);
+
+      if (message.attempts >= this.options.maxAttempts) {
+        message.status = 'failed';
+      } else {
+        message.availableAt = new Date(Date.now() + this.options.retryDelayMs * 2 ** (message.attempts - 1));
+      }
+
+      this.logger.warn({
+        message: 'Outbox message delivery failed',
+        meta: {
+          ID: message.id,
+          Type: message.type,
+          Attempts: message.attempts,
+          Status: message.status,
+          Error: message.lastError,
+        },
+      });
+
+      return false;
+    }
+  }
+
+  private async dispatch(message: OutboxMessage): Promise<void> {
+    switch (message.type) {
+      case 'job': {
+        const { queueId, jobId, data } = message.payload as OutboxJobPayload;
+
+        // The job ID makes BullMQ ignore a second delivery while the first job is still stored
+        await this.queueManager.addJobToQueue({
+          queueId,
+          jobId,
+          data,
+          options: { jobId: `outbox-${message.id}` },
+        });
+
+        break;
+      }
+      case 'event': {
+        const { name, data } = message.payload as OutboxEventPayload;
+
+        if (!this.eventManager) {
+          throw new Error('Event manager not available');
+        }
+
+        await this.eventManager.run({ name, data, throwOnError: true });
+
+        break;
+      }
+      case 'publish': {
+        const { channel, message: content } = message.payload as OutboxPublishPayload;
+
+        await this.redisInstance.publisherClient.publish(channel, content);
+
+        break;
+      }
+      default:
+        throw new Error(`Unknown outbox message type (Type: ${message.type})`);
+    }
+  }
+}
@@ -0,0 +1,88 @@
+import type { QueueJobData } from '../queue/job.interface.js';
+
+/** Destination of an outbox message */
+export type OutboxMessageType = 'job' | 'event' | 'publish';
+
+/** Delivery state of an outbox message */
+export type OutboxMessageStatus = 'pending' | 'processed' | 'failed';
+
+export interface OutboxJobPayload {
+  queueId: string;
+  jobId: string;
+  data: QueueJobData;
+}
+
+export interface OutboxEventPayload {
+  name: string;
+  data: unknown;
+}
+
+export interface OutboxPublishPayload {
+  channel: string;
+  message: string;
+}
+
+/** Row of the `outbox_message` table */
+export interface OutboxMessage {
+  id: number;
+  type: OutboxMessageType;
+  payload: OutboxJobPayload | OutboxEventPayload | OutboxPublishPayload;
+
+  /** Messages with the same key are delivered once within the relay's `dedupTtlSeconds` */
+  dedupKey?: string | null;
+
+  status: OutboxMessageStatus;
+
+  /** Failed delivery attempts */
+  attempts: number;
+
+  /** The message is not delivered before this date (set when retrying) */
+  availableAt: Date;
+
+  createdAt: Date;
+  processedAt?: Date | null;
+  lastError?: string | null;
+}
+
+/**
+ * Adds messages to the outbox with an EntityManager. Messages are persisted with the next flush,
+ * so they are committed (or rolled back) with the changes of the same transaction.
+ */
+export interface OutboxWriter {
+  /** Add a job to a queue */
+  addJob(options: OutboxJobPayload & { dedupKey?: string }): void;
+
+  /** Run an event of the EventManager */
+  emitEvent(options: OutboxEventPayload & { dedupKey?: string }): void;
+
+  /** Publish a message on a Redis channel (objects are sent as JSON) */
+  publish(options: { channel: string; message: string | object; dedupKey?: string }): void;
+}
+
+export interface OutboxRelayOptions {
+  /** Whether the worker application runs the relay (default: true) */
+  enabled?: boolean;
+
+  /** Delay between polls when the outbox is empty, in milliseconds (default: 1000) */
+  intervalMs?: number;
+
+  /** Messages delivered per transaction (default: 100) */
+  batchSize?: number;
+
+  /** Attempts before a message is marked as failed (default: 10) */
+  maxAttempts?: number;
+
+  /** Delay before the first retry, doubled on every attempt, in milliseconds (default: 1000) */
+  retryDelayMs?: number;
+
+  /** How long delivered dedup keys are remembered, in seconds (default: 86400) */
+  dedupTtlSeconds?: number;
+}
+
+export interface ApplicationOutboxConfig {
+  /** Whether to register the outbox table */
+  enabled: boolean;
+
+  /** Relay options */
+  relay?: OutboxRelayOptions;
+}
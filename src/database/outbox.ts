@@ -0,0 +1,108 @@
+import { type EntityManager, EntitySchema } from '@mikro-orm/core';
+import { getTenantId } from '../request-context/index.js';
+import type { OutboxMessage, OutboxMessageType, OutboxWriter } from './outbox.interface.js';
+
+/**
+ * `outbox_message` table. Registered automatically when `database.outbox` is enabled;
+ * create the table with a migration like any other entity.
+ */
+const OutboxMessageSchema = new EntitySchema<OutboxMessage>({
+  name: 'OutboxMessage',
+  tableName: 'outbox_message',
+  properties: {
+    id: { type: 'number', primary: true, autoincrement: true },
+    type: { type: 'string', length: 16 },
+    payload: { type: 'json' },
+    dedupKey: { type: 'string', nullable: true },
+    status: { type: 'string', length: 16, default: 'pending' },
+    attempts: { type: 'number', default: 0 },
+    availableAt: { type: 'datetime' },
+    createdAt: { type: 'datetime' },
+    processedAt: { type: 'datetime', nullable: true },
+    lastError: { type: 'text', nullable: true },
+  },
+  indexes: [{ properties: ['status', 'availableAt'] }],
+});
+
+/**
+ * Outbox writer persisting messages with the given EntityManager. Use it inside a transaction, e.g. the
+ * `outbox` passed to `withTransaction()` callbacks; outside a transaction, messages are stored with the next flush.
+ *
+ * @example
+ * await databaseInstance.withTransaction(async (em, { outbox }) => {
+ *   const order = em.create(Order, body);
+ *   await em.flush();
+ *
+ *   outbox.addJob({ queueId: 'orders', jobId: 'send-confirmation', data: { payload: { orderId: order.id } } });
+ * });
+ */
+const createOutboxWriter = ({ entityManager }: { entityManager: EntityManager }): OutboxWriter => {
+  const add = ({
+    type,
+    payload,
+    dedupKey,
+  }: {
+    type: OutboxMessageType;
+    payload: OutboxMessage['payload'];
+    dedupKey?: string;
+  }): void => {
+    const now = new Date();
+
+    entityManager.persist(
+      entityManager.create(OutboxMessageSchema, {
+        type,
+        payload,
+        dedupKey: dedupKey ?? null,
+        status: 'pending',
+        attempts: 0,
+        availableAt: now,
+        createdAt: now,
+      }),
+    );
+  };
+
+  return {
+    addJob: ({ queueId, jobId, data, dedupKey }) => {
+      // The relay runs outside of the request context, so the tenant is stored with the job
+      const tenantId = data.tenantId ?? getTenantId();
+
+      add({ type: 'job', payload: { queueId, jobId, data: tenantId ? { ...data, tenantId } : data }, dedupKey });
+    },
+
+    emitEvent: ({ name, data, dedupKey }) => add({ type: 'event', payload: { name, data }, dedupKey }),
+
+    publish: ({ channel, message, dedupKey }) =>
+      add({
+        type: 'publish',
+        payload: { channel, message: typeof message === 'string' ? message : JSON.stringify(message) },
+        dedupKey,
+      }),
+  };
+};
+
+/**
+ * Make failed messages pending again, e.g. after fixing the cause of the failures.
+ *
+ * @returns Number of requeued messages
+ */
+const requeueFailed = ({ entityManager, ids }: { entityManager: EntityManager; ids?: number[] }): Promise<number> =>
+  entityManager.nativeUpdate(
+    OutboxMessageSchema,
+    { status: 'failed', ...(ids && { id: { $in: ids } }) },
+    { status: 'pending', attempts: 0, availableAt: new Date() },
+  );
+
+/**
+ * Delete processed messages delivered before the given date.
+ *
+ * @returns Number of deleted messages
+ */
+const purgeProcessed = ({ entityManager, olderThan }: { entityManager: EntityManager; olderThan: Date }) =>
+  entityManager.nativeDelete(OutboxMessageSchema, { status: 'processed', processedAt: { $lt: olderThan } });
+
+export default {
+  OutboxMessageSchema,
+  createOutboxWriter,
+  requeueFailed,
+  purgeProcessed,
+};
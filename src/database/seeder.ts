@@ -0,0 +1,48 @@
+import type { EntityManager } from '@mikro-orm/core';
+import { Seeder as MikroOrmSeeder } from '@mikro-orm/seeder';
+import type { z } from 'zod';
+import { ValidationError } from '../error/framework-errors.js';
+
+/**
+ * Database seeder
+ *
+ * Extends the MikroORM seeder with `createEntities()`, which validates fixtures with the entity's
+ * `createSchema` (see `DynamicEntity`), so seeded rows satisfy the same rules as created ones.
+ *
+ * @example
+ * export class DatabaseSeeder extends Seeder {
+ *   async run(em: EntityManager): Promise<void> {
+ *     this.createEntities(em, User, [{ email: 'admin@example.com', name: 'Admin' }]);
+ *   }
+ * }
+ */
+export default abstract class Seeder extends MikroOrmSeeder {
+  /**
+   * Validate fixtures with the entity's `createSchema` and persist them (flushed after `run()`).
+   *
+   * @throws ValidationError if a fixture is invalid
+   */
+  protected createEntities<Entity extends object>(
+    em: EntityManager,
+    EntityClass: (new (...args: any[]) => Entity) & { createSchema: z.ZodType },
+    fixtures: unknown[],
+  ): Entity[] {
+    return fixtures.map((fixture, index) => {
+      const result = EntityClass.createSchema.safeParse(fixture);
+
+      if (!result.success) {
+        throw new ValidationError(`Invalid ${EntityClass.name} fixture (Index: ${index})`, {
+          context: {
+            issues: result.error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message })),
+          },
+        });
+      }
+
+      const entity = em.create(EntityClass, result.data as any);
+
+      em.persist(entity);
+
+      return entity;
+    });
+  }
+}
@@ -0,0 +1,61 @@
+import type { EntityManager, FilterDef } from '@mikro-orm/core';
+import type { DynamicEntity } from './dynamic-entity.js';
+
+/** Name of the global MikroORM filter that hides soft-deleted rows */
+const SOFT_DELETE_FILTER = 'softDelete';
+
+/** Column marking a soft-deleted row */
+const SOFT_DELETE_FIELD = 'deletedAt';
+
+/**
+ * Whether the entity opted into soft deletes (`static softDelete = true`).
+ */
+const isSoftDeleteEntity = (EntityClass: unknown): boolean =>
+  Boolean((EntityClass as typeof DynamicEntity | undefined)?.softDelete);
+
+/**
+ * Global filter excluding rows with a `deletedAt` value from queries on soft-deleting entities.
+ * Disable it per query with `filters: { softDelete: false }`.
+ */
+const softDeleteFilter: FilterDef = {
+  name: SOFT_DELETE_FILTER,
+  cond: (_args, _type, em: EntityManager, _options, entityName) => {
+    const meta = entityName ? em.getMetadata().getByClassName(entityName, false) : undefined;
+
+    return isSoftDeleteEntity(meta?.class) ? { [SOFT_DELETE_FIELD]: null } : {};
+  },
+  args: false,
+  default: true,
+};
+
+/**
+ * Permanently delete rows of a soft-deleting entity that were deleted before the given date.
+ *
+ * @example
+ * // Keep deleted records recoverable for 30 days
+ * await SoftDelete.purgeDeleted({ entityManager, EntityClass: Customer, olderThan: new Date(Date.now() - 30 * 86_400_000) });
+ *
+ * @returns Number of deleted rows
+ */
+const purgeDeleted = ({
+  entityManager,
+  EntityClass,
+  olderThan,
+}: {
+  entityManager: EntityManager;
+  EntityClass: typeof DynamicEntity;
+  olderThan: Date;
+}): Promise<number> =>
+  entityManager.nativeDelete(
+    EntityClass as any,
+    { [SOFT_DELETE_FIELD]: { $lt: olderThan } },
+    { filters: { [SOFT_DELETE_FILTER]: false } },
+  );
+
+export default {
+  SOFT_DELETE_FILTER,
+  SOFT_DELETE_FIELD,
+  isSoftDeleteEntity,
+  softDeleteFilter,
+  purgeDeleted,
+};
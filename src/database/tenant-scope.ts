@@ -0,0 +1,107 @@
+import type { EntityManager, EventArgs, EventSubscriber, FilterDef } from '@mikro-orm/core';
+import { ValidationError } from '../error/framework-errors.js';
+import { getTenantId } from '../request-context/index.js';
+import Tenancy from '../tenancy/tenancy.js';
+import type { DynamicEntity } from './dynamic-entity.js';
+
+/** Name of the global MikroORM filter that scopes tenant entities to the current tenant */
+const TENANT_FILTER = 'tenant';
+
+/** Column holding the tenant of a row */
+const TENANT_FIELD = 'tenantId';
+
+/** Prefix of the tenant schemas with `schema` isolation */
+const DEFAULT_SCHEMA_PREFIX = 'tenant_';
+
+/** Filter matching no rows */
+const NO_ROWS = { [TENANT_FIELD]: { $in: [] } };
+
+/**
+ * Whether the entity opted into tenant scoping (`static tenantScoped = true`).
+ */
+const isTenantEntity = (EntityClass: unknown): boolean =>
+  Boolean((EntityClass as typeof DynamicEntity | undefined)?.tenantScoped);
+
+/**
+ * Global filter limiting queries on tenant entities to rows of the tenant in the request context.
+ * Contexts that require a tenant but have none (see `Tenancy.setTenantRequired()`) match no rows; queries outside of a
+ * request (e.g. maintenance jobs) are not scoped.
+ */
+const tenantFilter: FilterDef = {
+  name: TENANT_FILTER,
+  cond: (_args, _type, em: EntityManager, _options, entityName) => {
+    const meta = entityName ? em.getMetadata().getByClassName(entityName, false) : undefined;
+
+    if (!isTenantEntity(meta?.class)) {
+      return {};
+    }
+
+    const tenantId = getTenantId();
+
+    if (!tenantId) {
+      return Tenancy.isTenantRequired() ? NO_ROWS : {};
+    }
+
+    return { [TENANT_FIELD]: tenantId };
+  },
+  args: false,
+  default: true,
+};
+
+/**
+ * Subscriber setting the tenant of new tenant entities from the request context, overwriting any tenant they were
+ * created with, and rejecting updates that move a tenant entity to another tenant.
+ */
+const tenantSubscriber: EventSubscriber = {
+  /**
+   * @throws ValidationError when the context requires a tenant but has none
+   */
+  beforeCreate: ({ entity, meta }: EventArgs<Record<string, unknown>>): void => {
+    if (!isTenantEntity(meta?.class)) {
+      return;
+    }
+
+    const tenantId = getTenantId();
+
+    if (tenantId) {
+      entity[TENANT_FIELD] = tenantId;
+    } else if (Tenancy.isTenantRequired()) {
+      throw new ValidationError(`A tenant is required to create this entity (Entity: ${meta?.className})`, {
+        context: { entityName: meta?.className },
+      });
+    }
+  },
+
+  /**
+   * @throws ValidationError when the update changes the tenant of the entity
+   */
+  beforeUpdate: ({ meta, changeSet }: EventArgs<Record<string, unknown>>): void => {
+    const tenantId = getTenantId();
+
+    if (tenantId && isTenantEntity(meta?.class) && changeSet && TENANT_FIELD in changeSet.payload) {
+      throw new ValidationError(`The tenant of an entity cannot be changed (Entity: ${meta?.className})`, {
+        context: { entityName: meta?.className, tenantId },
+      });
+    }
+  },
+};
+
+/**
+ * Get the schema of a tenant with `schema` isolation.
+ */
+const getTenantSchema = ({
+  tenantId,
+  schemaPrefix = DEFAULT_SCHEMA_PREFIX,
+}: {
+  tenantId: string;
+  schemaPrefix?: string;
+}): string => `${schemaPrefix}${tenantId}`;
+
+export default {
+  TENANT_FILTER,
+  TENANT_FIELD,
+  isTenantEntity,
+  tenantFilter,
+  tenantSubscriber,
+  getTenantSchema,
+};
@@ -62,11 +62,17 @@ export enum ErrorCode {
   WEB_SERVER_REQUEST_FAILED = 'ERR_WEB_SERVER_REQUEST_FAILED',
   WEB_CONTROLLER_NOT_FOUND = 'ERR_WEB_CONTROLLER_NOT_FOUND',
   WEB_ACTION_NOT_FOUND = 'ERR_WEB_ACTION_NOT_FOUND',
+  WEB_ROUTE_GUARD_REJECTED = 'ERR_WEB_ROUTE_GUARD_REJECTED',
 
   // WebSocket errors (7xxx)
   WEBSOCKET_CONNECTION_FAILED = 'ERR_WEBSOCKET_CONNECTION_FAILED',
   WEBSOCKET_MESSAGE_FAILED = 'ERR_WEBSOCKET_MESSAGE_FAILED',
 
+  // Authentication errors
+  AUTH_TOKEN_INVALID = 'ERR_AUTH_TOKEN_INVALID',
+  AUTH_TOKEN_REVOKED = 'ERR_AUTH_TOKEN_REVOKED',
+  AUTH_TOKEN_REUSED = 'ERR_AUTH_TOKEN_REUSED',
+
   // Validation errors (8xxx)
   VALIDATION_FAILED = 'ERR_VALIDATION_FAILED',
   INVALID_INPUT = 'ERR_INVALID_INPUT',
@@ -142,6 +142,21 @@ export class WebSocketError extends FrameworkError {
   }
 }
 
+/**
+ * Authentication error (invalid, revoked or reused token)
+ */
+export class AuthenticationError extends FrameworkError {
+  constructor(message: string, options?: { code?: ErrorCode; context?: Record<string, unknown>; cause?: unknown }) {
+    super(message, {
+      code: options?.code ?? ErrorCode.AUTH_TOKEN_INVALID,
+      severity: ErrorSeverity.WARNING,
+      context: options?.context,
+      cause: options?.cause,
+    });
+    this.name = 'AuthenticationError';
+  }
+}
+
 /**
  * Lifecycle error
  */
@@ -3,6 +3,7 @@ export { ErrorCode, ErrorSeverity } from './error.interface.js';
 // Export default instance for convenience
 export { default as errorReporter, ErrorReporter, safeSerializeError } from './error-reporter.js';
 export {
+  AuthenticationError,
   ConfigurationError,
   DatabaseError,
   FrameworkError,
@@ -94,9 +94,13 @@ export interface ApplicationEvents {
     timestamp: Date;
     queueId: string;
     jobId: string;
+    jobName: string;
     error: Error;
     attemptsMade: number;
     attemptsRemaining: number;
+
+    /** Dead-letter entry of the job, once it failed all its attempts in a queue with a dead-letter queue */
+    deadLetterEntryId?: string;
   };
 
   // WebSocket events
@@ -129,7 +129,25 @@ export default class EventManager {
     }
   }
 
-  public async run<TPayload = unknown>({ name, data }: { name: string; data: TPayload }): Promise<void> {
+  /**
+   * Whether an event has a handler.
+   */
+  public hasHandler(name: string): boolean {
+    return this.eventHandlers.has(name);
+  }
+
+  /**
+   * Run the handler of an event. Errors are logged, and rethrown with `throwOnError`.
+   */
+  public async run<TPayload = unknown>({
+    name,
+    data,
+    throwOnError = false,
+  }: {
+    name: string;
+    data: TPayload;
+    throwOnError?: boolean;
+  }): Promise<void> {
     try {
       const handler = this.eventHandlers.get(name);
 
@@ -152,6 +170,10 @@ export default class EventManager {
       this.log('Event executed', { Event: name });
     } catch (error) {
       this.logger.error({ error });
+
+      if (throwOnError) {
+        throw error;
+      }
     }
   }
 
@@ -17,9 +17,11 @@ export * from './lifecycle/index.js';
 export * from './logger/index.js';
 export * from './performance/index.js';
 export * from './queue/index.js';
+export * from './rate-limit/index.js';
 export * from './redis/index.js';
 export * from './request-context/index.js';
 export * from './services/index.js';
+export * from './tenancy/index.js';
 export * from './util/index.js';
 export * from './webserver/index.js';
 export * from './websocket/index.js';
@@ -0,0 +1,76 @@
+import type { QueueJobData } from './job.interface.js';
+
+/** States jobs are listed and counted by */
+export const QUEUE_JOB_STATES = [
+  'waiting',
+  'active',
+  'completed',
+  'failed',
+  'delayed',
+  'paused',
+  'prioritized',
+  'waiting-children',
+] as const;
+
+export type QueueJobState = (typeof QUEUE_JOB_STATES)[number];
+
+/** States old jobs can be cleaned from */
+export const QUEUE_CLEAN_STATES = ['completed', 'failed', 'delayed', 'waiting', 'paused', 'prioritized'] as const;
+
+export type QueueCleanState = (typeof QUEUE_CLEAN_STATES)[number];
+
+export interface QueueInfo {
+  /** Queue name */
+  id: string;
+
+  /** Whether the queue is paused (no job is started while paused) */
+  paused: boolean;
+
+  /** Number of jobs by state */
+  counts: Record<QueueJobState, number>;
+
+  /** Number of dead-letter entries, for queues with a dead-letter queue */
+  deadLetterCount?: number;
+}
+
+export interface QueueJobInfo {
+  id: string;
+  name: string;
+  queueId: string;
+  state: QueueJobState | 'unknown';
+  attemptsMade: number;
+  progress: number | object | string | boolean;
+
+  /** When the job was added */
+  createdAt: Date;
+  processedAt?: Date;
+  finishedAt?: Date;
+  failedReason?: string;
+}
+
+export interface QueueJobList {
+  jobs: QueueJobInfo[];
+
+  /** Number of jobs in the state */
+  total: number;
+}
+
+/**
+ * Job with its data, result, stack traces and logs.
+ */
+export interface QueueJobDetail extends QueueJobInfo {
+  data: QueueJobData;
+  result?: unknown;
+
+  /** Stack traces of the failed attempts */
+  stacktrace: string[];
+
+  /** Lines logged with `job.log()` */
+  logs: string[];
+
+  /** Maximum number of attempts */
+  attempts: number;
+
+  /** Delay (ms) of a delayed job */
+  delay?: number;
+}
@@ -0,0 +1,211 @@
+import type { Job, Queue } from 'bullmq';
+import { ErrorCode } from '../error/error.interface.js';
+import { QueueError } from '../error/framework-errors.js';
+import {
+  QUEUE_JOB_STATES,
+  type QueueCleanState,
+  type QueueInfo,
+  type QueueJobDetail,
+  type QueueJobInfo,
+  type QueueJobList,
+  type QueueJobState,
+} from './admin.interface.js';
+
+const DEFAULT_LIST_LIMIT = 20;
+
+const DEFAULT_CLEAN_LIMIT = 1000;
+
+const toJobInfo = ({ job, state }: { job: Job; state: QueueJobInfo['state'] }): QueueJobInfo => ({
+  id: job.id as string,
+  name: job.name,
+  queueId: job.queueName,
+  state,
+  attemptsMade: job.attemptsMade,
+  progress: job.progress,
+  createdAt: new Date(job.timestamp),
+  ...(job.processedOn && { processedAt: new Date(job.processedOn) }),
+  ...(job.finishedOn && { finishedAt: new Date(job.finishedOn) }),
+  ...(job.failedReason && { failedReason: job.failedReason }),
+});
+
+/**
+ * Get the state and job counts of a queue.
+ */
+const getInfo = async ({ queue, deadLetterQueue }: { queue: Queue; deadLetterQueue?: Queue }): Promise<QueueInfo> => {
+  const [paused, counts, deadLetterCount] = await Promise.all([
+    queue.isPaused(),
+    queue.getJobCounts(...QUEUE_JOB_STATES),
+    deadLetterQueue?.getWaitingCount(),
+  ]);
+
+  return {
+    id: queue.name,
+    paused,
+    counts: Object.fromEntries(QUEUE_JOB_STATES.map(state => [state, counts[state] ?? 0])) as QueueInfo['counts'],
+    ...(deadLetterCount !== undefined && { deadLetterCount }),
+  };
+};
+
+/**
+ * List the jobs of a queue in a state, the most recent first.
+ */
+const listJobs = async ({
+  queue,
+  state,
+  offset = 0,
+  limit = DEFAULT_LIST_LIMIT,
+}: {
+  queue: Queue;
+  state: QueueJobState;
+  offset?: number;
+  limit?: number;
+}): Promise<QueueJobList> => {
+  const [jobs, total] = await Promise.all([
+    queue.getJobs([state], offset, offset + limit - 1),
+    queue.getJobCountByTypes(state),
+  ]);
+
+  // Jobs removed while listing are returned as empty entries
+  return { jobs: jobs.filter(Boolean).map(job => toJobInfo({ job: job as Job, state })), total };
+};
+
+/**
+ * @throws QueueError when the queue has no such job
+ */
+const findJob = async ({ queue, jobId }: { queue: Queue; jobId: string }): Promise<Job> => {
+  const job = await queue.getJob(jobId);
+
+  if (!job) {
+    throw new QueueError(`Job not found (Queue ID: ${queue.name} | Job ID: ${jobId})`, {
+      code: ErrorCode.RESOURCE_NOT_FOUND,
+      context: { queueId: queue.name, jobId },
+    });
+  }
+
+  return job;
+};
+
+/**
+ * Get a job of a queue with its data, result, stack traces and logs.
+ *
+ * @throws QueueError when the queue has no such job
+ */
+const getJob = async ({ queue, jobId }: { queue: Queue; jobId: string }): Promise<QueueJobDetail> => {
+  const job = await findJob({ queue, jobId });
+  const [state, { logs }] = await Promise.all([job.getState(), queue.getJobLogs(jobId)]);
+
+  return {
+    ...toJobInfo({ job, state }),
+    data: job.data,
+    ...(state === 'completed' && { result: job.returnvalue }),
+    stacktrace: job.stacktrace ?? [],
+    logs,
+    attempts: job.opts.attempts ?? 1,
+    ...(job.delay && { delay: job.delay }),
+  };
+};
+
+/**
+ * Get a job in a given state.
+ *
+ * @throws QueueError when the queue has no such job, or the job is in another state
+ */
+const findJobInState = async ({
+  queue,
+  jobId,
+  state,
+  action,
+}: {
+  queue: Queue;
+  jobId: string;
+  state: QueueJobState;
+  action: string;
+}): Promise<Job> => {
+  const job = await findJob({ queue, jobId });
+  const currentState = await job.getState();
+
+  if (currentState !== state) {
+    throw new QueueError(
+      `Only ${state} jobs can be ${action} (Queue ID: ${queue.name} | Job ID: ${jobId} | State: ${currentState})`,
+      { code: ErrorCode.INVALID_INPUT, context: { queueId: queue.name, jobId, state: currentState } },
+    );
+  }
+
+  return job;
+};
+
+/**
+ * Retry a failed job.
+ *
+ * @throws QueueError when the queue has no such job, or the job has not failed
+ */
+const retry = async ({ queue, jobId }: { queue: Queue; jobId: string }): Promise<void> => {
+  const job = await findJobInState({ queue, jobId, state: 'failed', action: 'retried' });
+
+  await job.retry('failed');
+};
+
+/**
+ * Run a delayed job now.
+ *
+ * @throws QueueError when the queue has no such job, or the job is not delayed
+ */
+const promote = async ({ queue, jobId }: { queue: Queue; jobId: string }): Promise<void> => {
+  const job = await findJobInState({ queue, jobId, state: 'delayed', action: 'promoted' });
+
+  await job.promote();
+};
+
+/**
+ * Remove a job.
+ *
+ * @throws QueueError when the queue has no such job, or the job is being processed
+ */
+const remove = async ({ queue, jobId }: { queue: Queue; jobId: string }): Promise<void> => {
+  const job = await findJob({ queue, jobId });
+
+  try {
+    await job.remove();
+  } catch (error) {
+    throw new QueueError(`Job could not be removed (Queue ID: ${queue.name} | Job ID: ${jobId})`, {
+      code: ErrorCode.RESOURCE_LOCKED,
+      context: { queueId: queue.name, jobId },
+      cause: error,
+    });
+  }
+};
+
+/**
+ * Remove the waiting jobs of a queue, and its delayed jobs with `delayed`.
+ */
+const drain = async ({ queue, delayed = false }: { queue: Queue; delayed?: boolean }): Promise<void> => {
+  await queue.drain(delayed);
+};
+
+/**
+ * Remove the jobs of a queue in a state that are older than a given age.
+ *
+ * @returns The IDs of the removed jobs
+ */
+const clean = async ({
+  queue,
+  state,
+  olderThanSeconds,
+  limit = DEFAULT_CLEAN_LIMIT,
+}: {
+  queue: Queue;
+  state: QueueCleanState;
+  olderThanSeconds: number;
+  limit?: number;
+}): Promise<string[]> => queue.clean(olderThanSeconds * 1000, limit, state);
+
+export default {
+  getInfo,
+  listJobs,
+  getJob,
+  retry,
+  promote,
+  remove,
+  drain,
+  clean,
+};
@@ -0,0 +1,48 @@
+import type { QueueJobData } from './job.interface.js';
+
+/**
+ * Dead-letter queue of a queue, keeping the jobs that failed all their attempts.
+ */
+export interface QueueDeadLetterOptions {
+  /** Name of the dead-letter queue (default: `<queue>-dead-letter`) */
+  queue?: string;
+}
+
+/** Data of a dead-letter queue job */
+export interface QueueDeadLetterData {
+  /** Queue the job failed in */
+  queueId: string;
+
+  /** ID of the failed job */
+  jobId?: string;
+
+  /** Job name */
+  jobName: string;
+
+  /** Data of the failed job */
+  data: QueueJobData;
+
+  failedReason: string;
+  stacktrace: string[];
+  attemptsMade: number;
+
+  /** Timestamp (ms) of the last failed attempt */
+  failedAt: number;
+}
+
+/**
+ * Job that failed all its attempts, kept in a dead-letter queue until it is replayed or purged.
+ */
+export interface QueueDeadLetterEntry extends Omit<QueueDeadLetterData, 'failedAt'> {
+  /** Entry ID (the ID of the dead-letter queue job) */
+  id: string;
+
+  failedAt: Date;
+}
+
+export interface QueueDeadLetterList {
+  entries: QueueDeadLetterEntry[];
+
+  /** Number of entries in the dead-letter queue */
+  total: number;
+}
@@ -0,0 +1,155 @@
+import type { Job, Queue } from 'bullmq';
+import { ErrorCode } from '../error/error.interface.js';
+import { QueueError } from '../error/framework-errors.js';
+import type {
+  QueueDeadLetterData,
+  QueueDeadLetterEntry,
+  QueueDeadLetterList,
+  QueueDeadLetterOptions,
+} from './dead-letter.interface.js';
+import type { QueueJobData, QueueJobPayload } from './job.interface.js';
+
+const DEFAULT_LIST_LIMIT = 20;
+
+/**
+ * Get the name of the dead-letter queue of a queue.
+ */
+const getQueueName = ({ queueId, options }: { queueId: string; options: boolean | QueueDeadLetterOptions }): string =>
+  (typeof options === 'object' && options.queue) || `${queueId}-dead-letter`;
+
+const toEntry = (job: Job<QueueDeadLetterData>): QueueDeadLetterEntry => ({
+  ...job.data,
+  id: job.id as string,
+  failedAt: new Date(job.data.failedAt),
+});
+
+/**
+ * Move a job that failed all its attempts to a dead-letter queue. Dead-letter queues have no worker, so their
+ * jobs wait until they are replayed or purged.
+ */
+const add = async ({ deadLetterQueue, job }: { deadLetterQueue: Queue; job: Job }): Promise<QueueDeadLetterEntry> => {
+  const data: QueueDeadLetterData = {
+    queueId: job.queueName,
+    ...(job.id && { jobId: job.id }),
+    jobName: job.name,
+    data: job.data,
+    failedReason: job.failedReason,
+    stacktrace: job.stacktrace ?? [],
+    attemptsMade: job.attemptsMade,
+    failedAt: job.finishedOn ?? Date.now(),
+  };
+
+  return toEntry(await deadLetterQueue.add(job.name, data, { removeOnComplete: true, removeOnFail: true }));
+};
+
+/**
+ * List the entries of a dead-letter queue, the most recent first.
+ */
+const list = async ({
+  deadLetterQueue,
+  offset = 0,
+  limit = DEFAULT_LIST_LIMIT,
+}: {
+  deadLetterQueue: Queue;
+  offset?: number;
+  limit?: number;
+}): Promise<QueueDeadLetterList> => {
+  const [jobs, total] = await Promise.all([
+    deadLetterQueue.getWaiting(offset, offset + limit - 1),
+    deadLetterQueue.getWaitingCount(),
+  ]);
+
+  return { entries: jobs.filter(Boolean).map(toEntry), total };
+};
+
+const getJob = async ({
+  deadLetterQueue,
+  entryId,
+}: {
+  deadLetterQueue: Queue;
+  entryId: string;
+}): Promise<Job<QueueDeadLetterData>> => {
+  const job = await deadLetterQueue.getJob(entryId);
+
+  if (!job) {
+    throw new QueueError(`Dead-letter entry not found (Queue ID: ${deadLetterQueue.name} | Entry ID: ${entryId})`, {
+      code: ErrorCode.RESOURCE_NOT_FOUND,
+      context: { queueId: deadLetterQueue.name, entryId },
+    });
+  }
+
+  return job;
+};
+
+/**
+ * Get an entry of a dead-letter queue.
+ *
+ * @throws QueueError when the dead-letter queue has no such entry
+ */
+const get = async ({
+  deadLetterQueue,
+  entryId,
+}: {
+  deadLetterQueue: Queue;
+  entryId: string;
+}): Promise<QueueDeadLetterEntry> => toEntry(await getJob({ deadLetterQueue, entryId }));
+
+/**
+ * Add the job of a dead-letter entry back to its queue, optionally with an edited payload, and remove the entry.
+ * The replayed job is no longer part of the flow it failed in, and with an edited payload no longer a run of its
+ * schedule (whose payload function would replace the payload).
+ *
+ * @throws QueueError when the dead-letter queue has no such entry
+ */
+const replay = async ({
+  deadLetterQueue,
+  queue,
+  entryId,
+  payload,
+}: {
+  deadLetterQueue: Queue;
+  queue: Queue;
+  entryId: string;
+  payload?: QueueJobPayload;
+}): Promise<Job> => {
+  const entryJob = await getJob({ deadLetterQueue, entryId });
+  const { startTime: _startTime, flow: _flow, scheduleId, ...data }: QueueJobData = entryJob.data.data;
+
+  const job = await queue.add(
+    entryJob.data.jobName,
+    payload ? { ...data, payload } : { ...data, ...(scheduleId && { scheduleId }) },
+  );
+
+  await entryJob.remove();
+
+  return job;
+};
+
+/**
+ * Remove an entry of a dead-letter queue, or all its entries.
+ *
+ * @returns The number of removed entries
+ * @throws QueueError when the dead-letter queue has no such entry
+ */
+const purge = async ({ deadLetterQueue, entryId }: { deadLetterQueue: Queue; entryId?: string }): Promise<number> => {
+  if (entryId) {
+    await (await getJob({ deadLetterQueue, entryId })).remove();
+
+    return 1;
+  }
+
+  const count = await deadLetterQueue.getWaitingCount();
+
+  await deadLetterQueue.drain();
+
+  return count;
+};
+
+export default {
+  getQueueName,
+  add,
+  list,
+  get,
+  replay,
+  purge,
+};
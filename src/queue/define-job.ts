@@ -0,0 +1,70 @@
+import type { z } from 'zod';
+import type { QueueJobData, QueueJobDefinition, QueueJobPayload } from './job.interface.js';
+import type QueueManager from './manager.js';
+import type { ProcessorConstructor } from './processor/processor.interface.js';
+import type { QueueJobSchedule } from './scheduler.interface.js';
+
+export interface DefineJobConfig<
+  TQueue extends string,
+  TName extends string,
+  TPayloadSchema extends z.ZodType<QueueJobPayload>,
+  TResultSchema extends z.ZodType,
+> {
+  /** Name of the queue the job is added to */
+  queue: TQueue;
+
+  /** Job name */
+  name: TName;
+
+  /** Payload schema, validated when the job is added and again before it is processed */
+  payload: TPayloadSchema;
+
+  /** Result schema (types the processor result) */
+  result?: TResultSchema;
+
+  /** Processor class, receiving the parsed payload */
+  processor: ProcessorConstructor<QueueManager, QueueJobData<z.output<TPayloadSchema>>, z.output<TResultSchema>>;
+
+  /** The maximum number of concurrent jobs in queue */
+  maxConcurrency?: number;
+
+  /** Recurring schedule, with a payload matching the payload schema */
+  schedule?: QueueJobSchedule<Extract<z.input<TPayloadSchema>, QueueJobPayload>>;
+}
+
+/**
+ * Define a queue job with a typed, validated payload. Add the definition to the `jobs` of its queue.
+ *
+ * @example
+ * export const sendEmailJob = defineJob({
+ *   queue: 'emails',
+ *   name: 'send-email',
+ *   payload: z.object({ to: z.email(), subject: z.string() }),
+ *   result: z.object({ messageId: z.string() }),
+ *   processor: SendEmailProcessor,
+ * });
+ *
+ * await queueManager.addJobToQueue({
+ *   queueId: 'emails',
+ *   jobId: 'send-email',
+ *   data: { payload: { to: 'user@example.com', subject: 'Welcome' } },
+ * });
+ */
+export function defineJob<
+  TQueue extends string,
+  TName extends string,
+  TPayloadSchema extends z.ZodType<QueueJobPayload>,
+  TResultSchema extends z.ZodType = z.ZodUnknown,
+>(
+  config: DefineJobConfig<TQueue, TName, TPayloadSchema, TResultSchema>,
+): QueueJobDefinition<TQueue, TName, TPayloadSchema, TResultSchema> {
+  return {
+    id: config.name,
+    queue: config.queue,
+    payload: config.payload,
+    processor: config.processor,
+    ...(config.result ? { result: config.result } : {}),
+    ...(config.maxConcurrency !== undefined ? { maxConcurrency: config.maxConcurrency } : {}),
+    ...(config.schedule ? { schedule: config.schedule as QueueJobSchedule } : {}),
+  };
+}
@@ -0,0 +1,99 @@
+import type { JobState, JobsOptions } from 'bullmq';
+import type { QueueJobData } from './job.interface.js';
+
+/**
+ * What a failed step does to the step depending on it (its parent):
+ * - `fail`: the parent fails, and with it the flow
+ * - `ignore`: the parent runs once its other children complete
+ * - `compensate`: the parent fails, and the compensation jobs of completed steps are added
+ */
+export type QueueFlowFailurePolicy = 'fail' | 'ignore' | 'compensate';
+
+/**
+ * Job added to undo a completed step when a flow with the `compensate` policy fails.
+ */
+export interface QueueFlowCompensation {
+  queueId: string;
+  jobId: string;
+  data: QueueJobData;
+}
+
+/**
+ * Job of a flow.
+ */
+export interface QueueFlowStep {
+  /** Queue the job is added to */
+  queueId: string;
+
+  /** Job name */
+  jobId: string;
+
+  data: QueueJobData;
+
+  /** BullMQ job options */
+  options?: Omit<JobsOptions, 'parent' | 'repeat'>;
+
+  /** Failure policy of the step (default: the failure policy of the flow) */
+  onFailure?: QueueFlowFailurePolicy;
+
+  /** Job undoing the step, added when the flow fails with the `compensate` policy after the step completed */
+  compensate?: QueueFlowCompensation;
+}
+
+/**
+ * Job of a flow with the jobs it depends on. Children run before their parent, which receives their results.
+ */
+export interface QueueFlowNode extends QueueFlowStep {
+  children?: QueueFlowNode[];
+}
+
+/** Flow reference stored in the data of its jobs */
+export interface QueueJobFlowData {
+  /** Flow ID (the ID of the root job) */
+  id: string;
+
+  /** Queue of the root job */
+  queueId: string;
+
+  onFailure: QueueFlowFailurePolicy;
+  compensate?: QueueFlowCompensation;
+}
+
+/**
+ * Flow added to the queues.
+ */
+export interface QueueFlow {
+  /** Flow ID (the ID of the root job) */
+  id: string;
+
+  /** Queue of the root job */
+  queueId: string;
+}
+
+/** Overall state of a flow */
+export type QueueFlowState = 'waiting' | 'active' | 'completed' | 'failed';
+
+export interface QueueFlowJobStatus {
+  id: string;
+  queueId: string;
+  name: string;
+  state: JobState | 'unknown';
+  result?: unknown;
+  failedReason?: string;
+
+  /** ID of the job depending on this job */
+  parentId?: string;
+}
+
+export interface QueueFlowStatus extends QueueFlow {
+  state: QueueFlowState;
+
+  /** Jobs of the flow, parents before their children */
+  jobs: QueueFlowJobStatus[];
+
+  progress: {
+    total: number;
+    completed: number;
+    failed: number;
+  };
+}
@@ -0,0 +1,246 @@
+import type { FlowChildJob, FlowJob, JobNode, JobsOptions, Queue } from 'bullmq';
+import { ErrorCode } from '../error/error.interface.js';
+import { QueueError } from '../error/framework-errors.js';
+import type {
+  QueueFlow,
+  QueueFlowCompensation,
+  QueueFlowFailurePolicy,
+  QueueFlowJobStatus,
+  QueueFlowNode,
+  QueueFlowState,
+  QueueFlowStatus,
+  QueueFlowStep,
+  QueueJobFlowData,
+} from './flow.interface.js';
+
+/** Flow jobs are kept after finishing, so the status of the flow can be queried and failures compensated */
+const FLOW_JOB_RETENTION: Pick<JobsOptions, 'removeOnComplete' | 'removeOnFail'> = {
+  removeOnComplete: { age: 24 * 60 * 60 },
+  removeOnFail: { age: 7 * 24 * 60 * 60 },
+};
+
+/** Limits of the job tree read from Redis */
+const FLOW_TREE_DEPTH = 100;
+const FLOW_TREE_MAX_CHILDREN = 1000;
+
+const COMPENSATION_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/** Options of child jobs, by failure policy */
+const FAILURE_POLICY_OPTIONS: Record<QueueFlowFailurePolicy, JobsOptions> = {
+  fail: { failParentOnFailure: true },
+  ignore: { ignoreDependencyOnFailure: true },
+  compensate: { failParentOnFailure: true },
+};
+
+/**
+ * Build a flow running steps one after another, each step receiving the result of the previous one.
+ *
+ * @throws QueueError when there are no steps
+ */
+const chain = (steps: QueueFlowStep[]): QueueFlowNode => {
+  if (steps.length === 0) {
+    throw new QueueError('Flow chain requires at least one step');
+  }
+
+  return steps.reduce<QueueFlowNode | undefined>(
+    (previous, step) => ({ ...step, ...(previous && { children: [previous] }) }),
+    undefined,
+  ) as QueueFlowNode;
+};
+
+/**
+ * Build a flow running steps in parallel, then the join step receiving their results.
+ *
+ * @throws QueueError when there are no steps
+ */
+const group = ({ steps, join }: { steps: QueueFlowNode[]; join: QueueFlowStep }): QueueFlowNode => {
+  if (steps.length === 0) {
+    throw new QueueError('Flow group requires at least one step');
+  }
+
+  return { ...join, children: steps };
+};
+
+/**
+ * Visit the nodes of a flow, parents before their children.
+ */
+const forEachNode = (node: QueueFlowNode, callback: (node: QueueFlowNode) => void): void => {
+  callback(node);
+
+  for (const child of node.children ?? []) {
+    forEachNode(child, callback);
+  }
+};
+
+/**
+ * Convert a flow to a BullMQ flow job. The root job gets the flow ID as job ID, and every job references the flow.
+ */
+const toFlowJob = ({
+  node,
+  flow,
+  onFailure,
+  tenantId,
+}: {
+  node: QueueFlowNode;
+  flow: QueueFlow;
+  onFailure: QueueFlowFailurePolicy;
+  tenantId?: string;
+}): FlowJob => {
+  const toJob = (current: QueueFlowNode, isRoot: boolean): FlowChildJob => {
+    const policy = current.onFailure ?? onFailure;
+    const flowData: QueueJobFlowData = {
+      id: flow.id,
+      queueId: flow.queueId,
+      onFailure: policy,
+      ...(current.compensate && { compensate: current.compensate }),
+    };
+
+    return {
+      name: current.jobId,
+      queueName: current.queueId,
+      data: { ...current.data, ...(tenantId && { tenantId: current.data.tenantId ?? tenantId }), flow: flowData },
+      opts: {
+        ...current.options,
+        ...(isRoot ? { jobId: flow.id } : FAILURE_POLICY_OPTIONS[policy]),
+      },
+      ...(current.children?.length && { children: current.children.map(child => toJob(child, false)) }),
+    };
+  };
+
+  return toJob(node, true);
+};
+
+/**
+ * Get the BullMQ options of the queues of a flow, keeping finished flow jobs.
+ */
+const getQueuesOptions = (queues: Queue[]): Record<string, { defaultJobOptions: JobsOptions }> =>
+  Object.fromEntries(
+    queues.map(queue => [queue.name, { defaultJobOptions: { ...queue.defaultJobOptions, ...FLOW_JOB_RETENTION } }]),
+  );
+
+const getTreeOptions = (flow: QueueFlow) => ({
+  id: flow.id,
+  queueName: flow.queueId,
+  depth: FLOW_TREE_DEPTH,
+  maxChildren: FLOW_TREE_MAX_CHILDREN,
+});
+
+/**
+ * List the jobs of a flow tree with their state, parents before their children.
+ */
+const getJobStatuses = async (node: JobNode, parentId?: string): Promise<QueueFlowJobStatus[]> => {
+  const { job } = node;
+
+  if (!job?.id) {
+    return [];
+  }
+
+  const state = await job.getState();
+  const children = await Promise.all((node.children ?? []).map(child => getJobStatuses(child, job.id)));
+
+  return [
+    {
+      id: job.id,
+      queueId: job.queueName,
+      name: job.name,
+      state,
+      ...(state === 'completed' && { result: job.returnvalue }),
+      ...(job.failedReason && { failedReason: job.failedReason }),
+      ...(parentId && { parentId }),
+    },
+    ...children.flat(),
+  ];
+};
+
+const getFlowState = (jobs: QueueFlowJobStatus[]): QueueFlowState => {
+  const [root] = jobs;
+
+  if (root.state === 'completed' || root.state === 'failed' || root.state === 'active') {
+    return root.state;
+  }
+
+  return jobs.some(job => job.state === 'active' || job.state === 'completed') ? 'active' : 'waiting';
+};
+
+/**
+ * Get the overall status of a flow from its job tree.
+ *
+ * @throws QueueError when the flow does not exist (or its jobs were removed)
+ */
+const getStatus = async ({ flow, tree }: { flow: QueueFlow; tree?: JobNode }): Promise<QueueFlowStatus> => {
+  const jobs = tree ? await getJobStatuses(tree) : [];
+
+  if (jobs.length === 0) {
+    throw new QueueError(`Flow not found (Queue ID: ${flow.queueId} | Flow ID: ${flow.id})`, {
+      code: ErrorCode.RESOURCE_NOT_FOUND,
+      context: { queueId: flow.queueId, flowId: flow.id },
+    });
+  }
+
+  return {
+    ...flow,
+    state: getFlowState(jobs),
+    jobs,
+    progress: {
+      total: jobs.length,
+      completed: jobs.filter(job => job.state === 'completed').length,
+      failed: jobs.filter(job => job.state === 'failed').length,
+    },
+  };
+};
+
+/**
+ * Get the compensation jobs of the completed steps of a flow tree, the last completed step first.
+ */
+const getCompensations = async (tree: JobNode | undefined): Promise<QueueFlowCompensation[]> => {
+  const completed: { finishedOn: number; compensation: QueueFlowCompensation }[] = [];
+
+  const visit = async (node: JobNode): Promise<void> => {
+    const compensation = (node.job?.data?.flow as QueueJobFlowData | undefined)?.compensate;
+
+    if (compensation && (await node.job.getState()) === 'completed') {
+      completed.push({ finishedOn: node.job.finishedOn ?? 0, compensation });
+    }
+
+    for (const child of node.children ?? []) {
+      await visit(child);
+    }
+  };
+
+  if (tree) {
+    await visit(tree);
+  }
+
+  return completed.sort((a, b) => b.finishedOn - a.finishedOn).map(({ compensation }) => compensation);
+};
+
+/**
+ * Mark a flow as compensated, so that its compensation jobs are added once when several of its steps fail.
+ *
+ * @returns Whether the flow was not compensated yet
+ */
+const claimCompensation = async ({ queue, flowId }: { queue: Queue; flowId: string }): Promise<boolean> => {
+  const client = await queue.client;
+
+  const result = await client.set(
+    queue.toKey(`flows:compensated:${flowId}`),
+    '1',
+    'EX',
+    COMPENSATION_TTL_SECONDS,
+    'NX',
+  );
+
+  return result === 'OK';
+};
+
+export default {
+  chain,
+  group,
+  forEachNode,
+  toFlowJob,
+  getQueuesOptions,
+  getTreeOptions,
+  getStatus,
+  getCompensations,
+  claimCompensation,
+};
@@ -1,4 +1,5 @@
 import type { QueueOptions, WorkerOptions } from 'bullmq';
+import type { QueueDeadLetterOptions } from './dead-letter.interface.js';
 import type { QueueJob } from './job.interface.js';
 
 /** Runtime settings applied to the BullMQ Worker for this queue */
@@ -35,4 +36,10 @@ export interface QueueItem {
    * be overridden or extended here.
    */
   defaultJobOptions?: QueueOptions['defaultJobOptions'];
+
+  /**
+   * Move jobs that failed all their attempts to a dead-letter queue, to inspect and replay them
+   * (`true` uses the default dead-letter queue name, `<queue>-dead-letter`).
+   */
+  deadLetter?: boolean | QueueDeadLetterOptions;
 }
@@ -1,5 +1,36 @@
+export type {
+  QueueDeadLetterData,
+  QueueDeadLetterEntry,
+  QueueDeadLetterList,
+  QueueDeadLetterOptions,
+} from './dead-letter.interface.js';
+export { default as QueueDeadLetter } from './dead-letter.js';
+export { type DefineJobConfig, defineJob } from './define-job.js';
+export type {
+  QueueFlow,
+  QueueFlowCompensation,
+  QueueFlowFailurePolicy,
+  QueueFlowJobStatus,
+  QueueFlowNode,
+  QueueFlowState,
+  QueueFlowStatus,
+  QueueFlowStep,
+  QueueJobFlowData,
+} from './flow.interface.js';
 export type { QueueItem } from './index.interface.js';
-export type { QueueJob, QueueJobData, QueueJobPayload } from './job.interface.js';
+export type {
+  QueueJob,
+  QueueJobData,
+  QueueJobDefinition,
+  QueueJobName,
+  QueueJobPayload,
+  QueueJobPayloadOf,
+  QueueJobRegistry,
+  QueueJobRegistryOf,
+  QueueJobResultOf,
+} from './job.interface.js';
 export { default as QueueManager } from './manager.js';
 export { default as BaseProcessor } from './processor/base.js';
 export type { ProcessorConstructor, ProcessorConstructorParams } from './processor/processor.interface.js';
+export type { QueueJobSchedule, QueueJobScheduleOverlap, QueueScheduleInfo } from './scheduler.interface.js';
+export { default as QueueScheduler } from './scheduler.js';
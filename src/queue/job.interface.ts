@@ -1,3 +1,8 @@
+import type { z } from 'zod';
+import type { QueueJobFlowData } from './flow.interface.js';
+import type { ProcessorConstructor } from './processor/processor.interface.js';
+import type { QueueJobSchedule } from './scheduler.interface.js';
+
 export type QueueJobPayload = Record<string, unknown>;
 
 export interface QueueJob {
@@ -6,8 +11,83 @@ export interface QueueJob {
 
   /** The maximum number of concurrent jobs in queue */
   maxConcurrency?: number;
+
+  /** Payload schema, validated when the job is added and again before it is processed */
+  payload?: z.ZodType<QueueJobPayload>;
+
+  /** Result schema (types the processor result) */
+  result?: z.ZodType;
+
+  /** Processor class, instead of the class exported from the processors directory under the job ID */
+  processor?: ProcessorConstructor<any, any, any>;
+
+  /** Recurring schedule, registered when the queue is registered */
+  schedule?: QueueJobSchedule;
 }
 
+/**
+ * Job defined with `defineJob`.
+ */
+export interface QueueJobDefinition<
+  TQueue extends string = string,
+  TName extends string = string,
+  TPayloadSchema extends z.ZodType<QueueJobPayload> = z.ZodType<QueueJobPayload>,
+  TResultSchema extends z.ZodType = z.ZodType,
+> extends QueueJob {
+  /** Job name */
+  id: TName;
+
+  /** Name of the queue the job is added to */
+  queue: TQueue;
+
+  payload: TPayloadSchema;
+  result?: TResultSchema;
+}
+
+/**
+ * Jobs defined with `defineJob`, by queue and job name. Augment it to type the queue and job names and the payload
+ * of `QueueManager.addJobToQueue`:
+ *
+ * @example
+ * declare module '@scpxl/nodejs-framework/queue' {
+ *   interface QueueJobRegistry extends QueueJobRegistryOf<typeof sendEmailJob | typeof resizeImageJob> {}
+ * }
+ */
+// biome-ignore lint/suspicious/noEmptyInterface: augmented by applications
+export interface QueueJobRegistry {}
+
+/**
+ * Registry of job definitions, by queue and job name.
+ */
+export type QueueJobRegistryOf<TJob extends QueueJobDefinition<string, string, any, any>> = {
+  [TQueue in TJob['queue']]: {
+    [TName in Extract<TJob, { queue: TQueue }>['id']]: Extract<TJob, { queue: TQueue; id: TName }>;
+  };
+};
+
+type RegisteredJob<TQueueId extends string, TName extends string> = TQueueId extends keyof QueueJobRegistry
+  ? TName extends keyof QueueJobRegistry[TQueueId]
+    ? QueueJobRegistry[TQueueId][TName]
+    : never
+  : undefined;
+
+/** Job names of a registered queue (any name for other queues) */
+export type QueueJobName<TQueueId extends string> = TQueueId extends keyof QueueJobRegistry
+  ? Extract<keyof QueueJobRegistry[TQueueId], string>
+  : string;
+
+/** Payload accepted by a registered job (`TPayload` for other jobs) */
+export type QueueJobPayloadOf<TQueueId extends string, TName extends string, TPayload extends QueueJobPayload> =
+  RegisteredJob<TQueueId, TName> extends QueueJobDefinition<string, string, infer TPayloadSchema, any>
+    ? Extract<z.input<TPayloadSchema>, QueueJobPayload>
+    : TPayload;
+
+/** Result of a registered job (`TResult` for other jobs) */
+export type QueueJobResultOf<TQueueId extends string, TName extends string, TResult> =
+  RegisteredJob<TQueueId, TName> extends QueueJobDefinition<string, string, any, infer TResultSchema>
+    ? z.output<TResultSchema>
+    : TResult;
+
 export interface QueueJobData<
   TPayload extends QueueJobPayload = QueueJobPayload,
   TMetadata extends Record<string, unknown> = Record<string, unknown>,
@@ -39,6 +119,15 @@ export interface QueueJobData<
   /** User ID associated with the job */
   userId?: string;
 
+  /** Tenant ID associated with the job (defaults to the tenant of the context the job is added in) */
+  tenantId?: string;
+
+  /** ID of the schedule that created the job */
+  scheduleId?: string;
+
+  /** Flow of the job, for jobs added with a flow */
+  flow?: QueueJobFlowData;
+
   /** Custom metadata for the job */
   metadata?: TMetadata;
 
@@ -1,16 +1,43 @@
+import { randomUUID } from 'node:crypto';
 import path from 'node:path';
-import { type Job, Queue, type QueueOptions, type WorkerOptions } from 'bullmq';
+import { FlowProducer, type Job, type JobsOptions, Queue, type QueueOptions, type WorkerOptions } from 'bullmq';
 import type { ApplicationConfig } from '../application/base-application.interface.js';
 import type { DatabaseInstance } from '../database/index.js';
+import { ErrorCode } from '../error/error.interface.js';
+import { QueueError, ValidationError } from '../error/framework-errors.js';
+import type { ApplicationEvents } from '../event/manager.interface.js';
 import type EventManager from '../event/manager.js';
 import { Logger } from '../logger/index.js';
 import type { RedisInstance } from '../redis/index.js';
+import { getTenantId, runWithContextAsync } from '../request-context/index.js';
 import { File, Helper, Loader, Time } from '../util/index.js';
+import type { QueueCleanState, QueueInfo, QueueJobDetail, QueueJobList, QueueJobState } from './admin.interface.js';
+import QueueAdmin from './admin.js';
+import type { QueueDeadLetterEntry, QueueDeadLetterList } from './dead-letter.interface.js';
+import DeadLetter from './dead-letter.js';
+import type {
+  QueueFlow,
+  QueueFlowFailurePolicy,
+  QueueFlowNode,
+  QueueFlowStatus,
+  QueueFlowStep,
+  QueueJobFlowData,
+} from './flow.interface.js';
+import Flow from './flow.js';
 import type { QueueItem } from './index.interface.js';
-import type { QueueJob, QueueJobData, QueueJobPayload } from './job.interface.js';
+import type {
+  QueueJob,
+  QueueJobData,
+  QueueJobName,
+  QueueJobPayload,
+  QueueJobPayloadOf,
+  QueueJobResultOf,
+} from './job.interface.js';
 import type { QueueManagerConstructorParams, QueueManagerOptions } from './manager.interface.js';
 import type BaseProcessor from './processor/base.js';
 import type { ProcessorConstructor } from './processor/processor.interface.js';
+import type { QueueJobSchedule, QueueScheduleInfo } from './scheduler.interface.js';
+import Scheduler from './scheduler.js';
 import QueueWorker from './worker.js';
 
 export interface JobSummary {
@@ -39,6 +66,15 @@ export default class QueueManager {
 
   private jobProcessors: Map<string, BaseProcessor> = new Map();
 
+  /** Jobs of each queue, by job ID */
+  private queueJobs: Map<string, Map<string, QueueJob>> = new Map();
+
+  /** Dead-letter queues, by the name of the queue they belong to */
+  private deadLetterQueues: Map<string, Queue> = new Map();
+
+  /** Producer of job flows, created when the first flow is added */
+  private flowProducer?: FlowProducer;
+
   constructor({
     applicationConfig,
     options,
@@ -70,20 +106,27 @@ export default class QueueManager {
     // Check if processors directory exists
     const processorsDirectoryExists = await File.pathExists(this.options.processorsDirectory);
 
-    if (!processorsDirectoryExists) {
+    // Jobs defined with defineJob bring their own processor
+    const hasJobProcessors = queues.some(queue => queue.jobs?.some(job => job.processor));
+
+    if (!processorsDirectoryExists && !hasJobProcessors) {
       return;
     }
 
     try {
-      const jobProcessorClasses = await Loader.loadModulesInDirectory<ProcessorConstructor>({
-        directory: this.options.processorsDirectory,
-        extensions: ['.ts', '.js'],
-      });
+      const jobProcessorClasses = processorsDirectoryExists
+        ? await Loader.loadModulesInDirectory<ProcessorConstructor>({
+            directory: this.options.processorsDirectory,
+            extensions: ['.ts', '.js'],
+          })
+        : {};
 
       for (const queue of queues) {
         this.registerQueue({ queue, jobProcessorClasses });
       }
 
+      await this.reconcileSchedules({ queues });
+
       if (this.applicationConfig.queue.log?.queuesRegistered) {
         this.log('Registered queue', {
           'Queue Count': queues.length,
@@ -152,6 +195,16 @@ export default class QueueManager {
 
     this.queues.set(queue.name, queueInstance);
 
+    if (queue.deadLetter) {
+      const deadLetterQueue = new Queue(DeadLetter.getQueueName({ queueId: queue.name, options: queue.deadLetter }), {
+        connection: this.redisInstance.client as any,
+      });
+
+      deadLetterQueue.on('error', this.onQueueError);
+
+      this.deadLetterQueues.set(queue.name, deadLetterQueue);
+    }
+
     if (this.applicationConfig.queue.log?.queueRegistered) {
       this.log('Registered queue', {
         Name: queue.name,
@@ -181,10 +234,19 @@ export default class QueueManager {
     }
 
     const scriptFileExtension = Helper.getScriptFileExtension();
+    const queueJobs = new Map<string, QueueJob>();
 
     for (const job of jobs) {
+      if ('queue' in job && job.queue !== queue.name) {
+        throw new QueueError(`Job is defined for another queue (Job ID: ${job.id} | Queue: ${job.queue})`, {
+          context: { queue: queue.name, jobQueue: job.queue, jobId: job.id },
+        });
+      }
+
+      queueJobs.set(job.id, job);
+
       if (!queue.isExternal) {
-        const ProcessorClass = jobProcessorClasses[job.id];
+        const ProcessorClass = job.processor ?? jobProcessorClasses[job.id];
 
         if (!ProcessorClass) {
           const jobPath = path.join(this.options.processorsDirectory, `${job.id}.${scriptFileExtension}`);
@@ -207,6 +269,39 @@ export default class QueueManager {
         this.log('Job registered', { ID: job.id });
       }
     }
+
+    this.queueJobs.set(queue.name, queueJobs);
+  }
+
+  /**
+   * Register the job schedules of the application's queues, removing schedules no longer declared.
+   * External queues are left to the application processing them.
+   *
+   * @throws ValidationError when a schedule payload does not match the job's payload schema
+   */
+  private async reconcileSchedules({ queues }: { queues: QueueItem[] }): Promise<void> {
+    for (const queueItem of queues) {
+      const queue = this.queues.get(queueItem.name);
+
+      if (!queue || queueItem.isExternal) {
+        continue;
+      }
+
+      for (const job of queueItem.jobs) {
+        if (job.payload && job.schedule?.payload && typeof job.schedule.payload !== 'function') {
+          this.parsePayload({ job, queueId: queueItem.name, payload: job.schedule.payload });
+        }
+      }
+
+      const reconciled = await Scheduler.reconcile({ queue, jobs: queueItem.jobs });
+
+      if (reconciled && this.applicationConfig.queue.log?.schedulesReconciled) {
+        this.log('Schedules reconciled', {
+          Queue: queueItem.name,
+          'Schedule Count': queueItem.jobs.filter(job => job.schedule).length,
+        });
+      }
+    }
   }
 
   private onQueueError = (error: Error): void => {
@@ -230,32 +325,50 @@ export default class QueueManager {
     this.log('Removed queue', { Job: jobId });
   };
 
+  /**
+   * Add a job to a queue. Payloads of jobs defined with `defineJob` are validated, and typed through `QueueJobRegistry`.
+   *
+   * @throws QueueError when the queue is not registered or the job is not one of its jobs
+   * @throws ValidationError when the payload does not match the job's payload schema
+   */
   public addJobToQueue = async <
     TPayload extends QueueJobPayload = QueueJobPayload,
     TMetadata extends Record<string, unknown> = Record<string, unknown>,
     TResult = unknown,
     TName extends string = string,
+    TQueueId extends string = string,
   >({
     queueId,
     jobId,
     data,
+    options,
   }: {
-    queueId: string;
-    jobId: TName;
-    data: QueueJobData<TPayload, TMetadata>;
-  }): Promise<Job<QueueJobData<TPayload, TMetadata>, TResult, TName> | undefined> => {
-    const queue = this.queues.get(queueId);
-
-    if (!queue) {
-      this.log('Queue not found', { 'Queue ID': queueId });
-
-      return;
-    }
-
-    const job = (await queue.add(jobId, data)) as Job<QueueJobData<TPayload, TMetadata>, TResult, TName>;
+    queueId: TQueueId;
+    jobId: TName & QueueJobName<TQueueId>;
+    data: QueueJobData<QueueJobPayloadOf<TQueueId, TName, TPayload>, TMetadata>;
+    /** BullMQ job options, e.g. a custom `jobId` to deduplicate jobs */
+    options?: JobsOptions;
+  }): Promise<
+    Job<
+      QueueJobData<QueueJobPayloadOf<TQueueId, TName, TPayload>, TMetadata>,
+      QueueJobResultOf<TQueueId, TName, TResult>,
+      TName
+    >
+  > => {
+    const queue = this.validateJob({ queueId, jobId, payload: data.payload });
+
+    // Carry the tenant into the job, so it is processed in the same tenant
+    const tenantId = data.tenantId ?? getTenantId();
+    const jobData = tenantId ? { ...data, tenantId } : data;
+
+    const addedJob = (await queue.add(jobId, jobData, options)) as Job<
+      QueueJobData<QueueJobPayloadOf<TQueueId, TName, TPayload>, TMetadata>,
+      QueueJobResultOf<TQueueId, TName, TResult>,
+      TName
+    >;
 
     if (this.applicationConfig.queue.log?.jobAdded) {
-      const dataStr = JSON.stringify(data);
+      const dataStr = JSON.stringify(jobData);
       const maxLogDataStrLength = 50;
       const truncatedLogDataStr =
         dataStr.length > maxLogDataStrLength ? `${dataStr.substring(0, maxLogDataStrLength)}...` : dataStr;
@@ -267,14 +380,314 @@ export default class QueueManager {
       });
     }
 
-    return job;
+    return addedJob;
   };
 
+  /**
+   * Check that a job can be added to a queue.
+   *
+   * @throws QueueError when the queue is not registered or the job is not one of its jobs
+   * @throws ValidationError when the payload does not match the job's payload schema
+   */
+  private validateJob({ queueId, jobId, payload }: { queueId: string; jobId: string; payload: unknown }): Queue {
+    const queue = this.queues.get(queueId);
+
+    if (!queue) {
+      throw new QueueError(`Queue not found (Queue ID: ${queueId})`, {
+        code: ErrorCode.RESOURCE_NOT_FOUND,
+        context: { queueId, jobId },
+      });
+    }
+
+    const job = this.queueJobs.get(queueId)?.get(jobId);
+
+    if (this.queueJobs.has(queueId) && !job) {
+      throw new QueueError(`Job not found in queue (Queue ID: ${queueId} | Job ID: ${jobId})`, {
+        code: ErrorCode.RESOURCE_NOT_FOUND,
+        context: { queueId, jobId },
+      });
+    }
+
+    if (job?.payload) {
+      this.parsePayload({ job, queueId, payload });
+    }
+
+    return queue;
+  }
+
+  /**
+   * Add a flow of jobs, where children run before their parent and the parent receives their results
+   * (`job.getChildrenValues()`). Failed children fail their parent by default (`onFailure`).
+   *
+   * @returns The flow, to query its status with `getFlowStatus`
+   * @throws QueueError when a queue is not registered or a job is not one of its jobs
+   * @throws ValidationError when a payload does not match the job's payload schema
+   */
+  public addFlow = async ({
+    flow,
+    onFailure = 'fail',
+  }: {
+    flow: QueueFlowNode;
+
+    /** Failure policy of steps that do not set one */
+    onFailure?: QueueFlowFailurePolicy;
+  }): Promise<QueueFlow> => {
+    const queues = new Map<string, Queue>();
+
+    Flow.forEachNode(flow, node => {
+      queues.set(
+        node.queueId,
+        this.validateJob({ queueId: node.queueId, jobId: node.jobId, payload: node.data.payload }),
+      );
+
+      if (node.compensate) {
+        const { queueId, jobId, data } = node.compensate;
+
+        queues.set(queueId, this.validateJob({ queueId, jobId, payload: data.payload }));
+      }
+    });
+
+    const queueFlow: QueueFlow = { id: randomUUID(), queueId: flow.queueId };
+
+    await this.getFlowProducer().add(
+      Flow.toFlowJob({ node: flow, flow: queueFlow, onFailure, tenantId: getTenantId() }),
+      {
+        queuesOptions: Flow.getQueuesOptions([...queues.values()]),
+      },
+    );
+
+    if (this.applicationConfig.queue.log?.jobAdded) {
+      this.log('Flow added', { Queue: queueFlow.queueId, 'Flow ID': queueFlow.id, 'Job ID': flow.jobId });
+    }
+
+    return queueFlow;
+  };
+
+  /**
+   * Add a flow running steps one after another, each step receiving the result of the previous one.
+   *
+   * @throws QueueError when there are no steps, a queue is not registered or a job is not one of its jobs
+   * @throws ValidationError when a payload does not match the job's payload schema
+   */
+  public addChain = async ({
+    steps,
+    onFailure,
+  }: {
+    steps: QueueFlowStep[];
+    onFailure?: QueueFlowFailurePolicy;
+  }): Promise<QueueFlow> => this.addFlow({ flow: Flow.chain(steps), onFailure });
+
+  /**
+   * Add a flow running steps in parallel (fan-out), then the join step receiving their results (fan-in).
+   *
+   * @throws QueueError when there are no steps, a queue is not registered or a job is not one of its jobs
+   * @throws ValidationError when a payload does not match the job's payload schema
+   */
+  public addGroup = async ({
+    steps,
+    join,
+    onFailure,
+  }: {
+    steps: QueueFlowNode[];
+    join: QueueFlowStep;
+    onFailure?: QueueFlowFailurePolicy;
+  }): Promise<QueueFlow> => this.addFlow({ flow: Flow.group({ steps, join }), onFailure });
+
+  /**
+   * Get the overall status of a flow and the state of its jobs.
+   *
+   * @throws QueueError when the flow does not exist (or its jobs were removed)
+   */
+  public async getFlowStatus(flow: QueueFlow): Promise<QueueFlowStatus> {
+    const tree = await this.getFlowProducer().getFlow(Flow.getTreeOptions(flow));
+
+    return Flow.getStatus({ flow, tree });
+  }
+
+  /**
+   * Handle a failed job attempt (called by the queue workers). Once a job has no attempts left, it is moved to the
+   * dead-letter queue of its queue, and the compensation jobs of the completed steps of its flow are added when the
+   * flow has the `compensate` policy. Each failed attempt emits the `queue:job:failed` event, when handled.
+   */
+  public handleFailedJob = async ({ job, error }: { job: Job; error: Error }): Promise<void> => {
+    const willRetry = this.willRetry(job);
+    const deadLetterEntry = willRetry ? undefined : await this.moveToDeadLetterQueue(job);
+
+    if (this.eventManager?.hasHandler('queue:job:failed')) {
+      await this.eventManager.run<ApplicationEvents['queue:job:failed']>({
+        name: 'queue:job:failed',
+        data: {
+          instanceId: this.applicationConfig.instanceId,
+          timestamp: new Date(),
+          queueId: job.queueName,
+          jobId: job.id ?? 'unknown',
+          jobName: job.name,
+          error,
+          attemptsMade: job.attemptsMade,
+          attemptsRemaining: willRetry ? (job.opts?.attempts ?? 1) - job.attemptsMade : 0,
+          ...(deadLetterEntry && { deadLetterEntryId: deadLetterEntry.id }),
+        },
+      });
+    }
+
+    if (!willRetry) {
+      await this.compensateFlow(job);
+    }
+  };
+
+  private async moveToDeadLetterQueue(job: Job): Promise<QueueDeadLetterEntry | undefined> {
+    const deadLetterQueue = this.deadLetterQueues.get(job.queueName);
+
+    if (!deadLetterQueue) {
+      return undefined;
+    }
+
+    const entry = await DeadLetter.add({ deadLetterQueue, job });
+
+    this.log('Job moved to dead-letter queue', {
+      Queue: job.queueName,
+      'Job ID': job.id,
+      'Entry ID': entry.id,
+    });
+
+    return entry;
+  }
+
+  /**
+   * Add the compensation jobs of the completed steps of a failed job's flow, once per flow.
+   */
+  private async compensateFlow(job: Job): Promise<void> {
+    const flow = job.data?.flow as QueueJobFlowData | undefined;
+
+    if (flow?.onFailure !== 'compensate') {
+      return;
+    }
+
+    const queue = this.queues.get(flow.queueId);
+
+    if (!queue || !(await Flow.claimCompensation({ queue, flowId: flow.id }))) {
+      return;
+    }
+
+    const compensations = await Flow.getCompensations(await this.getFlowProducer().getFlow(Flow.getTreeOptions(flow)));
+
+    for (const { queueId, jobId, data } of compensations) {
+      await this.addJobToQueue({
+        queueId,
+        jobId,
+        data: { ...data, ...(job.data.tenantId && { tenantId: data.tenantId ?? job.data.tenantId }) },
+      });
+    }
+
+    this.log('Flow compensated', { Queue: flow.queueId, 'Flow ID': flow.id, 'Job Count': compensations.length });
+  }
+
+  /**
+   * Whether a failed job is retried.
+   */
+  private willRetry(job: Job): boolean {
+    return job.attemptsMade < (job.opts?.attempts ?? 1) && !job.finishedOn;
+  }
+
+  private getFlowProducer(): FlowProducer {
+    this.flowProducer ??= new FlowProducer({ connection: this.redisInstance.client as any });
+
+    return this.flowProducer;
+  }
+
+  /**
+   * Parse a payload with the job's payload schema.
+   *
+   * @throws ValidationError when the payload is invalid
+   */
+  private parsePayload({
+    job,
+    queueId,
+    payload,
+  }: {
+    job: QueueJob;
+    queueId: string;
+    payload: unknown;
+  }): QueueJobPayload {
+    const result = job.payload?.safeParse(payload);
+
+    if (!result) {
+      return payload as QueueJobPayload;
+    }
+
+    if (!result.success) {
+      throw new ValidationError(`Invalid job payload (Queue ID: ${queueId} | Job ID: ${job.id})`, {
+        context: {
+          queueId,
+          jobId: job.id,
+          issues: result.error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message })),
+        },
+      });
+    }
+
+    return result.data;
+  }
+
   private workerProcessor = async (job: Job): Promise<unknown> => {
     if (!job) {
       return;
     }
 
+    // Process within a context carrying the job ID, its user and tenant, e.g. for audit entries and tenant scoping
+    return runWithContextAsync({ requestId: job.id, userId: job.data?.userId, tenantId: job.data?.tenantId }, () =>
+      this.processWithoutOverlap(job),
+    );
+  };
+
+  /**
+   * Get the schedule that created a job.
+   */
+  private getJobSchedule(job: Job): QueueJobSchedule | undefined {
+    const queueJob = this.queueJobs.get(job.queueName)?.get(job.name);
+    const scheduleId = job.data?.scheduleId;
+
+    if (!queueJob?.schedule || !scheduleId) {
+      return undefined;
+    }
+
+    return Scheduler.getScheduleId({ job: queueJob, schedule: queueJob.schedule }) === scheduleId
+      ? queueJob.schedule
+      : undefined;
+  }
+
+  /**
+   * Process runs of schedules that do not overlap while holding the schedule's run lock.
+   * A run is skipped when the previous run still holds the lock.
+   */
+  private processWithoutOverlap = async (job: Job): Promise<unknown> => {
+    const schedule = this.getJobSchedule(job);
+    const queue = this.queues.get(job.queueName);
+
+    if (schedule?.overlap !== 'skip' || !queue) {
+      return this.processJob(job);
+    }
+
+    const scheduleId: string = job.data.scheduleId;
+    const token = await Scheduler.acquireRunLock({ queue, id: scheduleId, lockTtlSeconds: schedule.lockTtlSeconds });
+
+    if (!token) {
+      this.log('Scheduled run skipped, previous run still processing', {
+        Queue: job.queueName,
+        'Schedule ID': scheduleId,
+        'Job ID': job.id,
+      });
+
+      return undefined;
+    }
+
+    try {
+      return await this.processJob(job);
+    } finally {
+      await Scheduler.releaseRunLock({ queue, id: scheduleId, token });
+    }
+  };
+
+  private processJob = async (job: Job): Promise<unknown> => {
     const startTime = Time.now();
 
     // Add start time to job data
@@ -306,6 +719,22 @@ export default class QueueManager {
       throw new Error(`No processor registered for job (Name: ${job.name})`);
     }
 
+    const schedule = this.getJobSchedule(job);
+
+    if (typeof schedule?.payload === 'function') {
+      job.data = { ...job.data, payload: await schedule.payload() };
+    }
+
+    // Validate the payload again, as the job may have been added by another version of the application
+    const queueJob = this.queueJobs.get(job.queueName)?.get(job.name);
+
+    if (queueJob?.payload) {
+      job.data = {
+        ...job.data,
+        payload: this.parsePayload({ job: queueJob, queueId: job.queueName, payload: job.data?.payload }),
+      };
+    }
+
     let result: unknown;
     let error: Error | undefined;
 
@@ -347,6 +776,302 @@ export default class QueueManager {
     }
   };
 
+  /**
+   * List the schedules of a queue, or of all queues.
+   *
+   * @throws QueueError when the queue is not registered
+   */
+  public async listSchedules({ queueId }: { queueId?: string } = {}): Promise<QueueScheduleInfo[]> {
+    const queues = queueId ? [this.getQueue(queueId)] : [...this.queues.values()];
+    const schedules = await Promise.all(queues.map(queue => Scheduler.list({ queue })));
+
+    return schedules.flat();
+  }
+
+  /**
+   * Pause a schedule, across all processes, until it is resumed.
+   *
+   * @throws QueueError when the queue is not registered or has no such schedule
+   */
+  public async pauseSchedule({
+    queueId,
+    scheduleId,
+  }: {
+    queueId: string;
+    scheduleId: string;
+  }): Promise<QueueScheduleInfo> {
+    return Scheduler.pause({ queue: this.getQueue(queueId), id: scheduleId });
+  }
+
+  /**
+   * Resume a paused schedule.
+   *
+   * @throws QueueError when the queue is not registered or has no such schedule
+   */
+  public async resumeSchedule({
+    queueId,
+    scheduleId,
+  }: {
+    queueId: string;
+    scheduleId: string;
+  }): Promise<QueueScheduleInfo> {
+    return Scheduler.resume({ queue: this.getQueue(queueId), id: scheduleId });
+  }
+
+  /**
+   * Add a run of a schedule now, without affecting its next run.
+   *
+   * @throws QueueError when the queue is not registered or has no such schedule
+   */
+  public async triggerSchedule({ queueId, scheduleId }: { queueId: string; scheduleId: string }): Promise<Job> {
+    return Scheduler.trigger({ queue: this.getQueue(queueId), id: scheduleId });
+  }
+
+  /**
+   * @throws QueueError when the queue is not registered
+   */
+  private getQueue(queueId: string): Queue {
+    const queue = this.queues.get(queueId);
+
+    if (!queue) {
+      throw new QueueError(`Queue not found (Queue ID: ${queueId})`, {
+        code: ErrorCode.RESOURCE_NOT_FOUND,
+        context: { queueId },
+      });
+    }
+
+    return queue;
+  }
+
+  /**
+   * List the entries of a queue's dead-letter queue, the most recent first.
+   *
+   * @throws QueueError when the queue is not registered or has no dead-letter queue
+   */
+  public async listDeadLetters({
+    queueId,
+    offset,
+    limit,
+  }: {
+    queueId: string;
+    offset?: number;
+    limit?: number;
+  }): Promise<QueueDeadLetterList> {
+    return DeadLetter.list({ deadLetterQueue: this.getDeadLetterQueue(queueId), offset, limit });
+  }
+
+  /**
+   * Get an entry of a queue's dead-letter queue, with the data, error and stack trace of the failed job.
+   *
+   * @throws QueueError when the queue is not registered, has no dead-letter queue or no such entry
+   */
+  public async getDeadLetter({
+    queueId,
+    entryId,
+  }: {
+    queueId: string;
+    entryId: string;
+  }): Promise<QueueDeadLetterEntry> {
+    return DeadLetter.get({ deadLetterQueue: this.getDeadLetterQueue(queueId), entryId });
+  }
+
+  /**
+   * Add the job of a dead-letter entry back to its queue, optionally with an edited payload, and remove the entry.
+   *
+   * @throws QueueError when the queue is not registered, has no dead-letter queue or no such entry
+   * @throws ValidationError when the payload does not match the job's payload schema
+   */
+  public async replayDeadLetter({
+    queueId,
+    entryId,
+    payload,
+  }: {
+    queueId: string;
+    entryId: string;
+    payload?: QueueJobPayload;
+  }): Promise<Job> {
+    const deadLetterQueue = this.getDeadLetterQueue(queueId);
+    const entry = await DeadLetter.get({ deadLetterQueue, entryId });
+    const queue = this.validateJob({ queueId, jobId: entry.jobName, payload: payload ?? entry.data.payload });
+
+    const job = await DeadLetter.replay({ deadLetterQueue, queue, entryId, payload });
+
+    this.log('Dead-letter entry replayed', { Queue: queueId, 'Entry ID': entryId, 'Job ID': job.id });
+
+    return job;
+  }
+
+  /**
+   * Remove an entry of a queue's dead-letter queue, or all its entries.
+   *
+   * @returns The number of removed entries
+   * @throws QueueError when the queue is not registered, has no dead-letter queue or no such entry
+   */
+  public async purgeDeadLetters({ queueId, entryId }: { queueId: string; entryId?: string }): Promise<number> {
+    const count = await DeadLetter.purge({ deadLetterQueue: this.getDeadLetterQueue(queueId), entryId });
+
+    this.log('Dead-letter entries purged', { Queue: queueId, Count: count });
+
+    return count;
+  }
+
+  /**
+   * @throws QueueError when the queue is not registered or has no dead-letter queue
+   */
+  private getDeadLetterQueue(queueId: string): Queue {
+    this.getQueue(queueId);
+
+    const deadLetterQueue = this.deadLetterQueues.get(queueId);
+
+    if (!deadLetterQueue) {
+      throw new QueueError(`Queue has no dead-letter queue (Queue ID: ${queueId})`, {
+        code: ErrorCode.RESOURCE_NOT_FOUND,
+        context: { queueId },
+      });
+    }
+
+    return deadLetterQueue;
+  }
+
+  /**
+   * Get the state and job counts of the queues.
+   */
+  public async listQueues(): Promise<QueueInfo[]> {
+    return Promise.all([...this.queues.keys()].map(queueId => this.getQueueInfo({ queueId })));
+  }
+
+  /**
+   * Get the state and job counts of a queue, and the number of entries of its dead-letter queue.
+   *
+   * @throws QueueError when the queue is not registered
+   */
+  public async getQueueInfo({ queueId }: { queueId: string }): Promise<QueueInfo> {
+    return QueueAdmin.getInfo({ queue: this.getQueue(queueId), deadLetterQueue: this.deadLetterQueues.get(queueId) });
+  }
+
+  /**
+   * List the jobs of a queue in a state, the most recent first.
+   *
+   * @throws QueueError when the queue is not registered
+   */
+  public async listJobs({
+    queueId,
+    state,
+    offset,
+    limit,
+  }: {
+    queueId: string;
+    state: QueueJobState;
+    offset?: number;
+    limit?: number;
+  }): Promise<QueueJobList> {
+    return QueueAdmin.listJobs({ queue: this.getQueue(queueId), state, offset, limit });
+  }
+
+  /**
+   * Get a job with its data, result, stack traces and logs.
+   *
+   * @throws QueueError when the queue is not registered or has no such job
+   */
+  public async getJobDetail({ queueId, jobId }: { queueId: string; jobId: string }): Promise<QueueJobDetail> {
+    return QueueAdmin.getJob({ queue: this.getQueue(queueId), jobId });
+  }
+
+  /**
+   * Retry a failed job.
+   *
+   * @throws QueueError when the queue is not registered, has no such job, or the job has not failed
+   */
+  public async retryJob({ queueId, jobId }: { queueId: string; jobId: string }): Promise<void> {
+    await QueueAdmin.retry({ queue: this.getQueue(queueId), jobId });
+
+    this.log('Job retried', { Queue: queueId, 'Job ID': jobId });
+  }
+
+  /**
+   * Run a delayed job now.
+   *
+   * @throws QueueError when the queue is not registered, has no such job, or the job is not delayed
+   */
+  public async promoteJob({ queueId, jobId }: { queueId: string; jobId: string }): Promise<void> {
+    await QueueAdmin.promote({ queue: this.getQueue(queueId), jobId });
+
+    this.log('Job promoted', { Queue: queueId, 'Job ID': jobId });
+  }
+
+  /**
+   * Remove a job.
+   *
+   * @throws QueueError when the queue is not registered, has no such job, or the job is being processed
+   */
+  public async removeJob({ queueId, jobId }: { queueId: string; jobId: string }): Promise<void> {
+    await QueueAdmin.remove({ queue: this.getQueue(queueId), jobId });
+
+    this.log('Job removed', { Queue: queueId, 'Job ID': jobId });
+  }
+
+  /**
+   * Pause a queue, across all processes: jobs being processed complete, and no job is started until it is resumed.
+   *
+   * @throws QueueError when the queue is not registered
+   */
+  public async pauseQueue({ queueId }: { queueId: string }): Promise<void> {
+    await this.getQueue(queueId).pause();
+
+    this.log('Queue paused', { Queue: queueId });
+  }
+
+  /**
+   * Resume a paused queue.
+   *
+   * @throws QueueError when the queue is not registered
+   */
+  public async resumeQueue({ queueId }: { queueId: string }): Promise<void> {
+    await this.getQueue(queueId).resume();
+
+    this.log('Queue resumed', { Queue: queueId });
+  }
+
+  /**
+   * Remove the waiting jobs of a queue, and its delayed jobs with `delayed`.
+   *
+   * @throws QueueError when the queue is not registered
+   */
+  public async drainQueue({ queueId, delayed }: { queueId: string; delayed?: boolean }): Promise<void> {
+    await QueueAdmin.drain({ queue: this.getQueue(queueId), delayed });
+
+    this.log('Queue drained', { Queue: queueId, Delayed: delayed ?? false });
+  }
+
+  /**
+   * Remove the jobs of a queue in a state that are older than a given age.
+   *
+   * @returns The IDs of the removed jobs
+   * @throws QueueError when the queue is not registered
+   */
+  public async cleanQueue({
+    queueId,
+    state,
+    olderThanSeconds,
+    limit,
+  }: {
+    queueId: string;
+    state: QueueCleanState;
+    olderThanSeconds: number;
+    limit?: number;
+  }): Promise<string[]> {
+    const jobIds = await QueueAdmin.clean({ queue: this.getQueue(queueId), state, olderThanSeconds, limit });
+
+    this.log('Queue cleaned', { Queue: queueId, State: state, 'Job Count': jobIds.length });
+
+    return jobIds;
+  }
+
+  /**
+   * List the jobs of all queues in every state.
+   *
+   * @deprecated Loads every job into memory, use `listJobs` to list the jobs of a queue by state and page
+   */
   public async listAllJobsWithStatus(): Promise<JobSummary[]> {
     const jobsSummary: JobSummary[] = [];
 
@@ -408,10 +1133,34 @@ export default class QueueManager {
       }
     }
 
+    for (const [name, deadLetterQueue] of this.deadLetterQueues) {
+      try {
+        deadLetterQueue.removeAllListeners();
+        await deadLetterQueue.close();
+      } catch (error) {
+        Logger.error({
+          error,
+          message: `Failed to close dead-letter queue: ${name}`,
+        });
+      }
+    }
+
+    if (this.flowProducer) {
+      try {
+        await this.flowProducer.close();
+      } catch (error) {
+        Logger.error({ error, message: 'Failed to close flow producer' });
+      }
+
+      this.flowProducer = undefined;
+    }
+
     // Clear all maps
     this.workers.clear();
     this.queues.clear();
+    this.deadLetterQueues.clear();
     this.jobProcessors.clear();
+    this.queueJobs.clear();
 
     this.log('Queue manager disconnected');
   }
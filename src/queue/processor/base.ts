@@ -1,7 +1,7 @@
 import type { EntityManager } from '@mikro-orm/core';
 import type { Job } from 'bullmq';
 import type { ApplicationConfig } from '../../application/base-application.interface.js';
-import type { DatabaseInstance } from '../../database/index.js';
+import type { DatabaseConnectionOptions, DatabaseInstance } from '../../database/index.js';
 import { safeSerializeError } from '../../error/error-reporter.js';
 import type EventManager from '../../event/manager.js';
 import { Logger } from '../../logger/index.js';
@@ -77,12 +77,30 @@ export default abstract class BaseProcessor<
    *     });
    *   }
    * }
+   *
+   * Pass `{ connection }` to use a named connection from `database.connections`.
    */
-  protected async withEntityManager<T>(callback: (em: EntityManager) => Promise<T>): Promise<T> {
+  protected async withEntityManager<T>(
+    callback: (em: EntityManager) => Promise<T>,
+    options?: DatabaseConnectionOptions,
+  ): Promise<T> {
     if (!this.databaseInstance) {
       throw new Error('Database not available');
     }
-    return this.databaseInstance.withEntityManager(callback);
+    return this.databaseInstance.withEntityManager(callback, options);
+  }
+
+  /**
+   * Get the results of the children of a flow job (the previous step of a chain, or the steps of a group)
+   *
+   * @example
+   * async process({ job }) {
+   *   const [transcoded] = await this.getChildResults<{ url: string }>({ job });
+   *   return this.createThumbnail(transcoded.url);
+   * }
+   */
+  protected async getChildResults<TChildResult = unknown>({ job }: { job: Job }): Promise<TChildResult[]> {
+    return Object.values(await job.getChildrenValues<TChildResult>());
   }
 
   /**
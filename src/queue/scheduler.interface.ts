@@ -0,0 +1,57 @@
+import type { QueueJobPayload } from './job.interface.js';
+
+/** What a scheduled run does while the previous run of its schedule is still processed */
+export type QueueJobScheduleOverlap = 'allow' | 'skip';
+
+/**
+ * Recurring schedule of a job, registered as a BullMQ job scheduler. Set either `cron` or `every`.
+ */
+export interface QueueJobSchedule<TPayload extends QueueJobPayload = QueueJobPayload> {
+  /** Schedule ID, unique within the queue (default: the job ID) */
+  id?: string;
+
+  /** Cron expression (e.g. `'0 3 * * *'`, with an optional leading seconds field) */
+  cron?: string;
+
+  /** Interval between runs in milliseconds */
+  every?: number;
+
+  /** IANA time zone the cron expression is evaluated in (default: the time zone of the worker) */
+  timezone?: string;
+
+  /** Payload of each run, or a function returning it when the run is processed */
+  payload?: TPayload | (() => TPayload | Promise<TPayload>);
+
+  /** Whether a run starts while the previous run is still processed (default: `'allow'`) */
+  overlap?: QueueJobScheduleOverlap;
+
+  /** Expiry of the overlap lock in seconds, in case the run holding it dies (default: 3600) */
+  lockTtlSeconds?: number;
+}
+
+/**
+ * Job scheduler of a queue.
+ */
+export interface QueueScheduleInfo {
+  /** Schedule ID */
+  id: string;
+
+  /** Queue name */
+  queue: string;
+
+  /** Name of the scheduled job */
+  jobName: string;
+
+  cron?: string;
+  every?: number;
+  timezone?: string;
+
+  /** Whether the schedule is paused */
+  paused: boolean;
+
+  /** Next run (not set for paused schedules) */
+  next?: Date;
+
+  /** Number of runs created so far */
+  iterationCount?: number;
+}
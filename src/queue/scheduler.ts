@@ -0,0 +1,303 @@
+import { randomUUID } from 'node:crypto';
+import type { Job, JobSchedulerJson, JobSchedulerTemplateOptions, Queue, RepeatOptions } from 'bullmq';
+import { ErrorCode } from '../error/error.interface.js';
+import { QueueError } from '../error/framework-errors.js';
+import type { QueueJob, QueueJobData } from './job.interface.js';
+import type { QueueJobSchedule, QueueScheduleInfo } from './scheduler.interface.js';
+
+/** Hash of paused schedules, by schedule ID, keeping what is needed to resume them */
+const PAUSED_KEY = 'schedules:paused';
+
+const RECONCILE_LOCK_KEY = 'schedules:lock';
+
+const DEFAULT_OVERLAP_LOCK_TTL_SECONDS = 3600;
+
+// Deletes a lock only while it is still held by the given token
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0
+`;
+
+/** Job scheduler of a queue, as registered in BullMQ */
+interface ScheduleEntry {
+  id: string;
+  jobName: string;
+  repeat: Pick<RepeatOptions, 'pattern' | 'every' | 'tz'>;
+  data: Partial<QueueJobData>;
+  opts?: JobSchedulerTemplateOptions;
+}
+
+/**
+ * Get the ID of a job schedule.
+ */
+const getScheduleId = ({ job, schedule }: { job: QueueJob; schedule: QueueJobSchedule }): string =>
+  schedule.id ?? job.id;
+
+/**
+ * Convert a job schedule to a job scheduler. Payload functions are called when each run is processed, so the
+ * scheduled jobs only carry the schedule ID.
+ *
+ * @throws QueueError when the schedule sets neither or both of `cron` and `every`
+ */
+const toScheduleEntry = ({ job, schedule }: { job: QueueJob; schedule: QueueJobSchedule }): ScheduleEntry => {
+  const id = getScheduleId({ job, schedule });
+
+  if ((schedule.cron === undefined) === (schedule.every === undefined)) {
+    throw new QueueError(`Schedule requires either cron or every (Job ID: ${job.id} | Schedule ID: ${id})`, {
+      context: { jobId: job.id, scheduleId: id },
+    });
+  }
+
+  return {
+    id,
+    jobName: job.id,
+    repeat: {
+      ...(schedule.cron !== undefined && { pattern: schedule.cron }),
+      ...(schedule.every !== undefined && { every: schedule.every }),
+      ...(schedule.timezone !== undefined && { tz: schedule.timezone }),
+    },
+    data: {
+      payload: typeof schedule.payload === 'function' || !schedule.payload ? {} : schedule.payload,
+      scheduleId: id,
+    },
+  };
+};
+
+const fromSchedulerJson = (scheduler: JobSchedulerJson<Partial<QueueJobData>>): ScheduleEntry => ({
+  id: scheduler.key,
+  jobName: scheduler.name,
+  repeat: {
+    ...(scheduler.pattern && { pattern: scheduler.pattern }),
+    ...(scheduler.every && { every: scheduler.every }),
+    ...(scheduler.tz && { tz: scheduler.tz }),
+  },
+  data: scheduler.template?.data ?? { scheduleId: scheduler.key },
+  ...(scheduler.template?.opts && { opts: scheduler.template.opts }),
+});
+
+const toScheduleInfo = ({
+  queue,
+  entry,
+  paused,
+  scheduler,
+}: {
+  queue: Queue;
+  entry: ScheduleEntry;
+  paused: boolean;
+  scheduler?: JobSchedulerJson;
+}): QueueScheduleInfo => ({
+  id: entry.id,
+  queue: queue.name,
+  jobName: entry.jobName,
+  ...(entry.repeat.pattern && { cron: entry.repeat.pattern }),
+  ...(entry.repeat.every && { every: entry.repeat.every }),
+  ...(entry.repeat.tz && { timezone: entry.repeat.tz }),
+  paused,
+  ...(scheduler?.next && { next: new Date(scheduler.next) }),
+  ...(scheduler?.iterationCount !== undefined && { iterationCount: scheduler.iterationCount }),
+});
+
+const upsertScheduler = (queue: Queue, entry: ScheduleEntry): Promise<Job> =>
+  queue.upsertJobScheduler(entry.id, entry.repeat, { name: entry.jobName, data: entry.data, opts: entry.opts });
+
+const getPausedEntries = async (queue: Queue): Promise<Map<string, ScheduleEntry>> => {
+  const client = await queue.client;
+  const paused = await client.hgetall(queue.toKey(PAUSED_KEY));
+
+  return new Map(Object.entries(paused).map(([id, entry]) => [id, JSON.parse(entry) as ScheduleEntry]));
+};
+
+/**
+ * Get a schedule of a queue, active or paused.
+ *
+ * @throws QueueError when the queue has no such schedule
+ */
+const getEntry = async ({
+  queue,
+  id,
+}: {
+  queue: Queue;
+  id: string;
+}): Promise<{ entry: ScheduleEntry; paused: boolean; scheduler?: JobSchedulerJson }> => {
+  const scheduler = await queue.getJobScheduler(id);
+
+  if (scheduler) {
+    return { entry: fromSchedulerJson(scheduler), paused: false, scheduler };
+  }
+
+  const pausedEntry = (await getPausedEntries(queue)).get(id);
+
+  if (!pausedEntry) {
+    throw new QueueError(`Schedule not found (Queue ID: ${queue.name} | Schedule ID: ${id})`, {
+      code: ErrorCode.RESOURCE_NOT_FOUND,
+      context: { queueId: queue.name, scheduleId: id },
+    });
+  }
+
+  return { entry: pausedEntry, paused: true };
+};
+
+/**
+ * Register the schedules of a queue's jobs as job schedulers, and remove job schedulers of the queue that are no
+ * longer declared. Paused schedules stay paused, with their declaration updated for when they are resumed.
+ *
+ * Reconciliation holds a Redis lock, so that it runs once when every cluster worker starts; processes finding the
+ * lock taken skip it. Registering a job scheduler is idempotent, so each schedule creates one job per run.
+ *
+ * @returns Whether the schedules were reconciled by this process
+ * @throws QueueError when a schedule sets neither or both of `cron` and `every`
+ */
+const reconcile = async ({
+  queue,
+  jobs,
+  lockTtlSeconds = 60,
+}: {
+  queue: Queue;
+  jobs: QueueJob[];
+  lockTtlSeconds?: number;
+}): Promise<boolean> => {
+  const entries = jobs.flatMap(job => (job.schedule ? [toScheduleEntry({ job, schedule: job.schedule })] : []));
+
+  const client = await queue.client;
+  const lockKey = queue.toKey(RECONCILE_LOCK_KEY);
+  const token = randomUUID();
+
+  if ((await client.set(lockKey, token, 'EX', lockTtlSeconds, 'NX')) !== 'OK') {
+    return false;
+  }
+
+  try {
+    const pausedKey = queue.toKey(PAUSED_KEY);
+    const paused = await getPausedEntries(queue);
+    const declaredIds = new Set(entries.map(entry => entry.id));
+
+    for (const entry of entries) {
+      if (paused.has(entry.id)) {
+        await client.hset(pausedKey, entry.id, JSON.stringify(entry));
+      } else {
+        await upsertScheduler(queue, entry);
+      }
+    }
+
+    for (const scheduler of await queue.getJobSchedulers()) {
+      if (!declaredIds.has(scheduler.key) || paused.has(scheduler.key)) {
+        await queue.removeJobScheduler(scheduler.key);
+      }
+    }
+
+    const stalePausedIds = [...paused.keys()].filter(id => !declaredIds.has(id));
+
+    if (stalePausedIds.length > 0) {
+      await client.hdel(pausedKey, ...stalePausedIds);
+    }
+
+    return true;
+  } finally {
+    await client.eval(RELEASE_LOCK_SCRIPT, 1, lockKey, token);
+  }
+};
+
+/**
+ * List the schedules of a queue, active and paused.
+ */
+const list = async ({ queue }: { queue: Queue }): Promise<QueueScheduleInfo[]> => {
+  const schedulers = await queue.getJobSchedulers();
+  const paused = await getPausedEntries(queue);
+
+  return [
+    ...schedulers.map(scheduler =>
+      toScheduleInfo({ queue, entry: fromSchedulerJson(scheduler), paused: false, scheduler }),
+    ),
+    ...[...paused.values()].map(entry => toScheduleInfo({ queue, entry, paused: true })),
+  ].sort((a, b) => a.id.localeCompare(b.id));
+};
+
+/**
+ * Pause a schedule: its job scheduler is removed until the schedule is resumed.
+ *
+ * @throws QueueError when the queue has no such schedule
+ */
+const pause = async ({ queue, id }: { queue: Queue; id: string }): Promise<QueueScheduleInfo> => {
+  const { entry, paused } = await getEntry({ queue, id });
+
+  if (!paused) {
+    const client = await queue.client;
+
+    await client.hset(queue.toKey(PAUSED_KEY), id, JSON.stringify(entry));
+    await queue.removeJobScheduler(id);
+  }
+
+  return toScheduleInfo({ queue, entry, paused: true });
+};
+
+/**
+ * Resume a paused schedule.
+ *
+ * @throws QueueError when the queue has no such schedule
+ */
+const resume = async ({ queue, id }: { queue: Queue; id: string }): Promise<QueueScheduleInfo> => {
+  const { entry, paused, scheduler } = await getEntry({ queue, id });
+
+  if (!paused) {
+    return toScheduleInfo({ queue, entry, paused, scheduler });
+  }
+
+  const client = await queue.client;
+
+  await upsertScheduler(queue, entry);
+  await client.hdel(queue.toKey(PAUSED_KEY), id);
+
+  return toScheduleInfo({ queue, entry, paused: false, scheduler: await queue.getJobScheduler(id) });
+};
+
+/**
+ * Add a run of a schedule now, paused or not, without affecting its next run.
+ *
+ * @throws QueueError when the queue has no such schedule
+ */
+const trigger = async ({ queue, id }: { queue: Queue; id: string }): Promise<Job> => {
+  const { entry } = await getEntry({ queue, id });
+
+  return queue.add(entry.jobName, entry.data, entry.opts);
+};
+
+/**
+ * Take the lock of a schedule whose runs do not overlap.
+ *
+ * @returns The lock token, or `null` when the previous run still holds the lock
+ */
+const acquireRunLock = async ({
+  queue,
+  id,
+  lockTtlSeconds = DEFAULT_OVERLAP_LOCK_TTL_SECONDS,
+}: {
+  queue: Queue;
+  id: string;
+  lockTtlSeconds?: number;
+}): Promise<string | null> => {
+  const client = await queue.client;
+  const token = randomUUID();
+
+  const result = await client.set(queue.toKey(`schedules:running:${id}`), token, 'EX', lockTtlSeconds, 'NX');
+
+  return result === 'OK' ? token : null;
+};
+
+const releaseRunLock = async ({ queue, id, token }: { queue: Queue; id: string; token: string }): Promise<void> => {
+  const client = await queue.client;
+
+  await client.eval(RELEASE_LOCK_SCRIPT, 1, queue.toKey(`schedules:running:${id}`), token);
+};
+
+export default {
+  getScheduleId,
+  reconcile,
+  list,
+  pause,
+  resume,
+  trigger,
+  acquireRunLock,
+  releaseRunLock,
+};
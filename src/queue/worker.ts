@@ -47,7 +47,7 @@ export default class QueueWorker extends Worker {
     Logger.error({ error });
   };
 
-  private onWorkerFailed = (_job: Job<any, Processor<any, any, string>, string> | undefined, error: Error): void => {
+  private onWorkerFailed = (job: Job<any, Processor<any, any, string>, string> | undefined, error: Error): void => {
     // // Send job failed message to client
     // if (job && job.data.webSocketClientId) {
     //   const errorMessage = {
@@ -61,6 +61,12 @@ export default class QueueWorker extends Worker {
     // }
 
     Logger.error({ error });
+
+    if (job) {
+      this.queueManager.handleFailedJob({ job, error }).catch((handlerError: unknown) => {
+        Logger.error({ error: handlerError, message: 'Failed to handle failed job' });
+      });
+    }
   };
 
   private onWorkerStalled = (jobId: string): void => {
@@ -0,0 +1,14 @@
+export { default as MemoryRateLimitStore } from './memory-store.js';
+export type {
+  ApplicationRateLimitConfig,
+  RateLimitAlgorithm,
+  RateLimitConsumeOptions,
+  RateLimitKey,
+  RateLimitKeyFunction,
+  RateLimitPolicy,
+  RateLimitResult,
+  RateLimitStore,
+  RateLimitStoreType,
+} from './rate-limit.interface.js';
+export { default as RateLimiter, parseTimeWindow } from './rate-limiter.js';
+export { default as RedisRateLimitStore } from './redis-store.js';
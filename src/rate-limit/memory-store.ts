@@ -0,0 +1,123 @@
+import type { RateLimitConsumeOptions, RateLimitResult, RateLimitStore } from './rate-limit.interface.js';
+
+type MemoryRateLimitEntry =
+  | { algorithm: 'fixed-window'; count: number; expiresAt: number }
+  | { algorithm: 'sliding-window'; timestamps: number[]; expiresAt: number }
+  | { algorithm: 'token-bucket'; tokens: number; updatedAt: number; expiresAt: number };
+
+/**
+ * Rate limit store keeping counters in the memory of the process.
+ * Each worker and instance enforces its own limits; use the `redis` store to share them.
+ */
+export default class MemoryRateLimitStore implements RateLimitStore {
+  private readonly entries = new Map<string, MemoryRateLimitEntry>();
+  private readonly maxEntries: number;
+
+  constructor({ maxEntries = 5000 }: { maxEntries?: number } = {}) {
+    this.maxEntries = maxEntries;
+  }
+
+  public async consume({ key, algorithm, max, timeWindowMs }: RateLimitConsumeOptions): Promise<RateLimitResult> {
+    const now = Date.now();
+    const entryKey = `${algorithm}:${key}`;
+    let entry = this.entries.get(entryKey);
+
+    if (entry && entry.expiresAt <= now) {
+      this.entries.delete(entryKey);
+      entry = undefined;
+    }
+
+    let result: RateLimitResult;
+
+    switch (algorithm) {
+      case 'fixed-window': {
+        const window = entry?.algorithm === 'fixed-window' ? entry : undefined;
+        const count = (window?.count ?? 0) + 1;
+        const expiresAt = window?.expiresAt ?? now + timeWindowMs;
+
+        entry = { algorithm, count, expiresAt };
+        result = {
+          allowed: count <= max,
+          limit: max,
+          remaining: Math.max(max - count, 0),
+          current: count,
+          resetMs: expiresAt - now,
+        };
+
+        break;
+      }
+      case 'sliding-window': {
+        const timestamps = (entry?.algorithm === 'sliding-window' ? entry.timestamps : []).filter(
+          timestamp => timestamp > now - timeWindowMs,
+        );
+        const allowed = timestamps.length < max;
+
+        if (allowed) {
+          timestamps.push(now);
+        }
+
+        entry = { algorithm, timestamps, expiresAt: now + timeWindowMs };
+        result = {
+          allowed,
+          limit: max,
+          remaining: Math.max(max - timestamps.length, 0),
+          current: allowed ? timestamps.length : max + 1,
+          resetMs: timestamps.length > 0 ? timestamps[0] + timeWindowMs - now : timeWindowMs,
+        };
+
+        break;
+      }
+      case 'token-bucket': {
+        const bucket = entry?.algorithm === 'token-bucket' ? entry : { tokens: max, updatedAt: now };
+        let tokens = Math.min(max, bucket.tokens + (Math.max(now - bucket.updatedAt, 0) * max) / timeWindowMs);
+        const allowed = tokens >= 1;
+
+        if (allowed) {
+          tokens -= 1;
+        }
+
+        const remaining = Math.floor(tokens);
+
+        entry = { algorithm, tokens, updatedAt: now, expiresAt: now + timeWindowMs };
+        result = {
+          allowed,
+          limit: max,
+          remaining,
+          current: allowed ? max - remaining : max + 1,
+          resetMs: Math.ceil(((allowed ? max - tokens : 1 - tokens) * timeWindowMs) / max),
+        };
+
+        break;
+      }
+    }
+
+    this.entries.delete(entryKey);
+    this.entries.set(entryKey, entry);
+    this.prune(now);
+
+    return result;
+  }
+
+  /**
+   * Remove expired entries once the store is full, then the least recently used ones.
+   */
+  private prune(now: number): void {
+    if (this.entries.size <= this.maxEntries) {
+      return;
+    }
+
+    for (const [entryKey, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(entryKey);
+      }
+    }
+
+    for (const entryKey of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) {
+        break;
+      }
+
+      this.entries.delete(entryKey);
+    }
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * How requests are counted:
+ * `fixed-window` counts requests per window, `sliding-window` counts requests in the last window (no bursts at window
+ * boundaries), `token-bucket` refills `max` tokens per window and allows bursts up to `max`.
+ */
+export type RateLimitAlgorithm = 'fixed-window' | 'sliding-window' | 'token-bucket';
+
+/** Function returning the identity a request is counted for */
+export type RateLimitKeyFunction<TRequest = any> = (request: TRequest) => string | Promise<string>;
+
+/** Identity requests are counted for: the client IP, the authenticated user (falling back to the IP) or a function */
+export type RateLimitKey<TRequest = any> = 'ip' | 'user' | RateLimitKeyFunction<TRequest>;
+
+export interface RateLimitPolicy<TRequest = any> {
+  /** Algorithm (default: `fixed-window`) */
+  algorithm?: RateLimitAlgorithm;
+
+  /** Requests allowed per window, or the bucket size of `token-bucket` (default: 1000) */
+  max?: number;
+
+  /** Window in milliseconds or as a duration, e.g. `'1 minute'` (default: 1 minute) */
+  timeWindow?: number | string;
+
+  /** Identity requests are counted for (default: `ip`) */
+  key?: RateLimitKey<TRequest>;
+}
+
+export interface RateLimitResult {
+  /** Whether the request is allowed */
+  allowed: boolean;
+
+  /** Requests allowed per window */
+  limit: number;
+
+  /** Requests left in the window */
+  remaining: number;
+
+  /** Requests counted against the limit, including this one */
+  current: number;
+
+  /** Milliseconds until the limit resets, or until the next request is allowed when rejected */
+  resetMs: number;
+}
+
+export interface RateLimitConsumeOptions {
+  /** Store key, scoped to the policy and identity */
+  key: string;
+
+  algorithm: RateLimitAlgorithm;
+  max: number;
+  timeWindowMs: number;
+}
+
+export interface RateLimitStore {
+  /**
+   * Count a request and return whether it is allowed.
+   */
+  consume(options: RateLimitConsumeOptions): Promise<RateLimitResult>;
+}
+
+/** Where counters are kept: in Redis, shared by all workers and instances, or in the memory of each process */
+export type RateLimitStoreType = 'redis' | 'memory';
+
+export interface ApplicationRateLimitConfig {
+  /** Counter store (default: `redis` when Redis is configured and not the in-memory stub, `memory` otherwise) */
+  store?: RateLimitStoreType;
+
+  /** Prefix of the Redis keys (default: `rate-limit:`) */
+  keyPrefix?: string;
+
+  /** Named policies, used by routes, route groups and WebSocket routes with `rateLimit: '<name>'` */
+  policies?: Record<string, RateLimitPolicy>;
+}
@@ -0,0 +1,129 @@
+import { ConfigurationError } from '../error/framework-errors.js';
+import type { RedisInstance } from '../redis/index.js';
+import MemoryRateLimitStore from './memory-store.js';
+import type {
+  ApplicationRateLimitConfig,
+  RateLimitPolicy,
+  RateLimitResult,
+  RateLimitStore,
+} from './rate-limit.interface.js';
+import RedisRateLimitStore from './redis-store.js';
+
+const DEFAULT_KEY_PREFIX = 'rate-limit:';
+const DEFAULT_MAX = 1000;
+const DEFAULT_TIME_WINDOW_MS = 60 * 1000;
+
+const TIME_UNITS_MS: Record<string, number> = {
+  ms: 1,
+  millisecond: 1,
+  s: 1000,
+  sec: 1000,
+  second: 1000,
+  m: 60 * 1000,
+  min: 60 * 1000,
+  minute: 60 * 1000,
+  h: 60 * 60 * 1000,
+  hour: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parse a time window given in milliseconds or as a duration (`'500ms'`, `'10 seconds'`, `'1 minute'`, `'1h'`, ...).
+ *
+ * @throws ConfigurationError when the duration cannot be parsed
+ */
+export function parseTimeWindow(timeWindow: number | string | undefined): number {
+  if (timeWindow === undefined) {
+    return DEFAULT_TIME_WINDOW_MS;
+  }
+
+  if (typeof timeWindow === 'number') {
+    return Math.trunc(timeWindow);
+  }
+
+  const match = /^(\d+(?:\.\d+)?)\s*([a-z]+)$/i.exec(timeWindow.trim());
+  const unit = match?.[2].toLowerCase() ?? '';
+  const unitMs = TIME_UNITS_MS[unit] ?? TIME_UNITS_MS[unit.replace(/s$/, '')];
+
+  if (!match || unitMs === undefined) {
+    throw new ConfigurationError(`Invalid rate limit time window: ${timeWindow}`);
+  }
+
+  return Math.trunc(Number(match[1]) * unitMs);
+}
+
+/**
+ * Rate limiter counting requests under rate limit policies, in Redis or in memory (`rateLimit.store`).
+ * Counters are kept in Redis whenever a Redis instance is available, unless `memory` is chosen explicitly
+ * or the instance is the in-memory Redis stub, which cannot run the counting scripts.
+ */
+export default class RateLimiter {
+  private readonly config: ApplicationRateLimitConfig;
+  private readonly store: RateLimitStore;
+
+  constructor({
+    config = {},
+    redisInstance,
+    cacheSize,
+  }: {
+    config?: ApplicationRateLimitConfig;
+    redisInstance?: RedisInstance;
+
+    /** Maximum number of counters kept by the `memory` store */
+    cacheSize?: number;
+  }) {
+    this.config = config;
+
+    const storeType = config.store ?? (redisInstance && !redisInstance.inMemory ? 'redis' : 'memory');
+
+    if (storeType === 'redis') {
+      if (!redisInstance) {
+        throw new ConfigurationError('The redis rate limit store requires a Redis instance');
+      }
+
+      if (redisInstance.inMemory) {
+        throw new ConfigurationError('The redis rate limit store cannot run on the in-memory Redis stub');
+      }
+
+      this.store = new RedisRateLimitStore({ redisInstance, keyPrefix: config.keyPrefix ?? DEFAULT_KEY_PREFIX });
+    } else {
+      this.store = new MemoryRateLimitStore({ maxEntries: cacheSize });
+    }
+  }
+
+  /**
+   * Get a named policy from `rateLimit.policies` (policy objects are returned as is).
+   *
+   * @throws ConfigurationError when the policy is not configured
+   */
+  public getPolicy<TRequest>(policy: RateLimitPolicy<TRequest> | string): RateLimitPolicy<TRequest> {
+    if (typeof policy !== 'string') {
+      return policy;
+    }
+
+    const namedPolicy = this.config.policies?.[policy];
+
+    if (!namedPolicy) {
+      throw new ConfigurationError(`Rate limit policy not found: ${policy}`, {
+        context: { policies: Object.keys(this.config.policies ?? {}) },
+      });
+    }
+
+    return namedPolicy;
+  }
+
+  /**
+   * Count a request under a policy.
+   *
+   * @param key - Identity the request is counted for, scoped to the policy (e.g. `ws:chat:send:user:1`)
+   */
+  public consume({ key, policy }: { key: string; policy: RateLimitPolicy }): Promise<RateLimitResult> {
+    return this.store.consume({
+      key,
+      algorithm: policy.algorithm ?? 'fixed-window',
+      max: policy.max ?? DEFAULT_MAX,
+      timeWindowMs: parseTimeWindow(policy.timeWindow),
+    });
+  }
+}
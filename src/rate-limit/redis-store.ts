@@ -0,0 +1,121 @@
+import { randomUUID } from 'node:crypto';
+import type { RedisInstance } from '../redis/index.js';
+import type {
+  RateLimitAlgorithm,
+  RateLimitConsumeOptions,
+  RateLimitResult,
+  RateLimitStore,
+} from './rate-limit.interface.js';
+
+/** Current time of the Redis server in milliseconds, so instances with skewed clocks share the same windows */
+const NOW = `
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+`;
+
+/** Counter expiring at the end of the window. Rejected requests are counted too. */
+const FIXED_WINDOW_SCRIPT = `
+local max = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+
+local current = redis.call('INCR', KEYS[1])
+local ttl = redis.call('PTTL', KEYS[1])
+
+if ttl < 0 then
+  redis.call('PEXPIRE', KEYS[1], window)
+  ttl = window
+end
+
+return {current <= max and 1 or 0, math.max(max - current, 0), current, ttl}
+`;
+
+/** Sorted set of the allowed requests of the last window, scored by time */
+const SLIDING_WINDOW_SCRIPT = `${NOW}
+local max = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now - window)
+
+local count = redis.call('ZCARD', KEYS[1])
+local allowed = 0
+
+if count < max then
+  redis.call('ZADD', KEYS[1], now, ARGV[3])
+  count = count + 1
+  allowed = 1
+end
+
+redis.call('PEXPIRE', KEYS[1], window)
+
+local reset = window
+local oldest = redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')
+
+if oldest[2] then
+  reset = tonumber(oldest[2]) + window - now
+end
+
+return {allowed, math.max(max - count, 0), allowed == 1 and count or max + 1, reset}
+`;
+
+/** Bucket of up to max tokens, refilled with max tokens per window */
+const TOKEN_BUCKET_SCRIPT = `${NOW}
+local max = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+
+local bucket = redis.call('HMGET', KEYS[1], 'tokens', 'updatedAt')
+local tokens = tonumber(bucket[1]) or max
+local updatedAt = tonumber(bucket[2]) or now
+
+tokens = math.min(max, tokens + math.max(now - updatedAt, 0) * max / window)
+
+local allowed = 0
+local reset
+
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+  reset = math.ceil((max - tokens) * window / max)
+else
+  reset = math.ceil((1 - tokens) * window / max)
+end
+
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updatedAt', now)
+redis.call('PEXPIRE', KEYS[1], window)
+
+local remaining = math.floor(tokens)
+
+return {allowed, remaining, allowed == 1 and max - remaining or max + 1, reset}
+`;
+
+const SCRIPTS: Record<RateLimitAlgorithm, string> = {
+  'fixed-window': FIXED_WINDOW_SCRIPT,
+  'sliding-window': SLIDING_WINDOW_SCRIPT,
+  'token-bucket': TOKEN_BUCKET_SCRIPT,
+};
+
+/**
+ * Rate limit store keeping counters in Redis, shared by all workers and instances.
+ * Each request is counted with a single Lua script, so concurrent requests cannot exceed the limit.
+ */
+export default class RedisRateLimitStore implements RateLimitStore {
+  private readonly redisInstance: RedisInstance;
+  private readonly keyPrefix: string;
+
+  constructor({ redisInstance, keyPrefix }: { redisInstance: RedisInstance; keyPrefix: string }) {
+    this.redisInstance = redisInstance;
+    this.keyPrefix = keyPrefix;
+  }
+
+  public async consume({ key, algorithm, max, timeWindowMs }: RateLimitConsumeOptions): Promise<RateLimitResult> {
+    const [allowed, remaining, current, resetMs] = (await this.redisInstance.client.eval(
+      SCRIPTS[algorithm],
+      1,
+      `${this.keyPrefix}${algorithm}:${key}`,
+      max,
+      timeWindowMs,
+      randomUUID(),
+    )) as [number, number, number, number];
+
+    return { allowed: allowed === 1, limit: max, remaining, current, resetMs };
+  }
+}
@@ -6,4 +6,7 @@ export interface RedisInstanceProps {
   client: Redis;
   publisherClient: Redis;
   subscriberClient: Redis;
+
+  /** Whether the clients are the in-memory stub (`PXL_REDIS_IN_MEMORY`), which cannot run Lua scripts */
+  inMemory?: boolean;
 }
@@ -10,8 +10,12 @@ export default class RedisInstance {
   public publisherClient: Redis;
   public subscriberClient: Redis;
 
-  constructor({ redisManager, client, publisherClient, subscriberClient }: RedisInstanceProps) {
+  /** Whether the clients are the in-memory stub, which cannot run Lua scripts */
+  public readonly inMemory: boolean;
+
+  constructor({ redisManager, client, publisherClient, subscriberClient, inMemory = false }: RedisInstanceProps) {
     this.redisManager = redisManager;
+    this.inMemory = inMemory;
 
     this.client = client;
     this.publisherClient = publisherClient;
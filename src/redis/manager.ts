@@ -244,6 +244,7 @@ export default class RedisManager {
             client,
             publisherClient,
             subscriberClient,
+            inMemory: useInMemoryRedis,
           });
 
           this.instances.push(redisInstance);
@@ -4,10 +4,12 @@ export {
   getContextMetadata,
   getRequestContext,
   getRequestId,
+  getTenantId,
   getUserId,
   requestContextStorage,
   runWithContext,
   runWithContextAsync,
   setContextMetadata,
+  setTenantId,
   setUserId,
 } from './request-context.js';
@@ -20,6 +20,11 @@ export interface RequestContext {
    */
   userId?: string;
 
+  /**
+   * Tenant ID (when multi-tenancy is enabled)
+   */
+  tenantId?: string;
+
   /**
    * Additional custom metadata
    */
@@ -45,6 +50,11 @@ export interface RunWithContextOptions {
    */
   userId?: string;
 
+  /**
+   * Tenant ID
+   */
+  tenantId?: string;
+
   /**
    * Additional metadata
    */
@@ -86,6 +86,7 @@ export function runWithContext<T>(options: RunWithContextOptions | undefined, fn
     requestId: options?.requestId ?? crypto.randomUUID(),
     startTime: options?.startTime,
     userId: options?.userId,
+    tenantId: options?.tenantId,
     metadata: options?.metadata,
   };
 
@@ -112,6 +113,7 @@ export async function runWithContextAsync<T>(
     requestId: options?.requestId ?? crypto.randomUUID(),
     startTime: options?.startTime,
     userId: options?.userId,
+    tenantId: options?.tenantId,
     metadata: options?.metadata,
   };
 
@@ -143,6 +145,31 @@ export function getUserId(): string | undefined {
   return requestContextStorage.getStore()?.userId;
 }
 
+/**
+ * Update the tenant ID in the current request context
+ *
+ * @param tenantId - Tenant ID to set
+ *
+ * @example
+ * // After resolving the tenant
+ * setTenantId('acme');
+ */
+export function setTenantId(tenantId: string): void {
+  const context = requestContextStorage.getStore();
+  if (context) {
+    context.tenantId = tenantId;
+  }
+}
+
+/**
+ * Get the tenant ID from the current request context
+ *
+ * @returns The current tenant ID, or undefined if not set
+ */
+export function getTenantId(): string | undefined {
+  return requestContextStorage.getStore()?.tenantId;
+}
+
 /**
  * Enter a new request context (advanced usage for middleware)
  *
@@ -161,6 +188,7 @@ export function enterRequestContext(options: RunWithContextOptions): void {
     requestId: options?.requestId ?? crypto.randomUUID(),
     startTime: options?.startTime,
     userId: options?.userId,
+    tenantId: options?.tenantId,
     metadata: options?.metadata,
   };
 
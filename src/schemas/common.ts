@@ -64,6 +64,44 @@ export type PaginatedResponse<T> = {
   limit: number;
 };
 
+/**
+ * Cursor pagination query parameters schema
+ */
+export const CursorPaginationQuerySchema = z.object({
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().positive().max(100).default(20),
+  count: z.stringbool().optional(),
+});
+
+/**
+ * Inferred type for cursor pagination query
+ */
+export type CursorPaginationQuery = z.infer<typeof CursorPaginationQuerySchema>;
+
+/**
+ * Cursor paginated response wrapper schema
+ */
+export const createCursorPaginatedResponseSchema = <T extends z.ZodTypeAny>(itemSchema: T) => {
+  return z.object({
+    data: z.array(itemSchema),
+    limit: z.number().int().positive(),
+    next_cursor: z.string().nullable(),
+    prev_cursor: z.string().nullable(),
+    total_items: z.number().int().nonnegative().optional(),
+  });
+};
+
+/**
+ * Helper type for cursor paginated response
+ */
+export type CursorPaginatedResponse<T> = {
+  data: T[];
+  limit: number;
+  next_cursor: string | null;
+  prev_cursor: string | null;
+  total_items?: number;
+};
+
 // ============================================================================
 // Sorting & Filtering Schemas
 // ============================================================================
@@ -126,6 +164,28 @@ export const ErrorResponseSchema = z.object({
  */
 export type ErrorResponse = z.infer<typeof ErrorResponseSchema>;
 
+/**
+ * API error schema (mirrors the `ApiError` sent by controller error responses)
+ */
+export const ApiErrorSchema = z.object({
+  message: z.string(),
+  code: z.string().optional(),
+  type: z.enum(['validation', 'authentication', 'authorization', 'not_found', 'server_error', 'client_error']),
+  details: z.record(z.string(), z.unknown()).optional(),
+  timestamp: z.string(),
+  requestId: z.string(),
+});
+
+/**
+ * API error envelope schema (`{ error: ApiError }`)
+ */
+export const ApiErrorResponseSchema = z.object({ error: ApiErrorSchema }).meta({ id: 'ApiErrorResponse' });
+
+/**
+ * Inferred type for API error envelope
+ */
+export type ApiErrorResponse = z.infer<typeof ApiErrorResponseSchema>;
+
 /**
  * Generic API response schema (success or error)
  */
@@ -0,0 +1,10 @@
+export type {
+  ApplicationTenancyConfig,
+  TenantDatabaseConfig,
+  TenantDatabaseIsolation,
+  TenantOverrides,
+  TenantRequest,
+  TenantResolverFunction,
+  TenantResolverType,
+} from './tenancy.interface.js';
+export { default as Tenancy } from './tenancy.js';
@@ -0,0 +1,78 @@
+import type { IncomingHttpHeaders } from 'node:http';
+
+/** Where the tenant of a request is read from */
+export type TenantResolverType = 'subdomain' | 'header' | 'jwt';
+
+/** Request fields a tenant is resolved from (satisfied by Fastify requests and WebSocket upgrade requests) */
+export interface TenantRequest {
+  headers: IncomingHttpHeaders;
+
+  /** Host name without port */
+  hostname: string;
+}
+
+/** Custom resolver returning the tenant ID of a request, or `undefined` when it has none */
+export type TenantResolverFunction = (request: TenantRequest) => string | undefined | Promise<string | undefined>;
+
+/**
+ * How tenant data is isolated in the database:
+ * `filter` scopes rows of tenant entities by their `tenantId` column, `schema` switches to a schema per tenant.
+ */
+export type TenantDatabaseIsolation = 'filter' | 'schema';
+
+export interface TenantDatabaseConfig {
+  /** Isolation strategy (default: `filter`) */
+  isolation?: TenantDatabaseIsolation;
+
+  /** Prefix of the tenant schemas with `schema` isolation (default: `tenant_`) */
+  schemaPrefix?: string;
+}
+
+/** Settings of a single tenant */
+export interface TenantOverrides {
+  /** Rate limit of the tenant, replacing `web.security.rateLimit.max` */
+  rateLimit?: {
+    max?: number;
+  };
+
+  /** Tenant-specific settings, read with `Tenancy.getTenantConfig()` */
+  config?: Record<string, unknown>;
+}
+
+export interface ApplicationTenancyConfig {
+  /** Whether multi-tenancy is enabled */
+  enabled: boolean;
+
+  /**
+   * How the tenant is resolved: the first label of the host name, a header, a claim of the authenticated
+   * user's JWT (set once the request is authenticated), or a custom function
+   */
+  resolver: TenantResolverType | TenantResolverFunction;
+
+  /** Header read by the `header` resolver (default: `x-tenant-id`) */
+  header?: string;
+
+  /** JWT claim holding the tenant ID (default: `tenantId`) */
+  claim?: string;
+
+  /** Domain the `subdomain` resolver strips from the host name, e.g. `example.com` (default: all but the first label) */
+  baseDomain?: string;
+
+  /** Whether requests without a tenant are rejected with 400 (default: `true`) */
+  required?: boolean;
+
+  /**
+   * Whether credentials without a tenant (JWTs without the tenant claim, API keys and HMAC clients without
+   * `tenantId`) may access any tenant. Grants cross-tenant access, e.g. to platform administrators (default: `false`)
+   */
+  allowUnscopedCredentials?: boolean;
+
+  /** Paths resolved without a tenant, `/*` matching everything below a path (default: the health check paths) */
+  excludePaths?: string[];
+
+  /** Database isolation */
+  database?: TenantDatabaseConfig;
+
+  /** Per-tenant rate limits and settings, by tenant ID */
+  tenants?: Record<string, TenantOverrides>;
+}
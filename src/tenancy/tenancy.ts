@@ -0,0 +1,165 @@
+import { getContextMetadata, getTenantId, setContextMetadata } from '../request-context/index.js';
+import type { ApplicationTenancyConfig, TenantOverrides, TenantRequest } from './tenancy.interface.js';
+
+/** Header read by the `header` resolver */
+const DEFAULT_HEADER = 'x-tenant-id';
+
+/** JWT claim holding the tenant ID */
+const DEFAULT_CLAIM = 'tenantId';
+
+/** Paths resolved without a tenant */
+const DEFAULT_EXCLUDE_PATHS = ['/health/live', '/health/ready'];
+
+/** Tenant IDs end up in schema names, cache keys and room names, so only a safe subset is accepted */
+const TENANT_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]{0,62}$/;
+
+/** Request context metadata key set by `setTenantRequired()` */
+const TENANT_REQUIRED_KEY = 'tenancy:tenantRequired';
+
+/**
+ * Whether multi-tenancy is enabled.
+ */
+const isEnabled = (config: ApplicationTenancyConfig | undefined): config is ApplicationTenancyConfig =>
+  config?.enabled === true;
+
+/**
+ * Whether the tenant ID is well-formed (letters, digits, `_` and `-`, at most 63 characters).
+ */
+const isValidTenantId = (tenantId: unknown): tenantId is string =>
+  typeof tenantId === 'string' && TENANT_ID_PATTERN.test(tenantId);
+
+/**
+ * Whether requests to the path are resolved without a tenant. Paths ending in `/*` exclude the path and everything
+ * below it.
+ */
+const isExcludedPath = ({ config, path }: { config: ApplicationTenancyConfig; path: string }): boolean => {
+  const pathname = path.split('?')[0] ?? path;
+
+  return (config.excludePaths ?? DEFAULT_EXCLUDE_PATHS).some(excludedPath =>
+    excludedPath.endsWith('/*')
+      ? pathname === excludedPath.slice(0, -2) || pathname.startsWith(excludedPath.slice(0, -1))
+      : pathname === excludedPath,
+  );
+};
+
+/**
+ * Resolve the tenant ID of a request with the `subdomain`, `header` or custom resolver.
+ * Returns `undefined` for the `jwt` resolver, which resolves the tenant when the request is authenticated.
+ */
+const resolveTenantId = async ({
+  request,
+  config,
+}: {
+  request: TenantRequest;
+  config: ApplicationTenancyConfig;
+}): Promise<string | undefined> => {
+  const { resolver } = config;
+
+  if (typeof resolver === 'function') {
+    return resolver(request);
+  }
+
+  switch (resolver) {
+    case 'subdomain': {
+      const hostname = request.hostname.toLowerCase();
+
+      if (config.baseDomain) {
+        const suffix = `.${config.baseDomain.toLowerCase()}`;
+
+        return hostname.endsWith(suffix) ? hostname.slice(0, -suffix.length) : undefined;
+      }
+
+      const labels = hostname.split('.');
+
+      return labels.length > 2 ? labels[0] : undefined;
+    }
+    case 'header': {
+      const value = request.headers[(config.header ?? DEFAULT_HEADER).toLowerCase()];
+
+      return Array.isArray(value) ? value[0] : value;
+    }
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Get the tenant ID from the claims of a JWT.
+ */
+const getTenantIdFromClaims = ({
+  payload,
+  config,
+}: {
+  payload: Record<string, unknown> | undefined;
+  config: ApplicationTenancyConfig;
+}): string | undefined => {
+  const value = payload?.[config.claim ?? DEFAULT_CLAIM];
+
+  return typeof value === 'number' ? String(value) : typeof value === 'string' ? value : undefined;
+};
+
+/**
+ * Mark whether the current context needs a tenant to access tenant data. While it has none, queries on tenant
+ * entities match no rows and creating them fails. Set by the web server for requests whose tenant is only known once
+ * they are authenticated (`jwt` resolver).
+ */
+const setTenantRequired = (required: boolean): void => {
+  setContextMetadata(TENANT_REQUIRED_KEY, required);
+};
+
+/**
+ * Whether the current context needs a tenant to access tenant data (see `setTenantRequired()`).
+ */
+const isTenantRequired = (): boolean => getContextMetadata(TENANT_REQUIRED_KEY) === true;
+
+/**
+ * Get the overrides of a tenant (default: the tenant of the current context).
+ */
+const getTenantOverrides = ({
+  config,
+  tenantId = getTenantId(),
+}: {
+  config: ApplicationTenancyConfig | undefined;
+  tenantId?: string;
+}): TenantOverrides | undefined => (tenantId ? config?.tenants?.[tenantId] : undefined);
+
+/**
+ * Get the settings of a tenant (default: the tenant of the current context) from `tenancy.tenants`.
+ *
+ * @example
+ * const { maxUploadSize = 10_000_000 } = Tenancy.getTenantConfig<{ maxUploadSize?: number }>({
+ *   config: applicationConfig.tenancy,
+ * });
+ */
+const getTenantConfig = <T extends Record<string, unknown> = Record<string, unknown>>({
+  config,
+  tenantId,
+}: {
+  config: ApplicationTenancyConfig | undefined;
+  tenantId?: string;
+}): Partial<T> => (getTenantOverrides({ config, tenantId })?.config ?? {}) as Partial<T>;
+
+/**
+ * Prefix a key (cache key, room name, ...) with the tenant (default: the tenant of the current context).
+ * Keys are returned unchanged outside of a tenant.
+ *
+ * @example
+ * Tenancy.getTenantScopedKey({ key: 'user:1', tenantId: 'acme' }); // 'tenant:acme:user:1'
+ */
+const getTenantScopedKey = ({ key, tenantId = getTenantId() }: { key: string; tenantId?: string }): string =>
+  tenantId ? `tenant:${tenantId}:${key}` : key;
+
+export default {
+  DEFAULT_HEADER,
+  DEFAULT_CLAIM,
+  isEnabled,
+  isValidTenantId,
+  isExcludedPath,
+  resolveTenantId,
+  getTenantIdFromClaims,
+  setTenantRequired,
+  isTenantRequired,
+  getTenantOverrides,
+  getTenantConfig,
+  getTenantScopedKey,
+};
@@ -0,0 +1,81 @@
+import { z } from 'zod';
+import AuthTokenController from './controller/auth-token.js';
+import { type WebServerRoute, WebServerRouteType } from './webserver.interface.js';
+
+export interface DefineAuthRoutesConfig {
+  /** Refresh endpoint path (default: `/auth/refresh`, `false` to omit) */
+  refreshPath?: string | false;
+
+  /** Revocation endpoint path (default: `/auth/revoke`, `false` to omit) */
+  revokePath?: string | false;
+
+  /** JWKS document path (default: `/.well-known/jwks.json`, `false` to omit) */
+  jwksPath?: string | false;
+
+  /** OpenAPI tags (default: `['auth']`) */
+  tags?: string[];
+}
+
+/**
+ * Define routes for refreshing and revoking tokens and serving the JWKS document, backed by `AuthTokenService`.
+ *
+ * - `POST /auth/refresh` with `{ refreshToken }` returns a new token pair (the refresh token is rotated)
+ * - `POST /auth/revoke` with `{ token }` revokes an access token, or a refresh token and its whole family
+ * - `GET /.well-known/jwks.json` returns the public signing key for `RS256`/`ES256`
+ *
+ * @example
+ * web: {
+ *   routes: [...defineAuthRoutes(), ...appRoutes],
+ * }
+ */
+export function defineAuthRoutes(config: DefineAuthRoutesConfig = {}): WebServerRoute[] {
+  const {
+    refreshPath = '/auth/refresh',
+    revokePath = '/auth/revoke',
+    jwksPath = '/.well-known/jwks.json',
+    tags = ['auth'],
+  } = config;
+
+  const routes: WebServerRoute[] = [];
+
+  if (refreshPath) {
+    routes.push({
+      type: WebServerRouteType.Default,
+      method: 'POST',
+      path: refreshPath,
+      controller: AuthTokenController,
+      action: 'refresh',
+      schema: {
+        body: z.object({ refreshToken: z.string().min(1) }),
+      },
+      openapi: { tags, summary: 'Refresh access token' },
+    });
+  }
+
+  if (revokePath) {
+    routes.push({
+      type: WebServerRouteType.Default,
+      method: 'POST',
+      path: revokePath,
+      controller: AuthTokenController,
+      action: 'revoke',
+      schema: {
+        body: z.object({ token: z.string().min(1) }),
+      },
+      openapi: { tags, summary: 'Revoke token' },
+    });
+  }
+
+  if (jwksPath) {
+    routes.push({
+      type: WebServerRouteType.Default,
+      method: 'GET',
+      path: jwksPath,
+      controller: AuthTokenController,
+      action: 'jwks',
+      openapi: { tags, summary: 'JSON Web Key Set' },
+    });
+  }
+
+  return routes;
+}
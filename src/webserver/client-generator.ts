@@ -0,0 +1,388 @@
+import { z } from 'zod';
+import { ApiErrorResponseSchema } from '../schemas/common.js';
+import type {
+  OpenApiDocument,
+  OpenApiOperation,
+  OpenApiParameter,
+  OpenApiResponse,
+  OpenApiSchemaObject,
+} from './openapi.interface.js';
+import { generateOpenApiDocument } from './openapi.js';
+import type { WebServerRoute } from './webserver.interface.js';
+
+export interface GenerateApiClientOptions {
+  /** Routes to generate client functions for */
+  routes: WebServerRoute[];
+
+  /** Header comment identifying the generator (default: `pxl generate client`) */
+  generatedBy?: string;
+}
+
+interface ClientOperation {
+  operationId: string;
+  method: string;
+  path: string;
+  operation: OpenApiOperation;
+}
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+function toTypeName(value: string): string {
+  const name = value
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('');
+
+  return /^[0-9]/.test(name) ? `T${name}` : name || 'Unnamed';
+}
+
+function toPropertyKey(name: string): string {
+  return IDENTIFIER_PATTERN.test(name) ? name : JSON.stringify(name);
+}
+
+function wrapUnionMember(type: string): string {
+  return type.includes(' | ') || type.includes(' & ') ? `(${type})` : type;
+}
+
+/**
+ * Convert a JSON Schema (as emitted by the OpenAPI generator) to a TypeScript type expression.
+ */
+export function jsonSchemaToTypeScript(schema: unknown, indent = ''): string {
+  if (!schema || typeof schema !== 'object' || Object.keys(schema).length === 0) {
+    return 'unknown';
+  }
+
+  const jsonSchema = schema as OpenApiSchemaObject;
+
+  if (typeof jsonSchema.$ref === 'string') {
+    return toTypeName(jsonSchema.$ref.split('/').pop() ?? 'unknown');
+  }
+
+  if ('const' in jsonSchema) {
+    return JSON.stringify(jsonSchema.const);
+  }
+
+  if (Array.isArray(jsonSchema.enum)) {
+    return jsonSchema.enum.map(value => JSON.stringify(value)).join(' | ') || 'never';
+  }
+
+  const unionMembers = (jsonSchema.anyOf ?? jsonSchema.oneOf) as unknown[] | undefined;
+
+  if (Array.isArray(unionMembers)) {
+    return unionMembers.map(member => wrapUnionMember(jsonSchemaToTypeScript(member, indent))).join(' | ');
+  }
+
+  if (Array.isArray(jsonSchema.allOf)) {
+    return jsonSchema.allOf.map(member => wrapUnionMember(jsonSchemaToTypeScript(member, indent))).join(' & ');
+  }
+
+  if (Array.isArray(jsonSchema.type)) {
+    return jsonSchema.type
+      .map(type => jsonSchemaToTypeScript({ ...jsonSchema, type }, indent))
+      .map(wrapUnionMember)
+      .join(' | ');
+  }
+
+  switch (jsonSchema.type) {
+    case 'string':
+      return 'string';
+    case 'number':
+    case 'integer':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'null':
+      return 'null';
+    case 'array': {
+      if (Array.isArray(jsonSchema.prefixItems)) {
+        return `[${jsonSchema.prefixItems.map(item => jsonSchemaToTypeScript(item, indent)).join(', ')}]`;
+      }
+
+      return `${wrapUnionMember(jsonSchemaToTypeScript(jsonSchema.items, indent))}[]`;
+    }
+    case 'object':
+      return objectSchemaToTypeScript(jsonSchema, indent);
+    default:
+      return jsonSchema.properties ? objectSchemaToTypeScript(jsonSchema, indent) : 'unknown';
+  }
+}
+
+function objectSchemaToTypeScript(jsonSchema: OpenApiSchemaObject, indent: string): string {
+  const properties = (jsonSchema.properties ?? {}) as Record<string, unknown>;
+  const required = new Set(Array.isArray(jsonSchema.required) ? (jsonSchema.required as string[]) : []);
+  const additionalProperties = jsonSchema.additionalProperties;
+  const nestedIndent = `${indent}  `;
+
+  const members = Object.entries(properties).map(
+    ([name, propertySchema]) =>
+      `${nestedIndent}${toPropertyKey(name)}${required.has(name) ? '' : '?'}: ${jsonSchemaToTypeScript(propertySchema, nestedIndent)};`,
+  );
+
+  if (additionalProperties && typeof additionalProperties === 'object') {
+    const valueType = jsonSchemaToTypeScript(additionalProperties, nestedIndent);
+
+    if (members.length === 0) {
+      return `Record<string, ${valueType}>`;
+    }
+
+    members.push(`${nestedIndent}[key: string]: unknown;`);
+  } else if (members.length === 0) {
+    return additionalProperties === false ? 'Record<string, never>' : 'Record<string, unknown>';
+  }
+
+  return `{\n${members.join('\n')}\n${indent}}`;
+}
+
+function collectOperations(document: OpenApiDocument): ClientOperation[] {
+  const operations: ClientOperation[] = [];
+
+  for (const [path, pathItem] of Object.entries(document.paths)) {
+    for (const [method, operation] of Object.entries(pathItem)) {
+      if (operation) {
+        operations.push({ operationId: operation.operationId, method: method.toUpperCase(), path, operation });
+      }
+    }
+  }
+
+  return operations;
+}
+
+function parametersToTypeScript(parameters: OpenApiParameter[]): string {
+  const members = parameters.map(
+    parameter =>
+      `    ${toPropertyKey(parameter.name)}${parameter.required ? '' : '?'}: ${jsonSchemaToTypeScript(parameter.schema, '    ')};`,
+  );
+
+  return `{\n${members.join('\n')}\n  }`;
+}
+
+function successResponseType(responses: Record<string, OpenApiResponse>): string {
+  const successStatuses = Object.keys(responses).filter(status => /^2\d\d$/.test(status));
+
+  if (successStatuses.length === 0) {
+    return 'unknown';
+  }
+
+  const types = successStatuses.map(status => {
+    const schema = responses[status]?.content?.['application/json']?.schema;
+
+    if (schema) {
+      return jsonSchemaToTypeScript(schema);
+    }
+
+    return status === '204' ? 'void' : 'unknown';
+  });
+
+  return [...new Set(types)].map(wrapUnionMember).join(' | ');
+}
+
+function generateOperation({ operationId, method, path, operation }: ClientOperation): {
+  types: string;
+  member: string;
+} {
+  const typeName = toTypeName(operationId);
+  const parameters = operation.parameters ?? [];
+  const inputMembers: string[] = [];
+  let inputRequired = false;
+
+  for (const [location, key] of [
+    ['path', 'params'],
+    ['query', 'query'],
+    ['header', 'headers'],
+  ] as const) {
+    const locationParameters = parameters.filter(parameter => parameter.in === location);
+
+    if (locationParameters.length === 0) {
+      continue;
+    }
+
+    const required = locationParameters.some(parameter => parameter.required);
+    inputRequired ||= required;
+    inputMembers.push(`  ${key}${required ? '' : '?'}: ${parametersToTypeScript(locationParameters)};`);
+  }
+
+  const bodySchema = operation.requestBody?.content['application/json']?.schema;
+
+  if (bodySchema) {
+    const required = operation.requestBody?.required === true;
+    inputRequired ||= required;
+    inputMembers.push(`  body${required ? '' : '?'}: ${jsonSchemaToTypeScript(bodySchema, '  ')};`);
+  }
+
+  const types: string[] = [];
+  const docLines = [operation.summary, operation.description].filter(Boolean);
+  const docComment = `/** ${[`${method} ${path}`, ...docLines].join(' — ')}${operation.deprecated ? ' @deprecated' : ''} */`;
+
+  if (inputMembers.length > 0) {
+    types.push(`export interface ${typeName}Input {\n${inputMembers.join('\n')}\n}`);
+  }
+
+  types.push(`export type ${typeName}Response = ${successResponseType(operation.responses)};`);
+
+  // Interpolate path params into a template literal
+  const pathExpression = path.replace(
+    /\{([^}]+)\}/g,
+    (_match, name: string) =>
+      `\${encodeURIComponent(String(input.params${IDENTIFIER_PATTERN.test(name) ? `.${name}` : `[${JSON.stringify(name)}]`}))}`,
+  );
+
+  const inputParameter = inputMembers.length > 0 ? `input: ${typeName}Input${inputRequired ? '' : ' = {}'}, ` : '';
+  const requestArguments = [
+    `method: '${method}'`,
+    `path: \`${pathExpression}\``,
+    ...(parameters.some(parameter => parameter.in === 'query') ? ['query: input.query'] : []),
+    ...(parameters.some(parameter => parameter.in === 'header') ? ['headers: input.headers'] : []),
+    ...(bodySchema ? ['body: input.body'] : []),
+  ];
+
+  const member = [
+    `    ${docComment}`,
+    `    ${operationId}: (${inputParameter}init?: RequestInit): Promise<${typeName}Response> =>`,
+    `      request<${typeName}Response>({ ${requestArguments.join(', ')} }, init),`,
+  ].join('\n');
+
+  return { types: types.join('\n\n'), member };
+}
+
+const CLIENT_RUNTIME = `export type ApiClientHeaders = Record<string, string>;
+
+export interface ApiClientOptions {
+  /** Base URL of the API (e.g. https://api.example.com) */
+  baseUrl: string;
+
+  /** Headers sent with every request (e.g. Authorization) */
+  headers?: ApiClientHeaders | (() => ApiClientHeaders | Promise<ApiClientHeaders>);
+
+  /** Custom fetch implementation (defaults to global fetch) */
+  fetch?: typeof fetch;
+}
+
+export class ApiClientError extends Error {
+  public readonly status: number;
+  public readonly body: ApiErrorResponse | undefined;
+
+  constructor(status: number, body: ApiErrorResponse | undefined) {
+    super(body?.error?.message ?? \`Request failed with status \${status}\`);
+    this.name = 'ApiClientError';
+    this.status = status;
+    this.body = body;
+  }
+}
+
+type QueryValue = string | number | boolean | Date | null | undefined;
+
+function serializeQuery(query: Record<string, QueryValue | QueryValue[]> | undefined): string {
+  if (!query) {
+    return '';
+  }
+
+  const searchParams = new URLSearchParams();
+
+  for (const [key, value] of Object.entries(query)) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      if (item === undefined || item === null) {
+        continue;
+      }
+
+      searchParams.append(key, item instanceof Date ? item.toISOString() : String(item));
+    }
+  }
+
+  const serialized = searchParams.toString();
+
+  return serialized ? \`?\${serialized}\` : '';
+}
+
+interface ApiRequest {
+  method: string;
+  path: string;
+  query?: object;
+  headers?: object;
+  body?: unknown;
+}`;
+
+/**
+ * Generate a standalone TypeScript API client module from web server routes.
+ *
+ * The module exports `createApiClient(options)` with one typed function per route operation
+ * (named after its OpenAPI operation ID). Non-2xx responses reject with `ApiClientError`,
+ * whose `body` is typed as the framework's `ApiResponse` error envelope.
+ */
+export function generateApiClient({ routes, generatedBy = 'pxl generate client' }: GenerateApiClientOptions): string {
+  const document = generateOpenApiDocument({ routes, info: { title: 'API client', version: '1.0.0' } });
+
+  const componentSchemas: Record<string, OpenApiSchemaObject> = { ...document.components.schemas };
+
+  // The error envelope is always needed by ApiClientError
+  if (!componentSchemas.ApiErrorResponse) {
+    const {
+      $schema: _dialect,
+      id: _id,
+      ...errorSchema
+    } = z.toJSONSchema(ApiErrorResponseSchema) as OpenApiSchemaObject;
+    componentSchemas.ApiErrorResponse = errorSchema;
+  }
+
+  const componentTypes = Object.entries(componentSchemas).map(
+    ([name, schema]) => `export type ${toTypeName(name)} = ${jsonSchemaToTypeScript(schema)};`,
+  );
+
+  const operations = collectOperations(document).map(generateOperation);
+
+  return `/* eslint-disable */
+// This file was generated by \`${generatedBy}\`. Do not edit it by hand.
+
+${componentTypes.join('\n\n')}
+
+${CLIENT_RUNTIME}
+
+${operations.map(operation => operation.types).join('\n\n')}
+
+export function createApiClient(options: ApiClientOptions) {
+  const fetchImplementation = options.fetch ?? fetch;
+  const baseUrl = options.baseUrl.replace(/\\/+$/, '');
+
+  async function request<TResponse>(apiRequest: ApiRequest, init?: RequestInit): Promise<TResponse> {
+    const defaultHeaders = typeof options.headers === 'function' ? await options.headers() : options.headers;
+    const headers: Record<string, string> = { ...defaultHeaders };
+
+    for (const [key, value] of Object.entries(apiRequest.headers ?? {})) {
+      if (value !== undefined && value !== null) {
+        headers[key] = String(value);
+      }
+    }
+
+    if (apiRequest.body !== undefined) {
+      headers['content-type'] ??= 'application/json';
+    }
+
+    const response = await fetchImplementation(
+      \`\${baseUrl}\${apiRequest.path}\${serializeQuery(apiRequest.query as Record<string, QueryValue | QueryValue[]>)}\`,
+      {
+        ...init,
+        method: apiRequest.method,
+        headers: { ...headers, ...(init?.headers as Record<string, string> | undefined) },
+        body: apiRequest.body === undefined ? undefined : JSON.stringify(apiRequest.body),
+      },
+    );
+
+    const text = await response.text();
+    const isJson = response.headers.get('content-type')?.includes('json') ?? false;
+    const payload = text && isJson ? JSON.parse(text) : text || undefined;
+
+    if (!response.ok) {
+      throw new ApiClientError(response.status, payload as ApiErrorResponse | undefined);
+    }
+
+    return payload as TResponse;
+  }
+
+  return {
+${operations.map(operation => operation.member).join('\n')}
+  };
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
+`;
+}
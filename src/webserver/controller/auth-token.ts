@@ -0,0 +1,117 @@
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { StatusCodes } from 'http-status-codes';
+import AuthTokenService from '../../auth/token-service.js';
+import { AuthenticationError } from '../../error/framework-errors.js';
+import BaseController from './base.js';
+
+/**
+ * Built-in controller for refreshing and revoking tokens and serving the JWKS document.
+ * Register its routes with `defineAuthRoutes()`.
+ */
+export default class AuthTokenController extends BaseController {
+  private getTokenService(): AuthTokenService | null {
+    const authConfig = this.applicationConfig.auth;
+
+    if (!authConfig) {
+      return null;
+    }
+
+    return new AuthTokenService({ authConfig, redisInstance: this.redisInstance });
+  }
+
+  private getRequestToken(request: FastifyRequest, property: 'refreshToken' | 'token'): string | undefined {
+    const body = request.body as Record<string, unknown> | undefined;
+    const token = body?.[property];
+
+    return typeof token === 'string' && token.length > 0 ? token : undefined;
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair.
+   */
+  public refresh = async (request: FastifyRequest, reply: FastifyReply): Promise<void> => {
+    const tokenService = this.getTokenService();
+
+    if (!tokenService) {
+      return this.sendErrorResponse({
+        reply,
+        error: 'Authentication not configured.',
+        statusCode: StatusCodes.INTERNAL_SERVER_ERROR,
+      });
+    }
+
+    const refreshToken = this.getRequestToken(request, 'refreshToken');
+
+    if (!refreshToken) {
+      return this.sendErrorResponse({
+        reply,
+        error: 'No refresh token provided.',
+        statusCode: StatusCodes.BAD_REQUEST,
+      });
+    }
+
+    try {
+      const tokens = await tokenService.refreshTokens({ refreshToken });
+
+      this.sendSuccessResponse({ reply, data: tokens });
+    } catch (error) {
+      if (error instanceof AuthenticationError) {
+        return this.sendErrorResponse({ reply, error: error.message, statusCode: StatusCodes.UNAUTHORIZED });
+      }
+
+      throw error;
+    }
+  };
+
+  /**
+   * Revoke an access token, or a refresh token together with every token issued from the same login.
+   */
+  public revoke = async (request: FastifyRequest, reply: FastifyReply): Promise<void> => {
+    const tokenService = this.getTokenService();
+
+    if (!tokenService) {
+      return this.sendErrorResponse({
+        reply,
+        error: 'Authentication not configured.',
+        statusCode: StatusCodes.INTERNAL_SERVER_ERROR,
+      });
+    }
+
+    const token = this.getRequestToken(request, 'token');
+
+    if (!token) {
+      return this.sendErrorResponse({ reply, error: 'No token provided.', statusCode: StatusCodes.BAD_REQUEST });
+    }
+
+    try {
+      await tokenService.revokeToken({ token });
+
+      reply.status(StatusCodes.NO_CONTENT).send();
+    } catch (error) {
+      if (error instanceof AuthenticationError) {
+        return this.sendErrorResponse({ reply, error: error.message, statusCode: StatusCodes.UNAUTHORIZED });
+      }
+
+      throw error;
+    }
+  };
+
+  /**
+   * Serve the JSON Web Key Set (empty for `HS256`).
+   */
+  public jwks = async (_request: FastifyRequest, reply: FastifyReply): Promise<void> => {
+    const tokenService = this.getTokenService();
+
+    if (!tokenService) {
+      return this.sendErrorResponse({
+        reply,
+        error: 'Authentication not configured.',
+        statusCode: StatusCodes.INTERNAL_SERVER_ERROR,
+      });
+    }
+
+    const jwks = await tokenService.getJwks();
+
+    reply.header('cache-control', 'public, max-age=300').send(jwks);
+  };
+}
@@ -2,7 +2,10 @@ import cluster from 'node:cluster';
 import type { FastifyReply, FastifyRequest } from 'fastify';
 import { StatusCodes } from 'http-status-codes';
 import type { ApplicationConfig } from '../../application/base-application.interface.js';
-import Jwt from '../../auth/jwt.js';
+import type { AuthenticatedUser } from '../../auth/authenticate.js';
+import Authorization from '../../auth/authorization.js';
+import type { AuthenticationStrategyName } from '../../auth/strategy.interface.js';
+import AuthenticationStrategies from '../../auth/strategy.js';
 import type { DatabaseInstance } from '../../database/index.js';
 import { safeSerializeError } from '../../error/error-reporter.js';
 import type EventManager from '../../event/manager.js';
@@ -10,13 +13,11 @@ import type { LifecycleManager } from '../../lifecycle/lifecycle-manager.js';
 import { Logger } from '../../logger/index.js';
 import type { QueueManager } from '../../queue/index.js';
 import type { RedisInstance } from '../../redis/index.js';
+import WebServerUtil from '../util.js';
 import type { WebServerOptions } from '../webserver.interface.js';
 import type { ApiError, ApiResponse, WebServerBaseControllerConstructorParams } from './base.interface.js';
 
-export interface AuthenticatedUser<TPayload = Record<string, unknown>> {
-  userId: number;
-  payload: TPayload;
-}
+export type { AuthenticatedUser } from '../../auth/authenticate.js';
 
 export default abstract class BaseController<
   TQueueManager extends QueueManager = QueueManager,
@@ -94,19 +95,21 @@ export default abstract class BaseController<
     error,
     statusCode = StatusCodes.BAD_REQUEST,
     errorType,
+    details,
   }: {
     reply: FastifyReply;
     error: unknown;
     statusCode?: StatusCodes;
     errorType?: ApiError['type'];
+    details?: Record<string, unknown>;
   }) {
     let publicErrorMessage: string;
-    let errorDetails: Record<string, unknown> | undefined;
+    let errorDetails: Record<string, unknown> | undefined = details;
 
     if (this.webServerOptions.errors?.verbose === true) {
       if (error instanceof Error) {
         publicErrorMessage = error.stack ?? error.message;
-        errorDetails = { stack: error.stack, name: error.name };
+        errorDetails = { ...details, stack: error.stack, name: error.name };
       } else {
         publicErrorMessage = safeSerializeError(error);
       }
@@ -122,7 +125,7 @@ export default abstract class BaseController<
       } else {
         if (error instanceof Error) {
           publicErrorMessage = error.stack ?? error.message;
-          errorDetails = { stack: error.stack, name: error.name };
+          errorDetails = { ...details, stack: error.stack, name: error.name };
         } else {
           publicErrorMessage = safeSerializeError(error);
         }
@@ -133,7 +136,7 @@ export default abstract class BaseController<
 
     const apiError: ApiError = {
       message: publicErrorMessage,
-      type: errorType ?? this.getErrorType(statusCode),
+      type: errorType ?? WebServerUtil.getErrorType(statusCode),
       timestamp: new Date().toISOString(),
       requestId: reply.request.id || 'unknown',
       ...(errorDetails && { details: errorDetails }),
@@ -143,96 +146,84 @@ export default abstract class BaseController<
     reply.status(statusCode).send(response);
   }
 
-  private getErrorType(statusCode: StatusCodes): ApiError['type'] {
-    switch (statusCode) {
-      case StatusCodes.UNAUTHORIZED:
-        return 'authentication';
-      case StatusCodes.FORBIDDEN:
-        return 'authorization';
-      case StatusCodes.NOT_FOUND:
-        return 'not_found';
-      case StatusCodes.BAD_REQUEST:
-      case StatusCodes.UNPROCESSABLE_ENTITY:
-        return 'validation';
-      case StatusCodes.INTERNAL_SERVER_ERROR:
-      case StatusCodes.BAD_GATEWAY:
-      case StatusCodes.SERVICE_UNAVAILABLE:
-        return 'server_error';
-      default:
-        return 'client_error';
+  /**
+   * Authenticate the request with any of the given strategies (default: `auth.strategies`, or a Bearer JWT).
+   * Without strategies, the user a guard already authenticated (`request.user`) is reused.
+   * Sends a 401 error response and returns null otherwise.
+   */
+  protected async authenticateRequest(
+    request: FastifyRequest,
+    reply: FastifyReply,
+    strategies?: AuthenticationStrategyName[],
+  ): Promise<AuthenticatedUser | null> {
+    const guardedUser = (request as FastifyRequest & { user?: AuthenticatedUser }).user;
+
+    if (guardedUser && !strategies) {
+      return guardedUser;
     }
-  }
 
-  protected async authenticateRequest(request: FastifyRequest, reply: FastifyReply): Promise<AuthenticatedUser | null> {
-    // Get JWT secret key from application config
-    const jwtSecretKey = this.applicationConfig.auth?.jwtSecretKey;
+    const result = await AuthenticationStrategies.authenticate({
+      request,
+      applicationConfig: this.applicationConfig,
+      redisInstance: this.redisInstance,
+      strategies,
+    });
 
-    if (!jwtSecretKey) {
+    if (!result.success) {
       this.sendErrorResponse({
         reply,
-        error: 'Authentication not configured.',
-        statusCode: StatusCodes.INTERNAL_SERVER_ERROR,
-        errorType: 'server_error',
+        error: result.message,
+        statusCode: result.statusCode,
+        errorType: result.errorType,
       });
       return null;
     }
 
-    const authHeader = request.headers.authorization;
+    return result.user;
+  }
 
-    if (!authHeader) {
-      this.sendErrorResponse({
-        reply,
-        error: 'No token provided.',
-        statusCode: StatusCodes.UNAUTHORIZED,
-        errorType: 'authentication',
-      });
-      return null;
-    }
+  /**
+   * Authenticate the request (unless a guard already set `request.user`) and check that the user holds all required
+   * permissions. Sends a 401 or 403 error response and returns null otherwise.
+   */
+  protected async authorizeRequest({
+    request,
+    reply,
+    requires,
+  }: {
+    request: FastifyRequest;
+    reply: FastifyReply;
+    requires: string[];
+  }): Promise<AuthenticatedUser | null> {
+    const user =
+      (request as FastifyRequest & { user?: AuthenticatedUser }).user ??
+      (await this.authenticateRequest(request, reply));
 
-    if (!authHeader.startsWith('Bearer ')) {
-      this.sendErrorResponse({
-        reply,
-        error: 'Invalid token.',
-        statusCode: StatusCodes.UNAUTHORIZED,
-        errorType: 'authentication',
-      });
+    if (!user) {
       return null;
     }
 
-    try {
-      const importedJwtSecretKey = await Jwt.importJwtSecretKey({
-        jwtSecretKey,
-      });
-
-      // Remove "Bearer " from token
-      const jwtAccessToken = authHeader.substring(7);
-
-      const { payload } = await Jwt.jwtVerify(jwtAccessToken, importedJwtSecretKey);
-
-      if (!payload.sub) {
-        this.sendErrorResponse({
-          reply,
-          error: 'Invalid token payload.',
-          statusCode: StatusCodes.UNAUTHORIZED,
-          errorType: 'authentication',
-        });
-        return null;
-      }
+    const result = await Authorization.authorize({
+      user,
+      requires,
+      config: this.applicationConfig.auth?.authorization,
+    });
 
-      const userId = parseInt(payload.sub, 10);
+    if (!result.allowed) {
+      this.sendForbiddenResponse(reply);
 
-      return {
-        userId,
-        payload,
-      };
-    } catch {
-      this.sendErrorResponse({
-        reply,
-        error: 'Invalid or expired token.',
-        statusCode: StatusCodes.UNAUTHORIZED,
-        errorType: 'authentication',
-      });
       return null;
     }
+
+    return user;
+  }
+
+  protected sendForbiddenResponse(reply: FastifyReply, message: string = 'Insufficient permissions.') {
+    this.sendErrorResponse({
+      reply,
+      error: message,
+      statusCode: StatusCodes.FORBIDDEN,
+      errorType: 'authorization',
+    });
   }
 }
@@ -0,0 +1,80 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { ConfigurationError, ValidationError } from '../../error/framework-errors.js';
+import type { EntityCursorDirection } from './entity.interface.js';
+
+/**
+ * Get the cursor signing secret.
+ *
+ * @throws ConfigurationError if `webServer.pagination.cursorSecret` is not set
+ */
+const getCursorSecret = (cursorSecret?: string): string => {
+  if (!cursorSecret) {
+    throw new ConfigurationError('Cursor pagination requires webServer.pagination.cursorSecret');
+  }
+
+  return cursorSecret;
+};
+
+const sign = ({ payload, scope, secret }: { payload: string; scope: string; secret: string }): string =>
+  createHmac('sha256', secret).update(`${scope}\n${payload}`).digest('base64url');
+
+/**
+ * Sign a keyset cursor. The scope (entity and sort keys) is part of the signature, so a cursor is rejected when the
+ * sort changes between requests.
+ */
+const encodeCursor = ({
+  direction,
+  cursor,
+  scope,
+  secret,
+}: {
+  direction: EntityCursorDirection;
+  cursor: string;
+  scope: string;
+  secret: string;
+}): string => {
+  const payload = `${direction === 'next' ? 'n' : 'p'}.${cursor}`;
+
+  return `${payload}.${sign({ payload, scope, secret })}`;
+};
+
+/**
+ * Verify and decode a cursor created by `encodeCursor`.
+ *
+ * @throws ValidationError if the cursor is malformed, tampered with or belongs to another sort
+ */
+const decodeCursor = ({
+  token,
+  scope,
+  secret,
+}: {
+  token: string;
+  scope: string;
+  secret: string;
+}): { direction: EntityCursorDirection; cursor: string } => {
+  const separatorIndex = token.lastIndexOf('.');
+  const payload = token.slice(0, separatorIndex);
+  const signature = Buffer.from(token.slice(separatorIndex + 1));
+  const expectedSignature = Buffer.from(sign({ payload, scope, secret }));
+  const [direction, cursor] = payload.split('.');
+
+  if (
+    separatorIndex === -1 ||
+    signature.length !== expectedSignature.length ||
+    !timingSafeEqual(signature, expectedSignature) ||
+    (direction !== 'n' && direction !== 'p') ||
+    !cursor
+  ) {
+    throw new ValidationError('Invalid query parameters', {
+      context: { issues: [{ parameter: 'cursor', message: 'Invalid or expired cursor' }] },
+    });
+  }
+
+  return { direction: direction === 'n' ? 'next' : 'prev', cursor };
+};
+
+export default {
+  getCursorSecret,
+  encodeCursor,
+  decodeCursor,
+};
@@ -0,0 +1,58 @@
+import { createHash } from 'node:crypto';
+import { type EntityMetadata, ReferenceKind } from '@mikro-orm/core';
+
+/**
+ * Strong ETag of an entity item: its version column when the entity has one (`@Property({ version: true })`),
+ * otherwise a hash of its scalar and embedded properties, so the ETag does not depend on populated relations.
+ */
+const getEntityETag = ({ item, meta }: { item: object; meta: EntityMetadata }): string => {
+  const version = meta.versionProperty ? (item as Record<string, unknown>)[meta.versionProperty] : undefined;
+
+  if (version !== undefined && version !== null) {
+    return `"v${version instanceof Date ? version.getTime() : String(version)}"`;
+  }
+
+  const values = Object.values(meta.properties)
+    .filter(property => property.kind === ReferenceKind.SCALAR || property.kind === ReferenceKind.EMBEDDED)
+    .map(property => property.name)
+    .sort()
+    .map(name => [name, (item as Record<string, unknown>)[name] ?? null]);
+
+  return `"${createHash('sha256').update(JSON.stringify(values)).digest('base64url').slice(0, 27)}"`;
+};
+
+/**
+ * Whether an `If-Match` or `If-None-Match` header matches the ETag. `*` matches any ETag.
+ * `If-Match` uses the strong comparison (weak tags never match), `If-None-Match` the weak comparison.
+ */
+const matchesETag = ({
+  header,
+  etag,
+  weak = false,
+}: {
+  header: string | string[] | undefined;
+  etag: string;
+  weak?: boolean;
+}): boolean => {
+  const tags = (Array.isArray(header) ? header.join(',') : (header ?? ''))
+    .split(',')
+    .map(tag => tag.trim())
+    .filter(Boolean);
+
+  return tags.some(tag => {
+    if (tag === '*') {
+      return true;
+    }
+
+    if (tag.startsWith('W/')) {
+      return weak && tag.slice(2) === etag;
+    }
+
+    return tag === etag;
+  });
+};
+
+export default {
+  getEntityETag,
+  matchesETag,
+};
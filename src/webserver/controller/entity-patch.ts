@@ -0,0 +1,266 @@
+import { ValidationError } from '../../error/framework-errors.js';
+import type { JsonPatchOperation } from './entity.interface.js';
+
+/** Media type of JSON Patch (RFC 6902) request bodies */
+const JSON_PATCH_CONTENT_TYPE = 'application/json-patch+json';
+
+/** Media type of JSON Merge Patch (RFC 7396) request bodies */
+const MERGE_PATCH_CONTENT_TYPE = 'application/merge-patch+json';
+
+const JSON_PATCH_OPERATIONS = ['add', 'remove', 'replace', 'move', 'copy', 'test'];
+
+const ARRAY_INDEX_PATTERN = /^(0|[1-9]\d*)$/;
+
+type JsonContainer = Record<string, unknown> | unknown[];
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isContainer = (value: unknown): value is JsonContainer => typeof value === 'object' && value !== null;
+
+const patchError = (message: string, operation?: number): ValidationError =>
+  new ValidationError('Patch could not be applied', {
+    context: { issues: [{ ...(operation !== undefined && { operation }), message }] },
+  });
+
+const isDeepEqual = (left: unknown, right: unknown): boolean => {
+  if (left === right) {
+    return true;
+  }
+
+  if (Array.isArray(left) && Array.isArray(right)) {
+    return left.length === right.length && left.every((value, index) => isDeepEqual(value, right[index]));
+  }
+
+  if (isPlainObject(left) && isPlainObject(right)) {
+    const keys = Object.keys(left);
+
+    return (
+      keys.length === Object.keys(right).length &&
+      keys.every(key => Object.hasOwn(right, key) && isDeepEqual(left[key], right[key]))
+    );
+  }
+
+  return false;
+};
+
+/**
+ * Apply a JSON Merge Patch (RFC 7396): objects are merged recursively, `null` removes a member,
+ * anything else replaces the target.
+ */
+const applyMergePatch = (target: unknown, patch: unknown): unknown => {
+  if (!isPlainObject(patch)) {
+    return patch;
+  }
+
+  const result: Record<string, unknown> = isPlainObject(target) ? { ...target } : {};
+
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete result[key];
+    } else {
+      result[key] = applyMergePatch(result[key], value);
+    }
+  }
+
+  return result;
+};
+
+const parsePointer = (pointer: unknown, operation: number): string[] => {
+  if (typeof pointer !== 'string' || (pointer !== '' && !pointer.startsWith('/'))) {
+    throw patchError(`Invalid JSON pointer "${String(pointer)}"`, operation);
+  }
+
+  return pointer === ''
+    ? []
+    : pointer
+        .slice(1)
+        .split('/')
+        .map(token => token.replaceAll('~1', '/').replaceAll('~0', '~'));
+};
+
+const getChild = (container: unknown, token: string): unknown => {
+  if (Array.isArray(container)) {
+    return ARRAY_INDEX_PATTERN.test(token) ? container[Number(token)] : undefined;
+  }
+
+  return isPlainObject(container) && Object.hasOwn(container, token) ? container[token] : undefined;
+};
+
+const getValue = (document: unknown, tokens: string[], operation: number): unknown => {
+  let value = document;
+
+  for (const token of tokens) {
+    value = getChild(value, token);
+
+    if (value === undefined) {
+      throw patchError(`Path "/${tokens.join('/')}" does not exist`, operation);
+    }
+  }
+
+  return value;
+};
+
+const getParent = (document: unknown, tokens: string[], operation: number): JsonContainer => {
+  const parent = getValue(document, tokens.slice(0, -1), operation);
+
+  if (!isContainer(parent)) {
+    throw patchError(`Path "/${tokens.join('/')}" does not exist`, operation);
+  }
+
+  return parent;
+};
+
+const addValue = (document: unknown, tokens: string[], value: unknown, operation: number): unknown => {
+  if (tokens.length === 0) {
+    return value;
+  }
+
+  const parent = getParent(document, tokens, operation);
+  const key = tokens.at(-1) as string;
+
+  if (!Array.isArray(parent)) {
+    parent[key] = value;
+  } else if (key === '-') {
+    parent.push(value);
+  } else if (ARRAY_INDEX_PATTERN.test(key) && Number(key) <= parent.length) {
+    parent.splice(Number(key), 0, value);
+  } else {
+    throw patchError(`Invalid array index "${key}"`, operation);
+  }
+
+  return document;
+};
+
+const removeValue = (document: unknown, tokens: string[], operation: number): unknown => {
+  if (tokens.length === 0) {
+    throw patchError('The document root cannot be removed', operation);
+  }
+
+  getValue(document, tokens, operation);
+
+  const parent = getParent(document, tokens, operation);
+  const key = tokens.at(-1) as string;
+
+  if (Array.isArray(parent)) {
+    parent.splice(Number(key), 1);
+  } else {
+    delete parent[key];
+  }
+
+  return document;
+};
+
+/**
+ * Apply a JSON Patch (RFC 6902) to a copy of the document.
+ *
+ * @throws ValidationError if an operation is malformed, a path does not exist or a `test` operation fails
+ */
+const applyJsonPatch = (document: unknown, operations: unknown): unknown => {
+  if (!Array.isArray(operations)) {
+    throw patchError('A JSON Patch must be an array of operations');
+  }
+
+  let result = structuredClone(document);
+
+  for (const [index, candidate] of operations.entries()) {
+    const operation = candidate as JsonPatchOperation;
+
+    if (!isPlainObject(operation) || !JSON_PATCH_OPERATIONS.includes(operation.op)) {
+      throw patchError('Unknown operation', index);
+    }
+
+    if (['add', 'replace', 'test'].includes(operation.op) && !Object.hasOwn(operation, 'value')) {
+      throw patchError(`"${operation.op}" requires a value`, index);
+    }
+
+    const path = parsePointer(operation.path, index);
+
+    switch (operation.op) {
+      case 'add':
+        result = addValue(result, path, structuredClone(operation.value), index);
+        break;
+      case 'remove':
+        result = removeValue(result, path, index);
+        break;
+      case 'replace':
+        result =
+          path.length === 0
+            ? structuredClone(operation.value)
+            : addValue(removeValue(result, path, index), path, structuredClone(operation.value), index);
+        break;
+      case 'move': {
+        const from = parsePointer(operation.from, index);
+
+        if (path.length > from.length && from.every((token, position) => path[position] === token)) {
+          throw patchError('A value cannot be moved into itself', index);
+        }
+
+        const value = getValue(result, from, index);
+
+        result = addValue(removeValue(result, from, index), path, value, index);
+        break;
+      }
+      case 'copy': {
+        const value = getValue(result, parsePointer(operation.from, index), index);
+
+        result = addValue(result, path, structuredClone(value), index);
+        break;
+      }
+      case 'test':
+        if (!isDeepEqual(getValue(result, path, index), operation.value)) {
+          throw patchError(`Test failed for path "${operation.path}"`, index);
+        }
+        break;
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Apply a PATCH body to the current representation of an entity, by media type:
+ * JSON Patch for `application/json-patch+json`, JSON Merge Patch otherwise.
+ *
+ * @returns The top-level fields that changed; removed fields are set to `null`
+ * @throws ValidationError if the patch cannot be applied
+ */
+const getPatchChanges = ({
+  current,
+  patch,
+  contentType,
+}: {
+  current: Record<string, unknown>;
+  patch: unknown;
+  contentType?: string;
+}): Record<string, unknown> => {
+  const isJsonPatch = contentType?.split(';')[0]?.trim().toLowerCase() === JSON_PATCH_CONTENT_TYPE;
+
+  if (!isJsonPatch && !isPlainObject(patch)) {
+    throw patchError('A merge patch must be a JSON object');
+  }
+
+  const patched = isJsonPatch ? applyJsonPatch(current, patch) : applyMergePatch(current, patch);
+
+  if (!isPlainObject(patched)) {
+    throw patchError('The patched document must be a JSON object');
+  }
+
+  const changes: Record<string, unknown> = {};
+
+  for (const key of new Set([...Object.keys(current), ...Object.keys(patched)])) {
+    if (!isDeepEqual(current[key], patched[key])) {
+      changes[key] = patched[key] ?? null;
+    }
+  }
+
+  return changes;
+};
+
+export default {
+  JSON_PATCH_CONTENT_TYPE,
+  MERGE_PATCH_CONTENT_TYPE,
+  applyMergePatch,
+  applyJsonPatch,
+  getPatchChanges,
+};
@@ -0,0 +1,58 @@
+import type { FilterQuery } from '@mikro-orm/core';
+
+/**
+ * Filter operator, used as `filter[field][operator]=value`.
+ * `in` and `nin` take comma-separated values; `null` takes `true` (is null) or `false` (is not null).
+ */
+export type EntityFilterOperator = 'eq' | 'ne' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'nin' | 'like' | 'ilike' | 'null';
+
+/**
+ * Fields clients may query on an entity controller's getMany.
+ * Fields are property names or dot paths through relations (e.g. `author.name`).
+ * Omitted lists default to the entity's non-hidden scalar properties (`includable`: its non-hidden relations);
+ * dot paths must always be listed explicitly.
+ */
+export interface EntityQueryOptions {
+  /** Fields usable in `filter[...]` */
+  filterable?: string[];
+
+  /** Fields usable in `sort` */
+  sortable?: string[];
+
+  /** Fields usable in `fields` */
+  selectable?: string[];
+
+  /** Relations usable in `include` */
+  includable?: string[];
+
+  /** Allowed filter operators (default: all) */
+  operators?: EntityFilterOperator[];
+}
+
+/**
+ * Parsed and validated getMany query.
+ */
+export interface EntityQuery {
+  filter: FilterQuery<any>;
+  orderBy: Record<string, 'ASC' | 'DESC'>[];
+  fields?: string[];
+  populate: string[];
+}
+
+/**
+ * Query parameter rejected by the query validation.
+ */
+export interface EntityQueryIssue {
+  parameter: string;
+  message: string;
+}
+
+/**
+ * Query capabilities of an entity controller, included in its metadata output.
+ */
+export interface EntityQueryDescription {
+  filterable: { field: string; operators: EntityFilterOperator[] }[];
+  sortable: string[];
+  selectable: string[];
+  includable: string[];
+}
@@ -0,0 +1,502 @@
+import { type EntityMetadata, type EntityProperty, type FilterQuery, ReferenceKind } from '@mikro-orm/core';
+import { ValidationError } from '../../error/framework-errors.js';
+import type {
+  EntityFilterOperator,
+  EntityQuery,
+  EntityQueryDescription,
+  EntityQueryIssue,
+  EntityQueryOptions,
+} from './entity-query.interface.js';
+
+type QueryValue = string | string[] | undefined;
+
+interface FilterCondition {
+  parameter: string;
+  path: string;
+  operator: string;
+  value: unknown;
+}
+
+const OPERATORS: Record<EntityFilterOperator, string> = {
+  eq: '$eq',
+  ne: '$ne',
+  gt: '$gt',
+  gte: '$gte',
+  lt: '$lt',
+  lte: '$lte',
+  in: '$in',
+  nin: '$nin',
+  like: '$like',
+  ilike: '$ilike',
+  null: '$eq',
+};
+
+const STRING_OPERATORS = Object.keys(OPERATORS) as EntityFilterOperator[];
+const COMPARABLE_OPERATORS: EntityFilterOperator[] = ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'in', 'nin', 'null'];
+const BOOLEAN_OPERATORS: EntityFilterOperator[] = ['eq', 'ne', 'null'];
+
+/** Query keys that are never treated as `field=value` filters */
+const RESERVED_QUERY_KEYS = [
+  'page',
+  'limit',
+  'filter',
+  'filters',
+  'sort',
+  'sort-order',
+  'fields',
+  'include',
+  'populate',
+  'search',
+  'cursor',
+  'count',
+  'trashed',
+];
+
+const FILTER_KEY_PATTERN = /^filter\[([^[\]]+)\](?:\[([^[\]]+)\])?$/;
+
+const isRelation = (property: EntityProperty): boolean =>
+  property.kind !== ReferenceKind.SCALAR && property.kind !== ReferenceKind.EMBEDDED;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Resolve a property name or dot path through relations, e.g. `author.name`.
+ */
+const resolveProperty = (meta: EntityMetadata<any>, path: string): EntityProperty | undefined => {
+  let currentMeta: EntityMetadata<any> | undefined = meta;
+  let property: EntityProperty | undefined;
+
+  for (const segment of path.split('.')) {
+    if (!currentMeta || !Object.hasOwn(currentMeta.properties, segment)) {
+      return undefined;
+    }
+
+    property = currentMeta.properties[segment] as EntityProperty;
+    currentMeta = isRelation(property) ? property.targetMeta : undefined;
+  }
+
+  return property;
+};
+
+/**
+ * Runtime type of filter values: the property's own type, or the primary key type of a related entity.
+ */
+const getValueType = (property: EntityProperty): string => {
+  if (isRelation(property)) {
+    const primaryKey = property.targetMeta?.primaryKeys[0];
+    const primaryProperty = primaryKey ? property.targetMeta?.properties[primaryKey] : undefined;
+
+    return primaryProperty ? getValueType(primaryProperty) : 'string';
+  }
+
+  return property.runtimeType ?? property.type;
+};
+
+const getPropertyOperators = (property: EntityProperty): EntityFilterOperator[] => {
+  const valueType = getValueType(property);
+
+  if (valueType === 'string' && !isRelation(property)) {
+    return STRING_OPERATORS;
+  }
+
+  return valueType === 'boolean' ? BOOLEAN_OPERATORS : COMPARABLE_OPERATORS;
+};
+
+const getDefaultFields = (meta: EntityMetadata<any>, relations: boolean): string[] =>
+  Object.values(meta.properties as Record<string, EntityProperty>)
+    .filter(property => !property.hidden && property.persist !== false && isRelation(property) === relations)
+    .filter(property => relations || property.kind === ReferenceKind.SCALAR)
+    .map(property => property.name);
+
+const getAllowedFields = (meta: EntityMetadata<any>, options: EntityQueryOptions) => ({
+  filterable: options.filterable ?? getDefaultFields(meta, false),
+  sortable: options.sortable ?? getDefaultFields(meta, false),
+  selectable: options.selectable ?? getDefaultFields(meta, false),
+  includable: options.includable ?? getDefaultFields(meta, true),
+});
+
+const toList = (value: QueryValue): string[] =>
+  (Array.isArray(value) ? value : [value ?? ''])
+    .flatMap(item => String(item).split(','))
+    .map(item => item.trim())
+    .filter(Boolean);
+
+/**
+ * Set a value at a dot path, creating intermediate objects (`author.name` → `{ author: { name: value } }`).
+ */
+const setPathValue = (target: Record<string, any>, path: string, value: Record<string, unknown> | string): void => {
+  const segments = path.split('.');
+  const last = segments.pop() as string;
+  let current = target;
+
+  for (const segment of segments) {
+    current[segment] ??= {};
+    current = current[segment];
+  }
+
+  current[last] = isPlainObject(value) && isPlainObject(current[last]) ? { ...current[last], ...value } : value;
+};
+
+const coerceValue = (value: unknown, valueType: string): { value?: unknown; error?: string } => {
+  if (typeof value !== 'string') {
+    return { value };
+  }
+
+  switch (valueType) {
+    case 'number': {
+      const number = Number(value);
+
+      return value.trim() !== '' && Number.isFinite(number) ? { value: number } : { error: 'must be a number' };
+    }
+    case 'bigint':
+      return /^-?\d+$/.test(value) ? { value } : { error: 'must be an integer' };
+    case 'boolean':
+      if (value === 'true' || value === '1') {
+        return { value: true };
+      }
+
+      if (value === 'false' || value === '0') {
+        return { value: false };
+      }
+
+      return { error: 'must be true or false' };
+    default:
+      return { value };
+  }
+};
+
+/**
+ * Collect conditions from the legacy `filters` JSON parameter:
+ * `{ "status": "published", "age": { "$gte": 18 }, "author": { "name": "Ada" } }`.
+ */
+const collectJsonConditions = (filters: Record<string, unknown>, conditions: FilterCondition[], prefix = ''): void => {
+  for (const [key, value] of Object.entries(filters)) {
+    const path = `${prefix}${key}`;
+    const parameter = `filters.${path}`;
+
+    if (isPlainObject(value)) {
+      const keys = Object.keys(value);
+
+      if (keys.length > 0 && keys.every(operator => operator.startsWith('$'))) {
+        for (const operator of keys) {
+          conditions.push({ parameter, path, operator: operator.slice(1), value: value[operator] });
+        }
+      } else {
+        collectJsonConditions(value, conditions, `${path}.`);
+      }
+    } else if (value === null) {
+      conditions.push({ parameter, path, operator: 'null', value: true });
+    } else {
+      conditions.push({ parameter, path, operator: Array.isArray(value) ? 'in' : 'eq', value });
+    }
+  }
+};
+
+const collectConditions = (
+  query: Record<string, unknown>,
+  meta: EntityMetadata<any>,
+  issues: EntityQueryIssue[],
+): FilterCondition[] => {
+  const conditions: FilterCondition[] = [];
+
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined || value === '') {
+      continue;
+    }
+
+    const match = FILTER_KEY_PATTERN.exec(key);
+
+    if (match) {
+      const [, path, operator = 'eq'] = match as unknown as [string, string, string | undefined];
+
+      conditions.push({ parameter: key, path, operator, value });
+
+      continue;
+    }
+
+    if (key === 'filter' && isPlainObject(value)) {
+      // Nested object produced by a bracket-aware query string parser
+      for (const [path, condition] of Object.entries(value)) {
+        if (isPlainObject(condition)) {
+          for (const [operator, operand] of Object.entries(condition)) {
+            conditions.push({ parameter: `filter[${path}][${operator}]`, path, operator, value: operand });
+          }
+        } else {
+          conditions.push({ parameter: `filter[${path}]`, path, operator: 'eq', value: condition });
+        }
+      }
+
+      continue;
+    }
+
+    if (key === 'filters') {
+      try {
+        const filters = typeof value === 'string' ? JSON.parse(value) : value;
+
+        if (!isPlainObject(filters)) {
+          throw new Error('Not an object');
+        }
+
+        collectJsonConditions(filters, conditions);
+      } catch {
+        issues.push({ parameter: 'filters', message: 'Must be a JSON object' });
+      }
+
+      continue;
+    }
+
+    const path = key.endsWith('[]') ? key.slice(0, -2) : key;
+
+    // Shorthand `field=value` filters; unrelated query parameters are ignored
+    if (RESERVED_QUERY_KEYS.includes(path) || !resolveProperty(meta, path)) {
+      continue;
+    }
+
+    const values = toList(value as QueryValue);
+
+    conditions.push({
+      parameter: key,
+      path,
+      operator: values.length > 1 || key.endsWith('[]') ? 'in' : 'eq',
+      value: values.length > 1 || key.endsWith('[]') ? values : values[0],
+    });
+  }
+
+  return conditions;
+};
+
+const buildFilter = (
+  conditions: FilterCondition[],
+  meta: EntityMetadata<any>,
+  options: EntityQueryOptions,
+  filterable: string[],
+  issues: EntityQueryIssue[],
+): FilterQuery<any> => {
+  const filter: Record<string, any> = {};
+
+  for (const { parameter, path, operator, value } of conditions) {
+    const property = resolveProperty(meta, path);
+
+    if (!property) {
+      issues.push({ parameter, message: `Unknown field "${path}"` });
+      continue;
+    }
+
+    if (!filterable.includes(path)) {
+      issues.push({ parameter, message: `Field "${path}" cannot be filtered` });
+      continue;
+    }
+
+    if (!Object.hasOwn(OPERATORS, operator)) {
+      issues.push({ parameter, message: `Unknown operator "${operator}"` });
+      continue;
+    }
+
+    const filterOperator = operator as EntityFilterOperator;
+
+    if (
+      !getPropertyOperators(property).includes(filterOperator) ||
+      (options.operators && !options.operators.includes(filterOperator))
+    ) {
+      issues.push({ parameter, message: `Operator "${operator}" is not supported for field "${path}"` });
+      continue;
+    }
+
+    if (filterOperator === 'null') {
+      const { value: isNull, error } = coerceValue(value, 'boolean');
+
+      if (error) {
+        issues.push({ parameter, message: `Value ${error}` });
+        continue;
+      }
+
+      setPathValue(filter, path, { [isNull ? '$eq' : '$ne']: null });
+      continue;
+    }
+
+    const isList = filterOperator === 'in' || filterOperator === 'nin';
+    const values = isList ? (Array.isArray(value) ? value : toList(value as QueryValue)) : [value];
+    const valueType = getValueType(property);
+    const coerced: unknown[] = [];
+
+    for (const item of values) {
+      const result = coerceValue(item, valueType);
+
+      if (result.error) {
+        issues.push({ parameter, message: `Value ${result.error}` });
+        break;
+      }
+
+      coerced.push(result.value);
+    }
+
+    if (coerced.length !== values.length) {
+      continue;
+    }
+
+    setPathValue(filter, path, { [OPERATORS[filterOperator]]: isList ? coerced : coerced[0] });
+  }
+
+  return filter;
+};
+
+const buildOrderBy = (
+  query: Record<string, unknown>,
+  meta: EntityMetadata<any>,
+  sortable: string[],
+  issues: EntityQueryIssue[],
+): Record<string, any>[] => {
+  const sortOrderParameter = query['sort-order'];
+  const defaultDirection = typeof sortOrderParameter === 'string' ? sortOrderParameter.toUpperCase() : 'ASC';
+
+  if (defaultDirection !== 'ASC' && defaultDirection !== 'DESC') {
+    issues.push({ parameter: 'sort-order', message: 'Must be ASC or DESC' });
+
+    return [];
+  }
+
+  const sortFields = toList(query.sort as QueryValue);
+
+  if (sortFields.length === 0) {
+    return meta.primaryKeys.map(primaryKey => ({ [primaryKey]: defaultDirection }));
+  }
+
+  const orderBy: Record<string, any>[] = [];
+
+  for (const sortField of sortFields) {
+    const descending = sortField.startsWith('-');
+    const path = descending || sortField.startsWith('+') ? sortField.slice(1) : sortField;
+    const property = resolveProperty(meta, path);
+
+    if (!property) {
+      issues.push({ parameter: 'sort', message: `Unknown field "${path}"` });
+    } else if (isRelation(property) || !sortable.includes(path)) {
+      issues.push({ parameter: 'sort', message: `Field "${path}" cannot be sorted` });
+    } else {
+      const order: Record<string, any> = {};
+
+      setPathValue(order, path, descending ? 'DESC' : defaultDirection);
+      orderBy.push(order);
+    }
+  }
+
+  return orderBy;
+};
+
+const buildFields = (
+  query: Record<string, unknown>,
+  meta: EntityMetadata<any>,
+  selectable: string[],
+  issues: EntityQueryIssue[],
+): string[] | undefined => {
+  const fields = toList(query.fields as QueryValue);
+
+  if (fields.length === 0) {
+    return undefined;
+  }
+
+  for (const field of fields) {
+    if (!resolveProperty(meta, field)) {
+      issues.push({ parameter: 'fields', message: `Unknown field "${field}"` });
+    } else if (!selectable.includes(field)) {
+      issues.push({ parameter: 'fields', message: `Field "${field}" cannot be selected` });
+    }
+  }
+
+  // The primary key is always loaded
+  return [...new Set([...meta.primaryKeys, ...fields])];
+};
+
+const buildPopulate = (
+  query: Record<string, unknown>,
+  meta: EntityMetadata<any>,
+  includable: string[],
+  issues: EntityQueryIssue[],
+): string[] => {
+  const parameter = query.include !== undefined ? 'include' : 'populate';
+  const relations = toList((query.include ?? query.populate) as QueryValue);
+
+  for (const relation of relations) {
+    const property = resolveProperty(meta, relation);
+
+    if (!property || !isRelation(property)) {
+      issues.push({ parameter, message: `Unknown relation "${relation}"` });
+    } else if (!includable.includes(relation)) {
+      issues.push({ parameter, message: `Relation "${relation}" cannot be included` });
+    }
+  }
+
+  return relations;
+};
+
+/**
+ * Parse and validate the getMany query grammar against entity metadata and the controller's allowlist:
+ * `filter[field][operator]=value`, `sort=-createdAt,name`, `fields=id,title` and `include=author,tags`.
+ * Shorthand `field=value` filters and the `filters` JSON parameter are validated the same way.
+ *
+ * @throws ValidationError listing every rejected parameter in `context.issues`
+ */
+const parseEntityQuery = ({
+  query,
+  meta,
+  options = {},
+}: {
+  query: Record<string, unknown>;
+  meta: EntityMetadata<any>;
+  options?: EntityQueryOptions;
+}): EntityQuery => {
+  const allowed = getAllowedFields(meta, options);
+  const issues: EntityQueryIssue[] = [];
+
+  const conditions = collectConditions(query, meta, issues);
+  const filter = buildFilter(conditions, meta, options, allowed.filterable, issues);
+  const orderBy = buildOrderBy(query, meta, allowed.sortable, issues);
+  const fields = buildFields(query, meta, allowed.selectable, issues);
+  const populate = buildPopulate(query, meta, allowed.includable, issues);
+
+  if (issues.length > 0) {
+    throw new ValidationError('Invalid query parameters', { context: { issues } });
+  }
+
+  return { filter, orderBy, fields, populate };
+};
+
+/**
+ * Describe the fields and operators a controller accepts in getMany queries.
+ */
+const describeEntityQuery = ({
+  meta,
+  options = {},
+}: {
+  meta: EntityMetadata<any>;
+  options?: EntityQueryOptions;
+}): EntityQueryDescription => {
+  const allowed = getAllowedFields(meta, options);
+
+  const filterable = allowed.filterable.flatMap(field => {
+    const property = resolveProperty(meta, field);
+
+    if (!property) {
+      return [];
+    }
+
+    const operators = getPropertyOperators(property).filter(
+      operator => !options.operators || options.operators.includes(operator),
+    );
+
+    return [{ field, operators }];
+  });
+
+  return {
+    filterable,
+    sortable: allowed.sortable.filter(field => resolveProperty(meta, field)),
+    selectable: allowed.selectable.filter(field => resolveProperty(meta, field)),
+    includable: allowed.includable.filter(field => resolveProperty(meta, field)),
+  };
+};
+
+export default {
+  parseEntityQuery,
+  describeEntityQuery,
+};
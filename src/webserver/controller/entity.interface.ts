@@ -0,0 +1,105 @@
+import type { FilterQuery } from '@mikro-orm/core';
+import type { FastifyRequest } from 'fastify';
+import type { AuthenticatedUser } from '../../auth/authenticate.js';
+
+/** Entity controller actions that support authorization policies */
+export type EntityControllerAction =
+  | 'getMany'
+  | 'getOne'
+  | 'createOne'
+  | 'updateOne'
+  | 'patchOne'
+  | 'deleteOne'
+  | 'restoreOne'
+  | 'forceDeleteOne'
+  | 'getHistory'
+  | 'createMany'
+  | 'updateMany'
+  | 'deleteMany';
+
+export interface EntityPolicyContext {
+  action: EntityControllerAction;
+  request: FastifyRequest;
+  user: AuthenticatedUser;
+}
+
+/**
+ * Entity action policy: permissions the user must hold, or a predicate.
+ */
+export type EntityActionPolicy = string[] | ((context: EntityPolicyContext) => boolean | Promise<boolean>);
+
+/**
+ * Policies per action. Bulk actions (`createMany`, `updateMany`, `deleteMany`) without their own policy use the policy
+ * of the matching single-item action; `patchOne` uses the `updateOne` policy, `restoreOne` and `forceDeleteOne` use the
+ * `deleteOne` policy, `getHistory` uses the `getOne` policy.
+ */
+export type EntityPolicies = Partial<Record<EntityControllerAction, EntityActionPolicy>>;
+
+export interface EntityScopeContext {
+  action: EntityControllerAction;
+  request: FastifyRequest;
+
+  /** Authenticated user (undefined when the action has no policy and no guard authenticated the request) */
+  user?: AuthenticatedUser;
+}
+
+/** Row-level filter combined with the action's own query */
+export type EntityScopeFilter = FilterQuery<any> | undefined;
+
+/** Direction of a keyset cursor */
+export type EntityCursorDirection = 'next' | 'prev';
+
+export interface EntityPaginationOptions {
+  /** `offset` (`page`/`limit`, default) or `cursor` (keyset pagination over the sort keys with signed cursors) */
+  type?: 'offset' | 'cursor';
+
+  /** Page size when the request has no `limit` (default: all items for offset, 20 for cursor pagination) */
+  defaultLimit?: number;
+
+  /** Largest accepted `limit` (default: 100 for cursor pagination) */
+  maxLimit?: number;
+
+  /** Whether cursor pages include `total_items` (default: `true`; clients can pass `count=false`) */
+  count?: boolean;
+}
+
+/**
+ * Bulk write mode: `atomic` writes nothing when any item fails, `partial` writes the items that pass.
+ * In `partial` mode each item is written in its own savepoint, so a database or hook error only fails that item.
+ */
+export type EntityBulkMode = 'atomic' | 'partial';
+
+export interface EntityBulkOptions {
+  /** Mode used when the request does not set one (default: `atomic`) */
+  mode?: EntityBulkMode;
+
+  /** Most items accepted in one request (default: 1000) */
+  maxItems?: number;
+}
+
+/**
+ * Result of one item of a bulk request, at the item's index in the request.
+ * `skipped` items were valid but not written because another item failed in `atomic` mode.
+ */
+export interface EntityBulkItemResult {
+  index: number;
+  status: 'created' | 'updated' | 'deleted' | 'failed' | 'skipped';
+  id?: unknown;
+  item?: unknown;
+  error?: string;
+}
+
+export interface EntityConcurrencyOptions {
+  /** Reject updates, patches and deletes without an `If-Match` header with 428 Precondition Required */
+  requireIfMatch?: boolean;
+}
+
+/**
+ * JSON Patch (RFC 6902) operation.
+ */
+export interface JsonPatchOperation {
+  op: 'add' | 'remove' | 'replace' | 'move' | 'copy' | 'test';
+  path: string;
+  from?: string;
+  value?: unknown;
+}
@@ -1,23 +1,138 @@
 import 'reflect-metadata';
 import path from 'node:path';
-import type { EntityManager, FilterQuery, Populate } from '@mikro-orm/core';
+import {
+  type EntityManager,
+  type EntityMetadata,
+  type FilterOptions,
+  type FilterQuery,
+  OptimisticLockError,
+  type Populate,
+} from '@mikro-orm/core';
 import type { FastifyReply, FastifyRequest } from 'fastify';
 import { StatusCodes } from 'http-status-codes';
+import type { AuthenticatedUser } from '../../auth/authenticate.js';
+import Authorization from '../../auth/authorization.js';
+import Audit from '../../database/audit.js';
 import type { DynamicEntity } from '../../database/dynamic-entity.js';
 import { generateFormFields } from '../../database/dynamic-entity-form-decorators.js';
+import SoftDelete from '../../database/soft-delete.js';
+import { ValidationError } from '../../error/framework-errors.js';
+import { Logger } from '../../logger/index.js';
 import { Helper } from '../../util/index.js';
 import BaseController from './base.js';
+import type {
+  EntityBulkItemResult,
+  EntityBulkMode,
+  EntityBulkOptions,
+  EntityConcurrencyOptions,
+  EntityControllerAction,
+  EntityPaginationOptions,
+  EntityPolicies,
+  EntityScopeContext,
+  EntityScopeFilter,
+} from './entity.interface.js';
+import EntityCursor from './entity-cursor.js';
+import EntityETag from './entity-etag.js';
+import EntityPatch from './entity-patch.js';
+import type { EntityQueryOptions, EntityQuery as ParsedEntityQuery } from './entity-query.interface.js';
+import EntityQuery from './entity-query.js';
+
+const DEFAULT_BULK_MAX_ITEMS = 1000;
+
+const DEFAULT_HISTORY_LIMIT = 50;
+
+const MAX_HISTORY_LIMIT = 200;
+
+/** Action whose policy applies when an action has no policy of its own */
+const POLICY_FALLBACK_ACTIONS: Partial<Record<EntityControllerAction, EntityControllerAction>> = {
+  createMany: 'createOne',
+  updateMany: 'updateOne',
+  deleteMany: 'deleteOne',
+  patchOne: 'updateOne',
+  restoreOne: 'deleteOne',
+  forceDeleteOne: 'deleteOne',
+  getHistory: 'getOne',
+};
+
+/** Query filter options that include soft-deleted rows */
+const WITH_TRASHED: FilterOptions = { [SoftDelete.SOFT_DELETE_FILTER]: false };
+
+const PRECONDITION_FAILED_MESSAGE = 'The item has been modified since it was read';
 
 export default abstract class EntityController extends BaseController {
   protected abstract entityName: string;
 
+  /**
+   * Per-action authorization policies (can be overridden in the child controller).
+   *
+   * @example
+   * protected policies: EntityPolicies = {
+   *   getMany: ['posts:read'],
+   *   deleteOne: ({ user }) => user.roles?.includes('admin') ?? false,
+   * };
+   */
+  protected policies: EntityPolicies = {};
+
+  /**
+   * Fields clients may filter, sort, select and include in getMany (can be overridden in the child controller).
+   * Defaults to the entity's non-hidden scalar properties and relations.
+   *
+   * @example
+   * protected queryOptions: EntityQueryOptions = {
+   *   filterable: ['status', 'createdAt', 'author.name'],
+   *   sortable: ['createdAt', 'title'],
+   *   includable: ['author', 'tags'],
+   * };
+   */
+  protected queryOptions: EntityQueryOptions = {};
+
+  /**
+   * getMany pagination (can be overridden in the child controller). Offset pagination by default.
+   *
+   * @example
+   * protected pagination: EntityPaginationOptions = { type: 'cursor', defaultLimit: 50, count: false };
+   */
+  protected pagination: EntityPaginationOptions = {};
+
+  /**
+   * Whether getMany uses cursor pagination, which requires `webServer.pagination.cursorSecret`.
+   */
+  public usesCursorPagination(): boolean {
+    return this.pagination.type === 'cursor';
+  }
+
+  /**
+   * Bulk endpoint options (can be overridden in the child controller).
+   * The bulk routes are registered when the entity route lists `createMany`, `updateMany` or `deleteMany` in `actions`.
+   *
+   * @example
+   * protected bulk: EntityBulkOptions = { mode: 'partial', maxItems: 500 };
+   */
+  protected bulk: EntityBulkOptions = {};
+
+  /**
+   * Optimistic concurrency options (can be overridden in the child controller).
+   *
+   * @example
+   * protected concurrency: EntityConcurrencyOptions = { requireIfMatch: true };
+   */
+  protected concurrency: EntityConcurrencyOptions = {};
+
+  /**
+   * Whether `GET /:id/history` returns the item's audit entries (can be overridden in the child controller).
+   * Requires `database.audit` with a store that supports queries, and `getHistory` in the entity route's `actions`.
+   */
+  protected auditHistory = false;
+
+  /**
+   * Named database connection from `database.connections` (can be overridden in the child controller).
+   * Reads of getMany and getOne go to the connection's read replicas, when configured.
+   */
+  protected connection?: string;
+
   // Cache for entity modules to avoid repeated dynamic imports
   private static entityCache = new Map<string, typeof DynamicEntity>();
 
-  // Cache for entity properties to avoid repeated prototype iteration
-  // biome-ignore lint/complexity/noBannedTypes: WeakMap requires object-type key; Function is the simplest fit for constructor references
-  private static entityPropertiesCache = new WeakMap<Function, string[]>();
-
   /**
    * Get request-scoped EntityManager with automatic cleanup
    * Creates a new EM fork per request, cleaned up after response
@@ -26,7 +141,7 @@ export default abstract class EntityController extends BaseController {
    */
   private getRequestEntityManager(request: FastifyRequest): EntityManager {
     if (!(request as any).__entityManager) {
-      (request as any).__entityManager = this.databaseInstance.getEntityManager();
+      (request as any).__entityManager = this.databaseInstance.getEntityManager({ connection: this.connection });
     }
     return (request as any).__entityManager;
   }
@@ -36,17 +151,18 @@ export default abstract class EntityController extends BaseController {
       throw new Error(`Database not enabled (Entity: ${this.entityName})`);
     }
 
+    const entitiesDirectory =
+      (this.connection && this.applicationConfig.database.connections?.[this.connection]?.entitiesDirectory) ??
+      this.applicationConfig.database.entitiesDirectory;
+
     // Check cache first
-    const cacheKey = `${this.applicationConfig.database.entitiesDirectory}:${this.entityName}`;
+    const cacheKey = `${entitiesDirectory}:${this.entityName}`;
     if (EntityController.entityCache.has(cacheKey)) {
       return EntityController.entityCache.get(cacheKey);
     }
 
     // Define entity module path
-    const entityModulePath = path.join(
-      this.applicationConfig.database.entitiesDirectory,
-      `${this.entityName}.${Helper.getScriptFileExtension()}`,
-    );
+    const entityModulePath = path.join(entitiesDirectory, `${this.entityName}.${Helper.getScriptFileExtension()}`);
 
     // Import entity module
     const entityModule = await import(entityModulePath);
@@ -64,35 +180,194 @@ export default abstract class EntityController extends BaseController {
     return EntityClass;
   };
 
-  private getEntityProperties(entityClass: any): string[] {
-    // Check cache first to avoid repeated prototype iteration
-    const cached = EntityController.entityPropertiesCache.get(entityClass);
-    if (cached) {
-      return cached;
+  /**
+   * Row-level scope (can be overridden in the child controller).
+   * The returned filter is combined with the query of getMany, getOne, updateOne, deleteOne, restoreOne and
+   * forceDeleteOne (and of updateMany and deleteMany, called with the `updateOne` and `deleteOne` action).
+   *
+   * @example
+   * protected scopeQuery({ user }: EntityScopeContext) {
+   *   return { owner: user?.userId };
+   * }
+   */
+  protected scopeQuery(_: EntityScopeContext): EntityScopeFilter | Promise<EntityScopeFilter> {
+    return undefined;
+  }
+
+  /**
+   * Apply the action policy. Sends a 401 or 403 error response when the request is not allowed.
+   */
+  private async authorizeEntityAction({
+    action,
+    request,
+    reply,
+  }: {
+    action: EntityControllerAction;
+    request: FastifyRequest;
+    reply: FastifyReply;
+  }): Promise<{ allowed: boolean; user?: AuthenticatedUser }> {
+    const guardedUser = (request as FastifyRequest & { user?: AuthenticatedUser }).user;
+    const fallbackAction = POLICY_FALLBACK_ACTIONS[action];
+    const policy = this.policies[action] ?? (fallbackAction ? this.policies[fallbackAction] : undefined);
+
+    if (!policy) {
+      return { allowed: true, user: guardedUser };
     }
 
-    const properties: string[] = [];
+    const user = guardedUser ?? (await this.authenticateRequest(request, reply));
 
-    const reservedPropertyKeys = ['constructor', 'toJSON'];
+    if (!user) {
+      return { allowed: false };
+    }
 
-    for (const propertyKey of Object.getOwnPropertyNames(entityClass.prototype)) {
-      if (propertyKey.startsWith('__')) {
-        continue;
-      }
-      if (reservedPropertyKeys.includes(propertyKey)) {
-        continue;
+    let allowed: boolean;
+
+    if (typeof policy === 'function') {
+      await Authorization.resolveUserAuthorization({ user, config: this.applicationConfig.auth?.authorization });
+
+      allowed = await policy({ action, request, user });
+    } else {
+      const result = await Authorization.authorize({
+        user,
+        requires: policy,
+        config: this.applicationConfig.auth?.authorization,
+      });
+
+      allowed = result.allowed;
+    }
+
+    if (!allowed) {
+      this.sendForbiddenResponse(reply);
+    }
+
+    return { allowed, user };
+  }
+
+  private async getScopedFilter({
+    action,
+    request,
+    user,
+    filter,
+  }: EntityScopeContext & { filter: FilterQuery<any> }): Promise<FilterQuery<any>> {
+    const scope = await this.scopeQuery({ action, request, user });
+
+    return scope ? { $and: [filter, scope] } : filter;
+  }
+
+  /**
+   * Filter for the `trashed` query parameter of getMany: `with` includes soft-deleted rows, `only` returns only them.
+   *
+   * @throws ValidationError if the value is invalid or the entity does not soft delete
+   */
+  private getTrashedFilter({
+    trashed,
+    EntityClass,
+    filter,
+  }: {
+    trashed: unknown;
+    EntityClass: typeof DynamicEntity;
+    filter: FilterQuery<any>;
+  }): { filter: FilterQuery<any>; filters?: FilterOptions } {
+    if (trashed === undefined) {
+      return { filter };
+    }
+
+    let message: string | undefined;
+
+    if (!SoftDelete.isSoftDeleteEntity(EntityClass)) {
+      message = `${EntityClass.pluralNameCapitalized} are not soft deleted`;
+    } else if (trashed !== 'with' && trashed !== 'only') {
+      message = 'Must be with or only';
+    }
+
+    if (message) {
+      throw new ValidationError('Invalid query parameters', {
+        context: { issues: [{ parameter: 'trashed', message }] },
+      });
+    }
+
+    return {
+      filter: trashed === 'only' ? { $and: [filter, { [SoftDelete.SOFT_DELETE_FIELD]: { $ne: null } }] } : filter,
+      filters: WITH_TRASHED,
+    };
+  }
+
+  /**
+   * Check the `If-Match` precondition of a write against the item's current ETag.
+   * Sends a 412 (or, with `requireIfMatch`, a 428) error response when the write must not proceed.
+   */
+  private checkIfMatch({
+    request,
+    reply,
+    item,
+    meta,
+  }: {
+    request: FastifyRequest;
+    reply: FastifyReply;
+    item: object;
+    meta: EntityMetadata;
+  }): boolean {
+    const header = request.headers['if-match'];
+
+    if (header === undefined) {
+      if (this.concurrency.requireIfMatch) {
+        this.sendErrorResponse({
+          reply,
+          error: 'The If-Match header is required',
+          statusCode: StatusCodes.PRECONDITION_REQUIRED,
+        });
+
+        return false;
       }
 
-      properties.push(propertyKey);
+      return true;
+    }
+
+    if (!EntityETag.matchesETag({ header, etag: EntityETag.getEntityETag({ item, meta }) })) {
+      this.sendErrorResponse({
+        reply,
+        error: PRECONDITION_FAILED_MESSAGE,
+        statusCode: StatusCodes.PRECONDITION_FAILED,
+      });
+
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Send the error response of a write. A failed optimistic lock (the versioned item was changed by a concurrent
+   * write between read and flush) is a failed precondition.
+   */
+  private sendWriteErrorResponse(reply: FastifyReply, error: unknown) {
+    if (error instanceof OptimisticLockError) {
+      this.sendErrorResponse({
+        reply,
+        error: PRECONDITION_FAILED_MESSAGE,
+        statusCode: StatusCodes.PRECONDITION_FAILED,
+      });
+
+      return;
     }
 
-    // Cache the result for future calls
-    EntityController.entityPropertiesCache.set(entityClass, properties);
+    this.sendErrorResponse({ reply, error });
+  }
 
-    return properties;
+  /**
+   * Form fields and the getMany query capabilities of the entity.
+   */
+  private describeEntity(request: FastifyRequest, EntityClass: typeof DynamicEntity) {
+    return {
+      formFields: generateFormFields({ model: EntityClass }),
+      query: EntityQuery.describeEntityQuery({
+        meta: this.getRequestEntityManager(request).getMetadata(EntityClass),
+        options: this.queryOptions,
+      }),
+    };
   }
 
-  public options = async (_request: FastifyRequest, reply: FastifyReply) => {
+  public options = async (request: FastifyRequest, reply: FastifyReply) => {
     try {
       const EntityClass = await this.getEntity();
 
@@ -102,20 +377,16 @@ export default abstract class EntityController extends BaseController {
         return;
       }
 
-      const formFields = generateFormFields({ model: EntityClass });
-
       this.sendSuccessResponse({
         reply,
-        data: {
-          formFields,
-        },
+        data: this.describeEntity(request, EntityClass),
       });
     } catch (error) {
       this.sendErrorResponse({ reply, error });
     }
   };
 
-  public metadata = async (_request: FastifyRequest, reply: FastifyReply) => {
+  public metadata = async (request: FastifyRequest, reply: FastifyReply) => {
     try {
       const EntityClass = await this.getEntity();
 
@@ -125,13 +396,9 @@ export default abstract class EntityController extends BaseController {
         return;
       }
 
-      const formFields = generateFormFields({ model: EntityClass });
-
       this.sendSuccessResponse({
         reply,
-        data: {
-          formFields,
-        },
+        data: this.describeEntity(request, EntityClass),
       });
     } catch (error) {
       this.sendErrorResponse({ reply, error });
@@ -164,6 +431,114 @@ export default abstract class EntityController extends BaseController {
     // Default implementation: do nothing
   }
 
+  // Post-getMany hook for cursor pagination (can be overridden in the child controller)
+  protected async postGetManyCursor(_: {
+    entityManager: EntityManager;
+    request: FastifyRequest;
+    reply: FastifyReply;
+    data: {
+      items: any[];
+      total?: number;
+      limit: number;
+      nextCursor: string | null;
+      prevCursor: string | null;
+    };
+  }): Promise<void> {
+    // Default implementation: do nothing
+  }
+
+  /**
+   * Resolve the page size from the `limit` query parameter and the pagination options.
+   */
+  private getPageLimit(limitParameter: string | undefined, defaultLimit?: number, maxLimit?: number): number {
+    const requestedLimit = Number.parseInt(limitParameter ?? '', 10);
+    const limit = requestedLimit > 0 ? requestedLimit : (defaultLimit ?? 0);
+
+    return maxLimit && (limit === 0 || limit > maxLimit) ? maxLimit : limit;
+  }
+
+  /**
+   * Fetch and send a keyset page. The primary key is appended to the sort so the order is unique.
+   */
+  private async sendCursorPage({
+    entityManager,
+    EntityClass,
+    request,
+    reply,
+    filter,
+    filters,
+    query,
+  }: {
+    entityManager: EntityManager;
+    EntityClass: typeof DynamicEntity;
+    request: FastifyRequest<{ Querystring: { limit?: string; cursor?: string; count?: string } }>;
+    reply: FastifyReply;
+    filter: FilterQuery<any>;
+    filters?: FilterOptions;
+    query: ParsedEntityQuery;
+  }): Promise<void> {
+    const meta = entityManager.getMetadata(EntityClass);
+    const limit = this.getPageLimit(
+      request.query.limit,
+      this.pagination.defaultLimit ?? 20,
+      this.pagination.maxLimit ?? 100,
+    );
+    const includeCount = this.pagination.count !== false && request.query.count !== 'false';
+
+    const orderBy = [
+      ...query.orderBy,
+      ...meta.primaryKeys
+        .filter(primaryKey => !query.orderBy.some(order => Object.hasOwn(order, primaryKey)))
+        .map(primaryKey => ({ [primaryKey]: 'ASC' as const })),
+    ];
+
+    // Sort keys must be loaded to build cursors
+    const fields = query.fields && [...new Set([...query.fields, ...orderBy.flatMap(order => Object.keys(order))])];
+
+    const scope = `${meta.className}:${JSON.stringify(orderBy)}`;
+    const secret = EntityCursor.getCursorSecret(this.webServerOptions.pagination?.cursorSecret);
+    const cursor = request.query.cursor
+      ? EntityCursor.decodeCursor({ token: request.query.cursor, scope, secret })
+      : undefined;
+
+    const page = await entityManager.findByCursor(EntityClass as any, {
+      where: filter,
+      orderBy: orderBy as any,
+      populate: query.populate as any,
+      ...(fields && { fields: fields as any }),
+      ...(cursor?.direction === 'prev'
+        ? { last: limit, before: cursor.cursor }
+        : { first: limit, after: cursor?.cursor }),
+      includeCount,
+      ...(filters && { filters }),
+      connectionType: this.databaseInstance.getReadConnectionType(),
+    });
+
+    const data = {
+      items: page.items,
+      total: includeCount ? page.totalCount : undefined,
+      limit,
+      nextCursor:
+        page.hasNextPage && page.endCursor
+          ? EntityCursor.encodeCursor({ direction: 'next', cursor: page.endCursor, scope, secret })
+          : null,
+      prevCursor:
+        page.hasPrevPage && page.startCursor
+          ? EntityCursor.encodeCursor({ direction: 'prev', cursor: page.startCursor, scope, secret })
+          : null,
+    };
+
+    await this.postGetManyCursor({ entityManager, request, reply, data });
+
+    reply.send({
+      data: data.items,
+      limit: data.limit,
+      next_cursor: data.nextCursor,
+      prev_cursor: data.prevCursor,
+      ...(data.total !== undefined && { total_items: data.total }),
+    });
+  }
+
   public getMany = async (
     request: FastifyRequest<{
       Querystring: {
@@ -172,13 +547,24 @@ export default abstract class EntityController extends BaseController {
         filters: string;
         sort: string;
         'sort-order': string;
+        fields: string;
+        include: string;
         search: string;
+        cursor?: string;
+        count?: string;
+        trashed?: string;
         [key: string]: any;
       };
     }>,
     reply: FastifyReply,
   ) => {
     try {
+      const { allowed, user } = await this.authorizeEntityAction({ action: 'getMany', request, reply });
+
+      if (!allowed) {
+        return;
+      }
+
       // Get request-scoped EntityManager
       const em = this.getRequestEntityManager(request);
 
@@ -197,136 +583,22 @@ export default abstract class EntityController extends BaseController {
         return;
       }
 
-      // Pagination parameters
-      const page = parseInt(request.query.page, 10) || 1;
-      const limit = parseInt(request.query.limit, 10);
-      const offset = (page - 1) * (limit > 0 ? limit : 0);
-
-      // Filtering and sorting
-      const filters = request.query.filters ? JSON.parse(request.query.filters) : {};
-      const sortOrder = request.query['sort-order'] || 'ASC';
-      const orderBy = request.query.sort ? { [request.query.sort]: sortOrder } : { id: sortOrder };
-
-      const normalizedQuery: { [key: string]: any } = {};
-
-      for (const key in request.query) {
-        // Skip prototype pollution attempts
-        if (key === '__proto__' || key === 'constructor' || key === 'prototype') {
-          continue;
-        }
-
-        // Only process own properties
-        if (!Object.hasOwn(request.query, key)) {
-          continue;
-        }
-
-        if (key.endsWith('[]')) {
-          const normalizedKey = key.slice(0, -2);
-
-          // Safe property assignment
-          if (normalizedKey !== '__proto__' && normalizedKey !== 'constructor' && normalizedKey !== 'prototype') {
-            Reflect.set(normalizedQuery, normalizedKey, Reflect.get(request.query, key));
-          }
-        } else {
-          Reflect.set(normalizedQuery, key, Reflect.get(request.query, key));
-        }
-      }
-
-      // Build query options
-      const options: {
-        limit?: number;
-        offset?: number;
-        filters: FilterQuery<any>;
-        orderBy: { [key: string]: string };
-      } = {
-        filters,
-        offset,
-        orderBy,
-      };
+      // Filtering, sorting, field selection and relations
+      const query = EntityQuery.parseEntityQuery({
+        query: request.query,
+        meta: em.getMetadata(EntityClass),
+        options: this.queryOptions,
+      });
 
-      if (limit > 0) {
-        options.limit = limit;
-      }
+      const { filter, orderBy, fields, populate } = query;
 
-      const entityProperties = this.getEntityProperties(EntityClass);
-      const reservedQueryKeys = ['page', 'limit', 'filters', 'sort', 'populate', 'search'];
       const searchQuery = request.query.search || '';
 
-      for (const key in normalizedQuery) {
-        // Skip prototype pollution attempts
-        if (key === '__proto__' || key === 'constructor' || key === 'prototype') {
-          continue;
-        }
-
-        // Only process own properties
-        if (!Object.hasOwn(normalizedQuery, key)) {
-          continue;
-        }
-
-        if (reservedQueryKeys.includes(key)) {
-          continue;
-        }
-
-        if (!entityProperties.includes(key)) {
-          const [relation, subProperty] = key.split('.');
-
-          if (relation && subProperty) {
-            // Validate relation and subProperty names
-            if (
-              relation === '__proto__' ||
-              relation === 'constructor' ||
-              relation === 'prototype' ||
-              subProperty === '__proto__' ||
-              subProperty === 'constructor' ||
-              subProperty === 'prototype'
-            ) {
-              continue;
-            }
-
-            let queryValue = Reflect.get(normalizedQuery, key);
-
-            if (!queryValue) continue;
-
-            if (typeof queryValue === 'string' && queryValue.includes(',')) {
-              queryValue = queryValue.split(',');
-            }
-
-            if (Array.isArray(queryValue)) {
-              Reflect.set(options.filters, relation, {
-                [subProperty]: { $in: queryValue },
-              });
-            } else {
-              Reflect.set(options.filters, relation, {
-                [subProperty]: queryValue,
-              });
-            }
-          }
-
-          continue;
-        }
-
-        let queryValue = Reflect.get(normalizedQuery, key);
-
-        if (!queryValue) {
-          continue;
-        }
-
-        if (typeof queryValue === 'string' && queryValue.includes(',')) {
-          queryValue = queryValue.split(',');
-        }
-
-        if (Array.isArray(queryValue)) {
-          Reflect.set(options.filters, key, { $in: queryValue });
-        } else {
-          Reflect.set(options.filters, key, queryValue);
-        }
-      }
-
       // Add search filter if a search query is provided
       if (searchQuery) {
         const searchFields = EntityClass.getSearchFields();
 
-        options.filters.$or = searchFields
+        filter.$or = searchFields
           .filter(field => {
             const isIntegerField = ['id', 'originId'].includes(field);
 
@@ -339,14 +611,40 @@ export default abstract class EntityController extends BaseController {
           });
       }
 
-      const populate = request.query.populate ? request.query.populate.split(',') : [];
+      const { filter: scopedFilters, filters } = this.getTrashedFilter({
+        trashed: request.query.trashed,
+        EntityClass,
+        filter: await this.getScopedFilter({ action: 'getMany', request, user, filter }),
+      });
+
+      if (this.pagination.type === 'cursor') {
+        await this.sendCursorPage({
+          entityManager: em,
+          EntityClass,
+          request,
+          reply,
+          filter: scopedFilters,
+          filters,
+          query,
+        });
+
+        return;
+      }
+
+      // Pagination parameters
+      const page = parseInt(request.query.page, 10) || 1;
+      const limit = this.getPageLimit(request.query.limit, this.pagination.defaultLimit, this.pagination.maxLimit);
+      const offset = (page - 1) * limit;
 
       // Fetch items from the database
-      const [items, total] = await em.findAndCount(EntityClass as any, options.filters, {
-        limit: options.limit,
-        offset: options.offset,
-        orderBy: options.orderBy,
-        populate,
+      const [items, total] = await em.findAndCount(EntityClass as any, scopedFilters, {
+        limit: limit > 0 ? limit : undefined,
+        offset,
+        orderBy,
+        populate: populate as any,
+        ...(fields && { fields: fields as any }),
+        ...(filters && { filters }),
+        connectionType: this.databaseInstance.getReadConnectionType(),
       });
 
       const totalPages = limit > 0 ? Math.ceil(total / limit) : 1;
@@ -375,6 +673,18 @@ export default abstract class EntityController extends BaseController {
         limit: data.limit,
       });
     } catch (error) {
+      if (error instanceof ValidationError) {
+        this.sendErrorResponse({
+          reply,
+          error: error.message,
+          statusCode: StatusCodes.BAD_REQUEST,
+          errorType: 'validation',
+          details: error.context,
+        });
+
+        return;
+      }
+
       this.sendErrorResponse({ reply, error });
     }
   };
@@ -404,6 +714,12 @@ export default abstract class EntityController extends BaseController {
     reply: FastifyReply,
   ) => {
     try {
+      const { allowed, user } = await this.authorizeEntityAction({ action: 'getOne', request, reply });
+
+      if (!allowed) {
+        return;
+      }
+
       // Get request-scoped EntityManager
       const em = this.getRequestEntityManager(request);
 
@@ -431,7 +747,12 @@ export default abstract class EntityController extends BaseController {
 
       const id = request.params.id;
 
-      const item = await em.findOne(EntityClass as any, { id }, { populate });
+      const filter = await this.getScopedFilter({ action: 'getOne', request, user, filter: { id } });
+
+      const item = await em.findOne(EntityClass as any, filter, {
+        populate,
+        connectionType: this.databaseInstance.getReadConnectionType(),
+      });
 
       if (!item) {
         return this.sendNotFoundResponse(reply, `${EntityClass.singularNameCapitalized} not found`);
@@ -444,6 +765,16 @@ export default abstract class EntityController extends BaseController {
         item,
       });
 
+      const etag = EntityETag.getEntityETag({ item, meta: em.getMetadata(EntityClass) });
+
+      reply.header('ETag', etag);
+
+      if (EntityETag.matchesETag({ header: request.headers['if-none-match'], etag, weak: true })) {
+        reply.status(StatusCodes.NOT_MODIFIED).send();
+
+        return;
+      }
+
       this.sendSuccessResponse({ reply, data: item });
     } catch (error) {
       this.sendErrorResponse({ reply, error });
@@ -469,6 +800,12 @@ export default abstract class EntityController extends BaseController {
 
   public createOne = async (request: FastifyRequest, reply: FastifyReply) => {
     try {
+      const { allowed } = await this.authorizeEntityAction({ action: 'createOne', request, reply });
+
+      if (!allowed) {
+        return;
+      }
+
       // Get request-scoped EntityManager
       const em = this.getRequestEntityManager(request);
 
@@ -523,6 +860,12 @@ export default abstract class EntityController extends BaseController {
 
   public updateOne = async (request: FastifyRequest<{ Params: { id: number } }>, reply: FastifyReply) => {
     try {
+      const { allowed, user } = await this.authorizeEntityAction({ action: 'updateOne', request, reply });
+
+      if (!allowed) {
+        return;
+      }
+
       // Get request-scoped EntityManager
       const em = this.getRequestEntityManager(request);
 
@@ -541,12 +884,20 @@ export default abstract class EntityController extends BaseController {
         return this.sendErrorResponse({ reply, error: error.message });
       }
 
-      const item = await em.findOne(EntityClass as any, { id });
+      const filter = await this.getScopedFilter({ action: 'updateOne', request, user, filter: { id } });
+
+      const item = await em.findOne(EntityClass as any, filter);
 
       if (!item) {
         return this.sendNotFoundResponse(reply, `${EntityClass.singularNameCapitalized} not found`);
       }
 
+      const meta = em.getMetadata(EntityClass);
+
+      if (!this.checkIfMatch({ request, reply, item, meta })) {
+        return;
+      }
+
       em.assign(item, value as object);
 
       await em.persist(item).flush();
@@ -559,14 +910,28 @@ export default abstract class EntityController extends BaseController {
         item,
       });
 
+      reply.header('ETag', EntityETag.getEntityETag({ item, meta }));
+
       this.sendSuccessResponse({ reply, data: item });
     } catch (error) {
-      this.sendErrorResponse({ reply, error });
+      this.sendWriteErrorResponse(reply, error);
     }
   };
 
-  public deleteOne = async (request: FastifyRequest<{ Params: { id: number } }>, reply: FastifyReply) => {
+  /**
+   * Partially update an item. The body is a JSON Patch (`Content-Type: application/json-patch+json`) or a
+   * JSON Merge Patch (`application/merge-patch+json` or `application/json`); the changed fields are validated with
+   * the entity's updateSchema. Uses the updateOne scope and postUpdateOne hook, not updateOne overrides.
+   * Registered when the entity route lists `patchOne` in `actions`.
+   */
+  public patchOne = async (request: FastifyRequest<{ Params: { id: number } }>, reply: FastifyReply) => {
     try {
+      const { allowed, user } = await this.authorizeEntityAction({ action: 'patchOne', request, reply });
+
+      if (!allowed) {
+        return;
+      }
+
       // Get request-scoped EntityManager
       const em = this.getRequestEntityManager(request);
 
@@ -574,21 +939,757 @@ export default abstract class EntityController extends BaseController {
 
       if (!EntityClass) {
         this.sendErrorResponse({ reply, error: 'Entity not found' });
-
         return;
       }
 
-      const id = request.params.id;
+      const filter = await this.getScopedFilter({
+        action: 'updateOne',
+        request,
+        user,
+        filter: { id: request.params.id },
+      });
 
-      const item = await em.findOne(EntityClass as any, { id });
+      const item = await em.findOne(EntityClass as any, filter);
 
       if (!item) {
         return this.sendNotFoundResponse(reply, `${EntityClass.singularNameCapitalized} not found`);
       }
 
-      await em.remove(item).flush();
+      const meta = em.getMetadata(EntityClass);
 
-      reply.status(StatusCodes.NO_CONTENT).send();
+      if (!this.checkIfMatch({ request, reply, item, meta })) {
+        return;
+      }
+
+      let changes: Record<string, unknown>;
+
+      try {
+        changes = EntityPatch.getPatchChanges({
+          current: JSON.parse(JSON.stringify(item)),
+          patch: request.body,
+          contentType: request.headers['content-type'],
+        });
+      } catch (error) {
+        if (error instanceof ValidationError) {
+          return this.sendErrorResponse({
+            reply,
+            error: error.message,
+            statusCode: StatusCodes.UNPROCESSABLE_ENTITY,
+            details: error.context,
+          });
+        }
+
+        throw error;
+      }
+
+      if (Object.keys(changes).length > 0) {
+        const { error, value } = EntityClass.validateUpdate(changes);
+
+        if (error) {
+          return this.sendErrorResponse({ reply, error: error.message });
+        }
+
+        em.assign(item, value as object);
+
+        await em.flush();
+
+        await this.postUpdateOne({ entityManager: em, request, reply, item });
+      }
+
+      reply.header('ETag', EntityETag.getEntityETag({ item, meta }));
+
+      this.sendSuccessResponse({ reply, data: item });
+    } catch (error) {
+      this.sendWriteErrorResponse(reply, error);
+    }
+  };
+
+  public deleteOne = async (request: FastifyRequest<{ Params: { id: number } }>, reply: FastifyReply) => {
+    try {
+      const { allowed, user } = await this.authorizeEntityAction({ action: 'deleteOne', request, reply });
+
+      if (!allowed) {
+        return;
+      }
+
+      // Get request-scoped EntityManager
+      const em = this.getRequestEntityManager(request);
+
+      const EntityClass = await this.getEntity();
+
+      if (!EntityClass) {
+        this.sendErrorResponse({ reply, error: 'Entity not found' });
+
+        return;
+      }
+
+      const id = request.params.id;
+
+      const filter = await this.getScopedFilter({ action: 'deleteOne', request, user, filter: { id } });
+
+      const item = await em.findOne(EntityClass as any, filter);
+
+      if (!item) {
+        return this.sendNotFoundResponse(reply, `${EntityClass.singularNameCapitalized} not found`);
+      }
+
+      if (!this.checkIfMatch({ request, reply, item, meta: em.getMetadata(EntityClass) })) {
+        return;
+      }
+
+      if (SoftDelete.isSoftDeleteEntity(EntityClass)) {
+        em.assign(item, { [SoftDelete.SOFT_DELETE_FIELD]: new Date() });
+      } else {
+        em.remove(item);
+      }
+
+      await em.flush();
+
+      reply.status(StatusCodes.NO_CONTENT).send();
+    } catch (error) {
+      this.sendWriteErrorResponse(reply, error);
+    }
+  };
+
+  /**
+   * Load a soft-deleted item for restoreOne and forceDeleteOne. Sends an error response when the entity does not
+   * soft delete or the item is not found.
+   */
+  private async findTrashedItem({
+    action,
+    request,
+    reply,
+    user,
+    onlyTrashed,
+  }: EntityScopeContext & {
+    request: FastifyRequest<{ Params: { id: number } }>;
+    reply: FastifyReply;
+    onlyTrashed: boolean;
+  }): Promise<{ entityManager: EntityManager; item: any } | null> {
+    const EntityClass = await this.getEntity();
+
+    if (!EntityClass) {
+      this.sendErrorResponse({ reply, error: 'Entity not found' });
+      return null;
+    }
+
+    if (!SoftDelete.isSoftDeleteEntity(EntityClass)) {
+      this.sendErrorResponse({ reply, error: `${EntityClass.pluralNameCapitalized} are not soft deleted` });
+      return null;
+    }
+
+    const entityManager = this.getRequestEntityManager(request);
+
+    const idFilter = onlyTrashed
+      ? { id: request.params.id, [SoftDelete.SOFT_DELETE_FIELD]: { $ne: null } }
+      : { id: request.params.id };
+
+    const filter = await this.getScopedFilter({ action, request, user, filter: idFilter });
+
+    const item = await entityManager.findOne(EntityClass as any, filter, { filters: WITH_TRASHED });
+
+    if (!item) {
+      this.sendNotFoundResponse(reply, `${EntityClass.singularNameCapitalized} not found`);
+      return null;
+    }
+
+    return { entityManager, item };
+  }
+
+  /**
+   * Restore a soft-deleted item.
+   */
+  public restoreOne = async (request: FastifyRequest<{ Params: { id: number } }>, reply: FastifyReply) => {
+    try {
+      const { allowed, user } = await this.authorizeEntityAction({ action: 'restoreOne', request, reply });
+
+      if (!allowed) {
+        return;
+      }
+
+      const trashed = await this.findTrashedItem({ action: 'restoreOne', request, reply, user, onlyTrashed: true });
+
+      if (!trashed) {
+        return;
+      }
+
+      const { entityManager, item } = trashed;
+
+      entityManager.assign(item, { [SoftDelete.SOFT_DELETE_FIELD]: null });
+
+      await entityManager.flush();
+
+      this.sendSuccessResponse({ reply, data: item });
+    } catch (error) {
+      this.sendErrorResponse({ reply, error });
+    }
+  };
+
+  /**
+   * Permanently delete an item of a soft-deleting entity, deleted or not.
+   */
+  public forceDeleteOne = async (request: FastifyRequest<{ Params: { id: number } }>, reply: FastifyReply) => {
+    try {
+      const { allowed, user } = await this.authorizeEntityAction({ action: 'forceDeleteOne', request, reply });
+
+      if (!allowed) {
+        return;
+      }
+
+      const trashed = await this.findTrashedItem({
+        action: 'forceDeleteOne',
+        request,
+        reply,
+        user,
+        onlyTrashed: false,
+      });
+
+      if (!trashed) {
+        return;
+      }
+
+      await trashed.entityManager.remove(trashed.item).flush();
+
+      reply.status(StatusCodes.NO_CONTENT).send();
+    } catch (error) {
+      this.sendErrorResponse({ reply, error });
+    }
+  };
+
+  /**
+   * Audit history of an item, newest first. Soft-deleted items keep their history.
+   */
+  public getHistory = async (
+    request: FastifyRequest<{ Params: { id: number }; Querystring: { limit?: string; page?: string } }>,
+    reply: FastifyReply,
+  ) => {
+    try {
+      const auditStore = this.databaseInstance.getAuditStore();
+
+      if (!this.auditHistory || !auditStore?.find) {
+        return this.sendNotFoundResponse(reply);
+      }
+
+      const { allowed, user } = await this.authorizeEntityAction({ action: 'getHistory', request, reply });
+
+      if (!allowed) {
+        return;
+      }
+
+      const EntityClass = await this.getEntity();
+
+      if (!EntityClass) {
+        this.sendErrorResponse({ reply, error: 'Entity not found' });
+        return;
+      }
+
+      const entityManager = this.getRequestEntityManager(request);
+
+      const filter = await this.getScopedFilter({ action: 'getOne', request, user, filter: { id: request.params.id } });
+
+      const item = await entityManager.findOne(EntityClass as any, filter, { filters: WITH_TRASHED });
+
+      if (!item) {
+        return this.sendNotFoundResponse(reply, `${EntityClass.singularNameCapitalized} not found`);
+      }
+
+      const page = Math.max(Number.parseInt(request.query.page ?? '', 10) || 1, 1);
+      const limit = this.getPageLimit(request.query.limit, DEFAULT_HISTORY_LIMIT, MAX_HISTORY_LIMIT);
+
+      const entries = await Audit.findAuditEntries({
+        store: auditStore,
+        entityManager,
+        query: {
+          entityName: entityManager.getMetadata(EntityClass).className,
+          entityId: request.params.id,
+          limit,
+          offset: (page - 1) * limit,
+        },
+      });
+
+      reply.send({ data: entries, page, limit });
+    } catch (error) {
+      this.sendErrorResponse({ reply, error });
+    }
+  };
+
+  /**
+   * Read the items and mode of a bulk request body. Sends a 400 error response when the body is invalid.
+   */
+  private parseBulkBody({
+    request,
+    reply,
+    key,
+  }: {
+    request: FastifyRequest;
+    reply: FastifyReply;
+    key: 'items' | 'ids';
+  }): { entries: unknown[]; mode: EntityBulkMode } | null {
+    const body = (request.body ?? {}) as Record<string, unknown>;
+    const entries = body[key];
+    const mode = body.mode ?? this.bulk.mode ?? 'atomic';
+    const maxItems = this.bulk.maxItems ?? DEFAULT_BULK_MAX_ITEMS;
+
+    if (!Array.isArray(entries) || entries.length === 0) {
+      this.sendErrorResponse({ reply, error: `"${key}" must be a non-empty array`, errorType: 'validation' });
+
+      return null;
+    }
+
+    if (entries.length > maxItems) {
+      this.sendErrorResponse({
+        reply,
+        error: `At most ${maxItems} items can be processed per request`,
+        errorType: 'validation',
+      });
+
+      return null;
+    }
+
+    if (mode !== 'atomic' && mode !== 'partial') {
+      this.sendErrorResponse({ reply, error: '"mode" must be "atomic" or "partial"', errorType: 'validation' });
+
+      return null;
+    }
+
+    return { entries, mode };
+  }
+
+  /**
+   * Request passed to the single-item hooks for one item of a bulk request.
+   */
+  private createItemRequest(request: FastifyRequest, body: unknown): FastifyRequest {
+    return Object.create(request, { body: { value: body, writable: true, enumerable: true } });
+  }
+
+  /**
+   * Whether the bulk request must stop before writing. In atomic mode the valid items are marked as skipped.
+   */
+  private abortBulk(mode: EntityBulkMode, results: EntityBulkItemResult[]): boolean {
+    if (mode !== 'atomic' || !results.some(result => result.status === 'failed')) {
+      return false;
+    }
+
+    for (const result of results) {
+      if (result.status !== 'failed') {
+        result.status = 'skipped';
+        delete result.id;
+        delete result.item;
+      }
+    }
+
+    return true;
+  }
+
+  private sendBulkResponse({
+    reply,
+    results,
+    statusCode,
+  }: {
+    reply: FastifyReply;
+    results: EntityBulkItemResult[];
+    statusCode: StatusCodes;
+  }) {
+    const failed = results.filter(result => result.status === 'failed').length;
+    const skipped = results.filter(result => result.status === 'skipped').length;
+
+    if (skipped > 0) {
+      this.sendErrorResponse({
+        reply,
+        error: `${failed} of ${results.length} items failed, no changes were made`,
+        errorType: 'validation',
+        details: { results },
+      });
+
+      return;
+    }
+
+    this.sendSuccessResponse({
+      reply,
+      data: { results, succeeded: results.length - failed, failed },
+      statusCode: failed > 0 ? StatusCodes.MULTI_STATUS : statusCode,
+    });
+  }
+
+  /**
+   * Write one item of a partial bulk request in its own savepoint, so a database or hook error only fails that item.
+   */
+  private async writeBulkItem({
+    entityManager,
+    index,
+    id,
+    write,
+  }: {
+    entityManager: EntityManager;
+    index: number;
+    id?: unknown;
+    write: (itemEntityManager: EntityManager) => Promise<EntityBulkItemResult>;
+  }): Promise<EntityBulkItemResult> {
+    try {
+      return await entityManager.transactional(write, { clear: true });
+    } catch (error) {
+      Logger.error({ error, message: `Bulk item ${index} failed` });
+
+      const message =
+        process.env.NODE_ENV === 'production' && this.webServerOptions.errors?.verbose !== true
+          ? 'Item could not be written'
+          : error instanceof Error
+            ? error.message
+            : String(error);
+
+      return { index, status: 'failed', ...(id !== undefined && { id }), error: message };
+    }
+  }
+
+  /**
+   * Load the items of a bulk update or delete within the action scope, keyed by ID.
+   */
+  private async findBulkItems({
+    entityManager,
+    EntityClass,
+    action,
+    request,
+    user,
+    ids,
+  }: EntityScopeContext & {
+    entityManager: EntityManager;
+    EntityClass: typeof DynamicEntity;
+    ids: unknown[];
+  }): Promise<Map<string, any>> {
+    const filter = await this.getScopedFilter({ action, request, user, filter: { id: { $in: ids } } });
+    const items = await entityManager.find(EntityClass as any, filter);
+
+    return new Map(items.map((item: any) => [String(item.id), item]));
+  }
+
+  /**
+   * Create items in one transaction; in `partial` mode each item is written in its own savepoint. Body: `{ items: [...], mode?: 'atomic' | 'partial' }`.
+   * Each item goes through preCreateOne, the entity's createSchema and postCreateOne.
+   */
+  public createMany = async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { allowed } = await this.authorizeEntityAction({ action: 'createMany', request, reply });
+
+      if (!allowed) {
+        return;
+      }
+
+      const EntityClass = await this.getEntity();
+
+      if (!EntityClass) {
+        this.sendErrorResponse({ reply, error: 'Entity not found' });
+        return;
+      }
+
+      const bulkBody = this.parseBulkBody({ request, reply, key: 'items' });
+
+      if (!bulkBody) {
+        return;
+      }
+
+      const { entries, mode } = bulkBody;
+      const results: EntityBulkItemResult[] = [];
+      const valid: { index: number; value: unknown; request: FastifyRequest }[] = [];
+
+      for (const [index, entry] of entries.entries()) {
+        let itemRequest = this.createItemRequest(request, entry);
+
+        const { request: preCreateOneRequest } = await this.preCreateOne({ request: itemRequest, reply });
+
+        if (preCreateOneRequest) {
+          itemRequest = preCreateOneRequest;
+        }
+
+        const { error, value } = EntityClass.validateCreate(itemRequest.body);
+
+        if (error) {
+          results.push({ index, status: 'failed', error: error.message });
+        } else {
+          results.push({ index, status: 'created' });
+          valid.push({ index, value, request: itemRequest });
+        }
+      }
+
+      if (!this.abortBulk(mode, results) && valid.length > 0) {
+        await this.databaseInstance.withTransaction(
+          async entityManager => {
+            if (mode === 'partial') {
+              for (const { index, value, request: itemRequest } of valid) {
+                results[index] = await this.writeBulkItem({
+                  entityManager,
+                  index,
+                  write: async itemEntityManager => {
+                    const item = itemEntityManager.create(EntityClass as any, value as object);
+
+                    await itemEntityManager.persist(item).flush();
+                    await this.postCreateOne({ entityManager: itemEntityManager, request: itemRequest, reply, item });
+
+                    return { index, status: 'created', id: (item as any).id, item };
+                  },
+                });
+              }
+
+              return;
+            }
+
+            const items = valid.map(({ value }) => entityManager.create(EntityClass as any, value as object));
+
+            await entityManager.persist(items).flush();
+
+            for (const [position, { index, request: itemRequest }] of valid.entries()) {
+              const item = items[position];
+
+              await this.postCreateOne({ entityManager, request: itemRequest, reply, item });
+
+              results[index] = { index, status: 'created', id: (item as any).id, item };
+            }
+          },
+          { connection: this.connection },
+        );
+      }
+
+      this.sendBulkResponse({ reply, results, statusCode: StatusCodes.CREATED });
+    } catch (error) {
+      this.sendErrorResponse({ reply, error });
+    }
+  };
+
+  /**
+   * Update items in one transaction; in `partial` mode each item is written in its own savepoint. Body: `{ items: [{ id, ...changes }], mode?: 'atomic' | 'partial' }`.
+   * Changes are validated with the entity's updateSchema; postUpdateOne is called for each item.
+   */
+  public updateMany = async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { allowed, user } = await this.authorizeEntityAction({ action: 'updateMany', request, reply });
+
+      if (!allowed) {
+        return;
+      }
+
+      const EntityClass = await this.getEntity();
+
+      if (!EntityClass) {
+        this.sendErrorResponse({ reply, error: 'Entity not found' });
+        return;
+      }
+
+      const bulkBody = this.parseBulkBody({ request, reply, key: 'items' });
+
+      if (!bulkBody) {
+        return;
+      }
+
+      const { entries, mode } = bulkBody;
+      const results: EntityBulkItemResult[] = [];
+      const valid: { index: number; id: unknown; value: unknown; request: FastifyRequest }[] = [];
+
+      for (const [index, entry] of entries.entries()) {
+        const { id, ...changes } = (typeof entry === 'object' && entry !== null ? entry : {}) as Record<
+          string,
+          unknown
+        >;
+
+        if (id === undefined || id === null) {
+          results.push({ index, status: 'failed', error: '"id" is required' });
+          continue;
+        }
+
+        const { error, value } = EntityClass.validateUpdate(changes);
+
+        if (error) {
+          results.push({ index, status: 'failed', id, error: error.message });
+        } else {
+          results.push({ index, status: 'updated', id });
+          valid.push({ index, id, value, request: this.createItemRequest(request, changes) });
+        }
+      }
+
+      if (!this.abortBulk(mode, results) && valid.length > 0) {
+        await this.databaseInstance.withTransaction(
+          async entityManager => {
+            const items = await this.findBulkItems({
+              entityManager,
+              EntityClass,
+              action: 'updateOne',
+              request,
+              user,
+              ids: valid.map(({ id }) => id),
+            });
+
+            const found = valid.filter(({ index, id }) => {
+              if (items.has(String(id))) {
+                return true;
+              }
+
+              results[index] = {
+                index,
+                status: 'failed',
+                id,
+                error: `${EntityClass.singularNameCapitalized} not found`,
+              };
+
+              return false;
+            });
+
+            if (this.abortBulk(mode, results)) {
+              return;
+            }
+
+            if (mode === 'partial') {
+              for (const { index, id, value, request: itemRequest } of found) {
+                results[index] = await this.writeBulkItem({
+                  entityManager,
+                  index,
+                  id,
+                  write: async itemEntityManager => {
+                    // Reload in the savepoint so a failed write leaves the transaction's copy untouched
+                    const item = await itemEntityManager.findOneOrFail(EntityClass as any, { id } as FilterQuery<any>);
+
+                    itemEntityManager.assign(item, value as object);
+                    await itemEntityManager.flush();
+                    await this.postUpdateOne({ entityManager: itemEntityManager, request: itemRequest, reply, item });
+
+                    return { index, status: 'updated', id, item };
+                  },
+                });
+              }
+
+              return;
+            }
+
+            for (const { id, value } of found) {
+              entityManager.assign(items.get(String(id)), value as object);
+            }
+
+            await entityManager.flush();
+
+            for (const { index, id, request: itemRequest } of found) {
+              const item = items.get(String(id));
+
+              await this.postUpdateOne({ entityManager, request: itemRequest, reply, item });
+
+              results[index] = { index, status: 'updated', id, item };
+            }
+          },
+          { connection: this.connection },
+        );
+      }
+
+      this.sendBulkResponse({ reply, results, statusCode: StatusCodes.OK });
+    } catch (error) {
+      this.sendErrorResponse({ reply, error });
+    }
+  };
+
+  /**
+   * Delete items in one transaction; in `partial` mode each item is written in its own savepoint. Body: `{ ids: [...], mode?: 'atomic' | 'partial' }`.
+   */
+  public deleteMany = async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { allowed, user } = await this.authorizeEntityAction({ action: 'deleteMany', request, reply });
+
+      if (!allowed) {
+        return;
+      }
+
+      const EntityClass = await this.getEntity();
+
+      if (!EntityClass) {
+        this.sendErrorResponse({ reply, error: 'Entity not found' });
+        return;
+      }
+
+      const bulkBody = this.parseBulkBody({ request, reply, key: 'ids' });
+
+      if (!bulkBody) {
+        return;
+      }
+
+      const { entries: ids, mode } = bulkBody;
+      const results: EntityBulkItemResult[] = ids.map((id, index) =>
+        typeof id === 'string' || typeof id === 'number'
+          ? { index, status: 'deleted', id }
+          : { index, status: 'failed', error: 'ID must be a string or number' },
+      );
+
+      if (!this.abortBulk(mode, results)) {
+        await this.databaseInstance.withTransaction(
+          async entityManager => {
+            const valid = results.filter(result => result.status === 'deleted');
+
+            if (valid.length === 0) {
+              return;
+            }
+
+            const items = await this.findBulkItems({
+              entityManager,
+              EntityClass,
+              action: 'deleteOne',
+              request,
+              user,
+              ids: valid.map(({ id }) => id),
+            });
+
+            for (const result of valid) {
+              if (!items.has(String(result.id))) {
+                result.status = 'failed';
+                result.error = `${EntityClass.singularNameCapitalized} not found`;
+              }
+            }
+
+            if (this.abortBulk(mode, results)) {
+              return;
+            }
+
+            const deletedAt = new Date();
+
+            const deleteItem = (itemEntityManager: EntityManager, item: unknown) => {
+              if (SoftDelete.isSoftDeleteEntity(EntityClass)) {
+                itemEntityManager.assign(item as object, { [SoftDelete.SOFT_DELETE_FIELD]: deletedAt });
+              } else {
+                itemEntityManager.remove(item as object);
+              }
+            };
+
+            if (mode === 'partial') {
+              for (const result of valid) {
+                if (result.status !== 'deleted') {
+                  continue;
+                }
+
+                const { index, id } = result;
+
+                results[index] = await this.writeBulkItem({
+                  entityManager,
+                  index,
+                  id,
+                  write: async itemEntityManager => {
+                    const item = await itemEntityManager.findOneOrFail(EntityClass as any, { id } as FilterQuery<any>);
+
+                    deleteItem(itemEntityManager, item);
+                    await itemEntityManager.flush();
+
+                    return { index, status: 'deleted', id };
+                  },
+                });
+              }
+
+              return;
+            }
+
+            for (const result of valid) {
+              if (result.status === 'deleted') {
+                deleteItem(entityManager, items.get(String(result.id)));
+              }
+            }
+
+            await entityManager.flush();
+          },
+          { connection: this.connection },
+        );
+      }
+
+      this.sendBulkResponse({ reply, results, statusCode: StatusCodes.OK });
     } catch (error) {
       this.sendErrorResponse({ reply, error });
     }
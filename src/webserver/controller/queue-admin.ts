@@ -0,0 +1,228 @@
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { StatusCodes } from 'http-status-codes';
+import { ErrorCode } from '../../error/error.interface.js';
+import { QueueError, ValidationError } from '../../error/framework-errors.js';
+import type { QueueCleanState, QueueJobState } from '../../queue/admin.interface.js';
+import type { QueueJobPayload } from '../../queue/job.interface.js';
+import BaseController from './base.js';
+
+interface QueueAdminParams {
+  queueId: string;
+  jobId?: string;
+  entryId?: string;
+}
+
+interface QueueAdminPageQuery {
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Built-in controller for administering queues, their jobs and their dead-letter queues.
+ * Register its routes with `defineQueueAdminRoutes()` (or the `queueAdmin` web server option).
+ */
+export default class QueueAdminController extends BaseController {
+  /**
+   * List the queues with their state and job counts.
+   */
+  public listQueues = async (_request: FastifyRequest, reply: FastifyReply): Promise<void> => {
+    this.sendSuccessResponse({ reply, data: await this.queueManager.listQueues() });
+  };
+
+  /**
+   * Get the state and job counts of a queue.
+   */
+  public getQueue = async (request: FastifyRequest, reply: FastifyReply): Promise<void> => {
+    const { queueId } = request.params as QueueAdminParams;
+
+    await this.respond(reply, () => this.queueManager.getQueueInfo({ queueId }));
+  };
+
+  /**
+   * List the jobs of a queue in a state (`state`, `page`, `limit`), the most recent first.
+   */
+  public listJobs = async (request: FastifyRequest, reply: FastifyReply): Promise<void> => {
+    const { queueId } = request.params as QueueAdminParams;
+    const {
+      state = 'waiting',
+      page = 1,
+      limit = 20,
+    } = request.query as QueueAdminPageQuery & { state?: QueueJobState };
+
+    await this.respond(reply, async () => ({
+      ...(await this.queueManager.listJobs({ queueId, state, offset: (page - 1) * limit, limit })),
+      page,
+      limit,
+    }));
+  };
+
+  /**
+   * Get a job with its data, result, stack traces and logs.
+   */
+  public getJob = async (request: FastifyRequest, reply: FastifyReply): Promise<void> => {
+    const { queueId, jobId = '' } = request.params as QueueAdminParams;
+
+    await this.respond(reply, () => this.queueManager.getJobDetail({ queueId, jobId }));
+  };
+
+  /**
+   * Retry a failed job.
+   */
+  public retryJob = async (request: FastifyRequest, reply: FastifyReply): Promise<void> => {
+    const { queueId, jobId = '' } = request.params as QueueAdminParams;
+
+    await this.respond(reply, () => this.queueManager.retryJob({ queueId, jobId }), StatusCodes.NO_CONTENT);
+  };
+
+  /**
+   * Run a delayed job now.
+   */
+  public promoteJob = async (request: FastifyRequest, reply: FastifyReply): Promise<void> => {
+    const { queueId, jobId = '' } = request.params as QueueAdminParams;
+
+    await this.respond(reply, () => this.queueManager.promoteJob({ queueId, jobId }), StatusCodes.NO_CONTENT);
+  };
+
+  /**
+   * Remove a job.
+   */
+  public removeJob = async (request: FastifyRequest, reply: FastifyReply): Promise<void> => {
+    const { queueId, jobId = '' } = request.params as QueueAdminParams;
+
+    await this.respond(reply, () => this.queueManager.removeJob({ queueId, jobId }), StatusCodes.NO_CONTENT);
+  };
+
+  /**
+   * Pause a queue.
+   */
+  public pauseQueue = async (request: FastifyRequest, reply: FastifyReply): Promise<void> => {
+    const { queueId } = request.params as QueueAdminParams;
+
+    await this.respond(reply, () => this.queueManager.pauseQueue({ queueId }), StatusCodes.NO_CONTENT);
+  };
+
+  /**
+   * Resume a paused queue.
+   */
+  public resumeQueue = async (request: FastifyRequest, reply: FastifyReply): Promise<void> => {
+    const { queueId } = request.params as QueueAdminParams;
+
+    await this.respond(reply, () => this.queueManager.resumeQueue({ queueId }), StatusCodes.NO_CONTENT);
+  };
+
+  /**
+   * Remove the waiting jobs of a queue, and its delayed jobs with `{ delayed: true }`.
+   */
+  public drainQueue = async (request: FastifyRequest, reply: FastifyReply): Promise<void> => {
+    const { queueId } = request.params as QueueAdminParams;
+    const { delayed } = (request.body ?? {}) as { delayed?: boolean };
+
+    await this.respond(reply, () => this.queueManager.drainQueue({ queueId, delayed }), StatusCodes.NO_CONTENT);
+  };
+
+  /**
+   * Remove the jobs of a queue in a state older than `olderThanSeconds`.
+   */
+  public cleanQueue = async (request: FastifyRequest, reply: FastifyReply): Promise<void> => {
+    const { queueId } = request.params as QueueAdminParams;
+    const { state, olderThanSeconds, limit } = request.body as {
+      state: QueueCleanState;
+      olderThanSeconds: number;
+      limit?: number;
+    };
+
+    await this.respond(reply, async () => ({
+      jobIds: await this.queueManager.cleanQueue({ queueId, state, olderThanSeconds, limit }),
+    }));
+  };
+
+  /**
+   * List the entries of a queue's dead-letter queue, the most recent first.
+   */
+  public listDeadLetters = async (request: FastifyRequest, reply: FastifyReply): Promise<void> => {
+    const { queueId } = request.params as QueueAdminParams;
+    const { page = 1, limit = 20 } = request.query as QueueAdminPageQuery;
+
+    await this.respond(reply, async () => ({
+      ...(await this.queueManager.listDeadLetters({ queueId, offset: (page - 1) * limit, limit })),
+      page,
+      limit,
+    }));
+  };
+
+  /**
+   * Get a dead-letter entry with the data, error and stack trace of the failed job.
+   */
+  public getDeadLetter = async (request: FastifyRequest, reply: FastifyReply): Promise<void> => {
+    const { queueId, entryId = '' } = request.params as QueueAdminParams;
+
+    await this.respond(reply, () => this.queueManager.getDeadLetter({ queueId, entryId }));
+  };
+
+  /**
+   * Add the job of a dead-letter entry back to its queue, with the edited `payload` of the body if any.
+   */
+  public replayDeadLetter = async (request: FastifyRequest, reply: FastifyReply): Promise<void> => {
+    const { queueId, entryId = '' } = request.params as QueueAdminParams;
+    const { payload } = (request.body ?? {}) as { payload?: QueueJobPayload };
+
+    await this.respond(
+      reply,
+      async () => ({ jobId: (await this.queueManager.replayDeadLetter({ queueId, entryId, payload })).id }),
+      StatusCodes.ACCEPTED,
+    );
+  };
+
+  /**
+   * Remove a dead-letter entry, or all entries of the dead-letter queue when the route has no entry ID.
+   */
+  public purgeDeadLetters = async (request: FastifyRequest, reply: FastifyReply): Promise<void> => {
+    const { queueId, entryId } = request.params as QueueAdminParams;
+
+    await this.respond(reply, async () => ({
+      count: await this.queueManager.purgeDeadLetters({ queueId, entryId }),
+    }));
+  };
+
+  /**
+   * Send the result of a queue operation. Invalid payloads respond 400, unknown queues, jobs and entries 404, and
+   * jobs in another state (e.g. retrying a job that has not failed) 409.
+   */
+  private async respond(
+    reply: FastifyReply,
+    operation: () => Promise<unknown>,
+    statusCode: StatusCodes = StatusCodes.OK,
+  ): Promise<void> {
+    let data: unknown;
+
+    try {
+      data = await operation();
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return this.sendErrorResponse({
+          reply,
+          error: error.message,
+          statusCode: StatusCodes.BAD_REQUEST,
+          errorType: 'validation',
+          details: error.context,
+        });
+      }
+
+      if (error instanceof QueueError && error.code === ErrorCode.RESOURCE_NOT_FOUND) {
+        return this.sendNotFoundResponse(reply, error.message);
+      }
+
+      if (error instanceof QueueError) {
+        return this.sendErrorResponse({ reply, error: error.message, statusCode: StatusCodes.CONFLICT });
+      }
+
+      throw error;
+    }
+
+    if (statusCode === StatusCodes.NO_CONTENT) {
+      reply.status(statusCode).send();
+    } else {
+      this.sendSuccessResponse({ reply, data, statusCode });
+    }
+  }
+}
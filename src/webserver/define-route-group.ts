@@ -0,0 +1,154 @@
+import { z } from 'zod';
+import type { AuthenticationStrategyName } from '../auth/strategy.interface.js';
+import type { RouteGuard } from './guard.interface.js';
+import WebServerUtil from './util.js';
+import type {
+  AnyRouteSchemaDefinition,
+  WebServerRoute,
+  WebServerRouteIdempotencyOptions,
+  WebServerRouteRateLimitOptions,
+} from './webserver.interface.js';
+
+export interface DefineRouteGroupConfig {
+  /** Path prefix prepended to every route in the group (e.g. `/v1`) */
+  prefix?: string;
+
+  /** OpenAPI tags prepended to every route's tags */
+  tags?: string[];
+
+  /** Guards run before the guards of every route in the group */
+  guards?: RouteGuard<any>[];
+
+  /** Authentication strategies accepted by routes that do not set their own */
+  auth?: AuthenticationStrategyName[];
+
+  /** Permissions required by every route in the group, in addition to the route's own */
+  requires?: string[];
+
+  /** Rate limit applied to routes that do not set their own */
+  rateLimit?: WebServerRouteRateLimitOptions | string | false;
+
+  /** Idempotency applied to routes that do not set their own */
+  idempotency?: WebServerRouteIdempotencyOptions | boolean;
+
+  /**
+   * Schema shared by every route in the group.
+   * Object `params`, `querystring` and `headers` schemas are merged with the route's; `response` entries are merged
+   * by status code; otherwise the route's own schema wins.
+   */
+  schema?: AnyRouteSchemaDefinition;
+
+  /** Routes and nested groups */
+  routes: (WebServerRoute | WebServerRoute[])[];
+}
+
+function joinRoutePath(prefix: string | undefined, routePath: string): string {
+  if (!prefix) {
+    return routePath;
+  }
+
+  const segments = [prefix, routePath].flatMap(segment => segment.split('/')).filter(segment => segment.length > 0);
+
+  return `/${segments.join('/')}`;
+}
+
+function mergeObjectSchema(
+  groupSchema: z.ZodTypeAny | undefined,
+  routeSchema: z.ZodTypeAny | undefined,
+): z.ZodTypeAny | undefined {
+  if (groupSchema instanceof z.ZodObject && routeSchema instanceof z.ZodObject) {
+    return groupSchema.extend(routeSchema.shape);
+  }
+
+  return routeSchema ?? groupSchema;
+}
+
+function mergeSchema(
+  groupSchema: AnyRouteSchemaDefinition | undefined,
+  routeSchema: AnyRouteSchemaDefinition | undefined,
+): AnyRouteSchemaDefinition | undefined {
+  if (!groupSchema) {
+    return routeSchema;
+  }
+
+  const mergedSchema: AnyRouteSchemaDefinition = {
+    params: mergeObjectSchema(groupSchema.params, routeSchema?.params),
+    querystring: mergeObjectSchema(groupSchema.querystring, routeSchema?.querystring),
+    headers: mergeObjectSchema(groupSchema.headers, routeSchema?.headers),
+    body: routeSchema?.body ?? groupSchema.body,
+    response:
+      groupSchema.response || routeSchema?.response ? { ...groupSchema.response, ...routeSchema?.response } : undefined,
+  };
+
+  return Object.fromEntries(
+    Object.entries(mergedSchema).filter(([, value]) => value !== undefined),
+  ) as AnyRouteSchemaDefinition;
+}
+
+function applyGroup(route: WebServerRoute, group: DefineRouteGroupConfig): WebServerRoute {
+  const groupedRoute: WebServerRoute = {
+    ...route,
+    path: joinRoutePath(group.prefix, route.path),
+  };
+
+  if (group.guards && group.guards.length > 0) {
+    groupedRoute.guards = [...group.guards, ...(route.guards ?? [])];
+  }
+
+  if (group.auth && group.auth.length > 0 && route.auth === undefined) {
+    groupedRoute.auth = group.auth;
+  }
+
+  if (group.requires && group.requires.length > 0) {
+    groupedRoute.requires = [...new Set([...group.requires, ...(route.requires ?? [])])];
+  }
+
+  if (group.rateLimit !== undefined && route.rateLimit === undefined) {
+    groupedRoute.rateLimit = group.rateLimit;
+  }
+
+  if (group.idempotency !== undefined && route.idempotency === undefined) {
+    groupedRoute.idempotency = group.idempotency;
+  }
+
+  const schema = mergeSchema(group.schema, route.schema);
+
+  if (schema) {
+    groupedRoute.schema = schema;
+  }
+
+  if (group.tags && group.tags.length > 0) {
+    const tags = [...new Set([...group.tags, ...(route.openapi?.tags ?? [])])];
+
+    groupedRoute.openapi = { ...route.openapi, tags };
+  }
+
+  return groupedRoute;
+}
+
+/**
+ * Define a group of routes sharing a path prefix, tags, guards, authentication strategies, required permissions,
+ * rate limit, idempotency and schema.
+ * Returns the flattened routes, so a group can be exported from a routes file, nested in another group
+ * or mixed with plain routes.
+ *
+ * @example
+ * export const routes = defineRouteGroup({
+ *   prefix: '/v1',
+ *   tags: ['v1'],
+ *   routes: [
+ *     defineRoute({ method: 'GET', path: '/status', handler: statusHandler }),
+ *     defineRouteGroup({
+ *       prefix: '/admin',
+ *       auth: ['jwt', 'apiKey'],
+ *       guards: [adminGuard],
+ *       rateLimit: { max: 30, timeWindow: '1 minute' },
+ *       idempotency: true,
+ *       routes: [{ type: WebServerRouteType.Entity, entityName: 'user', path: '/users', controller: UserController }],
+ *     }),
+ *   ],
+ * });
+ */
+export function defineRouteGroup(config: DefineRouteGroupConfig): WebServerRoute[] {
+  return WebServerUtil.toRouteArray(config.routes).map(route => applyGroup(route, config));
+}
@@ -1,20 +1,43 @@
-import type { HTTPMethods } from 'fastify';
-import type { ControllerAction, WebServerBaseControllerType } from './controller/base.interface.js';
+import type { FastifyReply, HTTPMethods } from 'fastify';
+import type { AuthenticationStrategyName } from '../auth/strategy.interface.js';
+import type { ControllerAction, ControllerRequest, WebServerBaseControllerType } from './controller/base.interface.js';
+import type { InferGuardContext, RouteGuard } from './guard.interface.js';
+import type { RouteOpenApiOptions } from './openapi.interface.js';
 import {
   type AnyRouteSchemaDefinition,
   type RouteSchemaDefinition,
   type WebServerRoute,
+  type WebServerRouteIdempotencyOptions,
+  type WebServerRouteRateLimitOptions,
   WebServerRouteType,
 } from './webserver.interface.js';
 
+/**
+ * Route handler whose request also carries the properties contributed by its guards.
+ */
+export type GuardedRouteHandler<
+  Schema extends RouteSchemaDefinition<any, any, any, any, any> | undefined,
+  Guards extends RouteGuard<any>[] = [],
+> = (
+  request: ControllerRequest<Schema> & InferGuardContext<Guards>,
+  reply: FastifyReply,
+) => ReturnType<ControllerAction<Schema>>;
+
 export interface DefineRouteConfig<
   Schema extends RouteSchemaDefinition<any, any, any, any, any> | undefined,
-  Handler extends ControllerAction<Schema>,
+  Handler extends GuardedRouteHandler<Schema, Guards>,
+  Guards extends RouteGuard<any>[] = [],
 > {
   method: HTTPMethods | HTTPMethods[];
   path: string;
   schema?: Schema;
+  guards?: [...Guards];
+  auth?: AuthenticationStrategyName[];
+  requires?: string[];
+  rateLimit?: WebServerRouteRateLimitOptions | string | false;
+  idempotency?: WebServerRouteIdempotencyOptions | boolean;
   handler: Handler;
+  openapi?: RouteOpenApiOptions;
 }
 
 export interface DefineRouteWithControllerConfig<
@@ -23,8 +46,14 @@ export interface DefineRouteWithControllerConfig<
   method: HTTPMethods | HTTPMethods[];
   path: string;
   schema?: Schema;
+  guards?: RouteGuard<any>[];
+  auth?: AuthenticationStrategyName[];
+  requires?: string[];
+  rateLimit?: WebServerRouteRateLimitOptions | string | false;
+  idempotency?: WebServerRouteIdempotencyOptions | boolean;
   controller: WebServerBaseControllerType;
   action: string;
+  openapi?: RouteOpenApiOptions;
 }
 
 /**
@@ -46,11 +75,20 @@ export interface DefineRouteWithControllerConfig<
  *     return reply.send({ message: `Hello ${request.body.name}` });
  *   }
  * });
+ *
+ * // Guards run before the handler; values they return are typed on the request
+ * defineRoute({
+ *   method: 'GET',
+ *   path: '/me',
+ *   guards: [authGuard],
+ *   handler: async (request, reply) => reply.send({ userId: request.user.userId })
+ * });
  */
 export function defineRoute<
   Schema extends RouteSchemaDefinition<any, any, any, any, any> | undefined,
-  Handler extends ControllerAction<Schema>,
->(config: DefineRouteConfig<Schema, Handler>): WebServerRoute;
+  Handler extends GuardedRouteHandler<Schema, Guards>,
+  Guards extends RouteGuard<any>[] = [],
+>(config: DefineRouteConfig<Schema, Handler, Guards>): WebServerRoute;
 
 /**
  * Define a route with a controller and action method.
@@ -73,8 +111,9 @@ export function defineRoute<Schema extends RouteSchemaDefinition<any, any, any,
 // eslint-disable-next-line no-redeclare
 export function defineRoute<
   Schema extends RouteSchemaDefinition<any, any, any, any, any> | undefined,
-  Handler extends ControllerAction<Schema>,
->(config: DefineRouteConfig<Schema, Handler> | DefineRouteWithControllerConfig<Schema>): WebServerRoute {
+  Handler extends GuardedRouteHandler<Schema, Guards>,
+  Guards extends RouteGuard<any>[] = [],
+>(config: DefineRouteConfig<Schema, Handler, Guards> | DefineRouteWithControllerConfig<Schema>): WebServerRoute {
   const route: WebServerRoute = {
     type: WebServerRouteType.Default,
     method: config.method,
@@ -82,7 +121,7 @@ export function defineRoute<
   };
 
   if ('handler' in config) {
-    route.handler = config.handler as ControllerAction<any>;
+    route.handler = config.handler as unknown as ControllerAction<any>;
   } else if ('controller' in config && 'action' in config) {
     route.controller = config.controller;
     route.action = config.action;
@@ -92,6 +131,30 @@ export function defineRoute<
     route.schema = config.schema as AnyRouteSchemaDefinition;
   }
 
+  if (config.guards && config.guards.length > 0) {
+    route.guards = config.guards;
+  }
+
+  if (config.auth && config.auth.length > 0) {
+    route.auth = config.auth;
+  }
+
+  if (config.requires && config.requires.length > 0) {
+    route.requires = config.requires;
+  }
+
+  if (config.rateLimit !== undefined) {
+    route.rateLimit = config.rateLimit;
+  }
+
+  if (config.idempotency !== undefined) {
+    route.idempotency = config.idempotency;
+  }
+
+  if (config.openapi) {
+    route.openapi = config.openapi;
+  }
+
   return route;
 }
 
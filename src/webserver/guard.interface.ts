@@ -0,0 +1,70 @@
+import type { FastifyReply, FastifyRequest, HTTPMethods } from 'fastify';
+import type { ApplicationConfig } from '../application/base-application.interface.js';
+import type { DatabaseInstance } from '../database/index.js';
+import type EventManager from '../event/manager.js';
+import type { LifecycleManager } from '../lifecycle/lifecycle-manager.js';
+import type { QueueManager } from '../queue/index.js';
+import type { RedisInstance } from '../redis/index.js';
+import type { WebServerOptions } from './webserver.interface.js';
+
+/**
+ * Services and route information available to guards.
+ */
+export interface RouteGuardContext {
+  applicationConfig: ApplicationConfig;
+  webServerOptions: WebServerOptions;
+  redisInstance: RedisInstance;
+  queueManager: QueueManager;
+  eventManager: EventManager;
+  databaseInstance: DatabaseInstance;
+  lifecycleManager: LifecycleManager;
+
+  /** Route the guard is attached to */
+  route: {
+    method: HTTPMethods | HTTPMethods[];
+    path: string;
+  };
+}
+
+/**
+ * Route guard, run in order before the route handler.
+ *
+ * A guard can:
+ * - return nothing to let the request continue
+ * - return an object whose properties are assigned to `request` (e.g. `{ user }`) and typed on the handler
+ * - throw a `RouteGuardError` to short-circuit with an `ApiResponse` error envelope
+ * - send a reply itself, which also stops the pipeline
+ */
+export interface RouteGuard<TContext extends object = object> {
+  (
+    request: FastifyRequest,
+    reply: FastifyReply,
+    context: RouteGuardContext,
+    // biome-ignore lint/suspicious/noConfusingVoidType: guards that only validate have no return statement
+  ): TContext | undefined | void | Promise<TContext | undefined | void>;
+
+  /** Guard name (used in logs) */
+  guardName?: string;
+
+  /** Whether the guard authenticates the caller (documented as a Bearer security requirement in OpenAPI) */
+  authenticates?: boolean;
+}
+
+export interface RouteGuardOptions {
+  /** Guard name (used in logs) */
+  name?: string;
+
+  /** Whether the guard authenticates the caller (documented as a Bearer security requirement in OpenAPI) */
+  authenticates?: boolean;
+}
+
+type UnionToIntersection<U> = (U extends unknown ? (arg: U) => void : never) extends (arg: infer I) => void ? I : never;
+
+/**
+ * Request properties contributed by a list of guards.
+ */
+export type InferGuardContext<TGuards extends readonly RouteGuard<any>[]> = UnionToIntersection<
+  {
+    [K in keyof TGuards]: TGuards[K] extends RouteGuard<infer TContext> ? TContext : never;
+  }[number]
+>;
@@ -0,0 +1,227 @@
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { StatusCodes } from 'http-status-codes';
+import type { AuthenticatedUser } from '../auth/authenticate.js';
+import Authorization from '../auth/authorization.js';
+import type { AuthenticationStrategyName } from '../auth/strategy.interface.js';
+import AuthenticationStrategies from '../auth/strategy.js';
+import { ErrorCode } from '../error/error.interface.js';
+import { WebServerError } from '../error/framework-errors.js';
+import type { ApiError, ApiResponse } from './controller/base.interface.js';
+import type { RouteGuard, RouteGuardContext, RouteGuardOptions } from './guard.interface.js';
+import WebServerUtil from './util.js';
+
+/**
+ * Error thrown by a route guard to reject a request.
+ * The web server responds with an `ApiResponse` error envelope using the given status code.
+ */
+export class RouteGuardError extends WebServerError {
+  public readonly statusCode: StatusCodes;
+  public readonly errorType?: ApiError['type'];
+  public readonly details?: Record<string, unknown>;
+
+  constructor(
+    message: string,
+    options?: {
+      statusCode?: StatusCodes;
+      errorType?: ApiError['type'];
+      details?: Record<string, unknown>;
+      cause?: unknown;
+    },
+  ) {
+    super(message, { code: ErrorCode.WEB_ROUTE_GUARD_REJECTED, cause: options?.cause });
+    this.name = 'RouteGuardError';
+    this.statusCode = options?.statusCode ?? StatusCodes.FORBIDDEN;
+    this.errorType = options?.errorType;
+    this.details = options?.details;
+  }
+}
+
+/**
+ * Send an `ApiResponse` error envelope for a rejected guard.
+ */
+export function sendRouteGuardErrorResponse(reply: FastifyReply, error: RouteGuardError): FastifyReply {
+  const apiError: ApiError = {
+    message: error.message,
+    type: error.errorType ?? WebServerUtil.getErrorType(error.statusCode),
+    timestamp: new Date().toISOString(),
+    requestId: reply.request.id || 'unknown',
+    ...(error.details && { details: error.details }),
+  };
+
+  const response: ApiResponse = { error: apiError };
+
+  return reply.status(error.statusCode).send(response);
+}
+
+/**
+ * Define a route guard.
+ *
+ * @example
+ * const tenantGuard = defineGuard(async request => {
+ *   const tenantId = request.headers['x-tenant-id'];
+ *
+ *   if (typeof tenantId !== 'string') {
+ *     throw new RouteGuardError('Missing tenant', { statusCode: 400 });
+ *   }
+ *
+ *   return { tenantId }; // available as request.tenantId in the handler
+ * });
+ */
+export function defineGuard<TContext extends object = object>(
+  guard: RouteGuard<TContext>,
+  options: RouteGuardOptions = {},
+): RouteGuard<TContext> {
+  if (options.name) {
+    guard.guardName = options.name;
+  }
+
+  if (options.authenticates !== undefined) {
+    guard.authenticates = options.authenticates;
+  }
+
+  return guard;
+}
+
+async function authenticateGuardRequest(
+  request: FastifyRequest,
+  context: RouteGuardContext,
+  strategies?: AuthenticationStrategyName[],
+): Promise<{ user: AuthenticatedUser }> {
+  const result = await AuthenticationStrategies.authenticate({
+    request,
+    applicationConfig: context.applicationConfig,
+    redisInstance: context.redisInstance,
+    strategies,
+  });
+
+  if (!result.success) {
+    throw new RouteGuardError(result.message, {
+      statusCode: result.statusCode,
+      errorType: result.errorType,
+    });
+  }
+
+  return { user: result.user };
+}
+
+/**
+ * Guard that authenticates the request with the default strategies (`auth.strategies`, or a Bearer JWT)
+ * and assigns `request.user`.
+ */
+export const authGuard = defineGuard<{ user: AuthenticatedUser }>(
+  (request, _reply, context) => authenticateGuardRequest(request, context),
+  { name: 'auth', authenticates: true },
+);
+
+/**
+ * Guard that authenticates requests with the default strategies and assigns `request.user` when they succeed.
+ * Other requests are let through, for handlers that authenticate themselves or serve anonymous users.
+ */
+export const optionalAuthGuard = defineGuard<{ user?: AuthenticatedUser }>(
+  async (request, _reply, context) => {
+    const result = await AuthenticationStrategies.authenticate({
+      request,
+      applicationConfig: context.applicationConfig,
+      redisInstance: context.redisInstance,
+    });
+
+    return result.success ? { user: result.user } : {};
+  },
+  { name: 'optionalAuth' },
+);
+
+/**
+ * Guard that authenticates the request with any of the given strategies and assigns `request.user`.
+ * Routes and groups can set `auth: [...]` instead of adding this guard.
+ *
+ * @example
+ * defineRoute({ method: 'POST', path: '/webhooks', guards: [requireAuthentication('apiKey', 'hmac')], handler });
+ */
+export function requireAuthentication(...strategies: AuthenticationStrategyName[]): RouteGuard<{
+  user: AuthenticatedUser;
+}> {
+  return defineGuard<{ user: AuthenticatedUser }>(
+    (request, _reply, context) => authenticateGuardRequest(request, context, strategies),
+    { name: 'authentication', authenticates: true },
+  );
+}
+
+/**
+ * Guard that requires the authenticated user to hold all given permissions.
+ * Authenticates the request with `authGuard` first when no earlier guard has set `request.user`.
+ *
+ * @example
+ * defineRoute({ method: 'POST', path: '/posts', guards: [requirePermissions('posts:write')], handler });
+ */
+export function requirePermissions(...permissions: string[]): RouteGuard<{ user: AuthenticatedUser }> {
+  return defineGuard<{ user: AuthenticatedUser }>(
+    async (request, reply, context) => {
+      let user = (request as FastifyRequest & { user?: AuthenticatedUser }).user;
+
+      if (!user) {
+        const authResult = await authGuard(request, reply, context);
+
+        if (!authResult) {
+          throw new RouteGuardError('Authentication required.', { statusCode: StatusCodes.UNAUTHORIZED });
+        }
+
+        user = authResult.user;
+      }
+
+      const result = await Authorization.authorize({
+        user,
+        requires: permissions,
+        config: context.applicationConfig.auth?.authorization,
+      });
+
+      if (!result.allowed) {
+        throw new RouteGuardError('Insufficient permissions.', {
+          statusCode: StatusCodes.FORBIDDEN,
+          errorType: 'authorization',
+          details: { missingPermissions: result.missingPermissions },
+        });
+      }
+
+      return { user };
+    },
+    { name: 'permissions', authenticates: true },
+  );
+}
+
+/**
+ * Create a Fastify preHandler that runs guards in order.
+ */
+export function createGuardPreHandler({
+  guards,
+  context,
+}: {
+  guards: RouteGuard<any>[];
+  context: RouteGuardContext;
+}): (request: FastifyRequest, reply: FastifyReply) => Promise<FastifyReply | undefined> {
+  return async (request, reply) => {
+    for (const guard of guards) {
+      let guardResult: unknown;
+
+      try {
+        guardResult = await guard(request, reply, context);
+      } catch (error) {
+        if (error instanceof RouteGuardError) {
+          return sendRouteGuardErrorResponse(reply, error);
+        }
+
+        throw error;
+      }
+
+      // Guard responded itself
+      if (reply.sent) {
+        return reply;
+      }
+
+      if (guardResult && typeof guardResult === 'object') {
+        Object.assign(request, guardResult);
+      }
+    }
+
+    return undefined;
+  };
+}
@@ -0,0 +1,260 @@
+import { createHash } from 'node:crypto';
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { StatusCodes } from 'http-status-codes';
+import type { AuthenticatedUser } from '../auth/authenticate.js';
+import { Logger } from '../logger/index.js';
+import type { RedisInstance } from '../redis/index.js';
+import Tenancy from '../tenancy/tenancy.js';
+import { RouteGuardError, sendRouteGuardErrorResponse } from './guard.js';
+import type { WebServerIdempotencyOptions, WebServerRouteIdempotencyOptions } from './webserver.interface.js';
+
+/** Header holding the idempotency key */
+const DEFAULT_HEADER = 'idempotency-key';
+
+/** Seconds a response is replayed for */
+const DEFAULT_TTL = 24 * 60 * 60;
+
+/** Seconds a request is considered in flight */
+const DEFAULT_LOCK_TTL = 60;
+
+const DEFAULT_KEY_PREFIX = 'idempotency:';
+
+const MAX_KEY_LENGTH = 255;
+
+/** Header set on replayed responses */
+const REPLAYED_HEADER = 'idempotent-replayed';
+
+/** Methods whose requests are deduplicated; other methods are safe to retry */
+const UNSAFE_METHODS = new Set(['POST', 'PUT', 'PATCH', 'DELETE']);
+
+/** Status codes of responses to requests that were not processed */
+const UNPROCESSED_STATUS_CODES = new Set<number>([
+  StatusCodes.UNAUTHORIZED,
+  StatusCodes.FORBIDDEN,
+  StatusCodes.TOO_MANY_REQUESTS,
+]);
+
+/** Response headers stored with the response; others (rate limit, request ID, ...) only describe the first request */
+const STORED_HEADERS = ['content-type', 'location', 'etag', 'last-modified'];
+
+interface IdempotencyRecord {
+  status: 'processing' | 'completed';
+
+  /** Hash of the method, URL and body of the request the key was first used with */
+  fingerprint: string;
+
+  statusCode?: number;
+  headers?: Record<string, string>;
+  body?: string;
+  encoding?: 'utf8' | 'base64';
+}
+
+/** Requests holding the lock of their key, until their response is stored */
+const lockedRequests = new WeakMap<FastifyRequest, { redisKey: string; fingerprint: string; ttl: number }>();
+
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(canonicalize);
+  }
+
+  if (value && typeof value === 'object' && !Buffer.isBuffer(value)) {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map(key => [key, canonicalize((value as Record<string, unknown>)[key])]),
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Get the fingerprint of a request.
+ * Object keys are sorted, so a client serializing the same body in another order sends the same request.
+ */
+export function getRequestFingerprint(request: FastifyRequest): string {
+  const hash = createHash('sha256').update(`${request.method} ${request.url}\n`);
+  const { body } = request;
+
+  if (Buffer.isBuffer(body) || typeof body === 'string') {
+    hash.update(body);
+  } else if (body !== undefined) {
+    hash.update(JSON.stringify(canonicalize(body)));
+  }
+
+  return hash.digest('base64url');
+}
+
+function getRedisKey({
+  request,
+  idempotencyKey,
+  keyPrefix,
+}: {
+  request: FastifyRequest;
+  idempotencyKey: string;
+  keyPrefix: string;
+}): string {
+  // Keys are chosen by clients, so they are scoped to the user and tenant sending them
+  const userId = (request as FastifyRequest & { user?: AuthenticatedUser }).user?.userId;
+  const key = `${userId !== undefined ? `user:${userId}` : 'anonymous'}:${idempotencyKey}`;
+
+  return `${keyPrefix}${Tenancy.getTenantScopedKey({ key, tenantId: request.tenantId })}`;
+}
+
+function sendStoredResponse(reply: FastifyReply, record: IdempotencyRecord): FastifyReply {
+  const body = record.body === undefined ? undefined : Buffer.from(record.body, record.encoding ?? 'utf8');
+
+  return reply
+    .status(record.statusCode ?? StatusCodes.OK)
+    .headers(record.headers ?? {})
+    .header(REPLAYED_HEADER, 'true')
+    .send(body);
+}
+
+/**
+ * Create the Fastify hooks of a route with `idempotency`.
+ *
+ * The `preHandler` locks the `Idempotency-Key` of POST, PUT, PATCH and DELETE requests in Redis with a fingerprint
+ * of the request, and the `onSend` hook stores the response. A request sent again with the same key gets the stored
+ * response (with `Idempotent-Replayed: true`), 409 while the first request is in flight, or 422 when the key was used
+ * for a different request. Server errors, 401, 403 and 429 responses and streamed responses are not stored, so those
+ * requests can be retried.
+ */
+export function createIdempotencyHooks({
+  options = {},
+  routeOptions = {},
+  redisInstance,
+}: {
+  options?: WebServerIdempotencyOptions;
+  routeOptions?: WebServerRouteIdempotencyOptions;
+  redisInstance: RedisInstance;
+}): {
+  preHandler: (request: FastifyRequest, reply: FastifyReply) => Promise<FastifyReply | undefined>;
+  onSend: (request: FastifyRequest, reply: FastifyReply, payload: unknown) => Promise<unknown>;
+} {
+  const header = (options.header ?? DEFAULT_HEADER).toLowerCase();
+  const ttl = routeOptions.ttl ?? options.ttl ?? DEFAULT_TTL;
+  const lockTtl = options.lockTtl ?? DEFAULT_LOCK_TTL;
+  const keyPrefix = options.keyPrefix ?? DEFAULT_KEY_PREFIX;
+
+  const preHandler = async (request: FastifyRequest, reply: FastifyReply): Promise<FastifyReply | undefined> => {
+    if (!UNSAFE_METHODS.has(request.method)) {
+      return undefined;
+    }
+
+    const headerValue = request.headers[header];
+    const idempotencyKey = Array.isArray(headerValue) ? headerValue[0] : headerValue;
+
+    if (!idempotencyKey) {
+      if (routeOptions.required) {
+        return sendRouteGuardErrorResponse(
+          reply,
+          new RouteGuardError(`Missing ${options.header ?? 'Idempotency-Key'} header`, {
+            statusCode: StatusCodes.BAD_REQUEST,
+          }),
+        );
+      }
+
+      return undefined;
+    }
+
+    if (idempotencyKey.length > MAX_KEY_LENGTH) {
+      return sendRouteGuardErrorResponse(
+        reply,
+        new RouteGuardError('Invalid idempotency key', { statusCode: StatusCodes.BAD_REQUEST }),
+      );
+    }
+
+    const redisKey = getRedisKey({ request, idempotencyKey, keyPrefix });
+    const fingerprint = getRequestFingerprint(request);
+    const lock: IdempotencyRecord = { status: 'processing', fingerprint };
+
+    const acquired = await redisInstance.client.set(redisKey, JSON.stringify(lock), 'EX', lockTtl, 'NX');
+
+    if (acquired === 'OK') {
+      lockedRequests.set(request, { redisKey, fingerprint, ttl });
+
+      return undefined;
+    }
+
+    const storedRecord = await redisInstance.client.get(redisKey);
+    const record = storedRecord ? (JSON.parse(storedRecord) as IdempotencyRecord) : undefined;
+
+    if (record && record.fingerprint !== fingerprint) {
+      return sendRouteGuardErrorResponse(
+        reply,
+        new RouteGuardError('Idempotency key was used for a different request', {
+          statusCode: StatusCodes.UNPROCESSABLE_ENTITY,
+        }),
+      );
+    }
+
+    // The record expired between both calls, which is treated like a request in flight
+    if (!record || record.status === 'processing') {
+      return sendRouteGuardErrorResponse(
+        reply,
+        new RouteGuardError('A request with this idempotency key is in progress', {
+          statusCode: StatusCodes.CONFLICT,
+        }),
+      );
+    }
+
+    return sendStoredResponse(reply, record);
+  };
+
+  const onSend = async (request: FastifyRequest, reply: FastifyReply, payload: unknown): Promise<unknown> => {
+    const lockedRequest = lockedRequests.get(request);
+
+    if (!lockedRequest) {
+      return payload;
+    }
+
+    lockedRequests.delete(request);
+
+    const isStorable = payload == null || typeof payload === 'string' || Buffer.isBuffer(payload);
+
+    try {
+      // Rate limited and unauthenticated or unauthorized requests were not processed, so they can be retried
+      // with the same key (e.g. once the client has refreshed its token)
+      if (
+        reply.statusCode >= StatusCodes.INTERNAL_SERVER_ERROR ||
+        UNPROCESSED_STATUS_CODES.has(reply.statusCode) ||
+        !isStorable
+      ) {
+        await redisInstance.client.del(lockedRequest.redisKey);
+
+        return payload;
+      }
+
+      const headers: Record<string, string> = {};
+
+      for (const name of STORED_HEADERS) {
+        const value = reply.getHeader(name);
+
+        if (value !== undefined) {
+          headers[name] = String(value);
+        }
+      }
+
+      const record: IdempotencyRecord = {
+        status: 'completed',
+        fingerprint: lockedRequest.fingerprint,
+        statusCode: reply.statusCode,
+        headers,
+        ...(Buffer.isBuffer(payload)
+          ? { body: payload.toString('base64'), encoding: 'base64' }
+          : typeof payload === 'string'
+            ? { body: payload }
+            : {}),
+      };
+
+      await redisInstance.client.set(lockedRequest.redisKey, JSON.stringify(record), 'EX', lockedRequest.ttl);
+    } catch (error) {
+      Logger.error({ error, message: 'Could not store idempotent response', meta: { key: lockedRequest.redisKey } });
+    }
+
+    return payload;
+  };
+
+  return { preHandler, onSend };
+}
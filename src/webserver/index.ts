@@ -1,3 +1,6 @@
+export type { DefineAuthRoutesConfig } from './auth-routes.js';
+export { defineAuthRoutes } from './auth-routes.js';
+export { generateApiClient, jsonSchemaToTypeScript } from './client-generator.js';
 export type {
   AuthenticatedRequest,
   AuthenticatedRouteHandler,
@@ -5,25 +8,78 @@ export type {
   RouteHandler,
 } from './controller/auth-middleware.js';
 export { withAuth } from './controller/auth-middleware.js';
+export { default as WebServerAuthTokenController } from './controller/auth-token.js';
 export type {
   ControllerAction,
   ControllerRequest,
   WebServerBaseControllerConstructorParams,
 } from './controller/base.interface.js';
 export { default as WebServerBaseController } from './controller/base.js';
+export type {
+  EntityActionPolicy,
+  EntityBulkItemResult,
+  EntityBulkMode,
+  EntityBulkOptions,
+  EntityConcurrencyOptions,
+  EntityControllerAction,
+  EntityCursorDirection,
+  EntityPaginationOptions,
+  EntityPolicies,
+  EntityPolicyContext,
+  EntityScopeContext,
+  EntityScopeFilter,
+  JsonPatchOperation,
+} from './controller/entity.interface.js';
 export { default as WebServerEntityController } from './controller/entity.js';
+export type {
+  EntityFilterOperator,
+  EntityQuery,
+  EntityQueryDescription,
+  EntityQueryIssue,
+  EntityQueryOptions,
+} from './controller/entity-query.interface.js';
 export { default as ExampleAuthController } from './controller/example-auth.js';
 export { default as WebServerHealthController } from './controller/health.js';
+export { default as WebServerQueueAdminController } from './controller/queue-admin.js';
 export { defineAction } from './define-action.js';
 export { defineRoute } from './define-route.js';
+export type { DefineRouteGroupConfig } from './define-route-group.js';
+export { defineRouteGroup } from './define-route-group.js';
+export type { InferGuardContext, RouteGuard, RouteGuardContext, RouteGuardOptions } from './guard.interface.js';
+export {
+  authGuard,
+  createGuardPreHandler,
+  defineGuard,
+  optionalAuthGuard,
+  RouteGuardError,
+  requireAuthentication,
+  requirePermissions,
+} from './guard.js';
+export { createIdempotencyHooks, getRequestFingerprint } from './idempotency.js';
+export type {
+  OpenApiDocument,
+  OpenApiInfo,
+  OpenApiServer,
+  RouteOpenApiOptions,
+  WebServerOpenApiOptions,
+} from './openapi.interface.js';
+export { generateOpenApiDocument, toOpenApiPath } from './openapi.js';
+export type { DefineQueueAdminRoutesConfig } from './queue-admin-routes.js';
+export { defineQueueAdminRoutes, defineQueueDeadLetterRoutes } from './queue-admin-routes.js';
 export { default as RouteUtil } from './util.js';
 export type {
+  EntityRouteOptionalAction,
   RouteHandler as TypedRouteHandler,
   RouteHandlerContext,
   RouteSchemaDefinition,
   WebServerConstructorParams,
+  WebServerIdempotencyOptions,
   WebServerOptions,
+  WebServerPaginationOptions,
+  WebServerQueueAdminOptions,
   WebServerRoute,
+  WebServerRouteIdempotencyOptions,
+  WebServerRouteRateLimitOptions,
 } from './webserver.interface.js';
 export { WebServerRouteType } from './webserver.interface.js';
 export { default as WebServer } from './webserver.js';
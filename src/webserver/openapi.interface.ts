@@ -0,0 +1,117 @@
+export type OpenApiSchemaObject = Record<string, unknown>;
+
+export interface OpenApiInfo {
+  /** API title */
+  title: string;
+
+  /** API version (not the OpenAPI spec version) */
+  version: string;
+
+  /** API description */
+  description?: string;
+}
+
+export interface OpenApiServer {
+  url: string;
+  description?: string;
+}
+
+export interface OpenApiParameter {
+  name: string;
+  in: 'path' | 'query' | 'header';
+  required?: boolean;
+  description?: string;
+  schema: OpenApiSchemaObject;
+}
+
+export interface OpenApiMediaType {
+  schema: OpenApiSchemaObject;
+}
+
+export interface OpenApiRequestBody {
+  description?: string;
+  required?: boolean;
+  content: Record<string, OpenApiMediaType>;
+}
+
+export interface OpenApiResponse {
+  description: string;
+  content?: Record<string, OpenApiMediaType>;
+}
+
+export interface OpenApiOperation {
+  operationId: string;
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  deprecated?: boolean;
+  parameters?: OpenApiParameter[];
+  requestBody?: OpenApiRequestBody;
+  responses: Record<string, OpenApiResponse>;
+  security?: Record<string, string[]>[];
+}
+
+export type OpenApiPathItem = Partial<
+  Record<'get' | 'put' | 'post' | 'delete' | 'options' | 'head' | 'patch' | 'trace', OpenApiOperation>
+>;
+
+export interface OpenApiSecurityScheme {
+  type: 'http' | 'apiKey' | 'oauth2' | 'openIdConnect' | 'mutualTLS';
+  scheme?: string;
+  bearerFormat?: string;
+  name?: string;
+  in?: 'query' | 'header' | 'cookie';
+  description?: string;
+}
+
+export interface OpenApiDocument {
+  openapi: '3.1.0';
+  info: OpenApiInfo;
+  servers?: OpenApiServer[];
+  paths: Record<string, OpenApiPathItem>;
+  components: {
+    schemas: Record<string, OpenApiSchemaObject>;
+    securitySchemes: Record<string, OpenApiSecurityScheme>;
+  };
+  tags?: { name: string }[];
+}
+
+/**
+ * Per-route OpenAPI metadata.
+ */
+export interface RouteOpenApiOptions {
+  /** Explicit operation ID (derived from controller/action or method/path when omitted) */
+  operationId?: string;
+
+  /** Short operation summary */
+  summary?: string;
+
+  /** Long operation description */
+  description?: string;
+
+  /** Operation tags (derived from controller name or first path segment when omitted) */
+  tags?: string[];
+
+  /** Mark the operation as deprecated */
+  deprecated?: boolean;
+
+  /** Whether the route requires authentication (adds security requirements for the route's `auth` strategies, or bearerAuth) */
+  auth?: boolean;
+
+  /** Exclude the route from the generated document */
+  hidden?: boolean;
+}
+
+export interface WebServerOpenApiOptions {
+  /** Whether to serve the OpenAPI document */
+  enabled?: boolean;
+
+  /** Route path the document is served at (default: /openapi.json) */
+  path?: string;
+
+  /** Document info (title defaults to the application name) */
+  info?: Partial<OpenApiInfo>;
+
+  /** Document servers */
+  servers?: OpenApiServer[];
+}
@@ -0,0 +1,620 @@
+import type { HTTPMethods } from 'fastify';
+import { getReasonPhrase } from 'http-status-codes';
+import { z } from 'zod';
+import { ApiErrorResponseSchema } from '../schemas/common.js';
+import type {
+  OpenApiDocument,
+  OpenApiInfo,
+  OpenApiOperation,
+  OpenApiParameter,
+  OpenApiPathItem,
+  OpenApiRequestBody,
+  OpenApiResponse,
+  OpenApiSchemaObject,
+  OpenApiServer,
+  RouteOpenApiOptions,
+} from './openapi.interface.js';
+import WebServerUtil from './util.js';
+import { type AnyRouteSchemaDefinition, type WebServerRoute, WebServerRouteType } from './webserver.interface.js';
+
+export const BEARER_SECURITY_SCHEME_NAME = 'bearerAuth';
+export const API_KEY_SECURITY_SCHEME_NAME = 'apiKeyAuth';
+
+const OPERATION_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'] as const;
+
+type OperationMethod = (typeof OPERATION_METHODS)[number];
+
+type SchemaDirection = 'input' | 'output';
+
+/** Default success status per entity action (used when no response schema is defined) */
+const ENTITY_ACTION_STATUS: Record<string, number> = {
+  createOne: 201,
+  deleteOne: 204,
+  forceDeleteOne: 204,
+  createMany: 201,
+};
+
+const ENTITY_ITEM_SCHEMA: OpenApiSchemaObject = { type: 'object' };
+
+const BULK_MODE_SCHEMA: OpenApiSchemaObject = { type: 'string', enum: ['atomic', 'partial'] };
+
+/**
+ * Request body of an entity action. Entities validate their fields with Joi schemas, which are not converted, so
+ * items are documented as plain objects.
+ */
+function buildEntityRequestBody({
+  action,
+  entityName,
+}: {
+  action: string;
+  entityName: string;
+}): OpenApiRequestBody | undefined {
+  const description = `${capitalize(entityName)} fields, validated with the entity schema (not described here)`;
+  const json = (schema: OpenApiSchemaObject) => ({ 'application/json': { schema } });
+
+  switch (action) {
+    case 'createOne':
+    case 'updateOne':
+      return { description, required: true, content: json(ENTITY_ITEM_SCHEMA) };
+    case 'patchOne':
+      return {
+        description,
+        required: true,
+        content: {
+          'application/json-patch+json': {
+            schema: {
+              type: 'array',
+              items: {
+                type: 'object',
+                required: ['op', 'path'],
+                properties: {
+                  op: { type: 'string', enum: ['add', 'remove', 'replace', 'move', 'copy', 'test'] },
+                  path: { type: 'string' },
+                  from: { type: 'string' },
+                  value: {},
+                },
+              },
+            },
+          },
+          'application/merge-patch+json': { schema: ENTITY_ITEM_SCHEMA },
+          ...json(ENTITY_ITEM_SCHEMA),
+        },
+      };
+    case 'createMany':
+    case 'updateMany':
+      return {
+        description,
+        required: true,
+        content: json({
+          type: 'object',
+          required: ['items'],
+          properties: {
+            items: {
+              type: 'array',
+              items: action === 'updateMany' ? { ...ENTITY_ITEM_SCHEMA, required: ['id'] } : ENTITY_ITEM_SCHEMA,
+            },
+            mode: BULK_MODE_SCHEMA,
+          },
+        }),
+      };
+    case 'deleteMany':
+      return {
+        required: true,
+        content: json({
+          type: 'object',
+          required: ['ids'],
+          properties: {
+            ids: { type: 'array', items: { type: ['string', 'number'] } },
+            mode: BULK_MODE_SCHEMA,
+          },
+        }),
+      };
+    default:
+      return undefined;
+  }
+}
+
+export interface GenerateOpenApiDocumentOptions {
+  /** Routes to document (entity routes are expanded into their CRUD operations) */
+  routes: WebServerRoute[];
+
+  /** Document info */
+  info: OpenApiInfo;
+
+  /** Document servers */
+  servers?: OpenApiServer[];
+
+  /** Header documented for the API key security scheme (default: `x-api-key`) */
+  apiKeyHeader?: string;
+}
+
+/**
+ * Collects Zod schemas that carry an `id` (via `.meta({ id })`) into `components.schemas`,
+ * so a schema reused across routes is emitted once and referenced everywhere else.
+ */
+class ComponentSchemaCollector {
+  public readonly schemas: Record<string, OpenApiSchemaObject> = {};
+
+  public convert(schema: z.ZodTypeAny, direction: SchemaDirection): OpenApiSchemaObject {
+    const jsonSchema = z.toJSONSchema(schema, {
+      target: 'draft-2020-12',
+      io: direction,
+      unrepresentable: 'any',
+      cycles: 'ref',
+      reused: 'inline',
+      override: ({ zodSchema, jsonSchema: generated }) => {
+        if (zodSchema._zod.def.type === 'date') {
+          generated.type = 'string';
+          generated.format = 'date-time';
+        }
+      },
+    }) as OpenApiSchemaObject;
+
+    const { $schema: _dialect, $defs, id, ...rest } = jsonSchema;
+
+    const definitions: Record<string, OpenApiSchemaObject> = {};
+
+    for (const [name, definition] of Object.entries(($defs ?? {}) as Record<string, OpenApiSchemaObject>)) {
+      const { id: _id, ...definitionRest } = definition;
+      definitions[name] = definitionRest;
+    }
+
+    let root: OpenApiSchemaObject = rest;
+
+    if (typeof id === 'string') {
+      definitions[id] = rest;
+      root = { $ref: `#/$defs/${id}` };
+    }
+
+    // Resolve component names; a schema whose input/output shapes differ gets a direction suffix, and further
+    // different schemas with the same id a number
+    const names = new Map<string, string>(Object.keys(definitions).map(name => [name, name]));
+    const suffix = direction === 'input' ? 'Input' : 'Output';
+
+    for (const [name, definition] of Object.entries(definitions)) {
+      const serialized = JSON.stringify(rewriteRefs(definition, names));
+      let componentName = name;
+
+      for (let index = 1; this.schemas[componentName]; index++) {
+        if (JSON.stringify(this.schemas[componentName]) === serialized) {
+          break;
+        }
+
+        componentName = `${name}${suffix}${index === 1 ? '' : index}`;
+      }
+
+      names.set(name, componentName);
+    }
+
+    for (const [name, definition] of Object.entries(definitions)) {
+      const componentName = names.get(name) ?? name;
+
+      this.schemas[componentName] ??= rewriteRefs(definition, names) as OpenApiSchemaObject;
+    }
+
+    return rewriteRefs(root, names) as OpenApiSchemaObject;
+  }
+}
+
+function rewriteRefs(value: unknown, names: Map<string, string>): unknown {
+  if (Array.isArray(value)) {
+    return value.map(item => rewriteRefs(item, names));
+  }
+
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+
+  const rewritten: Record<string, unknown> = {};
+
+  for (const [key, nestedValue] of Object.entries(value)) {
+    if (key === '$ref' && typeof nestedValue === 'string' && nestedValue.startsWith('#/$defs/')) {
+      const name = nestedValue.slice('#/$defs/'.length);
+
+      rewritten[key] = `#/components/schemas/${names.get(name) ?? name}`;
+    } else {
+      rewritten[key] = rewriteRefs(nestedValue, names);
+    }
+  }
+
+  return rewritten;
+}
+
+/**
+ * Convert a Fastify route path (`/users/:id`) to an OpenAPI path (`/users/{id}`).
+ */
+export function toOpenApiPath(routePath: string): { path: string; pathParams: string[] } {
+  const pathParams: string[] = [];
+
+  const path = routePath.replace(/:([A-Za-z0-9_]+)(\([^)]*\))?/g, (_match, name: string) => {
+    pathParams.push(name);
+
+    return `{${name}}`;
+  });
+
+  return { path, pathParams };
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function toPascalCase(value: string): string {
+  return value
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(capitalize)
+    .join('');
+}
+
+function getControllerBaseName(route: WebServerRoute): string | undefined {
+  const controllerName = route.controller?.name ?? route.controllerName;
+
+  if (!controllerName) {
+    return undefined;
+  }
+
+  return controllerName.replace(/Controller$/, '') || controllerName;
+}
+
+function deriveOperationId({
+  route,
+  method,
+  path,
+  action,
+}: {
+  route: WebServerRoute;
+  method: string;
+  path: string;
+  action?: string;
+}): string {
+  const controllerBaseName = getControllerBaseName(route);
+
+  if (controllerBaseName && action) {
+    const base = toPascalCase(controllerBaseName);
+
+    return `${base.charAt(0).toLowerCase()}${base.slice(1)}${capitalize(action)}`;
+  }
+
+  const pathPart = path
+    .split('/')
+    .filter(Boolean)
+    .map(segment => (segment.startsWith(':') ? `By${toPascalCase(segment.slice(1).replace(/\(.*$/, ''))}` : segment))
+    .map(toPascalCase)
+    .join('');
+
+  return `${method.toLowerCase()}${pathPart || 'Root'}`;
+}
+
+function deriveTags(route: WebServerRoute): string[] {
+  if (route.type === WebServerRouteType.Entity) {
+    return [capitalize(route.entityName)];
+  }
+
+  const controllerBaseName = getControllerBaseName(route);
+
+  if (controllerBaseName) {
+    return [capitalize(controllerBaseName)];
+  }
+
+  const firstStaticSegment = route.path.split('/').find(segment => segment.length > 0 && !segment.startsWith(':'));
+
+  return firstStaticSegment ? [capitalize(firstStaticSegment)] : [];
+}
+
+function buildParameters({
+  collector,
+  schema,
+  location,
+}: {
+  collector: ComponentSchemaCollector;
+  schema: z.ZodTypeAny | undefined;
+  location: OpenApiParameter['in'];
+}): OpenApiParameter[] {
+  if (!schema) {
+    return [];
+  }
+
+  const jsonSchema = collector.convert(schema, 'input');
+  const properties = jsonSchema.properties as Record<string, OpenApiSchemaObject> | undefined;
+
+  if (!properties) {
+    return [];
+  }
+
+  const required = new Set(Array.isArray(jsonSchema.required) ? (jsonSchema.required as string[]) : []);
+
+  return Object.entries(properties).map(([name, propertySchema]) => {
+    const { description, ...parameterSchema } = propertySchema;
+
+    return {
+      name,
+      in: location,
+      required: location === 'path' ? true : required.has(name),
+      ...(typeof description === 'string' ? { description } : {}),
+      schema: parameterSchema,
+    };
+  });
+}
+
+function buildResponses({
+  collector,
+  schema,
+  defaultStatus,
+  requiresAuth,
+  requiresPermissions,
+}: {
+  collector: ComponentSchemaCollector;
+  schema: AnyRouteSchemaDefinition | undefined;
+  defaultStatus: number;
+  requiresAuth: boolean;
+  requiresPermissions: boolean;
+}): Record<string, OpenApiResponse> {
+  const responses: Record<string, OpenApiResponse> = {};
+
+  for (const [status, responseSchema] of Object.entries(schema?.response ?? {})) {
+    responses[status] = {
+      description: getStatusDescription(status),
+      content: {
+        'application/json': { schema: collector.convert(responseSchema, 'output') },
+      },
+    };
+  }
+
+  if (Object.keys(responses).length === 0) {
+    responses[String(defaultStatus)] = { description: getStatusDescription(String(defaultStatus)) };
+  }
+
+  const errorStatuses = [...(requiresAuth ? ['401'] : []), ...(requiresPermissions ? ['403'] : [])];
+
+  for (const status of errorStatuses) {
+    responses[status] ??= {
+      description: getStatusDescription(status),
+      content: {
+        'application/json': { schema: collector.convert(ApiErrorResponseSchema, 'output') },
+      },
+    };
+  }
+
+  return responses;
+}
+
+function getStatusDescription(status: string): string {
+  try {
+    return getReasonPhrase(Number(status));
+  } catch {
+    return 'Response';
+  }
+}
+
+function buildOperation({
+  collector,
+  route,
+  method,
+  routePath,
+  action,
+  defaultStatus,
+  requestBody,
+  operationIds,
+}: {
+  collector: ComponentSchemaCollector;
+  route: WebServerRoute;
+  method: OperationMethod;
+  routePath: string;
+  action?: string;
+  defaultStatus: number;
+  requestBody?: OpenApiRequestBody;
+  operationIds: Set<string>;
+}): { path: string; operation: OpenApiOperation } {
+  const openApiOptions: RouteOpenApiOptions = route.openapi ?? {};
+  const schema = route.schema;
+  const { path, pathParams } = toOpenApiPath(routePath);
+
+  const methods = 'method' in route && Array.isArray(route.method) ? route.method : [];
+  const baseOperationId = openApiOptions.operationId
+    ? `${openApiOptions.operationId}${methods.length > 1 ? capitalize(method) : ''}`
+    : deriveOperationId({ route, method, path: routePath, action });
+
+  let operationId = baseOperationId;
+
+  for (let suffix = 2; operationIds.has(operationId); suffix++) {
+    operationId = `${baseOperationId}${suffix}`;
+  }
+
+  operationIds.add(operationId);
+
+  const parameters = [
+    ...buildParameters({ collector, schema: schema?.params, location: 'path' }),
+    ...buildParameters({ collector, schema: schema?.querystring, location: 'query' }),
+    ...buildParameters({ collector, schema: schema?.headers, location: 'header' }),
+  ];
+
+  // Path parameters without a params schema are still required by the spec
+  for (const pathParam of pathParams) {
+    if (!parameters.some(parameter => parameter.in === 'path' && parameter.name === pathParam)) {
+      parameters.push({ name: pathParam, in: 'path', required: true, schema: { type: 'string' } });
+    }
+  }
+
+  const requiresPermissions = (route.requires?.length ?? 0) > 0;
+  const requiresAuth =
+    openApiOptions.auth ??
+    (requiresPermissions ||
+      (route.auth?.length ?? 0) > 0 ||
+      route.guards?.some(guard => guard.authenticates === true) ||
+      false);
+  const tags = openApiOptions.tags ?? deriveTags(route);
+
+  const operation: OpenApiOperation = {
+    operationId,
+    ...(openApiOptions.summary ? { summary: openApiOptions.summary } : {}),
+    ...(openApiOptions.description ? { description: openApiOptions.description } : {}),
+    ...(tags.length > 0 ? { tags } : {}),
+    ...(openApiOptions.deprecated ? { deprecated: true } : {}),
+    ...(parameters.length > 0 ? { parameters } : {}),
+    responses: buildResponses({ collector, schema, defaultStatus, requiresAuth, requiresPermissions }),
+  };
+
+  if (schema?.body) {
+    operation.requestBody = {
+      required: !schema.body.safeParse(undefined).success,
+      content: {
+        'application/json': { schema: collector.convert(schema.body, 'input') },
+      },
+    };
+  } else if (requestBody) {
+    operation.requestBody = requestBody;
+  }
+
+  if (requiresAuth) {
+    const security = buildSecurityRequirements(route.auth);
+
+    if (security.length > 0) {
+      operation.security = security;
+    }
+  }
+
+  return { path, operation };
+}
+
+/**
+ * Security requirements (alternatives) for a route's authentication strategies.
+ * Strategies without an OpenAPI equivalent (e.g. `hmac`) are not documented.
+ */
+function buildSecurityRequirements(strategies: string[] | undefined): Record<string, string[]>[] {
+  if (!strategies || strategies.length === 0) {
+    return [{ [BEARER_SECURITY_SCHEME_NAME]: [] }];
+  }
+
+  const security: Record<string, string[]>[] = [];
+
+  if (strategies.includes('jwt')) {
+    security.push({ [BEARER_SECURITY_SCHEME_NAME]: [] });
+  }
+
+  if (strategies.includes('apiKey')) {
+    security.push({ [API_KEY_SECURITY_SCHEME_NAME]: [] });
+  }
+
+  return security;
+}
+
+function toOperationMethods(method: HTTPMethods | HTTPMethods[]): OperationMethod[] {
+  const methods = Array.isArray(method) ? method : [method];
+
+  return methods
+    .map(value => value.toLowerCase())
+    .filter((value): value is OperationMethod => (OPERATION_METHODS as readonly string[]).includes(value));
+}
+
+/**
+ * Generate an OpenAPI 3.1 document from web server routes and their Zod schemas.
+ *
+ * Zod schemas annotated with `.meta({ id: 'User' })` are emitted once under `components.schemas`
+ * and referenced from every operation that uses them.
+ *
+ * Entity routes are documented without entity fields: their request bodies are plain objects (with the bulk and
+ * JSON Patch envelopes) and their responses have no schema.
+ */
+export function generateOpenApiDocument({
+  routes,
+  info,
+  servers,
+  apiKeyHeader = 'x-api-key',
+}: GenerateOpenApiDocumentOptions): OpenApiDocument {
+  const collector = new ComponentSchemaCollector();
+  const operationIds = new Set<string>();
+  const paths: Record<string, OpenApiPathItem> = {};
+  const tagNames = new Set<string>();
+
+  let usesApiKey = false;
+
+  const addOperation = (entry: {
+    route: WebServerRoute;
+    method: HTTPMethods | HTTPMethods[];
+    routePath: string;
+    action?: string;
+    defaultStatus: number;
+    requestBody?: OpenApiRequestBody;
+  }) => {
+    for (const method of toOperationMethods(entry.method)) {
+      const { path, operation } = buildOperation({
+        collector,
+        route: entry.route,
+        method,
+        routePath: entry.routePath,
+        action: entry.action,
+        defaultStatus: entry.defaultStatus,
+        requestBody: entry.requestBody,
+        operationIds,
+      });
+
+      paths[path] ??= {};
+      paths[path][method] = operation;
+
+      if (operation.security?.some(requirement => API_KEY_SECURITY_SCHEME_NAME in requirement)) {
+        usesApiKey = true;
+      }
+
+      for (const tag of operation.tags ?? []) {
+        tagNames.add(tag);
+      }
+    }
+  };
+
+  for (const route of routes) {
+    if (!route || typeof route.path !== 'string' || route.openapi?.hidden) {
+      continue;
+    }
+
+    if (route.type === WebServerRouteType.Entity) {
+      const entityRouteDefinitions = WebServerUtil.getEntityRouteDefinitions({
+        basePath: route.path,
+        entityValidationSchema: {},
+        actions: route.actions,
+      });
+
+      for (const entityRouteDefinition of entityRouteDefinitions) {
+        addOperation({
+          route,
+          method: entityRouteDefinition.method,
+          routePath: entityRouteDefinition.path,
+          action: entityRouteDefinition.action,
+          defaultStatus: ENTITY_ACTION_STATUS[entityRouteDefinition.action] ?? 200,
+          requestBody: buildEntityRequestBody({ action: entityRouteDefinition.action, entityName: route.entityName }),
+        });
+      }
+
+      continue;
+    }
+
+    addOperation({
+      route,
+      method: route.method,
+      routePath: route.path,
+      action: route.action,
+      defaultStatus: 200,
+    });
+  }
+
+  return {
+    openapi: '3.1.0',
+    info,
+    ...(servers && servers.length > 0 ? { servers } : {}),
+    paths,
+    components: {
+      schemas: collector.schemas,
+      securitySchemes: {
+        [BEARER_SECURITY_SCHEME_NAME]: {
+          type: 'http',
+          scheme: 'bearer',
+          bearerFormat: 'JWT',
+        },
+        ...(usesApiKey
+          ? { [API_KEY_SECURITY_SCHEME_NAME]: { type: 'apiKey' as const, in: 'header' as const, name: apiKeyHeader } }
+          : {}),
+      },
+    },
+    ...(tagNames.size > 0 ? { tags: [...tagNames].sort().map(name => ({ name })) } : {}),
+  };
+}
@@ -0,0 +1,254 @@
+import { StatusCodes } from 'http-status-codes';
+import { z } from 'zod';
+import type { AuthenticatedUser } from '../auth/authenticate.js';
+import type { AuthenticationStrategyName } from '../auth/strategy.interface.js';
+import { ConfigurationError } from '../error/framework-errors.js';
+import { QUEUE_CLEAN_STATES, QUEUE_JOB_STATES } from '../queue/admin.interface.js';
+import Tenancy from '../tenancy/tenancy.js';
+import QueueAdminController from './controller/queue-admin.js';
+import { authGuard, defineGuard, RouteGuardError } from './guard.js';
+import { type DefaultWebServerRoute, type WebServerRoute, WebServerRouteType } from './webserver.interface.js';
+
+export interface DefineQueueAdminRoutesConfig {
+  /** Path of the queues (default: `/admin/queues`) */
+  path?: string;
+
+  /** Authentication strategies accepted by the routes (default: `auth.strategies`, or a Bearer JWT) */
+  auth?: AuthenticationStrategyName[];
+
+  /** Permissions the authenticated user must hold (default: `['queues:admin']`) */
+  requires?: string[];
+
+  /** OpenAPI tags (default: `['queues']`) */
+  tags?: string[];
+}
+
+/** Permission required by the routes when `requires` is not set */
+const DEFAULT_REQUIRES = ['queues:admin'];
+
+const queueParams = z.object({ queueId: z.string().min(1) });
+const jobParams = queueParams.extend({ jobId: z.string().min(1) });
+const entryParams = queueParams.extend({ entryId: z.string().min(1) });
+
+const pageQuery = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(20),
+});
+
+/**
+ * Queues, jobs and dead-letter entries are shared by all tenants, so with multi-tenancy only operators without a
+ * tenant may administer them. Rejects requests with a tenant and users bound to one.
+ */
+const unscopedOperatorGuard = defineGuard(
+  (request, _reply, context) => {
+    const user = (request as typeof request & { user?: AuthenticatedUser }).user;
+
+    if (
+      Tenancy.isEnabled(context.applicationConfig.tenancy) &&
+      (request.tenantId !== undefined || user?.tenantId !== undefined)
+    ) {
+      throw new RouteGuardError('Queue administration is not available to tenants.', {
+        statusCode: StatusCodes.FORBIDDEN,
+        errorType: 'authorization',
+      });
+    }
+
+    return {};
+  },
+  { name: 'unscopedOperator' },
+);
+
+/**
+ * Build the routes of a route set, all handled by `QueueAdminController` and requiring authentication, permissions
+ * and, with multi-tenancy, an operator without a tenant.
+ *
+ * @throws ConfigurationError when `requires` is empty
+ */
+function toQueueAdminRoutes(
+  config: DefineQueueAdminRoutesConfig,
+  routes: (Pick<DefaultWebServerRoute, 'method' | 'path' | 'action' | 'schema'> & { summary: string })[],
+): WebServerRoute[] {
+  const { path = '/admin/queues', auth, requires = DEFAULT_REQUIRES, tags = ['queues'] } = config;
+
+  if (requires.length === 0) {
+    throw new ConfigurationError('Queue admin routes require at least one permission', { context: { path } });
+  }
+
+  return routes.map(({ summary, ...route }) => ({
+    type: WebServerRouteType.Default,
+    ...route,
+    path: `${path}${route.path}`,
+    controller: QueueAdminController,
+    guards: auth ? [unscopedOperatorGuard] : [authGuard, unscopedOperatorGuard],
+    ...(auth && { auth }),
+    requires,
+    openapi: { tags, summary },
+  }));
+}
+
+/**
+ * Define routes for managing the entries of dead-letter queues, backed by `QueueManager`.
+ *
+ * - `GET /admin/queues/:queueId/dead-letters` lists entries (`page`, `limit`), the most recent first
+ * - `GET /admin/queues/:queueId/dead-letters/:entryId` returns an entry with the job data, error and stack trace
+ * - `POST /admin/queues/:queueId/dead-letters/:entryId/replay` with `{ payload? }` adds the job back to its queue
+ * - `DELETE /admin/queues/:queueId/dead-letters/:entryId` removes an entry
+ * - `DELETE /admin/queues/:queueId/dead-letters` removes all entries
+ *
+ * The routes require authentication and the `queues:admin` permission (change it with `requires`). With multi-tenancy,
+ * requests with a tenant are rejected: exclude the routes from tenant resolution (`tenancy.excludePaths`).
+ *
+ * @example
+ * web: {
+ *   routes: [...defineQueueDeadLetterRoutes({ requires: ['ops:dead-letters'] }), ...appRoutes],
+ * }
+ */
+export function defineQueueDeadLetterRoutes(config: DefineQueueAdminRoutesConfig = {}): WebServerRoute[] {
+  return toQueueAdminRoutes(config, [
+    {
+      method: 'GET',
+      path: '/:queueId/dead-letters',
+      action: 'listDeadLetters',
+      schema: { params: queueParams, querystring: pageQuery },
+      summary: 'List dead-letter entries',
+    },
+    {
+      method: 'GET',
+      path: '/:queueId/dead-letters/:entryId',
+      action: 'getDeadLetter',
+      schema: { params: entryParams },
+      summary: 'Get dead-letter entry',
+    },
+    {
+      method: 'POST',
+      path: '/:queueId/dead-letters/:entryId/replay',
+      action: 'replayDeadLetter',
+      schema: {
+        params: entryParams,
+        body: z.object({ payload: z.record(z.string(), z.unknown()).optional() }).optional(),
+      },
+      summary: 'Replay dead-letter entry',
+    },
+    {
+      method: 'DELETE',
+      path: '/:queueId/dead-letters/:entryId',
+      action: 'purgeDeadLetters',
+      schema: { params: entryParams },
+      summary: 'Remove dead-letter entry',
+    },
+    {
+      method: 'DELETE',
+      path: '/:queueId/dead-letters',
+      action: 'purgeDeadLetters',
+      schema: { params: queueParams },
+      summary: 'Remove all dead-letter entries',
+    },
+  ]);
+}
+
+/**
+ * Define routes for administering queues, their jobs and their dead-letter queues, backed by `QueueManager`.
+ * Enable them with the `queueAdmin` web server option, or add them to the routes.
+ *
+ * - `GET /admin/queues` lists the queues with their state and job counts
+ * - `GET /admin/queues/:queueId` returns the state and job counts of a queue
+ * - `GET /admin/queues/:queueId/jobs` lists the jobs in a state (`state`, `page`, `limit`), the most recent first
+ * - `GET /admin/queues/:queueId/jobs/:jobId` returns a job with its data, progress, logs and stack traces
+ * - `POST /admin/queues/:queueId/jobs/:jobId/retry` retries a failed job
+ * - `POST /admin/queues/:queueId/jobs/:jobId/promote` runs a delayed job now
+ * - `DELETE /admin/queues/:queueId/jobs/:jobId` removes a job
+ * - `POST /admin/queues/:queueId/pause` and `/resume` pause and resume a queue
+ * - `POST /admin/queues/:queueId/drain` with `{ delayed? }` removes the waiting (and delayed) jobs
+ * - `POST /admin/queues/:queueId/clean` with `{ state, olderThanSeconds, limit? }` removes old jobs
+ * - the dead-letter routes of `defineQueueDeadLetterRoutes()`
+ *
+ * The routes require authentication and the `queues:admin` permission (change it with `requires`). With multi-tenancy,
+ * requests with a tenant are rejected: exclude the routes from tenant resolution (`tenancy.excludePaths`).
+ *
+ * @example
+ * web: {
+ *   routes: [...defineQueueAdminRoutes({ auth: ['jwt'], requires: ['ops:queues'] }), ...appRoutes],
+ * }
+ */
+export function defineQueueAdminRoutes(config: DefineQueueAdminRoutesConfig = {}): WebServerRoute[] {
+  return [
+    ...toQueueAdminRoutes(config, [
+      { method: 'GET', path: '', action: 'listQueues', summary: 'List queues' },
+      { method: 'GET', path: '/:queueId', action: 'getQueue', schema: { params: queueParams }, summary: 'Get queue' },
+      {
+        method: 'GET',
+        path: '/:queueId/jobs',
+        action: 'listJobs',
+        schema: {
+          params: queueParams,
+          querystring: pageQuery.extend({ state: z.enum(QUEUE_JOB_STATES).default('waiting') }),
+        },
+        summary: 'List jobs',
+      },
+      {
+        method: 'GET',
+        path: '/:queueId/jobs/:jobId',
+        action: 'getJob',
+        schema: { params: jobParams },
+        summary: 'Get job',
+      },
+      {
+        method: 'POST',
+        path: '/:queueId/jobs/:jobId/retry',
+        action: 'retryJob',
+        schema: { params: jobParams },
+        summary: 'Retry failed job',
+      },
+      {
+        method: 'POST',
+        path: '/:queueId/jobs/:jobId/promote',
+        action: 'promoteJob',
+        schema: { params: jobParams },
+        summary: 'Promote delayed job',
+      },
+      {
+        method: 'DELETE',
+        path: '/:queueId/jobs/:jobId',
+        action: 'removeJob',
+        schema: { params: jobParams },
+        summary: 'Remove job',
+      },
+      {
+        method: 'POST',
+        path: '/:queueId/pause',
+        action: 'pauseQueue',
+        schema: { params: queueParams },
+        summary: 'Pause queue',
+      },
+      {
+        method: 'POST',
+        path: '/:queueId/resume',
+        action: 'resumeQueue',
+        schema: { params: queueParams },
+        summary: 'Resume queue',
+      },
+      {
+        method: 'POST',
+        path: '/:queueId/drain',
+        action: 'drainQueue',
+        schema: { params: queueParams, body: z.object({ delayed: z.boolean().optional() }).optional() },
+        summary: 'Drain queue',
+      },
+      {
+        method: 'POST',
+        path: '/:queueId/clean',
+        action: 'cleanQueue',
+        schema: {
+          params: queueParams,
+          body: z.object({
+            state: z.enum(QUEUE_CLEAN_STATES),
+            olderThanSeconds: z.number().int().nonnegative(),
+            limit: z.number().int().positive().optional(),
+          }),
+        },
+        summary: 'Clean old jobs',
+      },
+    ]),
+    ...defineQueueDeadLetterRoutes(config),
+  ];
+}
@@ -0,0 +1,128 @@
+import type {
+  FastifyRateLimitOptions,
+  FastifyRateLimitStore,
+  FastifyRateLimitStoreCtor,
+  RateLimitHook,
+  RateLimitOptions,
+} from '@fastify/rate-limit';
+import type { FastifyRequest } from 'fastify';
+import type { AuthenticatedUser } from '../auth/authenticate.js';
+import type { RateLimitAlgorithm, RateLimitKey } from '../rate-limit/rate-limit.interface.js';
+import type RateLimiter from '../rate-limit/rate-limiter.js';
+import Tenancy from '../tenancy/tenancy.js';
+import type { WebServerRouteRateLimitOptions } from './webserver.interface.js';
+
+/** Route rate limit options passed to `@fastify/rate-limit`, with the fields read by the store */
+type RouteRateLimitOptions = RateLimitOptions & {
+  algorithm?: RateLimitAlgorithm;
+
+  /** Name of the `rateLimit.policies` policy, whose counters are shared by all routes using it */
+  policyName?: string;
+};
+
+type RateLimitStoreParams = FastifyRateLimitOptions &
+  RouteRateLimitOptions & { routeInfo?: { method?: string | string[]; url?: string } };
+
+/**
+ * Create a `@fastify/rate-limit` store counting requests with a rate limiter.
+ * Requests to routes with their own rate limit are counted per route, or per policy for named policies.
+ */
+export function createRateLimitStore({
+  rateLimiter,
+  algorithm,
+}: {
+  rateLimiter: RateLimiter;
+
+  /** Algorithm of the global rate limit and of routes that do not set one */
+  algorithm?: RateLimitAlgorithm;
+}): FastifyRateLimitStoreCtor {
+  class Store implements FastifyRateLimitStore {
+    private readonly algorithm?: RateLimitAlgorithm;
+    private readonly scope: string;
+
+    constructor(params: RateLimitStoreParams, scope = 'global') {
+      this.algorithm = params.algorithm ?? algorithm;
+      this.scope = scope;
+    }
+
+    public incr(
+      key: string,
+      callback: (error: Error | null, result?: { current: number; ttl: number }) => void,
+      timeWindow?: number,
+      max?: number,
+    ): void {
+      rateLimiter.consume({ key: `${this.scope}:${key}`, policy: { algorithm: this.algorithm, max, timeWindow } }).then(
+        result => callback(null, { current: result.current, ttl: result.resetMs }),
+        (error: Error) => callback(error),
+      );
+    }
+
+    public child(params: RateLimitStoreParams): FastifyRateLimitStore {
+      const { method, url } = params.routeInfo ?? {};
+      const scope = params.policyName
+        ? `policy:${params.policyName}`
+        : `${Array.isArray(method) ? method.join(',') : method}:${url}`;
+
+      return new Store(params, scope);
+    }
+  }
+
+  return Store;
+}
+
+/**
+ * Create a function returning the identity a request is counted for, scoped to the tenant of the request.
+ */
+export function createRateLimitKeyGenerator(
+  key: RateLimitKey<FastifyRequest> = 'ip',
+): (request: FastifyRequest) => Promise<string> {
+  return async request => {
+    let identity: string;
+
+    if (typeof key === 'function') {
+      identity = await key(request);
+    } else {
+      const userId = (request as FastifyRequest & { user?: AuthenticatedUser }).user?.userId;
+
+      identity = key === 'user' && userId !== undefined ? `user:${userId}` : request.ip;
+    }
+
+    return Tenancy.getTenantScopedKey({ key: identity, tenantId: request.tenantId });
+  };
+}
+
+/**
+ * Get the hook requests are counted in. Requests counted per IP are rejected as early as possible, others once
+ * authenticated, since route authentication runs in `preHandler`.
+ */
+export function getRateLimitHook(key: RateLimitKey<FastifyRequest> = 'ip'): RateLimitHook {
+  return key === 'ip' ? 'onRequest' : 'preHandler';
+}
+
+/**
+ * Get the `@fastify/rate-limit` options of a route rate limit, resolving named policies.
+ */
+export function getRouteRateLimitOptions({
+  rateLimit,
+  rateLimiter,
+}: {
+  rateLimit: WebServerRouteRateLimitOptions | string | false;
+  rateLimiter?: RateLimiter;
+}): RouteRateLimitOptions | false {
+  if (rateLimit === false) {
+    return false;
+  }
+
+  // Rate limiting is disabled, so the route options are never read
+  if (!rateLimiter) {
+    return typeof rateLimit === 'string' ? false : rateLimit;
+  }
+
+  const { key, ...options } = rateLimiter.getPolicy(rateLimit);
+
+  return {
+    ...options,
+    ...(typeof rateLimit === 'string' && { policyName: rateLimit }),
+    ...(key !== undefined && { keyGenerator: createRateLimitKeyGenerator(key), hook: getRateLimitHook(key) }),
+  };
+}
@@ -1,12 +1,19 @@
 import type { HTTPMethods } from 'fastify';
-import type { EntityRouteDefinition } from './webserver.interface.js';
+import { StatusCodes } from 'http-status-codes';
+import type { ApiError } from './controller/base.interface.js';
+import type { EntityRouteDefinition, EntityRouteOptionalAction, WebServerRoute } from './webserver.interface.js';
 
+/**
+ * Get the routes of an entity controller: the default CRUD routes and the optional actions that are listed.
+ */
 function getEntityRouteDefinitions({
   basePath,
   entityValidationSchema: _entityValidationSchema,
+  actions = [],
 }: {
   basePath: string;
   entityValidationSchema: any;
+  actions?: EntityRouteOptionalAction[];
 }): EntityRouteDefinition[] {
   const routeDefinitions: EntityRouteDefinition[] = [];
 
@@ -45,6 +52,15 @@ function getEntityRouteDefinitions({
     action: 'updateOne',
   });
 
+  // Patch one
+  if (actions.includes('patchOne')) {
+    routeDefinitions.push({
+      path: `${basePath}/:id`,
+      method: 'PATCH' as HTTPMethods,
+      action: 'patchOne',
+    });
+  }
+
   // Delete one
   routeDefinitions.push({
     path: `${basePath}/:id`,
@@ -52,10 +68,105 @@ function getEntityRouteDefinitions({
     action: 'deleteOne',
   });
 
+  // Restore one (soft-deleting entities)
+  if (actions.includes('restoreOne')) {
+    routeDefinitions.push({
+      path: `${basePath}/:id/restore`,
+      method: 'POST' as HTTPMethods,
+      action: 'restoreOne',
+    });
+  }
+
+  // Force delete one (soft-deleting entities)
+  if (actions.includes('forceDeleteOne')) {
+    routeDefinitions.push({
+      path: `${basePath}/:id/force`,
+      method: 'DELETE' as HTTPMethods,
+      action: 'forceDeleteOne',
+    });
+  }
+
+  // Audit history of one item
+  if (actions.includes('getHistory')) {
+    routeDefinitions.push({
+      path: `${basePath}/:id/history`,
+      method: 'GET' as HTTPMethods,
+      action: 'getHistory',
+    });
+  }
+
+  // Bulk create
+  if (actions.includes('createMany')) {
+    routeDefinitions.push({
+      path: `${basePath}/bulk`,
+      method: 'POST' as HTTPMethods,
+      action: 'createMany',
+    });
+  }
+
+  // Bulk update
+  if (actions.includes('updateMany')) {
+    routeDefinitions.push({
+      path: `${basePath}/bulk`,
+      method: 'PATCH' as HTTPMethods,
+      action: 'updateMany',
+    });
+  }
+
+  // Bulk delete
+  if (actions.includes('deleteMany')) {
+    routeDefinitions.push({
+      path: `${basePath}/bulk`,
+      method: 'DELETE' as HTTPMethods,
+      action: 'deleteMany',
+    });
+  }
+
   return routeDefinitions;
 }
 
+/**
+ * Get the `ApiError` type of an error response status code.
+ */
+function getErrorType(statusCode: StatusCodes): ApiError['type'] {
+  switch (statusCode) {
+    case StatusCodes.UNAUTHORIZED:
+      return 'authentication';
+    case StatusCodes.FORBIDDEN:
+      return 'authorization';
+    case StatusCodes.NOT_FOUND:
+      return 'not_found';
+    case StatusCodes.BAD_REQUEST:
+    case StatusCodes.UNPROCESSABLE_ENTITY:
+      return 'validation';
+    default:
+      return statusCode >= 500 ? 'server_error' : 'client_error';
+  }
+}
+
+/**
+ * Normalize a route module export (single route, array of routes or `{ routes: [...] }`) to an array.
+ * Nested arrays (e.g. route groups) are flattened. Entries are not validated.
+ */
+function toRouteArray(value: unknown): WebServerRoute[] {
+  if (Array.isArray(value)) {
+    return value.flat(Infinity);
+  }
+
+  if (value && typeof value === 'object') {
+    const maybeRoute = value as { routes?: unknown };
+
+    if (Array.isArray(maybeRoute.routes)) {
+      return maybeRoute.routes.flat(Infinity) as WebServerRoute[];
+    }
+  }
+
+  return value ? [value as WebServerRoute] : [];
+}
+
 export default {
   // getEntityRoutes,
   getEntityRouteDefinitions,
+  toRouteArray,
+  getErrorType,
 };
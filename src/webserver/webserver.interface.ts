@@ -1,12 +1,17 @@
 import type { FastifyReply, FastifyRequest, HTTPMethods, RouteGenericInterface } from 'fastify';
 import type { z } from 'zod';
 import type { ApplicationConfig } from '../application/base-application.interface.js';
+import type { AuthenticationStrategyName } from '../auth/strategy.interface.js';
 import type { DatabaseInstance } from '../database/index.js';
 import type EventManager from '../event/manager.js';
 import type { LifecycleManager } from '../lifecycle/lifecycle-manager.js';
 import type { QueueManager } from '../queue/index.js';
+import type { RateLimitPolicy } from '../rate-limit/rate-limit.interface.js';
 import type { RedisInstance } from '../redis/index.js';
 import type { ControllerAction, WebServerBaseControllerType } from './controller/base.interface.js';
+import type { RouteGuard } from './guard.interface.js';
+import type { RouteOpenApiOptions, WebServerOpenApiOptions } from './openapi.interface.js';
+import type { DefineQueueAdminRoutesConfig } from './queue-admin-routes.js';
 
 export interface RouteSchemaDefinition<
   TParams extends z.ZodTypeAny | undefined = undefined,
@@ -112,6 +117,27 @@ export interface BaseWebServerRoute {
 
   /** Zod-based schema definition */
   schema?: AnyRouteSchemaDefinition;
+
+  /** Guards run in order before the route handler */
+  guards?: RouteGuard<any>[];
+
+  /** Authentication strategies accepted by the route (e.g. `['jwt', 'apiKey']`), checked before the route guards */
+  auth?: AuthenticationStrategyName[];
+
+  /** Permissions the authenticated user must hold (checked after the route guards) */
+  requires?: string[];
+
+  /**
+   * Route rate limit, overriding the global rate limit: a policy or the name of a `rateLimit.policies` policy
+   * (`false` disables it for the route)
+   */
+  rateLimit?: WebServerRouteRateLimitOptions | string | false;
+
+  /** Replay responses of POST, PUT, PATCH and DELETE requests sent again with the same `Idempotency-Key` */
+  idempotency?: WebServerRouteIdempotencyOptions | boolean;
+
+  /** OpenAPI metadata */
+  openapi?: RouteOpenApiOptions;
 }
 
 export interface DefaultWebServerRoute extends BaseWebServerRoute {
@@ -124,11 +150,32 @@ export interface DefaultWebServerRoute extends BaseWebServerRoute {
   action?: string;
 }
 
+/**
+ * Entity controller action that is only registered when listed in the entity route's `actions`.
+ */
+export type EntityRouteOptionalAction =
+  | 'patchOne'
+  | 'restoreOne'
+  | 'forceDeleteOne'
+  | 'getHistory'
+  | 'createMany'
+  | 'updateMany'
+  | 'deleteMany';
+
 export interface EntityWebServerRoute extends BaseWebServerRoute {
   type: WebServerRouteType.Entity;
 
   /** Entity name */
   entityName: string;
+
+  /**
+   * Actions registered next to the default CRUD routes, e.g. `['createMany', 'updateMany', 'deleteMany']`.
+   * `patchOne` updates items without going through `updateOne` overrides.
+   * `getHistory` responds with a 404 unless the controller enables `auditHistory`.
+   * `restoreOne` and `forceDeleteOne` require a soft-deleting entity. `forceDeleteOne` removes the row permanently
+   * without going through `deleteOne` overrides.
+   */
+  actions?: EntityRouteOptionalAction[];
 }
 
 export type WebServerRoute = DefaultWebServerRoute | EntityWebServerRoute;
@@ -194,19 +241,57 @@ export interface WebServerSecurityHelmetOptions {
   xssFilter?: boolean;
 }
 
-export interface WebServerSecurityRateLimitOptions {
+export interface WebServerSecurityRateLimitOptions extends RateLimitPolicy<FastifyRequest> {
   enabled?: boolean;
-  max?: number;
-  timeWindow?: string;
   ban?: number;
+
+  /** Maximum number of counters kept by the `memory` rate limit store */
   cache?: number;
 }
 
+/** Rate limit of a route, counted separately from other routes */
+export type WebServerRouteRateLimitOptions = RateLimitPolicy<FastifyRequest>;
+
+export interface WebServerRouteIdempotencyOptions {
+  /** Whether requests without an `Idempotency-Key` header are rejected with 400 (default: `false`) */
+  required?: boolean;
+
+  /** Seconds a response is replayed for, overriding `idempotency.ttl` */
+  ttl?: number;
+}
+
+export interface WebServerIdempotencyOptions {
+  /** Header holding the idempotency key (default: `Idempotency-Key`) */
+  header?: string;
+
+  /** Seconds a response is replayed for (default: 24 hours) */
+  ttl?: number;
+
+  /** Seconds a request is considered in flight, after which a crashed request can be retried (default: 60) */
+  lockTtl?: number;
+
+  /** Prefix of the Redis keys (default: `idempotency:`) */
+  keyPrefix?: string;
+}
+
+export interface WebServerQueueAdminOptions extends DefineQueueAdminRoutesConfig {
+  /** Whether to add the queue administration routes (see `defineQueueAdminRoutes`) */
+  enabled?: boolean;
+}
+
 export interface WebServerSecurityOptions {
   helmet?: WebServerSecurityHelmetOptions;
   rateLimit?: WebServerSecurityRateLimitOptions;
 }
 
+export interface WebServerPaginationOptions {
+  /**
+   * Secret used to sign entity cursors (at least 16 characters).
+   * Required when an entity controller uses cursor pagination; the web server fails to start without it.
+   */
+  cursorSecret?: string;
+}
+
 export interface WebServerOptions {
   /** Web server host */
   host: string;
@@ -237,6 +322,18 @@ export interface WebServerOptions {
   /** Web server security options (helmet, rate limiting) */
   security?: WebServerSecurityOptions;
 
+  /** OpenAPI document options */
+  openApi?: WebServerOpenApiOptions;
+
+  /** Entity pagination options */
+  pagination?: WebServerPaginationOptions;
+
+  /** Idempotency options of routes with `idempotency` */
+  idempotency?: WebServerIdempotencyOptions;
+
+  /** Queue administration routes, requiring authentication */
+  queueAdmin?: WebServerQueueAdminOptions;
+
   /** Web server debug options */
   debug?: WebServerDebugOptions;
 }
@@ -11,30 +11,67 @@ import Fastify, {
   type HTTPMethods,
 } from 'fastify';
 import { serializerCompiler, validatorCompiler, type ZodTypeProvider } from 'fastify-type-provider-zod';
+import { StatusCodes } from 'http-status-codes';
 import type { ApplicationConfig } from '../application/base-application.interface.js';
+import type { AuthenticationStrategyName } from '../auth/strategy.interface.js';
 import type { DatabaseInstance } from '../database/index.js';
+import SoftDelete from '../database/soft-delete.js';
+import { ConfigurationError } from '../error/framework-errors.js';
 import type EventManager from '../event/manager.js';
 import { WebServerHealthController } from '../index.js';
 import type { LifecycleManager } from '../lifecycle/lifecycle-manager.js';
 import { Logger } from '../logger/index.js';
 import type { QueueManager } from '../queue/index.js';
+import RateLimiter from '../rate-limit/rate-limiter.js';
 import type { RedisInstance } from '../redis/index.js';
-import { enterRequestContext } from '../request-context/index.js';
+import { enterRequestContext, getRequestContext, setTenantId } from '../request-context/index.js';
+import Tenancy from '../tenancy/tenancy.js';
 import { File, Helper, Loader, Time } from '../util/index.js';
 import type { ControllerAction, WebServerBaseControllerType } from './controller/base.interface.js';
+import EntityController from './controller/entity.js';
+import EntityPatch from './controller/entity-patch.js';
+import type { RouteGuard } from './guard.interface.js';
+import {
+  createGuardPreHandler,
+  optionalAuthGuard,
+  RouteGuardError,
+  requireAuthentication,
+  requirePermissions,
+  sendRouteGuardErrorResponse,
+} from './guard.js';
+import { createIdempotencyHooks } from './idempotency.js';
+import type { OpenApiDocument } from './openapi.interface.js';
+import { generateOpenApiDocument } from './openapi.js';
+import { defineQueueAdminRoutes } from './queue-admin-routes.js';
+import {
+  createRateLimitKeyGenerator,
+  createRateLimitStore,
+  getRateLimitHook,
+  getRouteRateLimitOptions,
+} from './rate-limit.js';
 import WebServerUtil from './util.js';
 import {
   type AnyRouteSchemaDefinition,
   type WebServerConstructorParams,
   type WebServerOptions,
   type WebServerRoute,
+  type WebServerRouteIdempotencyOptions,
+  type WebServerRouteRateLimitOptions,
   WebServerRouteType,
 } from './webserver.interface.js';
 
+type GuardPreHandler = ReturnType<typeof createGuardPreHandler>;
+
 declare module 'fastify' {
   interface FastifyRequest {
     startTime?: number;
     requestId?: string;
+
+    /** Tenant ID, when multi-tenancy is enabled */
+    tenantId?: string;
+
+    /** Unparsed JSON body, kept when HMAC authentication is configured */
+    rawBody?: string;
   }
 }
 
@@ -52,6 +89,9 @@ class WebServer {
   private eventManager: EventManager;
   private databaseInstance: DatabaseInstance;
 
+  /** Rate limiter of the global and route rate limits, when rate limiting is enabled */
+  private rateLimiter?: RateLimiter;
+
   public fastifyServer: FastifyInstance<any, any, any, any, ZodTypeProvider>;
 
   private lifecycleManager: LifecycleManager;
@@ -128,6 +168,10 @@ class WebServer {
     // Configure multipart uploads
     this.configureMultipartUploads();
 
+    // Keep raw JSON bodies for HMAC signature verification
+    this.configureRawBody();
+    this.configurePatchBody();
+
     // Configure routes
     await this.configureRoutes();
   }
@@ -162,11 +206,30 @@ class WebServer {
     // Configure rate limiting
     const rateLimitConfig = security.rateLimit ?? { enabled: true };
     if (rateLimitConfig.enabled !== false) {
+      const max = rateLimitConfig.max ?? 1000;
+      const tenancy = this.applicationConfig.tenancy;
+
+      this.rateLimiter = new RateLimiter({
+        config: this.applicationConfig.rateLimit,
+        redisInstance: this.redisInstance,
+        cacheSize: rateLimitConfig.cache ?? 5000,
+      });
+
       await this.fastifyServer.register(rateLimit, {
-        max: rateLimitConfig.max ?? 1000,
+        max,
         timeWindow: rateLimitConfig.timeWindow ?? '1 minute',
         ban: rateLimitConfig.ban,
-        cache: rateLimitConfig.cache ?? 5000,
+        store: createRateLimitStore({ rateLimiter: this.rateLimiter, algorithm: rateLimitConfig.algorithm }),
+        // Requests are counted per tenant (see createRateLimitKeyGenerator)
+        keyGenerator: createRateLimitKeyGenerator(rateLimitConfig.key),
+        hook: getRateLimitHook(rateLimitConfig.key),
+        // Standard RateLimit-Limit, RateLimit-Remaining, RateLimit-Reset and Retry-After headers
+        enableDraftSpec: true,
+        // Use the tenant's own limit when configured
+        ...(Tenancy.isEnabled(tenancy) && {
+          max: (request: FastifyRequest) =>
+            Tenancy.getTenantOverrides({ config: tenancy, tenantId: request.tenantId })?.rateLimit?.max ?? max,
+        }),
       });
     }
 
@@ -184,12 +247,55 @@ class WebServer {
     }
   }
 
+  /**
+   * Keep the unparsed JSON body on `request.rawBody` when HMAC authentication is configured,
+   * since signatures are computed over the exact bytes sent.
+   */
+  private configureRawBody(): void {
+    if (!this.applicationConfig.auth?.hmac) {
+      return;
+    }
+
+    const defaultJsonParser = this.fastifyServer.getDefaultJsonParser('error', 'error');
+
+    this.fastifyServer.removeContentTypeParser('application/json');
+    this.fastifyServer.addContentTypeParser('application/json', { parseAs: 'string' }, (request, body, done) => {
+      request.rawBody = body as string;
+
+      defaultJsonParser(request, body as string, done);
+    });
+  }
+
+  /**
+   * Parse JSON Patch and JSON Merge Patch bodies of entity PATCH routes as JSON.
+   */
+  private configurePatchBody(): void {
+    const defaultJsonParser = this.fastifyServer.getDefaultJsonParser('error', 'error');
+    const keepRawBody = Boolean(this.applicationConfig.auth?.hmac);
+
+    this.fastifyServer.addContentTypeParser(
+      [EntityPatch.JSON_PATCH_CONTENT_TYPE, EntityPatch.MERGE_PATCH_CONTENT_TYPE],
+      { parseAs: 'string' },
+      (request, body, done) => {
+        if (keepRawBody) {
+          request.rawBody = body as string;
+        }
+
+        defaultJsonParser(request, body as string, done);
+      },
+    );
+  }
+
   /**
    * Configure hooks.
    */
   private configureHooks(): void {
     this.fastifyServer.addHook('onListen', async () => this.onListen());
     this.fastifyServer.addHook('onRequest', async request => this.onRequest(request));
+
+    if (Tenancy.isEnabled(this.applicationConfig.tenancy)) {
+      this.fastifyServer.addHook('onRequest', async (request, reply) => this.resolveTenant(request, reply));
+    }
     this.fastifyServer.addHook('onResponse', async (request, reply) => this.onResponse(request, reply));
     this.fastifyServer.addHook('onError', async (request, reply, error) => this.onError(request, reply, error));
     this.fastifyServer.addHook('onClose', async () => this.onClose());
@@ -247,6 +353,62 @@ class WebServer {
     }
   }
 
+  /**
+   * Resolve the tenant of the request and set it on the request context.
+   * Requests without a valid tenant are rejected with 400, unless the tenant is not required or
+   * is resolved from the JWT once the request is authenticated. Until then, they cannot access tenant data.
+   */
+  private async resolveTenant(request: FastifyRequest, reply: FastifyReply): Promise<FastifyReply | undefined> {
+    const config = this.applicationConfig.tenancy;
+
+    if (
+      !Tenancy.isEnabled(config) ||
+      request.method === 'OPTIONS' ||
+      Tenancy.isExcludedPath({ config, path: request.url })
+    ) {
+      return;
+    }
+
+    const tenantId = await Tenancy.resolveTenantId({ request, config });
+
+    if (!tenantId) {
+      if (config.required === false) {
+        return;
+      }
+
+      if (config.resolver !== 'jwt') {
+        return sendRouteGuardErrorResponse(
+          reply,
+          new RouteGuardError('Tenant required', { statusCode: StatusCodes.BAD_REQUEST }),
+        );
+      }
+
+      if (!getRequestContext()) {
+        enterRequestContext({ requestId: request.requestId });
+      }
+
+      Tenancy.setTenantRequired(true);
+
+      return;
+    }
+
+    if (!Tenancy.isValidTenantId(tenantId)) {
+      return sendRouteGuardErrorResponse(
+        reply,
+        new RouteGuardError('Invalid tenant', { statusCode: StatusCodes.BAD_REQUEST }),
+      );
+    }
+
+    request.tenantId = tenantId;
+
+    // Paths excluded from request logging have no request context yet
+    if (getRequestContext()) {
+      setTenantId(tenantId);
+    } else {
+      enterRequestContext({ requestId: request.requestId, tenantId });
+    }
+  }
+
   private async onResponse(request: FastifyRequest, reply: FastifyReply): Promise<void> {
     // Add request ID to response headers for client-side correlation
     if (request.requestId) {
@@ -396,6 +558,10 @@ class WebServer {
       },
     );
 
+    if (this.options.queueAdmin?.enabled) {
+      this.routes.push(...defineQueueAdminRoutes(this.options.queueAdmin));
+    }
+
     // Go through each route
     for (const route of this.routes) {
       let ControllerClass: WebServerBaseControllerType;
@@ -412,12 +578,22 @@ class WebServer {
         }
 
         const schema = this.buildFastifySchema(route.schema);
+        const hooks = this.buildRouteHooks({
+          guards: route.guards,
+          auth: route.auth,
+          requires: route.requires,
+          idempotency: route.idempotency,
+          routeMethod: route.method,
+          routePath: route.path,
+        });
 
         this.fastifyServer.route({
           method: route.method,
           url: route.path,
           handler: route.handler,
           ...(schema ? { schema } : {}),
+          ...hooks,
+          ...(route.rateLimit !== undefined ? { config: { rateLimit: this.getRouteRateLimit(route.rateLimit) } } : {}),
         });
 
         continue;
@@ -478,18 +654,44 @@ class WebServer {
             routePath,
             routeAction,
             routeSchema: route.schema,
+            routeGuards: route.guards,
+            routeAuth: route.auth,
+            routeRequires: route.requires,
+            routeRateLimit: route.rateLimit,
+            routeIdempotency: route.idempotency,
             handlerOverride: route.handler?.bind(controllerInstance),
           });
 
           break;
         }
         case WebServerRouteType.Entity: {
+          if (
+            controllerInstance instanceof EntityController &&
+            controllerInstance.usesCursorPagination() &&
+            !this.options.pagination?.cursorSecret
+          ) {
+            throw new ConfigurationError(
+              `Cursor pagination requires webServer.pagination.cursorSecret (Controller: ${controllerName})`,
+              { context: { controllerName, path: route.path } },
+            );
+          }
+
           if (this.applicationConfig.database?.enabled === true) {
             const entityModel = await Loader.loadEntityModule({
               entitiesDirectory: this.applicationConfig.database.entitiesDirectory,
               entityName: route.entityName,
             });
 
+            const softDeleteActions =
+              route.actions?.filter(action => action === 'restoreOne' || action === 'forceDeleteOne') ?? [];
+
+            if (softDeleteActions.length > 0 && !SoftDelete.isSoftDeleteEntity(entityModel)) {
+              throw new ConfigurationError(
+                `Entity route actions require a soft-deleting entity (Entity: ${route.entityName} | Actions: ${softDeleteActions.join(', ')})`,
+                { context: { entityName: route.entityName, path: route.path } },
+              );
+            }
+
             const entitySchemaSource = (entityModel as { schema?: { describe?: () => unknown } }).schema;
 
             if (entitySchemaSource && typeof entitySchemaSource.describe !== 'function') {
@@ -555,6 +757,7 @@ class WebServer {
             const entityRouteDefinitions = WebServerUtil.getEntityRouteDefinitions({
               basePath: route.path,
               entityValidationSchema: formattedEntityValidationSchema,
+              actions: route.actions,
             });
 
             for (const entityRouteDefinition of entityRouteDefinitions) {
@@ -565,6 +768,11 @@ class WebServer {
                 routePath: entityRouteDefinition.path,
                 routeAction: entityRouteDefinition.action,
                 routeSchema: route.schema,
+                routeGuards: route.guards,
+                routeAuth: route.auth,
+                routeRequires: route.requires,
+                routeRateLimit: route.rateLimit,
+                routeIdempotency: route.idempotency,
                 handlerOverride: route.handler?.bind(controllerInstance),
               });
             }
@@ -575,11 +783,56 @@ class WebServer {
       }
     }
 
+    // Serve OpenAPI document
+    this.configureOpenApiRoute();
+
     if (this.options.debug?.printRoutes) {
       this.log(`Routes:\n${this.fastifyServer.printRoutes()}`);
     }
   }
 
+  /**
+   * Configure OpenAPI document route.
+   */
+  private configureOpenApiRoute(): void {
+    const openApiOptions = this.options.openApi;
+
+    if (!openApiOptions?.enabled) {
+      return;
+    }
+
+    let openApiDocument: OpenApiDocument | undefined;
+
+    this.fastifyServer.route({
+      method: 'GET',
+      url: openApiOptions.path ?? '/openapi.json',
+      handler: async (_request: FastifyRequest, reply: FastifyReply) => {
+        // Routes are fixed once loaded, so the document is built on first request only
+        openApiDocument ??= this.getOpenApiDocument();
+
+        return reply.send(openApiDocument);
+      },
+    });
+  }
+
+  /**
+   * Get OpenAPI 3.1 document describing the configured routes.
+   */
+  public getOpenApiDocument(): OpenApiDocument {
+    const openApiOptions = this.options.openApi ?? {};
+
+    return generateOpenApiDocument({
+      routes: this.routes,
+      info: {
+        title: this.applicationConfig.name,
+        version: '1.0.0',
+        ...openApiOptions.info,
+      },
+      servers: openApiOptions.servers,
+      apiKeyHeader: this.applicationConfig.auth?.apiKey?.header,
+    });
+  }
+
   private async loadRoutesFromDirectory(): Promise<void> {
     const { routesDirectory } = this.options;
 
@@ -625,23 +878,7 @@ class WebServer {
   }
 
   private normalizeRouteExport(exportedValue: unknown, moduleName: string): WebServerRoute[] {
-    const ensureRouteArray = (value: unknown): WebServerRoute[] => {
-      if (Array.isArray(value)) {
-        return value;
-      }
-
-      if (value && typeof value === 'object') {
-        const maybeRoute = value as { routes?: unknown };
-
-        if (Array.isArray(maybeRoute.routes)) {
-          return maybeRoute.routes as WebServerRoute[];
-        }
-      }
-
-      return value ? [value as WebServerRoute] : [];
-    };
-
-    const routeCandidates = ensureRouteArray(exportedValue);
+    const routeCandidates = WebServerUtil.toRouteArray(exportedValue);
     const validRoutes: WebServerRoute[] = [];
 
     for (const [index, candidate] of routeCandidates.entries()) {
@@ -722,6 +959,11 @@ class WebServer {
     routePath,
     routeAction,
     routeSchema,
+    routeGuards,
+    routeAuth,
+    routeRequires,
+    routeRateLimit,
+    routeIdempotency,
     handlerOverride,
   }: {
     controllerInstance: any;
@@ -730,6 +972,11 @@ class WebServer {
     routePath: string;
     routeAction?: string;
     routeSchema?: AnyRouteSchemaDefinition;
+    routeGuards?: RouteGuard<any>[];
+    routeAuth?: AuthenticationStrategyName[];
+    routeRequires?: string[];
+    routeRateLimit?: WebServerRouteRateLimitOptions | string | false;
+    routeIdempotency?: WebServerRouteIdempotencyOptions | boolean;
     handlerOverride?: ControllerAction<any>;
   }): Promise<void> {
     let handler = handlerOverride;
@@ -766,11 +1013,118 @@ class WebServer {
       throw new Error('Route handler could not be resolved');
     }
 
+    const hooks = this.buildRouteHooks({
+      guards: routeGuards,
+      auth: routeAuth,
+      requires: routeRequires,
+      idempotency: routeIdempotency,
+      routeMethod,
+      routePath,
+    });
+
     this.fastifyServer.route({
       method: routeMethod,
       url: routePath,
       handler: handler as unknown as (request: FastifyRequest, reply: FastifyReply) => unknown,
       ...(fastifySchema ? { schema: fastifySchema } : {}),
+      ...hooks,
+      ...(routeRateLimit !== undefined ? { config: { rateLimit: this.getRouteRateLimit(routeRateLimit) } } : {}),
+    });
+  }
+
+  /**
+   * Get the `@fastify/rate-limit` config of a route rate limit.
+   */
+  private getRouteRateLimit(
+    rateLimit: WebServerRouteRateLimitOptions | string | false,
+  ): ReturnType<typeof getRouteRateLimitOptions> {
+    return getRouteRateLimitOptions({ rateLimit, rateLimiter: this.rateLimiter });
+  }
+
+  /**
+   * Build route hooks: the guard preHandler, followed by the idempotency hooks of routes with `idempotency`,
+   * so idempotency keys are scoped to the authenticated user. Idempotent routes without an authenticating guard
+   * (e.g. controller actions authenticating in the handler) authenticate requests with credentials beforehand.
+   */
+  private buildRouteHooks({
+    idempotency,
+    ...guardOptions
+  }: {
+    guards?: RouteGuard<any>[];
+    auth?: AuthenticationStrategyName[];
+    requires?: string[];
+    idempotency?: WebServerRouteIdempotencyOptions | boolean;
+    routeMethod: HTTPMethods | HTTPMethods[];
+    routePath: string;
+  }): {
+    preHandler?: GuardPreHandler | GuardPreHandler[];
+    onSend?: ReturnType<typeof createIdempotencyHooks>['onSend'];
+  } {
+    if (!idempotency) {
+      const guardPreHandler = this.buildGuardPreHandler(guardOptions);
+
+      return guardPreHandler ? { preHandler: guardPreHandler } : {};
+    }
+
+    const authenticates =
+      (guardOptions.auth?.length ?? 0) > 0 ||
+      (guardOptions.requires?.length ?? 0) > 0 ||
+      Boolean(guardOptions.guards?.some(guard => guard.authenticates));
+
+    const guardPreHandler = this.buildGuardPreHandler(
+      authenticates ? guardOptions : { ...guardOptions, guards: [optionalAuthGuard, ...(guardOptions.guards ?? [])] },
+    );
+
+    const idempotencyHooks = createIdempotencyHooks({
+      options: this.options.idempotency,
+      routeOptions: idempotency === true ? {} : idempotency,
+      redisInstance: this.redisInstance,
+    });
+
+    return {
+      preHandler: guardPreHandler ? [guardPreHandler, idempotencyHooks.preHandler] : idempotencyHooks.preHandler,
+      onSend: idempotencyHooks.onSend,
+    };
+  }
+
+  /**
+   * Build route guard preHandler.
+   */
+  private buildGuardPreHandler({
+    guards = [],
+    auth = [],
+    requires = [],
+    routeMethod,
+    routePath,
+  }: {
+    guards?: RouteGuard<any>[];
+    auth?: AuthenticationStrategyName[];
+    requires?: string[];
+    routeMethod: HTTPMethods | HTTPMethods[];
+    routePath: string;
+  }): GuardPreHandler | undefined {
+    const routeGuards = [
+      ...(auth.length > 0 ? [requireAuthentication(...auth)] : []),
+      ...guards,
+      ...(requires.length > 0 ? [requirePermissions(...requires)] : []),
+    ];
+
+    if (routeGuards.length === 0) {
+      return undefined;
+    }
+
+    return createGuardPreHandler({
+      guards: routeGuards,
+      context: {
+        applicationConfig: this.applicationConfig,
+        webServerOptions: this.options,
+        redisInstance: this.redisInstance,
+        queueManager: this.queueManager,
+        eventManager: this.eventManager,
+        databaseInstance: this.databaseInstance,
+        lifecycleManager: this.lifecycleManager,
+        route: { method: routeMethod, path: routePath },
+      },
     });
   }
 
@@ -28,6 +28,7 @@ export {
   withValidation,
 } from './subscriber-utils.js';
 export type {
+  WebSocketRateLimitContext,
   WebSocketRoute,
   WebSocketSubscriberDefinition,
   WebSocketSubscriberHandler,
@@ -1,6 +1,8 @@
 import { URL } from 'node:url';
 import type { WebApplicationConfig } from '../application/web-application.interface.js';
 import Jwt from '../auth/jwt.js';
+import AuthTokenService from '../auth/token-service.js';
+import type { RedisInstance } from '../redis/index.js';
 
 export interface WebSocketAuthResult {
   userId: number;
@@ -8,7 +10,10 @@ export interface WebSocketAuthResult {
 }
 
 export class WebSocketAuthService {
-  constructor(private readonly applicationConfig: WebApplicationConfig) {}
+  constructor(
+    private readonly applicationConfig: WebApplicationConfig,
+    private readonly redisInstance?: RedisInstance,
+  ) {}
 
   /**
    * Validates WebSocket authentication token from URL query parameters
@@ -25,20 +30,15 @@ export class WebSocketAuthService {
         return null; // No token provided, allow unauthenticated connection
       }
 
-      // Get JWT secret key from application config
-      const jwtSecretKey = this.applicationConfig.auth?.jwtSecretKey;
+      const authConfig = this.applicationConfig.auth;
 
-      if (!jwtSecretKey) {
+      if (!Jwt.isConfigured(authConfig)) {
         throw new Error('JWT secret key not configured');
       }
 
-      // Import JWT secret key
-      const importedJwtSecretKey = await Jwt.importJwtSecretKey({
-        jwtSecretKey,
-      });
-
-      // Verify JWT token
-      const { payload } = await Jwt.jwtVerify(token, importedJwtSecretKey);
+      // Verify JWT access token (signature, expiry, type and revocation)
+      const tokenService = new AuthTokenService({ authConfig, redisInstance: this.redisInstance });
+      const payload = await tokenService.verifyAccessToken({ accessToken: token });
 
       const userId = parseInt(payload.sub as string, 10);
 
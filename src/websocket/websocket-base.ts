@@ -1,13 +1,40 @@
 import type WebSocket from 'ws';
+import type { AuthenticatedUser } from '../auth/authenticate.js';
+import type { AuthorizationConfig } from '../auth/authorization.interface.js';
+import Authorization from '../auth/authorization.js';
+import type { RateLimitKey, RateLimitPolicy } from '../rate-limit/rate-limit.interface.js';
+import type RateLimiter from '../rate-limit/rate-limiter.js';
+import Tenancy from '../tenancy/tenancy.js';
 import { File, Helper, Loader } from '../util/index.js';
 import type { WebSocketClientBaseControllerType } from './controller/client/base.interface.js';
 import type { WebSocketServerBaseControllerType } from './controller/server/base.interface.js';
 import { getRouteKey, log, parseServerMessage } from './utils.js';
-import type { WebSocketMessageHandler, WebSocketRoute, WebSocketType } from './websocket.interface.js';
+import type {
+  WebSocketMessageHandler,
+  WebSocketMessageResponse,
+  WebSocketRateLimitContext,
+  WebSocketRoute,
+  WebSocketType,
+} from './websocket.interface.js';
+
+async function getRateLimitIdentity(
+  key: RateLimitKey<WebSocketRateLimitContext> = 'ip',
+  context: WebSocketRateLimitContext,
+): Promise<string> {
+  if (typeof key === 'function') {
+    return key(context);
+  }
+
+  const userId = context.user?.userId;
+
+  return key === 'user' && userId !== undefined ? `user:${userId}` : (context.ip ?? `client:${context.clientId}`);
+}
 
 export default abstract class WebSocketBase {
   protected routes: WebSocketRoute[] = [];
   protected routeHandlers: Map<string, WebSocketMessageHandler> = new Map();
+  protected routeRequirements: Map<string, string[]> = new Map();
+  protected routeRateLimits: Map<string, RateLimitPolicy<WebSocketRateLimitContext> | string> = new Map();
 
   protected defaultRoutes: WebSocketRoute[] = [];
 
@@ -17,6 +44,31 @@ export default abstract class WebSocketBase {
   protected abstract shouldPrintRoutes(): boolean;
   protected abstract handleMessageError(clientId: string, error: string): void;
 
+  /**
+   * Get the user authenticated on the client connection (used for routes with `requires`).
+   */
+  protected getClientUser(_clientId: string): AuthenticatedUser | null | undefined {
+    return undefined;
+  }
+
+  protected getAuthorizationConfig(): AuthorizationConfig | undefined {
+    return undefined;
+  }
+
+  /**
+   * Get the rate limiter of routes with `rateLimit` (messages are not rate limited without one).
+   */
+  protected getRateLimiter(): RateLimiter | undefined {
+    return undefined;
+  }
+
+  /**
+   * Get the IP address and tenant of a client connection (used for routes with `rateLimit`).
+   */
+  protected getClientConnection(_clientId: string): { ip?: string; tenantId?: string } {
+    return {};
+  }
+
   protected async configureRoutes(routes: WebSocketRoute[], controllersDirectory: string): Promise<void> {
     // log ('Configuring routes', { Type: this.type, 'Controllers Directory': controllersDirectory });
 
@@ -89,6 +141,17 @@ export default abstract class WebSocketBase {
       }
 
       this.routeHandlers.set(routeKey, controllerHandler.bind(controllerInstance));
+
+      if (route.requires && route.requires.length > 0) {
+        this.routeRequirements.set(routeKey, route.requires);
+      }
+
+      if (route.rateLimit !== undefined) {
+        // Fail on startup for unknown policy names
+        this.getRateLimiter()?.getPolicy(route.rateLimit);
+
+        this.routeRateLimits.set(routeKey, route.rateLimit);
+      }
     }
 
     if (this.shouldPrintRoutes()) {
@@ -119,6 +182,40 @@ export default abstract class WebSocketBase {
       const messageHandler = this.routeHandlers.get(routeKey);
 
       if (messageHandler) {
+        const requiredPermissions = this.routeRequirements.get(routeKey);
+
+        if (requiredPermissions) {
+          const authorizationError = await this.authorizeMessage({ clientId, requires: requiredPermissions });
+
+          if (authorizationError) {
+            return {
+              type,
+              action,
+              response: authorizationError,
+            };
+          }
+        }
+
+        const rateLimit = this.routeRateLimits.get(routeKey);
+
+        if (rateLimit !== undefined) {
+          const rateLimitError = await this.limitMessage({
+            clientId,
+            routeKey,
+            rateLimit,
+            type: String(type),
+            action: String(action),
+          });
+
+          if (rateLimitError) {
+            return {
+              type,
+              action,
+              response: rateLimitError,
+            };
+          }
+        }
+
         const messageResponse = await messageHandler(ws, clientId, parsedMessage.data);
 
         return {
@@ -157,6 +254,76 @@ export default abstract class WebSocketBase {
     }
   }
 
+  /**
+   * Check route permissions for a client. Returns an error response when the message is not allowed.
+   */
+  protected async authorizeMessage({
+    clientId,
+    requires,
+  }: {
+    clientId: string;
+    requires: string[];
+  }): Promise<WebSocketMessageResponse | undefined> {
+    const user = this.getClientUser(clientId);
+
+    if (!user) {
+      return { error: 'Authentication required.', errorType: 'authentication' };
+    }
+
+    const result = await Authorization.authorize({ user, requires, config: this.getAuthorizationConfig() });
+
+    if (!result.allowed) {
+      return { error: 'Insufficient permissions.', errorType: 'authorization' };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Count a message against the route rate limit. Returns an error response when the limit is exceeded.
+   * Messages of routes using a named policy share its counters, with the HTTP routes using it.
+   */
+  protected async limitMessage({
+    clientId,
+    routeKey,
+    rateLimit,
+    type,
+    action,
+  }: {
+    clientId: string;
+    routeKey: string;
+    rateLimit: RateLimitPolicy<WebSocketRateLimitContext> | string;
+    type: string;
+    action: string;
+  }): Promise<WebSocketMessageResponse | undefined> {
+    const rateLimiter = this.getRateLimiter();
+
+    if (!rateLimiter) {
+      return undefined;
+    }
+
+    const policy = rateLimiter.getPolicy(rateLimit);
+    const context: WebSocketRateLimitContext = {
+      clientId,
+      user: this.getClientUser(clientId),
+      type,
+      action,
+      ...this.getClientConnection(clientId),
+    };
+    const identity = Tenancy.getTenantScopedKey({
+      key: await getRateLimitIdentity(policy.key, context),
+      tenantId: context.tenantId,
+    });
+    const scope = typeof rateLimit === 'string' ? `policy:${rateLimit}` : `ws:${routeKey}`;
+    const result = await rateLimiter.consume({ key: `${scope}:${identity}`, policy });
+
+    if (result.allowed) {
+      return undefined;
+    }
+
+    return { error: 'Rate limit exceeded.', errorType: 'rate_limit', retryAfter: Math.ceil(result.resetMs / 1000) };
+  }
+
   protected printRoutes(): void {
     let routesString = '';
 
@@ -1,8 +1,18 @@
 import type WebSocket from 'ws';
+import type { AuthenticatedUser } from '../auth/authenticate.js';
 
 export interface WebSocketClientData {
   ws: WebSocket | null;
   lastActivity: number;
   roomName?: string;
+
+  /** User authenticated at connection time (kept when `user` is replaced on joining a room) */
+  authenticatedUser?: AuthenticatedUser | null;
+
+  /** Tenant resolved at connection time (when multi-tenancy is enabled) */
+  tenantId?: string;
+
+  /** IP address the client connected from (only known on the worker holding the connection) */
+  ip?: string;
   [key: string]: any;
 }
@@ -15,16 +15,23 @@ export default class WebSocketClientManager {
     ws,
     lastActivity,
     user,
+    tenantId,
+    ip,
   }: {
     clientId: string;
     ws: WebSocket | null;
     lastActivity: number;
     user?: { userId: number; payload: any } | null;
+    tenantId?: string;
+    ip?: string;
   }) {
     this.clients.set(clientId, {
       ws,
       lastActivity,
       user,
+      authenticatedUser: user,
+      tenantId,
+      ip,
     });
 
     // Maintain reverse lookup map for O(1) clientId lookups
@@ -263,18 +270,21 @@ export default class WebSocketClientManager {
   public broadcastClientList(type: string) {
     const clientList = this.getClientList();
 
-    this.clients.forEach(({ ws }) => {
+    this.clients.forEach(({ ws, tenantId }) => {
       if (!ws || ws.readyState !== WebSocket.OPEN) {
         return;
       }
 
+      // Clients only see the clients of their own tenant
+      const tenantClientList = clientList.filter(client => client.tenantId === tenantId);
+
       try {
         ws.send(
           JSON.stringify({
             type: 'system',
             action: 'clientList',
             clientListType: type,
-            data: clientList,
+            data: tenantClientList,
           }),
         );
       } catch (error) {
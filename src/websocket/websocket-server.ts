@@ -1,13 +1,19 @@
+import type { IncomingMessage } from 'node:http';
 import path from 'node:path';
 import type { FastifyInstance } from 'fastify';
 import { type RawData, WebSocket, WebSocketServer as WS } from 'ws';
+import type { AuthenticatedUser } from '../auth/authenticate.js';
+import type { AuthorizationConfig } from '../auth/authorization.interface.js';
 import type DatabaseInstance from '../database/instance.js';
+import { WebSocketError } from '../error/framework-errors.js';
 import { baseDir, type WebApplicationConfig } from '../index.js';
 import { Logger } from '../logger/index.js';
 import logger from '../logger/logger.js';
 import type QueueManager from '../queue/manager.js';
+import RateLimiter from '../rate-limit/rate-limiter.js';
 import type RedisInstance from '../redis/instance.js';
-import { runWithContextAsync } from '../request-context/index.js';
+import { runWithContextAsync, setTenantId } from '../request-context/index.js';
+import Tenancy from '../tenancy/tenancy.js';
 import { File, Loader } from '../util/index.js';
 import { executeWithMiddleware } from './subscriber-middleware.js';
 import { generateClientId, log } from './utils.js';
@@ -59,6 +65,7 @@ export default class WebSocketServer extends WebSocketBase {
   private redisInstance: RedisInstance;
   private queueManager: QueueManager;
   private databaseInstance: DatabaseInstance;
+  private rateLimiter?: RateLimiter;
   private subscriberHandlersByChannel: Map<string, WebSocketSubscriberDefinition[]> = new Map();
   private subscriberMatcherHandlers: WebSocketSubscriberDefinition[] = [];
   private wildcardSubscriberHandlers: WebSocketSubscriberDefinition[] = [];
@@ -89,7 +96,7 @@ export default class WebSocketServer extends WebSocketBase {
     this.databaseInstance = props.databaseInstance;
     this.routes = props.routes;
     this.workerId = props.workerId;
-    this.authService = new WebSocketAuthService(props.applicationConfig);
+    this.authService = new WebSocketAuthService(props.applicationConfig, props.redisInstance);
   }
 
   public get type(): WebSocketType {
@@ -467,8 +474,20 @@ export default class WebSocketServer extends WebSocketBase {
             // Validate authentication token if provided
             const authenticatedUser = await this.validateWebSocketAuth(request.url);
 
+            let tenantId: string | undefined;
+
+            try {
+              tenantId = await this.resolveConnectionTenant(request, authenticatedUser);
+            } catch (error: any) {
+              log('WebSocket tenant rejected', { error: error.message });
+              socket.write('HTTP/1.1 403 Forbidden\r\n\r\n');
+              socket.destroy();
+
+              return;
+            }
+
             server.handleUpgrade(request, socket, head, ws => {
-              server.emit('connection', ws, request, authenticatedUser);
+              server.emit('connection', ws, request, authenticatedUser, tenantId);
             });
           } catch (error: any) {
             log('WebSocket authentication failed', { error: error.message });
@@ -484,8 +503,13 @@ export default class WebSocketServer extends WebSocketBase {
 
       server.on(
         'connection',
-        (ws: WebSocket, _request: any, authenticatedUser: { userId: number; payload: any } | null) => {
-          this.handleServerClientConnection(ws, authenticatedUser);
+        (
+          ws: WebSocket,
+          request: IncomingMessage,
+          authenticatedUser: { userId: number; payload: any } | null,
+          tenantId: string | undefined,
+        ) => {
+          this.handleServerClientConnection(ws, authenticatedUser, tenantId, request?.socket?.remoteAddress);
         },
       );
 
@@ -494,6 +518,55 @@ export default class WebSocketServer extends WebSocketBase {
     });
   }
 
+  /**
+   * Resolve the tenant of a connection from the upgrade request, falling back to the token's tenant claim.
+   * Tokens without a tenant claim are rejected for a resolved tenant, unless `allowUnscopedCredentials` is set.
+   *
+   * @throws WebSocketError when the tenant is missing (and required), invalid or not the token's tenant
+   */
+  private async resolveConnectionTenant(
+    request: IncomingMessage,
+    authenticatedUser: { payload: Record<string, unknown> } | null,
+  ): Promise<string | undefined> {
+    const config = this.applicationConfig.tenancy;
+
+    if (!Tenancy.isEnabled(config)) {
+      return undefined;
+    }
+
+    const resolvedTenantId = await Tenancy.resolveTenantId({
+      request: { headers: request.headers, hostname: (request.headers.host ?? '').replace(/:\d+$/, '') },
+      config,
+    });
+    const claimedTenantId = authenticatedUser
+      ? Tenancy.getTenantIdFromClaims({ payload: authenticatedUser.payload, config })
+      : undefined;
+
+    if (resolvedTenantId && claimedTenantId !== undefined && resolvedTenantId !== claimedTenantId) {
+      throw new WebSocketError('Token not valid for this tenant');
+    }
+
+    if (resolvedTenantId && authenticatedUser && claimedTenantId === undefined && !config.allowUnscopedCredentials) {
+      throw new WebSocketError('Token not valid for this tenant');
+    }
+
+    const tenantId = resolvedTenantId || claimedTenantId;
+
+    if (!tenantId) {
+      if (config.required !== false) {
+        throw new WebSocketError('Tenant required');
+      }
+
+      return undefined;
+    }
+
+    if (!Tenancy.isValidTenantId(tenantId)) {
+      throw new WebSocketError('Invalid tenant');
+    }
+
+    return tenantId;
+  }
+
   public async stop(): Promise<void> {
     // Abort all ongoing operations (intervals, etc.)
     this.abortController.abort();
@@ -547,6 +620,29 @@ export default class WebSocketServer extends WebSocketBase {
     };
   }
 
+  protected getClientUser(clientId: string): AuthenticatedUser | null | undefined {
+    return this.clientManager.getClient({ clientId })?.authenticatedUser;
+  }
+
+  protected getAuthorizationConfig(): AuthorizationConfig | undefined {
+    return this.applicationConfig.auth?.authorization;
+  }
+
+  protected getRateLimiter(): RateLimiter {
+    this.rateLimiter ??= new RateLimiter({
+      config: this.applicationConfig.rateLimit,
+      redisInstance: this.redisInstance,
+    });
+
+    return this.rateLimiter;
+  }
+
+  protected getClientConnection(clientId: string): { ip?: string; tenantId?: string } {
+    const client = this.clientManager.getClient({ clientId });
+
+    return { ip: client?.ip, tenantId: client?.tenantId };
+  }
+
   protected shouldPrintRoutes(): boolean {
     return this.options.debug?.printRoutes ?? false;
   }
@@ -627,6 +723,7 @@ export default class WebSocketServer extends WebSocketBase {
           clientId: parsedMessage.clientId,
           lastActivity: parsedMessage.lastActivity,
           user: parsedMessage.user,
+          tenantId: parsedMessage.tenantId,
         });
 
         break;
@@ -727,6 +824,8 @@ export default class WebSocketServer extends WebSocketBase {
   private handleServerClientConnection = (
     ws: WebSocket,
     authenticatedUser?: { userId: number; payload: any } | null,
+    tenantId?: string,
+    ip?: string,
   ): void => {
     const clientId = generateClientId();
 
@@ -748,6 +847,8 @@ export default class WebSocketServer extends WebSocketBase {
         ws,
         lastActivity,
         user: authenticatedUser,
+        tenantId,
+        ip,
       });
 
       // Let other workers know that the client has connected
@@ -758,6 +859,7 @@ export default class WebSocketServer extends WebSocketBase {
           lastActivity,
           workerId: this.workerId,
           user: authenticatedUser,
+          tenantId,
         }),
       );
 
@@ -786,10 +888,12 @@ export default class WebSocketServer extends WebSocketBase {
       return;
     }
 
+    const tenantRoomName = this.getTenantRoomName({ clientId, roomName });
+
     // Check if client is in room
     const clientInRoom = this.roomManager.isClientInRoom({
       clientId,
-      roomName,
+      roomName: tenantRoomName,
     });
 
     if (!clientInRoom) {
@@ -802,7 +906,7 @@ export default class WebSocketServer extends WebSocketBase {
     }
 
     this.roomManager.removeClientFromRoom({
-      roomName,
+      roomName: tenantRoomName,
       clientId,
     });
 
@@ -810,7 +914,7 @@ export default class WebSocketServer extends WebSocketBase {
       WebSocketRedisSubscriberEvent.ClientLeftRoom,
       JSON.stringify({
         clientId,
-        room: roomName,
+        room: tenantRoomName,
         workerId: this.workerId,
       }),
     );
@@ -829,16 +933,19 @@ export default class WebSocketServer extends WebSocketBase {
     clientId,
     lastActivity,
     user,
+    tenantId,
   }: {
     clientId: string;
     lastActivity: number;
     user?: { userId: number; payload: any } | null;
+    tenantId?: string;
   }): void {
     this.clientManager.addClient({
       clientId,
       ws: null,
       lastActivity,
       user,
+      tenantId,
     });
   }
 
@@ -890,6 +997,12 @@ export default class WebSocketServer extends WebSocketBase {
           return;
         }
 
+        const tenantId = this.clientManager.getClient({ clientId })?.tenantId;
+
+        if (tenantId) {
+          setTenantId(tenantId);
+        }
+
         // Handle server message
         const serverMessageResponse = await this.handleServerMessage(ws, message, clientId);
 
@@ -1020,22 +1133,25 @@ export default class WebSocketServer extends WebSocketBase {
    * @param roomName - The room to broadcast to
    * @param data - The data to broadcast
    * @param excludeClientId - Optional client ID to exclude from broadcast
+   * @param tenantId - Tenant of the room (default: the tenant of the request context)
    */
   public broadcastToRoom({
     roomName,
     data,
     excludeClientId,
+    tenantId,
   }: {
     roomName: string;
     data: { [key: string]: any };
     excludeClientId?: string;
+    tenantId?: string;
   }): void {
     if (!this.server) {
       log('Server not started when broadcasting to room', { roomName });
       return;
     }
 
-    const room = this.roomManager.rooms.get(roomName);
+    const room = this.roomManager.rooms.get(Tenancy.getTenantScopedKey({ key: roomName, tenantId }));
     if (!room) {
       log('Room not found when broadcasting', { roomName });
       return;
@@ -1216,10 +1332,12 @@ export default class WebSocketServer extends WebSocketBase {
       return;
     }
 
+    const tenantRoomName = this.getTenantRoomName({ clientId, roomName });
+
     // Check if client is already in room
     const isClientInRoom = this.roomManager.isClientInRoom({
       clientId,
-      roomName,
+      roomName: tenantRoomName,
     });
 
     if (isClientInRoom) {
@@ -1297,7 +1415,7 @@ export default class WebSocketServer extends WebSocketBase {
 
     this.onJoinRoom({
       clientId,
-      roomName,
+      roomName: tenantRoomName,
       userData,
     });
 
@@ -1307,7 +1425,7 @@ export default class WebSocketServer extends WebSocketBase {
       JSON.stringify({
         clientId,
         user: userData,
-        roomName,
+        roomName: tenantRoomName,
         workerId: this.workerId,
       }),
     );
@@ -1315,6 +1433,15 @@ export default class WebSocketServer extends WebSocketBase {
     return true;
   }
 
+  /**
+   * Get the name under which a client's room is kept: rooms of different tenants never share clients
+   */
+  private getTenantRoomName({ clientId, roomName }: { clientId: string; roomName: string }): string {
+    const tenantId = this.clientManager.getClient({ clientId })?.tenantId;
+
+    return tenantId ? Tenancy.getTenantScopedKey({ key: roomName, tenantId }) : roomName;
+  }
+
   public sendClientMessage = (ws: WebSocket, data: unknown, binary: boolean = false): void => {
     const webSocketMessage = JSON.stringify(data);
 
@@ -1,6 +1,8 @@
 import type { WebSocketServer as NativeWebSocketServer, WebSocket } from 'ws';
+import type { AuthenticatedUser } from '../auth/authenticate.js';
 import type DatabaseInstance from '../database/instance.js';
 import type QueueManager from '../queue/manager.js';
+import type { RateLimitPolicy } from '../rate-limit/rate-limit.interface.js';
 import type RedisInstance from '../redis/instance.js';
 import type { WebSocketClientBaseControllerType } from './controller/client/base.interface.js';
 import type { WebSocketServerBaseControllerType } from './controller/server/base.interface.js';
@@ -185,6 +187,32 @@ export interface WebSocketRoute {
 
   /** WebSocket route action */
   action: string;
+
+  /** Permissions the connected user must hold to call the action */
+  requires?: string[];
+
+  /**
+   * Rate limit of the action on the server: a policy or the name of a `rateLimit.policies` policy.
+   * Messages are counted per IP address by default, or with `key: 'user'` per authenticated user.
+   */
+  rateLimit?: RateLimitPolicy<WebSocketRateLimitContext> | string;
+}
+
+/** Message counted by a WebSocket route rate limit, passed to `rateLimit.key` functions */
+export interface WebSocketRateLimitContext {
+  clientId: string;
+
+  /** IP address the client connected from */
+  ip?: string;
+
+  /** User authenticated on the client connection */
+  user?: AuthenticatedUser | null;
+
+  /** Tenant of the client connection, when multi-tenancy is enabled */
+  tenantId?: string;
+
+  type: string;
+  action: string;
 }
 
 export interface WebSocketConstructorParams {
@@ -217,6 +245,10 @@ export interface WebSocketConnectedClientData {
 
 export interface WebSocketMessageResponse {
   error?: string;
+  errorType?: 'authentication' | 'authorization' | 'rate_limit';
+
+  /** Seconds until a rate limited message can be sent again */
+  retryAfter?: number;
 }
 
 export type WebSocketMessageHandler<TData = unknown, TResponse = WebSocketMessageResponse> = (
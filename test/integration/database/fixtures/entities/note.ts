@@ -0,0 +1,18 @@
+import { EntitySchema } from '@mikro-orm/core';
+
+export class Note {
+  public static softDelete = true;
+
+  public id!: number;
+  public title!: string;
+  public deletedAt?: Date | null;
+}
+
+export const NoteSchema = new EntitySchema({
+  class: Note,
+  properties: {
+    id: { type: 'number', primary: true },
+    title: { type: 'string' },
+    deletedAt: { type: 'Date', nullable: true },
+  },
+});
@@ -0,0 +1,75 @@
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type DatabaseInstance from '../../../src/database/instance.js';
+import DatabaseManager from '../../../src/database/manager.js';
+import SoftDelete from '../../../src/database/soft-delete.js';
+import type { Note } from './fixtures/entities/note.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+// Entities are referenced by name: MikroORM discovers its own instance of the entities directory modules
+const NOTE = 'Note';
+
+describe('SQLite in-memory database', () => {
+  let databaseManager: DatabaseManager;
+  let databaseInstance: DatabaseInstance;
+
+  beforeEach(async () => {
+    databaseManager = new DatabaseManager({
+      applicationConfig: { name: 'sqlite-test', instanceId: 'test', rootDirectory: __dirname } as any,
+      driver: 'sqlite',
+      databaseName: ':memory:',
+      entitiesDirectory: path.join(__dirname, 'fixtures', 'entities'),
+    });
+
+    databaseInstance = await databaseManager.connect();
+
+    await databaseInstance.getSchemaGenerator().create();
+  });
+
+  afterEach(async () => {
+    await databaseManager.disconnect();
+  });
+
+  it('should create and query entities', async () => {
+    await databaseInstance.withTransaction(async em => {
+      em.create<Note>(NOTE, { title: 'First' });
+      em.create<Note>(NOTE, { title: 'Second' });
+    });
+
+    const titles = await databaseInstance.withEntityManager(async em => {
+      const notes = await em.find<Note>(NOTE, {}, { orderBy: { id: 'ASC' } });
+
+      return notes.map(note => note.title);
+    });
+
+    expect(titles).toEqual(['First', 'Second']);
+    await expect(databaseInstance.isConnected()).resolves.toBe(true);
+  });
+
+  it('should roll back failed transactions', async () => {
+    await expect(
+      databaseInstance.withTransaction(async em => {
+        em.create<Note>(NOTE, { title: 'Discarded' });
+        await em.flush();
+
+        throw new Error('Rollback');
+      }),
+    ).rejects.toThrow('Rollback');
+
+    await expect(databaseInstance.withEntityManager(async em => em.count(NOTE))).resolves.toBe(0);
+  });
+
+  it('should apply the soft delete filter', async () => {
+    await databaseInstance.withTransaction(async em => {
+      em.create<Note>(NOTE, { title: 'Kept' });
+      em.create<Note>(NOTE, { title: 'Deleted', deletedAt: new Date() });
+    });
+
+    await databaseInstance.withEntityManager(async em => {
+      await expect(em.count(NOTE)).resolves.toBe(1);
+      await expect(em.count(NOTE, {}, { filters: { [SoftDelete.SOFT_DELETE_FILTER]: false } })).resolves.toBe(2);
+    });
+  });
+});
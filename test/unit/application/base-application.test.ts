@@ -8,7 +8,7 @@ import type { ApplicationConfig } from '../../../src/application/base-applicatio
 import BaseApplication from '../../../src/application/base-application.js';
 import CacheManager from '../../../src/cache/manager.js';
 import ClusterManager from '../../../src/cluster/cluster-manager.js';
-import { DatabaseManager } from '../../../src/database/index.js';
+import { DatabaseManager, Migration } from '../../../src/database/index.js';
 import EventManager from '../../../src/event/manager.js';
 import { requestExit } from '../../../src/lifecycle/exit.js';
 import Logger from '../../../src/logger/logger.js';
@@ -25,6 +25,7 @@ vi.mock('os');
 vi.mock('cluster');
 vi.mock('../../../src/database/index.js', () => ({
   DatabaseManager: vi.fn(),
+  Migration: { migrateWithLock: vi.fn() },
 }));
 vi.mock('../../../src/queue/manager.js', () => ({
   default: vi.fn(),
@@ -140,6 +141,7 @@ describe('BaseApplication', () => {
     mockDatabaseManager.mockImplementation(function (this: any) {
       this.connect = vi.fn();
       this.disconnect = vi.fn();
+      this.setQueueManager = vi.fn();
       return this;
     } as any);
 
@@ -181,6 +183,7 @@ describe('BaseApplication', () => {
       });
       expect(mockCacheManager).toHaveBeenCalledWith({
         redisManager: expect.any(Object),
+        tenantScoped: false,
       });
     });
 
@@ -195,6 +198,8 @@ describe('BaseApplication', () => {
         password: 'dbpass',
         databaseName: 'testdb',
         entitiesDirectory: '/test/entities',
+        migrations: { directory: '/test/root/src/database/migrations' },
+        seeders: { directory: '/test/root/src/database/seeders' },
       });
     });
 
@@ -416,6 +421,103 @@ describe('BaseApplication', () => {
       });
       expect(mockEventManagerInstance.load).toHaveBeenCalled();
     });
+
+    it('should add a readiness check for each database connection', async () => {
+      const configWithConnections: any = {
+        ...mockConfig,
+        database: {
+          ...mockConfig.database,
+          connections: {
+            analytics: { host: 'analytics', port: 5432, username: 'a', password: 'a', databaseName: 'analytics' },
+          },
+        },
+      };
+
+      application = new TestApplication(configWithConnections);
+
+      const mockDatabaseInstance = {
+        orm: {},
+        isConnected: vi.fn().mockResolvedValue(true),
+      };
+
+      application.redisManager.connect = vi
+        .fn()
+        .mockResolvedValue({ client: {}, isConnected: vi.fn().mockResolvedValue(true) });
+      if (application.databaseManager) {
+        application.databaseManager.connect = vi.fn().mockResolvedValue(mockDatabaseInstance);
+      }
+
+      await application.start();
+
+      mockDatabaseInstance.isConnected.mockImplementation(async (connection?: string) => connection !== 'analytics');
+
+      const { checks } = await application.lifecycle.getReadinessStatus();
+
+      expect(checks.map(check => [check.name, check.ready])).toEqual([
+        ['redis', true],
+        ['database', true],
+        ['database:analytics', false],
+      ]);
+    });
+
+    it('should run migrations in the init phase when runOnStartup is enabled', async () => {
+      const configWithMigrations: any = {
+        ...mockConfig,
+        database: { ...mockConfig.database, migrations: { runOnStartup: true, lockTtlSeconds: 60 } },
+      };
+
+      application = new TestApplication(configWithMigrations);
+
+      const mockRedisInstance = { client: {}, isConnected: vi.fn().mockResolvedValue(true) };
+      const mockDatabaseInstance = { orm: {}, isConnected: vi.fn().mockResolvedValue(true) };
+
+      application.redisManager.connect = vi.fn().mockResolvedValue(mockRedisInstance);
+      if (application.databaseManager) {
+        application.databaseManager.connect = vi.fn().mockResolvedValue(mockDatabaseInstance);
+      }
+
+      vi.mocked(Migration.migrateWithLock).mockImplementation(async () => {
+        // Queues are registered after the init phase
+        expect(mockQueueManager).not.toHaveBeenCalled();
+
+        return [];
+      });
+
+      await application.start();
+
+      expect(Migration.migrateWithLock).toHaveBeenCalledWith({
+        databaseInstance: mockDatabaseInstance,
+        redisInstance: mockRedisInstance,
+        applicationName: mockConfig.name,
+        lockTtlSeconds: 60,
+      });
+      expect(mockQueueManager).toHaveBeenCalled();
+    });
+
+    it('should abort the start when startup migrations fail', async () => {
+      const configWithMigrations: any = {
+        ...mockConfig,
+        database: { ...mockConfig.database, migrations: { runOnStartup: true } },
+      };
+
+      application = new TestApplication(configWithMigrations);
+
+      application.redisManager.connect = vi.fn().mockResolvedValue({ client: {} });
+      if (application.databaseManager) {
+        application.databaseManager.connect = vi.fn().mockResolvedValue({ orm: {} });
+      }
+
+      vi.mocked(Migration.migrateWithLock).mockRejectedValue(new Error('relation already exists'));
+
+      await expect(application.start()).rejects.toThrow('Database migrations failed');
+      expect(mockQueueManager).not.toHaveBeenCalled();
+    });
+
+    it('should not run migrations on startup by default', async () => {
+      await application.start();
+
+      expect(Migration.migrateWithLock).not.toHaveBeenCalled();
+    });
   });
 
   describe('global error handlers', () => {
@@ -4,6 +4,7 @@ import { join } from 'node:path';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import type { CommandApplicationConfig } from '../../../src/application/command-application.interface.js';
 import CommandApplication from '../../../src/application/command-application.js';
+import { Logger } from '../../../src/logger/index.js';
 
 // Mock Logger
 vi.mock('../../../src/logger/index.js', () => ({
@@ -140,4 +141,41 @@ describe('CommandApplication', () => {
 
     expect(app).toBeDefined();
   });
+
+  it('should run built-in database commands without a commands directory', async () => {
+    const config: CommandApplicationConfig = {
+      name: 'test-command-app',
+      instanceId: 'test-instance',
+      rootDirectory: process.cwd(),
+      commandsDirectory: join(testDir, 'missing'),
+      redis: { host: 'localhost', port: 6379 },
+      queue: { processorsDirectory: '/tmp/test-dir', queues: [], log: {} },
+      log: { startUp: false, shutdown: false },
+      performanceMonitoring: { enabled: false },
+      commandManager: {
+        argv: {
+          parseSync: () => ({ _: ['db:status'] }),
+        } as any,
+      },
+    };
+
+    const app = new CommandApplication(config);
+    const databaseInstance = {
+      getMigrator: () => ({
+        getExecuted: vi.fn().mockResolvedValue([]),
+        getPending: vi.fn().mockResolvedValue([{ name: 'Migration20261001000000' }]),
+      }),
+    };
+
+    vi.spyOn(app as any, 'stopCommand').mockImplementation(() => undefined);
+
+    await (app as any).startHandler({ redisInstance: {}, databaseInstance, queueManager: {} });
+
+    expect(Logger.warn).not.toHaveBeenCalled();
+    expect(Logger.custom).toHaveBeenCalledWith({
+      level: 'command',
+      message: 'Pending',
+      meta: { Command: 'db:status', Name: 'Migration20261001000000' },
+    });
+  });
 });
@@ -0,0 +1,85 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { AuthenticatedUser } from '../../../src/auth/authenticate.js';
+import Authorization from '../../../src/auth/authorization.js';
+
+const createUser = (payload: Record<string, unknown> = {}): AuthenticatedUser => ({ userId: 1, payload });
+
+describe('Authorization', () => {
+  describe('permissionMatches', () => {
+    it('should match exact permissions and wildcards', () => {
+      expect(Authorization.permissionMatches('posts:write', 'posts:write')).toBe(true);
+      expect(Authorization.permissionMatches('posts:*', 'posts:write')).toBe(true);
+      expect(Authorization.permissionMatches('*', 'users:delete')).toBe(true);
+      expect(Authorization.permissionMatches('posts:read', 'posts:write')).toBe(false);
+      expect(Authorization.permissionMatches('posts:*', 'postsarchive:write')).toBe(false);
+    });
+  });
+
+  describe('resolveUserAuthorization', () => {
+    it('should read roles and permissions from JWT claims and expand roles', async () => {
+      const user = createUser({ roles: ['editor'], permissions: 'comments:read comments:write' });
+
+      const authorization = await Authorization.resolveUserAuthorization({
+        user,
+        config: { roles: { editor: ['posts:*'] } },
+      });
+
+      expect(authorization).toEqual({
+        roles: ['editor'],
+        permissions: ['comments:read', 'comments:write', 'posts:*'],
+      });
+      expect(user.permissions).toEqual(authorization.permissions);
+    });
+
+    it('should use custom claim names', async () => {
+      const authorization = await Authorization.resolveUserAuthorization({
+        user: createUser({ groups: ['admin'], scope: 'users:read' }),
+        config: { rolesClaim: 'groups', permissionsClaim: 'scope' },
+      });
+
+      expect(authorization).toEqual({ roles: ['admin'], permissions: ['users:read'] });
+    });
+
+    it('should use the resolver instead of claims and cache the result on the user', async () => {
+      const resolver = vi.fn().mockResolvedValue({ roles: ['admin'] });
+      const user = createUser({ roles: ['ignored'] });
+      const config = { resolver, roles: { admin: ['*'] } };
+
+      await Authorization.resolveUserAuthorization({ user, config });
+      const authorization = await Authorization.resolveUserAuthorization({ user, config });
+
+      expect(authorization).toEqual({ roles: ['admin'], permissions: ['*'] });
+      expect(resolver).toHaveBeenCalledTimes(1);
+      expect(resolver).toHaveBeenCalledWith({ user });
+    });
+
+    it('should ignore roles inherited from the object prototype', async () => {
+      const authorization = await Authorization.resolveUserAuthorization({
+        user: createUser({ roles: ['constructor'] }),
+        config: { roles: {} },
+      });
+
+      expect(authorization.permissions).toEqual([]);
+    });
+  });
+
+  describe('authorize', () => {
+    it('should allow users holding all required permissions', async () => {
+      const result = await Authorization.authorize({
+        user: createUser({ permissions: ['posts:*'] }),
+        requires: ['posts:read', 'posts:write'],
+      });
+
+      expect(result.allowed).toBe(true);
+    });
+
+    it('should report missing permissions', async () => {
+      const result = await Authorization.authorize({
+        user: createUser({ permissions: ['posts:read'] }),
+        requires: ['posts:read', 'posts:write'],
+      });
+
+      expect(result).toMatchObject({ allowed: false, missingPermissions: ['posts:write'] });
+    });
+  });
+});
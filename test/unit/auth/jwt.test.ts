@@ -7,6 +7,9 @@ vi.mock('jose', () => ({
     this.setProtectedHeader = vi.fn().mockReturnThis();
     this.setIssuedAt = vi.fn().mockReturnThis();
     this.setExpirationTime = vi.fn().mockReturnThis();
+    this.setJti = vi.fn().mockReturnThis();
+    this.setIssuer = vi.fn().mockReturnThis();
+    this.setAudience = vi.fn().mockReturnThis();
     this.sign = vi.fn().mockResolvedValue('mock-jwt-token');
     return this;
   }),
@@ -72,7 +75,7 @@ describe('JWT utilities', () => {
         refreshToken: 'mock-jwt-token',
         expiresAt: expect.any(Date),
       });
-      expect(mockEntityManager.flush).toHaveBeenCalled();
+      expect(mockEntityManager.flush).not.toHaveBeenCalled();
     });
 
     it('should generate tokens with custom payload', async () => {
@@ -0,0 +1,422 @@
+import type { FastifyRequest } from 'fastify';
+import { describe, expect, it, vi } from 'vitest';
+import type { ApplicationConfig } from '../../../src/application/base-application.interface.js';
+import type { ApiKeyRecord } from '../../../src/auth/api-key.interface.js';
+import ApiKey from '../../../src/auth/api-key.js';
+import Hmac from '../../../src/auth/hmac.js';
+import AuthenticationStrategies from '../../../src/auth/strategy.js';
+import { getTenantId, getUserId, runWithContextAsync } from '../../../src/request-context/index.js';
+import Tenancy from '../../../src/tenancy/tenancy.js';
+
+const createRequest = ({
+  headers = {},
+  method = 'GET',
+  url = '/test',
+  body,
+  rawBody,
+}: {
+  headers?: Record<string, string>;
+  method?: string;
+  url?: string;
+  body?: unknown;
+  rawBody?: string;
+}): FastifyRequest => ({ headers, method, url, body, rawBody }) as unknown as FastifyRequest;
+
+const createRedisInstance = () => {
+  const store = new Map<string, string>();
+
+  return {
+    client: {
+      set: vi.fn(async (key: string, value: string, ...args: unknown[]) => {
+        if (args.includes('NX') && store.has(key)) {
+          return null;
+        }
+
+        store.set(key, value);
+
+        return 'OK';
+      }),
+    },
+  } as any;
+};
+
+describe('ApiKey', () => {
+  it('should generate prefixed keys and hash them', () => {
+    const { key, hash } = ApiKey.generateApiKey({ prefix: 'acme' });
+
+    expect(key).toMatch(/^acme_[\w-]{43}$/);
+    expect(hash).toBe(ApiKey.hashApiKey(key));
+    expect(hash).toHaveLength(64);
+  });
+
+  it('should reject expired and revoked keys', () => {
+    const now = new Date('2026-01-01T00:00:00Z');
+
+    expect(ApiKey.isApiKeyActive({ id: '1' }, now)).toBe(true);
+    expect(ApiKey.isApiKeyActive({ id: '1', expiresAt: '2025-12-31T00:00:00Z' }, now)).toBe(false);
+    expect(ApiKey.isApiKeyActive({ id: '1', revokedAt: new Date('2025-06-01T00:00:00Z') }, now)).toBe(false);
+  });
+});
+
+describe('AuthenticationStrategies', () => {
+  const { key, hash } = ApiKey.generateApiKey();
+  const apiKeyRecord: ApiKeyRecord = { id: 'key-1', userId: 9, scopes: ['reports:read'], roles: ['viewer'] };
+
+  const createConfig = (): ApplicationConfig =>
+    ({
+      name: 'test-app',
+      auth: {
+        jwtSecretKey: 'secret',
+        authorization: { roles: { viewer: ['dashboards:read'] } },
+        apiKey: {
+          store: {
+            findByHash: vi.fn(async (keyHash: string) => (keyHash === hash ? apiKeyRecord : null)),
+            markUsed: vi.fn(),
+          },
+        },
+        hmac: {
+          clients: { cron: { secret: 'hmac-secret', scopes: ['jobs:run'] } },
+        },
+      },
+    }) as unknown as ApplicationConfig;
+
+  it('should authenticate API keys and grant their scopes and roles', async () => {
+    const applicationConfig = createConfig();
+
+    const result = await AuthenticationStrategies.authenticate({
+      request: createRequest({ headers: { 'x-api-key': key } }),
+      applicationConfig,
+      strategies: ['jwt', 'apiKey'],
+    });
+
+    expect(result).toEqual({
+      success: true,
+      user: {
+        userId: 9,
+        payload: { sub: '9', apiKeyId: 'key-1', scopes: ['reports:read'] },
+        strategy: 'apiKey',
+        roles: ['viewer'],
+        permissions: ['reports:read', 'dashboards:read'],
+      },
+    });
+    expect(applicationConfig.auth?.apiKey?.store.markUsed).toHaveBeenCalledWith({
+      id: 'key-1',
+      usedAt: expect.any(Date),
+    });
+  });
+
+  it('should throttle last-used tracking through Redis', async () => {
+    const applicationConfig = createConfig();
+    const redisInstance = createRedisInstance();
+    const request = createRequest({ headers: { 'x-api-key': key } });
+
+    await AuthenticationStrategies.authenticate({ request, applicationConfig, redisInstance, strategies: ['apiKey'] });
+    await AuthenticationStrategies.authenticate({ request, applicationConfig, redisInstance, strategies: ['apiKey'] });
+
+    expect(applicationConfig.auth?.apiKey?.store.markUsed).toHaveBeenCalledTimes(1);
+    expect(redisInstance.client.set).toHaveBeenCalledWith('auth:api-key-used:key-1', '1', 'EX', 60, 'NX');
+  });
+
+  it('should reject unknown API keys', async () => {
+    const result = await AuthenticationStrategies.authenticate({
+      request: createRequest({ headers: { 'x-api-key': 'pxl_unknown' } }),
+      applicationConfig: createConfig(),
+      strategies: ['apiKey'],
+    });
+
+    expect(result).toMatchObject({ success: false, message: 'Invalid API key.', statusCode: 401 });
+  });
+
+  it('should report missing credentials from the first strategy', async () => {
+    const result = await AuthenticationStrategies.authenticate({
+      request: createRequest({}),
+      applicationConfig: createConfig(),
+      strategies: ['jwt', 'apiKey'],
+    });
+
+    expect(result).toMatchObject({ success: false, message: 'No token provided.', statusCode: 401 });
+  });
+
+  it('should set the user ID on the request context', async () => {
+    const userId = await runWithContextAsync({ requestId: 'request-1' }, async () => {
+      await AuthenticationStrategies.authenticate({
+        request: createRequest({ headers: { 'x-api-key': key } }),
+        applicationConfig: createConfig(),
+        strategies: ['apiKey'],
+      });
+
+      return getUserId();
+    });
+
+    expect(userId).toBe('9');
+  });
+
+  it('should verify HMAC signatures over the raw body', async () => {
+    const rawBody = '{"job":"cleanup"}';
+    const { keyId, timestamp, signature } = Hmac.signRequest({
+      keyId: 'cron',
+      secret: 'hmac-secret',
+      method: 'POST',
+      url: '/jobs?run=1',
+      body: rawBody,
+    });
+
+    const request = createRequest({
+      method: 'POST',
+      url: '/jobs?run=1',
+      body: { job: 'cleanup' },
+      rawBody,
+      headers: { 'x-key-id': keyId, 'x-timestamp': timestamp, 'x-signature': signature },
+    });
+
+    const redisInstance = createRedisInstance();
+    const applicationConfig = createConfig();
+
+    const result = await AuthenticationStrategies.authenticate({
+      request,
+      applicationConfig,
+      redisInstance,
+      strategies: ['jwt', 'hmac'],
+    });
+
+    expect(result).toMatchObject({
+      success: true,
+      user: { userId: 0, strategy: 'hmac', permissions: ['jobs:run'] },
+    });
+
+    // Replayed request
+    await expect(
+      AuthenticationStrategies.authenticate({ request, applicationConfig, redisInstance, strategies: ['hmac'] }),
+    ).resolves.toMatchObject({ success: false, message: 'Request already processed.' });
+  });
+
+  it('should reject tampered and stale HMAC requests', async () => {
+    const applicationConfig = createConfig();
+    const redisInstance = createRedisInstance();
+    const signed = Hmac.signRequest({ keyId: 'cron', secret: 'hmac-secret', method: 'POST', url: '/jobs', body: '{}' });
+
+    const tampered = await AuthenticationStrategies.authenticate({
+      request: createRequest({
+        method: 'POST',
+        url: '/jobs',
+        rawBody: '{"admin":true}',
+        headers: { 'x-key-id': 'cron', 'x-timestamp': signed.timestamp, 'x-signature': signed.signature },
+      }),
+      applicationConfig,
+      redisInstance,
+      strategies: ['hmac'],
+    });
+
+    expect(tampered).toMatchObject({ success: false, message: 'Invalid request signature.' });
+
+    const stale = Hmac.signRequest({
+      keyId: 'cron',
+      secret: 'hmac-secret',
+      method: 'GET',
+      url: '/jobs',
+      timestamp: Math.floor(Date.now() / 1000) - 600,
+    });
+
+    const staleResult = await AuthenticationStrategies.authenticate({
+      request: createRequest({
+        url: '/jobs',
+        headers: { 'x-key-id': 'cron', 'x-timestamp': stale.timestamp, 'x-signature': stale.signature },
+      }),
+      applicationConfig,
+      redisInstance,
+      strategies: ['hmac'],
+    });
+
+    expect(staleResult).toMatchObject({ success: false, message: 'Request timestamp outside the allowed window.' });
+  });
+
+  it('should fail HMAC requests when Redis is not available for replay protection', async () => {
+    const rawBody = '{}';
+    const { keyId, timestamp, signature } = Hmac.signRequest({
+      keyId: 'cron',
+      secret: 'hmac-secret',
+      method: 'POST',
+      url: '/jobs',
+      body: rawBody,
+    });
+
+    const result = await AuthenticationStrategies.authenticate({
+      request: createRequest({
+        method: 'POST',
+        url: '/jobs',
+        rawBody,
+        headers: { 'x-key-id': keyId, 'x-timestamp': timestamp, 'x-signature': signature },
+      }),
+      applicationConfig: createConfig(),
+      strategies: ['hmac'],
+    });
+
+    expect(result).toMatchObject({
+      success: false,
+      message: 'Replay protection requires Redis.',
+      statusCode: 500,
+      errorType: 'server_error',
+    });
+  });
+
+  it('should use registered custom strategies', async () => {
+    AuthenticationStrategies.registerStrategy({
+      name: 'internal',
+      hasCredentials: ({ request }) => request.headers['x-internal'] === 'yes',
+      authenticate: async () => ({ success: true, user: { userId: 1, payload: {} } }),
+    });
+
+    const result = await AuthenticationStrategies.authenticate({
+      request: createRequest({ headers: { 'x-internal': 'yes' } }),
+      applicationConfig: createConfig(),
+      strategies: ['jwt', 'internal'],
+    });
+
+    expect(result).toMatchObject({ success: true, user: { userId: 1, strategy: 'internal' } });
+  });
+
+  describe('tenancy', () => {
+    AuthenticationStrategies.registerStrategy({
+      name: 'tenant-token',
+      hasCredentials: () => true,
+      authenticate: async ({ request }) => ({
+        success: true,
+        user: { userId: 1, payload: { tenantId: request.headers['x-token-tenant'] } },
+      }),
+    });
+
+    const createTenancyConfig = (tenancy: Record<string, unknown>): ApplicationConfig =>
+      ({ ...createConfig(), tenancy: { enabled: true, ...tenancy } }) as unknown as ApplicationConfig;
+
+    it('should set the tenant from the JWT claim with the jwt resolver', async () => {
+      const request = createRequest({ headers: { 'x-token-tenant': 'acme' } });
+
+      const tenantId = await runWithContextAsync({ requestId: 'request-1' }, async () => {
+        await AuthenticationStrategies.authenticate({
+          request,
+          applicationConfig: createTenancyConfig({ resolver: 'jwt' }),
+          strategies: ['tenant-token'],
+        });
+
+        return getTenantId();
+      });
+
+      expect(tenantId).toBe('acme');
+      expect(request.tenantId).toBe('acme');
+    });
+
+    it('should reject tokens without a tenant claim when the tenant is required', async () => {
+      const result = await AuthenticationStrategies.authenticate({
+        request: createRequest({}),
+        applicationConfig: createTenancyConfig({ resolver: 'jwt' }),
+        strategies: ['tenant-token'],
+      });
+
+      expect(result).toMatchObject({
+        success: false,
+        message: 'Token not valid for this tenant.',
+        statusCode: 403,
+        errorType: 'authorization',
+      });
+
+      // Excluded paths are served without a tenant
+      await expect(
+        AuthenticationStrategies.authenticate({
+          request: createRequest({ url: '/admin/queues/emails' }),
+          applicationConfig: createTenancyConfig({ resolver: 'jwt', excludePaths: ['/admin/queues/*'] }),
+          strategies: ['tenant-token'],
+        }),
+      ).resolves.toMatchObject({ success: true });
+    });
+
+    it("should reject tokens of another tenant than the request's", async () => {
+      const request = createRequest({ headers: { 'x-token-tenant': 'globex' } });
+      request.tenantId = 'acme';
+
+      const result = await AuthenticationStrategies.authenticate({
+        request,
+        applicationConfig: createTenancyConfig({ resolver: 'header' }),
+        strategies: ['tenant-token'],
+      });
+
+      expect(result).toMatchObject({ success: false, statusCode: 403 });
+    });
+
+    it('should reject tokens without a tenant claim for a resolved tenant', async () => {
+      const request = createRequest({});
+      request.tenantId = 'acme';
+
+      const result = await AuthenticationStrategies.authenticate({
+        request,
+        applicationConfig: createTenancyConfig({ resolver: 'header' }),
+        strategies: ['tenant-token'],
+      });
+
+      expect(result).toMatchObject({
+        success: false,
+        message: 'Token not valid for this tenant.',
+        statusCode: 403,
+        errorType: 'authorization',
+      });
+    });
+
+    it('should accept tokens without a tenant claim for any tenant with allowUnscopedCredentials', async () => {
+      const request = createRequest({});
+      request.tenantId = 'acme';
+
+      const result = await AuthenticationStrategies.authenticate({
+        request,
+        applicationConfig: createTenancyConfig({ resolver: 'header', allowUnscopedCredentials: true }),
+        strategies: ['tenant-token'],
+      });
+
+      expect(result).toMatchObject({ success: true });
+      expect(request.tenantId).toBe('acme');
+    });
+
+    it('should give unscoped credentials access to tenant data with the jwt resolver and allowUnscopedCredentials', async () => {
+      const tenantRequired = await runWithContextAsync({ requestId: 'request-1' }, async () => {
+        Tenancy.setTenantRequired(true);
+
+        await AuthenticationStrategies.authenticate({
+          request: createRequest({}),
+          applicationConfig: createTenancyConfig({ resolver: 'jwt', allowUnscopedCredentials: true }),
+          strategies: ['tenant-token'],
+        });
+
+        return Tenancy.isTenantRequired();
+      });
+
+      expect(tenantRequired).toBe(false);
+    });
+
+    it('should check the tenant of credentials without claims', async () => {
+      AuthenticationStrategies.registerStrategy({
+        name: 'tenant-key',
+        hasCredentials: () => true,
+        authenticate: async () => ({ success: true, user: { userId: 1, payload: {}, tenantId: 'globex' } }),
+      });
+
+      const request = createRequest({});
+      request.tenantId = 'acme';
+
+      const result = await AuthenticationStrategies.authenticate({
+        request,
+        applicationConfig: createTenancyConfig({ resolver: 'header' }),
+        strategies: ['tenant-key'],
+      });
+
+      expect(result).toMatchObject({ success: false, statusCode: 403 });
+    });
+  });
+
+  it('should throw for unknown strategies', async () => {
+    await expect(
+      AuthenticationStrategies.authenticate({
+        request: createRequest({}),
+        applicationConfig: createConfig(),
+        strategies: ['saml'],
+      }),
+    ).rejects.toThrow('Unknown authentication strategy "saml"');
+  });
+});
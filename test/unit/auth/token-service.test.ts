@@ -0,0 +1,224 @@
+import { generateKeyPairSync } from 'node:crypto';
+import { decodeJwt, decodeProtectedHeader } from 'jose';
+import { describe, expect, it } from 'vitest';
+import type { ApplicationAuthConfig } from '../../../src/application/base-application.interface.js';
+import Jwt from '../../../src/auth/jwt.js';
+import AuthTokenService from '../../../src/auth/token-service.js';
+import { ErrorCode } from '../../../src/error/error.interface.js';
+
+const createRedisInstance = () => {
+  const store = new Map<string, string>();
+
+  const client = {
+    set: async (key: string, value: string) => {
+      store.set(key, value);
+      return 'OK';
+    },
+    del: async (key: string) => (store.delete(key) ? 1 : 0),
+    exists: async (...keys: string[]) => keys.filter(key => store.has(key)).length,
+  };
+
+  return { store, redisInstance: { client } as any };
+};
+
+const createHs256Config = (overrides: Partial<ApplicationAuthConfig> = {}): ApplicationAuthConfig => ({
+  jwtSecretKey: 'dGVzdC1zZWNyZXQta2V5LWZvci10b2tlbnM',
+  ...overrides,
+});
+
+const createEs256Config = (): ApplicationAuthConfig => {
+  const { privateKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+
+  return {
+    algorithm: 'ES256',
+    privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+    issuer: 'https://auth.test',
+    audience: 'api',
+  };
+};
+
+describe('Jwt', () => {
+  it('should parse token lifetimes', () => {
+    expect(Jwt.parseLifetime(900)).toBe(900);
+    expect(Jwt.parseLifetime('15m')).toBe(900);
+    expect(Jwt.parseLifetime('2h')).toBe(7200);
+    expect(Jwt.parseLifetime('30d')).toBe(2_592_000);
+    expect(() => Jwt.parseLifetime('soon')).toThrow('Invalid token lifetime');
+  });
+
+  it('should sign tokens with the configured type and lifetime', async () => {
+    const config = createHs256Config({ accessTokenLifetime: '15m' });
+
+    const token = await Jwt.signToken({ config, payload: { sub: '1' }, type: 'access' });
+    const payload = decodeJwt(token);
+
+    expect(payload).toMatchObject({ sub: '1', typ: 'access', jti: expect.any(String) });
+    expect((payload.exp as number) - (payload.iat as number)).toBe(900);
+  });
+
+  it('should reject refresh tokens used as access tokens', async () => {
+    const config = createHs256Config();
+    const refreshToken = await Jwt.signToken({ config, payload: { sub: '1' }, type: 'refresh' });
+
+    await expect(Jwt.verifyToken({ config, token: refreshToken, type: 'access' })).rejects.toThrow(
+      'Expected access token, got refresh token',
+    );
+    await expect(Jwt.verifyToken({ config, token: refreshToken, type: 'refresh' })).resolves.toMatchObject({
+      sub: '1',
+    });
+  });
+
+  it('should reject tokens without a type unless untyped access tokens are accepted', async () => {
+    const config = createHs256Config();
+    const secretKey = await Jwt.importJwtSecretKey({ jwtSecretKey: config.jwtSecretKey as string });
+
+    // Token pair as issued before token types were introduced
+    const accessToken = await Jwt.generateJwtToken({ secretKey, payload: { sub: '1' }, expirationTime: 24 });
+    const refreshToken = await Jwt.generateJwtToken({ secretKey, payload: { sub: '1' }, expirationTime: 720 });
+
+    await expect(Jwt.verifyToken({ config, token: accessToken })).rejects.toThrow(
+      'Expected access token, got token without type',
+    );
+
+    const legacyConfig = createHs256Config({ acceptUntypedAccessTokens: true });
+
+    await expect(Jwt.verifyToken({ config: legacyConfig, token: accessToken })).resolves.toMatchObject({ sub: '1' });
+    await expect(Jwt.verifyToken({ config: legacyConfig, token: refreshToken })).rejects.toThrow(
+      'Expected access token, got token without type',
+    );
+    await expect(Jwt.verifyToken({ config: legacyConfig, token: accessToken, type: 'refresh' })).rejects.toThrow(
+      'Expected refresh token, got token without type',
+    );
+  });
+
+  it('should generate token pairs with the configured algorithm, issuer and audience', async () => {
+    const config = createEs256Config();
+
+    const tokens = await Jwt.generateJwtTokens({ payload: { sub: '1' }, authConfig: config });
+
+    await expect(Jwt.verifyToken({ config, token: tokens.accessToken })).resolves.toMatchObject({
+      sub: '1',
+      typ: 'access',
+      iss: 'https://auth.test',
+      aud: 'api',
+    });
+    await expect(Jwt.verifyToken({ config, token: tokens.refreshToken, type: 'refresh' })).resolves.toMatchObject({
+      typ: 'refresh',
+    });
+    expect(decodeProtectedHeader(tokens.accessToken).alg).toBe('ES256');
+  });
+
+  it('should sign ES256 tokens verifiable with the published JWKS', async () => {
+    const config = createEs256Config();
+
+    const token = await Jwt.signToken({ config, payload: { sub: '1' }, type: 'access' });
+    const jwks = await Jwt.getJwks(config);
+
+    expect(jwks.keys).toHaveLength(1);
+    expect(jwks.keys[0]).toMatchObject({ kty: 'EC', crv: 'P-256', alg: 'ES256', use: 'sig' });
+    expect(jwks.keys[0]).not.toHaveProperty('d');
+    expect(decodeProtectedHeader(token)).toMatchObject({ alg: 'ES256', kid: jwks.keys[0]?.kid });
+
+    await expect(Jwt.verifyToken({ config, token })).resolves.toMatchObject({ iss: 'https://auth.test', aud: 'api' });
+
+    // Verify-only service configured with the public key
+    const publicKey = generateKeyPairSync('ec', { namedCurve: 'P-256' })
+      .publicKey.export({ type: 'spki', format: 'pem' })
+      .toString();
+
+    await expect(Jwt.verifyToken({ config: { ...config, privateKey: undefined, publicKey }, token })).rejects.toThrow(
+      'Invalid or expired token',
+    );
+  });
+
+  it('should not publish HS256 secrets', async () => {
+    await expect(Jwt.getJwks(createHs256Config())).resolves.toEqual({ keys: [] });
+  });
+});
+
+describe('AuthTokenService', () => {
+  it('should issue tokens in a new family and store the refresh token', async () => {
+    const { store, redisInstance } = createRedisInstance();
+    const tokenService = new AuthTokenService({ authConfig: createHs256Config(), redisInstance });
+
+    const tokens = await tokenService.issueTokens({ payload: { sub: '7', role: 'admin' } });
+
+    const accessPayload = decodeJwt(tokens.accessToken);
+    const refreshPayload = decodeJwt(tokens.refreshToken);
+
+    expect(tokens.type).toBe('Bearer');
+    expect(accessPayload).toMatchObject({ sub: '7', role: 'admin', typ: 'access' });
+    expect(refreshPayload).toMatchObject({ sub: '7', typ: 'refresh', fid: accessPayload.fid });
+    expect(store.get(`auth:refresh:${refreshPayload.jti}`)).toBe(accessPayload.fid);
+  });
+
+  it('should rotate refresh tokens and keep the family', async () => {
+    const { store, redisInstance } = createRedisInstance();
+    const tokenService = new AuthTokenService({ authConfig: createHs256Config(), redisInstance });
+
+    const tokens = await tokenService.issueTokens({ payload: { sub: '7' } });
+    const refreshedTokens = await tokenService.refreshTokens({ refreshToken: tokens.refreshToken });
+
+    const previousPayload = decodeJwt(tokens.refreshToken);
+    const refreshedPayload = decodeJwt(refreshedTokens.refreshToken);
+
+    expect(refreshedPayload.fid).toBe(previousPayload.fid);
+    expect(refreshedPayload.jti).not.toBe(previousPayload.jti);
+    expect(store.has(`auth:refresh:${previousPayload.jti}`)).toBe(false);
+    expect(store.has(`auth:refresh:${refreshedPayload.jti}`)).toBe(true);
+  });
+
+  it('should revoke the family when a refresh token is reused', async () => {
+    const { redisInstance } = createRedisInstance();
+    const tokenService = new AuthTokenService({ authConfig: createHs256Config(), redisInstance });
+
+    const tokens = await tokenService.issueTokens({ payload: { sub: '7' } });
+    const refreshedTokens = await tokenService.refreshTokens({ refreshToken: tokens.refreshToken });
+
+    await expect(tokenService.refreshTokens({ refreshToken: tokens.refreshToken })).rejects.toMatchObject({
+      code: ErrorCode.AUTH_TOKEN_REUSED,
+    });
+
+    // Tokens issued from the same login are no longer accepted
+    await expect(tokenService.verifyAccessToken({ accessToken: refreshedTokens.accessToken })).rejects.toMatchObject({
+      code: ErrorCode.AUTH_TOKEN_REVOKED,
+    });
+    await expect(tokenService.refreshTokens({ refreshToken: refreshedTokens.refreshToken })).rejects.toMatchObject({
+      code: ErrorCode.AUTH_TOKEN_REVOKED,
+    });
+  });
+
+  it('should revoke single access tokens', async () => {
+    const { store, redisInstance } = createRedisInstance();
+    const tokenService = new AuthTokenService({ authConfig: createHs256Config(), redisInstance });
+
+    const tokens = await tokenService.issueTokens({ payload: { sub: '7' } });
+    const otherTokens = await tokenService.issueTokens({ payload: { sub: '7' } });
+
+    await tokenService.revokeToken({ token: tokens.accessToken });
+
+    expect(store.has(`auth:revoked:${decodeJwt(tokens.accessToken).jti}`)).toBe(true);
+    await expect(tokenService.verifyAccessToken({ accessToken: tokens.accessToken })).rejects.toThrow(
+      'Token has been revoked',
+    );
+    await expect(tokenService.verifyAccessToken({ accessToken: otherTokens.accessToken })).resolves.toMatchObject({
+      sub: '7',
+    });
+  });
+
+  it('should skip the denylist when revocation is disabled', async () => {
+    const { redisInstance } = createRedisInstance();
+    const tokenService = new AuthTokenService({
+      authConfig: createHs256Config({ revocation: { enabled: false, keyPrefix: 'tokens:' } }),
+      redisInstance,
+    });
+
+    const tokens = await tokenService.issueTokens({ payload: { sub: '7' } });
+
+    await tokenService.revokeToken({ token: tokens.accessToken });
+
+    await expect(tokenService.verifyAccessToken({ accessToken: tokens.accessToken })).resolves.toMatchObject({
+      sub: '7',
+    });
+  });
+});
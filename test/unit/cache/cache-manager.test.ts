@@ -37,6 +37,16 @@ describe('CacheManager (ioredis unified)', () => {
     expect(mockRedisManager.connect).not.toHaveBeenCalled();
   });
 
+  it('prefixes keys with the tenant of the context when tenant scoped', async () => {
+    const { runWithContextAsync } = await import('../../../dist/request-context/index.js');
+    mockRedisInstance.getCache.mockResolvedValue(null);
+    const manager = new CacheManager({ redisManager: mockRedisManager, tenantScoped: true });
+    await runWithContextAsync({ tenantId: 'acme' }, () => manager.getItem({ key: 'k1' }));
+    await manager.clearItem({ key: 'k1' });
+    expect(mockRedisInstance.getCache).toHaveBeenCalledWith({ key: 'tenant:acme:k1' });
+    expect(mockRedisInstance.deleteCache).toHaveBeenCalledWith({ key: 'k1' });
+  });
+
   it('throws error if JSON parse fails', async () => {
     mockRedisInstance.getCache.mockResolvedValue('plain-string');
     const manager = new CacheManager({ redisManager: mockRedisManager });
@@ -1,5 +1,6 @@
 import { execFileSync } from 'node:child_process';
-import { readFileSync } from 'node:fs';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import os from 'node:os';
 import path from 'node:path';
 import { describe, expect, it } from 'vitest';
 
@@ -22,4 +23,57 @@ describe('PXL CLI', () => {
     expect(out).toContain(pkg.version);
     expect(out).toContain('@scpxl/nodejs-framework');
   });
+
+  it('openapi writes a document generated from route files', () => {
+    const routesDirectory = mkdtempSync(path.join(os.tmpdir(), 'pxl-openapi-'));
+
+    try {
+      writeFileSync(
+        path.join(routesDirectory, 'users.js'),
+        "export default [{ type: 'default', method: 'GET', path: '/users/:id', handler: () => {} }];\n",
+      );
+
+      const out = runCli(['openapi', '--routes', routesDirectory, '--stdout', '--title', 'CLI API']);
+      const document = JSON.parse(out);
+
+      expect(document.openapi).toBe('3.1.0');
+      expect(document.info).toEqual({ title: 'CLI API', version: '1.0.0' });
+      expect(document.paths['/users/{id}'].get.operationId).toBe('getUsersById');
+    } finally {
+      rmSync(routesDirectory, { recursive: true, force: true });
+    }
+  });
+
+  it('generate client writes a typed client generated from route files', () => {
+    const routesDirectory = mkdtempSync(path.join(os.tmpdir(), 'pxl-client-'));
+
+    try {
+      writeFileSync(
+        path.join(routesDirectory, 'users.js'),
+        "export default [{ type: 'default', method: 'GET', path: '/users/:id', handler: () => {} }];\n",
+      );
+
+      const out = runCli(['generate', 'client', '--routes', routesDirectory, '--stdout']);
+
+      expect(out).toContain('export function createApiClient(options: ApiClientOptions)');
+      expect(out).toContain('getUsersById: (input: GetUsersByIdInput, init?: RequestInit)');
+    } finally {
+      rmSync(routesDirectory, { recursive: true, force: true });
+    }
+  });
+
+  it('db commands require a database connection', () => {
+    const bin = path.resolve(__dirname, '../../dist/cli/index.js');
+    const env = { ...process.env, PXL_DB_USERNAME: '', PXL_DB_PASSWORD: '', PXL_DB_NAME: '' };
+
+    try {
+      execFileSync(process.execPath, [bin, 'db:status'], { encoding: 'utf8', env, stdio: 'pipe' });
+      expect.unreachable('db:status should fail without a connection');
+    } catch (err) {
+      const error = err as { status: number; stderr: string };
+
+      expect(error.status).toBe(1);
+      expect(error.stderr).toContain('Database connection incomplete');
+    }
+  });
 });
@@ -0,0 +1,80 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import DatabaseCommands from '../../../src/command/database-commands.js';
+import Migration from '../../../src/database/migration.js';
+import { DatabaseError } from '../../../src/error/framework-errors.js';
+
+vi.mock('../../../src/logger/index.js', () => ({
+  Logger: {
+    custom: vi.fn(),
+  },
+}));
+
+vi.mock('../../../src/database/migration.js', () => ({
+  default: {
+    DEFAULT_SEEDER: 'DatabaseSeeder',
+    migrate: vi.fn().mockResolvedValue([]),
+    rollback: vi.fn().mockResolvedValue([]),
+    getStatus: vi.fn().mockResolvedValue({ executed: [], pending: [] }),
+    createMigration: vi.fn().mockResolvedValue({ fileName: '' }),
+    seed: vi.fn(),
+  },
+}));
+
+describe('DatabaseCommands', () => {
+  const databaseInstance = {} as any;
+
+  const createCommand = (name: keyof typeof DatabaseCommands, database: Record<string, unknown> = {}) =>
+    new DatabaseCommands[name]({
+      applicationConfig: { database } as any,
+      redisInstance: {} as any,
+      queueManager: {} as any,
+      databaseInstance,
+    });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should name every command after its key', () => {
+    for (const name of Object.keys(DatabaseCommands) as (keyof typeof DatabaseCommands)[]) {
+      expect(createCommand(name).name).toBe(name);
+    }
+  });
+
+  it('should pass the target migration as a string', async () => {
+    await createCommand('db:migrate').run({ to: 20261001000000 });
+
+    expect(Migration.migrate).toHaveBeenCalledWith({ databaseInstance, to: '20261001000000' });
+  });
+
+  it('should revert all migrations with --to 0', async () => {
+    await createCommand('db:rollback').run({ to: 0 });
+    await createCommand('db:rollback').run({ steps: 2 });
+
+    expect(vi.mocked(Migration.rollback).mock.calls).toEqual([
+      [{ databaseInstance, to: 0, steps: undefined }],
+      [{ databaseInstance, to: undefined, steps: 2 }],
+    ]);
+  });
+
+  it('should run the configured default seeder or the given ones', async () => {
+    await createCommand('db:seed', { seeders: { defaultSeeder: 'DemoSeeder' } }).run({});
+    await createCommand('db:seed').run({ class: ['UserSeeder', 'OrderSeeder'] });
+
+    expect(vi.mocked(Migration.seed).mock.calls).toEqual([
+      [{ databaseInstance, seeders: ['DemoSeeder'] }],
+      [{ databaseInstance, seeders: ['UserSeeder', 'OrderSeeder'] }],
+    ]);
+  });
+
+  it('should throw when the database is not enabled', async () => {
+    const command = new DatabaseCommands['db:status']({
+      applicationConfig: {} as any,
+      redisInstance: {} as any,
+      queueManager: {} as any,
+      databaseInstance: null as any,
+    });
+
+    await expect(command.run()).rejects.toBeInstanceOf(DatabaseError);
+  });
+});
@@ -0,0 +1,166 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import QueueCommands from '../../../src/command/queue-commands.js';
+import { Logger } from '../../../src/logger/index.js';
+
+vi.mock('../../../src/logger/index.js', () => ({
+  Logger: {
+    custom: vi.fn(),
+  },
+}));
+
+describe('QueueCommands', () => {
+  const schedule = { id: 'daily-report', queue: 'reports', jobName: 'daily-report', cron: '0 3 * * *', paused: true };
+
+  const queueManager = {
+    listSchedules: vi.fn().mockResolvedValue([schedule]),
+    pauseSchedule: vi.fn().mockResolvedValue(schedule),
+    resumeSchedule: vi.fn().mockResolvedValue({ ...schedule, paused: false }),
+    triggerSchedule: vi.fn().mockResolvedValue({ id: 'job-1' }),
+    listDeadLetters: vi.fn().mockResolvedValue({ entries: [], total: 0 }),
+    replayDeadLetter: vi.fn().mockResolvedValue({ id: 'job-2' }),
+    purgeDeadLetters: vi.fn().mockResolvedValue(3),
+    listQueues: vi.fn().mockResolvedValue([]),
+    getQueueInfo: vi.fn().mockResolvedValue({ id: 'emails', paused: false, counts: { waiting: 2, failed: 0 } }),
+    listJobs: vi.fn().mockResolvedValue({ jobs: [], total: 0 }),
+    retryJob: vi.fn(),
+    drainQueue: vi.fn(),
+    cleanQueue: vi.fn().mockResolvedValue(['1', '2']),
+  };
+
+  const createCommand = (name: keyof typeof QueueCommands) =>
+    new QueueCommands[name]({
+      applicationConfig: {} as any,
+      redisInstance: {} as any,
+      queueManager: queueManager as any,
+      databaseInstance: {} as any,
+    });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should name every command after its key', () => {
+    for (const name of Object.keys(QueueCommands) as (keyof typeof QueueCommands)[]) {
+      expect(createCommand(name).name).toBe(name);
+    }
+  });
+
+  it('should list the schedules of a queue', async () => {
+    await createCommand('queue:schedules').run({ queue: 'reports' });
+
+    expect(queueManager.listSchedules).toHaveBeenCalledWith({ queueId: 'reports' });
+    expect(Logger.custom).toHaveBeenCalledWith({
+      level: 'command',
+      message: 'Schedule',
+      meta: {
+        Command: 'queue:schedules',
+        Queue: 'reports',
+        Schedule: 'daily-report',
+        Job: 'daily-report',
+        Cron: '0 3 * * *',
+        Paused: true,
+      },
+    });
+  });
+
+  it('should pause, resume and trigger schedules', async () => {
+    const argv = { queue: 'reports', schedule: 'daily-report' };
+
+    await createCommand('queue:schedule:pause').run(argv);
+    await createCommand('queue:schedule:resume').run(argv);
+    await createCommand('queue:schedule:trigger').run(argv);
+
+    const params = { queueId: 'reports', scheduleId: 'daily-report' };
+
+    expect(queueManager.pauseSchedule).toHaveBeenCalledWith(params);
+    expect(queueManager.resumeSchedule).toHaveBeenCalledWith(params);
+    expect(queueManager.triggerSchedule).toHaveBeenCalledWith(params);
+  });
+
+  it('should require the queue and schedule', async () => {
+    await expect(createCommand('queue:schedule:trigger').run({ queue: 'reports' })).rejects.toMatchObject({
+      name: 'QueueError',
+      message: 'Queue and schedule are required (--queue <name> --schedule <id>)',
+    });
+  });
+
+  it('should list, replay and purge dead-letter entries', async () => {
+    await createCommand('queue:dlq:list').run({ queue: 'emails', offset: 20, limit: 10 });
+    await createCommand('queue:dlq:replay').run({ queue: 'emails', entry: 7, payload: '{"to":"user@example.com"}' });
+    await createCommand('queue:dlq:purge').run({ queue: 'emails' });
+
+    expect(queueManager.listDeadLetters).toHaveBeenCalledWith({ queueId: 'emails', offset: 20, limit: 10 });
+    expect(queueManager.replayDeadLetter).toHaveBeenCalledWith({
+      queueId: 'emails',
+      entryId: '7',
+      payload: { to: 'user@example.com' },
+    });
+    expect(queueManager.purgeDeadLetters).toHaveBeenCalledWith({ queueId: 'emails', entryId: undefined });
+    expect(Logger.custom).toHaveBeenLastCalledWith({
+      level: 'command',
+      message: 'Dead-letter entries purged',
+      meta: { Command: 'queue:dlq:purge', Queue: 'emails', Count: 3 },
+    });
+  });
+
+  it('should reject replayed payloads that are not JSON objects', async () => {
+    await expect(
+      createCommand('queue:dlq:replay').run({ queue: 'emails', entry: '7', payload: '[1]' }),
+    ).rejects.toMatchObject({ name: 'ValidationError', message: 'Payload must be a JSON object' });
+    await expect(createCommand('queue:dlq:inspect').run({ queue: 'emails' })).rejects.toMatchObject({
+      message: 'Queue and entry are required (--queue <name> --entry <id>)',
+    });
+
+    expect(queueManager.replayDeadLetter).not.toHaveBeenCalled();
+  });
+
+  it('should show the job counts of a queue', async () => {
+    await createCommand('queue:list').run({ queue: 'emails' });
+
+    expect(queueManager.getQueueInfo).toHaveBeenCalledWith({ queueId: 'emails' });
+    expect(queueManager.listQueues).not.toHaveBeenCalled();
+    expect(Logger.custom).toHaveBeenCalledWith({
+      level: 'command',
+      message: 'Queue',
+      meta: { Command: 'queue:list', Queue: 'emails', Paused: false, waiting: 2 },
+    });
+  });
+
+  it('should list jobs, retry jobs, and drain and clean queues', async () => {
+    await createCommand('queue:jobs').run({ queue: 'emails', state: 'failed', offset: 20, limit: 10 });
+    await createCommand('queue:job:retry').run({ queue: 'emails', job: 7 });
+    await createCommand('queue:drain').run({ queue: 'emails', delayed: true });
+    await createCommand('queue:clean').run({ queue: 'emails', state: 'completed', olderThan: 3600 });
+
+    expect(queueManager.listJobs).toHaveBeenCalledWith({ queueId: 'emails', state: 'failed', offset: 20, limit: 10 });
+    expect(queueManager.retryJob).toHaveBeenCalledWith({ queueId: 'emails', jobId: '7' });
+    expect(queueManager.drainQueue).toHaveBeenCalledWith({ queueId: 'emails', delayed: true });
+    expect(queueManager.cleanQueue).toHaveBeenCalledWith({
+      queueId: 'emails',
+      state: 'completed',
+      olderThanSeconds: 3600,
+      limit: undefined,
+    });
+    expect(Logger.custom).toHaveBeenLastCalledWith({
+      level: 'command',
+      message: 'Queue cleaned',
+      meta: { Command: 'queue:clean', Queue: 'emails', State: 'completed', 'Job Count': 2 },
+    });
+  });
+
+  it('should validate job states and ages', async () => {
+    await expect(createCommand('queue:jobs').run({ queue: 'emails', state: 'stuck' })).rejects.toMatchObject({
+      name: 'ValidationError',
+      message: expect.stringMatching(/^State must be one of: waiting, active/),
+    });
+    await expect(createCommand('queue:clean').run({ queue: 'emails', state: 'completed' })).rejects.toMatchObject({
+      message: 'Age is required (--older-than <seconds>)',
+    });
+    await expect(createCommand('queue:job:remove').run({ queue: 'emails' })).rejects.toMatchObject({
+      message: 'Queue and job are required (--queue <name> --job <id>)',
+    });
+
+    expect(queueManager.listJobs).not.toHaveBeenCalled();
+    expect(queueManager.cleanQueue).not.toHaveBeenCalled();
+  });
+});
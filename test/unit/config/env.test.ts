@@ -20,7 +20,13 @@ const ENV_KEYS = [
   'PXL_WEB_BODY_LIMIT',
   'PXL_WEB_CORS_ENABLED',
   'PXL_WEB_CORS_URLS',
+  'PXL_WEB_CURSOR_SECRET',
   'PXL_AUTH_JWT_SECRET_KEY',
+  'PXL_AUTH_ALGORITHM',
+  'PXL_AUTH_PRIVATE_KEY',
+  'PXL_AUTH_PUBLIC_KEY',
+  'PXL_AUTH_ACCESS_TOKEN_LIFETIME',
+  'PXL_AUTH_REFRESH_TOKEN_LIFETIME',
   'PXL_CLUSTER_ENABLED',
   'PXL_CLUSTER_WORKERS',
   'PXL_PERF_ENABLED',
@@ -74,6 +80,7 @@ describe('loadFrameworkConfigFromEnv', () => {
       PXL_WEB_BODY_LIMIT: '1048576',
       PXL_WEB_CORS_ENABLED: '1',
       PXL_WEB_CORS_URLS: 'https://app.test, https://admin.test',
+      PXL_WEB_CURSOR_SECRET: 'cursor-secret-for-tests',
       PXL_AUTH_JWT_SECRET_KEY: 'super-secret',
       PXL_CLUSTER_ENABLED: 'false',
       PXL_CLUSTER_WORKERS: '4',
@@ -116,6 +123,7 @@ describe('loadFrameworkConfigFromEnv', () => {
           enabled: true,
           urls: ['https://app.test', 'https://admin.test'],
         },
+        pagination: { cursorSecret: 'cursor-secret-for-tests' },
       },
       auth: {
         jwtSecretKey: 'super-secret',
@@ -0,0 +1,142 @@
+import { ChangeSetType } from '@mikro-orm/core';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import AuditSubscriber from '../../../src/database/audit-subscriber.js';
+import { runWithContextAsync } from '../../../src/request-context/index.js';
+
+const customerMeta = {
+  className: 'Customer',
+  properties: {
+    id: { name: 'id' },
+    name: { name: 'name' },
+    apiToken: { name: 'apiToken', hidden: true },
+    password: { name: 'password' },
+  },
+};
+
+const createEntity = (id: number) => ({ id, __helper: { getSerializedPrimaryKey: () => String(id) } });
+
+const createUnitOfWork = (changeSets: unknown[], originals = new Map<object, Record<string, unknown>>()) =>
+  ({
+    getChangeSets: () => changeSets,
+    getOriginalEntityData: (entity: object) => originals.get(entity),
+  }) as any;
+
+describe('AuditSubscriber', () => {
+  const store = { write: vi.fn() };
+  const em = { name: 'em' } as any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should record creates, updates and deletes with the request context', async () => {
+    const created = createEntity(1);
+    const updated = createEntity(2);
+    const deleted = createEntity(3);
+
+    const uow = createUnitOfWork(
+      [
+        { type: ChangeSetType.CREATE, entity: created, meta: customerMeta, payload: { name: 'Ada' } },
+        {
+          type: ChangeSetType.UPDATE,
+          entity: updated,
+          meta: customerMeta,
+          payload: { name: 'Grace' },
+          originalEntity: { id: 2, name: 'Hopper' },
+        },
+        { type: ChangeSetType.DELETE, entity: deleted, meta: customerMeta, payload: {} },
+      ],
+      new Map([[deleted, { id: 3, name: 'Alan' }]]),
+    );
+
+    const subscriber = new AuditSubscriber({ store });
+
+    await runWithContextAsync({ requestId: 'req-1', userId: 'user-1' }, async () => {
+      subscriber.onFlush({ em, uow } as any);
+      await subscriber.afterFlush({ em, uow } as any);
+    });
+
+    expect(store.write).toHaveBeenCalledTimes(1);
+
+    const [entries, context] = store.write.mock.calls[0] ?? [];
+
+    expect(context).toEqual({ entityManager: em });
+    expect(entries).toEqual([
+      {
+        action: 'create',
+        entityName: 'Customer',
+        entityId: '1',
+        actorId: 'user-1',
+        requestId: 'req-1',
+        changes: { name: { before: null, after: 'Ada' } },
+        timestamp: expect.any(Date),
+      },
+      expect.objectContaining({
+        action: 'update',
+        entityId: '2',
+        changes: { name: { before: 'Hopper', after: 'Grace' } },
+      }),
+      expect.objectContaining({
+        action: 'delete',
+        entityId: '3',
+        changes: { id: { before: 3, after: null }, name: { before: 'Alan', after: null } },
+      }),
+    ]);
+  });
+
+  it('should redact configured and hidden fields', async () => {
+    const uow = createUnitOfWork([
+      {
+        type: ChangeSetType.UPDATE,
+        entity: createEntity(1),
+        meta: customerMeta,
+        payload: { password: 'new', apiToken: null },
+        originalEntity: { password: 'old', apiToken: 'secret' },
+      },
+    ]);
+
+    const subscriber = new AuditSubscriber({ store, redact: ['PASSWORD'] });
+
+    subscriber.onFlush({ em, uow } as any);
+    await subscriber.afterFlush({ em, uow } as any);
+
+    expect(store.write.mock.calls[0]?.[0][0].changes).toEqual({
+      password: { before: '[REDACTED]', after: '[REDACTED]' },
+      apiToken: { before: '[REDACTED]', after: null },
+    });
+  });
+
+  it('should skip excluded entities, pivot tables and the audit log itself', async () => {
+    const uow = createUnitOfWork([
+      { type: ChangeSetType.CREATE, entity: createEntity(1), meta: { className: 'Session' }, payload: { a: 1 } },
+      { type: ChangeSetType.CREATE, entity: createEntity(2), meta: { className: 'AuditLog' }, payload: { a: 1 } },
+      {
+        type: ChangeSetType.CREATE,
+        entity: createEntity(3),
+        meta: { className: 'PostTags', pivotTable: true },
+        payload: { a: 1 },
+      },
+    ]);
+
+    const subscriber = new AuditSubscriber({ store, exclude: ['Session'] });
+
+    subscriber.onFlush({ em, uow } as any);
+    await subscriber.afterFlush({ em, uow } as any);
+
+    expect(store.write).not.toHaveBeenCalled();
+  });
+
+  it('should propagate store errors', async () => {
+    store.write.mockRejectedValueOnce(new Error('insert failed'));
+
+    const uow = createUnitOfWork([
+      { type: ChangeSetType.CREATE, entity: createEntity(1), meta: customerMeta, payload: { name: 'Ada' } },
+    ]);
+
+    const subscriber = new AuditSubscriber({ store });
+
+    subscriber.onFlush({ em, uow } as any);
+
+    await expect(subscriber.afterFlush({ em, uow } as any)).rejects.toThrow('insert failed');
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it, vi } from 'vitest';
+import Audit from '../../../src/database/audit.js';
+import { ConfigurationError, DatabaseError } from '../../../src/error/framework-errors.js';
+
+const entry = {
+  action: 'update' as const,
+  entityName: 'Customer',
+  entityId: '1',
+  actorId: 'user-1',
+  changes: { name: { before: 'Ada', after: 'Grace' } },
+  timestamp: new Date('2026-10-01T00:00:00Z'),
+};
+
+describe('Audit', () => {
+  it('should insert entries with the flushing entity manager', async () => {
+    const entityManager = { insertMany: vi.fn() } as any;
+
+    await Audit.createDatabaseAuditStore().write(
+      [{ ...entry, timestamp: '2026-10-01T00:00:00.000Z' as unknown as Date }],
+      { entityManager },
+    );
+
+    expect(entityManager.insertMany).toHaveBeenCalledWith(Audit.AuditLogSchema, [{ ...entry, requestId: null }]);
+  });
+
+  it('should query entries newest first', async () => {
+    const entityManager = { find: vi.fn().mockResolvedValue([{ id: 4, ...entry }]) } as any;
+    const from = new Date('2026-09-01T00:00:00Z');
+
+    const entries = await Audit.findAuditEntries({
+      store: Audit.createDatabaseAuditStore(),
+      entityManager,
+      query: { entityName: 'Customer', entityId: 1, from, limit: 10 },
+    });
+
+    expect(entityManager.find).toHaveBeenCalledWith(
+      Audit.AuditLogSchema,
+      { entityName: 'Customer', entityId: '1', timestamp: { $gte: from } },
+      { orderBy: { timestamp: 'desc', id: 'desc' }, limit: 10, offset: undefined, disableIdentityMap: true },
+    );
+    expect(entries).toEqual([{ id: 4, ...entry, requestId: null }]);
+  });
+
+  it('should reject queries on stores without find', async () => {
+    expect(() => Audit.findAuditEntries({ store: { write: vi.fn() }, entityManager: {} as any, query: {} })).toThrow(
+      DatabaseError,
+    );
+  });
+
+  it('should enqueue entries with the queue store', async () => {
+    const queueManager = { addJobToQueue: vi.fn() } as any;
+    const store = Audit.getAuditStore({
+      config: { enabled: true, store: 'queue', queue: { queueId: 'audit', jobId: 'write-audit-entries' } },
+      getQueueManager: () => queueManager,
+    });
+
+    await store.write([entry], { entityManager: {} as any });
+
+    expect(queueManager.addJobToQueue).toHaveBeenCalledWith({
+      queueId: 'audit',
+      jobId: 'write-audit-entries',
+      data: { payload: { entries: [entry] } },
+    });
+  });
+
+  it('should resolve the configured store', () => {
+    const custom = { write: vi.fn() };
+    const getQueueManager = () => undefined;
+
+    expect(Audit.getAuditStore({ config: { enabled: true, store: custom }, getQueueManager })).toBe(custom);
+    expect(Audit.getAuditStore({ config: { enabled: true }, getQueueManager }).find).toBeTypeOf('function');
+    expect(() => Audit.getAuditStore({ config: { enabled: true, store: 'queue' }, getQueueManager })).toThrow(
+      ConfigurationError,
+    );
+  });
+});
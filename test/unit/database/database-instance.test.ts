@@ -3,6 +3,8 @@ import { beforeEach, describe, expect, it, vi } from 'vitest';
 import type { ApplicationConfig } from '../../../src/application/base-application.interface.js';
 import DatabaseInstance from '../../../src/database/instance.js';
 import type DatabaseManager from '../../../src/database/manager.js';
+import { DatabaseError } from '../../../src/error/framework-errors.js';
+import { runWithContextAsync } from '../../../src/request-context/index.js';
 
 describe('DatabaseInstance', () => {
   let databaseInstance: DatabaseInstance;
@@ -195,7 +197,95 @@ describe('DatabaseInstance', () => {
 
       await databaseInstance.withTransaction(callback);
 
-      expect(callback).toHaveBeenCalledWith(mockEntityManager);
+      expect(callback).toHaveBeenCalledWith(mockEntityManager, { outbox: expect.any(Object) });
+    });
+
+    it('should pass an outbox writer bound to the transactional entity manager', async () => {
+      mockEntityManager.create = vi.fn((_schema, data) => data);
+      mockEntityManager.persist = vi.fn();
+
+      await databaseInstance.withTransaction(async (_em, { outbox }) => {
+        outbox.emitEvent({ name: 'orderPlaced', data: { orderId: 1 } });
+      });
+
+      expect(mockEntityManager.persist).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'event', payload: { name: 'orderPlaced', data: { orderId: 1 } } }),
+      );
+    });
+  });
+
+  describe('connections', () => {
+    let analyticsEntityManager: EntityManager;
+    let analyticsOrm: MikroORM;
+
+    beforeEach(() => {
+      analyticsEntityManager = {
+        fork: vi.fn().mockReturnThis(),
+        clear: vi.fn(),
+        transactional: vi.fn(async callback => callback(analyticsEntityManager)),
+      } as unknown as EntityManager;
+
+      analyticsOrm = {
+        isConnected: vi.fn().mockResolvedValue(false),
+        close: vi.fn().mockResolvedValue(undefined),
+        em: analyticsEntityManager,
+      } as unknown as MikroORM;
+
+      databaseInstance = new DatabaseInstance({
+        databaseManager: mockDatabaseManager,
+        applicationConfig: mockApplicationConfig,
+        orm: mockOrm,
+        connections: new Map([['analytics', analyticsOrm]]),
+      });
+    });
+
+    it('should list the default and named connections', () => {
+      expect(databaseInstance.getConnectionNames()).toEqual(['default', 'analytics']);
+    });
+
+    it('should use the named connection', async () => {
+      await expect(databaseInstance.isConnected('analytics')).resolves.toBe(false);
+      await expect(databaseInstance.isConnected('default')).resolves.toBe(true);
+
+      await databaseInstance.withEntityManager(async () => undefined, { connection: 'analytics' });
+      await databaseInstance.withTransaction(async () => undefined, { connection: 'analytics' });
+
+      expect(analyticsEntityManager.fork).toHaveBeenCalledTimes(2);
+      expect(analyticsEntityManager.transactional).toHaveBeenCalled();
+      expect(mockEntityManager.fork).not.toHaveBeenCalled();
+    });
+
+    it('should throw for unknown connections', () => {
+      expect(() => databaseInstance.getEntityManager({ connection: 'reporting' })).toThrow(DatabaseError);
+      expect(() => databaseInstance.getEntityManager({ connection: 'reporting' })).toThrow(
+        'Database connection not found (Connection: reporting)',
+      );
+    });
+
+    it('should close all connections on disconnect', async () => {
+      await databaseInstance.disconnect();
+
+      expect(mockOrm.close).toHaveBeenCalled();
+      expect(analyticsOrm.close).toHaveBeenCalled();
+    });
+  });
+
+  describe('getReadConnectionType', () => {
+    it('should read from replicas unless the primary is forced', () => {
+      expect(databaseInstance.getReadConnectionType()).toBe('read');
+      expect(databaseInstance.getReadConnectionType({ forcePrimary: true })).toBe('write');
+    });
+
+    it('should read from the primary for the rest of the context after forcePrimary()', async () => {
+      await runWithContextAsync({}, async () => {
+        expect(databaseInstance.getReadConnectionType()).toBe('read');
+
+        databaseInstance.forcePrimary();
+
+        expect(databaseInstance.getReadConnectionType()).toBe('write');
+      });
+
+      expect(databaseInstance.getReadConnectionType()).toBe('read');
     });
   });
 });
@@ -1,12 +1,21 @@
-import { MikroORM } from '@mikro-orm/postgresql';
+import { Migrator } from '@mikro-orm/migrations';
+import { PostgreSqlDriver } from '@mikro-orm/postgresql';
+import { SeedManager } from '@mikro-orm/seeder';
+import { MikroORM, NodeSqliteDialect, SqliteDriver } from '@mikro-orm/sql';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
+import Audit from '../../../src/database/audit.js';
+import AuditSubscriber from '../../../src/database/audit-subscriber.js';
 import DatabaseInstance from '../../../src/database/instance.js';
 import type { ApplicationDatabaseOptions } from '../../../src/database/manager.interface.js';
 import DatabaseManager from '../../../src/database/manager.js';
+import Outbox from '../../../src/database/outbox.js';
 import { Logger } from '../../../src/logger/index.js';
 
 // Mock dependencies
-vi.mock('@mikro-orm/postgresql');
+vi.mock('@mikro-orm/sql', async importOriginal => ({
+  ...(await importOriginal<typeof import('@mikro-orm/sql')>()),
+  MikroORM: { init: vi.fn() },
+}));
 vi.mock('../../../src/database/instance.js', () => ({
   default: vi.fn(),
 }));
@@ -85,15 +94,174 @@ describe('DatabaseManager', () => {
 
       const result = await databaseManager.connect();
 
-      expect(mockMikroORM.init).toHaveBeenCalled();
+      expect(mockMikroORM.init).toHaveBeenCalledWith(
+        expect.objectContaining({
+          filters: { softDelete: expect.objectContaining({ name: 'softDelete', default: true }) },
+        }),
+      );
       expect(MockDatabaseInstance).toHaveBeenCalledWith({
         databaseManager,
         applicationConfig: mockOptions.applicationConfig,
         orm: mockOrm,
+        connections: new Map(),
       });
       expect(result).toMatchObject(mockInstance);
     });
 
+    it('should register the audit subscriber and log table when auditing is enabled', async () => {
+      const mockOrm = { em: { fork: vi.fn() }, close: vi.fn() };
+
+      mockMikroORM.init.mockResolvedValue(mockOrm as any);
+
+      databaseManager = new DatabaseManager({ ...mockOptions, audit: { enabled: true, redact: ['password'] } });
+
+      await databaseManager.connect();
+
+      expect(mockMikroORM.init).toHaveBeenCalledWith(
+        expect.objectContaining({
+          entities: ['/test/entities', Audit.AuditLogSchema],
+          subscribers: [expect.any(AuditSubscriber)],
+        }),
+      );
+      expect(MockDatabaseInstance).toHaveBeenCalledWith(
+        expect.objectContaining({ auditStore: expect.objectContaining({ write: expect.any(Function) }) }),
+      );
+    });
+
+    it('should register the outbox table when the outbox is enabled', async () => {
+      mockMikroORM.init.mockResolvedValue({ em: { fork: vi.fn() }, close: vi.fn() } as any);
+
+      databaseManager = new DatabaseManager({ ...mockOptions, outbox: { enabled: true } });
+
+      await databaseManager.connect();
+
+      expect(mockMikroORM.init).toHaveBeenCalledWith(
+        expect.objectContaining({ entities: ['/test/entities', Outbox.OutboxMessageSchema], subscribers: [] }),
+      );
+    });
+
+    it('should register the migrator and seeder with the configured directories', async () => {
+      mockMikroORM.init.mockResolvedValue({ em: { fork: vi.fn() }, close: vi.fn() } as any);
+
+      databaseManager = new DatabaseManager({
+        ...mockOptions,
+        migrations: { directory: '/test/migrations', tableName: 'schema_migrations' },
+        seeders: { directory: '/test/seeders', defaultSeeder: 'DemoSeeder' },
+      });
+
+      await databaseManager.connect();
+
+      expect(mockMikroORM.init).toHaveBeenCalledWith(
+        expect.objectContaining({
+          extensions: [Migrator, SeedManager],
+          migrations: { path: '/test/migrations', tableName: 'schema_migrations' },
+          seeder: { path: '/test/seeders', defaultSeeder: 'DemoSeeder' },
+        }),
+      );
+    });
+
+    it('should use the postgresql driver by default', async () => {
+      mockMikroORM.init.mockResolvedValue({ em: { fork: vi.fn() }, close: vi.fn() } as any);
+
+      await databaseManager.connect();
+
+      expect(mockMikroORM.init).toHaveBeenCalledWith(
+        expect.objectContaining({ driver: PostgreSqlDriver, host: 'localhost', port: 5432, dbName: 'testdb' }),
+      );
+    });
+
+    it('should connect to SQLite without host and credentials', async () => {
+      mockMikroORM.init.mockResolvedValue({ em: { fork: vi.fn() }, close: vi.fn() } as any);
+
+      databaseManager = new DatabaseManager({
+        applicationConfig: mockOptions.applicationConfig,
+        driver: 'sqlite',
+        databaseName: ':memory:',
+        entitiesDirectory: '/test/entities',
+      });
+
+      await databaseManager.connect();
+
+      expect(mockMikroORM.init).toHaveBeenCalledWith(
+        expect.objectContaining({
+          driver: SqliteDriver,
+          driverOptions: expect.any(NodeSqliteDialect),
+          host: undefined,
+          port: undefined,
+          dbName: ':memory:',
+        }),
+      );
+    });
+
+    it('should configure read replicas and named connections', async () => {
+      const mockOrm = { em: { fork: vi.fn() }, close: vi.fn() };
+      const mockAnalyticsOrm = { em: { fork: vi.fn() }, close: vi.fn() };
+
+      mockMikroORM.init.mockResolvedValueOnce(mockOrm as any).mockResolvedValueOnce(mockAnalyticsOrm as any);
+
+      databaseManager = new DatabaseManager({
+        ...mockOptions,
+        replicas: [{ host: 'replica-1' }, { host: 'replica-2', port: 5433, username: 'reader', password: 'secret' }],
+        connections: {
+          analytics: {
+            host: 'analytics',
+            port: 5432,
+            username: 'analytics',
+            password: 'analytics',
+            databaseName: 'analytics',
+            entitiesDirectory: '/test/analytics-entities',
+          },
+        },
+      });
+
+      await databaseManager.connect();
+
+      expect(mockMikroORM.init).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({
+          host: 'localhost',
+          preferReadReplicas: false,
+          replicas: [
+            { name: 'read-1', host: 'replica-1', port: 5432, user: 'testuser', password: 'testpass' },
+            { name: 'read-2', host: 'replica-2', port: 5433, user: 'reader', password: 'secret' },
+          ],
+        }),
+      );
+      expect(mockMikroORM.init).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({
+          name: 'analytics',
+          host: 'analytics',
+          dbName: 'analytics',
+          entities: ['/test/analytics-entities'],
+          replicas: undefined,
+        }),
+      );
+      expect(MockDatabaseInstance).toHaveBeenCalledWith(
+        expect.objectContaining({ orm: mockOrm, connections: new Map([['analytics', mockAnalyticsOrm]]) }),
+      );
+    });
+
+    it('should close opened connections when a later connection fails', async () => {
+      const mockOrm = { em: { fork: vi.fn() }, close: vi.fn().mockResolvedValue(undefined) };
+      const mockAnalyticsOrm = { em: { fork: vi.fn() }, close: vi.fn().mockResolvedValue(undefined) };
+      const connection = { host: 'h', port: 5432, username: 'u', password: 'p', databaseName: 'd' };
+
+      mockMikroORM.init
+        .mockResolvedValueOnce(mockOrm as any)
+        .mockResolvedValueOnce(mockAnalyticsOrm as any)
+        .mockRejectedValueOnce(new Error('Connection failed'));
+
+      databaseManager = new DatabaseManager({
+        ...mockOptions,
+        connections: { analytics: connection, reporting: connection },
+      });
+
+      await expect(databaseManager.connect()).rejects.toThrow('Connection failed');
+      expect(mockOrm.close).toHaveBeenCalled();
+      expect(mockAnalyticsOrm.close).toHaveBeenCalled();
+    });
+
     it('should track multiple instances', async () => {
       const mockOrm1 = { em: { fork: vi.fn() }, close: vi.fn() };
       const mockOrm2 = { em: { fork: vi.fn() }, close: vi.fn() };
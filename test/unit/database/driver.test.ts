@@ -0,0 +1,38 @@
+import { PostgreSqlDriver } from '@mikro-orm/postgresql';
+import { NodeSqliteDialect, SqliteDriver } from '@mikro-orm/sql';
+import { describe, expect, it } from 'vitest';
+import Driver from '../../../src/database/driver.js';
+import { ConfigurationError } from '../../../src/error/framework-errors.js';
+
+describe('Driver', () => {
+  it('should default to the postgresql driver', async () => {
+    await expect(Driver.getDriverConfig({ databaseName: 'app' })).resolves.toEqual({ driver: PostgreSqlDriver });
+    await expect(
+      Driver.getDriverConfig({ driver: 'postgresql', databaseName: 'app', driverOptions: { max: 20 } }),
+    ).resolves.toEqual({ driver: PostgreSqlDriver, driverOptions: { max: 20 } });
+  });
+
+  it('should run SQLite on node:sqlite', async () => {
+    const { driver, driverOptions } = await Driver.getDriverConfig({ driver: 'sqlite', databaseName: ':memory:' });
+
+    expect(driver).toBe(SqliteDriver);
+    expect(driverOptions).toBeInstanceOf(NodeSqliteDialect);
+  });
+
+  it('should throw when the driver package is not installed', async () => {
+    const error = await Driver.getDriverConfig({ driver: 'mysql', databaseName: 'app' }).catch(err => err);
+
+    expect(error).toBeInstanceOf(ConfigurationError);
+    expect(error.message).toBe('Database driver package not installed (Driver: mysql, Package: @mikro-orm/mysql)');
+  });
+
+  it('should know the default ports of the server drivers', () => {
+    expect(Driver.getDefaultPort()).toBe(5432);
+    expect(Driver.getDefaultPort('mysql')).toBe(3306);
+    expect(Driver.getDefaultPort('mariadb')).toBe(3306);
+    expect(Driver.getDefaultPort('sqlite')).toBeUndefined();
+
+    expect(Driver.isServerDriver()).toBe(true);
+    expect(Driver.isServerDriver('libsql')).toBe(false);
+  });
+});
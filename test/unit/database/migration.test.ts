@@ -0,0 +1,126 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import Migration from '../../../src/database/migration.js';
+
+vi.mock('../../../src/logger/index.js', () => ({
+  Logger: {
+    custom: vi.fn(),
+  },
+}));
+
+describe('Migration', () => {
+  const migrator = {
+    up: vi.fn(),
+    down: vi.fn(),
+    getExecuted: vi.fn(),
+    getPending: vi.fn(),
+    create: vi.fn(),
+  };
+  const seeder = { seedString: vi.fn() };
+  const databaseInstance = {
+    getMigrator: () => migrator,
+    getSeeder: () => seeder,
+  } as any;
+  const redisInstance = {
+    client: { set: vi.fn(), eval: vi.fn() },
+  } as any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    migrator.up.mockResolvedValue([{ name: 'Migration20261001000000' }]);
+    redisInstance.client.eval.mockResolvedValue(1);
+  });
+
+  it('should run pending migrations', async () => {
+    await expect(Migration.migrate({ databaseInstance })).resolves.toEqual([{ name: 'Migration20261001000000' }]);
+    expect(migrator.up).toHaveBeenCalledWith(undefined);
+
+    await Migration.migrate({ databaseInstance, to: 'Migration20261001000000' });
+    expect(migrator.up).toHaveBeenLastCalledWith({ to: 'Migration20261001000000' });
+  });
+
+  it('should revert the given number of migrations', async () => {
+    migrator.down
+      .mockResolvedValueOnce([{ name: 'Migration20261002000000' }])
+      .mockResolvedValueOnce([{ name: 'Migration20261001000000' }])
+      .mockResolvedValueOnce([]);
+
+    const reverted = await Migration.rollback({ databaseInstance, steps: 5 });
+
+    expect(reverted.map(migration => migration.name)).toEqual(['Migration20261002000000', 'Migration20261001000000']);
+    expect(migrator.down).toHaveBeenCalledTimes(3);
+  });
+
+  it('should revert migrations after the given one', async () => {
+    migrator.down.mockResolvedValue([]);
+
+    await Migration.rollback({ databaseInstance, to: 0 });
+
+    expect(migrator.down).toHaveBeenCalledTimes(1);
+    expect(migrator.down).toHaveBeenCalledWith({ to: 0 });
+  });
+
+  it('should return executed and pending migrations', async () => {
+    const executed = [{ id: 1, name: 'Migration20261001000000', executed_at: new Date() }];
+    const pending = [{ name: 'Migration20261002000000' }];
+
+    migrator.getExecuted.mockResolvedValue(executed);
+    migrator.getPending.mockResolvedValue(pending);
+
+    await expect(Migration.getStatus({ databaseInstance })).resolves.toEqual({ executed, pending });
+  });
+
+  it('should create migrations', async () => {
+    migrator.create.mockResolvedValue({ fileName: 'Migration20261003000000_add-orders.ts', code: '', diff: {} });
+
+    await Migration.createMigration({ databaseInstance, name: 'add-orders', initial: true });
+
+    expect(migrator.create).toHaveBeenCalledWith(undefined, false, true, 'add-orders');
+  });
+
+  it('should run the default seeder or the given ones', async () => {
+    await Migration.seed({ databaseInstance });
+    await Migration.seed({ databaseInstance, seeders: ['UserSeeder', 'OrderSeeder'] });
+
+    expect(seeder.seedString.mock.calls).toEqual([['DatabaseSeeder'], ['UserSeeder'], ['OrderSeeder']]);
+  });
+
+  describe('migrateWithLock', () => {
+    it('should migrate while holding the lock and release it afterwards', async () => {
+      redisInstance.client.set.mockResolvedValue('OK');
+
+      await Migration.migrateWithLock({
+        databaseInstance,
+        redisInstance,
+        applicationName: 'orders',
+        lockTtlSeconds: 60,
+      });
+
+      const [lockKey, token] = redisInstance.client.set.mock.calls[0];
+
+      expect(lockKey).toBe('database:migrations:lock:orders:default');
+      expect(redisInstance.client.set).toHaveBeenCalledWith(lockKey, expect.any(String), 'EX', 60, 'NX');
+      expect(migrator.up).toHaveBeenCalled();
+      expect(redisInstance.client.eval).toHaveBeenCalledWith(expect.any(String), 1, lockKey, token);
+      expect(redisInstance.client.eval.mock.calls[0][0]).toContain("redis.call('get', KEYS[1]) == ARGV[1]");
+    });
+
+    it('should wait while another process holds the lock', async () => {
+      redisInstance.client.set.mockResolvedValueOnce(null).mockResolvedValueOnce(null).mockResolvedValueOnce('OK');
+
+      await Migration.migrateWithLock({ databaseInstance, redisInstance, applicationName: 'orders', retryDelayMs: 1 });
+
+      expect(redisInstance.client.set).toHaveBeenCalledTimes(3);
+      expect(migrator.up).toHaveBeenCalledTimes(1);
+    });
+
+    it('should release the lock when migrations fail', async () => {
+      redisInstance.client.set.mockResolvedValue('OK');
+      migrator.up.mockRejectedValue(new Error('relation "order" already exists'));
+
+      await expect(
+        Migration.migrateWithLock({ databaseInstance, redisInstance, applicationName: 'orders' }),
+      ).rejects.toThrow('already exists');
+      expect(redisInstance.client.eval).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,151 @@
+import { LockMode } from '@mikro-orm/core';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { OutboxMessage } from '../../../src/database/outbox.interface.js';
+import Outbox from '../../../src/database/outbox.js';
+import OutboxRelay from '../../../src/database/outbox-relay.js';
+import { QueueError } from '../../../src/error/framework-errors.js';
+
+vi.mock('../../../src/logger/index.js', () => ({
+  Logger: {
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+const createMessage = (overrides: Partial<OutboxMessage>): OutboxMessage => ({
+  id: 1,
+  type: 'job',
+  payload: { queueId: 'orders', jobId: 'send-confirmation', data: { payload: { orderId: 1 } } },
+  dedupKey: null,
+  status: 'pending',
+  attempts: 0,
+  availableAt: new Date(),
+  createdAt: new Date(),
+  ...overrides,
+});
+
+describe('OutboxRelay', () => {
+  const entityManager = { find: vi.fn() };
+  const databaseInstance = {
+    withTransaction: vi.fn(async (callback: (em: typeof entityManager) => Promise<unknown>) => callback(entityManager)),
+  };
+  const queueManager = { addJobToQueue: vi.fn() };
+  const eventManager = { run: vi.fn() };
+  const redisInstance = {
+    client: { set: vi.fn(), del: vi.fn() },
+    publisherClient: { publish: vi.fn() },
+  };
+
+  const createRelay = (options = {}) =>
+    new OutboxRelay({
+      databaseInstance: databaseInstance as any,
+      queueManager: queueManager as any,
+      eventManager: eventManager as any,
+      redisInstance: redisInstance as any,
+      options: { batchSize: 10, ...options },
+    });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    queueManager.addJobToQueue.mockResolvedValue({ id: 'outbox-1' });
+    redisInstance.client.set.mockResolvedValue('OK');
+    redisInstance.client.del.mockResolvedValue(1);
+  });
+
+  it('should deliver due messages with row locks and mark them as processed', async () => {
+    const job = createMessage({ id: 1 });
+    const event = createMessage({ id: 2, type: 'event', payload: { name: 'orderPlaced', data: { orderId: 1 } } });
+    const publish = createMessage({ id: 3, type: 'publish', payload: { channel: 'orders', message: '{"orderId":1}' } });
+
+    entityManager.find.mockResolvedValueOnce([job, event, publish]);
+
+    await expect(createRelay().drain()).resolves.toBe(3);
+
+    expect(entityManager.find).toHaveBeenCalledWith(
+      Outbox.OutboxMessageSchema,
+      { status: 'pending', availableAt: { $lte: expect.any(Date) } },
+      { orderBy: { id: 'asc' }, limit: 10, lockMode: LockMode.PESSIMISTIC_PARTIAL_WRITE },
+    );
+    expect(queueManager.addJobToQueue).toHaveBeenCalledWith({
+      queueId: 'orders',
+      jobId: 'send-confirmation',
+      data: { payload: { orderId: 1 } },
+      options: { jobId: 'outbox-1' },
+    });
+    expect(eventManager.run).toHaveBeenCalledWith({ name: 'orderPlaced', data: { orderId: 1 }, throwOnError: true });
+    expect(redisInstance.publisherClient.publish).toHaveBeenCalledWith('orders', '{"orderId":1}');
+    expect([job, event, publish].map(message => message.status)).toEqual(['processed', 'processed', 'processed']);
+    expect(job.processedAt).toBeInstanceOf(Date);
+  });
+
+  it('should drain full batches until the outbox is empty', async () => {
+    entityManager.find
+      .mockResolvedValueOnce([createMessage({ id: 1 }), createMessage({ id: 2 })])
+      .mockResolvedValueOnce([createMessage({ id: 3 })]);
+
+    await expect(createRelay({ batchSize: 2 }).drain()).resolves.toBe(3);
+    expect(databaseInstance.withTransaction).toHaveBeenCalledTimes(2);
+  });
+
+  it('should skip messages whose dedup key was already delivered', async () => {
+    const message = createMessage({ dedupKey: 'order-1' });
+
+    redisInstance.client.set.mockResolvedValue(null);
+    entityManager.find.mockResolvedValueOnce([message]);
+
+    await createRelay({ dedupTtlSeconds: 60 }).drain();
+
+    expect(redisInstance.client.set).toHaveBeenCalledWith('outbox:dedup:order-1', '1', 'EX', 60, 'NX');
+    expect(queueManager.addJobToQueue).not.toHaveBeenCalled();
+    expect(message.status).toBe('processed');
+  });
+
+  it('should retry failed deliveries with backoff and release their dedup key', async () => {
+    const message = createMessage({ dedupKey: 'order-1', attempts: 1 });
+
+    queueManager.addJobToQueue.mockRejectedValue(new Error('Redis unavailable'));
+    entityManager.find.mockResolvedValueOnce([message]);
+
+    const before = Date.now();
+
+    await expect(createRelay({ retryDelayMs: 1000 }).drain()).resolves.toBe(0);
+
+    expect(redisInstance.client.del).toHaveBeenCalledWith('outbox:dedup:order-1');
+    expect(message).toMatchObject({ status: 'pending', attempts: 2, lastError: 'Redis unavailable' });
+    expect(message.availableAt.getTime()).toBeGreaterThanOrEqual(before + 2000);
+  });
+
+  it('should mark messages as failed after the last attempt', async () => {
+    const message = createMessage({ attempts: 2 });
+
+    queueManager.addJobToQueue.mockRejectedValue(new QueueError('Queue not found (Queue ID: orders)'));
+    entityManager.find.mockResolvedValueOnce([message]);
+
+    await createRelay({ maxAttempts: 3 }).drain();
+
+    expect(message).toMatchObject({ status: 'failed', attempts: 3, lastError: 'Queue not found (Queue ID: orders)' });
+  });
+
+  it('should poll until stopped', async () => {
+    vi.useFakeTimers();
+
+    try {
+      entityManager.find.mockResolvedValue([]);
+
+      const relay = createRelay({ intervalMs: 500 });
+
+      relay.start();
+
+      await vi.advanceTimersByTimeAsync(1100);
+
+      expect(entityManager.find).toHaveBeenCalledTimes(3);
+
+      await relay.stop();
+      await vi.advanceTimersByTimeAsync(2000);
+
+      expect(entityManager.find).toHaveBeenCalledTimes(3);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it, vi } from 'vitest';
+import Outbox from '../../../src/database/outbox.js';
+
+const createEntityManager = () =>
+  ({
+    create: vi.fn((_schema, data) => data),
+    persist: vi.fn(),
+    nativeUpdate: vi.fn().mockResolvedValue(2),
+    nativeDelete: vi.fn().mockResolvedValue(5),
+  }) as any;
+
+describe('Outbox', () => {
+  it('should persist jobs, events and messages as pending outbox rows', () => {
+    const entityManager = createEntityManager();
+    const outbox = Outbox.createOutboxWriter({ entityManager });
+
+    outbox.addJob({ queueId: 'orders', jobId: 'send-confirmation', data: { payload: { orderId: 1 } } });
+    outbox.emitEvent({ name: 'orderPlaced', data: { orderId: 1 }, dedupKey: 'order-1-placed' });
+    outbox.publish({ channel: 'orders', message: { orderId: 1 } });
+
+    expect(entityManager.create).toHaveBeenCalledTimes(3);
+    expect(entityManager.persist.mock.calls.map(([message]: [any]) => message)).toEqual([
+      expect.objectContaining({
+        type: 'job',
+        payload: { queueId: 'orders', jobId: 'send-confirmation', data: { payload: { orderId: 1 } } },
+        dedupKey: null,
+        status: 'pending',
+        attempts: 0,
+        availableAt: expect.any(Date),
+      }),
+      expect.objectContaining({
+        type: 'event',
+        payload: { name: 'orderPlaced', data: { orderId: 1 } },
+        dedupKey: 'order-1-placed',
+      }),
+      expect.objectContaining({ type: 'publish', payload: { channel: 'orders', message: '{"orderId":1}' } }),
+    ]);
+  });
+
+  it('should requeue failed messages', async () => {
+    const entityManager = createEntityManager();
+
+    await expect(Outbox.requeueFailed({ entityManager, ids: [4, 5] })).resolves.toBe(2);
+    expect(entityManager.nativeUpdate).toHaveBeenCalledWith(
+      Outbox.OutboxMessageSchema,
+      { status: 'failed', id: { $in: [4, 5] } },
+      { status: 'pending', attempts: 0, availableAt: expect.any(Date) },
+    );
+  });
+
+  it('should purge processed messages', async () => {
+    const entityManager = createEntityManager();
+    const olderThan = new Date('2026-10-01T00:00:00Z');
+
+    await expect(Outbox.purgeProcessed({ entityManager, olderThan })).resolves.toBe(5);
+    expect(entityManager.nativeDelete).toHaveBeenCalledWith(Outbox.OutboxMessageSchema, {
+      status: 'processed',
+      processedAt: { $lt: olderThan },
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import type { EntityManager } from '@mikro-orm/core';
+import { describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import Seeder from '../../../src/database/seeder.js';
+import { ValidationError } from '../../../src/error/framework-errors.js';
+
+class User {
+  public static createSchema = z.object({ email: z.email(), name: z.string().min(1) });
+
+  public email!: string;
+  public name!: string;
+}
+
+class UserSeeder extends Seeder {
+  public fixtures: unknown[] = [];
+
+  async run(em: EntityManager): Promise<void> {
+    this.createEntities(em, User, this.fixtures);
+  }
+}
+
+const createEntityManager = () =>
+  ({
+    create: vi.fn((_entity, data) => ({ ...data })),
+    persist: vi.fn(),
+  }) as any;
+
+describe('Seeder', () => {
+  it('should validate fixtures with the createSchema and persist them', async () => {
+    const em = createEntityManager();
+    const seeder = new UserSeeder();
+
+    seeder.fixtures = [{ email: 'admin@example.com', name: 'Admin', ignored: true }];
+
+    await seeder.run(em);
+
+    expect(em.create).toHaveBeenCalledWith(User, { email: 'admin@example.com', name: 'Admin' });
+    expect(em.persist).toHaveBeenCalledWith({ email: 'admin@example.com', name: 'Admin' });
+  });
+
+  it('should reject invalid fixtures', async () => {
+    const em = createEntityManager();
+    const seeder = new UserSeeder();
+
+    seeder.fixtures = [
+      { email: 'admin@example.com', name: 'Admin' },
+      { email: 'invalid', name: '' },
+    ];
+
+    const error = await seeder.run(em).catch(err => err);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.message).toBe('Invalid User fixture (Index: 1)');
+    expect(error.context.issues.map((issue: { path: string }) => issue.path)).toEqual(['email', 'name']);
+    expect(em.persist).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it, vi } from 'vitest';
+import SoftDelete from '../../../src/database/soft-delete.js';
+
+class Customer {
+  static softDelete = true;
+}
+
+class AuditEntry {}
+
+const createEntityManager = () =>
+  ({
+    getMetadata: () => ({
+      getByClassName: (className: string) =>
+        ({ Customer: { class: Customer }, AuditEntry: { class: AuditEntry } })[className],
+    }),
+    nativeDelete: vi.fn().mockResolvedValue(3),
+  }) as any;
+
+describe('SoftDelete', () => {
+  it('should hide deleted rows of soft-deleting entities only', async () => {
+    const { cond } = SoftDelete.softDeleteFilter;
+    const entityManager = createEntityManager();
+
+    expect(typeof cond).toBe('function');
+
+    const resolve = (entityName: string) => (cond as any)({}, 'read', entityManager, undefined, entityName);
+
+    expect(resolve('Customer')).toEqual({ deletedAt: null });
+    expect(resolve('AuditEntry')).toEqual({});
+    expect(resolve('Unknown')).toEqual({});
+  });
+
+  it('should detect soft-deleting entities', () => {
+    expect(SoftDelete.isSoftDeleteEntity(Customer)).toBe(true);
+    expect(SoftDelete.isSoftDeleteEntity(AuditEntry)).toBe(false);
+    expect(SoftDelete.isSoftDeleteEntity(undefined)).toBe(false);
+  });
+
+  it('should purge rows deleted before the given date', async () => {
+    const entityManager = createEntityManager();
+    const olderThan = new Date('2026-09-19T00:00:00Z');
+
+    const purged = await SoftDelete.purgeDeleted({ entityManager, EntityClass: Customer as any, olderThan });
+
+    expect(purged).toBe(3);
+    expect(entityManager.nativeDelete).toHaveBeenCalledWith(
+      Customer,
+      { deletedAt: { $lt: olderThan } },
+      { filters: { softDelete: false } },
+    );
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import TenantScope from '../../../src/database/tenant-scope.js';
+import { runWithContext } from '../../../src/request-context/index.js';
+import Tenancy from '../../../src/tenancy/tenancy.js';
+
+class Invoice {
+  static tenantScoped = true;
+}
+
+class Currency {}
+
+const createEntityManager = () =>
+  ({
+    getMetadata: () => ({
+      getByClassName: (className: string) =>
+        ({ Invoice: { class: Invoice }, Currency: { class: Currency } })[className],
+    }),
+  }) as any;
+
+describe('TenantScope', () => {
+  it('should scope tenant entities to the tenant of the context', () => {
+    const { cond } = TenantScope.tenantFilter;
+    const entityManager = createEntityManager();
+
+    const resolve = (entityName: string) => (cond as any)({}, 'read', entityManager, undefined, entityName);
+
+    runWithContext({ tenantId: 'acme' }, () => {
+      expect(resolve('Invoice')).toEqual({ tenantId: 'acme' });
+      expect(resolve('Currency')).toEqual({});
+    });
+
+    expect(resolve('Invoice')).toEqual({});
+
+    runWithContext({}, () => {
+      Tenancy.setTenantRequired(true);
+
+      expect(resolve('Invoice')).toEqual({ tenantId: { $in: [] } });
+      expect(resolve('Currency')).toEqual({});
+
+      Tenancy.setTenantRequired(false);
+
+      expect(resolve('Invoice')).toEqual({});
+    });
+  });
+
+  it('should set the tenant of new tenant entities from the context', () => {
+    const beforeCreate = TenantScope.tenantSubscriber.beforeCreate as (args: any) => void;
+    const invoice: Record<string, unknown> = {};
+    const ownInvoice: Record<string, unknown> = { tenantId: 'globex' };
+    const currency: Record<string, unknown> = {};
+
+    runWithContext({ tenantId: 'acme' }, () => {
+      beforeCreate({ entity: invoice, meta: { class: Invoice } });
+      beforeCreate({ entity: ownInvoice, meta: { class: Invoice } });
+      beforeCreate({ entity: currency, meta: { class: Currency } });
+    });
+
+    expect(invoice.tenantId).toBe('acme');
+    expect(ownInvoice.tenantId).toBe('acme');
+    expect(currency.tenantId).toBeUndefined();
+  });
+
+  it('should keep the tenant of new entities outside of a tenant', () => {
+    const beforeCreate = TenantScope.tenantSubscriber.beforeCreate as (args: any) => void;
+    const invoice: Record<string, unknown> = { tenantId: 'globex' };
+
+    beforeCreate({ entity: invoice, meta: { class: Invoice } });
+
+    expect(invoice.tenantId).toBe('globex');
+
+    runWithContext({}, () => {
+      Tenancy.setTenantRequired(true);
+
+      expect(() => beforeCreate({ entity: {}, meta: { class: Invoice, className: 'Invoice' } })).toThrow(
+        'A tenant is required to create this entity (Entity: Invoice)',
+      );
+    });
+  });
+
+  it('should reject updates moving tenant entities to another tenant', () => {
+    const beforeUpdate = TenantScope.tenantSubscriber.beforeUpdate as (args: any) => void;
+    const update =
+      (payload: Record<string, unknown>, EntityClass: unknown = Invoice) =>
+      () =>
+        beforeUpdate({ entity: {}, meta: { class: EntityClass, className: 'Invoice' }, changeSet: { payload } });
+
+    runWithContext({ tenantId: 'acme' }, () => {
+      expect(update({ tenantId: 'globex' })).toThrow('The tenant of an entity cannot be changed (Entity: Invoice)');
+      expect(update({ total: 42 })).not.toThrow();
+      expect(update({ tenantId: 'globex' }, Currency)).not.toThrow();
+    });
+
+    expect(update({ tenantId: 'globex' })).not.toThrow();
+  });
+
+  it('should name tenant schemas', () => {
+    expect(TenantScope.getTenantSchema({ tenantId: 'acme' })).toBe('tenant_acme');
+    expect(TenantScope.getTenantSchema({ tenantId: 'acme', schemaPrefix: 'org_' })).toBe('org_acme');
+  });
+});
@@ -128,6 +128,8 @@ describe('EventManager', () => {
       await managerWithEvents.load();
 
       expect(File.pathExists).toHaveBeenCalled();
+      expect(managerWithEvents.hasHandler('test.event')).toBe(true);
+      expect(managerWithEvents.hasHandler('missing.event')).toBe(false);
     });
   });
 
@@ -155,6 +157,18 @@ describe('EventManager', () => {
     });
   });
 
+  describe('run', () => {
+    it('should log unknown events', async () => {
+      await expect(eventManager.run({ name: 'missing.event', data: {} })).resolves.toBeUndefined();
+    });
+
+    it('should rethrow handler errors with throwOnError', async () => {
+      await expect(eventManager.run({ name: 'missing.event', data: {}, throwOnError: true })).rejects.toThrow(
+        "Event handler not found for event 'missing.event'",
+      );
+    });
+  });
+
   describe('log', () => {
     it('should log messages', async () => {
       const { Logger } = await import('../../../src/logger/index.js');
@@ -0,0 +1,165 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import QueueAdmin from '../../../src/queue/admin.js';
+
+/** In-memory stand-in for the jobs of a BullMQ queue, by state */
+const createQueue = (name = 'emails') => {
+  const jobs = new Map<string, any>();
+
+  const addJob = (id: string, state: string, fields: Record<string, unknown> = {}) => {
+    const job = {
+      id,
+      name: 'send-email',
+      queueName: name,
+      data: { payload: { to: 'user@example.com' } },
+      opts: { attempts: 3 },
+      attemptsMade: 0,
+      progress: 0,
+      timestamp: 1700000000000,
+      state,
+      getState: vi.fn(async () => job.state),
+      retry: vi.fn(async () => {
+        job.state = 'waiting';
+      }),
+      promote: vi.fn(async () => {
+        job.state = 'waiting';
+      }),
+      remove: vi.fn(async () => {
+        jobs.delete(id);
+      }),
+      ...fields,
+    };
+
+    jobs.set(id, job);
+
+    return job;
+  };
+
+  const inState = (state: string) => [...jobs.values()].filter(job => job.state === state).reverse();
+
+  const queue = {
+    name,
+    isPaused: vi.fn(async () => false),
+    getJobCounts: vi.fn(async (...states: string[]) =>
+      Object.fromEntries(states.map(state => [state, inState(state).length])),
+    ),
+    getJobs: vi.fn(async ([state]: string[], start: number, end: number) => inState(state).slice(start, end + 1)),
+    getJobCountByTypes: vi.fn(async (state: string) => inState(state).length),
+    getJob: vi.fn(async (id: string) => jobs.get(id)),
+    getJobLogs: vi.fn(async () => ({ logs: ['Connecting to SMTP'], count: 1 })),
+    drain: vi.fn(async () => {}),
+    clean: vi.fn(async () => ['1']),
+  };
+
+  return { queue: queue as any, addJob };
+};
+
+describe('QueueAdmin', () => {
+  let fake: ReturnType<typeof createQueue>;
+
+  beforeEach(() => {
+    fake = createQueue();
+  });
+
+  it('should count the jobs of a queue by state', async () => {
+    fake.addJob('1', 'waiting');
+    fake.addJob('2', 'failed');
+    fake.addJob('3', 'failed');
+
+    const deadLetterQueue = { getWaitingCount: vi.fn(async () => 4) } as any;
+
+    await expect(QueueAdmin.getInfo({ queue: fake.queue, deadLetterQueue })).resolves.toEqual({
+      id: 'emails',
+      paused: false,
+      counts: {
+        waiting: 1,
+        active: 0,
+        completed: 0,
+        failed: 2,
+        delayed: 0,
+        paused: 0,
+        prioritized: 0,
+        'waiting-children': 0,
+      },
+      deadLetterCount: 4,
+    });
+  });
+
+  it('should list the jobs in a state by page', async () => {
+    for (const id of ['1', '2', '3']) fake.addJob(id, 'failed', { failedReason: 'SMTP timeout', attemptsMade: 3 });
+    fake.addJob('4', 'completed');
+
+    const { jobs, total } = await QueueAdmin.listJobs({ queue: fake.queue, state: 'failed', offset: 1, limit: 1 });
+
+    expect(total).toBe(3);
+    expect(jobs).toEqual([
+      {
+        id: '2',
+        name: 'send-email',
+        queueId: 'emails',
+        state: 'failed',
+        attemptsMade: 3,
+        progress: 0,
+        createdAt: new Date(1700000000000),
+        failedReason: 'SMTP timeout',
+      },
+    ]);
+    expect(fake.queue.getJobs).toHaveBeenCalledWith(['failed'], 1, 1);
+  });
+
+  it('should get jobs with their data, logs and stack traces', async () => {
+    fake.addJob('1', 'failed', { stacktrace: ['Error: SMTP timeout'], failedReason: 'SMTP timeout' });
+
+    await expect(QueueAdmin.getJob({ queue: fake.queue, jobId: '1' })).resolves.toMatchObject({
+      id: '1',
+      state: 'failed',
+      data: { payload: { to: 'user@example.com' } },
+      stacktrace: ['Error: SMTP timeout'],
+      logs: ['Connecting to SMTP'],
+      attempts: 3,
+    });
+
+    await expect(QueueAdmin.getJob({ queue: fake.queue, jobId: '2' })).rejects.toMatchObject({
+      name: 'QueueError',
+      code: 'ERR_RESOURCE_NOT_FOUND',
+      message: 'Job not found (Queue ID: emails | Job ID: 2)',
+    });
+  });
+
+  it('should retry failed jobs and promote delayed jobs only', async () => {
+    const failed = fake.addJob('1', 'failed');
+    const delayed = fake.addJob('2', 'delayed');
+
+    await QueueAdmin.retry({ queue: fake.queue, jobId: '1' });
+    await QueueAdmin.promote({ queue: fake.queue, jobId: '2' });
+
+    expect(failed.retry).toHaveBeenCalledWith('failed');
+    expect(delayed.promote).toHaveBeenCalled();
+
+    await expect(QueueAdmin.retry({ queue: fake.queue, jobId: '2' })).rejects.toMatchObject({
+      code: 'ERR_INVALID_INPUT',
+      message: 'Only failed jobs can be retried (Queue ID: emails | Job ID: 2 | State: waiting)',
+    });
+  });
+
+  it('should report jobs that cannot be removed', async () => {
+    const job = fake.addJob('1', 'active');
+
+    job.remove.mockRejectedValue(new Error('Job 1 is locked'));
+
+    await expect(QueueAdmin.remove({ queue: fake.queue, jobId: '1' })).rejects.toMatchObject({
+      code: 'ERR_RESOURCE_LOCKED',
+      message: 'Job could not be removed (Queue ID: emails | Job ID: 1)',
+    });
+  });
+
+  it('should drain and clean queues', async () => {
+    await QueueAdmin.drain({ queue: fake.queue, delayed: true });
+
+    expect(fake.queue.drain).toHaveBeenCalledWith(true);
+
+    const jobIds = await QueueAdmin.clean({ queue: fake.queue, state: 'completed', olderThanSeconds: 3600 });
+
+    expect(jobIds).toEqual(['1']);
+    expect(fake.queue.clean).toHaveBeenCalledWith(3600000, 1000, 'completed');
+  });
+});
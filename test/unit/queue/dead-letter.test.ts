@@ -0,0 +1,140 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import QueueDeadLetter from '../../../src/queue/dead-letter.js';
+
+/** In-memory stand-in for the waiting jobs of a BullMQ queue */
+const createQueue = (name: string) => {
+  const jobs: any[] = [];
+  let nextId = 1;
+
+  const queue = {
+    name,
+    add: vi.fn(async (jobName: string, data: any, opts?: unknown) => {
+      const job = {
+        id: String(nextId++),
+        name: jobName,
+        data,
+        opts,
+        remove: vi.fn(async () => {
+          jobs.splice(jobs.indexOf(job), 1);
+        }),
+      };
+
+      // Most recent first, like the BullMQ wait list
+      jobs.unshift(job);
+
+      return job;
+    }),
+    getWaiting: vi.fn(async (start: number, end: number) => jobs.slice(start, end + 1)),
+    getWaitingCount: vi.fn(async () => jobs.length),
+    getJob: vi.fn(async (id: string) => jobs.find(job => job.id === id)),
+    drain: vi.fn(async () => {
+      jobs.length = 0;
+    }),
+  };
+
+  return { queue: queue as any, jobs };
+};
+
+const failedJob = (id: string, data: Record<string, unknown> = {}) =>
+  ({
+    id,
+    name: 'send-email',
+    queueName: 'emails',
+    data: { payload: { to: 'user@example.com' }, startTime: [1, 0], ...data },
+    failedReason: 'SMTP timeout',
+    stacktrace: ['Error: SMTP timeout', '    at send'],
+    attemptsMade: 3,
+    finishedOn: 1700000000000,
+  }) as any;
+
+describe('QueueDeadLetter', () => {
+  let deadLetter: ReturnType<typeof createQueue>;
+  let emails: ReturnType<typeof createQueue>;
+
+  beforeEach(() => {
+    deadLetter = createQueue('emails-dead-letter');
+    emails = createQueue('emails');
+  });
+
+  it('should name dead-letter queues after their queue', () => {
+    expect(QueueDeadLetter.getQueueName({ queueId: 'emails', options: true })).toBe('emails-dead-letter');
+    expect(QueueDeadLetter.getQueueName({ queueId: 'emails', options: {} })).toBe('emails-dead-letter');
+    expect(QueueDeadLetter.getQueueName({ queueId: 'emails', options: { queue: 'failed-emails' } })).toBe(
+      'failed-emails',
+    );
+  });
+
+  it('should keep the data, error, stack trace and attempts of failed jobs', async () => {
+    const entry = await QueueDeadLetter.add({ deadLetterQueue: deadLetter.queue, job: failedJob('42') });
+
+    expect(entry).toEqual({
+      id: '1',
+      queueId: 'emails',
+      jobId: '42',
+      jobName: 'send-email',
+      data: { payload: { to: 'user@example.com' }, startTime: [1, 0] },
+      failedReason: 'SMTP timeout',
+      stacktrace: ['Error: SMTP timeout', '    at send'],
+      attemptsMade: 3,
+      failedAt: new Date(1700000000000),
+    });
+    expect(deadLetter.queue.add.mock.calls[0][2]).toEqual({ removeOnComplete: true, removeOnFail: true });
+
+    await expect(QueueDeadLetter.get({ deadLetterQueue: deadLetter.queue, entryId: '1' })).resolves.toEqual(entry);
+  });
+
+  it('should list entries by page, the most recent first', async () => {
+    for (const id of ['1', '2', '3']) {
+      await QueueDeadLetter.add({ deadLetterQueue: deadLetter.queue, job: failedJob(id) });
+    }
+
+    const { entries, total } = await QueueDeadLetter.list({ deadLetterQueue: deadLetter.queue, offset: 1, limit: 1 });
+
+    expect(total).toBe(3);
+    expect(entries.map(entry => entry.jobId)).toEqual(['2']);
+  });
+
+  it('should replay entries with their data or an edited payload', async () => {
+    await QueueDeadLetter.add({
+      deadLetterQueue: deadLetter.queue,
+      job: failedJob('42', { flow: { id: 'flow-1' }, scheduleId: 'daily' }),
+    });
+    await QueueDeadLetter.add({ deadLetterQueue: deadLetter.queue, job: failedJob('43', { scheduleId: 'daily' }) });
+
+    await QueueDeadLetter.replay({ deadLetterQueue: deadLetter.queue, queue: emails.queue, entryId: '1' });
+    await QueueDeadLetter.replay({
+      deadLetterQueue: deadLetter.queue,
+      queue: emails.queue,
+      entryId: '2',
+      payload: { to: 'admin@example.com' },
+    });
+
+    expect(emails.queue.add.mock.calls).toEqual([
+      ['send-email', { payload: { to: 'user@example.com' }, scheduleId: 'daily' }],
+      ['send-email', { payload: { to: 'admin@example.com' } }],
+    ]);
+    expect(deadLetter.jobs).toHaveLength(0);
+  });
+
+  it('should purge one entry or all entries', async () => {
+    for (const id of ['1', '2', '3']) {
+      await QueueDeadLetter.add({ deadLetterQueue: deadLetter.queue, job: failedJob(id) });
+    }
+
+    await expect(QueueDeadLetter.purge({ deadLetterQueue: deadLetter.queue, entryId: '2' })).resolves.toBe(1);
+    expect(deadLetter.jobs.map(job => job.id)).toEqual(['3', '1']);
+
+    await expect(QueueDeadLetter.purge({ deadLetterQueue: deadLetter.queue })).resolves.toBe(2);
+    expect(deadLetter.queue.drain).toHaveBeenCalled();
+  });
+
+  it('should reject unknown entries', async () => {
+    await expect(
+      QueueDeadLetter.replay({ deadLetterQueue: deadLetter.queue, queue: emails.queue, entryId: '7' }),
+    ).rejects.toMatchObject({
+      name: 'QueueError',
+      message: 'Dead-letter entry not found (Queue ID: emails-dead-letter | Entry ID: 7)',
+    });
+    expect(emails.queue.add).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { QueueFlowStep } from '../../../src/queue/flow.interface.js';
+import Flow from '../../../src/queue/flow.js';
+
+const step = (jobId: string, extra: Partial<QueueFlowStep> = {}): QueueFlowStep => ({
+  queueId: 'video',
+  jobId,
+  data: { payload: { videoId: 1 } },
+  ...extra,
+});
+
+const jobNode = (job: Record<string, unknown>, state: string, children: any[] = []) => ({
+  job: { queueName: 'video', getState: vi.fn().mockResolvedValue(state), ...job },
+  children,
+});
+
+describe('Flow', () => {
+  it('should chain steps, the last step depending on the previous ones', () => {
+    expect(Flow.chain([step('transcode'), step('thumbnail'), step('notify')])).toEqual({
+      ...step('notify'),
+      children: [{ ...step('thumbnail'), children: [step('transcode')] }],
+    });
+
+    expect(() => Flow.chain([])).toThrow('Flow chain requires at least one step');
+  });
+
+  it('should convert flows to BullMQ flow jobs with failure policies', () => {
+    const flow = Flow.group({
+      steps: [step('thumbnail', { onFailure: 'ignore' }), step('transcode')],
+      join: step('notify', { options: { attempts: 3 } }),
+    });
+
+    expect(
+      Flow.toFlowJob({ node: flow, flow: { id: 'flow-1', queueId: 'video' }, onFailure: 'fail', tenantId: 'acme' }),
+    ).toEqual({
+      name: 'notify',
+      queueName: 'video',
+      data: {
+        payload: { videoId: 1 },
+        tenantId: 'acme',
+        flow: { id: 'flow-1', queueId: 'video', onFailure: 'fail' },
+      },
+      opts: { attempts: 3, jobId: 'flow-1' },
+      children: [
+        {
+          name: 'thumbnail',
+          queueName: 'video',
+          data: {
+            payload: { videoId: 1 },
+            tenantId: 'acme',
+            flow: { id: 'flow-1', queueId: 'video', onFailure: 'ignore' },
+          },
+          opts: { ignoreDependencyOnFailure: true },
+        },
+        {
+          name: 'transcode',
+          queueName: 'video',
+          data: {
+            payload: { videoId: 1 },
+            tenantId: 'acme',
+            flow: { id: 'flow-1', queueId: 'video', onFailure: 'fail' },
+          },
+          opts: { failParentOnFailure: true },
+        },
+      ],
+    });
+  });
+
+  it('should keep finished flow jobs', () => {
+    expect(
+      Flow.getQueuesOptions([{ name: 'video', defaultJobOptions: { attempts: 2, removeOnFail: true } }] as any),
+    ).toEqual({
+      video: {
+        defaultJobOptions: { attempts: 2, removeOnComplete: { age: 86400 }, removeOnFail: { age: 604800 } },
+      },
+    });
+  });
+
+  it('should get the status of flows', async () => {
+    const tree = jobNode({ id: 'flow-1', name: 'notify' }, 'waiting-children', [
+      jobNode({ id: 'job-2', name: 'thumbnail', returnvalue: { url: 'thumb.jpg' } }, 'completed'),
+      jobNode({ id: 'job-3', name: 'transcode' }, 'active'),
+    ]);
+
+    await expect(Flow.getStatus({ flow: { id: 'flow-1', queueId: 'video' }, tree: tree as any })).resolves.toEqual({
+      id: 'flow-1',
+      queueId: 'video',
+      state: 'active',
+      jobs: [
+        { id: 'flow-1', queueId: 'video', name: 'notify', state: 'waiting-children' },
+        {
+          id: 'job-2',
+          queueId: 'video',
+          name: 'thumbnail',
+          state: 'completed',
+          result: { url: 'thumb.jpg' },
+          parentId: 'flow-1',
+        },
+        { id: 'job-3', queueId: 'video', name: 'transcode', state: 'active', parentId: 'flow-1' },
+      ],
+      progress: { total: 3, completed: 1, failed: 0 },
+    });
+
+    await expect(Flow.getStatus({ flow: { id: 'flow-2', queueId: 'video' } })).rejects.toMatchObject({
+      name: 'QueueError',
+      message: 'Flow not found (Queue ID: video | Flow ID: flow-2)',
+    });
+  });
+
+  it('should get the compensations of completed steps, the last completed first', async () => {
+    const compensation = (jobId: string) => ({ queueId: 'video', jobId, data: { payload: {} } });
+    const tree = jobNode({ id: 'flow-1', data: { flow: { compensate: compensation('unpublish') } } }, 'failed', [
+      jobNode(
+        { id: 'job-2', finishedOn: 2, data: { flow: { compensate: compensation('delete-upload') } } },
+        'completed',
+      ),
+      jobNode(
+        { id: 'job-3', finishedOn: 3, data: { flow: { compensate: compensation('delete-thumbnail') } } },
+        'completed',
+      ),
+      jobNode({ id: 'job-4', data: { flow: {} } }, 'completed'),
+    ]);
+
+    await expect(Flow.getCompensations(tree as any)).resolves.toEqual([
+      compensation('delete-thumbnail'),
+      compensation('delete-upload'),
+    ]);
+  });
+});
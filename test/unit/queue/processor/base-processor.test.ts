@@ -404,7 +404,15 @@ describe('BaseProcessor', () => {
 
       await processor.withEntityManager(callback);
 
-      expect(mockDatabaseInstance.withEntityManager).toHaveBeenCalledWith(callback);
+      expect(mockDatabaseInstance.withEntityManager).toHaveBeenCalledWith(callback, undefined);
+    });
+
+    it('should pass the connection to databaseInstance.withEntityManager', async () => {
+      const callback = vi.fn().mockResolvedValue('success');
+
+      await processor.withEntityManager(callback, { connection: 'analytics' });
+
+      expect(mockDatabaseInstance.withEntityManager).toHaveBeenCalledWith(callback, { connection: 'analytics' });
     });
   });
 });
@@ -1,19 +1,37 @@
-import { type Job, Queue } from 'bullmq';
+import { FlowProducer, type Job, Queue } from 'bullmq';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import { QueueError, ValidationError } from '../../../src/error/framework-errors.js';
 import { Logger } from '../../../src/logger/index.js';
+import { defineJob } from '../../../src/queue/define-job.js';
 import type { QueueItem } from '../../../src/queue/index.interface.js';
 import type { QueueManagerConstructorParams } from '../../../src/queue/manager.interface.js';
 import QueueManager from '../../../src/queue/manager.js';
+import QueueScheduler from '../../../src/queue/scheduler.js';
 import QueueWorker from '../../../src/queue/worker.js';
+import { getRequestId, getTenantId, getUserId, runWithContextAsync } from '../../../src/request-context/index.js';
 import { File, Helper, Loader, Time } from '../../../src/util/index.js';
 
 // Mock dependencies
 vi.mock('bullmq', () => ({
   Queue: vi.fn(),
+  FlowProducer: vi.fn(),
 }));
 vi.mock('../../../src/queue/worker.js', () => ({
   default: vi.fn(),
 }));
+vi.mock('../../../src/queue/scheduler.js', () => ({
+  default: {
+    getScheduleId: vi.fn(({ job, schedule }) => schedule.id ?? job.id),
+    reconcile: vi.fn().mockResolvedValue(true),
+    list: vi.fn().mockResolvedValue([]),
+    pause: vi.fn(),
+    resume: vi.fn(),
+    trigger: vi.fn(),
+    acquireRunLock: vi.fn().mockResolvedValue('token'),
+    releaseRunLock: vi.fn(),
+  },
+}));
 vi.mock('../../../src/logger/index.js');
 vi.mock('../../../src/util/index.js', () => ({
   File: {
@@ -34,6 +52,8 @@ vi.mock('../../../src/util/index.js', () => ({
 }));
 
 const mockQueue = vi.mocked(Queue);
+const mockScheduler = vi.mocked(QueueScheduler);
+const mockFlowProducer = vi.mocked(FlowProducer);
 const _mockQueueWorker = vi.mocked(QueueWorker);
 const mockLogger = vi.mocked(Logger);
 const mockHelper = Helper as unknown as {
@@ -214,16 +234,35 @@ describe('QueueManager', () => {
       expect(result).toEqual({ id: 'job-123' });
     });
 
-    it('should handle queue not found', async () => {
-      const jobData = { userId: 123 };
+    it('should carry the tenant of the context into the job', async () => {
+      // @ts-expect-error - accessing private property for testing
+      const queue = queueManager.queues.get('test-queue');
 
-      const result = await queueManager.addJobToQueue({
-        queueId: 'non-existent-queue',
+      await runWithContextAsync({ tenantId: 'acme' }, () =>
+        queueManager.addJobToQueue({ queueId: 'test-queue', jobId: 'test-job', data: { payload: {} } }),
+      );
+      await queueManager.addJobToQueue({
+        queueId: 'test-queue',
         jobId: 'test-job',
-        data: jobData,
+        data: { tenantId: 'globex', payload: {} },
       });
 
-      expect(result).toBeUndefined();
+      expect(queue.add.mock.calls).toEqual([
+        ['test-job', { tenantId: 'acme', payload: {} }, undefined],
+        ['test-job', { tenantId: 'globex', payload: {} }, undefined],
+      ]);
+    });
+
+    it('should reject unknown queues', async () => {
+      const jobData = { userId: 123 };
+
+      await expect(
+        queueManager.addJobToQueue({
+          queueId: 'non-existent-queue',
+          jobId: 'test-job',
+          data: jobData,
+        }),
+      ).rejects.toMatchObject({ name: 'QueueError', message: 'Queue not found (Queue ID: non-existent-queue)' });
     });
 
     it('should truncate long data in logs', async () => {
@@ -314,6 +353,552 @@ describe('QueueManager', () => {
       });
       expect(processor.process).toHaveBeenCalled();
     });
+
+    it('processes jobs within a context carrying the job ID, user and tenant', async () => {
+      const job: Partial<Job> = {
+        id: 'job-3',
+        name: 'test-job',
+        queueName: 'test-queue',
+        data: { userId: 'user-1', tenantId: 'acme', payload: {} },
+      };
+
+      const processor = {
+        process: vi.fn(async () => ({ requestId: getRequestId(), userId: getUserId(), tenantId: getTenantId() })),
+        beforeProcess: vi.fn().mockResolvedValue(undefined),
+        afterProcess: vi.fn().mockResolvedValue(undefined),
+      };
+      const jobProcessors = queueManager.jobProcessors as Map<string, any>;
+      jobProcessors.set('test-job', processor as any);
+
+      await expect((queueManager as any).workerProcessor(job)).resolves.toEqual({
+        requestId: 'job-3',
+        userId: 'user-1',
+        tenantId: 'acme',
+      });
+    });
+  });
+
+  describe('defineJob', () => {
+    class SendEmailProcessor {
+      process = vi.fn(async ({ job }: { job: Job }) => ({ messageId: `message-${job.data.payload.to}` }));
+      beforeProcess = vi.fn();
+      afterProcess = vi.fn();
+    }
+
+    const sendEmailJob = defineJob({
+      queue: 'emails',
+      name: 'send-email',
+      payload: z.object({ to: z.string(), subject: z.string().default('Hello') }),
+      result: z.object({ messageId: z.string() }),
+      processor: SendEmailProcessor as any,
+    });
+
+    let queueInstance: { on: ReturnType<typeof vi.fn>; add: ReturnType<typeof vi.fn> };
+
+    beforeEach(async () => {
+      mockFile.pathExists.mockResolvedValue(false);
+
+      queueInstance = { on: vi.fn(), add: vi.fn().mockResolvedValue({ id: 'job-1' }) };
+      mockQueue.mockImplementation(function (this: any) {
+        return Object.assign(this, queueInstance);
+      } as any);
+
+      await queueManager.registerQueues({ queues: [{ name: 'emails', jobs: [sendEmailJob] }] });
+    });
+
+    it('should register the processor of defined jobs without a processors directory', () => {
+      expect(mockLoader.loadModulesInDirectory).not.toHaveBeenCalled();
+      expect((queueManager as any).jobProcessors.get('send-email')).toBeInstanceOf(SendEmailProcessor);
+    });
+
+    it('should validate payloads when adding jobs', async () => {
+      await queueManager.addJobToQueue({ queueId: 'emails', jobId: 'send-email', data: { payload: { to: 'a@b.c' } } });
+
+      await expect(
+        queueManager.addJobToQueue({
+          queueId: 'emails',
+          jobId: 'send-email',
+          data: { payload: { to: 1 } as any },
+        }),
+      ).rejects.toThrow(ValidationError);
+
+      expect(queueInstance.add).toHaveBeenCalledTimes(1);
+      expect(queueInstance.add).toHaveBeenCalledWith('send-email', { payload: { to: 'a@b.c' } }, undefined);
+    });
+
+    it('should reject jobs that are not defined for the queue', async () => {
+      await expect(
+        queueManager.addJobToQueue({ queueId: 'emails', jobId: 'send-emial' as any, data: { payload: {} } }),
+      ).rejects.toMatchObject({
+        name: 'QueueError',
+        message: 'Job not found in queue (Queue ID: emails | Job ID: send-emial)',
+      });
+    });
+
+    it('should reject job definitions of another queue', async () => {
+      await queueManager.registerQueues({ queues: [{ name: 'notifications', jobs: [sendEmailJob] }] });
+
+      expect(mockLogger.error).toHaveBeenCalledWith({
+        error: expect.objectContaining({
+          message: 'Job is defined for another queue (Job ID: send-email | Queue: emails)',
+        }),
+      });
+      expect(mockLogger.error.mock.calls[0][0].error).toBeInstanceOf(QueueError);
+    });
+
+    it('should process jobs with the parsed payload', async () => {
+      const job: Partial<Job> = {
+        id: 'job-1',
+        name: 'send-email',
+        queueName: 'emails',
+        data: { payload: { to: 'a' } },
+      };
+      const processor = (queueManager as any).jobProcessors.get('send-email');
+
+      await expect((queueManager as any).workerProcessor(job)).resolves.toEqual({ messageId: 'message-a' });
+
+      expect(processor.process.mock.calls[0][0].job.data.payload).toEqual({ to: 'a', subject: 'Hello' });
+    });
+
+    it('should fail jobs with an invalid payload before processing them', async () => {
+      const job: Partial<Job> = { id: 'job-2', name: 'send-email', queueName: 'emails', data: { payload: {} } };
+      const processor = (queueManager as any).jobProcessors.get('send-email');
+
+      await expect((queueManager as any).workerProcessor(job)).rejects.toThrow(ValidationError);
+
+      expect(processor.process).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('schedules', () => {
+    class ReportProcessor {
+      process = vi.fn(async ({ job }: { job: Job }) => job.data.payload);
+      beforeProcess = vi.fn();
+      afterProcess = vi.fn();
+    }
+
+    const dailyReportJob = defineJob({
+      queue: 'reports',
+      name: 'daily-report',
+      payload: z.object({ day: z.string() }),
+      processor: ReportProcessor as any,
+      schedule: { cron: '0 3 * * *', payload: () => ({ day: 'today' }), overlap: 'skip' },
+    });
+
+    const scheduledJob = (data: Record<string, unknown>): Partial<Job> => ({
+      id: 'repeat:daily-report:1',
+      name: 'daily-report',
+      queueName: 'reports',
+      data,
+    });
+
+    beforeEach(async () => {
+      mockFile.pathExists.mockResolvedValue(false);
+      mockQueue.mockImplementation(function (this: any) {
+        return Object.assign(this, { on: vi.fn(), add: vi.fn() });
+      } as any);
+      mockScheduler.acquireRunLock.mockResolvedValue('token');
+
+      await queueManager.registerQueues({
+        queues: [
+          { name: 'reports', jobs: [dailyReportJob] },
+          { name: 'external', isExternal: true, jobs: [{ id: 'sync', schedule: { every: 1000 } }] },
+        ],
+      });
+    });
+
+    it('should reconcile the schedules of queues processed by the application', () => {
+      expect(mockScheduler.reconcile).toHaveBeenCalledTimes(1);
+      expect(mockScheduler.reconcile).toHaveBeenCalledWith({
+        queue: (queueManager as any).queues.get('reports'),
+        jobs: [dailyReportJob],
+      });
+    });
+
+    it('should reject schedule payloads not matching the payload schema', async () => {
+      mockScheduler.reconcile.mockClear();
+
+      await queueManager.registerQueues({
+        queues: [{ name: 'reports', jobs: [{ ...dailyReportJob, schedule: { every: 1000, payload: { day: 1 } } }] }],
+      });
+
+      expect(mockLogger.error.mock.calls[0][0].error).toBeInstanceOf(ValidationError);
+      expect(mockScheduler.reconcile).not.toHaveBeenCalled();
+    });
+
+    it('should process scheduled runs with the payload of the payload function', async () => {
+      await expect(
+        (queueManager as any).workerProcessor(scheduledJob({ payload: {}, scheduleId: 'daily-report' })),
+      ).resolves.toEqual({ day: 'today' });
+
+      expect(mockScheduler.releaseRunLock).toHaveBeenCalledWith({
+        queue: (queueManager as any).queues.get('reports'),
+        id: 'daily-report',
+        token: 'token',
+      });
+    });
+
+    it('should skip scheduled runs while the previous run is processed', async () => {
+      mockScheduler.acquireRunLock.mockResolvedValue(null);
+
+      await expect(
+        (queueManager as any).workerProcessor(scheduledJob({ payload: {}, scheduleId: 'daily-report' })),
+      ).resolves.toBeUndefined();
+
+      expect((queueManager as any).jobProcessors.get('daily-report').process).not.toHaveBeenCalled();
+    });
+
+    it('should not lock jobs added outside of the schedule', async () => {
+      await expect(
+        (queueManager as any).workerProcessor(scheduledJob({ payload: { day: 'monday' } })),
+      ).resolves.toEqual({ day: 'monday' });
+
+      expect(mockScheduler.acquireRunLock).not.toHaveBeenCalled();
+    });
+
+    it('should manage schedules of registered queues', async () => {
+      await queueManager.pauseSchedule({ queueId: 'reports', scheduleId: 'daily-report' });
+
+      expect(mockScheduler.pause).toHaveBeenCalledWith({
+        queue: (queueManager as any).queues.get('reports'),
+        id: 'daily-report',
+      });
+
+      await expect(
+        queueManager.triggerSchedule({ queueId: 'missing', scheduleId: 'daily-report' }),
+      ).rejects.toMatchObject({ name: 'QueueError', message: 'Queue not found (Queue ID: missing)' });
+    });
+  });
+
+  describe('flows', () => {
+    const flowProducer = { add: vi.fn(), getFlow: vi.fn(), close: vi.fn() };
+    const client = { set: vi.fn() };
+
+    const step = (jobId: string, payload: Record<string, unknown> = { videoId: 1 }) => ({
+      queueId: 'video',
+      jobId,
+      data: { payload },
+    });
+
+    beforeEach(async () => {
+      mockFile.pathExists.mockResolvedValue(false);
+      mockQueue.mockImplementation(function (this: any, name: string) {
+        return Object.assign(this, {
+          name,
+          defaultJobOptions: {},
+          on: vi.fn(),
+          add: vi.fn().mockResolvedValue({ id: 'job-1' }),
+          client: Promise.resolve(client),
+          toKey: (type: string) => `bull:${name}:${type}`,
+        });
+      } as any);
+      mockFlowProducer.mockImplementation(function (this: any) {
+        return Object.assign(this, flowProducer);
+      } as any);
+      client.set.mockResolvedValue('OK');
+
+      const processor = class {} as any;
+      const transcodeJob = defineJob({
+        queue: 'video',
+        name: 'transcode',
+        payload: z.object({ videoId: z.number() }),
+        processor,
+      });
+
+      await queueManager.registerQueues({
+        queues: [
+          {
+            name: 'video',
+            jobs: [transcodeJob, ...['thumbnail', 'notify', 'delete-upload'].map(id => ({ id, processor }))],
+          },
+        ],
+      });
+    });
+
+    it('should add chains as BullMQ flows', async () => {
+      const flow = await queueManager.addChain({ steps: [step('transcode'), step('thumbnail'), step('notify')] });
+
+      expect(flow).toEqual({ id: expect.any(String), queueId: 'video' });
+      expect(mockFlowProducer).toHaveBeenCalledWith({ connection: mockParams.redisInstance.client });
+
+      const [flowJob, options] = flowProducer.add.mock.calls[0];
+
+      expect(flowJob).toMatchObject({
+        name: 'notify',
+        opts: { jobId: flow.id },
+        children: [{ name: 'thumbnail', children: [{ name: 'transcode', opts: { failParentOnFailure: true } }] }],
+      });
+      expect(options.queuesOptions.video.defaultJobOptions).toMatchObject({ removeOnComplete: { age: 86400 } });
+    });
+
+    it('should validate the jobs of flows before adding them', async () => {
+      await expect(
+        queueManager.addGroup({ steps: [step('transcode', { videoId: 'a' })], join: step('notify') }),
+      ).rejects.toThrow(ValidationError);
+      await expect(
+        queueManager.addGroup({ steps: [step('transcode')], join: { ...step('notify'), queueId: 'audio' } }),
+      ).rejects.toMatchObject({ name: 'QueueError', message: 'Queue not found (Queue ID: audio)' });
+
+      expect(flowProducer.add).not.toHaveBeenCalled();
+    });
+
+    it('should add the compensations of completed steps once a compensated step has no attempts left', async () => {
+      const compensate = { queueId: 'video', jobId: 'delete-upload', data: { payload: { videoId: 1 } } };
+      const failedJob = {
+        attemptsMade: 1,
+        opts: { attempts: 1 },
+        finishedOn: 2,
+        data: { payload: {}, flow: { id: 'flow-1', queueId: 'video', onFailure: 'compensate' } },
+      };
+
+      flowProducer.getFlow.mockResolvedValue({
+        job: { id: 'flow-1', data: {}, getState: vi.fn().mockResolvedValue('failed') },
+        children: [
+          {
+            job: {
+              id: 'job-2',
+              finishedOn: 1,
+              data: { flow: { compensate } },
+              getState: vi.fn().mockResolvedValue('completed'),
+            },
+          },
+        ],
+      });
+
+      await queueManager.handleFailedJob({
+        job: { ...failedJob, finishedOn: undefined, opts: { attempts: 2 } } as any,
+        error: new Error(),
+      });
+
+      expect(flowProducer.getFlow).not.toHaveBeenCalled();
+
+      await queueManager.handleFailedJob({ job: failedJob as any, error: new Error() });
+
+      const queue = (queueManager as any).queues.get('video');
+
+      expect(client.set).toHaveBeenCalledWith('bull:video:flows:compensated:flow-1', '1', 'EX', 604800, 'NX');
+      expect(queue.add).toHaveBeenCalledWith('delete-upload', { payload: { videoId: 1 } }, undefined);
+
+      // Compensated once
+      client.set.mockResolvedValue(null);
+      queue.add.mockClear();
+
+      await queueManager.handleFailedJob({ job: failedJob as any, error: new Error() });
+
+      expect(queue.add).not.toHaveBeenCalled();
+    });
+
+    it('should get the status of flows', async () => {
+      flowProducer.getFlow.mockResolvedValue({
+        job: { id: 'flow-1', name: 'notify', queueName: 'video', getState: vi.fn().mockResolvedValue('completed') },
+      });
+
+      await expect(queueManager.getFlowStatus({ id: 'flow-1', queueId: 'video' })).resolves.toMatchObject({
+        state: 'completed',
+        progress: { total: 1, completed: 1, failed: 0 },
+      });
+      expect(flowProducer.getFlow).toHaveBeenCalledWith({
+        id: 'flow-1',
+        queueName: 'video',
+        depth: 100,
+        maxChildren: 1000,
+      });
+    });
+  });
+
+  describe('dead-letter queues', () => {
+    const eventManager = { hasHandler: vi.fn(), run: vi.fn() };
+
+    const failedJob = (attemptsMade: number) =>
+      ({
+        id: 'job-1',
+        name: 'send-email',
+        queueName: 'emails',
+        data: { payload: { to: 'user@example.com' } },
+        opts: { attempts: 3 },
+        attemptsMade,
+        failedReason: 'SMTP timeout',
+        stacktrace: ['Error: SMTP timeout'],
+        ...(attemptsMade === 3 && { finishedOn: 1000 }),
+      }) as any;
+
+    const getQueue = (name: string) =>
+      mockQueue.mock.instances.find(instance => (instance as any).name === name) as any;
+
+    beforeEach(async () => {
+      mockFile.pathExists.mockResolvedValue(false);
+      mockQueue.mockImplementation(function (this: any, name: string) {
+        return Object.assign(this, {
+          name,
+          on: vi.fn(),
+          add: vi.fn(async (jobName: string, data: unknown) => ({ id: `${name}-1`, name: jobName, data })),
+          getJob: vi.fn(),
+        });
+      } as any);
+      eventManager.hasHandler.mockReturnValue(true);
+
+      queueManager = new QueueManager({ ...mockParams, eventManager: eventManager as any });
+
+      const processor = class {} as any;
+
+      await queueManager.registerQueues({
+        queues: [
+          {
+            name: 'emails',
+            deadLetter: true,
+            jobs: [
+              defineJob({
+                queue: 'emails',
+                name: 'send-email',
+                payload: z.object({ to: z.string().email() }),
+                processor,
+              }),
+            ],
+          },
+          { name: 'reports', jobs: [{ id: 'daily-report', processor }] },
+        ],
+      });
+    });
+
+    it('should create dead-letter queues for queues configured with one', () => {
+      expect(mockQueue.mock.calls.map(([name]) => name)).toEqual(['emails', 'emails-dead-letter', 'reports']);
+      expect(mockQueue).toHaveBeenCalledWith('emails-dead-letter', { connection: mockParams.redisInstance.client });
+    });
+
+    it('should emit failed attempts and move jobs without attempts left to the dead-letter queue', async () => {
+      const error = new Error('SMTP timeout');
+
+      await queueManager.handleFailedJob({ job: failedJob(1), error });
+
+      expect(getQueue('emails-dead-letter').add).not.toHaveBeenCalled();
+      expect(eventManager.run).toHaveBeenCalledWith({
+        name: 'queue:job:failed',
+        data: {
+          instanceId: 'test-instance',
+          timestamp: expect.any(Date),
+          queueId: 'emails',
+          jobId: 'job-1',
+          jobName: 'send-email',
+          error,
+          attemptsMade: 1,
+          attemptsRemaining: 2,
+        },
+      });
+
+      await queueManager.handleFailedJob({ job: failedJob(3), error });
+
+      expect(getQueue('emails-dead-letter').add).toHaveBeenCalledWith(
+        'send-email',
+        expect.objectContaining({
+          queueId: 'emails',
+          jobId: 'job-1',
+          failedReason: 'SMTP timeout',
+          stacktrace: ['Error: SMTP timeout'],
+          attemptsMade: 3,
+          failedAt: 1000,
+        }),
+        { removeOnComplete: true, removeOnFail: true },
+      );
+      expect(eventManager.run).toHaveBeenLastCalledWith({
+        name: 'queue:job:failed',
+        data: expect.objectContaining({ attemptsRemaining: 0, deadLetterEntryId: 'emails-dead-letter-1' }),
+      });
+    });
+
+    it('should not emit failed jobs without an event handler', async () => {
+      eventManager.hasHandler.mockReturnValue(false);
+
+      await queueManager.handleFailedJob({ job: failedJob(3), error: new Error() });
+
+      expect(eventManager.hasHandler).toHaveBeenCalledWith('queue:job:failed');
+      expect(eventManager.run).not.toHaveBeenCalled();
+    });
+
+    it('should validate replayed payloads', async () => {
+      getQueue('emails-dead-letter').getJob.mockResolvedValue({
+        id: '7',
+        data: { queueId: 'emails', jobName: 'send-email', data: { payload: { to: 'invalid' } }, failedAt: 1000 },
+        remove: vi.fn(),
+      });
+
+      await expect(queueManager.replayDeadLetter({ queueId: 'emails', entryId: '7' })).rejects.toThrow(ValidationError);
+
+      await expect(
+        queueManager.replayDeadLetter({ queueId: 'emails', entryId: '7', payload: { to: 'user@example.com' } }),
+      ).resolves.toMatchObject({ id: 'emails-1' });
+      expect(getQueue('emails').add).toHaveBeenCalledWith('send-email', { payload: { to: 'user@example.com' } });
+    });
+
+    it('should reject queues without a dead-letter queue', async () => {
+      await expect(queueManager.listDeadLetters({ queueId: 'reports' })).rejects.toMatchObject({
+        name: 'QueueError',
+        message: 'Queue has no dead-letter queue (Queue ID: reports)',
+      });
+      await expect(queueManager.purgeDeadLetters({ queueId: 'audio' })).rejects.toMatchObject({
+        message: 'Queue not found (Queue ID: audio)',
+      });
+    });
+  });
+
+  describe('administration', () => {
+    const createQueue = (name: string) => ({
+      name,
+      isPaused: vi.fn().mockResolvedValue(true),
+      getJobCounts: vi.fn().mockResolvedValue({ waiting: 2, failed: 1 }),
+      getJob: vi.fn(),
+      pause: vi.fn(),
+      resume: vi.fn(),
+      clean: vi.fn().mockResolvedValue(['job-1', 'job-2']),
+    });
+
+    let emails: ReturnType<typeof createQueue>;
+
+    beforeEach(() => {
+      emails = createQueue('emails');
+
+      // @ts-expect-error - accessing private property for testing
+      queueManager.queues.set('emails', emails as any);
+    });
+
+    it('should list queues with their job counts', async () => {
+      const [queue] = await queueManager.listQueues();
+
+      expect(queue).toEqual({
+        id: 'emails',
+        paused: true,
+        counts: expect.objectContaining({ waiting: 2, failed: 1, active: 0 }),
+      });
+    });
+
+    it('should pause, resume and clean queues', async () => {
+      await queueManager.pauseQueue({ queueId: 'emails' });
+      await queueManager.resumeQueue({ queueId: 'emails' });
+
+      await expect(
+        queueManager.cleanQueue({ queueId: 'emails', state: 'completed', olderThanSeconds: 60, limit: 10 }),
+      ).resolves.toEqual(['job-1', 'job-2']);
+
+      expect(emails.pause).toHaveBeenCalled();
+      expect(emails.resume).toHaveBeenCalled();
+      expect(emails.clean).toHaveBeenCalledWith(60000, 10, 'completed');
+      expect(mockLogger.custom).toHaveBeenLastCalledWith({
+        level: 'queue',
+        message: 'Queue cleaned',
+        meta: { Queue: 'emails', State: 'completed', 'Job Count': 2 },
+      });
+    });
+
+    it('should report unknown queues and jobs as not found', async () => {
+      await expect(queueManager.getJobDetail({ queueId: 'emails', jobId: 'job-1' })).rejects.toMatchObject({
+        name: 'QueueError',
+        code: 'ERR_RESOURCE_NOT_FOUND',
+        message: 'Job not found (Queue ID: emails | Job ID: job-1)',
+      });
+      await expect(queueManager.retryJob({ queueId: 'audio', jobId: 'job-1' })).rejects.toMatchObject({
+        code: 'ERR_RESOURCE_NOT_FOUND',
+        message: 'Queue not found (Queue ID: audio)',
+      });
+    });
   });
 
   describe('listAllJobsWithStatus', () => {
@@ -0,0 +1,202 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { QueueJob } from '../../../src/queue/job.interface.js';
+import QueueScheduler from '../../../src/queue/scheduler.js';
+
+/** In-memory stand-in for the job scheduler and Redis calls of a BullMQ queue */
+const createQueue = (name = 'reports') => {
+  const strings = new Map<string, string>();
+  const hashes = new Map<string, Map<string, string>>();
+  const schedulers = new Map<string, any>();
+
+  const hash = (key: string) => {
+    const fields = hashes.get(key) ?? new Map<string, string>();
+
+    hashes.set(key, fields);
+
+    return fields;
+  };
+
+  const client = {
+    set: vi.fn(async (key: string, value: string, _ex: string, _ttl: number, _nx: string) => {
+      if (strings.has(key)) {
+        return null;
+      }
+
+      strings.set(key, value);
+
+      return 'OK';
+    }),
+    eval: vi.fn(async (_script: string, _keys: number, key: string, token: string) => {
+      if (strings.get(key) !== token) {
+        return 0;
+      }
+
+      strings.delete(key);
+
+      return 1;
+    }),
+    hgetall: vi.fn(async (key: string) => Object.fromEntries(hash(key))),
+    hset: vi.fn(async (key: string, field: string, value: string) => hash(key).set(field, value)),
+    hdel: vi.fn(async (key: string, ...fields: string[]) => {
+      for (const field of fields) hash(key).delete(field);
+    }),
+  };
+
+  const queue = {
+    name,
+    client: Promise.resolve(client),
+    toKey: (type: string) => `bull:${name}:${type}`,
+    upsertJobScheduler: vi.fn(async (id: string, repeat: any, template: any) => {
+      schedulers.set(id, {
+        key: id,
+        name: template.name,
+        ...repeat,
+        next: 1000,
+        template: { data: template.data },
+      });
+    }),
+    getJobScheduler: vi.fn(async (id: string) => schedulers.get(id)),
+    getJobSchedulers: vi.fn(async () => [...schedulers.values()]),
+    removeJobScheduler: vi.fn(async (id: string) => schedulers.delete(id)),
+    add: vi.fn(async (jobName: string, data: unknown) => ({ id: 'job-1', name: jobName, data })),
+  };
+
+  return { queue: queue as any, client, strings, schedulers };
+};
+
+const jobs: QueueJob[] = [
+  { id: 'daily-report', schedule: { cron: '0 3 * * *', timezone: 'Europe/Oslo', payload: { format: 'pdf' } } },
+  { id: 'cleanup', schedule: { id: 'hourly-cleanup', every: 3600000, payload: () => ({ before: Date.now() }) } },
+  { id: 'export' },
+];
+
+describe('QueueScheduler', () => {
+  let fake: ReturnType<typeof createQueue>;
+
+  beforeEach(() => {
+    fake = createQueue();
+  });
+
+  it('should register job schedulers of scheduled jobs', async () => {
+    await expect(QueueScheduler.reconcile({ queue: fake.queue, jobs })).resolves.toBe(true);
+
+    expect(fake.queue.upsertJobScheduler.mock.calls).toEqual([
+      [
+        'daily-report',
+        { pattern: '0 3 * * *', tz: 'Europe/Oslo' },
+        { name: 'daily-report', data: { payload: { format: 'pdf' }, scheduleId: 'daily-report' }, opts: undefined },
+      ],
+      [
+        'hourly-cleanup',
+        { every: 3600000 },
+        { name: 'cleanup', data: { payload: {}, scheduleId: 'hourly-cleanup' }, opts: undefined },
+      ],
+    ]);
+
+    // The lock is released
+    expect(fake.strings.size).toBe(0);
+  });
+
+  it('should remove job schedulers that are no longer declared', async () => {
+    fake.schedulers.set('weekly-report', { key: 'weekly-report', name: 'weekly-report', pattern: '0 0 * * 0' });
+
+    await QueueScheduler.reconcile({ queue: fake.queue, jobs });
+
+    expect(fake.queue.removeJobScheduler).toHaveBeenCalledWith('weekly-report');
+    expect([...fake.schedulers.keys()]).toEqual(['daily-report', 'hourly-cleanup']);
+  });
+
+  it('should skip reconciliation while another process holds the lock', async () => {
+    fake.strings.set('bull:reports:schedules:lock', 'other-process');
+
+    await expect(QueueScheduler.reconcile({ queue: fake.queue, jobs })).resolves.toBe(false);
+
+    expect(fake.queue.upsertJobScheduler).not.toHaveBeenCalled();
+    expect(fake.strings.get('bull:reports:schedules:lock')).toBe('other-process');
+  });
+
+  it('should require either cron or every', async () => {
+    await expect(
+      QueueScheduler.reconcile({ queue: fake.queue, jobs: [{ id: 'report', schedule: { payload: {} } }] }),
+    ).rejects.toMatchObject({
+      name: 'QueueError',
+      message: 'Schedule requires either cron or every (Job ID: report | Schedule ID: report)',
+    });
+  });
+
+  it('should keep paused schedules paused across reconciliations', async () => {
+    await QueueScheduler.reconcile({ queue: fake.queue, jobs });
+
+    await expect(QueueScheduler.pause({ queue: fake.queue, id: 'daily-report' })).resolves.toMatchObject({
+      id: 'daily-report',
+      paused: true,
+    });
+
+    await QueueScheduler.reconcile({ queue: fake.queue, jobs });
+
+    expect(fake.schedulers.has('daily-report')).toBe(false);
+    await expect(QueueScheduler.list({ queue: fake.queue })).resolves.toEqual([
+      {
+        id: 'daily-report',
+        queue: 'reports',
+        jobName: 'daily-report',
+        cron: '0 3 * * *',
+        timezone: 'Europe/Oslo',
+        paused: true,
+      },
+      {
+        id: 'hourly-cleanup',
+        queue: 'reports',
+        jobName: 'cleanup',
+        every: 3600000,
+        paused: false,
+        next: new Date(1000),
+      },
+    ]);
+
+    await expect(QueueScheduler.resume({ queue: fake.queue, id: 'daily-report' })).resolves.toMatchObject({
+      paused: false,
+      next: new Date(1000),
+    });
+    expect(fake.schedulers.has('daily-report')).toBe(true);
+  });
+
+  it('should forget paused schedules that are no longer declared', async () => {
+    await QueueScheduler.reconcile({ queue: fake.queue, jobs });
+    await QueueScheduler.pause({ queue: fake.queue, id: 'daily-report' });
+
+    await QueueScheduler.reconcile({ queue: fake.queue, jobs: jobs.slice(1) });
+
+    await expect(QueueScheduler.list({ queue: fake.queue })).resolves.toMatchObject([{ id: 'hourly-cleanup' }]);
+  });
+
+  it('should trigger runs of schedules', async () => {
+    await QueueScheduler.reconcile({ queue: fake.queue, jobs });
+
+    await QueueScheduler.trigger({ queue: fake.queue, id: 'daily-report' });
+
+    expect(fake.queue.add).toHaveBeenCalledWith(
+      'daily-report',
+      { payload: { format: 'pdf' }, scheduleId: 'daily-report' },
+      undefined,
+    );
+
+    await expect(QueueScheduler.trigger({ queue: fake.queue, id: 'monthly-report' })).rejects.toMatchObject({
+      name: 'QueueError',
+      message: 'Schedule not found (Queue ID: reports | Schedule ID: monthly-report)',
+    });
+  });
+
+  it('should hold one run lock per schedule', async () => {
+    const token = (await QueueScheduler.acquireRunLock({ queue: fake.queue, id: 'daily-report' })) as string;
+
+    expect(token).toEqual(expect.any(String));
+    await expect(QueueScheduler.acquireRunLock({ queue: fake.queue, id: 'daily-report' })).resolves.toBeNull();
+
+    await QueueScheduler.releaseRunLock({ queue: fake.queue, id: 'daily-report', token });
+
+    await expect(QueueScheduler.acquireRunLock({ queue: fake.queue, id: 'daily-report' })).resolves.toEqual(
+      expect.any(String),
+    );
+  });
+});
@@ -45,6 +45,7 @@ describe('QueueWorker', () => {
 
     mockQueueManager = {
       log: vi.fn(),
+      handleFailedJob: vi.fn().mockResolvedValue(undefined),
     } as any;
 
     const processor = vi.fn();
@@ -125,6 +126,7 @@ describe('QueueWorker', () => {
       failedHandler?.(mockJob as Job, error);
 
       expect(Logger.error).toHaveBeenCalledWith({ error });
+      expect(mockQueueManager.handleFailedJob).toHaveBeenCalledWith({ job: mockJob, error });
     });
 
     it('should handle failed job without job object', async () => {
@@ -135,6 +137,7 @@ describe('QueueWorker', () => {
       failedHandler?.(undefined, error);
 
       expect(Logger.error).toHaveBeenCalledWith({ error });
+      expect(mockQueueManager.handleFailedJob).not.toHaveBeenCalled();
     });
   });
 
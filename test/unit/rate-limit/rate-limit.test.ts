@@ -0,0 +1,176 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import MemoryRateLimitStore from '../../../src/rate-limit/memory-store.js';
+import RateLimiter, { parseTimeWindow } from '../../../src/rate-limit/rate-limiter.js';
+import RedisRateLimitStore from '../../../src/rate-limit/redis-store.js';
+
+const consume = (store: MemoryRateLimitStore, options: Partial<Parameters<MemoryRateLimitStore['consume']>[0]> = {}) =>
+  store.consume({ key: 'ip:1', algorithm: 'fixed-window', max: 2, timeWindowMs: 1000, ...options });
+
+describe('MemoryRateLimitStore', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should count requests per fixed window', async () => {
+    const store = new MemoryRateLimitStore();
+
+    await expect(consume(store)).resolves.toEqual({
+      allowed: true,
+      limit: 2,
+      remaining: 1,
+      current: 1,
+      resetMs: 1000,
+    });
+    await consume(store);
+
+    vi.setSystemTime(400);
+
+    await expect(consume(store)).resolves.toMatchObject({ allowed: false, remaining: 0, current: 3, resetMs: 600 });
+    await expect(consume(store, { key: 'ip:2' })).resolves.toMatchObject({ allowed: true });
+
+    vi.setSystemTime(1000);
+
+    await expect(consume(store)).resolves.toMatchObject({ allowed: true, current: 1 });
+  });
+
+  it('should count allowed requests of the last window with a sliding window', async () => {
+    const store = new MemoryRateLimitStore();
+    const options = { algorithm: 'sliding-window' as const };
+
+    await consume(store, options);
+    vi.setSystemTime(600);
+    await consume(store, options);
+
+    await expect(consume(store, options)).resolves.toMatchObject({ allowed: false, resetMs: 400 });
+
+    // The first request left the window, the rejected one was not recorded
+    vi.setSystemTime(1001);
+
+    await expect(consume(store, options)).resolves.toMatchObject({ allowed: true, remaining: 0, current: 2 });
+  });
+
+  it('should refill token buckets over the window', async () => {
+    const store = new MemoryRateLimitStore();
+    const options = { algorithm: 'token-bucket' as const, max: 4 };
+
+    for (let i = 0; i < 4; i++) {
+      await consume(store, options);
+    }
+
+    await expect(consume(store, options)).resolves.toMatchObject({ allowed: false, remaining: 0, resetMs: 250 });
+
+    vi.setSystemTime(500);
+
+    await expect(consume(store, options)).resolves.toMatchObject({ allowed: true, remaining: 1, current: 3 });
+  });
+
+  it('should evict the least recently used counters', async () => {
+    const store = new MemoryRateLimitStore({ maxEntries: 2 });
+
+    await consume(store, { key: 'ip:1' });
+    await consume(store, { key: 'ip:2' });
+    await consume(store, { key: 'ip:1' });
+    await consume(store, { key: 'ip:3' });
+
+    await expect(consume(store, { key: 'ip:1' })).resolves.toMatchObject({ current: 3 });
+    await expect(consume(store, { key: 'ip:2' })).resolves.toMatchObject({ current: 1 });
+  });
+});
+
+describe('RedisRateLimitStore', () => {
+  it('should count requests with a Lua script', async () => {
+    const evalScript = vi.fn().mockResolvedValue([0, 0, 11, 1500]);
+    const store = new RedisRateLimitStore({ redisInstance: { client: { eval: evalScript } } as any, keyPrefix: 'rl:' });
+
+    await expect(
+      store.consume({ key: 'GET:/posts:ip:1', algorithm: 'sliding-window', max: 10, timeWindowMs: 60000 }),
+    ).resolves.toEqual({ allowed: false, limit: 10, remaining: 0, current: 11, resetMs: 1500 });
+
+    expect(evalScript).toHaveBeenCalledWith(
+      expect.stringContaining('ZREMRANGEBYSCORE'),
+      1,
+      'rl:sliding-window:GET:/posts:ip:1',
+      10,
+      60000,
+      expect.any(String),
+    );
+  });
+});
+
+describe('RateLimiter', () => {
+  it('should parse time windows', () => {
+    expect(parseTimeWindow(undefined)).toBe(60000);
+    expect(parseTimeWindow(1500)).toBe(1500);
+    expect(parseTimeWindow('500ms')).toBe(500);
+    expect(parseTimeWindow('10 seconds')).toBe(10000);
+    expect(parseTimeWindow('1 minute')).toBe(60000);
+    expect(parseTimeWindow('2h')).toBe(7200000);
+    expect(() => parseTimeWindow('soon')).toThrow('Invalid rate limit time window: soon');
+  });
+
+  it('should resolve named policies', () => {
+    const rateLimiter = new RateLimiter({ config: { policies: { login: { max: 5, timeWindow: '15 minutes' } } } });
+
+    expect(rateLimiter.getPolicy('login')).toEqual({ max: 5, timeWindow: '15 minutes' });
+    expect(rateLimiter.getPolicy({ max: 1 })).toEqual({ max: 1 });
+    expect(() => rateLimiter.getPolicy('signup')).toThrow('Rate limit policy not found: signup');
+  });
+
+  it('should require Redis for the redis store', () => {
+    expect(() => new RateLimiter({ config: { store: 'redis' } })).toThrow(
+      'The redis rate limit store requires a Redis instance',
+    );
+  });
+
+  it('should keep counters in Redis when Redis is available unless the memory store is chosen', async () => {
+    const evalScript = vi.fn().mockResolvedValue([1, 4, 1, 60000]);
+    const redisInstance = { client: { eval: evalScript } } as any;
+
+    await new RateLimiter({ redisInstance }).consume({ key: 'global:ip:1', policy: { max: 5 } });
+
+    expect(evalScript).toHaveBeenCalledTimes(1);
+
+    await new RateLimiter({ config: { store: 'memory' }, redisInstance }).consume({
+      key: 'global:ip:1',
+      policy: { max: 5 },
+    });
+
+    expect(evalScript).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep counters in memory on the in-memory Redis stub', async () => {
+    const evalScript = vi.fn();
+    const redisInstance = { client: { eval: evalScript }, inMemory: true } as any;
+
+    await new RateLimiter({ redisInstance }).consume({ key: 'global:ip:1', policy: { max: 5 } });
+
+    expect(evalScript).not.toHaveBeenCalled();
+    expect(() => new RateLimiter({ config: { store: 'redis' }, redisInstance })).toThrow(
+      'The redis rate limit store cannot run on the in-memory Redis stub',
+    );
+  });
+
+  it('should consume with the policy defaults', async () => {
+    const evalScript = vi.fn().mockResolvedValue([1, 999, 1, 60000]);
+    const rateLimiter = new RateLimiter({
+      config: { store: 'redis' },
+      redisInstance: { client: { eval: evalScript } } as any,
+    });
+
+    await expect(rateLimiter.consume({ key: 'global:ip:1', policy: {} })).resolves.toMatchObject({ allowed: true });
+
+    expect(evalScript).toHaveBeenCalledWith(
+      expect.any(String),
+      1,
+      'rate-limit:fixed-window:global:ip:1',
+      1000,
+      60000,
+      expect.any(String),
+    );
+  });
+});
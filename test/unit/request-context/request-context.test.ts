@@ -3,10 +3,12 @@ import {
   getContextMetadata,
   getRequestContext,
   getRequestId,
+  getTenantId,
   getUserId,
   runWithContext,
   runWithContextAsync,
   setContextMetadata,
+  setTenantId,
   setUserId,
 } from '../../../src/request-context/request-context.js';
 
@@ -228,6 +230,24 @@ describe('Request Context', () => {
     });
   });
 
+  describe('tenantId management', () => {
+    it('should use provided tenant ID in options', () => {
+      runWithContext({ tenantId: 'acme' }, () => {
+        expect(getTenantId()).toBe('acme');
+      });
+    });
+
+    it('should update tenant ID in existing context', () => {
+      runWithContext({}, () => {
+        expect(getTenantId()).toBeUndefined();
+        setTenantId('globex');
+        expect(getTenantId()).toBe('globex');
+      });
+
+      expect(getTenantId()).toBeUndefined();
+    });
+  });
+
   describe('metadata management', () => {
     it('should store and retrieve metadata', () => {
       runWithContext({}, () => {
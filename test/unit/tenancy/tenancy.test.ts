@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { runWithContext } from '../../../src/request-context/index.js';
+import type { ApplicationTenancyConfig, TenantRequest } from '../../../src/tenancy/tenancy.interface.js';
+import Tenancy from '../../../src/tenancy/tenancy.js';
+
+const createRequest = ({
+  hostname = 'localhost',
+  headers = {},
+}: {
+  hostname?: string;
+  headers?: Record<string, string | string[]>;
+}): TenantRequest => ({ hostname, headers });
+
+describe('Tenancy', () => {
+  it('should resolve the tenant from the subdomain', async () => {
+    const config: ApplicationTenancyConfig = { enabled: true, resolver: 'subdomain' };
+
+    await expect(
+      Tenancy.resolveTenantId({ request: createRequest({ hostname: 'acme.example.com' }), config }),
+    ).resolves.toBe('acme');
+    await expect(
+      Tenancy.resolveTenantId({ request: createRequest({ hostname: 'example.com' }), config }),
+    ).resolves.toBeUndefined();
+  });
+
+  it('should strip the base domain', async () => {
+    const config: ApplicationTenancyConfig = { enabled: true, resolver: 'subdomain', baseDomain: 'app.example.com' };
+
+    await expect(
+      Tenancy.resolveTenantId({ request: createRequest({ hostname: 'acme.app.example.com' }), config }),
+    ).resolves.toBe('acme');
+    await expect(
+      Tenancy.resolveTenantId({ request: createRequest({ hostname: 'acme.other.com' }), config }),
+    ).resolves.toBeUndefined();
+  });
+
+  it('should resolve the tenant from a header', async () => {
+    await expect(
+      Tenancy.resolveTenantId({
+        request: createRequest({ headers: { 'x-tenant-id': 'acme' } }),
+        config: { enabled: true, resolver: 'header' },
+      }),
+    ).resolves.toBe('acme');
+    await expect(
+      Tenancy.resolveTenantId({
+        request: createRequest({ headers: { 'x-organization': 'globex' } }),
+        config: { enabled: true, resolver: 'header', header: 'X-Organization' },
+      }),
+    ).resolves.toBe('globex');
+  });
+
+  it('should resolve the tenant with a custom resolver', async () => {
+    const config: ApplicationTenancyConfig = {
+      enabled: true,
+      resolver: request => (request.hostname === 'acme.test' ? 'acme' : undefined),
+    };
+
+    await expect(Tenancy.resolveTenantId({ request: createRequest({ hostname: 'acme.test' }), config })).resolves.toBe(
+      'acme',
+    );
+  });
+
+  it('should leave the jwt resolver to authentication', async () => {
+    await expect(
+      Tenancy.resolveTenantId({ request: createRequest({}), config: { enabled: true, resolver: 'jwt' } }),
+    ).resolves.toBeUndefined();
+    expect(
+      Tenancy.getTenantIdFromClaims({ payload: { org: 42 }, config: { enabled: true, resolver: 'jwt', claim: 'org' } }),
+    ).toBe('42');
+  });
+
+  it('should only accept safe tenant IDs', () => {
+    expect(Tenancy.isValidTenantId('acme-corp_1')).toBe(true);
+    expect(Tenancy.isValidTenantId('acme.corp')).toBe(false);
+    expect(Tenancy.isValidTenantId('-acme')).toBe(false);
+    expect(Tenancy.isValidTenantId('a'.repeat(64))).toBe(false);
+    expect(Tenancy.isValidTenantId(undefined)).toBe(false);
+  });
+
+  it('should exclude the health check paths by default', () => {
+    const config: ApplicationTenancyConfig = { enabled: true, resolver: 'header' };
+
+    expect(Tenancy.isExcludedPath({ config, path: '/health/ready?verbose=1' })).toBe(true);
+    expect(Tenancy.isExcludedPath({ config, path: '/api/users' })).toBe(false);
+
+    const adminConfig: ApplicationTenancyConfig = { ...config, excludePaths: ['/admin/queues/*'] };
+
+    expect(Tenancy.isExcludedPath({ config: adminConfig, path: '/admin/queues' })).toBe(true);
+    expect(Tenancy.isExcludedPath({ config: adminConfig, path: '/admin/queues/emails/jobs?state=failed' })).toBe(true);
+    expect(Tenancy.isExcludedPath({ config: adminConfig, path: '/admin/queues-export' })).toBe(false);
+  });
+
+  it('should get the settings of the current tenant', () => {
+    const config: ApplicationTenancyConfig = {
+      enabled: true,
+      resolver: 'header',
+      tenants: { acme: { config: { maxUploadSize: 100 } } },
+    };
+
+    runWithContext({ tenantId: 'acme' }, () => {
+      expect(Tenancy.getTenantConfig({ config })).toEqual({ maxUploadSize: 100 });
+    });
+    expect(Tenancy.getTenantConfig({ config, tenantId: 'globex' })).toEqual({});
+  });
+
+  it('should prefix keys with the tenant', () => {
+    expect(Tenancy.getTenantScopedKey({ key: 'user:1', tenantId: 'acme' })).toBe('tenant:acme:user:1');
+    expect(Tenancy.getTenantScopedKey({ key: 'user:1' })).toBe('user:1');
+
+    runWithContext({ tenantId: 'globex' }, () => {
+      expect(Tenancy.getTenantScopedKey({ key: 'user:1' })).toBe('tenant:globex:user:1');
+    });
+  });
+});
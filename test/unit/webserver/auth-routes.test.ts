@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { defineAuthRoutes } from '../../../src/webserver/auth-routes.js';
+import AuthTokenController from '../../../src/webserver/controller/auth-token.js';
+
+describe('defineAuthRoutes', () => {
+  it('should define refresh, revoke and JWKS routes', () => {
+    const routes = defineAuthRoutes();
+
+    expect(
+      routes.map(route => [('method' in route && route.method) || undefined, route.path, (route as any).action]),
+    ).toEqual([
+      ['POST', '/auth/refresh', 'refresh'],
+      ['POST', '/auth/revoke', 'revoke'],
+      ['GET', '/.well-known/jwks.json', 'jwks'],
+    ]);
+    expect(routes.every(route => route.controller === AuthTokenController)).toBe(true);
+    expect(routes[0]?.schema?.body?.safeParse({ refreshToken: '' }).success).toBe(false);
+  });
+
+  it('should allow custom paths and omitting routes', () => {
+    const routes = defineAuthRoutes({ refreshPath: '/token/refresh', revokePath: false, tags: ['tokens'] });
+
+    expect(routes.map(route => route.path)).toEqual(['/token/refresh', '/.well-known/jwks.json']);
+    expect(routes[0]?.openapi?.tags).toEqual(['tokens']);
+  });
+});
@@ -0,0 +1,148 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import ts from 'typescript';
+import { afterAll, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import { generateApiClient, jsonSchemaToTypeScript } from '../../../src/webserver/client-generator.js';
+import { defineRoute } from '../../../src/webserver/define-route.js';
+
+const ClientUser = z.object({ id: z.number(), name: z.string(), email: z.string().optional() }).meta({
+  id: 'ClientTestUser',
+});
+
+const routes = [
+  defineRoute({
+    method: 'GET',
+    path: '/users/:id',
+    schema: {
+      params: z.object({ id: z.coerce.number() }),
+      querystring: z.object({ include: z.array(z.string()).optional() }),
+      response: { 200: ClientUser },
+    },
+    handler: async (_request, reply) => reply.send(),
+  }),
+  defineRoute({
+    method: 'POST',
+    path: '/users',
+    schema: {
+      body: ClientUser.omit({ id: true }),
+      response: { 201: ClientUser },
+    },
+    handler: async (_request, reply) => reply.send(),
+    openapi: { operationId: 'createUser' },
+  }),
+  defineRoute({
+    method: 'DELETE',
+    path: '/users/:id',
+    handler: async (_request, reply) => reply.send(),
+  }),
+];
+
+describe('jsonSchemaToTypeScript', () => {
+  it('should convert primitives, arrays, unions and refs', () => {
+    expect(jsonSchemaToTypeScript({ type: 'integer' })).toBe('number');
+    expect(jsonSchemaToTypeScript({ type: 'array', items: { anyOf: [{ type: 'string' }, { type: 'null' }] } })).toBe(
+      '(string | null)[]',
+    );
+    expect(jsonSchemaToTypeScript({ enum: ['a', 'b'] })).toBe('"a" | "b"');
+    expect(jsonSchemaToTypeScript({ $ref: '#/components/schemas/User' })).toBe('User');
+    expect(jsonSchemaToTypeScript({ type: 'object', additionalProperties: { type: 'number' } })).toBe(
+      'Record<string, number>',
+    );
+    expect(jsonSchemaToTypeScript({})).toBe('unknown');
+  });
+
+  it('should mark optional properties and quote invalid identifiers', () => {
+    expect(
+      jsonSchemaToTypeScript({
+        type: 'object',
+        properties: { id: { type: 'number' }, 'sort-order': { type: 'string' } },
+        required: ['id'],
+      }),
+    ).toBe('{\n  id: number;\n  "sort-order"?: string;\n}');
+  });
+});
+
+describe('generateApiClient', () => {
+  const outputDirectory = mkdtempSync(path.join(os.tmpdir(), 'pxl-client-'));
+  const source = generateApiClient({ routes });
+
+  afterAll(() => {
+    rmSync(outputDirectory, { recursive: true, force: true });
+  });
+
+  it('should emit component types and one typed function per route', () => {
+    expect(source).toContain('export type ClientTestUser = {');
+    expect(source).toContain('export type ApiErrorResponse = {');
+    expect(source).toContain('export type GetUsersByIdResponse = ClientTestUser;');
+    expect(source).toContain('export type CreateUserResponse = ClientTestUser;');
+    expect(source).toContain('export type DeleteUsersByIdResponse = unknown;');
+    expect(source).toMatch(/getUsersById: \(input: GetUsersByIdInput, init\?: RequestInit\)/);
+    expect(source).toMatch(/createUser: \(input: CreateUserInput, init\?: RequestInit\)/);
+  });
+
+  it('should produce a module that type-checks in strict mode', () => {
+    const filePath = path.join(outputDirectory, 'api-client.ts');
+    writeFileSync(filePath, source);
+
+    const program = ts.createProgram([filePath], {
+      strict: true,
+      noEmit: true,
+      target: ts.ScriptTarget.ES2022,
+      module: ts.ModuleKind.ESNext,
+      lib: ['lib.es2022.d.ts', 'lib.dom.d.ts'],
+      types: [],
+    });
+
+    const diagnostics = ts
+      .getPreEmitDiagnostics(program)
+      .map(diagnostic => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+
+    expect(diagnostics).toEqual([]);
+  });
+
+  it('should interpolate params, serialize query and reject with the error envelope', async () => {
+    const { outputText } = ts.transpileModule(source, {
+      compilerOptions: { target: ts.ScriptTarget.ES2022, module: ts.ModuleKind.ESNext },
+    });
+    const modulePath = path.join(outputDirectory, 'api-client.mjs');
+    writeFileSync(modulePath, outputText);
+
+    const { createApiClient, ApiClientError } = await import(pathToFileURL(modulePath).href);
+
+    const errorEnvelope = {
+      error: { message: 'User not found', type: 'not_found', timestamp: 'now', requestId: 'req-1' },
+    };
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(
+        new Response(JSON.stringify({ id: 7, name: 'Ada' }), { headers: { 'content-type': 'application/json' } }),
+      )
+      .mockResolvedValueOnce(
+        new Response(JSON.stringify(errorEnvelope), { status: 404, headers: { 'content-type': 'application/json' } }),
+      );
+
+    const client = createApiClient({
+      baseUrl: 'https://api.test/',
+      headers: () => ({ authorization: 'Bearer token' }),
+      fetch: fetchMock,
+    });
+
+    await expect(client.getUsersById({ params: { id: 7 }, query: { include: ['posts', 'tags'] } })).resolves.toEqual({
+      id: 7,
+      name: 'Ada',
+    });
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://api.test/users/7?include=posts&include=tags',
+      expect.objectContaining({ method: 'GET', headers: { authorization: 'Bearer token' } }),
+    );
+
+    const failure = client.getUsersById({ params: { id: 8 } });
+
+    await expect(failure).rejects.toBeInstanceOf(ApiClientError);
+    await expect(failure).rejects.toMatchObject({ status: 404, body: errorEnvelope, message: 'User not found' });
+  });
+});
@@ -10,10 +10,8 @@ import { mockRedisInstance } from '../../../utils/mocks/redis-mocks.js';
 // Mock JWT
 vi.mock('../../../../src/auth/jwt.js', () => ({
   default: {
-    importJwtSecretKey: vi.fn().mockResolvedValue('mock-secret-key'),
-    jwtVerify: vi.fn().mockResolvedValue({
-      payload: { sub: '123', exp: Date.now() + 3600000 },
-    }),
+    isConfigured: vi.fn((config?: { jwtSecretKey?: string }) => Boolean(config?.jwtSecretKey)),
+    verifyToken: vi.fn().mockResolvedValue({ sub: '123', exp: Date.now() + 3600000 }),
   },
 }));
 
@@ -46,6 +44,10 @@ class TestController extends BaseController {
   public testSendErrorResponse(args: any) {
     return this.sendErrorResponse(args);
   }
+
+  public testAuthorizeRequest(args: any) {
+    return this.authorizeRequest(args);
+  }
 }
 
 describe('BaseController', () => {
@@ -384,9 +386,20 @@ describe('BaseController', () => {
       expect(result).toEqual({
         userId: 123,
         payload: { sub: '123', exp: expect.any(Number) },
+        strategy: 'jwt',
       });
     });
 
+    it('should reuse the user authenticated by a guard', async () => {
+      const user = { userId: 7, payload: { sub: '7' }, strategy: 'apiKey' };
+      (mockRequest as any).user = user;
+
+      const result = await controller.testAuthenticateRequest(mockRequest, mockReply);
+
+      expect(result).toBe(user);
+      expect(mockReply.status).not.toHaveBeenCalled();
+    });
+
     it('should return null when JWT secret not configured', async () => {
       mockRequest.headers.authorization = 'Bearer token';
 
@@ -456,7 +469,7 @@ describe('BaseController', () => {
 
     it('should return null when token verification fails', async () => {
       const Jwt = await import('../../../../src/auth/jwt.js');
-      vi.mocked(Jwt.default.jwtVerify).mockRejectedValueOnce(new Error('Invalid token'));
+      vi.mocked(Jwt.default.verifyToken).mockRejectedValueOnce(new Error('Invalid token'));
 
       const controllerWithAuth = new TestController({
         applicationConfig: {
@@ -489,9 +502,7 @@ describe('BaseController', () => {
 
     it('should return null when token payload has no sub', async () => {
       const Jwt = await import('../../../../src/auth/jwt.js');
-      vi.mocked(Jwt.default.jwtVerify).mockResolvedValueOnce({
-        payload: { exp: Date.now() + 3600000 },
-      } as any);
+      vi.mocked(Jwt.default.verifyToken).mockResolvedValueOnce({ exp: Date.now() + 3600000 });
 
       const controllerWithAuth = new TestController({
         applicationConfig: {
@@ -522,4 +533,49 @@ describe('BaseController', () => {
       expect(mockReply.status).toHaveBeenCalledWith(StatusCodes.UNAUTHORIZED);
     });
   });
+
+  describe('authorizeRequest', () => {
+    it('should return the user set by a guard when permissions are granted', async () => {
+      const user = { userId: 1, payload: { permissions: ['posts:write'] } };
+      (mockRequest as any).user = user;
+
+      const result = await controller.testAuthorizeRequest({
+        request: mockRequest,
+        reply: mockReply,
+        requires: ['posts:write'],
+      });
+
+      expect(result).toBe(user);
+      expect(mockReply.status).not.toHaveBeenCalled();
+    });
+
+    it('should send a 403 authorization error when permissions are missing', async () => {
+      (mockRequest as any).user = { userId: 1, payload: { permissions: ['posts:read'] } };
+
+      const result = await controller.testAuthorizeRequest({
+        request: mockRequest,
+        reply: mockReply,
+        requires: ['posts:write'],
+      });
+
+      expect(result).toBeNull();
+      expect(mockReply.status).toHaveBeenCalledWith(StatusCodes.FORBIDDEN);
+      expect(mockReply.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          error: expect.objectContaining({ message: 'Insufficient permissions.', type: 'authorization' }),
+        }),
+      );
+    });
+
+    it('should authenticate the request when no user is set', async () => {
+      const result = await controller.testAuthorizeRequest({
+        request: mockRequest,
+        reply: mockReply,
+        requires: ['posts:write'],
+      });
+
+      expect(result).toBeNull();
+      expect(mockReply.status).toHaveBeenCalledWith(StatusCodes.INTERNAL_SERVER_ERROR);
+    });
+  });
 });
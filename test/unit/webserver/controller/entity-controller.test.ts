@@ -0,0 +1,882 @@
+import { OptimisticLockError } from '@mikro-orm/core';
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { StatusCodes } from 'http-status-codes';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type {
+  EntityBulkOptions,
+  EntityConcurrencyOptions,
+  EntityPaginationOptions,
+  EntityPolicies,
+  EntityScopeContext,
+} from '../../../../src/webserver/controller/entity.interface.js';
+import EntityController from '../../../../src/webserver/controller/entity.js';
+import EntityETag from '../../../../src/webserver/controller/entity-etag.js';
+
+vi.mock('../../../../src/logger/index.js', () => ({
+  Logger: {
+    custom: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+const PostEntity = {
+  singularNameCapitalized: 'Post',
+  getSearchFields: () => ['title'],
+  validateCreate: (body: any) => (body?.title ? { value: body } : { error: { message: '"title" is required' } }),
+  validateUpdate: (body: unknown) => ({ value: body }),
+  prototype: {},
+};
+
+const postMetadata = {
+  className: 'Post',
+  primaryKeys: ['id'],
+  properties: {
+    id: { name: 'id', kind: 'scalar', runtimeType: 'number' },
+    title: { name: 'title', kind: 'scalar', runtimeType: 'string' },
+    passwordHash: { name: 'passwordHash', kind: 'scalar', runtimeType: 'string', hidden: true },
+  },
+};
+
+const entityManager = {
+  getMetadata: vi.fn(() => postMetadata),
+  findAndCount: vi.fn(),
+  findByCursor: vi.fn(),
+  find: vi.fn(),
+  findOne: vi.fn(),
+  findOneOrFail: vi.fn(async (_entity, filter) => ({ id: filter.id })),
+  assign: vi.fn(),
+  flush: vi.fn(),
+  create: vi.fn((_entity, value) => value),
+  persist: vi.fn(() => ({ flush: vi.fn() })),
+  remove: vi.fn(() => ({ flush: vi.fn() })),
+  transactional: vi.fn(async (callback: (em: unknown) => Promise<unknown>) => callback(entityManager)),
+};
+
+class PostController extends EntityController {
+  protected entityName = 'post';
+
+  protected policies: EntityPolicies = {
+    getMany: ['posts:read'],
+    createOne: ['posts:write'],
+    deleteOne: ({ user }) => user.roles?.includes('admin') ?? false,
+  };
+
+  protected getEntity = async () => PostEntity as any;
+
+  protected scopeQuery({ user }: EntityScopeContext) {
+    return user ? { owner: user.userId } : undefined;
+  }
+}
+
+const createController = <T extends PostController = PostController>(
+  ControllerClass: new (...args: ConstructorParameters<typeof PostController>) => T = PostController as any,
+) =>
+  new ControllerClass({
+    applicationConfig: { name: 'test-app', instanceId: 'test', rootDirectory: '/test' },
+    webServerOptions: { host: '0.0.0.0', port: 3001, controllersDirectory: '/test/controllers' },
+    redisInstance: {} as any,
+    queueManager: {} as any,
+    eventManager: {} as any,
+    databaseInstance: {
+      getEntityManager: vi.fn(() => entityManager),
+      getReadConnectionType: vi.fn(() => 'read'),
+      withTransaction: vi.fn(async (callback: (em: typeof entityManager) => Promise<unknown>) =>
+        callback(entityManager),
+      ),
+    } as any,
+    lifecycleManager: {} as any,
+  });
+
+const createReply = (request: FastifyRequest) =>
+  ({
+    status: vi.fn().mockReturnThis(),
+    send: vi.fn().mockReturnThis(),
+    header: vi.fn().mockReturnThis(),
+    request,
+  }) as unknown as FastifyReply;
+
+describe('EntityController authorization', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    entityManager.findAndCount.mockResolvedValue([[], 0]);
+    entityManager.findOne.mockResolvedValue({ id: 1 });
+  });
+
+  it('should reject users without the permission required by the action policy', async () => {
+    const request = { id: 'req', headers: {}, query: {}, user: { userId: 1, payload: { permissions: [] } } } as any;
+    const reply = createReply(request);
+
+    await createController().getMany(request, reply);
+
+    expect(reply.status).toHaveBeenCalledWith(StatusCodes.FORBIDDEN);
+    expect(reply.send).toHaveBeenCalledWith(
+      expect.objectContaining({ error: expect.objectContaining({ type: 'authorization' }) }),
+    );
+    expect(entityManager.findAndCount).not.toHaveBeenCalled();
+  });
+
+  it('should authenticate requests for actions with a policy', async () => {
+    const request = { id: 'req', headers: {}, body: {} } as any;
+    const reply = createReply(request);
+
+    await createController().createOne(request, reply);
+
+    // Authentication is not configured in this application config
+    expect(reply.status).toHaveBeenCalledWith(StatusCodes.INTERNAL_SERVER_ERROR);
+    expect(entityManager.create).not.toHaveBeenCalled();
+  });
+
+  it('should scope getMany queries to the authorized user', async () => {
+    const request = {
+      id: 'req',
+      headers: {},
+      query: { status: 'published' },
+      user: { userId: 7, payload: { permissions: ['posts:*'] } },
+    } as any;
+    const reply = createReply(request);
+
+    await createController().getMany(request, reply);
+
+    expect(entityManager.findAndCount).toHaveBeenCalledWith(
+      PostEntity,
+      { $and: [{}, { owner: 7 }] },
+      expect.any(Object),
+    );
+  });
+
+  it('should scope single item lookups and apply predicate policies', async () => {
+    const controller = createController();
+
+    const adminRequest = {
+      id: 'req',
+      headers: {},
+      params: { id: 3 },
+      user: { userId: 7, payload: { roles: ['admin'] } },
+    } as any;
+
+    await controller.deleteOne(adminRequest, createReply(adminRequest));
+
+    expect(entityManager.findOne).toHaveBeenCalledWith(PostEntity, { $and: [{ id: 3 }, { owner: 7 }] });
+    expect(entityManager.remove).toHaveBeenCalled();
+
+    const memberRequest = { ...adminRequest, user: { userId: 8, payload: { roles: ['member'] } } };
+    const memberReply = createReply(memberRequest);
+
+    await controller.deleteOne(memberRequest, memberReply);
+
+    expect(memberReply.status).toHaveBeenCalledWith(StatusCodes.FORBIDDEN);
+  });
+
+  it('should leave actions without a policy open', async () => {
+    const request = { id: 'req', headers: {}, params: { id: 3 }, query: {} } as any;
+    const reply = createReply(request);
+
+    await createController().getOne(request, reply);
+
+    expect(entityManager.findOne).toHaveBeenCalledWith(PostEntity, { id: 3 }, expect.any(Object));
+    expect(reply.status).toHaveBeenCalledWith(StatusCodes.OK);
+  });
+});
+
+describe('EntityController queries', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    entityManager.findAndCount.mockResolvedValue([[], 0]);
+  });
+
+  const user = { userId: 7, payload: { permissions: ['posts:read'] } };
+
+  it('should pass the parsed query to the entity manager', async () => {
+    const request = {
+      id: 'req',
+      headers: {},
+      query: { 'filter[title][like]': 'Hello%', sort: '-title', fields: 'title', limit: '10' },
+      user,
+    } as any;
+
+    await createController().getMany(request, createReply(request));
+
+    expect(entityManager.findAndCount).toHaveBeenCalledWith(
+      PostEntity,
+      { $and: [{ title: { $like: 'Hello%' } }, { owner: 7 }] },
+      {
+        limit: 10,
+        offset: 0,
+        orderBy: [{ title: 'DESC' }],
+        populate: [],
+        fields: ['id', 'title'],
+        connectionType: 'read',
+      },
+    );
+  });
+
+  it('should respond with 400 when the query references fields that cannot be queried', async () => {
+    const request = { id: 'req', headers: {}, query: { 'filter[passwordHash][like]': '$2b%' }, user } as any;
+    const reply = createReply(request);
+
+    await createController().getMany(request, reply);
+
+    expect(reply.status).toHaveBeenCalledWith(StatusCodes.BAD_REQUEST);
+    expect(reply.send).toHaveBeenCalledWith({
+      error: expect.objectContaining({
+        message: 'Invalid query parameters',
+        type: 'validation',
+        details: {
+          issues: [{ parameter: 'filter[passwordHash][like]', message: 'Field "passwordHash" cannot be filtered' }],
+        },
+      }),
+    });
+    expect(entityManager.findAndCount).not.toHaveBeenCalled();
+  });
+
+  it('should describe the query capabilities in the options output', async () => {
+    const request = { id: 'req', headers: {} } as any;
+    const reply = createReply(request);
+
+    await createController().options(request, reply);
+
+    expect(reply.send).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          query: expect.objectContaining({ sortable: ['id', 'title'], includable: [] }),
+        }),
+      }),
+    );
+  });
+});
+
+describe('EntityController cursor pagination', () => {
+  class EventController extends PostController {
+    protected pagination: EntityPaginationOptions = { type: 'cursor', defaultLimit: 2 };
+  }
+
+  const createCursorController = () =>
+    new EventController({
+      applicationConfig: { name: 'test-app', instanceId: 'test', rootDirectory: '/test' },
+      webServerOptions: {
+        host: '0.0.0.0',
+        port: 3001,
+        controllersDirectory: '/test/controllers',
+        pagination: { cursorSecret: 'cursor-secret-for-tests' },
+      },
+      redisInstance: {} as any,
+      queueManager: {} as any,
+      eventManager: {} as any,
+      databaseInstance: { getEntityManager: () => entityManager, getReadConnectionType: () => 'read' } as any,
+      lifecycleManager: {} as any,
+    });
+
+  const user = { userId: 7, payload: { permissions: ['posts:read'] } };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    entityManager.findByCursor.mockResolvedValue({
+      items: [{ id: 1 }, { id: 2 }],
+      totalCount: 5,
+      startCursor: 'WzFd',
+      endCursor: 'WzJd',
+      hasPrevPage: false,
+      hasNextPage: true,
+    });
+  });
+
+  it('should page with signed cursors over the sort keys', async () => {
+    const controller = createCursorController();
+    const request = { id: 'req', headers: {}, query: { sort: '-title' }, user } as any;
+    const reply = createReply(request);
+
+    await controller.getMany(request, reply);
+
+    expect(entityManager.findByCursor).toHaveBeenCalledWith(PostEntity, {
+      where: { $and: [{}, { owner: 7 }] },
+      orderBy: [{ title: 'DESC' }, { id: 'ASC' }],
+      populate: [],
+      first: 2,
+      after: undefined,
+      includeCount: true,
+      connectionType: 'read',
+    });
+    expect(entityManager.findAndCount).not.toHaveBeenCalled();
+
+    const response = vi.mocked(reply.send).mock.calls[0]?.[0] as any;
+
+    expect(response).toMatchObject({ data: [{ id: 1 }, { id: 2 }], limit: 2, prev_cursor: null, total_items: 5 });
+    expect(response.next_cursor).toMatch(/^n\.WzJd\./);
+
+    const nextRequest = { ...request, query: { sort: '-title', cursor: response.next_cursor, count: 'false' } };
+
+    await controller.getMany(nextRequest, createReply(nextRequest));
+
+    expect(entityManager.findByCursor).toHaveBeenLastCalledWith(
+      PostEntity,
+      expect.objectContaining({ first: 2, after: 'WzJd', includeCount: false }),
+    );
+  });
+
+  it('should reject cursors used with a different sort', async () => {
+    const controller = createCursorController();
+    const request = { id: 'req', headers: {}, query: { sort: '-title' }, user } as any;
+    const reply = createReply(request);
+
+    await controller.getMany(request, reply);
+
+    const { next_cursor: cursor } = vi.mocked(reply.send).mock.calls[0]?.[0] as any;
+    const resortedRequest = { ...request, query: { sort: 'title', cursor } };
+    const resortedReply = createReply(resortedRequest);
+
+    await controller.getMany(resortedRequest, resortedReply);
+
+    expect(resortedReply.status).toHaveBeenCalledWith(StatusCodes.BAD_REQUEST);
+    expect(entityManager.findByCursor).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('EntityController connections', () => {
+  class AnalyticsPostController extends PostController {
+    protected connection = 'analytics';
+  }
+
+  const user = { userId: 7, payload: { permissions: ['posts:read'] } };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    entityManager.findOne.mockResolvedValue({ id: 1 });
+  });
+
+  it('should use the controller connection and route reads by the read connection type', async () => {
+    const controller = createController(AnalyticsPostController);
+    const databaseInstance = (controller as any).databaseInstance;
+    const request = { id: 'req', headers: {}, params: { id: '1' }, query: {}, user } as any;
+
+    databaseInstance.getReadConnectionType.mockReturnValue('write');
+
+    await controller.getOne(request, createReply(request));
+
+    expect(databaseInstance.getEntityManager).toHaveBeenCalledWith({ connection: 'analytics' });
+    expect(entityManager.findOne).toHaveBeenCalledWith(
+      PostEntity,
+      { $and: [{ id: '1' }, { owner: 7 }] },
+      {
+        populate: [],
+        connectionType: 'write',
+      },
+    );
+  });
+
+  it('should run bulk writes in a transaction on the controller connection', async () => {
+    const controller = createController(AnalyticsPostController);
+    const request = {
+      id: 'req',
+      headers: {},
+      body: { items: [{ title: 'Hello' }] },
+      user: { userId: 7, payload: { permissions: ['posts:write'] } },
+    } as any;
+
+    await controller.createMany(request, createReply(request));
+
+    expect((controller as any).databaseInstance.withTransaction).toHaveBeenCalledWith(expect.any(Function), {
+      connection: 'analytics',
+    });
+  });
+});
+
+describe('EntityController bulk operations', () => {
+  const writer = { userId: 7, payload: { permissions: ['posts:write'] } };
+  const admin = { userId: 7, payload: { roles: ['admin'] } };
+
+  const createBulkRequest = (body: unknown, user: unknown = writer) => ({ id: 'req', headers: {}, body, user }) as any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should create nothing in atomic mode when an item is invalid', async () => {
+    const request = createBulkRequest({ items: [{ title: 'First' }, { body: 'No title' }] });
+    const reply = createReply(request);
+
+    await createController().createMany(request, reply);
+
+    expect(reply.status).toHaveBeenCalledWith(StatusCodes.BAD_REQUEST);
+    expect(reply.send).toHaveBeenCalledWith(
+      expect.objectContaining({
+        error: expect.objectContaining({
+          message: '1 of 2 items failed, no changes were made',
+          details: {
+            results: [
+              { index: 0, status: 'skipped' },
+              { index: 1, status: 'failed', error: '"title" is required' },
+            ],
+          },
+        }),
+      }),
+    );
+    expect(entityManager.create).not.toHaveBeenCalled();
+  });
+
+  it('should create the valid items in partial mode and call the item hooks', async () => {
+    class HookedController extends PostController {
+      public created: unknown[] = [];
+
+      protected async postCreateOne({ request, item }: { request: FastifyRequest; item: any }) {
+        this.created.push({ body: request.body, item });
+      }
+    }
+
+    const controller = createController(HookedController);
+
+    const request = createBulkRequest({ items: [{ title: 'First' }, {}, { title: 'Third' }], mode: 'partial' });
+    const reply = createReply(request);
+
+    await controller.createMany(request, reply);
+
+    expect(entityManager.create).toHaveBeenCalledTimes(2);
+    expect(entityManager.transactional).toHaveBeenCalledTimes(2);
+    expect(entityManager.persist).toHaveBeenCalledWith({ title: 'First' });
+    expect(entityManager.persist).toHaveBeenCalledWith({ title: 'Third' });
+    expect(controller.created).toEqual([
+      { body: { title: 'First' }, item: { title: 'First' } },
+      { body: { title: 'Third' }, item: { title: 'Third' } },
+    ]);
+    expect(reply.status).toHaveBeenCalledWith(StatusCodes.MULTI_STATUS);
+    expect(reply.send).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: {
+          results: [
+            { index: 0, status: 'created', id: undefined, item: { title: 'First' } },
+            { index: 1, status: 'failed', error: '"title" is required' },
+            { index: 2, status: 'created', id: undefined, item: { title: 'Third' } },
+          ],
+          succeeded: 2,
+          failed: 1,
+        },
+      }),
+    );
+  });
+
+  it('should fail only the item that violates a constraint in partial mode', async () => {
+    entityManager.persist.mockImplementation(((item: { title: string }) => ({
+      flush: vi.fn(async () => {
+        if (item.title === 'Taken') {
+          throw new Error('duplicate key value violates unique constraint "post_title_unique"');
+        }
+      }),
+    })) as any);
+
+    class HookedController extends PostController {
+      protected async postCreateOne({ item }: { item: any }) {
+        if (item.title === 'Hook') {
+          throw new Error('Notification failed');
+        }
+      }
+    }
+
+    const request = createBulkRequest({
+      items: [{ title: 'First' }, { title: 'Taken' }, { title: 'Hook' }],
+      mode: 'partial',
+    });
+    const reply = createReply(request);
+
+    try {
+      await createController(HookedController).createMany(request, reply);
+    } finally {
+      entityManager.persist.mockImplementation(() => ({ flush: vi.fn() }));
+    }
+
+    expect(entityManager.transactional).toHaveBeenCalledWith(expect.any(Function), { clear: true });
+    expect(reply.status).toHaveBeenCalledWith(StatusCodes.MULTI_STATUS);
+    expect(reply.send).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: {
+          results: [
+            { index: 0, status: 'created', id: undefined, item: { title: 'First' } },
+            {
+              index: 1,
+              status: 'failed',
+              error: 'duplicate key value violates unique constraint "post_title_unique"',
+            },
+            { index: 2, status: 'failed', error: 'Notification failed' },
+          ],
+          succeeded: 1,
+          failed: 2,
+        },
+      }),
+    );
+  });
+
+  it('should update the found items in partial mode and none in atomic mode', async () => {
+    entityManager.find.mockResolvedValue([{ id: 1 }]);
+
+    const request = createBulkRequest({
+      items: [{ id: 1, title: 'One' }, { id: 2, title: 'Two' }, { title: 'No id' }],
+      mode: 'partial',
+    });
+    const reply = createReply(request);
+
+    await createController().updateMany(request, reply);
+
+    expect(entityManager.find).toHaveBeenCalledWith(PostEntity, { $and: [{ id: { $in: [1, 2] } }, { owner: 7 }] });
+    expect(entityManager.findOneOrFail).toHaveBeenCalledWith(PostEntity, { id: 1 });
+    expect(entityManager.assign).toHaveBeenCalledWith({ id: 1 }, { title: 'One' });
+    expect(reply.status).toHaveBeenCalledWith(StatusCodes.MULTI_STATUS);
+
+    vi.clearAllMocks();
+
+    const atomicRequest = createBulkRequest({
+      items: [
+        { id: 1, title: 'One' },
+        { id: 2, title: 'Two' },
+      ],
+    });
+    const atomicReply = createReply(atomicRequest);
+
+    await createController().updateMany(atomicRequest, atomicReply);
+
+    expect(entityManager.assign).not.toHaveBeenCalled();
+    expect(entityManager.flush).not.toHaveBeenCalled();
+    expect(atomicReply.status).toHaveBeenCalledWith(StatusCodes.BAD_REQUEST);
+    expect(atomicReply.send).toHaveBeenCalledWith(
+      expect.objectContaining({
+        error: expect.objectContaining({
+          details: {
+            results: [
+              { index: 0, status: 'skipped' },
+              { index: 1, status: 'failed', id: 2, error: 'Post not found' },
+            ],
+          },
+        }),
+      }),
+    );
+  });
+
+  it('should apply the single-item policy to bulk deletes', async () => {
+    entityManager.find.mockResolvedValue([{ id: 1 }, { id: 2 }]);
+
+    const memberRequest = createBulkRequest({ ids: [1, 2] }, { userId: 8, payload: { roles: ['member'] } });
+    const memberReply = createReply(memberRequest);
+
+    await createController().deleteMany(memberRequest, memberReply);
+
+    expect(memberReply.status).toHaveBeenCalledWith(StatusCodes.FORBIDDEN);
+
+    const request = createBulkRequest({ ids: [1, 2] }, admin);
+    const reply = createReply(request);
+
+    await createController().deleteMany(request, reply);
+
+    expect(entityManager.remove).toHaveBeenCalledTimes(2);
+    expect(entityManager.flush).toHaveBeenCalledTimes(1);
+    expect(reply.send).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: {
+          results: [
+            { index: 0, status: 'deleted', id: 1 },
+            { index: 1, status: 'deleted', id: 2 },
+          ],
+          succeeded: 2,
+          failed: 0,
+        },
+      }),
+    );
+  });
+
+  it('should reject empty and oversized bulk requests', async () => {
+    class LimitedController extends PostController {
+      protected bulk: EntityBulkOptions = { maxItems: 2 };
+    }
+
+    const controller = createController(LimitedController);
+
+    const emptyRequest = createBulkRequest({ items: [] });
+    const emptyReply = createReply(emptyRequest);
+
+    await controller.createMany(emptyRequest, emptyReply);
+
+    expect(emptyReply.send).toHaveBeenCalledWith(
+      expect.objectContaining({ error: expect.objectContaining({ message: '"items" must be a non-empty array' }) }),
+    );
+
+    const oversizedRequest = createBulkRequest({ items: [{ title: 'A' }, { title: 'B' }, { title: 'C' }] });
+    const oversizedReply = createReply(oversizedRequest);
+
+    await controller.createMany(oversizedRequest, oversizedReply);
+
+    expect(oversizedReply.status).toHaveBeenCalledWith(StatusCodes.BAD_REQUEST);
+    expect(oversizedReply.send).toHaveBeenCalledWith(
+      expect.objectContaining({
+        error: expect.objectContaining({ message: 'At most 2 items can be processed per request' }),
+      }),
+    );
+    expect(entityManager.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('EntityController soft deletes', () => {
+  const SoftPostEntity = { ...PostEntity, softDelete: true, pluralNameCapitalized: 'Posts' };
+
+  class SoftPostController extends PostController {
+    protected getEntity = async () => SoftPostEntity as any;
+  }
+
+  const admin = { userId: 7, payload: { roles: ['admin'], permissions: ['posts:read'] } };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    entityManager.findAndCount.mockResolvedValue([[], 0]);
+    entityManager.findOne.mockResolvedValue({ id: 3 });
+  });
+
+  it('should mark items as deleted instead of removing them', async () => {
+    const request = { id: 'req', headers: {}, params: { id: 3 }, user: admin } as any;
+    const reply = createReply(request);
+
+    await createController(SoftPostController).deleteOne(request, reply);
+
+    expect(entityManager.assign).toHaveBeenCalledWith({ id: 3 }, { deletedAt: expect.any(Date) });
+    expect(entityManager.remove).not.toHaveBeenCalled();
+    expect(entityManager.flush).toHaveBeenCalled();
+    expect(reply.status).toHaveBeenCalledWith(StatusCodes.NO_CONTENT);
+  });
+
+  it('should list only deleted items with trashed=only', async () => {
+    const request = { id: 'req', headers: {}, query: { trashed: 'only' }, user: admin } as any;
+
+    await createController(SoftPostController).getMany(request, createReply(request));
+
+    expect(entityManager.findAndCount).toHaveBeenCalledWith(
+      SoftPostEntity,
+      { $and: [{ $and: [{}, { owner: 7 }] }, { deletedAt: { $ne: null } }] },
+      expect.objectContaining({ filters: { softDelete: false } }),
+    );
+  });
+
+  it('should reject trashed for entities that do not soft delete', async () => {
+    const request = { id: 'req', headers: {}, query: { trashed: 'with' }, user: admin } as any;
+    const reply = createReply(request);
+
+    await createController().getMany(request, reply);
+
+    expect(reply.status).toHaveBeenCalledWith(StatusCodes.BAD_REQUEST);
+    expect(entityManager.findAndCount).not.toHaveBeenCalled();
+  });
+
+  it('should restore deleted items within the scope', async () => {
+    const request = { id: 'req', headers: {}, params: { id: 3 }, user: admin } as any;
+    const reply = createReply(request);
+
+    await createController(SoftPostController).restoreOne(request, reply);
+
+    expect(entityManager.findOne).toHaveBeenCalledWith(
+      SoftPostEntity,
+      { $and: [{ id: 3, deletedAt: { $ne: null } }, { owner: 7 }] },
+      { filters: { softDelete: false } },
+    );
+    expect(entityManager.assign).toHaveBeenCalledWith({ id: 3 }, { deletedAt: null });
+    expect(reply.status).toHaveBeenCalledWith(StatusCodes.OK);
+  });
+
+  it('should force delete with the deleteOne policy', async () => {
+    const memberRequest = { id: 'req', headers: {}, params: { id: 3 }, user: { userId: 8, payload: {} } } as any;
+    const memberReply = createReply(memberRequest);
+
+    await createController(SoftPostController).forceDeleteOne(memberRequest, memberReply);
+
+    expect(memberReply.status).toHaveBeenCalledWith(StatusCodes.FORBIDDEN);
+    expect(entityManager.remove).not.toHaveBeenCalled();
+
+    const request = { id: 'req', headers: {}, params: { id: 3 }, user: admin } as any;
+    const reply = createReply(request);
+
+    await createController(SoftPostController).forceDeleteOne(request, reply);
+
+    expect(entityManager.remove).toHaveBeenCalledWith({ id: 3 });
+    expect(reply.status).toHaveBeenCalledWith(StatusCodes.NO_CONTENT);
+  });
+});
+
+describe('EntityController audit history', () => {
+  const entries = [{ action: 'update', entityName: 'Post', entityId: '3', changes: {}, timestamp: new Date() }];
+  const auditStore = { write: vi.fn(), find: vi.fn() };
+
+  class AuditedPostController extends PostController {
+    protected auditHistory = true;
+  }
+
+  const createAuditedController = (ControllerClass: typeof PostController = AuditedPostController) => {
+    const controller = createController(ControllerClass);
+
+    (controller as any).databaseInstance.getAuditStore = () => auditStore;
+
+    return controller;
+  };
+
+  const admin = { userId: 7, payload: { roles: ['admin'], permissions: ['posts:read'] } };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    entityManager.findOne.mockResolvedValue({ id: 3 });
+    auditStore.find.mockResolvedValue(entries);
+  });
+
+  it('should return the entries of an item within the getOne scope', async () => {
+    const request = {
+      id: 'req',
+      headers: {},
+      params: { id: 3 },
+      query: { limit: '500', page: '2' },
+      user: admin,
+    } as any;
+    const reply = createReply(request);
+
+    await createAuditedController().getHistory(request, reply);
+
+    expect(entityManager.findOne).toHaveBeenCalledWith(
+      PostEntity,
+      { $and: [{ id: 3 }, { owner: 7 }] },
+      { filters: { softDelete: false } },
+    );
+    expect(auditStore.find).toHaveBeenCalledWith(
+      { entityName: 'Post', entityId: 3, limit: 200, offset: 200 },
+      { entityManager },
+    );
+    expect(reply.send).toHaveBeenCalledWith({ data: entries, page: 2, limit: 200 });
+  });
+
+  it('should return 404 for items outside the scope', async () => {
+    entityManager.findOne.mockResolvedValue(null);
+
+    const request = { id: 'req', headers: {}, params: { id: 3 }, query: {}, user: admin } as any;
+    const reply = createReply(request);
+
+    await createAuditedController().getHistory(request, reply);
+
+    expect(reply.status).toHaveBeenCalledWith(StatusCodes.NOT_FOUND);
+    expect(auditStore.find).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 when the history is not enabled', async () => {
+    const request = { id: 'req', headers: {}, params: { id: 3 }, query: {}, user: admin } as any;
+    const reply = createReply(request);
+
+    await createAuditedController(PostController).getHistory(request, reply);
+
+    expect(reply.status).toHaveBeenCalledWith(StatusCodes.NOT_FOUND);
+    expect(entityManager.findOne).not.toHaveBeenCalled();
+  });
+});
+
+describe('EntityController concurrency', () => {
+  const writer = { userId: 7, payload: { permissions: ['posts:write'], roles: ['admin'] } };
+  const current = { id: 3, title: 'Hello' };
+  const etag = EntityETag.getEntityETag({ item: current, meta: postMetadata as any });
+
+  const createItemRequest = ({ headers = {}, body }: { headers?: Record<string, string>; body?: unknown } = {}) =>
+    ({ id: 'req', headers, params: { id: 3 }, query: {}, body, user: writer }) as any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    entityManager.findOne.mockImplementation(async () => ({ ...current }));
+  });
+
+  it('should send an ETag and honour If-None-Match on getOne', async () => {
+    const request = createItemRequest();
+    const reply = createReply(request);
+
+    await createController().getOne(request, reply);
+
+    expect(reply.header).toHaveBeenCalledWith('ETag', etag);
+    expect(reply.status).toHaveBeenCalledWith(StatusCodes.OK);
+
+    const conditionalRequest = createItemRequest({ headers: { 'if-none-match': `W/${etag}` } });
+    const conditionalReply = createReply(conditionalRequest);
+
+    await createController().getOne(conditionalRequest, conditionalReply);
+
+    expect(conditionalReply.status).toHaveBeenCalledWith(StatusCodes.NOT_MODIFIED);
+    expect(conditionalReply.send).toHaveBeenCalledWith();
+  });
+
+  it('should reject updates and deletes with a stale If-Match', async () => {
+    const request = createItemRequest({ headers: { 'if-match': '"stale"' }, body: { title: 'Changed' } });
+    const reply = createReply(request);
+
+    await createController().updateOne(request, reply);
+
+    expect(reply.status).toHaveBeenCalledWith(StatusCodes.PRECONDITION_FAILED);
+    expect(entityManager.assign).not.toHaveBeenCalled();
+
+    const deleteRequest = createItemRequest({ headers: { 'if-match': '"stale"' } });
+    const deleteReply = createReply(deleteRequest);
+
+    await createController().deleteOne(deleteRequest, deleteReply);
+
+    expect(deleteReply.status).toHaveBeenCalledWith(StatusCodes.PRECONDITION_FAILED);
+    expect(entityManager.remove).not.toHaveBeenCalled();
+
+    const freshRequest = createItemRequest({ headers: { 'if-match': etag }, body: { title: 'Changed' } });
+    const freshReply = createReply(freshRequest);
+
+    await createController().updateOne(freshRequest, freshReply);
+
+    expect(freshReply.status).toHaveBeenCalledWith(StatusCodes.OK);
+    expect(freshReply.header).toHaveBeenCalledWith('ETag', expect.any(String));
+  });
+
+  it('should require If-Match when configured', async () => {
+    class StrictController extends PostController {
+      protected concurrency: EntityConcurrencyOptions = { requireIfMatch: true };
+    }
+
+    const request = createItemRequest({ body: { title: 'Changed' } });
+    const reply = createReply(request);
+
+    await createController(StrictController).updateOne(request, reply);
+
+    expect(reply.status).toHaveBeenCalledWith(StatusCodes.PRECONDITION_REQUIRED);
+  });
+
+  it('should report concurrent versioned writes as failed preconditions', async () => {
+    entityManager.persist.mockReturnValueOnce({
+      flush: vi.fn().mockRejectedValue(OptimisticLockError.lockFailed('Post')),
+    });
+
+    const request = createItemRequest({ body: { title: 'Changed' } });
+    const reply = createReply(request);
+
+    await createController().updateOne(request, reply);
+
+    expect(reply.status).toHaveBeenCalledWith(StatusCodes.PRECONDITION_FAILED);
+  });
+
+  it('should apply merge patches and JSON patches to the changed fields', async () => {
+    const request = createItemRequest({
+      headers: { 'content-type': 'application/merge-patch+json', 'if-match': etag },
+      body: { title: 'Merged' },
+    });
+    const reply = createReply(request);
+
+    await createController().patchOne(request, reply);
+
+    expect(entityManager.findOne).toHaveBeenCalledWith(PostEntity, { $and: [{ id: 3 }, { owner: 7 }] });
+    expect(entityManager.assign).toHaveBeenCalledWith(expect.objectContaining({ id: 3 }), { title: 'Merged' });
+    expect(entityManager.flush).toHaveBeenCalled();
+    expect(reply.status).toHaveBeenCalledWith(StatusCodes.OK);
+
+    const jsonPatchRequest = createItemRequest({
+      headers: { 'content-type': 'application/json-patch+json' },
+      body: [{ op: 'test', path: '/title', value: 'Outdated' }],
+    });
+    const jsonPatchReply = createReply(jsonPatchRequest);
+
+    await createController().patchOne(jsonPatchRequest, jsonPatchReply);
+
+    expect(jsonPatchReply.status).toHaveBeenCalledWith(StatusCodes.UNPROCESSABLE_ENTITY);
+    expect(jsonPatchReply.send).toHaveBeenCalledWith(
+      expect.objectContaining({
+        error: expect.objectContaining({
+          details: { issues: [{ operation: 0, message: 'Test failed for path "/title"' }] },
+        }),
+      }),
+    );
+  });
+});
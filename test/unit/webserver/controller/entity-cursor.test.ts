@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { ConfigurationError, ValidationError } from '../../../../src/error/framework-errors.js';
+import EntityCursor from '../../../../src/webserver/controller/entity-cursor.js';
+
+const secret = 'cursor-secret-for-tests';
+const scope = 'Post:[{"createdAt":"DESC"},{"id":"ASC"}]';
+
+describe('EntityCursor', () => {
+  it('should round-trip signed cursors', () => {
+    const token = EntityCursor.encodeCursor({ direction: 'prev', cursor: 'WzQyXQ', scope, secret });
+
+    expect(token.startsWith('p.WzQyXQ.')).toBe(true);
+    expect(EntityCursor.decodeCursor({ token, scope, secret })).toEqual({ direction: 'prev', cursor: 'WzQyXQ' });
+  });
+
+  it('should reject tampered cursors, other sorts and other secrets', () => {
+    const token = EntityCursor.encodeCursor({ direction: 'next', cursor: 'WzQyXQ', scope, secret });
+    const forged = token.replace('WzQyXQ', 'WzQzXQ');
+
+    for (const [candidate, candidateScope, candidateSecret] of [
+      [forged, scope, secret],
+      [token, 'Post:[{"id":"ASC"}]', secret],
+      [token, scope, 'another-cursor-secret'],
+      ['garbage', scope, secret],
+    ]) {
+      expect(() =>
+        EntityCursor.decodeCursor({ token: candidate, scope: candidateScope, secret: candidateSecret }),
+      ).toThrow(ValidationError);
+    }
+  });
+
+  it('should require a configured secret', () => {
+    expect(() => EntityCursor.getCursorSecret()).toThrow(ConfigurationError);
+    expect(EntityCursor.getCursorSecret(secret)).toBe(secret);
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import EntityETag from '../../../../src/webserver/controller/entity-etag.js';
+
+const meta = {
+  properties: {
+    id: { name: 'id', kind: 'scalar' },
+    title: { name: 'title', kind: 'scalar' },
+    author: { name: 'author', kind: 'm:1' },
+  },
+} as any;
+
+describe('EntityETag', () => {
+  it('should use the version property when the entity has one', () => {
+    const versioned = { ...meta, versionProperty: 'version' };
+
+    expect(EntityETag.getEntityETag({ item: { id: 1, version: 4 }, meta: versioned })).toBe('"v4"');
+    expect(EntityETag.getEntityETag({ item: { id: 1, version: new Date(1_000) }, meta: versioned })).toBe('"v1000"');
+  });
+
+  it('should hash the scalar properties', () => {
+    const etag = EntityETag.getEntityETag({ item: { id: 1, title: 'Hello', author: 2 }, meta });
+
+    expect(etag).toMatch(/^"[\w-]{27}"$/);
+    expect(EntityETag.getEntityETag({ item: { id: 1, title: 'Hello', author: { id: 2, name: 'Ada' } }, meta })).toBe(
+      etag,
+    );
+    expect(EntityETag.getEntityETag({ item: { id: 1, title: 'Hi', author: 2 }, meta })).not.toBe(etag);
+  });
+
+  it('should compare If-Match strongly and If-None-Match weakly', () => {
+    expect(EntityETag.matchesETag({ header: '"a", "b"', etag: '"b"' })).toBe(true);
+    expect(EntityETag.matchesETag({ header: '*', etag: '"b"' })).toBe(true);
+    expect(EntityETag.matchesETag({ header: 'W/"b"', etag: '"b"' })).toBe(false);
+    expect(EntityETag.matchesETag({ header: 'W/"b"', etag: '"b"', weak: true })).toBe(true);
+    expect(EntityETag.matchesETag({ header: undefined, etag: '"b"', weak: true })).toBe(false);
+  });
+});
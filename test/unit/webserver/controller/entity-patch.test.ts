@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { ValidationError } from '../../../../src/error/framework-errors.js';
+import EntityPatch from '../../../../src/webserver/controller/entity-patch.js';
+
+const document = {
+  title: 'Hello',
+  status: 'draft',
+  tags: ['orm', 'node'],
+  settings: { comments: true, theme: { color: 'blue' } },
+};
+
+describe('EntityPatch', () => {
+  it('should apply JSON Merge Patches', () => {
+    expect(
+      EntityPatch.applyMergePatch(document, {
+        title: 'Hi',
+        status: null,
+        tags: ['orm'],
+        settings: { theme: { color: null, size: 'l' } },
+      }),
+    ).toEqual({ title: 'Hi', tags: ['orm'], settings: { comments: true, theme: { size: 'l' } } });
+  });
+
+  it('should apply JSON Patch operations in order', () => {
+    const result = EntityPatch.applyJsonPatch(document, [
+      { op: 'test', path: '/status', value: 'draft' },
+      { op: 'replace', path: '/status', value: 'published' },
+      { op: 'add', path: '/tags/1', value: 'sql' },
+      { op: 'add', path: '/tags/-', value: 'web' },
+      { op: 'remove', path: '/settings/comments' },
+      { op: 'copy', from: '/title', path: '/slug' },
+      { op: 'move', from: '/settings/theme', path: '/theme' },
+    ]);
+
+    expect(result).toEqual({
+      title: 'Hello',
+      slug: 'Hello',
+      status: 'published',
+      tags: ['orm', 'sql', 'node', 'web'],
+      settings: {},
+      theme: { color: 'blue' },
+    });
+    expect(document.tags).toEqual(['orm', 'node']);
+  });
+
+  it('should unescape JSON pointer tokens', () => {
+    expect(EntityPatch.applyJsonPatch({ 'a/b': 1, 'c~d': 2 }, [{ op: 'remove', path: '/a~1b' }])).toEqual({ 'c~d': 2 });
+    expect(EntityPatch.applyJsonPatch({ 'c~d': 2 }, [{ op: 'replace', path: '/c~0d', value: 3 }])).toEqual({
+      'c~d': 3,
+    });
+  });
+
+  it('should reject invalid operations and failed tests', () => {
+    const cases: [unknown, string][] = [
+      [{ op: 'add', path: '/title', value: 'x' }, 'A JSON Patch must be an array of operations'],
+      [[{ op: 'rename', path: '/title' }], 'Unknown operation'],
+      [[{ op: 'replace', path: '/title' }], '"replace" requires a value'],
+      [[{ op: 'remove', path: 'title' }], 'Invalid JSON pointer "title"'],
+      [[{ op: 'remove', path: '/missing' }], 'Path "/missing" does not exist'],
+      [[{ op: 'add', path: '/tags/5', value: 'x' }], 'Invalid array index "5"'],
+      [[{ op: 'move', from: '/settings', path: '/settings/inner' }], 'A value cannot be moved into itself'],
+      [[{ op: 'test', path: '/status', value: 'published' }], 'Test failed for path "/status"'],
+    ];
+
+    for (const [operations, message] of cases) {
+      try {
+        EntityPatch.applyJsonPatch(document, operations);
+        expect.unreachable(message);
+      } catch (error) {
+        expect(error).toBeInstanceOf(ValidationError);
+        expect((error as ValidationError).context?.issues).toEqual([expect.objectContaining({ message })]);
+      }
+    }
+  });
+
+  it('should return the changed top-level fields by media type', () => {
+    expect(
+      EntityPatch.getPatchChanges({
+        current: document,
+        patch: { status: 'published', tags: ['orm', 'node'], settings: null },
+        contentType: 'application/merge-patch+json',
+      }),
+    ).toEqual({ status: 'published', settings: null });
+
+    expect(
+      EntityPatch.getPatchChanges({
+        current: document,
+        patch: [{ op: 'add', path: '/settings/comments', value: false }],
+        contentType: 'application/json-patch+json; charset=utf-8',
+      }),
+    ).toEqual({ settings: { comments: false, theme: { color: 'blue' } } });
+
+    expect(() =>
+      EntityPatch.getPatchChanges({ current: document, patch: [], contentType: 'application/json' }),
+    ).toThrow(ValidationError);
+  });
+});
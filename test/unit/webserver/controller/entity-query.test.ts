@@ -0,0 +1,182 @@
+import { describe, expect, it } from 'vitest';
+import { ValidationError } from '../../../../src/error/framework-errors.js';
+import EntityQuery from '../../../../src/webserver/controller/entity-query.js';
+
+const authorMeta = {
+  primaryKeys: ['id'],
+  properties: {
+    id: { name: 'id', kind: 'scalar', runtimeType: 'number', primary: true },
+    name: { name: 'name', kind: 'scalar', runtimeType: 'string' },
+    email: { name: 'email', kind: 'scalar', runtimeType: 'string' },
+  },
+};
+
+const postMeta = {
+  primaryKeys: ['id'],
+  properties: {
+    id: { name: 'id', kind: 'scalar', runtimeType: 'number', primary: true },
+    title: { name: 'title', kind: 'scalar', runtimeType: 'string' },
+    views: { name: 'views', kind: 'scalar', runtimeType: 'number' },
+    published: { name: 'published', kind: 'scalar', runtimeType: 'boolean' },
+    createdAt: { name: 'createdAt', kind: 'scalar', runtimeType: 'Date' },
+    secret: { name: 'secret', kind: 'scalar', runtimeType: 'string', hidden: true },
+    author: { name: 'author', kind: 'm:1', runtimeType: 'Author', targetMeta: authorMeta },
+    tags: { name: 'tags', kind: 'm:n', runtimeType: 'Tag', targetMeta: { primaryKeys: ['id'], properties: {} } },
+  },
+} as any;
+
+const getIssues = (query: Record<string, unknown>, options = {}) => {
+  try {
+    EntityQuery.parseEntityQuery({ query, meta: postMeta, options });
+  } catch (error) {
+    expect(error).toBeInstanceOf(ValidationError);
+
+    return (error as ValidationError).context?.issues;
+  }
+
+  throw new Error('Expected the query to be rejected');
+};
+
+describe('EntityQuery.parseEntityQuery', () => {
+  it('should build filters from bracket parameters with typed values', () => {
+    const { filter } = EntityQuery.parseEntityQuery({
+      query: {
+        'filter[views][gte]': '10',
+        'filter[views][lt]': '100',
+        'filter[published]': 'true',
+        'filter[title][ilike]': '%orm%',
+        'filter[id][in]': '1,2,3',
+        'filter[createdAt][null]': 'false',
+      },
+      meta: postMeta,
+    });
+
+    expect(filter).toEqual({
+      views: { $gte: 10, $lt: 100 },
+      published: { $eq: true },
+      title: { $ilike: '%orm%' },
+      id: { $in: [1, 2, 3] },
+      createdAt: { $ne: null },
+    });
+  });
+
+  it('should filter on allowlisted relation fields', () => {
+    const { filter } = EntityQuery.parseEntityQuery({
+      query: { 'filter[author.name][ilike]': 'ada%', 'author.email': 'ada@example.com' },
+      meta: postMeta,
+      options: { filterable: ['author.name', 'author.email'] },
+    });
+
+    expect(filter).toEqual({ author: { name: { $ilike: 'ada%' }, email: { $eq: 'ada@example.com' } } });
+  });
+
+  it('should accept nested filter objects and legacy filters JSON', () => {
+    const { filter } = EntityQuery.parseEntityQuery({
+      query: {
+        filter: { views: { gt: '5' } },
+        filters: JSON.stringify({ title: 'Hello', published: { $ne: false }, createdAt: null }),
+      },
+      meta: postMeta,
+    });
+
+    expect(filter).toEqual({
+      views: { $gt: 5 },
+      title: { $eq: 'Hello' },
+      published: { $ne: false },
+      createdAt: { $eq: null },
+    });
+  });
+
+  it('should parse multi-field sort, fields and include', () => {
+    const query = EntityQuery.parseEntityQuery({
+      query: { sort: '-createdAt,title', fields: 'title,views', include: 'author,tags' },
+      meta: postMeta,
+    });
+
+    expect(query.orderBy).toEqual([{ createdAt: 'DESC' }, { title: 'ASC' }]);
+    expect(query.fields).toEqual(['id', 'title', 'views']);
+    expect(query.populate).toEqual(['author', 'tags']);
+  });
+
+  it('should default to sorting by primary key in the legacy sort order', () => {
+    const { orderBy, fields, populate } = EntityQuery.parseEntityQuery({
+      query: { 'sort-order': 'desc', populate: 'author' },
+      meta: postMeta,
+    });
+
+    expect(orderBy).toEqual([{ id: 'DESC' }]);
+    expect(fields).toBeUndefined();
+    expect(populate).toEqual(['author']);
+  });
+
+  it('should ignore query parameters that are not entity fields', () => {
+    const { filter } = EntityQuery.parseEntityQuery({ query: { page: '2', _: '1700000000' }, meta: postMeta });
+
+    expect(filter).toEqual({});
+  });
+
+  it('should reject unknown and hidden fields', () => {
+    expect(getIssues({ 'filter[password]': 'x', 'filter[secret]': 'x', sort: 'secret', fields: 'nope' })).toEqual([
+      { parameter: 'filter[password]', message: 'Unknown field "password"' },
+      { parameter: 'filter[secret]', message: 'Field "secret" cannot be filtered' },
+      { parameter: 'sort', message: 'Field "secret" cannot be sorted' },
+      { parameter: 'fields', message: 'Unknown field "nope"' },
+    ]);
+  });
+
+  it('should reject fields outside the controller allowlist', () => {
+    expect(
+      getIssues(
+        { 'filter[views]': '1', 'filter[author.email]': 'a', include: 'tags', 'author.name': 'Ada' },
+        { filterable: ['title', 'author.name'], includable: ['author'] },
+      ),
+    ).toEqual([
+      { parameter: 'filter[views]', message: 'Field "views" cannot be filtered' },
+      { parameter: 'filter[author.email]', message: 'Field "author.email" cannot be filtered' },
+      { parameter: 'include', message: 'Relation "tags" cannot be included' },
+    ]);
+  });
+
+  it('should reject unknown operators, unsupported operators and invalid values', () => {
+    expect(
+      getIssues({
+        'filter[title][regex]': '.*',
+        'filter[views][like]': '1%',
+        'filter[views][gt]': 'ten',
+        'filter[published]': 'yes',
+        'sort-order': 'up',
+      }),
+    ).toEqual([
+      { parameter: 'filter[title][regex]', message: 'Unknown operator "regex"' },
+      { parameter: 'filter[views][like]', message: 'Operator "like" is not supported for field "views"' },
+      { parameter: 'filter[views][gt]', message: 'Value must be a number' },
+      { parameter: 'filter[published]', message: 'Value must be true or false' },
+      { parameter: 'sort-order', message: 'Must be ASC or DESC' },
+    ]);
+
+    expect(getIssues({ 'filter[title][like]': 'a%' }, { operators: ['eq', 'in'] })).toEqual([
+      { parameter: 'filter[title][like]', message: 'Operator "like" is not supported for field "title"' },
+    ]);
+    expect(getIssues({ filters: '{not json' })).toEqual([{ parameter: 'filters', message: 'Must be a JSON object' }]);
+  });
+});
+
+describe('EntityQuery.describeEntityQuery', () => {
+  it('should describe the allowed fields and their operators', () => {
+    const description = EntityQuery.describeEntityQuery({
+      meta: postMeta,
+      options: { filterable: ['title', 'published', 'author.name'], operators: ['eq', 'ne', 'ilike'] },
+    });
+
+    expect(description).toEqual({
+      filterable: [
+        { field: 'title', operators: ['eq', 'ne', 'ilike'] },
+        { field: 'published', operators: ['eq', 'ne'] },
+        { field: 'author.name', operators: ['eq', 'ne', 'ilike'] },
+      ],
+      sortable: ['id', 'title', 'views', 'published', 'createdAt'],
+      selectable: ['id', 'title', 'views', 'published', 'createdAt'],
+      includable: ['author', 'tags'],
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import type { FastifyReply } from 'fastify';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ErrorCode } from '../../../../src/error/error.interface.js';
+import { QueueError, ValidationError } from '../../../../src/error/framework-errors.js';
+import QueueAdminController from '../../../../src/webserver/controller/queue-admin.js';
+
+describe('QueueAdminController', () => {
+  const queueManager = {
+    listQueues: vi.fn(),
+    getQueueInfo: vi.fn(),
+    listJobs: vi.fn(),
+    getJobDetail: vi.fn(),
+    retryJob: vi.fn(),
+    removeJob: vi.fn(),
+    drainQueue: vi.fn(),
+    cleanQueue: vi.fn(),
+    listDeadLetters: vi.fn(),
+    getDeadLetter: vi.fn(),
+    replayDeadLetter: vi.fn(),
+    purgeDeadLetters: vi.fn(),
+  };
+
+  let controller: QueueAdminController;
+  let reply: FastifyReply;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    controller = new QueueAdminController({
+      applicationConfig: { name: 'test-app', instanceId: 'test-instance', rootDirectory: '/test' },
+      webServerOptions: { host: '0.0.0.0', port: 3001, controllersDirectory: '/test/controllers' },
+      queueManager: queueManager as any,
+    } as any);
+
+    reply = {
+      request: { id: 'req-1' },
+      status: vi.fn().mockReturnThis(),
+      send: vi.fn().mockReturnThis(),
+    } as any;
+  });
+
+  it('should list jobs in a state by page', async () => {
+    queueManager.listJobs.mockResolvedValue({ jobs: [], total: 45 });
+
+    await controller.listJobs(
+      { params: { queueId: 'emails' }, query: { state: 'failed', page: 3, limit: 20 } } as any,
+      reply,
+    );
+
+    expect(queueManager.listJobs).toHaveBeenCalledWith({ queueId: 'emails', state: 'failed', offset: 40, limit: 20 });
+    expect(reply.status).toHaveBeenCalledWith(200);
+    expect(reply.send).toHaveBeenCalledWith(
+      expect.objectContaining({ data: { jobs: [], total: 45, page: 3, limit: 20 } }),
+    );
+  });
+
+  it('should respond 204 to job and queue actions', async () => {
+    await controller.retryJob({ params: { queueId: 'emails', jobId: '7' } } as any, reply);
+
+    expect(queueManager.retryJob).toHaveBeenCalledWith({ queueId: 'emails', jobId: '7' });
+    expect(reply.status).toHaveBeenLastCalledWith(204);
+
+    await controller.drainQueue({ params: { queueId: 'emails' }, body: { delayed: true } } as any, reply);
+
+    expect(queueManager.drainQueue).toHaveBeenCalledWith({ queueId: 'emails', delayed: true });
+    expect(reply.status).toHaveBeenLastCalledWith(204);
+  });
+
+  it('should return the IDs of cleaned jobs', async () => {
+    queueManager.cleanQueue.mockResolvedValue(['1', '2']);
+
+    await controller.cleanQueue(
+      { params: { queueId: 'emails' }, body: { state: 'completed', olderThanSeconds: 3600 } } as any,
+      reply,
+    );
+
+    expect(queueManager.cleanQueue).toHaveBeenCalledWith({
+      queueId: 'emails',
+      state: 'completed',
+      olderThanSeconds: 3600,
+      limit: undefined,
+    });
+    expect(reply.send).toHaveBeenCalledWith(expect.objectContaining({ data: { jobIds: ['1', '2'] } }));
+  });
+
+  it('should respond 404 to unknown jobs and 409 to jobs in another state', async () => {
+    const request = { params: { queueId: 'emails', jobId: '7' } } as any;
+
+    queueManager.getJobDetail.mockRejectedValue(
+      new QueueError('Job not found', { code: ErrorCode.RESOURCE_NOT_FOUND }),
+    );
+    await controller.getJob(request, reply);
+
+    expect(reply.status).toHaveBeenLastCalledWith(404);
+    expect(reply.send).toHaveBeenLastCalledWith({
+      error: expect.objectContaining({ message: 'Job not found', type: 'not_found' }),
+    });
+
+    queueManager.retryJob.mockRejectedValue(
+      new QueueError('Only failed jobs can be retried', { code: ErrorCode.INVALID_INPUT }),
+    );
+    await controller.retryJob(request, reply);
+
+    expect(reply.status).toHaveBeenLastCalledWith(409);
+
+    queueManager.removeJob.mockRejectedValue(new Error('Redis unavailable'));
+    await expect(controller.removeJob(request, reply)).rejects.toThrow('Redis unavailable');
+  });
+
+  it('should list dead-letter entries by page', async () => {
+    queueManager.listDeadLetters.mockResolvedValue({ entries: [], total: 45 });
+
+    await controller.listDeadLetters({ params: { queueId: 'emails' }, query: { page: 3, limit: 20 } } as any, reply);
+
+    expect(queueManager.listDeadLetters).toHaveBeenCalledWith({ queueId: 'emails', offset: 40, limit: 20 });
+    expect(reply.send).toHaveBeenCalledWith(
+      expect.objectContaining({ data: { entries: [], total: 45, page: 3, limit: 20 } }),
+    );
+  });
+
+  it('should replay dead-letter entries with an edited payload', async () => {
+    queueManager.replayDeadLetter.mockResolvedValue({ id: 'job-2' });
+
+    await controller.replayDeadLetter(
+      { params: { queueId: 'emails', entryId: '7' }, body: { payload: { to: 'user@example.com' } } } as any,
+      reply,
+    );
+
+    expect(queueManager.replayDeadLetter).toHaveBeenCalledWith({
+      queueId: 'emails',
+      entryId: '7',
+      payload: { to: 'user@example.com' },
+    });
+    expect(reply.status).toHaveBeenCalledWith(202);
+    expect(reply.send).toHaveBeenCalledWith(expect.objectContaining({ data: { jobId: 'job-2' } }));
+  });
+
+  it('should respond 400 to invalid payloads and 404 to unknown entries', async () => {
+    const request = { params: { queueId: 'emails', entryId: '7' } } as any;
+
+    queueManager.replayDeadLetter.mockRejectedValue(new ValidationError('Invalid payload'));
+    await controller.replayDeadLetter(request, reply);
+
+    expect(reply.status).toHaveBeenLastCalledWith(400);
+
+    queueManager.getDeadLetter.mockRejectedValue(
+      new QueueError('Dead-letter entry not found', { code: ErrorCode.RESOURCE_NOT_FOUND }),
+    );
+    await controller.getDeadLetter(request, reply);
+
+    expect(reply.status).toHaveBeenLastCalledWith(404);
+  });
+
+  it('should purge all dead-letter entries when the route has no entry ID', async () => {
+    queueManager.purgeDeadLetters.mockResolvedValue(12);
+
+    await controller.purgeDeadLetters({ params: { queueId: 'emails' } } as any, reply);
+
+    expect(queueManager.purgeDeadLetters).toHaveBeenCalledWith({ queueId: 'emails', entryId: undefined });
+    expect(reply.send).toHaveBeenCalledWith(expect.objectContaining({ data: { count: 12 } }));
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import { defineRoute } from '../../../src/webserver/define-route.js';
+import { defineRouteGroup } from '../../../src/webserver/define-route-group.js';
+import { defineGuard } from '../../../src/webserver/guard.js';
+import { generateOpenApiDocument } from '../../../src/webserver/openapi.js';
+import { WebServerRouteType } from '../../../src/webserver/webserver.interface.js';
+
+const handler = async (_request: unknown, reply: { send: () => unknown }) => reply.send();
+
+describe('defineRouteGroup', () => {
+  it('should prefix route paths', () => {
+    const routes = defineRouteGroup({
+      prefix: '/v1/',
+      routes: [
+        defineRoute({ method: 'GET', path: '/', handler }),
+        defineRoute({ method: 'GET', path: '/users/:id', handler }),
+        { type: WebServerRouteType.Entity, entityName: 'post', path: 'posts', controllerName: 'post' },
+      ],
+    });
+
+    expect(routes.map(route => route.path)).toEqual(['/v1', '/v1/users/:id', '/v1/posts']);
+  });
+
+  it('should apply nested groups from the outside in', () => {
+    const outerGuard = defineGuard(() => undefined);
+    const innerGuard = defineGuard(() => undefined);
+    const routeGuard = defineGuard(() => undefined);
+
+    const routes = defineRouteGroup({
+      prefix: '/api',
+      tags: ['api'],
+      guards: [outerGuard],
+      rateLimit: { max: 100 },
+      routes: [
+        defineRouteGroup({
+          prefix: '/admin',
+          tags: ['admin'],
+          guards: [innerGuard],
+          rateLimit: { max: 10 },
+          routes: [
+            defineRoute({ method: 'GET', path: '/stats', guards: [routeGuard], handler }),
+            defineRoute({ method: 'GET', path: '/health', rateLimit: false, handler }),
+          ],
+        }),
+        defineRoute({ method: 'GET', path: '/status', handler, openapi: { tags: ['status'] } }),
+      ],
+    });
+
+    expect(routes).toHaveLength(3);
+    expect(routes[0]).toMatchObject({ path: '/api/admin/stats', rateLimit: { max: 10 } });
+    expect(routes[0].guards).toEqual([outerGuard, innerGuard, routeGuard]);
+    expect(routes[0].openapi?.tags).toEqual(['api', 'admin']);
+    expect(routes[1]).toMatchObject({ path: '/api/admin/health', rateLimit: false });
+    expect(routes[2]).toMatchObject({ path: '/api/status', rateLimit: { max: 100 } });
+    expect(routes[2].guards).toEqual([outerGuard]);
+    expect(routes[2].openapi?.tags).toEqual(['api', 'status']);
+  });
+
+  it('should combine required permissions', () => {
+    const [route] = defineRouteGroup({
+      requires: ['admin:access'],
+      routes: [defineRoute({ method: 'DELETE', path: '/users/:id', requires: ['users:delete'], handler })],
+    });
+
+    expect(route.requires).toEqual(['admin:access', 'users:delete']);
+  });
+
+  it('should apply group authentication strategies unless the route sets its own', () => {
+    const routes = defineRouteGroup({
+      auth: ['jwt', 'apiKey'],
+      routes: [
+        defineRoute({ method: 'GET', path: '/reports', handler }),
+        defineRoute({ method: 'POST', path: '/webhooks', auth: ['hmac'], handler }),
+      ],
+    });
+
+    expect(routes.map(route => route.auth)).toEqual([['jwt', 'apiKey'], ['hmac']]);
+  });
+
+  it('should apply group idempotency unless the route sets its own', () => {
+    const routes = defineRouteGroup({
+      idempotency: { required: true },
+      routes: [
+        defineRoute({ method: 'POST', path: '/orders', handler }),
+        defineRoute({ method: 'POST', path: '/carts', idempotency: false, handler }),
+      ],
+    });
+
+    expect(routes.map(route => route.idempotency)).toEqual([{ required: true }, false]);
+  });
+
+  it('should not mutate the grouped routes', () => {
+    const route = defineRoute({ method: 'GET', path: '/users', handler });
+
+    defineRouteGroup({ prefix: '/v1', tags: ['v1'], routes: [route] });
+
+    expect(route.path).toBe('/users');
+    expect(route.openapi).toBeUndefined();
+  });
+
+  it('should merge shared schemas with route schemas', () => {
+    const Error401 = z.object({ message: z.string() });
+    const User = z.object({ id: z.number() });
+
+    const [route] = defineRouteGroup({
+      prefix: '/tenants/:tenantId',
+      schema: {
+        params: z.object({ tenantId: z.string() }),
+        headers: z.object({ 'x-api-version': z.string() }),
+        response: { 401: Error401 },
+      },
+      routes: [
+        defineRoute({
+          method: 'GET',
+          path: '/users/:id',
+          schema: { params: z.object({ id: z.coerce.number() }), response: { 200: User } },
+          handler,
+        }),
+      ],
+    });
+
+    expect(route.schema?.params?.parse({ tenantId: 'acme', id: '7' })).toEqual({ tenantId: 'acme', id: 7 });
+    expect(route.schema?.headers).toBeDefined();
+    expect(route.schema?.response).toEqual({ 200: User, 401: Error401 });
+    expect(route.schema).not.toHaveProperty('body');
+  });
+
+  it('should produce routes documented with the group prefix and tags', () => {
+    const routes = defineRouteGroup({
+      prefix: '/v2',
+      tags: ['v2'],
+      routes: [defineRoute({ method: 'GET', path: '/users/:id', handler: vi.fn() })],
+    });
+
+    const document = generateOpenApiDocument({ routes, info: { title: 'Test API', version: '1.0.0' } });
+
+    expect(document.paths['/v2/users/{id}']?.get?.tags).toEqual(['v2']);
+  });
+});
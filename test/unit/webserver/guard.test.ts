@@ -0,0 +1,339 @@
+import Fastify, { type FastifyInstance } from 'fastify';
+import { afterEach, beforeEach, describe, expect, expectTypeOf, it, vi } from 'vitest';
+import ApiKey from '../../../src/auth/api-key.js';
+import type { AuthenticatedUser } from '../../../src/auth/authenticate.js';
+import Jwt from '../../../src/auth/jwt.js';
+import { defineRoute } from '../../../src/webserver/define-route.js';
+import type { RouteGuard, RouteGuardContext } from '../../../src/webserver/guard.interface.js';
+import {
+  authGuard,
+  createGuardPreHandler,
+  defineGuard,
+  optionalAuthGuard,
+  RouteGuardError,
+  requireAuthentication,
+  requirePermissions,
+} from '../../../src/webserver/guard.js';
+
+vi.mock('../../../src/auth/jwt.js', () => ({
+  default: {
+    isConfigured: vi.fn((config?: { jwtSecretKey?: string }) => Boolean(config?.jwtSecretKey)),
+    verifyToken: vi.fn(),
+  },
+}));
+
+const createContext = (jwtSecretKey?: string): RouteGuardContext =>
+  ({
+    applicationConfig: { name: 'test-app', auth: jwtSecretKey ? { jwtSecretKey } : undefined },
+    route: { method: 'GET', path: '/test' },
+  }) as unknown as RouteGuardContext;
+
+describe('defineGuard', () => {
+  it('should attach name and authenticates flag', () => {
+    const guard = defineGuard(() => undefined, { name: 'noop', authenticates: true });
+
+    expect(guard.guardName).toBe('noop');
+    expect(guard.authenticates).toBe(true);
+    expect(authGuard.authenticates).toBe(true);
+  });
+
+  it('should type guard context on the route handler request', () => {
+    const tenantGuard = defineGuard(() => ({ tenantId: 'acme' }));
+
+    defineRoute({
+      method: 'GET',
+      path: '/tenant',
+      guards: [authGuard, tenantGuard],
+      handler: async (request, reply) => {
+        expectTypeOf(request.user).toEqualTypeOf<AuthenticatedUser>();
+        expectTypeOf(request.tenantId).toEqualTypeOf<string>();
+
+        return reply.send();
+      },
+    });
+  });
+});
+
+describe('createGuardPreHandler', () => {
+  let app: FastifyInstance;
+
+  const register = (guards: RouteGuard<any>[], context = createContext()) => {
+    app.route({
+      method: 'GET',
+      url: '/test',
+      preHandler: createGuardPreHandler({ guards, context }),
+      handler: async (request, reply) => reply.send({ data: { tenantId: (request as any).tenantId ?? null } }),
+    });
+  };
+
+  beforeEach(() => {
+    app = Fastify();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should run guards in order and assign returned values to the request', async () => {
+    const calls: string[] = [];
+
+    register([
+      defineGuard(() => {
+        calls.push('first');
+      }),
+      defineGuard(() => {
+        calls.push('second');
+        return { tenantId: 'acme' };
+      }),
+    ]);
+
+    const response = await app.inject({ method: 'GET', url: '/test' });
+
+    expect(calls).toEqual(['first', 'second']);
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual({ data: { tenantId: 'acme' } });
+  });
+
+  it('should short-circuit with the error envelope when a guard throws RouteGuardError', async () => {
+    const skipped = vi.fn();
+
+    register([
+      defineGuard(() => {
+        throw new RouteGuardError('Tenant suspended', { details: { tenantId: 'acme' } });
+      }),
+      skipped,
+    ]);
+
+    const response = await app.inject({ method: 'GET', url: '/test' });
+
+    expect(response.statusCode).toBe(403);
+    expect(response.json()).toMatchObject({
+      error: {
+        message: 'Tenant suspended',
+        type: 'authorization',
+        requestId: expect.any(String),
+        details: { tenantId: 'acme' },
+      },
+    });
+    expect(skipped).not.toHaveBeenCalled();
+  });
+
+  it('should stop when a guard sends the reply itself', async () => {
+    const skipped = vi.fn();
+
+    register([
+      defineGuard(async (_request, reply) => {
+        await reply.status(429).send({ error: { message: 'Slow down' } });
+      }),
+      skipped,
+    ]);
+
+    const response = await app.inject({ method: 'GET', url: '/test' });
+
+    expect(response.statusCode).toBe(429);
+    expect(skipped).not.toHaveBeenCalled();
+  });
+
+  it('should pass unexpected errors to the Fastify error handler', async () => {
+    register([
+      defineGuard(() => {
+        throw new Error('boom');
+      }),
+    ]);
+
+    const response = await app.inject({ method: 'GET', url: '/test' });
+
+    expect(response.statusCode).toBe(500);
+  });
+});
+
+describe('authGuard', () => {
+  let app: FastifyInstance;
+
+  beforeEach(() => {
+    app = Fastify();
+    vi.mocked(Jwt.verifyToken).mockReset();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  const register = (context: RouteGuardContext) => {
+    app.route({
+      method: 'GET',
+      url: '/test',
+      preHandler: createGuardPreHandler({ guards: [authGuard], context }),
+      handler: async (request, reply) => reply.send({ data: (request as any).user }),
+    });
+  };
+
+  it('should reject requests without a token', async () => {
+    register(createContext('secret'));
+
+    const response = await app.inject({ method: 'GET', url: '/test' });
+
+    expect(response.statusCode).toBe(401);
+    expect(response.json().error).toMatchObject({ message: 'No token provided.', type: 'authentication' });
+  });
+
+  it('should respond with a server error when authentication is not configured', async () => {
+    register(createContext());
+
+    const response = await app.inject({ method: 'GET', url: '/test' });
+
+    expect(response.statusCode).toBe(500);
+    expect(response.json().error).toMatchObject({ message: 'Authentication not configured.', type: 'server_error' });
+  });
+
+  it('should assign the authenticated user', async () => {
+    vi.mocked(Jwt.verifyToken).mockResolvedValue({ sub: '42' });
+    register(createContext('secret'));
+
+    const response = await app.inject({ method: 'GET', url: '/test', headers: { authorization: 'Bearer token' } });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual({ data: { userId: 42, payload: { sub: '42' }, strategy: 'jwt' } });
+  });
+});
+
+describe('optionalAuthGuard', () => {
+  let app: FastifyInstance;
+
+  beforeEach(() => {
+    app = Fastify();
+    vi.mocked(Jwt.verifyToken).mockReset();
+    app.route({
+      method: 'GET',
+      url: '/test',
+      preHandler: createGuardPreHandler({ guards: [optionalAuthGuard], context: createContext('secret') }),
+      handler: async (request, reply) => reply.send({ data: (request as any).user ?? null }),
+    });
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should assign the user of requests with valid credentials', async () => {
+    vi.mocked(Jwt.verifyToken).mockResolvedValue({ sub: '42' });
+
+    const response = await app.inject({ method: 'GET', url: '/test', headers: { authorization: 'Bearer token' } });
+
+    expect(response.json()).toEqual({ data: { userId: 42, payload: { sub: '42' }, strategy: 'jwt' } });
+  });
+
+  it('should let requests without valid credentials through', async () => {
+    vi.mocked(Jwt.verifyToken).mockRejectedValue(new Error('invalid signature'));
+
+    const anonymous = await app.inject({ method: 'GET', url: '/test' });
+    const invalid = await app.inject({ method: 'GET', url: '/test', headers: { authorization: 'Bearer token' } });
+
+    expect([anonymous.statusCode, invalid.statusCode]).toEqual([200, 200]);
+    expect(invalid.json()).toEqual({ data: null });
+  });
+});
+
+describe('requireAuthentication', () => {
+  let app: FastifyInstance;
+  const { key, hash } = ApiKey.generateApiKey();
+
+  beforeEach(() => {
+    app = Fastify();
+    vi.mocked(Jwt.verifyToken).mockReset();
+
+    const context = createContext('secret');
+
+    (context.applicationConfig.auth as Record<string, unknown>).apiKey = {
+      store: { findByHash: async (keyHash: string) => (keyHash === hash ? { id: 'key-1', userId: 7 } : null) },
+    };
+
+    app.route({
+      method: 'GET',
+      url: '/test',
+      preHandler: createGuardPreHandler({ guards: [requireAuthentication('jwt', 'apiKey')], context }),
+      handler: async (request, reply) => reply.send({ data: (request as any).user.strategy }),
+    });
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should accept any of the listed strategies', async () => {
+    vi.mocked(Jwt.verifyToken).mockResolvedValue({ sub: '42' });
+
+    const jwtResponse = await app.inject({ method: 'GET', url: '/test', headers: { authorization: 'Bearer token' } });
+    const apiKeyResponse = await app.inject({ method: 'GET', url: '/test', headers: { 'x-api-key': key } });
+
+    expect(jwtResponse.json()).toEqual({ data: 'jwt' });
+    expect(apiKeyResponse.json()).toEqual({ data: 'apiKey' });
+  });
+
+  it('should reject invalid credentials', async () => {
+    const response = await app.inject({ method: 'GET', url: '/test', headers: { 'x-api-key': 'pxl_invalid' } });
+
+    expect(response.statusCode).toBe(401);
+    expect(response.json().error).toMatchObject({ message: 'Invalid API key.', type: 'authentication' });
+  });
+});
+
+describe('requirePermissions', () => {
+  let app: FastifyInstance;
+
+  beforeEach(() => {
+    app = Fastify();
+    vi.mocked(Jwt.verifyToken).mockReset();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  const register = (guards: RouteGuard<any>[]) => {
+    const context = createContext('secret');
+
+    (context.applicationConfig.auth as Record<string, unknown>).authorization = {
+      roles: { editor: ['posts:*'] },
+    };
+
+    app.route({
+      method: 'POST',
+      url: '/posts',
+      preHandler: createGuardPreHandler({ guards, context }),
+      handler: async (request, reply) => reply.send({ data: (request as any).user.permissions }),
+    });
+  };
+
+  it('should authenticate the request when no earlier guard did', async () => {
+    register([requirePermissions('posts:write')]);
+
+    const response = await app.inject({ method: 'POST', url: '/posts' });
+
+    expect(response.statusCode).toBe(401);
+  });
+
+  it('should respond with 403 and the missing permissions', async () => {
+    vi.mocked(Jwt.verifyToken).mockResolvedValue({ sub: '42', permissions: ['posts:read'] });
+    register([authGuard, requirePermissions('posts:read', 'posts:write')]);
+
+    const response = await app.inject({ method: 'POST', url: '/posts', headers: { authorization: 'Bearer token' } });
+
+    expect(response.statusCode).toBe(403);
+    expect(response.json().error).toMatchObject({
+      message: 'Insufficient permissions.',
+      type: 'authorization',
+      details: { missingPermissions: ['posts:write'] },
+    });
+  });
+
+  it('should allow users granted the permission through a role', async () => {
+    vi.mocked(Jwt.verifyToken).mockResolvedValue({ sub: '42', roles: ['editor'] });
+    register([requirePermissions('posts:write')]);
+
+    const response = await app.inject({ method: 'POST', url: '/posts', headers: { authorization: 'Bearer token' } });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual({ data: ['posts:*'] });
+  });
+});
@@ -0,0 +1,197 @@
+import Fastify, { type FastifyInstance, type RouteHandlerMethod } from 'fastify';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createIdempotencyHooks, getRequestFingerprint } from '../../../src/webserver/idempotency.js';
+import type { WebServerRouteIdempotencyOptions } from '../../../src/webserver/webserver.interface.js';
+
+const createRedisInstance = () => {
+  const store = new Map<string, string>();
+
+  return {
+    store,
+    client: {
+      set: vi.fn(async (key: string, value: string, ...args: unknown[]) => {
+        if (args.includes('NX') && store.has(key)) {
+          return null;
+        }
+
+        store.set(key, value);
+
+        return 'OK';
+      }),
+      get: vi.fn(async (key: string) => store.get(key) ?? null),
+      del: vi.fn(async (key: string) => Number(store.delete(key))),
+    },
+  };
+};
+
+describe('createIdempotencyHooks', () => {
+  let app: FastifyInstance;
+  let redisInstance: ReturnType<typeof createRedisInstance>;
+  let orderCount: number;
+
+  const register = (routeOptions: WebServerRouteIdempotencyOptions = {}, handler?: RouteHandlerMethod) => {
+    const hooks = createIdempotencyHooks({ routeOptions, redisInstance: redisInstance as any });
+
+    app.route({
+      method: ['POST', 'GET'],
+      url: '/orders',
+      preHandler: hooks.preHandler,
+      onSend: hooks.onSend,
+      handler:
+        handler ??
+        (async (_request, reply) => {
+          orderCount += 1;
+
+          return reply.status(201).header('location', `/orders/${orderCount}`).send({ id: orderCount });
+        }),
+    });
+  };
+
+  const createOrder = (key?: string, body: Record<string, unknown> = { item: 'book', quantity: 1 }) =>
+    app.inject({ method: 'POST', url: '/orders', headers: key ? { 'idempotency-key': key } : {}, payload: body });
+
+  beforeEach(() => {
+    app = Fastify();
+    redisInstance = createRedisInstance();
+    orderCount = 0;
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should replay the stored response for a repeated key', async () => {
+    register();
+
+    const first = await createOrder('key-1');
+    const second = await createOrder('key-1', { quantity: 1, item: 'book' });
+
+    expect(first.statusCode).toBe(201);
+    expect(second.statusCode).toBe(201);
+    expect(second.json()).toEqual({ id: 1 });
+    expect(second.headers.location).toBe('/orders/1');
+    expect(second.headers['idempotent-replayed']).toBe('true');
+    expect(first.headers['idempotent-replayed']).toBeUndefined();
+    expect(orderCount).toBe(1);
+  });
+
+  it('should expire stored responses after the TTL', async () => {
+    register({ ttl: 3600 });
+
+    await createOrder('key-1');
+
+    expect(redisInstance.client.set).toHaveBeenLastCalledWith(
+      'idempotency:anonymous:key-1',
+      expect.any(String),
+      'EX',
+      3600,
+    );
+  });
+
+  it('should reject a key reused with a different body', async () => {
+    register();
+
+    await createOrder('key-1');
+    const response = await createOrder('key-1', { item: 'pen', quantity: 1 });
+
+    expect(response.statusCode).toBe(422);
+    expect(response.json().error.message).toBe('Idempotency key was used for a different request');
+    expect(orderCount).toBe(1);
+  });
+
+  it('should reject a duplicate of a request in flight', async () => {
+    register();
+
+    await redisInstance.client.set(
+      'idempotency:anonymous:key-1',
+      JSON.stringify({
+        status: 'processing',
+        fingerprint: getRequestFingerprint({
+          method: 'POST',
+          url: '/orders',
+          body: { item: 'book', quantity: 1 },
+        } as any),
+      }),
+    );
+
+    const response = await createOrder('key-1');
+
+    expect(response.statusCode).toBe(409);
+    expect(orderCount).toBe(0);
+  });
+
+  it('should run requests without a key unless the key is required', async () => {
+    register();
+
+    await createOrder();
+    await createOrder();
+
+    expect(orderCount).toBe(2);
+    expect(redisInstance.store.size).toBe(0);
+  });
+
+  it('should reject requests without a key when the key is required', async () => {
+    register({ required: true });
+
+    const response = await createOrder();
+
+    expect(response.statusCode).toBe(400);
+    expect(response.json().error.message).toBe('Missing Idempotency-Key header');
+  });
+
+  it('should ignore safe methods', async () => {
+    register();
+
+    await app.inject({ method: 'GET', url: '/orders', headers: { 'idempotency-key': 'key-1' } });
+    await app.inject({ method: 'GET', url: '/orders', headers: { 'idempotency-key': 'key-1' } });
+
+    expect(orderCount).toBe(2);
+  });
+
+  it('should release the key after a server error', async () => {
+    register({}, async () => {
+      orderCount += 1;
+
+      throw new Error('Database unavailable');
+    });
+
+    const first = await createOrder('key-1');
+    const second = await createOrder('key-1');
+
+    expect(first.statusCode).toBe(500);
+    expect(second.statusCode).toBe(500);
+    expect(orderCount).toBe(2);
+    expect(redisInstance.store.size).toBe(0);
+  });
+
+  it('should release the key after unauthenticated and unauthorized responses', async () => {
+    const statusCodes = [401, 403];
+
+    register({}, async (_request, reply) => {
+      orderCount += 1;
+
+      return reply.status(statusCodes.shift() ?? 201).send({ id: orderCount });
+    });
+
+    const responses = [await createOrder('key-1'), await createOrder('key-1'), await createOrder('key-1')];
+
+    expect(responses.map(response => response.statusCode)).toEqual([401, 403, 201]);
+    expect(orderCount).toBe(3);
+  });
+
+  it('should scope keys to the tenant and user', async () => {
+    const hooks = createIdempotencyHooks({ redisInstance: redisInstance as any });
+
+    app.addHook('onRequest', async request => {
+      request.tenantId = 'acme';
+      (request as any).user = { userId: 7, payload: {} };
+    });
+    app.post('/orders', { preHandler: hooks.preHandler, onSend: hooks.onSend }, async (_request, reply) =>
+      reply.send({ ok: true }),
+    );
+
+    await createOrder('key-1');
+
+    expect(redisInstance.store.has('idempotency:tenant:acme:user:7:key-1')).toBe(true);
+  });
+});
@@ -0,0 +1,297 @@
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import WebServerBaseController from '../../../src/webserver/controller/base.js';
+import { defineRoute } from '../../../src/webserver/define-route.js';
+import { authGuard, defineGuard } from '../../../src/webserver/guard.js';
+import { generateOpenApiDocument, toOpenApiPath } from '../../../src/webserver/openapi.js';
+import type { WebServerRoute } from '../../../src/webserver/webserver.interface.js';
+import { WebServerRouteType } from '../../../src/webserver/webserver.interface.js';
+
+class UserController extends WebServerBaseController {
+  list = async () => {};
+}
+
+const info = { title: 'Test API', version: '1.0.0' };
+
+describe('toOpenApiPath', () => {
+  it('should convert Fastify params to OpenAPI params', () => {
+    expect(toOpenApiPath('/users/:id/posts/:postId')).toEqual({
+      path: '/users/{id}/posts/{postId}',
+      pathParams: ['id', 'postId'],
+    });
+  });
+
+  it('should strip param regex constraints', () => {
+    expect(toOpenApiPath('/files/:id(^\\d+$)').path).toBe('/files/{id}');
+  });
+});
+
+describe('generateOpenApiDocument', () => {
+  it('should document params, query, body and responses', () => {
+    const route = defineRoute({
+      method: 'POST',
+      path: '/users/:id',
+      schema: {
+        params: z.object({ id: z.coerce.number() }),
+        querystring: z.object({ notify: z.string().optional() }),
+        body: z.object({ name: z.string() }),
+        response: { 201: z.object({ id: z.number(), createdAt: z.date() }) },
+      },
+      handler: async (_request, reply) => reply.send(),
+    });
+
+    const document = generateOpenApiDocument({ routes: [route], info });
+    const operation = document.paths['/users/{id}']?.post;
+
+    expect(document.openapi).toBe('3.1.0');
+    expect(operation?.operationId).toBe('postUsersById');
+    expect(operation?.tags).toEqual(['Users']);
+    expect(operation?.parameters).toEqual([
+      { name: 'id', in: 'path', required: true, schema: { type: 'number' } },
+      { name: 'notify', in: 'query', required: false, schema: { type: 'string' } },
+    ]);
+    expect(operation?.requestBody?.required).toBe(true);
+    expect(operation?.requestBody?.content['application/json'].schema).toMatchObject({
+      type: 'object',
+      properties: { name: { type: 'string' } },
+    });
+    expect(operation?.responses['201'].content?.['application/json'].schema).toMatchObject({
+      properties: { createdAt: { type: 'string', format: 'date-time' } },
+    });
+  });
+
+  it('should deduplicate schemas with an id into components', () => {
+    const User = z.object({ id: z.number(), name: z.string() }).meta({ id: 'OpenApiTestUser' });
+
+    const routes = [
+      defineRoute({
+        method: 'GET',
+        path: '/users',
+        schema: { response: { 200: z.object({ data: z.array(User) }) } },
+        handler: async (_request, reply) => reply.send(),
+      }),
+      defineRoute({
+        method: 'GET',
+        path: '/users/:id',
+        schema: { response: { 200: User } },
+        handler: async (_request, reply) => reply.send(),
+      }),
+    ];
+
+    const document = generateOpenApiDocument({ routes, info });
+
+    expect(Object.keys(document.components.schemas)).toEqual(['OpenApiTestUser']);
+    expect(document.paths['/users/{id}']?.get?.responses['200'].content?.['application/json'].schema).toEqual({
+      $ref: '#/components/schemas/OpenApiTestUser',
+    });
+    expect(document.paths['/users']?.get?.responses['200'].content?.['application/json'].schema).toMatchObject({
+      properties: { data: { items: { $ref: '#/components/schemas/OpenApiTestUser' } } },
+    });
+  });
+
+  it('should number different schemas sharing an id', () => {
+    const shapes = [
+      z.object({ id: z.number() }),
+      z.object({ id: z.string() }),
+      z.object({ id: z.boolean() }),
+      z.object({ id: z.string() }),
+    ];
+
+    const routes = shapes.map((shape, index) =>
+      defineRoute({
+        method: 'GET',
+        path: `/accounts/${index}`,
+        schema: { response: { 200: shape.meta({ id: 'OpenApiTestAccount' }) } },
+        handler: async (_request, reply) => reply.send(),
+      }),
+    );
+
+    const document = generateOpenApiDocument({ routes, info });
+
+    expect(Object.keys(document.components.schemas)).toEqual([
+      'OpenApiTestAccount',
+      'OpenApiTestAccountOutput',
+      'OpenApiTestAccountOutput2',
+    ]);
+    expect(document.components.schemas.OpenApiTestAccountOutput2).toMatchObject({
+      properties: { id: { type: 'boolean' } },
+    });
+    expect(
+      routes.map(
+        (_route, index) =>
+          document.paths[`/accounts/${index}`]?.get?.responses['200'].content?.['application/json'].schema,
+      ),
+    ).toEqual([
+      { $ref: '#/components/schemas/OpenApiTestAccount' },
+      { $ref: '#/components/schemas/OpenApiTestAccountOutput' },
+      { $ref: '#/components/schemas/OpenApiTestAccountOutput2' },
+      { $ref: '#/components/schemas/OpenApiTestAccountOutput' },
+    ]);
+  });
+
+  it('should add bearer security and error responses to authenticated routes', () => {
+    const route = defineRoute({
+      method: 'GET',
+      path: '/me',
+      handler: async (_request, reply) => reply.send(),
+      openapi: { auth: true, summary: 'Current user', operationId: 'getCurrentUser' },
+    });
+
+    const document = generateOpenApiDocument({ routes: [route], info });
+    const operation = document.paths['/me']?.get;
+
+    expect(document.components.securitySchemes.bearerAuth).toEqual({
+      type: 'http',
+      scheme: 'bearer',
+      bearerFormat: 'JWT',
+    });
+    expect(operation?.operationId).toBe('getCurrentUser');
+    expect(operation?.summary).toBe('Current user');
+    expect(operation?.security).toEqual([{ bearerAuth: [] }]);
+    expect(operation?.responses['401'].content?.['application/json'].schema).toEqual({
+      $ref: '#/components/schemas/ApiErrorResponse',
+    });
+  });
+
+  it('should treat routes with an authenticating guard as authenticated', () => {
+    const routes = [
+      defineRoute({
+        method: 'GET',
+        path: '/me',
+        guards: [authGuard],
+        handler: async (_request, reply) => reply.send(),
+      }),
+      defineRoute({
+        method: 'GET',
+        path: '/ping',
+        guards: [defineGuard(() => undefined)],
+        handler: async (_request, reply) => reply.send(),
+      }),
+    ];
+
+    const document = generateOpenApiDocument({ routes, info });
+
+    expect(document.paths['/me']?.get?.security).toEqual([{ bearerAuth: [] }]);
+    expect(document.paths['/ping']?.get?.security).toBeUndefined();
+  });
+
+  it('should document the security schemes of route authentication strategies', () => {
+    const route = defineRoute({
+      method: 'GET',
+      path: '/reports',
+      auth: ['jwt', 'apiKey'],
+      handler: async (_request, reply) => reply.send(),
+    });
+
+    const document = generateOpenApiDocument({ routes: [route], info, apiKeyHeader: 'x-acme-key' });
+
+    expect(document.components.securitySchemes.apiKeyAuth).toEqual({
+      type: 'apiKey',
+      in: 'header',
+      name: 'x-acme-key',
+    });
+    expect(document.paths['/reports']?.get?.security).toEqual([{ bearerAuth: [] }, { apiKeyAuth: [] }]);
+  });
+
+  it('should document 401 and 403 responses for routes requiring permissions', () => {
+    const route = defineRoute({
+      method: 'POST',
+      path: '/posts',
+      requires: ['posts:write'],
+      handler: async (_request, reply) => reply.send(),
+    });
+
+    const operation = generateOpenApiDocument({ routes: [route], info }).paths['/posts']?.post;
+
+    expect(operation?.security).toEqual([{ bearerAuth: [] }]);
+    expect(Object.keys(operation?.responses ?? {})).toEqual(['200', '401', '403']);
+  });
+
+  it('should derive operation ids and tags from controller actions and keep them unique', () => {
+    const routes: WebServerRoute[] = [
+      { type: WebServerRouteType.Default, method: 'GET', path: '/users', controller: UserController, action: 'list' },
+      { type: WebServerRouteType.Default, method: 'GET', path: '/people', controller: UserController, action: 'list' },
+    ];
+
+    const document = generateOpenApiDocument({ routes, info });
+
+    expect(document.paths['/users']?.get?.operationId).toBe('userList');
+    expect(document.paths['/people']?.get?.operationId).toBe('userList2');
+    expect(document.paths['/users']?.get?.tags).toEqual(['User']);
+    expect(document.paths['/users']?.get?.responses).toEqual({ '200': { description: 'OK' } });
+  });
+
+  it('should expand entity routes and skip hidden routes', () => {
+    const routes: WebServerRoute[] = [
+      {
+        type: WebServerRouteType.Entity,
+        path: '/posts',
+        controller: UserController,
+        entityName: 'post',
+        actions: ['patchOne', 'restoreOne', 'forceDeleteOne', 'getHistory', 'createMany', 'updateMany'],
+      },
+      defineRoute({
+        method: 'GET',
+        path: '/internal',
+        handler: async (_request, reply) => reply.send(),
+        openapi: { hidden: true },
+      }),
+    ];
+
+    const document = generateOpenApiDocument({ routes, info });
+
+    expect(Object.keys(document.paths)).toEqual([
+      '/posts/options',
+      '/posts',
+      '/posts/{id}',
+      '/posts/{id}/restore',
+      '/posts/{id}/force',
+      '/posts/{id}/history',
+      '/posts/bulk',
+    ]);
+    expect(document.paths['/posts']?.post?.responses).toHaveProperty('201');
+    expect(document.paths['/posts/bulk']?.post?.responses).toHaveProperty('201');
+    expect(document.paths['/posts/bulk']?.patch?.responses).toHaveProperty('200');
+    expect(document.paths['/posts/bulk']?.delete).toBeUndefined();
+    expect(document.paths['/posts/{id}']?.delete?.responses).toHaveProperty('204');
+    expect(document.paths['/posts/{id}']?.patch?.responses).toHaveProperty('200');
+    expect(document.paths['/posts/{id}']?.get?.parameters).toEqual([
+      { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+    ]);
+    expect(document.tags).toEqual([{ name: 'Post' }]);
+  });
+
+  it('should document entity request bodies without entity fields', () => {
+    const routes: WebServerRoute[] = [
+      {
+        type: WebServerRouteType.Entity,
+        path: '/posts',
+        controller: UserController,
+        entityName: 'post',
+        actions: ['patchOne', 'updateMany', 'deleteMany'],
+      },
+    ];
+
+    const document = generateOpenApiDocument({ routes, info });
+
+    expect(document.paths['/posts']?.post?.requestBody).toEqual({
+      description: 'Post fields, validated with the entity schema (not described here)',
+      required: true,
+      content: { 'application/json': { schema: { type: 'object' } } },
+    });
+    expect(document.paths['/posts']?.post?.responses).toEqual({ '201': { description: 'Created' } });
+    expect(document.paths['/posts']?.get?.requestBody).toBeUndefined();
+    expect(Object.keys(document.paths['/posts/{id}']?.patch?.requestBody?.content ?? {})).toEqual([
+      'application/json-patch+json',
+      'application/merge-patch+json',
+      'application/json',
+    ]);
+    expect(document.paths['/posts/bulk']?.patch?.requestBody?.content['application/json']?.schema).toMatchObject({
+      required: ['items'],
+      properties: { items: { type: 'array', items: { type: 'object', required: ['id'] } } },
+    });
+    expect(document.paths['/posts/bulk']?.delete?.requestBody?.content['application/json']?.schema).toMatchObject({
+      required: ['ids'],
+    });
+  });
+});
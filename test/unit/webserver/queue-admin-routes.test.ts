@@ -0,0 +1,176 @@
+import Fastify from 'fastify';
+import { describe, expect, it } from 'vitest';
+import AuthenticationStrategies from '../../../src/auth/strategy.js';
+import { ConfigurationError } from '../../../src/error/framework-errors.js';
+import QueueAdminController from '../../../src/webserver/controller/queue-admin.js';
+import type { RouteGuardContext } from '../../../src/webserver/guard.interface.js';
+import {
+  authGuard,
+  createGuardPreHandler,
+  requireAuthentication,
+  requirePermissions,
+} from '../../../src/webserver/guard.js';
+import { defineQueueAdminRoutes, defineQueueDeadLetterRoutes } from '../../../src/webserver/queue-admin-routes.js';
+
+const toSignatures = (routes: ReturnType<typeof defineQueueAdminRoutes>) =>
+  routes.map(route => [('method' in route && route.method) || undefined, route.path, (route as any).action]);
+
+describe('defineQueueAdminRoutes', () => {
+  it('should define queue, job and dead-letter routes', () => {
+    const routes = defineQueueAdminRoutes();
+
+    expect(toSignatures(routes)).toEqual([
+      ['GET', '/admin/queues', 'listQueues'],
+      ['GET', '/admin/queues/:queueId', 'getQueue'],
+      ['GET', '/admin/queues/:queueId/jobs', 'listJobs'],
+      ['GET', '/admin/queues/:queueId/jobs/:jobId', 'getJob'],
+      ['POST', '/admin/queues/:queueId/jobs/:jobId/retry', 'retryJob'],
+      ['POST', '/admin/queues/:queueId/jobs/:jobId/promote', 'promoteJob'],
+      ['DELETE', '/admin/queues/:queueId/jobs/:jobId', 'removeJob'],
+      ['POST', '/admin/queues/:queueId/pause', 'pauseQueue'],
+      ['POST', '/admin/queues/:queueId/resume', 'resumeQueue'],
+      ['POST', '/admin/queues/:queueId/drain', 'drainQueue'],
+      ['POST', '/admin/queues/:queueId/clean', 'cleanQueue'],
+      ['GET', '/admin/queues/:queueId/dead-letters', 'listDeadLetters'],
+      ['GET', '/admin/queues/:queueId/dead-letters/:entryId', 'getDeadLetter'],
+      ['POST', '/admin/queues/:queueId/dead-letters/:entryId/replay', 'replayDeadLetter'],
+      ['DELETE', '/admin/queues/:queueId/dead-letters/:entryId', 'purgeDeadLetters'],
+      ['DELETE', '/admin/queues/:queueId/dead-letters', 'purgeDeadLetters'],
+    ]);
+    expect(routes.every(route => route.controller === QueueAdminController)).toBe(true);
+    expect(routes[2]?.schema?.querystring?.parse({ page: '2' })).toEqual({ page: 2, limit: 20, state: 'waiting' });
+    expect(routes[2]?.schema?.querystring?.safeParse({ state: 'unknown' }).success).toBe(false);
+    expect(routes[10]?.schema?.body?.parse({ state: 'completed', olderThanSeconds: 3600 })).toEqual({
+      state: 'completed',
+      olderThanSeconds: 3600,
+    });
+    expect(routes[10]?.schema?.body?.safeParse({ state: 'active', olderThanSeconds: 3600 }).success).toBe(false);
+  });
+
+  it('should require authentication with the default strategies and the queues:admin permission', () => {
+    const routes = defineQueueAdminRoutes();
+
+    expect(routes.every(route => route.auth === undefined && route.requires?.join() === 'queues:admin')).toBe(true);
+    expect(routes.every(route => route.guards?.[0] === authGuard)).toBe(true);
+  });
+
+  it('should reject users without the required permission', async () => {
+    AuthenticationStrategies.registerStrategy({
+      name: 'queue-admin-test',
+      hasCredentials: () => true,
+      authenticate: async ({ request }) => ({
+        success: true,
+        user: {
+          userId: 1,
+          payload: {},
+          roles: [],
+          permissions: String(request.headers['x-permissions'] ?? '').split(','),
+        },
+      }),
+    });
+
+    const [route] = defineQueueAdminRoutes({ auth: ['queue-admin-test'] });
+    const app = Fastify();
+
+    app.get(route?.path as string, {
+      preHandler: createGuardPreHandler({
+        guards: [requireAuthentication(...(route?.auth ?? [])), requirePermissions(...(route?.requires ?? []))],
+        context: { applicationConfig: { name: 'test-app' } } as unknown as RouteGuardContext,
+      }),
+      handler: async (_request, reply) => reply.send({ data: [] }),
+    });
+
+    const forbidden = await app.inject({
+      method: 'GET',
+      url: '/admin/queues',
+      headers: { 'x-permissions': 'posts:read' },
+    });
+    const allowed = await app.inject({
+      method: 'GET',
+      url: '/admin/queues',
+      headers: { 'x-permissions': 'queues:admin' },
+    });
+
+    expect(forbidden.statusCode).toBe(403);
+    expect(allowed.statusCode).toBe(200);
+
+    await app.close();
+  });
+
+  it('should reject an empty permission list', () => {
+    expect(() => defineQueueAdminRoutes({ requires: [] })).toThrow(ConfigurationError);
+  });
+
+  it('should protect routes and allow a custom path', () => {
+    const routes = defineQueueAdminRoutes({ path: '/ops/queues', auth: ['jwt'], requires: ['queues:admin'] });
+
+    expect(routes[0]?.path).toBe('/ops/queues');
+    expect(routes.every(route => route.auth?.[0] === 'jwt' && route.requires?.[0] === 'queues:admin')).toBe(true);
+    expect(routes.every(route => route.guards?.length === 1)).toBe(true);
+  });
+
+  it('should reject tenant-scoped requests when multi-tenancy is enabled', async () => {
+    AuthenticationStrategies.registerStrategy({
+      name: 'queue-admin-tenant-test',
+      hasCredentials: () => true,
+      authenticate: async ({ request }) => {
+        const tenantId = request.headers['x-user-tenant'];
+
+        return {
+          success: true,
+          user: {
+            userId: 1,
+            payload: {},
+            roles: [],
+            permissions: ['queues:admin'],
+            ...(typeof tenantId === 'string' && { tenantId }),
+          },
+        };
+      },
+    });
+
+    const [route] = defineQueueAdminRoutes({ auth: ['queue-admin-tenant-test'] });
+    const app = Fastify();
+
+    app.get(route?.path as string, {
+      preHandler: createGuardPreHandler({
+        guards: [
+          requireAuthentication(...(route?.auth ?? [])),
+          ...(route?.guards ?? []),
+          requirePermissions(...(route?.requires ?? [])),
+        ],
+        context: {
+          applicationConfig: { name: 'test-app', tenancy: { enabled: true, resolver: 'header' } },
+        } as unknown as RouteGuardContext,
+      }),
+      handler: async (_request, reply) => reply.send({ data: [] }),
+    });
+
+    const tenantUser = await app.inject({ method: 'GET', url: '/admin/queues', headers: { 'x-user-tenant': 'acme' } });
+    const operator = await app.inject({ method: 'GET', url: '/admin/queues' });
+
+    expect(tenantUser.statusCode).toBe(403);
+    expect(tenantUser.json()).toMatchObject({
+      error: { message: 'Queue administration is not available to tenants.', type: 'authorization' },
+    });
+    expect(operator.statusCode).toBe(200);
+
+    await app.close();
+  });
+});
+
+describe('defineQueueDeadLetterRoutes', () => {
+  it('should define list, get, replay and purge routes', () => {
+    const routes = defineQueueDeadLetterRoutes({ path: '/ops/queues' });
+
+    expect(toSignatures(routes)).toEqual([
+      ['GET', '/ops/queues/:queueId/dead-letters', 'listDeadLetters'],
+      ['GET', '/ops/queues/:queueId/dead-letters/:entryId', 'getDeadLetter'],
+      ['POST', '/ops/queues/:queueId/dead-letters/:entryId/replay', 'replayDeadLetter'],
+      ['DELETE', '/ops/queues/:queueId/dead-letters/:entryId', 'purgeDeadLetters'],
+      ['DELETE', '/ops/queues/:queueId/dead-letters', 'purgeDeadLetters'],
+    ]);
+    expect(routes[0]?.schema?.querystring?.parse({ page: '2' })).toEqual({ page: 2, limit: 20 });
+    expect(routes[2]?.schema?.body?.safeParse({ payload: [] }).success).toBe(false);
+  });
+});
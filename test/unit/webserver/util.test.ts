@@ -1,7 +1,7 @@
 import { describe, expect, it } from 'vitest';
 import webserverUtil from '../../../src/webserver/util.js';
 
-const { getEntityRouteDefinitions } = webserverUtil;
+const { getEntityRouteDefinitions, getErrorType, toRouteArray } = webserverUtil;
 
 describe('webserver util', () => {
   it('creates standard CRUD route definitions for an entity', () => {
@@ -27,6 +27,52 @@ describe('webserver util', () => {
     ]);
   });
 
+  it('adds the patch route listed in actions', () => {
+    const routes = getEntityRouteDefinitions({
+      basePath: '/users',
+      entityValidationSchema: { schema: {} },
+      actions: ['patchOne'],
+    });
+
+    expect(routes).toContainEqual({ path: '/users/:id', method: 'PATCH', action: 'patchOne' });
+  });
+
+  it('adds the history route listed in actions', () => {
+    const routes = getEntityRouteDefinitions({
+      basePath: '/users',
+      entityValidationSchema: { schema: {} },
+      actions: ['getHistory'],
+    });
+
+    expect(routes).toContainEqual({ path: '/users/:id/history', method: 'GET', action: 'getHistory' });
+  });
+
+  it('adds the soft delete routes listed in actions', () => {
+    const routes = getEntityRouteDefinitions({
+      basePath: '/users',
+      entityValidationSchema: { schema: {} },
+      actions: ['restoreOne', 'forceDeleteOne'],
+    });
+
+    expect(routes.filter(route => route.action === 'restoreOne' || route.action === 'forceDeleteOne')).toEqual([
+      { path: '/users/:id/restore', method: 'POST', action: 'restoreOne' },
+      { path: '/users/:id/force', method: 'DELETE', action: 'forceDeleteOne' },
+    ]);
+  });
+
+  it('adds the bulk routes listed in actions', () => {
+    const routes = getEntityRouteDefinitions({
+      basePath: '/users',
+      entityValidationSchema: { schema: {} },
+      actions: ['createMany', 'deleteMany'],
+    });
+
+    expect(routes.filter(route => route.path === '/users/bulk')).toEqual([
+      { path: '/users/bulk', method: 'POST', action: 'createMany' },
+      { path: '/users/bulk', method: 'DELETE', action: 'deleteMany' },
+    ]);
+  });
+
   it('reuses base path when generating routes', () => {
     const routes = getEntityRouteDefinitions({
       basePath: '/projects',
@@ -36,4 +82,25 @@ describe('webserver util', () => {
     const uniquePaths = new Set(routes.map(route => route.path));
     expect(uniquePaths.size).toBe(3); // /projects, /projects/options, /projects/:id
   });
+
+  it('flattens nested route arrays from module exports', () => {
+    const first = { path: '/a' };
+    const second = { path: '/b' };
+
+    expect(toRouteArray([first, [second]])).toEqual([first, second]);
+    expect(toRouteArray({ routes: [[first], second] })).toEqual([first, second]);
+    expect(toRouteArray(first)).toEqual([first]);
+    expect(toRouteArray(undefined)).toEqual([]);
+  });
+
+  it('maps error status codes to API error types', () => {
+    expect([401, 403, 404, 422, 409, 504].map(statusCode => getErrorType(statusCode))).toEqual([
+      'authentication',
+      'authorization',
+      'not_found',
+      'validation',
+      'client_error',
+      'server_error',
+    ]);
+  });
 });
@@ -1,7 +1,13 @@
 import { mock } from 'node:test';
-import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { z } from 'zod';
 import type { ApplicationConfig } from '../../../src/application/base-application.interface.js';
+import TenantScope from '../../../src/database/tenant-scope.js';
+import { runWithContextAsync } from '../../../src/request-context/index.js';
+import type { EntityPaginationOptions } from '../../../src/webserver/controller/entity.interface.js';
+import CrudController from '../../../src/webserver/controller/entity.js';
+import { defineRoute } from '../../../src/webserver/define-route.js';
+import { defineRouteGroup } from '../../../src/webserver/define-route-group.js';
 import type { WebServerOptions, WebServerRoute } from '../../../src/webserver/webserver.interface.js';
 import { WebServerRouteType } from '../../../src/webserver/webserver.interface.js';
 import WebServer from '../../../src/webserver/webserver.js';
@@ -16,6 +22,9 @@ vi.mock('fastify', () => {
     close: vi.fn().mockResolvedValue(undefined),
     register: vi.fn().mockResolvedValue(undefined),
     addHook: vi.fn(),
+    addContentTypeParser: vi.fn(),
+    removeContentTypeParser: vi.fn(),
+    getDefaultJsonParser: vi.fn(() => vi.fn()),
     route: vi.fn(),
     printRoutes: vi.fn().mockReturnValue('mocked routes'),
     setValidatorCompiler: vi.fn(),
@@ -229,6 +238,55 @@ describe('WebServer', () => {
       expect(webServer.fastifyServer.register).toHaveBeenCalled();
     });
 
+    it('should parse JSON Patch and JSON Merge Patch bodies', async () => {
+      const webServer = new WebServer({
+        applicationConfig,
+        options,
+        routes,
+        redisInstance: mockRedisInstance as any,
+        queueManager: mockQueueManager as any,
+        eventManager: mockEventManager,
+        databaseInstance: mockDatabaseInstance as any,
+        lifecycleManager: mockLifecycleManager,
+      });
+
+      await webServer.load();
+
+      expect(webServer.fastifyServer.addContentTypeParser).toHaveBeenCalledWith(
+        ['application/json-patch+json', 'application/merge-patch+json'],
+        { parseAs: 'string' },
+        expect.any(Function),
+      );
+      expect(webServer.fastifyServer.getDefaultJsonParser).toHaveBeenCalledWith('error', 'error');
+      expect(webServer.fastifyServer.getDefaultJsonParser).not.toHaveBeenCalledWith('error', 'ignore');
+    });
+
+    it('should keep the raw JSON body with poisoning protection when HMAC authentication is configured', async () => {
+      const webServer = new WebServer({
+        applicationConfig: {
+          ...applicationConfig,
+          auth: { hmac: { clients: { partner: { secret: 'partner-secret' } } } },
+        } as ApplicationConfig,
+        options,
+        routes,
+        redisInstance: mockRedisInstance as any,
+        queueManager: mockQueueManager as any,
+        eventManager: mockEventManager,
+        databaseInstance: mockDatabaseInstance as any,
+        lifecycleManager: mockLifecycleManager,
+      });
+
+      await webServer.load();
+
+      expect(webServer.fastifyServer.removeContentTypeParser).toHaveBeenCalledWith('application/json');
+      expect(webServer.fastifyServer.addContentTypeParser).toHaveBeenCalledWith(
+        'application/json',
+        { parseAs: 'string' },
+        expect.any(Function),
+      );
+      expect(webServer.fastifyServer.getDefaultJsonParser).toHaveBeenNthCalledWith(1, 'error', 'error');
+    });
+
     it('should load routes from configured routes directory', async () => {
       const routesDirectory = '/test/routes';
       const { File, Loader } = await import('../../../src/util/index.js');
@@ -294,6 +352,93 @@ describe('WebServer', () => {
       vi.mocked(Loader.loadModulesInDirectory).mockResolvedValue({});
     });
 
+    it('should load route groups exported from the routes directory', async () => {
+      const routesDirectory = '/test/routes';
+      const { File, Loader } = await import('../../../src/util/index.js');
+
+      vi.mocked(File.pathExists).mockImplementation(async path => path === routesDirectory);
+      vi.mocked(Loader.loadModulesInDirectory).mockImplementation(async ({ directory }) => {
+        if (directory === routesDirectory) {
+          return {
+            v1: {
+              routes: [
+                defineRouteGroup({
+                  prefix: '/v1',
+                  rateLimit: { max: 10, timeWindow: '1 minute' },
+                  routes: [defineRoute({ method: 'GET', path: '/status', handler: vi.fn() })],
+                }),
+              ],
+            },
+          };
+        }
+
+        return {};
+      });
+
+      const webServer = new WebServer({
+        applicationConfig,
+        options: {
+          ...options,
+          routesDirectory,
+        },
+        routes: undefined,
+        redisInstance: mockRedisInstance as any,
+        queueManager: mockQueueManager as any,
+        eventManager: mockEventManager,
+        databaseInstance: mockDatabaseInstance as any,
+        lifecycleManager: mockLifecycleManager,
+      });
+
+      await webServer.load();
+
+      expect(webServer.fastifyServer.route).toHaveBeenCalledWith(
+        expect.objectContaining({
+          url: '/v1/status',
+          method: 'GET',
+          config: { rateLimit: { max: 10, timeWindow: '1 minute' } },
+        }),
+      );
+
+      vi.mocked(File.pathExists).mockResolvedValue(false);
+      vi.mocked(Loader.loadModulesInDirectory).mockResolvedValue({});
+    });
+
+    it('should resolve named rate limit policies of routes', async () => {
+      const webServer = new WebServer({
+        applicationConfig: {
+          ...applicationConfig,
+          rateLimit: { policies: { login: { algorithm: 'sliding-window', max: 5, key: 'user' } } },
+        },
+        options,
+        routes: [
+          defineRoute({ method: 'POST', path: '/login', rateLimit: 'login', handler: vi.fn() }),
+          defineRoute({ method: 'POST', path: '/signup', rateLimit: 'signup', handler: vi.fn() }),
+        ],
+        redisInstance: mockRedisInstance as any,
+        queueManager: mockQueueManager as any,
+        eventManager: mockEventManager,
+        databaseInstance: mockDatabaseInstance as any,
+        lifecycleManager: mockLifecycleManager,
+      });
+
+      await expect(webServer.load()).rejects.toThrow('Rate limit policy not found: signup');
+
+      expect(webServer.fastifyServer.route).toHaveBeenCalledWith(
+        expect.objectContaining({
+          url: '/login',
+          config: {
+            rateLimit: {
+              algorithm: 'sliding-window',
+              max: 5,
+              policyName: 'login',
+              keyGenerator: expect.any(Function),
+              hook: 'preHandler',
+            },
+          },
+        }),
+      );
+    });
+
     it('should throw a helpful error when routesDirectory and explicit routes are both configured', async () => {
       const routesDirectory = '/conflict/routes';
 
@@ -379,6 +524,114 @@ describe('WebServer', () => {
       vi.mocked(Loader.loadEntityModule).mockResolvedValue({ schema: null });
     });
 
+    describe('entity route actions', () => {
+      class EntityController {
+        public options = vi.fn();
+        public getMany = vi.fn();
+        public getOne = vi.fn();
+        public createOne = vi.fn();
+        public updateOne = vi.fn();
+        public patchOne = vi.fn();
+        public deleteOne = vi.fn();
+        public restoreOne = vi.fn();
+        public forceDeleteOne = vi.fn();
+        public getHistory = vi.fn();
+      }
+
+      beforeEach(async () => {
+        const { File } = await import('../../../src/util/index.js');
+
+        vi.mocked(File.pathExists).mockResolvedValue(true);
+      });
+
+      afterEach(async () => {
+        const { File } = await import('../../../src/util/index.js');
+
+        vi.mocked(File.pathExists).mockResolvedValue(false);
+      });
+
+      const createWebServer = () =>
+        new WebServer({
+          applicationConfig: {
+            ...applicationConfig,
+            database: { enabled: true, entitiesDirectory: '/entities' },
+          } as ApplicationConfig,
+          options,
+          routes: [
+            {
+              type: WebServerRouteType.Entity,
+              path: '/customers',
+              controller: EntityController as any,
+              entityName: 'Customer',
+              actions: ['restoreOne', 'forceDeleteOne'],
+            },
+          ],
+          redisInstance: mockRedisInstance as any,
+          queueManager: mockQueueManager as any,
+          eventManager: mockEventManager,
+          databaseInstance: mockDatabaseInstance as any,
+          lifecycleManager: mockLifecycleManager,
+        });
+
+      it('should register restore and force delete routes for soft-deleting entities', async () => {
+        const { Loader } = await import('../../../src/util/index.js');
+
+        vi.mocked(Loader.loadEntityModule).mockResolvedValueOnce({ schema: null, softDelete: true });
+
+        const webServer = createWebServer();
+
+        await webServer.load();
+
+        const urls = vi
+          .mocked(webServer.fastifyServer.route)
+          .mock.calls.map(([route]) => `${route.method} ${route.url}`);
+
+        expect(urls).toContain('POST /customers/:id/restore');
+        expect(urls).toContain('DELETE /customers/:id/force');
+      });
+
+      it('should reject restore and force delete actions for entities that do not soft delete', async () => {
+        const webServer = createWebServer();
+
+        await expect(webServer.load()).rejects.toThrow(
+          'Entity route actions require a soft-deleting entity (Entity: Customer | Actions: restoreOne, forceDeleteOne)',
+        );
+      });
+
+      it('should require a cursor secret for controllers with cursor pagination', async () => {
+        class CustomerController extends CrudController {
+          protected entityName = 'customer';
+          protected pagination: EntityPaginationOptions = { type: 'cursor' };
+        }
+
+        const createCursorWebServer = (pagination?: WebServerOptions['pagination']) =>
+          new WebServer({
+            applicationConfig,
+            options: { ...options, pagination },
+            routes: [
+              {
+                type: WebServerRouteType.Entity,
+                path: '/customers',
+                controller: CustomerController as any,
+                entityName: 'Customer',
+              },
+            ],
+            redisInstance: mockRedisInstance as any,
+            queueManager: mockQueueManager as any,
+            eventManager: mockEventManager,
+            databaseInstance: mockDatabaseInstance as any,
+            lifecycleManager: mockLifecycleManager,
+          });
+
+        await expect(createCursorWebServer().load()).rejects.toThrow(
+          'Cursor pagination requires webServer.pagination.cursorSecret (Controller: CustomerController)',
+        );
+        await expect(
+          createCursorWebServer({ cursorSecret: 'cursor-secret-for-tests' }).load(),
+        ).resolves.toBeUndefined();
+      });
+    });
+
     it('should register routes with Zod schemas via handler-only definitions', async () => {
       routes = [
         {
@@ -445,6 +698,223 @@ describe('WebServer', () => {
       expect(webServer.fastifyServer.route).toHaveBeenCalled();
     });
 
+    it('should serve the OpenAPI document when enabled', async () => {
+      routes = [
+        {
+          type: WebServerRouteType.Default,
+          method: 'POST',
+          path: '/typed/:id',
+          handler: vi.fn(),
+          schema: {
+            body: z.object({ name: z.string() }),
+          },
+        } as WebServerRoute,
+      ];
+
+      const webServer = new WebServer({
+        applicationConfig,
+        options: {
+          ...options,
+          openApi: { enabled: true, path: '/docs/openapi.json', info: { version: '2.0.0' } },
+        },
+        routes,
+        redisInstance: mockRedisInstance as any,
+        queueManager: mockQueueManager as any,
+        eventManager: mockEventManager,
+        databaseInstance: mockDatabaseInstance as any,
+        lifecycleManager: mockLifecycleManager,
+      });
+
+      await webServer.load();
+
+      const routeCalls = vi.mocked(webServer.fastifyServer.route).mock.calls;
+      const openApiRouteCall = routeCalls.find((call: any) => call[0].url === '/docs/openapi.json');
+
+      expect(openApiRouteCall?.[0]).toMatchObject({ method: 'GET' });
+
+      const reply = { send: vi.fn((payload: unknown) => payload) };
+      const document = await (openApiRouteCall?.[0] as any).handler({}, reply);
+
+      expect(document.info).toEqual({ title: 'test-app', version: '2.0.0' });
+      expect(document.paths['/typed/{id}'].post.requestBody).toBeDefined();
+    });
+
+    it('should attach a guard preHandler to guarded routes only', async () => {
+      const guard = vi.fn();
+
+      routes = [
+        {
+          type: WebServerRouteType.Default,
+          method: 'GET',
+          path: '/guarded',
+          handler: vi.fn(),
+          guards: [guard],
+        } as WebServerRoute,
+        {
+          type: WebServerRouteType.Default,
+          method: 'GET',
+          path: '/open',
+          handler: vi.fn(),
+        } as WebServerRoute,
+      ];
+
+      const webServer = new WebServer({
+        applicationConfig,
+        options,
+        routes,
+        redisInstance: mockRedisInstance as any,
+        queueManager: mockQueueManager as any,
+        eventManager: mockEventManager,
+        databaseInstance: mockDatabaseInstance as any,
+        lifecycleManager: mockLifecycleManager,
+      });
+
+      await webServer.load();
+
+      const routeCalls = vi.mocked(webServer.fastifyServer.route).mock.calls;
+      const guardedRouteCall = routeCalls.find((call: any) => call[0].url === '/guarded');
+      const openRouteCall = routeCalls.find((call: any) => call[0].url === '/open');
+
+      expect(typeof (guardedRouteCall?.[0] as any).preHandler).toBe('function');
+      expect((openRouteCall?.[0] as any).preHandler).toBeUndefined();
+
+      const request = {};
+      const reply = { sent: false };
+      await (guardedRouteCall?.[0] as any).preHandler(request, reply);
+
+      expect(guard).toHaveBeenCalledWith(
+        request,
+        reply,
+        expect.objectContaining({ applicationConfig, route: { method: 'GET', path: '/guarded' } }),
+      );
+    });
+
+    it('should run the idempotency hooks after the guards of idempotent routes', async () => {
+      routes = [
+        {
+          type: WebServerRouteType.Default,
+          method: 'POST',
+          path: '/orders',
+          handler: vi.fn(),
+          guards: [vi.fn()],
+          idempotency: true,
+        } as WebServerRoute,
+      ];
+
+      const webServer = new WebServer({
+        applicationConfig,
+        options,
+        routes,
+        redisInstance: mockRedisInstance as any,
+        queueManager: mockQueueManager as any,
+        eventManager: mockEventManager,
+        databaseInstance: mockDatabaseInstance as any,
+        lifecycleManager: mockLifecycleManager,
+      });
+
+      await webServer.load();
+
+      const routeCall = vi
+        .mocked(webServer.fastifyServer.route)
+        .mock.calls.find((call: any) => call[0].url === '/orders')?.[0] as any;
+
+      expect(routeCall.preHandler).toHaveLength(2);
+      expect(typeof routeCall.onSend).toBe('function');
+    });
+
+    it('should authenticate requests before the idempotency hooks of routes authenticating in the handler', async () => {
+      const webServer = new WebServer({
+        applicationConfig,
+        options,
+        routes: [
+          { type: WebServerRouteType.Default, method: 'POST', path: '/orders', handler: vi.fn(), idempotency: true },
+        ] as WebServerRoute[],
+        redisInstance: mockRedisInstance as any,
+        queueManager: mockQueueManager as any,
+        eventManager: mockEventManager,
+        databaseInstance: mockDatabaseInstance as any,
+        lifecycleManager: mockLifecycleManager,
+      });
+
+      await webServer.load();
+
+      const routeCall = vi
+        .mocked(webServer.fastifyServer.route)
+        .mock.calls.find((call: any) => call[0].url === '/orders')?.[0] as any;
+
+      expect(routeCall.preHandler).toHaveLength(2);
+    });
+
+    it('should attach a guard preHandler to routes requiring permissions', async () => {
+      routes = [
+        {
+          type: WebServerRouteType.Default,
+          method: 'POST',
+          path: '/posts',
+          handler: vi.fn(),
+          requires: ['posts:write'],
+        } as WebServerRoute,
+      ];
+
+      const webServer = new WebServer({
+        applicationConfig,
+        options,
+        routes,
+        redisInstance: mockRedisInstance as any,
+        queueManager: mockQueueManager as any,
+        eventManager: mockEventManager,
+        databaseInstance: mockDatabaseInstance as any,
+        lifecycleManager: mockLifecycleManager,
+      });
+
+      await webServer.load();
+
+      const routeCalls = vi.mocked(webServer.fastifyServer.route).mock.calls;
+      const postsRouteCall = routeCalls.find((call: any) => call[0].url === '/posts');
+
+      expect(typeof (postsRouteCall?.[0] as any).preHandler).toBe('function');
+    });
+
+    it('should add the queue admin routes when enabled', async () => {
+      const webServer = new WebServer({
+        applicationConfig,
+        options: { ...options, queueAdmin: { enabled: true, path: '/ops/queues', requires: ['queues:admin'] } },
+        routes: [],
+        redisInstance: mockRedisInstance as any,
+        queueManager: mockQueueManager as any,
+        eventManager: mockEventManager,
+        databaseInstance: mockDatabaseInstance as any,
+        lifecycleManager: mockLifecycleManager,
+      });
+
+      await webServer.load();
+
+      const routeCalls = vi.mocked(webServer.fastifyServer.route).mock.calls;
+      const jobsRouteCall = routeCalls.find((call: any) => call[0].url === '/ops/queues/:queueId/jobs');
+
+      expect(jobsRouteCall?.[0]).toMatchObject({ method: 'GET' });
+      expect(typeof (jobsRouteCall?.[0] as any).preHandler).toBe('function');
+    });
+
+    it('should not serve the OpenAPI document by default', async () => {
+      const webServer = new WebServer({
+        applicationConfig,
+        options,
+        routes,
+        redisInstance: mockRedisInstance as any,
+        queueManager: mockQueueManager as any,
+        eventManager: mockEventManager,
+        databaseInstance: mockDatabaseInstance as any,
+        lifecycleManager: mockLifecycleManager,
+      });
+
+      await webServer.load();
+
+      const routeCalls = vi.mocked(webServer.fastifyServer.route).mock.calls;
+
+      expect(routeCalls.some((call: any) => call[0].url === '/openapi.json')).toBe(false);
+    });
+
     it('should skip security configuration when disabled', async () => {
       const webServer = new WebServer({
         applicationConfig,
@@ -750,4 +1220,46 @@ describe('WebServer', () => {
       expect(LoggerModule.Logger.warn).toHaveBeenCalled();
     });
   });
+
+  describe('tenant resolution', () => {
+    class Invoice {
+      static tenantScoped = true;
+    }
+
+    const entityManager = { getMetadata: () => ({ getByClassName: () => ({ class: Invoice }) }) } as any;
+
+    const createTenantWebServer = (tenancy: ApplicationConfig['tenancy']) =>
+      new WebServer({
+        applicationConfig: { ...applicationConfig, tenancy },
+        options,
+        routes: [],
+        redisInstance: mockRedisInstance as any,
+        queueManager: mockQueueManager as any,
+        eventManager: mockEventManager,
+        databaseInstance: mockDatabaseInstance as any,
+        lifecycleManager: mockLifecycleManager,
+      });
+
+    // Resolve the tenant of an unauthenticated GET /invoices, then build the tenant filter of its getMany query
+    const getUnauthenticatedInvoiceFilter = (webServer: WebServer) =>
+      runWithContextAsync({ requestId: 'request-1' }, async () => {
+        const reply = { status: vi.fn().mockReturnThis(), send: vi.fn().mockReturnThis(), request: { id: '1' } };
+
+        await (webServer as any).resolveTenant({ method: 'GET', url: '/invoices', headers: {} }, reply);
+
+        return (TenantScope.tenantFilter.cond as any)({}, 'read', entityManager, undefined, 'Invoice');
+      });
+
+    it('should not let unauthenticated requests read tenant data with the jwt resolver', async () => {
+      await expect(
+        getUnauthenticatedInvoiceFilter(createTenantWebServer({ enabled: true, resolver: 'jwt' })),
+      ).resolves.toEqual({ tenantId: { $in: [] } });
+    });
+
+    it('should leave requests unscoped when the tenant is not required', async () => {
+      await expect(
+        getUnauthenticatedInvoiceFilter(createTenantWebServer({ enabled: true, resolver: 'jwt', required: false })),
+      ).resolves.toEqual({});
+    });
+  });
 });
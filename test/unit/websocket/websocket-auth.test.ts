@@ -21,6 +21,9 @@ describe('WebSocketAuthService', () => {
       },
     } as WebApplicationConfig;
 
+    vi.mocked(Jwt.isConfigured).mockImplementation(((config?: { jwtSecretKey?: string }) =>
+      Boolean(config?.jwtSecretKey)) as typeof Jwt.isConfigured);
+
     authService = new WebSocketAuthService(mockConfig);
   });
 
@@ -43,11 +46,9 @@ describe('WebSocketAuthService', () => {
     });
 
     it('should validate token and return userId and payload', async () => {
-      const mockSecretKey = { type: 'secret' } as any;
       const mockPayload = { sub: '123', email: 'test@example.com' };
 
-      vi.mocked(Jwt.importJwtSecretKey).mockResolvedValue(mockSecretKey);
-      vi.mocked(Jwt.jwtVerify).mockResolvedValue({ payload: mockPayload } as any);
+      vi.mocked(Jwt.verifyToken).mockResolvedValue(mockPayload);
 
       const result = await authService.validateAuth('ws://localhost:3000?token=valid-token');
 
@@ -55,18 +56,13 @@ describe('WebSocketAuthService', () => {
         userId: 123,
         payload: mockPayload,
       });
-      expect(Jwt.importJwtSecretKey).toHaveBeenCalledWith({
-        jwtSecretKey: 'test-secret-key',
-      });
-      expect(Jwt.jwtVerify).toHaveBeenCalledWith('valid-token', mockSecretKey);
+      expect(Jwt.verifyToken).toHaveBeenCalledWith({ config: mockConfig.auth, token: 'valid-token', type: 'access' });
     });
 
     it('should throw error when userId is invalid', async () => {
-      const mockSecretKey = { type: 'secret' } as any;
       const mockPayload = { sub: 'invalid', email: 'test@example.com' };
 
-      vi.mocked(Jwt.importJwtSecretKey).mockResolvedValue(mockSecretKey);
-      vi.mocked(Jwt.jwtVerify).mockResolvedValue({ payload: mockPayload } as any);
+      vi.mocked(Jwt.verifyToken).mockResolvedValue(mockPayload);
 
       await expect(authService.validateAuth('ws://localhost:3000?token=invalid-token')).rejects.toThrow(
         'Invalid user ID in token',
@@ -74,16 +70,25 @@ describe('WebSocketAuthService', () => {
     });
 
     it('should throw error when JWT verification fails', async () => {
-      const mockSecretKey = { type: 'secret' } as any;
-
-      vi.mocked(Jwt.importJwtSecretKey).mockResolvedValue(mockSecretKey);
-      vi.mocked(Jwt.jwtVerify).mockRejectedValue(new Error('Token expired'));
+      vi.mocked(Jwt.verifyToken).mockRejectedValue(new Error('Token expired'));
 
       await expect(authService.validateAuth('ws://localhost:3000?token=expired-token')).rejects.toThrow(
         'JWT verification failed: Token expired',
       );
     });
 
+    it('should reject revoked tokens', async () => {
+      const redisInstance = { client: { exists: vi.fn().mockResolvedValue(1) } } as any;
+      const authServiceWithRedis = new WebSocketAuthService(mockConfig, redisInstance);
+
+      vi.mocked(Jwt.verifyToken).mockResolvedValue({ sub: '123', jti: 'token-1', fid: 'family-1' });
+
+      await expect(authServiceWithRedis.validateAuth('ws://localhost:3000?token=revoked-token')).rejects.toThrow(
+        'JWT verification failed: Token has been revoked',
+      );
+      expect(redisInstance.client.exists).toHaveBeenCalledWith('auth:revoked:token-1', 'auth:revoked-family:family-1');
+    });
+
     it('should handle malformed URLs gracefully', async () => {
       const result = await authService.validateAuth('ws://localhost:3000?malformed');
 
@@ -91,11 +96,9 @@ describe('WebSocketAuthService', () => {
     });
 
     it('should extract token from query parameters correctly', async () => {
-      const mockSecretKey = { type: 'secret' } as any;
       const mockPayload = { sub: '456' };
 
-      vi.mocked(Jwt.importJwtSecretKey).mockResolvedValue(mockSecretKey);
-      vi.mocked(Jwt.jwtVerify).mockResolvedValue({ payload: mockPayload } as any);
+      vi.mocked(Jwt.verifyToken).mockResolvedValue(mockPayload);
 
       const result = await authService.validateAuth('ws://localhost:3000/path?token=test-token&other=param');
 